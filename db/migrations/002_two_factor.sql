@@ -0,0 +1,9 @@
+-- Two-factor sign-in: the encrypted TOTP secret (and one being enrolled),
+-- hashed recovery codes, and the last accepted time step so codes work once.
+-- One column per statement, as SQLite's ALTER TABLE requires.
+
+ALTER TABLE users ADD COLUMN two_factor_secret TEXT;
+ALTER TABLE users ADD COLUMN two_factor_pending_secret TEXT;
+ALTER TABLE users ADD COLUMN two_factor_enabled_at TIMESTAMPTZ;
+ALTER TABLE users ADD COLUMN two_factor_recovery_codes JSONB;
+ALTER TABLE users ADD COLUMN two_factor_last_step BIGINT;
@@ -0,0 +1,14 @@
+-- Refresh-token families: every token rotated from one sign-in shares a
+-- family, so reuse of a retired token can end the whole family. Sessions also
+-- record the device they were started from and why they ended.
+-- One column per statement, as SQLite's ALTER TABLE requires.
+
+ALTER TABLE user_sessions ADD COLUMN family_id TEXT;
+ALTER TABLE user_sessions ADD COLUMN signed_in_at TIMESTAMPTZ;
+ALTER TABLE user_sessions ADD COLUMN ip_address TEXT;
+ALTER TABLE user_sessions ADD COLUMN user_agent TEXT;
+ALTER TABLE user_sessions ADD COLUMN ended_reason TEXT;
+
+UPDATE user_sessions SET family_id = id, signed_in_at = created_at WHERE family_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS user_sessions_family_id_idx ON user_sessions (family_id);
@@ -0,0 +1,3 @@
+-- Verification links are looked up by their token
+
+CREATE INDEX IF NOT EXISTS users_email_verification_token_idx ON users (email_verification_token);
@@ -0,0 +1,11 @@
+-- Login challenges answered with a second factor, so each challenge token
+-- signs in once. Rows are pruned once the challenge has expired.
+
+CREATE TABLE IF NOT EXISTS used_two_factor_challenges (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS used_two_factor_challenges_expires_at_idx ON used_two_factor_challenges (expires_at);
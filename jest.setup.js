@@ -88,20 +88,25 @@ global.ResizeObserver = class ResizeObserver {
   }
 }
 
+// API route suites run in the node environment, which has no window
+const hasWindow = typeof window !== 'undefined'
+
 // Mock matchMedia
-Object.defineProperty(window, 'matchMedia', {
-  writable: true,
-  value: jest.fn().mockImplementation(query => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: jest.fn(), // deprecated
-    removeListener: jest.fn(), // deprecated
-    addEventListener: jest.fn(),
-    removeEventListener: jest.fn(),
-    dispatchEvent: jest.fn(),
-  })),
-})
+if (hasWindow) {
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: jest.fn().mockImplementation(query => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: jest.fn(), // deprecated
+      removeListener: jest.fn(), // deprecated
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+      dispatchEvent: jest.fn(),
+    })),
+  })
+}
 
 // Mock localStorage
 const localStorageMock = {
@@ -110,9 +115,11 @@ const localStorageMock = {
   removeItem: jest.fn(),
   clear: jest.fn(),
 }
-Object.defineProperty(window, 'localStorage', {
-  value: localStorageMock
-})
+if (hasWindow) {
+  Object.defineProperty(window, 'localStorage', {
+    value: localStorageMock
+  })
+}
 
 // Mock sessionStorage
 const sessionStorageMock = {
@@ -121,9 +128,11 @@ const sessionStorageMock = {
   removeItem: jest.fn(),
   clear: jest.fn(),
 }
-Object.defineProperty(window, 'sessionStorage', {
-  value: sessionStorageMock
-})
+if (hasWindow) {
+  Object.defineProperty(window, 'sessionStorage', {
+    value: sessionStorageMock
+  })
+}
 
 // Mock fetch
 global.fetch = jest.fn()
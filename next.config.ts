@@ -1,5 +1,24 @@
 import type { NextConfig } from "next";
 
+/**
+ * Origins allowed to frame the pages LMSs embed: the platforms registered in
+ * `LTI_PLATFORMS` and any listed in `LTI_FRAME_ANCESTORS`. Empty without LTI.
+ */
+function ltiFrameAncestors(): string[] {
+  const origins = new Set((process.env.LTI_FRAME_ANCESTORS ?? '').split(/\s+/).filter(Boolean));
+  try {
+    const platforms = JSON.parse(process.env.LTI_PLATFORMS || '[]');
+    for (const platform of Array.isArray(platforms) ? platforms : []) {
+      for (const url of [platform?.issuer, platform?.authLoginUrl]) {
+        if (typeof url === 'string' && /^https:\/\//.test(url)) origins.add(new URL(url).origin);
+      }
+    }
+  } catch {
+    // ServerLti reports an invalid LTI_PLATFORMS when the first launch arrives
+  }
+  return Array.from(origins);
+}
+
 const nextConfig: NextConfig = {
   // Production optimizations
   compress: true,
@@ -31,14 +50,11 @@ const nextConfig: NextConfig = {
   
   // Security headers
   async headers() {
+    const frameAncestors = ltiFrameAncestors();
     return [
       {
         source: '/(.*)',
         headers: [
-          {
-            key: 'X-Frame-Options',
-            value: 'DENY',
-          },
           {
             key: 'X-Content-Type-Options',
             value: 'nosniff',
@@ -53,6 +69,27 @@ const nextConfig: NextConfig = {
           },
         ],
       },
+      {
+        // Everything except the pages LMSs embed through LTI launches
+        source: '/((?!lessons|lti|api/lti).*)',
+        headers: [
+          {
+            key: 'X-Frame-Options',
+            value: 'DENY',
+          },
+        ],
+      },
+      ...['/lessons/:path*', '/lti/:path*', '/api/lti/:path*'].map(source => ({
+        source,
+        headers: [
+          {
+            key: 'Content-Security-Policy',
+            value: ["frame-ancestors 'self'", ...frameAncestors].join(' '),
+          },
+          // For browsers without frame-ancestors; it cannot list other origins
+          ...(frameAncestors.length === 0 ? [{ key: 'X-Frame-Options', value: 'SAMEORIGIN' }] : []),
+        ],
+      })),
     ];
   },
   
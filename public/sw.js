@@ -5,6 +5,8 @@ const CACHE_NAME = 'tahitian-tutor-v1';
 const STATIC_CACHE_NAME = 'tahitian-tutor-static-v1';
 const DYNAMIC_CACHE_NAME = 'tahitian-tutor-dynamic-v1';
 const API_CACHE_NAME = 'tahitian-tutor-api-v1';
+// Lessons and media downloaded as offline packs; managed by the app, never expired here
+const PACK_CACHE_NAME = 'tahitian-tutor-packs-v1';
 
 // Cache strategies
 const CACHE_STRATEGIES = {
@@ -28,9 +30,9 @@ const STATIC_ASSETS = [
 
 // API endpoints to cache
 const API_CACHE_PATTERNS = [
-  /^\/api\/vocabulary\//,
-  /^\/api\/lessons\//,
-  /^\/api\/progress\//,
+  /^\/api\/vocabulary(\/|$)/,
+  /^\/api\/lessons(\/|$)/,
+  /^\/api\/progress(\/|$)/,
   /^\/api\/user\/profile$/
 ];
 
@@ -91,7 +93,8 @@ self.addEventListener('activate', (event) => {
                      ![
                        STATIC_CACHE_NAME,
                        DYNAMIC_CACHE_NAME,
-                       API_CACHE_NAME
+                       API_CACHE_NAME,
+                       PACK_CACHE_NAME
                      ].includes(cacheName);
             })
             .map((cacheName) => {
@@ -129,6 +132,15 @@ async function handleRequest(request) {
   const pathname = url.pathname;
   
   try {
+    // Downloaded lesson data and media are revalidated against the network
+    // and served from their pack only when it is unreachable
+    if (request.mode !== 'navigate') {
+      const packed = await matchOfflinePack(request);
+      if (packed) {
+        return await networkFirstWithPack(request, packed);
+      }
+    }
+
     // Determine caching strategy based on request type
     if (isStaticAsset(pathname)) {
       return await cacheFirst(request, STATIC_CACHE_NAME);
@@ -189,16 +201,24 @@ async function cacheFirst(request, cacheName) {
 // Network First - good for dynamic content
 async function networkFirst(request, cacheName) {
   const cache = await caches.open(cacheName);
+  const cachedResponse = await cache.match(request);
+  const etag = cachedResponse && cachedResponse.headers.get('etag');
   
   try {
-    const networkResponse = await fetch(request);
+    // Revalidate with the cached ETag so unchanged responses come back as an empty 304
+    const networkRequest = etag && !request.headers.has('if-none-match')
+      ? new Request(request, { headers: withHeader(request.headers, 'If-None-Match', etag) })
+      : request;
+    const networkResponse = await fetch(networkRequest);
+    if (networkResponse.status === 304 && cachedResponse) {
+      return cachedResponse;
+    }
     if (networkResponse.ok) {
       await cache.put(request, networkResponse.clone());
       await limitCacheSize(cacheName, MAX_CACHE_SIZES[cacheName]);
     }
     return networkResponse;
   } catch (error) {
-    const cachedResponse = await cache.match(request);
     if (cachedResponse) {
       return cachedResponse;
     }
@@ -229,6 +249,25 @@ async function staleWhileRevalidate(request, cacheName) {
   return await networkPromise;
 }
 
+// Network First over an offline pack entry - the pack is a fallback, never
+// fresher than the server. The pack itself is left to the app to update
+async function networkFirstWithPack(request, packed) {
+  const etag = packed.headers.get('etag');
+  
+  try {
+    const networkRequest = etag && !request.headers.has('if-none-match')
+      ? new Request(request, { headers: withHeader(request.headers, 'If-None-Match', etag) })
+      : request;
+    const networkResponse = await fetch(networkRequest);
+    if (networkResponse.status === 304 || networkResponse.status >= 500) {
+      return packed;
+    }
+    return networkResponse;
+  } catch {
+    return packed;
+  }
+}
+
 // Network Only - for requests that should never be cached
 async function networkOnly(request) {
   return await fetch(request);
@@ -247,7 +286,7 @@ async function networkFirstWithOfflineFallback(request) {
     return networkResponse;
   } catch (error) {
     // Try cache first
-    const cachedResponse = await cache.match(request);
+    const cachedResponse = await cache.match(request) || await matchOfflinePack(request);
     if (cachedResponse) {
       return cachedResponse;
     }
@@ -269,7 +308,7 @@ async function handleOfflineRequest(request) {
   const cache = await caches.open(DYNAMIC_CACHE_NAME);
   
   // Try to find cached response
-  const cachedResponse = await cache.match(request);
+  const cachedResponse = await cache.match(request) || await matchOfflinePack(request);
   if (cachedResponse) {
     return cachedResponse;
   }
@@ -319,6 +358,17 @@ function isAPIRequest(pathname) {
   return pathname.startsWith('/api/');
 }
 
+async function matchOfflinePack(request) {
+  const cache = await caches.open(PACK_CACHE_NAME);
+  return cache.match(request, { ignoreVary: true });
+}
+
+function withHeader(headers, name, value) {
+  const copy = new Headers(headers);
+  copy.set(name, value);
+  return copy;
+}
+
 function matchesPatterns(pathname, patterns) {
   return patterns.some(pattern => pattern.test(pathname));
 }
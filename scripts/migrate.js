@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+
+/**
+ * Applies the SQL migrations in db/migrations to the database at DATABASE_URL
+ *
+ *   npm run db:migrate               apply pending migrations
+ *   npm run db:migrate -- --status   list applied and pending migrations
+ */
+
+const { loadEnv, connect, listMigrations, migrate } = require('./db');
+
+async function printStatus(db) {
+  await db.exec('CREATE TABLE IF NOT EXISTS schema_migrations (id TEXT PRIMARY KEY, applied_at TEXT NOT NULL)');
+  const applied = new Map((await db.query('SELECT id, applied_at FROM schema_migrations')).map(row => [row.id, row.applied_at]));
+
+  for (const { id } of listMigrations()) {
+    console.log(applied.has(id) ? `✅ ${id} (applied ${applied.get(id)})` : `⏳ ${id} (pending)`);
+  }
+}
+
+async function main() {
+  loadEnv();
+  const db = await connect();
+  console.log(`🗄️  ${db.dialect} database: ${db.description}`);
+
+  try {
+    if (process.argv.includes('--status')) {
+      await printStatus(db);
+      return;
+    }
+
+    const ran = await migrate(db, { log: message => console.log(`  ${message}`) });
+    console.log(ran.length > 0 ? `\n✅ Applied ${ran.length} migration(s)` : '\n✅ Database is up to date');
+  } finally {
+    await db.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(`\n❌ ${error.message}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+
+/**
+ * Adds demo accounts to the database at DATABASE_URL, for local development
+ * and integration tests. Accounts that already exist are left alone. Run
+ * `npm run db:migrate` first.
+ *
+ *   npm run db:seed
+ *   npm run db:seed -- --force   also outside development (NODE_ENV=production)
+ */
+
+const crypto = require('crypto');
+const { loadEnv, connect } = require('./db');
+
+const DEMO_ACCOUNTS = [
+  { email: 'admin@tahitian-tutor.com', name: 'Admin Tahiti', role: 'admin', password: 'Admin1234' },
+  { email: 'instructor@tahitian-tutor.com', name: 'Teuira Instructor', role: 'instructor', password: 'Instructor1234' },
+  { email: 'student@tahitian-tutor.com', name: 'Hina Student', role: 'student', password: 'Student1234' }
+];
+
+// Same defaults as POST /api/auth/register
+const DEFAULT_PREFERENCES = {
+  language: 'en',
+  theme: 'system',
+  notifications: { email: true, push: true, lessons: true, progress: true },
+  learningGoals: { dailyMinutes: 30, weeklyLessons: 5, difficulty: 'beginner' }
+};
+
+async function seedAccounts(db) {
+  let bcrypt;
+  try {
+    bcrypt = require('bcryptjs');
+  } catch {
+    throw new Error('Install bcryptjs to seed accounts: npm install bcryptjs');
+  }
+
+  const created = [];
+  for (const account of DEMO_ACCOUNTS) {
+    const existing = await db.query('SELECT id FROM users WHERE email = ?', [account.email]);
+    if (existing.length > 0) continue;
+
+    const now = new Date().toISOString();
+    await db.query(
+      `INSERT INTO users (id, email, name, role, password_hash, preferences, is_email_verified, is_active, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        crypto.randomUUID(),
+        account.email,
+        account.name,
+        account.role,
+        await bcrypt.hash(account.password, 12),
+        JSON.stringify(DEFAULT_PREFERENCES),
+        true,
+        true,
+        now,
+        now
+      ]
+    );
+    created.push(account);
+  }
+  return created;
+}
+
+async function main() {
+  loadEnv();
+  if (process.env.NODE_ENV === 'production' && !process.argv.includes('--force')) {
+    throw new Error('Refusing to add demo accounts with NODE_ENV=production; pass --force to do it anyway');
+  }
+
+  const db = await connect();
+  try {
+    const created = await seedAccounts(db);
+    if (created.length === 0) {
+      console.log('✅ Demo accounts already exist');
+      return;
+    }
+    console.log('✅ Added demo accounts:');
+    created.forEach(account => console.log(`  - ${account.email} / ${account.password} (${account.role})`));
+  } finally {
+    await db.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
+}
+
+module.exports = { DEMO_ACCOUNTS, seedAccounts };
@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { ArrowLeft, Plus, Save, Download, Eye } from 'lucide-react';
+import AdminLayout from '@/components/admin/AdminLayout';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import { LessonEditor } from '@/components/admin/authoring/LessonEditor';
+import { useAdminService } from '@/lib/hooks/useAdminService';
+import {
+  createLesson,
+  hasBlockingIssues,
+  prepareLessonForSave,
+  slugify,
+  validateLessonDraft
+} from '@/lib/authoring/LessonAuthoring';
+import type { LessonSchemaIssue } from '@/lib/data/LessonNormalizer';
+import type { Course, Lesson, LessonLevel, MediaAsset } from '@/types';
+
+const LEVELS: LessonLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
+
+export default function CourseEditPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { getCourse, updateCourse, isLoading } = useAdminService();
+  const courseId = parseInt(params.id as string);
+
+  const [course, setCourse] = useState<Course | null>(null);
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [mediaAssets, setMediaAssets] = useState<MediaAsset[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [issues, setIssues] = useState<LessonSchemaIssue[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+  const [newLevel, setNewLevel] = useState<LessonLevel>('Beginner');
+
+  const mediaIds = useMemo(() => new Set(mediaAssets.map(asset => asset.id)), [mediaAssets]);
+  const activeLesson = lessons[activeIndex];
+
+  useEffect(() => {
+    if (!courseId) return;
+    getCourse(courseId).then(data => {
+      if (!data) return;
+      setCourse(data);
+      setLessons(data.lessons ?? []);
+      setMediaAssets(data.mediaAssets ?? []);
+      setNewLevel(data.level);
+    });
+  }, [courseId, getCourse]);
+
+  // Warn before leaving with unsaved edits
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  const updateLesson = (lesson: Lesson) => {
+    setLessons(prev => prev.map((current, i) => (i === activeIndex ? lesson : current)));
+    setIsDirty(true);
+  };
+
+  const addMedia = (assets: MediaAsset[]) => {
+    setMediaAssets(prev => [...prev, ...assets]);
+    setIsDirty(true);
+  };
+
+  const selectLesson = (index: number) => {
+    setActiveIndex(index);
+    setIssues([]);
+  };
+
+  const addLesson = () => {
+    const slug = slugify(newTitle);
+    if (!slug) return;
+    if (lessons.some(lesson => lesson.slug === slug)) {
+      toast.error(`A lesson with the slug "${slug}" already exists`);
+      return;
+    }
+    setLessons(prev => [...prev, createLesson(slug, newLevel, newTitle.trim())]);
+    selectLesson(lessons.length);
+    setNewTitle('');
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    setIssues(activeLesson ? validateLessonDraft(activeLesson, mediaIds) : []);
+
+    const invalid = lessons.filter(lesson => hasBlockingIssues(validateLessonDraft(lesson, mediaIds)));
+    if (invalid.length > 0) {
+      toast.error(`Fix the problems in: ${invalid.map(lesson => lesson.title.fr || lesson.slug).join(', ')}`);
+      return;
+    }
+    const duplicate = lessons.find((lesson, index) => lessons.findIndex(other => other.slug === lesson.slug) !== index);
+    if (duplicate) {
+      toast.error(`Two lessons use the slug "${duplicate.slug}"`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = lessons.map(lesson => prepareLessonForSave(lesson));
+      const updated = await updateCourse(courseId, { lessons: saved, mediaAssets });
+      if (!updated) throw new Error('Course was not saved');
+      setCourse(updated);
+      setLessons(saved);
+      setIsDirty(false);
+      toast.success('Lessons saved');
+    } catch (error) {
+      console.error('Failed to save lessons:', error);
+      toast.error('Failed to save lessons');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Downloads the lesson in the canonical lesson file format, ready to drop
+   * into public/data/lessons
+   */
+  const handleExport = () => {
+    if (!activeLesson) return;
+    const issuesFound = validateLessonDraft(activeLesson, mediaIds);
+    setIssues(issuesFound);
+    if (hasBlockingIssues(issuesFound)) {
+      toast.error('Fix the problems above before exporting');
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(prepareLessonForSave(activeLesson), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${activeLesson.slug}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isLoading && !course) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (!course) {
+    return (
+      <AdminLayout>
+        <div className="text-center py-12">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Course not found</h2>
+          <Button onClick={() => router.push('/admin/dashboard')}>Back to dashboard</Button>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="px-4 sm:px-6 lg:px-8 space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" onClick={() => router.push(`/admin/courses/${courseId}/preview`)} ariaLabel="Back to course preview">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{course.title.en || course.title.fr}</h1>
+              <p className="text-sm text-gray-600">Lesson content</p>
+            </div>
+            {isDirty && <Badge variant="warning" size="sm">Unsaved changes</Badge>}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => router.push(`/admin/courses/${courseId}/preview`)}>
+              <Eye className="h-4 w-4 mr-2" />
+              Preview
+            </Button>
+            <Button variant="outline" onClick={handleExport} disabled={!activeLesson}>
+              <Download className="h-4 w-4 mr-2" />
+              Export JSON
+            </Button>
+            <Button onClick={handleSave} loading={isSaving} disabled={!isDirty}>
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        </div>
+
+        {/* Lesson tabs */}
+        <Card className="p-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {lessons.map((lesson, index) => (
+              <Button
+                key={index}
+                variant={index === activeIndex ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => selectLesson(index)}
+              >
+                {lesson.title.fr || lesson.slug}
+              </Button>
+            ))}
+            <div className="flex items-center gap-2 ml-auto">
+              <input
+                type="text"
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addLesson()}
+                placeholder="New lesson title (fr)"
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <select
+                value={newLevel}
+                onChange={(e) => setNewLevel(e.target.value as LessonLevel)}
+                className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                aria-label="Level of the new lesson"
+              >
+                {LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+              </select>
+              <Button size="sm" onClick={addLesson} disabled={!slugify(newTitle)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add lesson
+              </Button>
+            </div>
+          </div>
+        </Card>
+
+        {activeLesson ? (
+          <LessonEditor
+            key={activeIndex}
+            lesson={activeLesson}
+            mediaAssets={mediaAssets}
+            issues={issues}
+            onChange={updateLesson}
+            onMediaAdded={addMedia}
+            collaborationRoom={activeLesson.slug ? `course-${courseId}:${activeLesson.slug}` : undefined}
+          />
+        ) : (
+          <Card className="p-12 text-center text-gray-500">
+            This course has no lessons yet. Give the first one a title above.
+          </Card>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -9,9 +9,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/AlertDialog';
+import { CourseExportMenu } from '@/components/admin/export/CourseExportMenu';
+import { LessonAnnotator } from '@/components/admin/annotations/LessonAnnotator';
+import { integrationService } from '@/services/IntegrationService';
+import CollaborationService from '@/services/CollaborationService';
+import { applicableSteps, COURSE_CONTENT_TYPE, isOverdue, type PublishGate } from '@/lib/review/ReviewWorkflow';
 import { toast } from 'sonner';
-import { ArrowLeft, Eye, Play, Volume2, Image, FileText, Globe, Clock, Users, Tag, CheckCircle, AlertTriangle, Edit } from 'lucide-react';
+import { ArrowLeft, Eye, Play, Volume2, Image, FileText, Globe, Clock, Users, Tag, CheckCircle, AlertTriangle, Edit, ClipboardCheck, Send } from 'lucide-react';
 import type { Course, Lesson, MediaAsset } from '@/types';
+import type { ReviewRequest, ReviewWorkflow } from '@/types/collaboration';
 
 export default function CoursePreviewPage() {
   const params = useParams();
@@ -22,6 +28,11 @@ export default function CoursePreviewPage() {
   const [selectedLesson, setSelectedLesson] = useState<Lesson | null>(null);
   const [isPublishing, setIsPublishing] = useState(false);
   const [previewMode, setPreviewMode] = useState<'student' | 'admin'>('student');
+  const [collaborationService] = useState(() => new CollaborationService());
+  const [review, setReview] = useState<ReviewRequest | null>(null);
+  const [workflow, setWorkflow] = useState<ReviewWorkflow | null>(null);
+  const [publishGate, setPublishGate] = useState<PublishGate | null>(null);
+  const [isSubmittingReview, setIsSubmittingReview] = useState(false);
 
   const courseId = parseInt(params.id as string);
 
@@ -38,6 +49,40 @@ export default function CoursePreviewPage() {
       if (courseData.lessons && courseData.lessons.length > 0) {
         setSelectedLesson(courseData.lessons[0]);
       }
+      await loadReview(courseData);
+    }
+  };
+
+  const loadReview = async (courseData: Course) => {
+    try {
+      const [courseReview, courseWorkflow, gate] = await Promise.all([
+        collaborationService.getCourseReview(courseId),
+        collaborationService.getCourseWorkflow(),
+        collaborationService.getPublishGate(courseData)
+      ]);
+      setReview(courseReview);
+      setWorkflow(courseWorkflow);
+      setPublishGate(gate);
+    } catch (err) {
+      console.error('Failed to load course review:', err);
+    }
+  };
+
+  const handleSubmitForReview = async () => {
+    if (!course) return;
+
+    setIsSubmittingReview(true);
+    try {
+      await collaborationService.submitCourseForReview(course);
+      const updated = await updateCourse(courseId, { status: 'review' });
+      const submitted = updated ?? { ...course, status: 'review' as const };
+      setCourse(submitted);
+      await loadReview(submitted);
+      toast.success('Course submitted for review');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to submit course for review');
+    } finally {
+      setIsSubmittingReview(false);
     }
   };
 
@@ -46,10 +91,22 @@ export default function CoursePreviewPage() {
     
     setIsPublishing(true);
     try {
+      // The data service refuses unapproved courses as well; checking first lets us say why.
+      // The course or its review may have changed since the page loaded.
+      const gate = await collaborationService.getPublishGate(course);
+      if (!gate.allowed) {
+        setPublishGate(gate);
+        toast.error(gate.reason ?? 'The course has not been approved for publishing');
+        return;
+      }
+
       const updated = await updateCourse(courseId, { status: 'published' });
       if (updated) {
         toast.success('Course published successfully!');
         setCourse({ ...course, status: 'published' });
+        integrationService.notifyCoursePublished(courseId, course.title.fr).catch(notifyError => {
+          console.error('Failed to notify webhooks:', notifyError);
+        });
       }
     } catch (err) {
       toast.error('Failed to publish course');
@@ -183,11 +240,13 @@ export default function CoursePreviewPage() {
               <Edit className="h-4 w-4 mr-2" />
               Edit Course
             </Button>
+            <CourseExportMenu course={course} />
             {course.status !== 'published' && (
               <AlertDialog>
                 <AlertDialogTrigger asChild>
                   <Button
-                    disabled={!validation.isValid || isPublishing}
+                    disabled={!validation.isValid || !publishGate?.allowed || isPublishing}
+                    title={publishGate?.reason}
                     className="bg-green-600 hover:bg-green-700"
                   >
                     {isPublishing ? 'Publishing...' : 'Publish Course'}
@@ -243,12 +302,92 @@ export default function CoursePreviewPage() {
             <CardContent className="pt-6">
               <div className="flex items-center text-green-800">
                 <CheckCircle className="h-5 w-5 mr-2" />
-                <span className="font-medium">Course is ready for publishing</span>
+                <span className="font-medium">
+                  {publishGate?.allowed ? 'Course is ready for publishing' : 'Course content is complete'}
+                </span>
               </div>
             </CardContent>
           </Card>
         )}
 
+        {/* Editorial Review */}
+        {course.status !== 'published' && workflow && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center">
+                    <ClipboardCheck className="h-5 w-5 mr-2" />
+                    Editorial Review
+                  </CardTitle>
+                  <CardDescription>
+                    {publishGate?.allowed ? 'Every step has signed off this version of the course' : publishGate?.reason}
+                  </CardDescription>
+                </div>
+                {(!review || review.status === 'pending' || review.status === 'rejected' || (review.status === 'approved' && !publishGate?.allowed)) && (
+                  <Button
+                    variant="outline"
+                    onClick={handleSubmitForReview}
+                    disabled={!validation.isValid || isSubmittingReview}
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    {isSubmittingReview ? 'Submitting...' : review?.status === 'pending' ? 'Resubmit for Review' : 'Submit for Review'}
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-3">
+                {applicableSteps(workflow, { contentType: COURSE_CONTENT_TYPE, contentSize: course.lessons.length }).map(step => {
+                  const steps = workflow.steps.map(candidate => candidate.id);
+                  const current = review?.status === 'in_review' && review.currentStepId === step.id;
+                  const done = review?.status === 'approved'
+                    || (review?.status === 'in_review' && steps.indexOf(step.id) < steps.indexOf(review.currentStepId));
+                  const feedback = review?.feedback.filter(entry => entry.stepId === step.id).slice(-1)[0];
+
+                  return (
+                    <li key={step.id} className="flex items-start justify-between border rounded-md p-3">
+                      <div>
+                        <div className="font-medium flex items-center">
+                          {done && <CheckCircle className="h-4 w-4 mr-2 text-green-600" />}
+                          {step.name}
+                        </div>
+                        <p className="text-sm text-gray-600">{step.description}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Signed off by: {step.assignedRoles.map(role => role.replace('_', ' ')).join(', ')}
+                          {step.timeLimit ? ` · within ${step.timeLimit}h` : ''}
+                        </p>
+                        {feedback && feedback.decision !== 'approve' && (
+                          <p className="text-sm text-red-700 mt-1">{feedback.comments}</p>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        {done && <Badge className="bg-green-100 text-green-800">Approved</Badge>}
+                        {current && review && (
+                          <>
+                            <Badge className={isOverdue(review, new Date()) ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'}>
+                              {isOverdue(review, new Date()) ? 'Overdue' : 'In review'}
+                            </Badge>
+                            {review.dueDate && (
+                              <p className="text-xs text-gray-500 mt-1 flex items-center justify-end">
+                                <Clock className="h-3 w-3 mr-1" />
+                                Due {review.dueDate.toLocaleString()}
+                              </p>
+                            )}
+                          </>
+                        )}
+                        {!done && !current && review?.currentStepId === step.id && review.status !== 'approved' && (
+                          <Badge className="bg-red-100 text-red-800">{review.status === 'pending' ? 'Changes requested' : review.status}</Badge>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </CardContent>
+          </Card>
+        )}
+
         <Tabs defaultValue="overview" className="space-y-6">
           <TabsList>
             <TabsTrigger value="overview">Overview</TabsTrigger>
@@ -392,53 +531,65 @@ export default function CoursePreviewPage() {
               {/* Lesson Detail */}
               <div className="lg:col-span-2">
                 {selectedLesson ? (
-                  <Card>
-                    <CardHeader>
-                      <CardTitle>{selectedLesson.title.en}</CardTitle>
-                      <CardDescription>{selectedLesson.title.fr}</CardDescription>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div>
-                        <h4 className="font-medium mb-2">Description:</h4>
-                        <p className="text-gray-700 text-sm">{selectedLesson.description.en}</p>
-                        <p className="text-gray-600 text-sm italic mt-1">{selectedLesson.description.fr}</p>
-                      </div>
-                      
-                      <div className="grid grid-cols-3 gap-4 pt-4 border-t">
-                        <div>
-                          <span className="text-sm font-medium text-gray-700">Level:</span>
-                          <p className="text-gray-900">{selectedLesson.level}</p>
-                        </div>
-                        <div>
-                          <span className="text-sm font-medium text-gray-700">Duration:</span>
-                          <p className="text-gray-900">{selectedLesson.duration} min</p>
-                        </div>
+                  <div className="space-y-6">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>{selectedLesson.title.en}</CardTitle>
+                        <CardDescription>{selectedLesson.title.fr}</CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
                         <div>
-                          <span className="text-sm font-medium text-gray-700">Exercises:</span>
-                          <p className="text-gray-900">{selectedLesson.exercises?.length || 0}</p>
+                          <h4 className="font-medium mb-2">Description:</h4>
+                          <p className="text-gray-700 text-sm">{selectedLesson.description.en}</p>
+                          <p className="text-gray-600 text-sm italic mt-1">{selectedLesson.description.fr}</p>
                         </div>
-                      </div>
-                      
-                      {selectedLesson.vocabulary && selectedLesson.vocabulary.length > 0 && (
-                        <div className="pt-4 border-t">
-                          <h4 className="font-medium mb-2">Vocabulary ({selectedLesson.vocabulary.length}):</h4>
-                          <div className="grid grid-cols-2 gap-2 text-sm">
-                            {selectedLesson.vocabulary.slice(0, 6).map((vocab, index) => (
-                              <div key={index} className="bg-gray-50 p-2 rounded">
-                                <span className="font-medium">{vocab.tahitian}</span>
-                                <span className="text-gray-600 ml-2">- {vocab.english}</span>
-                              </div>
-                            ))}
-                            {selectedLesson.vocabulary.length > 6 && (
-                              <div className="text-gray-500 text-xs col-span-2">
-                                +{selectedLesson.vocabulary.length - 6} more items
-                              </div>
-                            )}
+                        
+                        <div className="grid grid-cols-3 gap-4 pt-4 border-t">
+                          <div>
+                            <span className="text-sm font-medium text-gray-700">Level:</span>
+                            <p className="text-gray-900">{selectedLesson.level}</p>
+                          </div>
+                          <div>
+                            <span className="text-sm font-medium text-gray-700">Duration:</span>
+                            <p className="text-gray-900">{selectedLesson.duration} min</p>
+                          </div>
+                          <div>
+                            <span className="text-sm font-medium text-gray-700">Exercises:</span>
+                            <p className="text-gray-900">{selectedLesson.exercises?.length || 0}</p>
                           </div>
                         </div>
-                      )}
-                    </CardContent>
-                  </Card>
+                        
+                        {selectedLesson.vocabulary && selectedLesson.vocabulary.length > 0 && (
+                          <div className="pt-4 border-t">
+                            <h4 className="font-medium mb-2">Vocabulary ({selectedLesson.vocabulary.length}):</h4>
+                            <div className="grid grid-cols-2 gap-2 text-sm">
+                              {selectedLesson.vocabulary.slice(0, 6).map((vocab, index) => (
+                                <div key={index} className="bg-gray-50 p-2 rounded">
+                                  <span className="font-medium">{vocab.tahitian}</span>
+                                  <span className="text-gray-600 ml-2">- {vocab.english}</span>
+                                </div>
+                              ))}
+                              {selectedLesson.vocabulary.length > 6 && (
+                                <div className="text-gray-500 text-xs col-span-2">
+                                  +{selectedLesson.vocabulary.length - 6} more items
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Annotations</CardTitle>
+                        <CardDescription>Dialect notes, accuracy concerns and cultural sensitivity flags on this lesson&apos;s text</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <LessonAnnotator lesson={selectedLesson} />
+                      </CardContent>
+                    </Card>
+                  </div>
                 ) : (
                   <Card>
                     <CardContent className="pt-6">
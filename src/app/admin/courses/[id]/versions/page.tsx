@@ -1,96 +1,105 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAdminService } from '@/lib/hooks/useAdminService';
-import { AdminLayout } from '@/components/admin/AdminLayout';
-import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
+import AdminLayout from '@/components/admin/AdminLayout';
+import Button from '@/components/ui/Button';
+import Card, { CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import Badge from '@/components/ui/Badge';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/AlertDialog';
+import { CourseDiffView } from '@/components/admin/collaboration/CourseDiffView';
+import { MergeConflictList } from '@/components/admin/collaboration/MergeConflictList';
+import { diffCourses, mergeCourses } from '@/lib/versioning/CourseDiff';
 import { toast } from 'sonner';
-import { ArrowLeft, Clock, User, RotateCcw, Eye, Download, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, Clock, RotateCcw, GitCompare, GitMerge, Download, AlertTriangle } from 'lucide-react';
 import type { Course, CourseVersion } from '@/types';
+import type { ConflictChoice } from '@/types/collaboration';
 
-interface CourseVersionWithDetails extends CourseVersion {
-  changes: string[];
-  author: string;
-  size: string;
-}
+/** Either a saved version number or the working copy */
+type SnapshotKey = number | 'current';
+
+const CURRENT: SnapshotKey = 'current';
+
+const snapshotLabel = (key: SnapshotKey) => (key === CURRENT ? 'Current' : `Version ${key}`);
+
+const SELECT_CLASS = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
 
 export default function CourseVersionsPage() {
   const params = useParams();
   const router = useRouter();
-  const { getCourse, createCourseVersion, restoreCourseVersion, isLoading, error } = useAdminService();
-  
+  const { getCourse, updateCourse, getCourseVersions, createCourseVersion, restoreCourseVersion, isLoading, error } = useAdminService();
+
   const [course, setCourse] = useState<Course | null>(null);
-  const [versions, setVersions] = useState<CourseVersionWithDetails[]>([]);
-  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [versions, setVersions] = useState<CourseVersion[]>([]);
   const [isCreatingVersion, setIsCreatingVersion] = useState(false);
   const [isRestoring, setIsRestoring] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+  const [compareFrom, setCompareFrom] = useState<SnapshotKey | null>(null);
+  const [compareTo, setCompareTo] = useState<SnapshotKey>(CURRENT);
+  const [mergeBase, setMergeBase] = useState<number | null>(null);
+  const [mergeSource, setMergeSource] = useState<number | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictChoice>>({});
 
   const courseId = parseInt(params.id as string);
+  const nextVersion = Math.max(0, ...versions.map(v => v.version)) + 1;
+
+  const loadCourseAndVersions = useCallback(async () => {
+    if (!courseId) return;
+
+    const [courseData, versionData] = await Promise.all([getCourse(courseId), getCourseVersions(courseId)]);
+    if (courseData) setCourse(courseData);
+    if (versionData) {
+      setVersions(versionData);
+      // Default to comparing the latest snapshot with the working copy and
+      // merging the latest snapshot using the one before it as ancestor
+      setCompareFrom(current => current ?? versionData[0]?.version ?? null);
+      setMergeSource(current => current ?? versionData[0]?.version ?? null);
+      setMergeBase(current => current ?? versionData[1]?.version ?? null);
+    }
+  }, [courseId, getCourse, getCourseVersions]);
 
   useEffect(() => {
     loadCourseAndVersions();
-  }, [courseId]);
+  }, [loadCourseAndVersions]);
 
-  const loadCourseAndVersions = async () => {
-    if (!courseId) return;
-    
-    const courseData = await getCourse(courseId);
-    if (courseData) {
-      setCourse(courseData);
-      
-      // Mock version data - in real implementation, this would come from the API
-      const mockVersions: CourseVersionWithDetails[] = [
-        {
-          id: 1,
-          courseId,
-          version: 3,
-          data: courseData,
-          createdAt: new Date('2024-01-15T10:30:00Z'),
-          changes: ['Updated lesson 3 audio', 'Fixed pronunciation exercises', 'Added cultural notes'],
-          author: 'Admin User',
-          size: '2.4 MB'
-        },
-        {
-          id: 2,
-          courseId,
-          version: 2,
-          data: courseData,
-          createdAt: new Date('2024-01-10T14:20:00Z'),
-          changes: ['Added new vocabulary items', 'Updated course description'],
-          author: 'Content Manager',
-          size: '2.1 MB'
-        },
-        {
-          id: 3,
-          courseId,
-          version: 1,
-          data: courseData,
-          createdAt: new Date('2024-01-05T09:15:00Z'),
-          changes: ['Initial course creation'],
-          author: 'Admin User',
-          size: '1.8 MB'
-        }
-      ];
-      
-      setVersions(mockVersions);
-    }
-  };
+  const snapshot = useCallback((key: SnapshotKey | null): Course | null => {
+    if (key === CURRENT) return course;
+    return versions.find(v => v.version === key)?.courseData ?? null;
+  }, [course, versions]);
+
+  const comparison = useMemo(() => {
+    const [before, after] = [snapshot(compareFrom), snapshot(compareTo)];
+    return before && after ? diffCourses(before, after) : null;
+  }, [snapshot, compareFrom, compareTo]);
+
+  const merge = useMemo(() => {
+    const [base, source] = [snapshot(mergeBase), snapshot(mergeSource)];
+    return base && source && course ? mergeCourses(base, source, course, resolutions) : null;
+  }, [snapshot, course, mergeBase, mergeSource, resolutions]);
+
+  const unresolved = merge?.conflicts.filter(conflict => !conflict.resolution).length ?? 0;
+
+  /** Short summary of each version against the one saved before it */
+  const versionSummaries = useMemo(() => new Map(versions.map((version, index) => {
+    const previous = versions[index + 1];
+    if (!previous) return [version.version, ['Initial snapshot']];
+    const changes = diffCourses(previous.courseData, version.courseData);
+    return [version.version, changes.length > 0
+      ? changes.map(change => `${change.label}${change.field ? ` · ${change.field}` : ''}`)
+      : ['No content changes']];
+  })), [versions]);
 
   const handleCreateVersion = async () => {
     if (!course) return;
-    
+
     setIsCreatingVersion(true);
     try {
-      const newVersion = await createCourseVersion(courseId, versions.length + 1);
-      if (newVersion) {
-        toast.success('New version created successfully');
-        await loadCourseAndVersions();
-      }
-    } catch (err) {
+      const created = await createCourseVersion(courseId, nextVersion);
+      if (created === null) throw new Error('Version was not created');
+      toast.success(`Version ${nextVersion} created`);
+      await loadCourseAndVersions();
+    } catch {
       toast.error('Failed to create version');
     } finally {
       setIsCreatingVersion(false);
@@ -104,33 +113,75 @@ export default function CourseVersionsPage() {
       if (restored) {
         toast.success(`Course restored to version ${version}`);
         await loadCourseAndVersions();
-        setSelectedVersion(null);
       }
-    } catch (err) {
+    } catch {
       toast.error('Failed to restore version');
     } finally {
       setIsRestoring(false);
     }
   };
 
-  const formatDate = (date: Date) => {
+  const handleExport = (version: CourseVersion) => {
+    const blob = new Blob([JSON.stringify(version.courseData, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `course-${courseId}-v${version.version}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const changeMergeInputs = (update: () => void) => {
+    update();
+    setResolutions({});
+  };
+
+  /**
+   * Writes the merge into the working copy. The working copy is snapshotted
+   * first so the merge can be undone by restoring that version.
+   */
+  const handleApplyMerge = async () => {
+    if (!merge || unresolved > 0) return;
+
+    setIsMerging(true);
+    try {
+      const backup = await createCourseVersion(courseId, nextVersion);
+      if (backup === null) throw new Error('Could not snapshot the working copy');
+      const updated = await updateCourse(courseId, merge.merged);
+      if (!updated) throw new Error('Course was not saved');
+      toast.success(`Merged ${snapshotLabel(mergeSource!)}; the previous state is saved as version ${nextVersion}`);
+      setResolutions({});
+      await loadCourseAndVersions();
+    } catch (err) {
+      console.error('Failed to apply merge:', err);
+      toast.error('Failed to apply merge');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
     return new Intl.DateTimeFormat('en-US', {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
       hour: '2-digit',
       minute: '2-digit'
-    }).format(date);
+    }).format(new Date(timestamp));
   };
 
-  const getVersionBadgeColor = (version: number) => {
-    if (version === Math.max(...versions.map(v => v.version))) {
-      return 'bg-green-100 text-green-800';
-    }
-    return 'bg-gray-100 text-gray-800';
-  };
+  const snapshotOptions = (includeCurrent: boolean) => (
+    <>
+      {includeCurrent && <option value={CURRENT}>Current</option>}
+      {versions.map(v => (
+        <option key={v.version} value={v.version}>Version {v.version} · {formatDate(v.createdAt)}</option>
+      ))}
+    </>
+  );
+
+  const parseKey = (value: string): SnapshotKey => (value === CURRENT ? CURRENT : Number(value));
 
-  if (isLoading) {
+  if (isLoading && !course) {
     return (
       <AdminLayout>
         <div className="flex items-center justify-center h-64">
@@ -143,16 +194,16 @@ export default function CourseVersionsPage() {
     );
   }
 
-  if (error || !course) {
+  if (!course) {
     return (
       <AdminLayout>
         <div className="text-center py-12">
           <AlertTriangle className="h-12 w-12 text-red-500 mx-auto mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">Course Not Found</h2>
           <p className="text-gray-600 mb-4">{error || 'The requested course could not be found.'}</p>
-          <Button onClick={() => router.push('/admin/courses')}>
+          <Button onClick={() => router.push('/admin/dashboard')}>
             <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Courses
+            Back to Dashboard
           </Button>
         </div>
       </AdminLayout>
@@ -167,114 +218,65 @@ export default function CourseVersionsPage() {
           <div className="flex items-center space-x-4">
             <Button
               variant="outline"
-              onClick={() => router.push('/admin/courses')}
+              onClick={() => router.push(`/admin/courses/${courseId}/preview`)}
             >
               <ArrowLeft className="h-4 w-4 mr-2" />
-              Back to Courses
+              Back to Course
             </Button>
             <div>
               <h1 className="text-2xl font-bold text-gray-900">
-                Version History: {course.title.en}
+                Version History: {course.title.en || course.title.fr}
               </h1>
               <p className="text-gray-600">
-                Manage and restore previous versions of this course
+                Compare, merge and restore saved versions of this course
               </p>
             </div>
           </div>
-          <Button
-            onClick={handleCreateVersion}
-            disabled={isCreatingVersion}
-          >
-            {isCreatingVersion ? 'Creating...' : 'Create New Version'}
+          <Button onClick={handleCreateVersion} loading={isCreatingVersion}>
+            Save Version {nextVersion}
           </Button>
         </div>
 
-        {/* Course Info */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center justify-between">
-              <span>Current Course</span>
-              <Badge className={getVersionBadgeColor(Math.max(...versions.map(v => v.version)))}>
-                Version {Math.max(...versions.map(v => v.version))}
-              </Badge>
-            </CardTitle>
-            <CardDescription>
-              {course.description.en}
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-              <div>
-                <span className="font-medium text-gray-700">Level:</span>
-                <p className="text-gray-600">{course.level}</p>
-              </div>
-              <div>
-                <span className="font-medium text-gray-700">Category:</span>
-                <p className="text-gray-600">{course.category}</p>
-              </div>
-              <div>
-                <span className="font-medium text-gray-700">Status:</span>
-                <Badge variant={course.status === 'published' ? 'default' : 'secondary'}>
-                  {course.status}
-                </Badge>
-              </div>
-              <div>
-                <span className="font-medium text-gray-700">Last Updated:</span>
-                <p className="text-gray-600">{formatDate(new Date(course.updatedAt))}</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
         {/* Version History */}
         <Card>
           <CardHeader>
-            <CardTitle>Version History</CardTitle>
-            <CardDescription>
-              View and restore previous versions of this course
-            </CardDescription>
+            <CardTitle>Saved Versions</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              {versions.map((version) => (
-                <div
-                  key={version.id}
-                  className={`border rounded-lg p-4 transition-colors ${
-                    selectedVersion === version.version
-                      ? 'border-blue-500 bg-blue-50'
-                      : 'border-gray-200 hover:border-gray-300'
-                  }`}
-                >
-                  <div className="flex items-center justify-between mb-3">
-                    <div className="flex items-center space-x-3">
-                      <Badge className={getVersionBadgeColor(version.version)}>
-                        Version {version.version}
-                      </Badge>
-                      <div className="flex items-center text-sm text-gray-600">
-                        <Clock className="h-4 w-4 mr-1" />
-                        {formatDate(version.createdAt)}
-                      </div>
-                      <div className="flex items-center text-sm text-gray-600">
-                        <User className="h-4 w-4 mr-1" />
-                        {version.author}
+            {versions.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No versions yet. Save one to be able to compare and restore this course.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {versions.map((version, index) => (
+                  <div key={version.version} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                      <div className="flex items-center space-x-3">
+                        <Badge variant={index === 0 ? 'success' : 'default'}>Version {version.version}</Badge>
+                        <div className="flex items-center text-sm text-gray-600">
+                          <Clock className="h-4 w-4 mr-1" />
+                          {formatDate(version.createdAt)}
+                        </div>
+                        <span className="text-sm text-gray-500">
+                          {version.courseData.lessons?.length ?? 0} lessons
+                        </span>
                       </div>
-                      <span className="text-sm text-gray-500">{version.size}</span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => setSelectedVersion(
-                          selectedVersion === version.version ? null : version.version
-                        )}
-                      >
-                        <Eye className="h-4 w-4 mr-1" />
-                        {selectedVersion === version.version ? 'Hide' : 'View'}
-                      </Button>
-                      {version.version !== Math.max(...versions.map(v => v.version)) && (
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setCompareFrom(version.version);
+                            setCompareTo(CURRENT);
+                          }}
+                        >
+                          <GitCompare className="h-4 w-4 mr-1" />
+                          Compare
+                        </Button>
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
-                            <Button variant="outline" size="sm">
+                            <Button variant="outline" size="sm" disabled={isRestoring}>
                               <RotateCcw className="h-4 w-4 mr-1" />
                               Restore
                             </Button>
@@ -283,75 +285,140 @@ export default function CourseVersionsPage() {
                             <AlertDialogHeader>
                               <AlertDialogTitle>Restore Version {version.version}?</AlertDialogTitle>
                               <AlertDialogDescription>
-                                This will restore the course to version {version.version}. 
-                                The current version will be preserved in the history. 
-                                This action cannot be undone.
+                                The working copy will be replaced by version {version.version}.
+                                Save a version first if you want to keep the current state.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter>
                               <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction
-                                onClick={() => handleRestoreVersion(version.version)}
-                                disabled={isRestoring}
-                              >
-                                {isRestoring ? 'Restoring...' : 'Restore Version'}
+                              <AlertDialogAction onClick={() => handleRestoreVersion(version.version)}>
+                                Restore Version
                               </AlertDialogAction>
                             </AlertDialogFooter>
                           </AlertDialogContent>
                         </AlertDialog>
-                      )}
-                      <Button variant="outline" size="sm">
-                        <Download className="h-4 w-4 mr-1" />
-                        Export
-                      </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleExport(version)}>
+                          <Download className="h-4 w-4 mr-1" />
+                          Export
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                  
-                  {/* Changes List */}
-                  <div className="mb-3">
-                    <h4 className="text-sm font-medium text-gray-700 mb-2">Changes:</h4>
+
                     <ul className="text-sm text-gray-600 space-y-1">
-                      {version.changes.map((change, index) => (
-                        <li key={index} className="flex items-start">
+                      {(versionSummaries.get(version.version) ?? []).slice(0, 5).map((change, changeIndex) => (
+                        <li key={changeIndex} className="flex items-start">
                           <span className="w-1.5 h-1.5 bg-gray-400 rounded-full mt-2 mr-2 flex-shrink-0"></span>
                           {change}
                         </li>
                       ))}
+                      {(versionSummaries.get(version.version)?.length ?? 0) > 5 && (
+                        <li className="text-gray-400 pl-3.5">
+                          and {versionSummaries.get(version.version)!.length - 5} more
+                        </li>
+                      )}
                     </ul>
                   </div>
-
-                  {/* Version Details (Expandable) */}
-                  {selectedVersion === version.version && (
-                    <div className="border-t pt-3 mt-3">
-                      <h4 className="text-sm font-medium text-gray-700 mb-2">Version Details:</h4>
-                      <div className="bg-gray-50 rounded p-3 text-sm">
-                        <div className="grid grid-cols-2 gap-4">
-                          <div>
-                            <span className="font-medium">Lessons:</span>
-                            <span className="ml-2">{course.lessons?.length || 0}</span>
-                          </div>
-                          <div>
-                            <span className="font-medium">Duration:</span>
-                            <span className="ml-2">{course.duration} minutes</span>
-                          </div>
-                          <div>
-                            <span className="font-medium">Media Assets:</span>
-                            <span className="ml-2">{course.mediaAssets?.length || 0}</span>
-                          </div>
-                          <div>
-                            <span className="font-medium">Tags:</span>
-                            <span className="ml-2">{course.tags?.join(', ') || 'None'}</span>
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
+
+        {/* Side-by-side comparison */}
+        {versions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <GitCompare className="h-5 w-5 mr-2" />
+                Compare
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <select
+                  value={compareFrom ?? ''}
+                  onChange={(e) => setCompareFrom(parseKey(e.target.value))}
+                  className={SELECT_CLASS}
+                  aria-label="Compare from"
+                >
+                  {snapshotOptions(true)}
+                </select>
+                <span className="text-gray-500">with</span>
+                <select
+                  value={compareTo}
+                  onChange={(e) => setCompareTo(parseKey(e.target.value))}
+                  className={SELECT_CLASS}
+                  aria-label="Compare with"
+                >
+                  {snapshotOptions(true)}
+                </select>
+              </div>
+              {comparison && compareFrom !== null && (
+                <CourseDiffView
+                  changes={comparison}
+                  beforeLabel={snapshotLabel(compareFrom)}
+                  afterLabel={snapshotLabel(compareTo)}
+                />
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Three-way merge into the working copy */}
+        {versions.length > 1 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <GitMerge className="h-5 w-5 mr-2" />
+                Merge into Current
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="text-gray-500">Bring the changes of</span>
+                <select
+                  value={mergeSource ?? ''}
+                  onChange={(e) => changeMergeInputs(() => setMergeSource(Number(e.target.value)))}
+                  className={SELECT_CLASS}
+                  aria-label="Version to merge"
+                >
+                  {snapshotOptions(false)}
+                </select>
+                <span className="text-gray-500">made since</span>
+                <select
+                  value={mergeBase ?? ''}
+                  onChange={(e) => changeMergeInputs(() => setMergeBase(Number(e.target.value)))}
+                  className={SELECT_CLASS}
+                  aria-label="Common ancestor"
+                >
+                  {snapshotOptions(false)}
+                </select>
+                <span className="text-gray-500">into the current course</span>
+              </div>
+
+              {merge && (
+                <>
+                  <MergeConflictList
+                    conflicts={merge.conflicts}
+                    sourceLabel={snapshotLabel(mergeSource!)}
+                    targetLabel="Current"
+                    onResolve={(conflictId, choice) => setResolutions(prev => ({ ...prev, [conflictId]: choice }))}
+                  />
+                  <div className="flex items-center justify-end gap-3">
+                    {unresolved > 0 && (
+                      <span className="text-sm text-red-700">{unresolved} conflict(s) left to resolve</span>
+                    )}
+                    <Button onClick={handleApplyMerge} loading={isMerging} disabled={unresolved > 0}>
+                      <GitMerge className="h-4 w-4 mr-2" />
+                      Apply Merge
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
     </AdminLayout>
   );
-}
\ No newline at end of file
+}
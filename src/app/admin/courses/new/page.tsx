@@ -3,10 +3,11 @@
 import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import AdminLayout from '@/components/admin/AdminLayout';
+import { useAdminService } from '@/lib/hooks/useAdminService';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
-import type { Course, LessonLevel, MediaAsset } from '@/types';
+import type { LessonLevel, MediaAsset } from '@/types';
 import {
   Save,
   Eye,
@@ -54,6 +55,7 @@ const LEVELS: LessonLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
 
 export default function NewCoursePage() {
   const router = useRouter();
+  const { createCourse } = useAdminService();
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<FormErrors>({});
   const [mediaAssets, setMediaAssets] = useState<MediaAsset[]>([]);
@@ -232,25 +234,20 @@ export default function NewCoursePage() {
     setIsLoading(true);
     
     try {
-      const courseData: Partial<Course> = {
+      const course = await createCourse({
         ...formData,
         status,
         authorId: 1, // Current admin user
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
         version: 1,
         lessons: [],
         mediaAssets
-      };
+      });
+      if (!course?.id) {
+        throw new Error('Course was not saved');
+      }
 
-      // In production, this would be an API call
-      console.log('Creating course:', courseData);
-      
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Redirect to course list or edit page
-      router.push('/admin/courses');
+      // Continue with the lesson content
+      router.push(`/admin/courses/${course.id}/edit`);
     } catch (error) {
       console.error('Error creating course:', error);
       setErrors({ submit: 'Failed to create course. Please try again.' });
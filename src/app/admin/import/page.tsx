@@ -1,16 +1,19 @@
 'use client';
 
-import React, { useState, useRef } from 'react';
-import { useRouter } from 'next/navigation';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import AdminLayout from '@/components/admin/AdminLayout';
-import { Card } from '@/components/ui/Card';
-import { Button } from '@/components/ui/Button';
-import { Badge } from '@/components/ui/Badge';
-import type { Course, Lesson, BulkImportJob } from '@/types';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import { ImportReportView } from '@/components/admin/import/ImportReportView';
+import { useAdminService } from '@/lib/hooks/useAdminService';
+import { AdminAuthService } from '@/lib/auth/AdminAuthService';
+import authService from '@/services/AuthService';
+import { toast } from 'sonner';
+import type { BulkImportJob, Course, ImportCoursePlan, ImportOptions, LessonLevel } from '@/types';
 import {
   Upload,
   Download,
-  FileText,
   CheckCircle,
   AlertCircle,
   X,
@@ -20,25 +23,14 @@ import {
   FileSpreadsheet
 } from 'lucide-react';
 
-interface ImportResult {
-  success: boolean;
-  courses?: Course[];
-  errors?: string[];
-  warnings?: string[];
-  summary?: {
-    totalCourses: number;
-    validCourses: number;
-    invalidCourses: number;
-    totalLessons: number;
-  };
-}
+const ACCEPTED_EXTENSIONS = '.json,.csv,.tsv,.txt,.xlsx,.apkg';
 
-interface ValidationError {
-  row: number;
-  field: string;
-  message: string;
-  value?: any;
-}
+/** Interval between progress polls of a running job */
+const POLL_INTERVAL_MS = 1000;
+
+const LEVELS: LessonLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
+
+const SELECT_CLASS = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
 
 const SAMPLE_JSON_STRUCTURE = {
   courses: [
@@ -59,19 +51,26 @@ const SAMPLE_JSON_STRUCTURE = {
       ],
       lessons: [
         {
+          slug: "ia-ora-na",
+          level: "Beginner",
           title: {
             en: "Hello and Goodbye",
             fr: "Bonjour et Au revoir",
             tah: "Ia Ora Na e Nana"
           },
-          content: "Lesson content here...",
-          vocabulary: [
+          summary: "Greeting people and taking leave",
+          sections: [
             {
-              tahitian: "Ia ora na",
-              french: "Bonjour",
-              english: "Hello",
-              pronunciation: "ee-ah OH-rah nah",
-              audioUrl: "/audio/ia-ora-na.mp3"
+              kind: "Vocabulary",
+              title: "Vocabulaire",
+              vocab: [
+                {
+                  fr: "Bonjour",
+                  tah: "Ia ora na",
+                  en: "Hello",
+                  ipaTah: "ia ˈo.ra na"
+                }
+              ]
             }
           ]
         }
@@ -85,318 +84,174 @@ const CSV_HEADERS = [
   'tags', 'estimatedDuration', 'learningObjectives', 'status'
 ];
 
+const VOCAB_CSV_SAMPLE = [
+  'lesson,fr,tah,en,ipa,partOfSpeech,core',
+  'Salutations,Bonjour,Ia ora na,Hello,ia ˈo.ra na,interjection,yes',
+  'Salutations,Merci,Māuruuru,Thank you,maː.u.ru.u.ru,interjection,yes',
+  'La famille,Mère,Metua vahine,Mother,,noun,'
+].join('\n');
+
+const isFinished = (job: BulkImportJob) => job.status === 'completed' || job.status === 'failed';
+
+function downloadText(content: string, type: string, filename: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 export default function BulkImportPage() {
-  const router = useRouter();
+  const { getCourses, bulkImportCourses, updateCourse, getCourseVersions, createCourseVersion } = useAdminService();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [importResult, setImportResult] = useState<ImportResult | null>(null);
-  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [previewData, setPreviewData] = useState<any>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [options, setOptions] = useState<ImportOptions>({ level: 'Beginner' });
+  const [job, setJob] = useState<BulkImportJob | null>(null);
   const [importJobs, setImportJobs] = useState<BulkImportJob[]>([]);
-
-  const validateCourseData = (courseData: any, index: number): ValidationError[] => {
-    const errors: ValidationError[] = [];
-    const row = index + 1;
-
-    // Required fields validation
-    if (!courseData.title?.en) {
-      errors.push({ row, field: 'title.en', message: 'English title is required' });
-    }
-    if (!courseData.title?.fr) {
-      errors.push({ row, field: 'title.fr', message: 'French title is required' });
-    }
-    if (!courseData.title?.tah) {
-      errors.push({ row, field: 'title.tah', message: 'Tahitian title is required' });
-    }
-    if (!courseData.description) {
-      errors.push({ row, field: 'description', message: 'Description is required' });
-    }
-    if (!courseData.level) {
-      errors.push({ row, field: 'level', message: 'Level is required' });
-    }
-    if (!courseData.category) {
-      errors.push({ row, field: 'category', message: 'Category is required' });
+  const [isUploading, setIsUploading] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [committed, setCommitted] = useState<{ created: number; updated: number } | null>(null);
+
+  const authorizedFetch = useCallback(async (url: string, init: RequestInit = {}) => {
+    const authHeader = authService.getAuthHeader();
+    if (!authHeader) throw new Error('Sign in again to import files');
+
+    const response = await fetch(url, { ...init, headers: { ...init.headers, Authorization: authHeader } });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || !body.success) {
+      throw new Error(body.error || `Request failed with status ${response.status}`);
     }
+    return body;
+  }, []);
 
-    // Level validation
-    const validLevels = ['Beginner', 'Intermediate', 'Advanced'];
-    if (courseData.level && !validLevels.includes(courseData.level)) {
-      errors.push({
-        row,
-        field: 'level',
-        message: `Invalid level. Must be one of: ${validLevels.join(', ')}`,
-        value: courseData.level
-      });
-    }
-
-    // Duration validation
-    if (courseData.estimatedDuration) {
-      const duration = Number(courseData.estimatedDuration);
-      if (isNaN(duration) || duration < 5 || duration > 300) {
-        errors.push({
-          row,
-          field: 'estimatedDuration',
-          message: 'Duration must be a number between 5 and 300 minutes',
-          value: courseData.estimatedDuration
-        });
-      }
-    }
-
-    // Description length validation
-    if (courseData.description && courseData.description.length < 20) {
-      errors.push({
-        row,
-        field: 'description',
-        message: 'Description must be at least 20 characters long',
-        value: courseData.description.length
-      });
-    }
-
-    return errors;
-  };
-
-  const parseCSV = (csvText: string): any[] => {
-    const lines = csvText.split('\n').filter(line => line.trim());
-    if (lines.length < 2) throw new Error('CSV must have at least a header row and one data row');
-
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-    const courses: any[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
-      const course: any = {
-        title: { en: '', fr: '', tah: '' },
-        tags: [],
-        learningObjectives: []
-      };
-
-      headers.forEach((header, index) => {
-        const value = values[index] || '';
-        
-        switch (header) {
-          case 'title_en':
-            course.title.en = value;
-            break;
-          case 'title_fr':
-            course.title.fr = value;
-            break;
-          case 'title_tah':
-            course.title.tah = value;
-            break;
-          case 'tags':
-            course.tags = value ? value.split(';').map(t => t.trim()) : [];
-            break;
-          case 'learningObjectives':
-            course.learningObjectives = value ? value.split(';').map(o => o.trim()) : [];
-            break;
-          case 'estimatedDuration':
-            course.estimatedDuration = value ? parseInt(value) : 30;
-            break;
-          default:
-            course[header] = value;
-        }
-      });
-
-      courses.push(course);
-    }
-
-    return courses;
-  };
-
-  const processFile = async (file: File): Promise<ImportResult> => {
-    const text = await file.text();
-    let coursesData: any[];
+  const loadCourses = useCallback(async () => {
+    const result = await getCourses();
+    if (result) setCourses(result);
+  }, [getCourses]);
 
+  const loadHistory = useCallback(async () => {
     try {
-      if (file.type === 'application/json' || file.name.endsWith('.json')) {
-        const jsonData = JSON.parse(text);
-        coursesData = jsonData.courses || [jsonData];
-      } else if (file.type === 'text/csv' || file.name.endsWith('.csv')) {
-        coursesData = parseCSV(text);
-      } else {
-        throw new Error('Unsupported file format. Please use JSON or CSV.');
-      }
-    } catch (error) {
-      return {
-        success: false,
-        errors: [`Failed to parse file: ${error instanceof Error ? error.message : 'Unknown error'}`]
-      };
+      const body = await authorizedFetch('/api/admin/import');
+      setImportJobs(body.jobs);
+    } catch {
+      // History is informational; the page works without it
     }
-
-    // Validate all courses
-    const allErrors: ValidationError[] = [];
-    const validCourses: Course[] = [];
-    const warnings: string[] = [];
-
-    coursesData.forEach((courseData, index) => {
-      const errors = validateCourseData(courseData, index);
-      allErrors.push(...errors);
-
-      if (errors.length === 0) {
-        // Transform to Course object
-        const course: Course = {
-          id: Date.now() + index,
-          title: courseData.title,
-          description: courseData.description,
-          level: courseData.level,
-          category: courseData.category,
-          tags: courseData.tags || [],
-          estimatedDuration: courseData.estimatedDuration || 30,
-          learningObjectives: courseData.learningObjectives || [],
-          status: courseData.status || 'draft',
-          authorId: 1, // Current admin
-          createdAt: Date.now(),
-          updatedAt: Date.now(),
-          version: 1,
-          lessons: courseData.lessons || [],
-          mediaAssets: courseData.mediaAssets || []
-        };
-        validCourses.push(course);
-      }
-    });
-
-    setValidationErrors(allErrors);
-
-    return {
-      success: allErrors.length === 0,
-      courses: validCourses,
-      errors: allErrors.map(e => `Row ${e.row}, ${e.field}: ${e.message}`),
-      warnings,
-      summary: {
-        totalCourses: coursesData.length,
-        validCourses: validCourses.length,
-        invalidCourses: coursesData.length - validCourses.length,
-        totalLessons: validCourses.reduce((sum, course) => sum + (course.lessons?.length || 0), 0)
+  }, [authorizedFetch]);
+
+  useEffect(() => {
+    loadCourses();
+    loadHistory();
+  }, [loadCourses, loadHistory]);
+
+  // Poll the running job until its dry run finishes
+  useEffect(() => {
+    if (!job || isFinished(job)) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const body = await authorizedFetch(`/api/admin/import/${job.id}`);
+        setJob(body.job);
+        if (isFinished(body.job)) loadHistory();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Lost track of the import job');
+        setJob(null);
       }
-    };
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [job, authorizedFetch, loadHistory]);
+
+  const resetFile = () => {
+    setSelectedFile(null);
+    setJob(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       setSelectedFile(file);
-      setImportResult(null);
-      setValidationErrors([]);
-      setPreviewData(null);
+      setJob(null);
+      setCommitted(null);
     }
   };
 
-  const handlePreview = async () => {
+  const handleDryRun = async () => {
     if (!selectedFile) return;
 
-    setIsProcessing(true);
+    setIsUploading(true);
+    setCommitted(null);
     try {
-      const result = await processFile(selectedFile);
-      setPreviewData(result);
+      const form = new FormData();
+      form.append('file', selectedFile);
+      form.append('options', JSON.stringify(options));
+      form.append('courses', JSON.stringify(courses));
+      form.append('authorId', String(AdminAuthService.getCurrentUser()?.id ?? ''));
+
+      const body = await authorizedFetch('/api/admin/import', { method: 'POST', body: form });
+      setJob(body.job);
+      loadHistory();
     } catch (error) {
-      console.error('Preview error:', error);
+      toast.error(error instanceof Error ? error.message : 'Upload failed');
     } finally {
-      setIsProcessing(false);
+      setIsUploading(false);
     }
   };
 
-  const handleImport = async () => {
-    if (!selectedFile || !previewData?.courses) return;
+  /**
+   * Saves the planned courses. Courses that get updated are snapshotted as a
+   * version first, so an import can be undone from the versions page.
+   */
+  const handleCommit = async () => {
+    if (!job) return;
 
-    setIsProcessing(true);
-    
+    setIsCommitting(true);
     try {
-      // Create import job
-      const job: BulkImportJob = {
-        id: Date.now().toString(),
-        filename: selectedFile.name,
-        status: 'processing',
-        totalItems: previewData.courses.length,
-        processedItems: 0,
-        errors: [],
-        createdAt: Date.now(),
-        completedAt: undefined
-      };
-
-      setImportJobs(prev => [job, ...prev]);
-
-      // Simulate processing
-      for (let i = 0; i < previewData.courses.length; i++) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        setImportJobs(prev => prev.map(j => 
-          j.id === job.id 
-            ? { ...j, processedItems: i + 1 }
-            : j
-        ));
+      const body = await authorizedFetch(`/api/admin/import/${job.id}/commit`, { method: 'POST' });
+      const plans: ImportCoursePlan[] = body.plans;
+
+      const creates = plans.filter(plan => plan.action === 'create').map(plan => plan.course);
+      if (creates.length > 0) {
+        const created = await bulkImportCourses(creates);
+        if (!created) throw new Error('New courses could not be saved');
       }
 
-      // Complete job
-      const completedJob = {
-        ...job,
-        status: 'completed' as const,
-        processedItems: previewData.courses.length,
-        completedAt: Date.now()
-      };
-
-      setImportJobs(prev => prev.map(j => 
-        j.id === job.id ? completedJob : j
-      ));
-
-      setImportResult({
-        success: true,
-        courses: previewData.courses,
-        summary: previewData.summary
-      });
-
-      // Reset form
-      setSelectedFile(null);
-      setPreviewData(null);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+      const updates = plans.filter(plan => plan.action === 'update').map(plan => plan.course as Course);
+      for (const course of updates) {
+        const versions = await getCourseVersions(course.id!) ?? [];
+        const nextVersion = Math.max(0, ...versions.map(v => v.version)) + 1;
+        const backup = await createCourseVersion(course.id!, nextVersion);
+        if (backup === null) throw new Error(`Could not snapshot ${course.title.fr}`);
+        const updated = await updateCourse(course.id!, course);
+        if (!updated) throw new Error(`${course.title.fr} could not be saved`);
       }
+
+      setCommitted({ created: creates.length, updated: updates.length });
+      toast.success('Import committed');
+      resetFile();
+      await loadCourses();
+      loadHistory();
     } catch (error) {
-      console.error('Import error:', error);
-      setImportResult({
-        success: false,
-        errors: ['Import failed. Please try again.']
-      });
+      toast.error(error instanceof Error ? error.message : 'Import failed. Please try again.');
     } finally {
-      setIsProcessing(false);
+      setIsCommitting(false);
     }
   };
 
-  const downloadSampleJSON = () => {
-    const blob = new Blob([JSON.stringify(SAMPLE_JSON_STRUCTURE, null, 2)], {
-      type: 'application/json'
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'sample-courses.json';
-    a.click();
-    URL.revokeObjectURL(url);
-  };
-
-  const downloadSampleCSV = () => {
-    const csvContent = [
-      CSV_HEADERS.join(','),
-      '"Basic Greetings","Salutations de Base","Te Hoê Tamaraa","Learn essential Tahitian greetings and polite expressions","Beginner","Communication","greetings;basic;communication",30,"Master basic greetings;Understand cultural context","draft"'
-    ].join('\n');
-    
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'sample-courses.csv';
-    a.click();
-    URL.revokeObjectURL(url);
-  };
+  const report = job?.status === 'completed' ? job.report : undefined;
+  const canCommit = !!report && !job?.committedAt && report.plans.some(plan => plan.changes.length > 0);
+  const isRunning = !!job && !isFinished(job);
 
   return (
     <AdminLayout>
       <div className="px-4 sm:px-6 lg:px-8 max-w-6xl mx-auto">
         {/* Header */}
         <div className="mb-8">
-          <h1 className="text-2xl font-bold text-gray-900">Bulk Import Courses</h1>
+          <h1 className="text-2xl font-bold text-gray-900">Bulk Import</h1>
           <p className="mt-1 text-sm text-gray-600">
-            Import multiple courses from JSON or CSV files
+            Import courses, lesson files, vocabulary spreadsheets and Anki decks. Every import starts with a dry run.
           </p>
         </div>
 
@@ -406,21 +261,60 @@ export default function BulkImportPage() {
             {/* File Upload */}
             <Card className="p-6">
               <h2 className="text-lg font-medium text-gray-900 mb-4">Upload File</h2>
-              
+
               <div className="space-y-4">
                 <div>
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".json,.csv"
+                    accept={ACCEPTED_EXTENSIONS}
                     onChange={handleFileSelect}
+                    aria-label="File to import"
                     className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
                   />
                   <p className="mt-1 text-xs text-gray-500">
-                    Supported formats: JSON, CSV (max 10MB)
+                    Supported formats: JSON, CSV, TSV, XLSX, Anki .apkg and text exports (max 10MB)
                   </p>
                 </div>
 
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+                  <label className="flex flex-col gap-1">
+                    <span className="text-gray-700">Add lessons and vocabulary to</span>
+                    <select
+                      value={options.targetCourseId ?? ''}
+                      onChange={(e) => setOptions({ ...options, targetCourseId: e.target.value ? Number(e.target.value) : undefined })}
+                      className={SELECT_CLASS}
+                    >
+                      <option value="">A new course</option>
+                      {courses.map(course => (
+                        <option key={course.id} value={course.id}>{course.title.fr || course.title.en}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {options.targetCourseId === undefined && (
+                    <label className="flex flex-col gap-1">
+                      <span className="text-gray-700">New course title</span>
+                      <input
+                        type="text"
+                        value={options.courseTitle ?? ''}
+                        onChange={(e) => setOptions({ ...options, courseTitle: e.target.value })}
+                        placeholder={selectedFile?.name.replace(/\.[^.]+$/, '') ?? 'File name'}
+                        className={SELECT_CLASS}
+                      />
+                    </label>
+                  )}
+                  <label className="flex flex-col gap-1">
+                    <span className="text-gray-700">Level of new lessons</span>
+                    <select
+                      value={options.level}
+                      onChange={(e) => setOptions({ ...options, level: e.target.value as LessonLevel })}
+                      className={SELECT_CLASS}
+                    >
+                      {LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                    </select>
+                  </label>
+                </div>
+
                 {selectedFile && (
                   <div className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
                     <div className="flex items-center space-x-2">
@@ -440,19 +334,14 @@ export default function BulkImportPage() {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={handlePreview}
-                        disabled={isProcessing}
+                        onClick={handleDryRun}
+                        loading={isUploading}
+                        disabled={isUploading || isRunning || isCommitting}
                       >
                         <Eye className="mr-1 h-4 w-4" />
-                        Preview
+                        Dry run
                       </Button>
-                      <Button
-                        size="sm"
-                        onClick={() => {
-                          setSelectedFile(null);
-                          if (fileInputRef.current) fileInputRef.current.value = '';
-                        }}
-                      >
+                      <Button size="sm" variant="ghost" onClick={resetFile} ariaLabel="Remove file">
                         <X className="h-4 w-4" />
                       </Button>
                     </div>
@@ -461,133 +350,64 @@ export default function BulkImportPage() {
               </div>
             </Card>
 
-            {/* Preview Results */}
-            {previewData && (
+            {/* Dry run */}
+            {job && (
               <Card className="p-6">
                 <div className="flex items-center justify-between mb-4">
-                  <h2 className="text-lg font-medium text-gray-900">Import Preview</h2>
-                  {previewData.success && (
-                    <Button onClick={handleImport} disabled={isProcessing}>
-                      {isProcessing ? (
-                        <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
-                      ) : (
-                        <Upload className="mr-2 h-4 w-4" />
-                      )}
-                      Import Courses
+                  <h2 className="text-lg font-medium text-gray-900">Dry Run</h2>
+                  {canCommit && (
+                    <Button onClick={handleCommit} loading={isCommitting} disabled={isCommitting}>
+                      <Upload className="mr-2 h-4 w-4" />
+                      Commit Import
                     </Button>
                   )}
                 </div>
 
-                {/* Summary */}
-                {previewData.summary && (
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
-                    <div className="text-center p-3 bg-blue-50 rounded-lg">
-                      <p className="text-2xl font-bold text-blue-600">
-                        {previewData.summary.totalCourses}
-                      </p>
-                      <p className="text-sm text-blue-600">Total Courses</p>
-                    </div>
-                    <div className="text-center p-3 bg-green-50 rounded-lg">
-                      <p className="text-2xl font-bold text-green-600">
-                        {previewData.summary.validCourses}
-                      </p>
-                      <p className="text-sm text-green-600">Valid</p>
-                    </div>
-                    <div className="text-center p-3 bg-red-50 rounded-lg">
-                      <p className="text-2xl font-bold text-red-600">
-                        {previewData.summary.invalidCourses}
-                      </p>
-                      <p className="text-sm text-red-600">Invalid</p>
-                    </div>
-                    <div className="text-center p-3 bg-purple-50 rounded-lg">
-                      <p className="text-2xl font-bold text-purple-600">
-                        {previewData.summary.totalLessons}
-                      </p>
-                      <p className="text-sm text-purple-600">Lessons</p>
+                {isRunning && (
+                  <div>
+                    <p className="flex items-center text-sm text-gray-600 mb-2">
+                      <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                      Checking {job.processedItems} of {job.totalItems || '…'} rows
+                    </p>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                        style={{ width: `${job.totalItems ? (job.processedItems / job.totalItems) * 100 : 0}%` }}
+                      />
                     </div>
                   </div>
                 )}
 
-                {/* Errors */}
-                {previewData.errors && previewData.errors.length > 0 && (
-                  <div className="mb-4">
-                    <h3 className="text-sm font-medium text-red-800 mb-2">Validation Errors</h3>
-                    <div className="bg-red-50 border border-red-200 rounded-md p-3 max-h-40 overflow-y-auto">
-                      <ul className="text-sm text-red-700 space-y-1">
-                        {previewData.errors.map((error, index) => (
-                          <li key={index} className="flex items-start">
-                            <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
-                            {error}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
+                {job.status === 'failed' && (
+                  <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                    <ul className="text-sm text-red-700 space-y-1">
+                      {job.errors.map((error, index) => (
+                        <li key={index} className="flex items-start">
+                          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                          {error}
+                        </li>
+                      ))}
+                    </ul>
                   </div>
                 )}
 
-                {/* Valid Courses Preview */}
-                {previewData.courses && previewData.courses.length > 0 && (
-                  <div>
-                    <h3 className="text-sm font-medium text-green-800 mb-2">
-                      Valid Courses ({previewData.courses.length})
-                    </h3>
-                    <div className="space-y-2 max-h-60 overflow-y-auto">
-                      {previewData.courses.slice(0, 5).map((course, index) => (
-                        <div key={index} className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-md">
-                          <div>
-                            <p className="text-sm font-medium text-green-900">
-                              {course.title.en}
-                            </p>
-                            <p className="text-xs text-green-700">
-                              {course.level} • {course.category} • {course.estimatedDuration}min
-                            </p>
-                          </div>
-                          <CheckCircle className="h-5 w-5 text-green-600" />
-                        </div>
-                      ))}
-                      {previewData.courses.length > 5 && (
-                        <p className="text-xs text-gray-500 text-center py-2">
-                          ... and {previewData.courses.length - 5} more courses
-                        </p>
-                      )}
-                    </div>
-                  </div>
+                {report && <ImportReportView report={report} />}
+                {report && !canCommit && (
+                  <p className="mt-4 text-sm text-gray-500">Nothing to commit: the file adds no changes to your courses.</p>
                 )}
               </Card>
             )}
 
             {/* Import Results */}
-            {importResult && (
+            {committed && (
               <Card className="p-6">
-                <div className="flex items-center space-x-2 mb-4">
-                  {importResult.success ? (
-                    <CheckCircle className="h-6 w-6 text-green-600" />
-                  ) : (
-                    <AlertCircle className="h-6 w-6 text-red-600" />
-                  )}
-                  <h2 className="text-lg font-medium text-gray-900">
-                    Import {importResult.success ? 'Successful' : 'Failed'}
-                  </h2>
+                <div className="flex items-center space-x-2">
+                  <CheckCircle className="h-6 w-6 text-green-600" />
+                  <p className="text-sm text-green-800">
+                    Import committed: {committed.created} course{committed.created === 1 ? '' : 's'} created,
+                    {' '}{committed.updated} updated. Updated courses keep their previous state as a version.
+                  </p>
                 </div>
-
-                {importResult.success && importResult.summary && (
-                  <div className="bg-green-50 border border-green-200 rounded-md p-4">
-                    <p className="text-sm text-green-800">
-                      Successfully imported {importResult.summary.validCourses} courses 
-                      with {importResult.summary.totalLessons} lessons.
-                    </p>
-                  </div>
-                )}
-
-                {importResult.errors && importResult.errors.length > 0 && (
-                  <div className="bg-red-50 border border-red-200 rounded-md p-4">
-                    <ul className="text-sm text-red-700 space-y-1">
-                      {importResult.errors.map((error, index) => (
-                        <li key={index}>• {error}</li>
-                      ))}
-                    </ul>
-                  </div>
-                )}
               </Card>
             )}
           </div>
@@ -600,7 +420,7 @@ export default function BulkImportPage() {
               <div className="space-y-3">
                 <Button
                   variant="outline"
-                  onClick={downloadSampleJSON}
+                  onClick={() => downloadText(JSON.stringify(SAMPLE_JSON_STRUCTURE, null, 2), 'application/json', 'sample-courses.json')}
                   className="w-full justify-start"
                 >
                   <Download className="mr-2 h-4 w-4" />
@@ -608,12 +428,23 @@ export default function BulkImportPage() {
                 </Button>
                 <Button
                   variant="outline"
-                  onClick={downloadSampleCSV}
+                  onClick={() => downloadText([
+                    CSV_HEADERS.join(','),
+                    '"Basic Greetings","Salutations de Base","Te Hoê Tamaraa","Learn essential Tahitian greetings and polite expressions","Beginner","Communication","greetings;basic;communication",30,"Master basic greetings;Understand cultural context","draft"'
+                  ].join('\n'), 'text/csv', 'sample-courses.csv')}
                   className="w-full justify-start"
                 >
                   <Download className="mr-2 h-4 w-4" />
                   Download CSV Sample
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => downloadText(VOCAB_CSV_SAMPLE, 'text/csv', 'sample-vocabulary.csv')}
+                  className="w-full justify-start"
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Download Vocabulary Sample
+                </Button>
               </div>
             </Card>
 
@@ -624,31 +455,23 @@ export default function BulkImportPage() {
                 <p className="text-sm text-gray-500">No recent imports</p>
               ) : (
                 <div className="space-y-3">
-                  {importJobs.slice(0, 5).map(job => (
-                    <div key={job.id} className="p-3 border border-gray-200 rounded-md">
+                  {importJobs.slice(0, 5).map(entry => (
+                    <div key={entry.id} className="p-3 border border-gray-200 rounded-md">
                       <div className="flex items-center justify-between mb-2">
                         <p className="text-sm font-medium text-gray-900 truncate">
-                          {job.filename}
+                          {entry.filename}
                         </p>
-                        <Badge className={
-                          job.status === 'completed' ? 'bg-green-100 text-green-800' :
-                          job.status === 'failed' ? 'bg-red-100 text-red-800' :
-                          'bg-yellow-100 text-yellow-800'
-                        }>
-                          {job.status}
+                        <Badge
+                          variant={entry.status === 'completed' ? 'success' : entry.status === 'failed' ? 'danger' : 'warning'}
+                          size="sm"
+                        >
+                          {entry.committedAt ? 'committed' : entry.status}
                         </Badge>
                       </div>
                       <div className="text-xs text-gray-500">
-                        {job.processedItems}/{job.totalItems} items
+                        {entry.processedItems}/{entry.totalItems} rows
+                        {entry.errors.length > 0 && ` • ${entry.errors.length} errors`}
                       </div>
-                      {job.status === 'processing' && (
-                        <div className="mt-2 w-full bg-gray-200 rounded-full h-1">
-                          <div
-                            className="bg-blue-600 h-1 rounded-full transition-all duration-300"
-                            style={{ width: `${(job.processedItems / job.totalItems) * 100}%` }}
-                          />
-                        </div>
-                      )}
                     </div>
                   ))}
                 </div>
@@ -659,19 +482,25 @@ export default function BulkImportPage() {
             <Card className="p-6">
               <h2 className="text-lg font-medium text-gray-900 mb-4">Import Guidelines</h2>
               <div className="text-sm text-gray-600 space-y-2">
-                <p><strong>Required Fields:</strong></p>
+                <p><strong>Courses (JSON or CSV):</strong></p>
                 <ul className="list-disc list-inside space-y-1 text-xs">
                   <li>Title (English, French, Tahitian)</li>
                   <li>Description (min 20 characters)</li>
                   <li>Level (Beginner/Intermediate/Advanced)</li>
                   <li>Category</li>
+                  <li>A course with the same title is updated</li>
                 </ul>
-                <p className="mt-3"><strong>Optional Fields:</strong></p>
+                <p className="mt-3"><strong>Lesson files:</strong></p>
                 <ul className="list-disc list-inside space-y-1 text-xs">
-                  <li>Tags (semicolon-separated)</li>
-                  <li>Learning objectives</li>
-                  <li>Estimated duration (5-300 minutes)</li>
-                  <li>Status (draft/review/published)</li>
+                  <li>Both lesson file formats are accepted</li>
+                  <li>A lesson with the same slug is replaced</li>
+                </ul>
+                <p className="mt-3"><strong>Vocabulary (CSV, TSV, XLSX, Anki):</strong></p>
+                <ul className="list-disc list-inside space-y-1 text-xs">
+                  <li>Columns fr, tah, en; optional ipa, partOfSpeech, note, core</li>
+                  <li>One lesson per sheet, deck or <code>lesson</code> column value</li>
+                  <li>Words already in a lesson are updated, not duplicated</li>
+                  <li>Anki decks: export with &quot;Support older Anki versions&quot;</li>
                 </ul>
               </div>
             </Card>
@@ -680,4 +509,4 @@ export default function BulkImportPage() {
       </div>
     </AdminLayout>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import AdminLayout from '@/components/admin/AdminLayout';
+import Card, { CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import CollaborationService from '@/services/CollaborationService';
+import { contentUrl, findStep, isOverdue, type ReviewDecision } from '@/lib/review/ReviewWorkflow';
+import { toast } from 'sonner';
+import { Bell, CheckCircle, ClipboardCheck, Clock, Eye, MessageSquare, XCircle } from 'lucide-react';
+import type { Notification, ReviewRequest, ReviewWorkflow } from '@/types/collaboration';
+
+// How often overdue steps are checked while the page is open
+const DEADLINE_CHECK_INTERVAL_MS = 60 * 1000;
+
+export default function ReviewsPage() {
+  const [collaborationService] = useState(() => new CollaborationService());
+  const [queue, setQueue] = useState<ReviewRequest[]>([]);
+  const [workflows, setWorkflows] = useState<ReviewWorkflow[]>([]);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [now, setNow] = useState(() => new Date());
+
+  const loadReviews = useCallback(async () => {
+    try {
+      await collaborationService.checkReviewDeadlines();
+      const [reviewQueue, reviewWorkflows, reviewNotifications] = await Promise.all([
+        collaborationService.getReviewQueue(),
+        collaborationService.getWorkflows(),
+        collaborationService.getReviewNotifications()
+      ]);
+      setQueue(reviewQueue);
+      setWorkflows(reviewWorkflows);
+      setNotifications(reviewNotifications.slice(0, 20));
+      setNow(new Date());
+    } catch (error) {
+      console.error('Failed to load reviews:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load reviews');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [collaborationService]);
+
+  useEffect(() => {
+    loadReviews();
+    const timer = setInterval(loadReviews, DEADLINE_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadReviews]);
+
+  const handleDecision = async (request: ReviewRequest, decision: ReviewDecision) => {
+    setDeciding(request.id);
+    try {
+      await collaborationService.recordReviewDecision(request.id, decision, comments[request.id] ?? '');
+      setComments(prev => ({ ...prev, [request.id]: '' }));
+      toast.success(decision === 'approve' ? 'Step approved' : decision === 'reject' ? 'Review rejected' : 'Changes requested');
+      await loadReviews();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record your decision');
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const handleReadNotification = async (notification: Notification) => {
+    await collaborationService.markNotificationRead(notification.id).catch(error => {
+      console.error('Failed to mark notification as read:', error);
+    });
+    setNotifications(prev => prev.map(item => (item.id === notification.id ? { ...item, read: true } : item)));
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <ClipboardCheck className="h-6 w-6 mr-2" />
+            Reviews
+          </h1>
+          <p className="text-gray-600">
+            Courses waiting for your sign-off before they can be published
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-4">
+            {isLoading && <p className="text-gray-600">Loading reviews...</p>}
+
+            {!isLoading && queue.length === 0 && (
+              <Card>
+                <CardContent className="text-center text-gray-600">
+                  <CheckCircle className="h-8 w-8 mx-auto mb-2 text-green-600" />
+                  Nothing is waiting for your review.
+                </CardContent>
+              </Card>
+            )}
+
+            {queue.map(request => {
+              const workflow = workflows.find(candidate => candidate.id === request.workflowId);
+              const step = workflow && findStep(workflow, request.currentStepId);
+              const overdue = isOverdue(request, now);
+              const previewUrl = contentUrl(request.contentId);
+
+              return (
+                <Card key={request.id} className={overdue ? 'border-red-200' : undefined}>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle>{step?.name ?? request.currentStepId}</CardTitle>
+                        <p className="text-sm text-gray-600">{request.contentId} · {workflow?.name}</p>
+                      </div>
+                      <div className="text-right">
+                        <Badge variant={overdue ? 'danger' : 'primary'}>
+                          {overdue ? 'Overdue' : request.priority}
+                        </Badge>
+                        {request.dueDate && (
+                          <p className="text-xs text-gray-500 mt-1 flex items-center justify-end">
+                            <Clock className="h-3 w-3 mr-1" />
+                            Due {request.dueDate.toLocaleString()}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {step && <p className="text-sm text-gray-600">{step.description}</p>}
+
+                    {request.feedback.length > 0 && (
+                      <ul className="space-y-1">
+                        {request.feedback.map(entry => (
+                          <li key={entry.id} className="text-sm text-gray-700 flex items-start">
+                            <MessageSquare className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                            <span>
+                              <span className="font-medium">{(workflow && findStep(workflow, entry.stepId)?.name) ?? entry.stepId}:</span>{' '}
+                              {entry.decision.replace('_', ' ')}{entry.comments ? ` — ${entry.comments}` : ''}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <textarea
+                      value={comments[request.id] ?? ''}
+                      onChange={(e) => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+                      placeholder="Comments (required to request changes or reject)"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      rows={2}
+                    />
+
+                    <div className="flex items-center justify-between">
+                      {previewUrl ? (
+                        <Link href={previewUrl} className="text-sm text-blue-600 hover:underline flex items-center">
+                          <Eye className="h-4 w-4 mr-1" />
+                          Open course
+                        </Link>
+                      ) : <span />}
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={deciding === request.id}
+                          onClick={() => handleDecision(request, 'reject')}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={deciding === request.id}
+                          onClick={() => handleDecision(request, 'request_changes')}
+                        >
+                          Request Changes
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={deciding === request.id}
+                          onClick={() => handleDecision(request, 'approve')}
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Bell className="h-5 w-5 mr-2" />
+                Notifications
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {notifications.length === 0 ? (
+                <p className="text-sm text-gray-600">No notifications</p>
+              ) : (
+                <ul className="space-y-3">
+                  {notifications.map(notification => (
+                    <li
+                      key={notification.id}
+                      className={`text-sm border-l-2 pl-3 ${notification.priority === 'high' ? 'border-red-400' : 'border-blue-300'} ${notification.read ? 'opacity-60' : ''}`}
+                    >
+                      <div className="font-medium">{notification.title}</div>
+                      <div className="text-gray-600">{notification.message}</div>
+                      {!notification.read && (
+                        <button
+                          type="button"
+                          className="text-xs text-blue-600 hover:underline"
+                          onClick={() => handleReadNotification(notification)}
+                        >
+                          Mark as read
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
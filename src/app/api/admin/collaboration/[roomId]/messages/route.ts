@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CollaborationError } from '@/lib/collaboration/CollaborationRoom';
+import { findCollaborationRoom } from '@/lib/collaboration/ServerCollaboration';
+import { OperationError, parseOperation } from '@/lib/collaboration/TextOperation';
+import { authenticateAdmin } from '@/lib/auth/ServerSession';
+
+/**
+ * POST /api/admin/collaboration/{roomId}/messages
+ * An edit or caret move from a connected editor. The result reaches every
+ * editor, the sender included, through the room's stream.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  const user = authenticateAdmin(request.headers);
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const room = findCollaborationRoom(decodeURIComponent((await params).roomId));
+    const clientId = String(body.clientId ?? '');
+    const participant = room?.listParticipants().find(p => p.clientId === clientId);
+    if (!room || !participant || participant.userId !== user.sub) {
+      return NextResponse.json(
+        { success: false, error: 'Not connected to this session' },
+        { status: 404 }
+      );
+    }
+
+    const revision = Number(body.revision);
+    if (body.type === 'operation') {
+      const accepted = room.receiveOperation(clientId, revision, parseOperation(body.operation));
+      return NextResponse.json({ success: true, revision: accepted });
+    }
+    if (body.type === 'selection') {
+      const selection = body.selection as { anchor?: unknown; head?: unknown } | null;
+      if (selection !== null && !(Number.isInteger(selection?.anchor) && Number.isInteger(selection?.head))) {
+        return NextResponse.json(
+          { success: false, error: 'selection needs integer anchor and head' },
+          { status: 400 }
+        );
+      }
+      room.updateSelection(clientId, revision, selection as { anchor: number; head: number } | null);
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'type must be operation or selection' },
+      { status: 400 }
+    );
+  } catch (error) {
+    if (error instanceof CollaborationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    if (error instanceof OperationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error('Failed to apply collaboration message:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to apply collaboration message' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { encodeServerEvent, HEARTBEAT_INTERVAL_MS, isValidRoomId } from '@/lib/collaboration/CollaborationProtocol';
+import { CollaborationError } from '@/lib/collaboration/CollaborationRoom';
+import { leaveCollaborationRoom, openCollaborationRoom } from '@/lib/collaboration/ServerCollaboration';
+import { authenticateAdmin } from '@/lib/auth/ServerSession';
+
+// Streams stay open for as long as the editor is on the page
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/admin/collaboration/{roomId}
+ * Joins the room and answers with a server-sent event stream: a snapshot of
+ * the text first, then operations and presence. The body's `document` seeds
+ * a room nobody has edited yet; `mode: 'view'` joins for presence only.
+ * Leaving the page closes the stream and removes the editor from the room.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  const user = authenticateAdmin(request.headers);
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  const roomId = decodeURIComponent((await params).roomId);
+  if (!isValidRoomId(roomId)) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid room id' },
+      { status: 400 }
+    );
+  }
+
+  let body: { document?: unknown; mode?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  const clientId = randomUUID();
+  const room = openCollaborationRoom(roomId);
+  let snapshot: ReturnType<typeof room.join>;
+  try {
+    snapshot = room.join({
+      clientId,
+      userId: user.sub,
+      name: user.name || user.email,
+      canEdit: body.mode !== 'view',
+      document: typeof body.document === 'string' ? body.document : undefined
+    });
+  } catch (error) {
+    leaveCollaborationRoom(roomId, clientId);
+    if (error instanceof CollaborationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Failed to join collaboration room:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to join collaboration room' },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string) => controller.enqueue(encoder.encode(text));
+
+      write(encodeServerEvent(snapshot));
+      const unsubscribe = room.subscribe(message => write(encodeServerEvent(message)));
+      const heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      let closed = false;
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        leaveCollaborationRoom(roomId, clientId);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener('abort', cleanup);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listCollaborationRooms } from '@/lib/collaboration/ServerCollaboration';
+import { toSessionParticipant } from '@/lib/collaboration/CollaborationProtocol';
+import { authenticateAdmin } from '@/lib/auth/ServerSession';
+
+// Rooms change with every editor who joins or leaves
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/collaboration
+ * Rooms open on this server, with who is in them and where their carets are
+ */
+export async function GET(request: NextRequest) {
+  if (!authenticateAdmin(request.headers)) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  const rooms = listCollaborationRooms().map(room => ({
+    roomId: room.id,
+    revision: room.currentRevision,
+    lastActivity: new Date(room.lastActivity).toISOString(),
+    participants: room.listParticipants().map(presence => toSessionParticipant(presence, room.text, room.id))
+  }));
+  return NextResponse.json({ success: true, rooms });
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCommittable } from '@/lib/import/ImportPipeline';
+import { getImportJobStore } from '@/lib/import/ServerImportJobStore';
+import { authenticateAdmin } from '@/lib/auth/ServerSession';
+
+/**
+ * POST /api/admin/import/{jobId}/commit
+ * Hands out the planned courses of a completed dry run for saving. A job can
+ * be committed once; a second commit answers 409.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const payload = authenticateAdmin(request.headers);
+  if (!payload) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  const { jobId } = await params;
+
+  try {
+    const store = getImportJobStore();
+    const job = await store.get(jobId);
+    if (!job || job.createdBy !== payload.sub) {
+      return NextResponse.json(
+        { success: false, error: 'Import job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== 'completed' || !job.report || !isCommittable(job.report)) {
+      return NextResponse.json(
+        { success: false, error: 'Only a completed dry run with planned changes can be committed' },
+        { status: 422 }
+      );
+    }
+
+    if (!await store.markCommitted(job.id, Date.now())) {
+      return NextResponse.json(
+        { success: false, error: 'This import was already committed' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, plans: job.report.plans });
+  } catch (error) {
+    console.error('Failed to commit import job:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to commit import job' },
+      { status: 500 }
+    );
+  }
+}
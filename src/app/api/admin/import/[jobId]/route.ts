@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getImportJobStore } from '@/lib/import/ServerImportJobStore';
+import { authenticateAdmin } from '@/lib/auth/ServerSession';
+
+/**
+ * GET /api/admin/import/{jobId}
+ * Progress of an import job and, once completed, its dry-run report
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const payload = authenticateAdmin(request.headers);
+  if (!payload) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  const { jobId } = await params;
+
+  try {
+    const job = await getImportJobStore().get(jobId);
+    if (!job || job.createdBy !== payload.sub) {
+      return NextResponse.json(
+        { success: false, error: 'Import job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    console.error('Failed to load import job:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load import job' },
+      { status: 500 }
+    );
+  }
+}
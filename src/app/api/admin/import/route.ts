@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ImportFormatError, MAX_IMPORT_FILE_SIZE, runImport } from '@/lib/import/ImportPipeline';
+import { getImportJobStore } from '@/lib/import/ServerImportJobStore';
+import { SqliteFormatError } from '@/lib/import/SqliteDatabase';
+import { ZipFormatError } from '@/lib/import/ZipArchive';
+import { authenticateAdmin } from '@/lib/auth/ServerSession';
+import type { BulkImportJob, Course, ImportOptions } from '@/types';
+
+// Number of jobs shown in the import history
+const HISTORY_LIMIT = 10;
+
+function parseJsonField<T>(value: FormDataEntryValue | null, fallback: T): T {
+  if (typeof value !== 'string' || value === '') return fallback;
+  return JSON.parse(value) as T;
+}
+
+/**
+ * Runs the dry run in the background, saving progress as rows are validated
+ */
+async function processImportJob(job: BulkImportJob, bytes: Uint8Array, options: ImportOptions, existingCourses: Course[], authorId: number) {
+  const store = getImportJobStore();
+
+  try {
+    await store.update(job.id, { status: 'processing' });
+    const report = await runImport(
+      { filename: job.filename, bytes, options, existingCourses, authorId },
+      (processedItems, totalItems) => store.update(job.id, { processedItems, totalItems })
+    );
+
+    await store.update(job.id, {
+      status: 'completed',
+      format: report.format,
+      report,
+      errors: report.validationErrors
+        .filter(error => error.severity === 'error')
+        .map(error => `Row ${error.row}, ${error.field}: ${error.message}`),
+      completedAt: Date.now()
+    });
+  } catch (error) {
+    const readable = error instanceof ImportFormatError || error instanceof ZipFormatError || error instanceof SqliteFormatError;
+    if (!readable) console.error('Import job failed:', error);
+
+    await store.update(job.id, {
+      status: 'failed',
+      errors: [readable ? error.message : 'Import failed'],
+      completedAt: Date.now()
+    });
+  }
+}
+
+/**
+ * GET /api/admin/import
+ * Recent import jobs of the signed-in admin, without their reports
+ */
+export async function GET(request: NextRequest) {
+  const payload = authenticateAdmin(request.headers);
+  if (!payload) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const jobs = await getImportJobStore().list(payload.sub, HISTORY_LIMIT);
+    return NextResponse.json({ success: true, jobs: jobs.map(job => ({ ...job, report: undefined })) });
+  } catch (error) {
+    console.error('Failed to list import jobs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list import jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/import
+ * Multipart upload of `file` plus `options`, the admin's current `courses`
+ * and `authorId`. Starts a dry-run job and answers 202 right away; poll
+ * GET /api/admin/import/{jobId} for progress and the report.
+ */
+export async function POST(request: NextRequest) {
+  const payload = authenticateAdmin(request.headers);
+  if (!payload) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Expected a multipart form upload' },
+      { status: 400 }
+    );
+  }
+
+  const file = form.get('file');
+  if (!(file instanceof File)) {
+    return NextResponse.json(
+      { success: false, error: 'file is required' },
+      { status: 400 }
+    );
+  }
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    return NextResponse.json(
+      { success: false, error: `Files larger than ${MAX_IMPORT_FILE_SIZE / 1024 / 1024} MB cannot be imported` },
+      { status: 413 }
+    );
+  }
+
+  let options: ImportOptions;
+  let existingCourses: Course[];
+  try {
+    options = parseJsonField<ImportOptions>(form.get('options'), {});
+    existingCourses = parseJsonField<Course[]>(form.get('courses'), []);
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'options and courses must be JSON' },
+      { status: 400 }
+    );
+  }
+  if (!Array.isArray(existingCourses)) {
+    return NextResponse.json(
+      { success: false, error: 'courses must be an array' },
+      { status: 400 }
+    );
+  }
+
+  const authorId = Number(form.get('authorId'));
+  const job: BulkImportJob = {
+    id: crypto.randomUUID(),
+    filename: file.name,
+    status: 'pending',
+    totalItems: 0,
+    processedItems: 0,
+    errors: [],
+    createdAt: Date.now(),
+    createdBy: payload.sub
+  };
+
+  try {
+    await getImportJobStore().create(job);
+  } catch (error) {
+    console.error('Failed to create import job:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create import job' },
+      { status: 500 }
+    );
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  void processImportJob(job, bytes, options, existingCourses, Number.isInteger(authorId) && authorId > 0 ? authorId : 1);
+
+  return NextResponse.json({ success: true, job }, { status: 202 });
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isRateLimitAction, isRateLimitScope } from '@/lib/auth/RateLimiter';
+import { getAuthRepository } from '@/lib/auth/ServerAuth';
+import { getRateLimiter, logSecurityEvent } from '@/lib/auth/ServerRateLimit';
+import { authenticateAdmin } from '@/lib/auth/ServerSession';
+
+/**
+ * GET /api/admin/security/lockouts
+ * IPs and accounts currently locked out of login, registration or password reset
+ */
+export async function GET(request: NextRequest) {
+  if (!authenticateAdmin(request.headers)) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const lockouts = await (await getRateLimiter()).listLockouts();
+    return NextResponse.json({ success: true, lockouts });
+  } catch (error) {
+    console.error('Failed to load lockouts:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load lockouts' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/security/lockouts
+ * Lifts one lockout, given as `{ action, scope, subject }`
+ */
+export async function DELETE(request: NextRequest) {
+  const admin = authenticateAdmin(request.headers);
+  if (!admin) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  let body: { action?: unknown; scope?: unknown; subject?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  const { action, scope, subject } = body;
+  if (!isRateLimitAction(action) || !isRateLimitScope(scope) || typeof subject !== 'string' || !subject) {
+    return NextResponse.json(
+      { success: false, error: 'action, scope and subject are required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cleared = await (await getRateLimiter()).clearLockout(action, scope, subject);
+    if (!cleared) {
+      return NextResponse.json(
+        { success: false, error: 'Lockout not found' },
+        { status: 404 }
+      );
+    }
+  } catch (error) {
+    console.error('Failed to clear lockout:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to clear lockout' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    await logSecurityEvent(await getAuthRepository(), request.headers, {
+      userId: admin.sub,
+      action: 'lockout_cleared',
+      details: { endpoint: action, scope, subject }
+    });
+  } catch (error) {
+    console.error('Failed to log lockout_cleared:', error);
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseWebhookInput } from '@/lib/webhooks/WebhookConfig';
+import { WebhookError } from '@/lib/webhooks/WebhookWorker';
+import { getWebhookStore } from '@/lib/webhooks/ServerWebhooks';
+import { authenticateAdmin } from '@/lib/auth/ServerSession';
+
+/**
+ * PUT /api/admin/webhooks/{id}
+ * Updates the given fields of a webhook
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!authenticateAdmin(request.headers)) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const store = getWebhookStore();
+    const existing = await store.getWebhook(id);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    const webhook = parseWebhookInput(body, existing, id, new Date());
+    await store.saveWebhook(webhook);
+    return NextResponse.json({ success: true, webhook });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Failed to update webhook:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/webhooks/{id}
+ * Deletes a webhook; pending retries for it are dropped
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!authenticateAdmin(request.headers)) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    await getWebhookStore().deleteWebhook(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete webhook:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete webhook' },
+      { status: 500 }
+    );
+  }
+}
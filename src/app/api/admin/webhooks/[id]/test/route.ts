@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDomainEvent } from '@/lib/webhooks/DomainEvents';
+import { WebhookError } from '@/lib/webhooks/WebhookWorker';
+import { getWebhookWorker } from '@/lib/webhooks/ServerWebhooks';
+import { authenticateAdmin } from '@/lib/auth/ServerSession';
+
+/**
+ * POST /api/admin/webhooks/{id}/test
+ * Sends a `webhook.test` event to the webhook and answers with the delivery
+ * after its first attempt
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const admin = authenticateAdmin(request.headers);
+  if (!admin) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const delivery = await getWebhookWorker().send(
+      id,
+      createDomainEvent('webhook.test', { test: true, sentBy: admin.email, sentAt: new Date().toISOString() })
+    );
+    return NextResponse.json({ success: true, delivery });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Failed to test webhook:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to test webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookError } from '@/lib/webhooks/WebhookWorker';
+import { getWebhookWorker } from '@/lib/webhooks/ServerWebhooks';
+import { authenticateAdmin } from '@/lib/auth/ServerSession';
+
+/**
+ * POST /api/admin/webhooks/deliveries/{id}/replay
+ * Sends a dead-lettered delivery again with a fresh retry budget
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!authenticateAdmin(request.headers)) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const delivery = await getWebhookWorker().replay(id);
+    return NextResponse.json({ success: true, delivery });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Failed to replay webhook delivery:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to replay webhook delivery' },
+      { status: 500 }
+    );
+  }
+}
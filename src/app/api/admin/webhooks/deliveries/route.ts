@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWebhookStore } from '@/lib/webhooks/ServerWebhooks';
+import { authenticateAdmin } from '@/lib/auth/ServerSession';
+
+/**
+ * GET /api/admin/webhooks/deliveries?webhookId=…&deadLettered=true
+ * Recent deliveries, newest first. `deadLettered` lists the deliveries that
+ * ran out of retries and have not been replayed.
+ */
+export async function GET(request: NextRequest) {
+  if (!authenticateAdmin(request.headers)) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = request.nextUrl;
+  try {
+    const deliveries = await getWebhookStore().listDeliveries({
+      webhookId: searchParams.get('webhookId') ?? undefined,
+      deadLettered: searchParams.get('deadLettered') === 'true'
+    });
+    return NextResponse.json({ success: true, deliveries });
+  } catch (error) {
+    console.error('Failed to load webhook deliveries:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load webhook deliveries' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { emitDomainEvent } from '@/lib/webhooks/ServerWebhooks';
+import { authenticateAdmin } from '@/lib/auth/ServerSession';
+
+/**
+ * POST /api/admin/webhooks/events
+ * Raises `course.published` for a course the admin client just published.
+ * Courses are saved in the browser, so the server cannot see the change itself.
+ */
+export async function POST(request: NextRequest) {
+  const admin = authenticateAdmin(request.headers);
+  if (!admin) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  const { type, courseId, title } = body ?? {};
+  if (type !== 'course.published' || !Number.isInteger(courseId) || typeof title !== 'string') {
+    return NextResponse.json(
+      { success: false, error: 'type course.published with courseId and title is required' },
+      { status: 400 }
+    );
+  }
+
+  await emitDomainEvent('course.published', {
+    courseId,
+    title,
+    publishedBy: admin.email,
+    publishedAt: new Date().toISOString()
+  });
+  return NextResponse.json({ success: true }, { status: 202 });
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { parseWebhookInput } from '@/lib/webhooks/WebhookConfig';
+import { WebhookError } from '@/lib/webhooks/WebhookWorker';
+import { getWebhookStore } from '@/lib/webhooks/ServerWebhooks';
+import { authenticateAdmin } from '@/lib/auth/ServerSession';
+
+/**
+ * GET /api/admin/webhooks
+ * All webhooks, secrets included so admins can configure receivers
+ */
+export async function GET(request: NextRequest) {
+  if (!authenticateAdmin(request.headers)) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const webhooks = await getWebhookStore().listWebhooks();
+    return NextResponse.json({ success: true, webhooks });
+  } catch (error) {
+    console.error('Failed to load webhooks:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load webhooks' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/webhooks
+ * Creates a webhook. A signing secret is generated unless one is given.
+ */
+export async function POST(request: NextRequest) {
+  if (!authenticateAdmin(request.headers)) {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const webhook = parseWebhookInput(body, null, `webhook-${randomUUID()}`, new Date());
+    await getWebhookStore().saveWebhook(webhook);
+    return NextResponse.json({ success: true, webhook }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Failed to create webhook:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import bcrypt from 'bcryptjs';
+import { NextRequest } from 'next/server';
+import { MemoryAuthRepository } from '../../../../../lib/auth/AuthRepository';
+import { POST } from '../route';
+
+const mockAuth = { repository: new MemoryAuthRepository() };
+
+jest.mock('@/lib/auth/ServerAuth', () => ({
+  AUTH_DATABASE_MISSING: 'Missing auth database configuration',
+  getAuthRepository: async () => mockAuth.repository
+}));
+
+const NOW = '2026-03-01T10:00:00.000Z';
+const PASSWORD = 'Correct horse 1';
+
+async function student(id: string) {
+  return mockAuth.repository.createUser({
+    id,
+    email: `${id}@example.test`,
+    name: id,
+    role: 'student',
+    passwordHash: await bcrypt.hash(PASSWORD, 4),
+    isEmailVerified: true,
+    isActive: true,
+    createdAt: NOW,
+    updatedAt: NOW
+  });
+}
+
+const loginRequest = (email: string, password: string, forwardedFor: string) => new NextRequest('http://localhost/api/auth/login', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', 'x-forwarded-for': forwardedFor },
+  body: JSON.stringify({ email, password })
+});
+
+describe('POST /api/auth/login', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    mockAuth.repository = new MemoryAuthRepository();
+  });
+
+  it('signs the user in with the right password', async () => {
+    await student('hina');
+
+    const response = await POST(loginRequest('hina@example.test', PASSWORD, '198.51.100.1'));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).user).toMatchObject({ id: 'hina' });
+  });
+
+  it('backs off after repeated wrong passwords, even once the right one is sent', async () => {
+    await student('teva');
+    const statuses: number[] = [];
+    for (let attempt = 0; attempt < 4; attempt++) {
+      statuses.push((await POST(loginRequest('teva@example.test', 'guess', '198.51.100.2'))).status);
+    }
+
+    const response = await POST(loginRequest('teva@example.test', PASSWORD, '198.51.100.2'));
+
+    expect(statuses).toEqual([401, 401, 401, 401]);
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toEqual(expect.stringMatching(/^\d+$/));
+    expect(await mockAuth.repository.listActiveSessions('teva', new Date())).toEqual([]);
+  });
+
+  it('records the proxy-reported client address, not the one the client claims', async () => {
+    await student('moana');
+
+    await POST(loginRequest('moana@example.test', 'guess', '203.0.113.9, 198.51.100.3'));
+
+    expect(mockAuth.repository.activity).toEqual([
+      expect.objectContaining({ userId: 'moana', action: 'login_failed', ipAddress: '198.51.100.3' })
+    ]);
+  });
+});
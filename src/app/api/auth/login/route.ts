@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
+import { AUTH_DATABASE_MISSING, getAuthRepository } from '@/lib/auth/ServerAuth';
+import type { AccountRecord, AuthRepository } from '@/lib/auth/AuthRepository';
+import { retryAfterHeaders, type RateLimiter, type RateLimitSubjects } from '@/lib/auth/RateLimiter';
+import { clientIp, getRateLimiter, logSecurityEvent, tooManyRequests } from '@/lib/auth/ServerRateLimit';
+import { JWT_SECRET_MISSING, jwtSecret, startSession } from '@/lib/auth/ServerSession';
+import { signChallenge } from '@/lib/auth/TwoFactor';
+import { rbacService } from '@/services/RBACService';
 
 // Validation schema
 const loginSchema = z.object({
@@ -11,117 +16,34 @@ const loginSchema = z.object({
   rememberMe: z.boolean().optional().default(false)
 });
 
-// Types
-interface User {
-  id: string;
-  email: string;
-  name: string;
-  role: 'admin' | 'instructor' | 'student';
-  avatar?: string;
-  preferences?: any;
-  created_at: string;
-  updated_at: string;
-  last_login_at?: string;
-  is_email_verified: boolean;
-  is_active: boolean;
-  password_hash: string;
-}
-
-interface AuthTokens {
-  accessToken: string;
-  refreshToken: string;
-  expiresAt: number;
-}
-
-// Initialize Supabase client
-function getSupabaseClient() {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  
-  if (!supabaseUrl || !supabaseServiceKey) {
-    throw new Error('Missing Supabase configuration');
-  }
-  
-  return createClient(supabaseUrl, supabaseServiceKey);
-}
-
-// Generate JWT tokens
-function generateTokens(user: User): AuthTokens {
-  const jwtSecret = process.env.NEXTAUTH_SECRET || process.env.JWT_SECRET;
-  if (!jwtSecret) {
-    throw new Error('JWT secret not configured');
-  }
-
-  const payload = {
-    sub: user.id,
-    email: user.email,
-    role: user.role,
-    name: user.name,
-    iat: Math.floor(Date.now() / 1000),
-    jti: `${user.id}_${Date.now()}` // Unique token ID
-  };
-
-  // Access token (15 minutes)
-  const accessToken = jwt.sign(payload, jwtSecret, {
-    expiresIn: '15m',
-    issuer: 'tahitian-tutor',
-    audience: 'tahitian-tutor-app'
-  });
-
-  // Refresh token (7 days or 30 days if remember me)
-  const refreshTokenPayload = {
-    sub: user.id,
-    type: 'refresh',
-    jti: `refresh_${user.id}_${Date.now()}`
-  };
-
-  const refreshToken = jwt.sign(refreshTokenPayload, jwtSecret, {
-    expiresIn: '7d', // Always 7 days for security
-    issuer: 'tahitian-tutor',
-    audience: 'tahitian-tutor-app'
+// Counts a failed login and answers 401, with Retry-After once backoff applies
+async function rejectLogin(
+  repository: AuthRepository,
+  limiter: RateLimiter,
+  request: NextRequest,
+  subjects: RateLimitSubjects,
+  user: AccountRecord | null
+): Promise<NextResponse> {
+  const outcome = await limiter.recordFailure('login', subjects);
+  const userId = user?.id ?? 'anonymous';
+
+  await logSecurityEvent(repository, request.headers, {
+    userId,
+    action: 'login_failed',
+    details: { email: subjects.account, reason: user ? 'wrong_password' : 'unknown_email', failures: outcome.failures }
   });
-
-  const expiresAt = Date.now() + (15 * 60 * 1000); // 15 minutes
-
-  return {
-    accessToken,
-    refreshToken,
-    expiresAt
-  };
-}
-
-// Update user last login
-async function updateLastLogin(supabase: any, userId: string): Promise<void> {
-  const { error } = await supabase
-    .from('users')
-    .update({ 
-      last_login_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', userId);
-
-  if (error) {
-    console.error('Failed to update last login:', error);
-    // Don't throw here, as login should still succeed
-  }
-}
-
-// Store refresh token
-async function storeRefreshToken(supabase: any, userId: string, refreshToken: string): Promise<void> {
-  const { error } = await supabase
-    .from('user_sessions')
-    .insert({
-      user_id: userId,
-      refresh_token: refreshToken,
-      expires_at: new Date(Date.now() + (7 * 24 * 60 * 60 * 1000)).toISOString(), // 7 days
-      created_at: new Date().toISOString(),
-      is_active: true
+  if (outcome.locked.length > 0) {
+    await logSecurityEvent(repository, request.headers, {
+      userId,
+      action: 'lockout_started',
+      details: { endpoint: 'login', email: subjects.account, scopes: outcome.locked, retryAfter: outcome.retryAfter }
     });
-
-  if (error) {
-    console.error('Failed to store refresh token:', error);
-    // Don't throw here, as login should still succeed
   }
+
+  return NextResponse.json(
+    { error: 'Invalid email or password' },
+    { status: 401, headers: outcome.retryAfter > 0 ? retryAfterHeaders(outcome.retryAfter) : undefined }
+  );
 }
 
 export async function POST(request: NextRequest) {
@@ -131,25 +53,30 @@ export async function POST(request: NextRequest) {
     const validatedData = loginSchema.parse(body);
     const { email, password, rememberMe } = validatedData;
 
-    // Initialize Supabase
-    const supabase = getSupabaseClient();
+    const repository = await getAuthRepository();
+    const limiter = await getRateLimiter();
+
+    // Refuse locked-out or too frequent attempts before checking the password
+    const subjects = { ip: clientIp(request.headers), account: email };
+    const decision = await limiter.attempt('login', subjects);
+    if (!decision.allowed) {
+      await logSecurityEvent(repository, request.headers, {
+        userId: 'anonymous',
+        action: 'rate_limited',
+        details: { endpoint: 'login', email, reason: decision.reason, scope: decision.scope }
+      });
+      return tooManyRequests(decision);
+    }
 
     // Find user by email
-    const { data: user, error: userError } = await supabase
-      .from('users')
-      .select('*')
-      .eq('email', email.toLowerCase())
-      .single();
+    const user = await repository.findUserByEmail(email);
 
-    if (userError || !user) {
-      return NextResponse.json(
-        { error: 'Invalid email or password' },
-        { status: 401 }
-      );
+    if (!user) {
+      return rejectLogin(repository, limiter, request, subjects, null);
     }
 
     // Check if user is active
-    if (!user.is_active) {
+    if (!user.isActive) {
       return NextResponse.json(
         { error: 'Account is deactivated. Please contact support.' },
         { status: 403 }
@@ -157,57 +84,32 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify password
-    const isPasswordValid = await bcrypt.compare(password, user.password_hash);
+    const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
     if (!isPasswordValid) {
-      return NextResponse.json(
-        { error: 'Invalid email or password' },
-        { status: 401 }
-      );
+      return rejectLogin(repository, limiter, request, subjects, user);
     }
 
-    // Generate tokens
-    const tokens = generateTokens(user);
-
-    // Update last login and store refresh token
-    await Promise.all([
-      updateLastLogin(supabase, user.id),
-      storeRefreshToken(supabase, user.id, tokens.refreshToken)
-    ]);
+    await limiter.recordSuccess('login', subjects);
 
-    // Prepare user data (exclude sensitive information)
-    const userData = {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-      avatar: user.avatar,
-      preferences: user.preferences,
-      createdAt: user.created_at,
-      updatedAt: user.updated_at,
-      lastLoginAt: new Date().toISOString(),
-      isEmailVerified: user.is_email_verified,
-      isActive: user.is_active
-    };
-
-    // Set secure HTTP-only cookie for refresh token (optional)
-    const response = NextResponse.json({
-      success: true,
-      user: userData,
-      tokens
-    });
+    // With two factors, the password only earns a challenge to answer with a code
+    if (user.twoFactorEnabledAt) {
+      return NextResponse.json({
+        success: true,
+        requiresTwoFactor: true,
+        ...signChallenge({ userId: user.id, purpose: 'verify', rememberMe }, jwtSecret())
+      });
+    }
 
-    // Set refresh token as HTTP-only cookie if remember me is enabled
-    if (rememberMe) {
-      response.cookies.set('refresh_token', tokens.refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 7 * 24 * 60 * 60, // 7 days
-        path: '/'
+    // Roles that require two factors enroll before their first full sign-in
+    if (rbacService.requiresTwoFactor(user.role)) {
+      return NextResponse.json({
+        success: true,
+        requiresTwoFactorSetup: true,
+        ...signChallenge({ userId: user.id, purpose: 'setup', rememberMe }, jwtSecret())
       });
     }
 
-    return response;
+    return startSession(repository, request.headers, user, rememberMe);
 
   } catch (error) {
     console.error('[Auth] Login error:', error);
@@ -227,8 +129,8 @@ export async function POST(request: NextRequest) {
 
     if (error instanceof Error) {
       // Don't expose internal errors to client
-      if (error.message.includes('Missing Supabase configuration') || 
-          error.message.includes('JWT secret not configured')) {
+      if (error.message.includes(AUTH_DATABASE_MISSING) || 
+          error.message.includes(JWT_SECRET_MISSING)) {
         return NextResponse.json(
           { error: 'Service temporarily unavailable' },
           { status: 503 }
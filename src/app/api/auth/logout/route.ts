@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+import { AUTH_DATABASE_MISSING, getAuthRepository } from '@/lib/auth/ServerAuth';
+import { clientIp } from '@/lib/auth/ServerRateLimit';
+import type { AuthRepository } from '@/lib/auth/AuthRepository';
 
 // Types
 interface JWTPayload {
@@ -11,18 +14,8 @@ interface JWTPayload {
   iat: number;
   exp: number;
   jti: string;
-}
-
-// Initialize Supabase client
-function getSupabaseClient() {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  
-  if (!supabaseUrl || !supabaseServiceKey) {
-    throw new Error('Missing Supabase configuration');
-  }
-  
-  return createClient(supabaseUrl, supabaseServiceKey);
+  /** The session family; tokens issued before families have none */
+  sid?: string;
 }
 
 // Verify access token
@@ -44,39 +37,35 @@ function verifyAccessToken(token: string): JWTPayload {
   }
 }
 
-// Invalidate all user sessions
-async function invalidateUserSessions(supabase: any, userId: string): Promise<void> {
-  const { error } = await supabase
-    .from('user_sessions')
-    .update({ 
-      is_active: false,
-      updated_at: new Date().toISOString()
-    })
-    .eq('user_id', userId)
-    .eq('is_active', true);
-
-  if (error) {
+// Sign this device out, or every device when the token does not say which it is
+async function invalidateUserSessions(repository: AuthRepository, userId: string, sessionId?: string): Promise<void> {
+  try {
+    if (sessionId) {
+      await repository.deactivateSessionFamily(sessionId, 'logout');
+    } else {
+      await repository.deactivateUserSessions(userId, 'logout');
+    }
+  } catch (error) {
     console.error('Failed to invalidate user sessions:', error);
     throw new Error('Failed to invalidate sessions');
   }
 }
 
 // Log logout activity
-async function logLogoutActivity(supabase: any, userId: string, request: NextRequest): Promise<void> {
+async function logLogoutActivity(repository: AuthRepository, userId: string, request: NextRequest): Promise<void> {
   try {
-    await supabase
-      .from('user_activity_logs')
-      .insert({
-        user_id: userId,
-        action: 'user_logout',
-        details: {
-          logout_method: 'manual',
-          timestamp: new Date().toISOString()
-        },
-        ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
-        user_agent: request.headers.get('user-agent') || 'unknown',
-        created_at: new Date().toISOString()
-      });
+    await repository.logActivity({
+      id: randomUUID(),
+      userId,
+      action: 'user_logout',
+      details: {
+        logout_method: 'manual',
+        timestamp: new Date().toISOString()
+      },
+      ipAddress: clientIp(request.headers),
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      createdAt: new Date().toISOString()
+    });
   } catch (error) {
     console.error('Failed to log logout activity:', error);
     // Don't throw here, as logout should still succeed
@@ -84,14 +73,9 @@ async function logLogoutActivity(supabase: any, userId: string, request: NextReq
 }
 
 // Update user last activity
-async function updateUserLastActivity(supabase: any, userId: string): Promise<void> {
+async function updateUserLastActivity(repository: AuthRepository, userId: string): Promise<void> {
   try {
-    await supabase
-      .from('users')
-      .update({ 
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', userId);
+    await repository.updateUser(userId, { updatedAt: new Date().toISOString() });
   } catch (error) {
     console.error('Failed to update user last activity:', error);
     // Don't throw here, as logout should still succeed
@@ -136,14 +120,13 @@ export async function POST(request: NextRequest) {
 
     const userId = decoded.sub;
 
-    // Initialize Supabase
-    const supabase = getSupabaseClient();
+    const repository = await getAuthRepository();
 
-    // Invalidate all user sessions and log activity
+    // Invalidate this device's session and log activity
     await Promise.all([
-      invalidateUserSessions(supabase, userId),
-      logLogoutActivity(supabase, userId, request),
-      updateUserLastActivity(supabase, userId)
+      invalidateUserSessions(repository, userId, decoded.sid),
+      logLogoutActivity(repository, userId, request),
+      updateUserLastActivity(repository, userId)
     ]);
 
     // Create response
@@ -168,7 +151,7 @@ export async function POST(request: NextRequest) {
 
     if (error instanceof Error) {
       // Handle specific errors
-      if (error.message.includes('Missing Supabase configuration') || 
+      if (error.message.includes(AUTH_DATABASE_MISSING) || 
           error.message.includes('JWT secret not configured')) {
         return NextResponse.json(
           { error: 'Service temporarily unavailable' },
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { AUTH_DATABASE_MISSING, getAuthRepository } from '@/lib/auth/ServerAuth';
+import { clientIp } from '@/lib/auth/ServerRateLimit';
+import type { AccountChanges, AccountRecord, AuthRepository } from '@/lib/auth/AuthRepository';
 
 // Validation schemas
 const updateProfileSchema = z.object({
@@ -49,28 +52,7 @@ interface JWTPayload {
   jti: string;
 }
 
-interface UserProfile {
-  id: string;
-  email: string;
-  name: string;
-  role: string;
-  preferences: any;
-  created_at: string;
-  updated_at: string;
-  last_login_at: string;
-}
-
-// Initialize Supabase client
-function getSupabaseClient() {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  
-  if (!supabaseUrl || !supabaseServiceKey) {
-    throw new Error('Missing Supabase configuration');
-  }
-  
-  return createClient(supabaseUrl, supabaseServiceKey);
-}
+type ProfileUpdate = z.infer<typeof updateProfileSchema>;
 
 // Verify access token
 function verifyAccessToken(token: string): JWTPayload {
@@ -92,51 +74,31 @@ function verifyAccessToken(token: string): JWTPayload {
 }
 
 // Get user profile
-async function getUserProfile(supabase: any, userId: string): Promise<UserProfile> {
-  const { data, error } = await supabase
-    .from('users')
-    .select('id, email, name, role, preferences, created_at, updated_at, last_login_at')
-    .eq('id', userId)
-    .single();
-
-  if (error || !data) {
+async function getUserProfile(repository: AuthRepository, userId: string): Promise<AccountRecord> {
+  const user = await repository.getUser(userId);
+  if (!user) {
     throw new Error('User not found');
   }
 
-  return data;
+  return user;
 }
 
 // Verify current password
-async function verifyCurrentPassword(supabase: any, userId: string, currentPassword: string): Promise<boolean> {
-  const { data, error } = await supabase
-    .from('users')
-    .select('password_hash')
-    .eq('id', userId)
-    .single();
-
-  if (error || !data) {
-    throw new Error('User not found');
-  }
-
-  return await bcrypt.compare(currentPassword, data.password_hash);
+async function verifyCurrentPassword(repository: AuthRepository, userId: string, currentPassword: string): Promise<boolean> {
+  const user = await getUserProfile(repository, userId);
+  return await bcrypt.compare(currentPassword, user.passwordHash);
 }
 
 // Check if email is already taken
-async function isEmailTaken(supabase: any, email: string, excludeUserId: string): Promise<boolean> {
-  const { data, error } = await supabase
-    .from('users')
-    .select('id')
-    .eq('email', email)
-    .neq('id', excludeUserId)
-    .single();
-
-  return !error && data;
+async function isEmailTaken(repository: AuthRepository, email: string, excludeUserId: string): Promise<boolean> {
+  const owner = await repository.findUserByEmail(email);
+  return owner !== null && owner.id !== excludeUserId;
 }
 
 // Update user profile
-async function updateUserProfile(supabase: any, userId: string, updates: any): Promise<UserProfile> {
-  const updateData: any = {
-    updated_at: new Date().toISOString()
+async function updateUserProfile(repository: AuthRepository, userId: string, updates: ProfileUpdate): Promise<AccountRecord> {
+  const updateData: AccountChanges = {
+    updatedAt: new Date().toISOString()
   };
 
   // Handle basic profile updates
@@ -144,11 +106,7 @@ async function updateUserProfile(supabase: any, userId: string, updates: any): P
   if (updates.email) updateData.email = updates.email;
   if (updates.preferences) {
     // Merge with existing preferences
-    const { data: currentUser } = await supabase
-      .from('users')
-      .select('preferences')
-      .eq('id', userId)
-      .single();
+    const currentUser = await repository.getUser(userId);
 
     updateData.preferences = {
       ...currentUser?.preferences,
@@ -159,42 +117,41 @@ async function updateUserProfile(supabase: any, userId: string, updates: any): P
   // Handle password update
   if (updates.newPassword) {
     const saltRounds = 12;
-    updateData.password_hash = await bcrypt.hash(updates.newPassword, saltRounds);
+    updateData.passwordHash = await bcrypt.hash(updates.newPassword, saltRounds);
   }
 
-  const { data, error } = await supabase
-    .from('users')
-    .update(updateData)
-    .eq('id', userId)
-    .select('id, email, name, role, preferences, created_at, updated_at, last_login_at')
-    .single();
-
-  if (error) {
+  let updated: AccountRecord | null;
+  try {
+    updated = await repository.updateUser(userId, updateData);
+  } catch (error) {
     console.error('Failed to update user profile:', error);
     throw new Error('Failed to update profile');
   }
 
-  return data;
+  if (!updated) {
+    throw new Error('User not found');
+  }
+
+  return updated;
 }
 
 // Log profile update activity
-async function logProfileUpdateActivity(supabase: any, userId: string, updates: any, request: NextRequest): Promise<void> {
+async function logProfileUpdateActivity(repository: AuthRepository, userId: string, updates: ProfileUpdate, request: NextRequest): Promise<void> {
   try {
     const changedFields = Object.keys(updates).filter(key => key !== 'currentPassword');
     
-    await supabase
-      .from('user_activity_logs')
-      .insert({
-        user_id: userId,
-        action: 'profile_updated',
-        details: {
-          changed_fields: changedFields,
-          timestamp: new Date().toISOString()
-        },
-        ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
-        user_agent: request.headers.get('user-agent') || 'unknown',
-        created_at: new Date().toISOString()
-      });
+    await repository.logActivity({
+      id: randomUUID(),
+      userId,
+      action: 'profile_updated',
+      details: {
+        changed_fields: changedFields,
+        timestamp: new Date().toISOString()
+      },
+      ipAddress: clientIp(request.headers),
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      createdAt: new Date().toISOString()
+    });
   } catch (error) {
     console.error('Failed to log profile update activity:', error);
     // Don't throw here
@@ -219,11 +176,10 @@ export async function GET(request: NextRequest) {
     const decoded = verifyAccessToken(accessToken);
     const userId = decoded.sub;
 
-    // Initialize Supabase
-    const supabase = getSupabaseClient();
+    const repository = await getAuthRepository();
 
     // Get user profile
-    const profile = await getUserProfile(supabase, userId);
+    const profile = await getUserProfile(repository, userId);
 
     return NextResponse.json({
       success: true,
@@ -234,9 +190,9 @@ export async function GET(request: NextRequest) {
           name: profile.name,
           role: profile.role,
           preferences: profile.preferences || {},
-          created_at: profile.created_at,
-          updated_at: profile.updated_at,
-          last_login_at: profile.last_login_at
+          created_at: profile.createdAt,
+          updated_at: profile.updatedAt,
+          last_login_at: profile.lastLoginAt
         }
       }
     });
@@ -259,7 +215,7 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      if (error.message.includes('Missing Supabase configuration') || 
+      if (error.message.includes(AUTH_DATABASE_MISSING) || 
           error.message.includes('JWT secret not configured')) {
         return NextResponse.json(
           { error: 'Service temporarily unavailable' },
@@ -297,12 +253,11 @@ export async function PUT(request: NextRequest) {
     const body = await request.json();
     const validatedData = updateProfileSchema.parse(body);
 
-    // Initialize Supabase
-    const supabase = getSupabaseClient();
+    const repository = await getAuthRepository();
 
     // Verify current password if changing password
     if (validatedData.newPassword && validatedData.currentPassword) {
-      const isValidPassword = await verifyCurrentPassword(supabase, userId, validatedData.currentPassword);
+      const isValidPassword = await verifyCurrentPassword(repository, userId, validatedData.currentPassword);
       if (!isValidPassword) {
         return NextResponse.json(
           { error: 'Current password is incorrect' },
@@ -313,7 +268,7 @@ export async function PUT(request: NextRequest) {
 
     // Check if email is already taken
     if (validatedData.email) {
-      const emailTaken = await isEmailTaken(supabase, validatedData.email, userId);
+      const emailTaken = await isEmailTaken(repository, validatedData.email, userId);
       if (emailTaken) {
         return NextResponse.json(
           { error: 'Email is already in use' },
@@ -323,10 +278,10 @@ export async function PUT(request: NextRequest) {
     }
 
     // Update user profile
-    const updatedProfile = await updateUserProfile(supabase, userId, validatedData);
+    const updatedProfile = await updateUserProfile(repository, userId, validatedData);
 
     // Log activity
-    await logProfileUpdateActivity(supabase, userId, validatedData, request);
+    await logProfileUpdateActivity(repository, userId, validatedData, request);
 
     return NextResponse.json({
       success: true,
@@ -338,9 +293,9 @@ export async function PUT(request: NextRequest) {
           name: updatedProfile.name,
           role: updatedProfile.role,
           preferences: updatedProfile.preferences || {},
-          created_at: updatedProfile.created_at,
-          updated_at: updatedProfile.updated_at,
-          last_login_at: updatedProfile.last_login_at
+          created_at: updatedProfile.createdAt,
+          updated_at: updatedProfile.updatedAt,
+          last_login_at: updatedProfile.lastLoginAt
         }
       }
     });
@@ -383,7 +338,7 @@ export async function PUT(request: NextRequest) {
         );
       }
 
-      if (error.message.includes('Missing Supabase configuration') || 
+      if (error.message.includes(AUTH_DATABASE_MISSING) || 
           error.message.includes('JWT secret not configured')) {
         return NextResponse.json(
           { error: 'Service temporarily unavailable' },
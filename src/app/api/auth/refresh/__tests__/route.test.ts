@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { MemoryAuthRepository, type AccountRecord } from '../../../../../lib/auth/AuthRepository';
+import { startSession, type AuthTokens } from '../../../../../lib/auth/ServerSession';
+import { POST } from '../route';
+
+const mockAuth = { repository: new MemoryAuthRepository() };
+
+jest.mock('@/lib/auth/ServerAuth', () => ({
+  AUTH_DATABASE_MISSING: 'Missing auth database configuration',
+  getAuthRepository: async () => mockAuth.repository
+}));
+
+const NOW = '2026-03-01T10:00:00.000Z';
+
+const account = (id: string): AccountRecord => ({
+  id,
+  email: `${id}@example.test`,
+  name: id,
+  role: 'student',
+  passwordHash: 'hash',
+  isEmailVerified: true,
+  isActive: true,
+  createdAt: NOW,
+  updatedAt: NOW
+});
+
+async function signIn(userId: string): Promise<AuthTokens> {
+  const user = await mockAuth.repository.getUser(userId) ?? await mockAuth.repository.createUser(account(userId));
+  const response = await startSession(mockAuth.repository, new Headers({ 'user-agent': 'jest' }), user, false);
+  return (await response.json()).tokens;
+}
+
+const refreshRequest = (refreshToken: string) => new NextRequest('http://localhost/api/auth/refresh', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({ refreshToken })
+});
+
+describe('POST /api/auth/refresh', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    mockAuth.repository = new MemoryAuthRepository();
+  });
+
+  it('rotates the refresh token', async () => {
+    const tokens = await signIn('hina');
+
+    const response = await POST(refreshRequest(tokens.refreshToken));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.tokens.refreshToken).not.toBe(tokens.refreshToken);
+    expect(await mockAuth.repository.findActiveSession(body.tokens.refreshToken, new Date())).not.toBeNull();
+    expect(await mockAuth.repository.findActiveSession(tokens.refreshToken, new Date())).toBeNull();
+  });
+
+  it('signs the device out when a rotated token is reused', async () => {
+    const tokens = await signIn('hina');
+    const rotated = (await (await POST(refreshRequest(tokens.refreshToken))).json()).tokens;
+
+    const reused = await POST(refreshRequest(tokens.refreshToken));
+
+    expect(reused.status).toBe(401);
+    expect(await reused.json()).toEqual({ error: 'Invalid or expired refresh token' });
+    // The token issued by the legitimate rotation no longer works either
+    expect((await POST(refreshRequest(rotated.refreshToken))).status).toBe(401);
+    expect(await mockAuth.repository.findSession(rotated.refreshToken)).toMatchObject({
+      isActive: false,
+      endedReason: 'reuse_detected'
+    });
+  });
+
+  it('leaves the user\'s other devices signed in after a reuse', async () => {
+    const phone = await signIn('hina');
+    const laptop = await signIn('hina');
+    await POST(refreshRequest(phone.refreshToken));
+
+    await POST(refreshRequest(phone.refreshToken));
+
+    expect(await mockAuth.repository.findActiveSession(laptop.refreshToken, new Date())).not.toBeNull();
+  });
+
+  it('rejects tokens that are not refresh tokens', async () => {
+    const tokens = await signIn('hina');
+
+    const response = await POST(refreshRequest(tokens.accessToken));
+
+    expect(response.status).toBe(401);
+  });
+});
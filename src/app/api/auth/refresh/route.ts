@@ -1,7 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
 import jwt from 'jsonwebtoken';
 import { z } from 'zod';
+import { AUTH_DATABASE_MISSING, getAuthRepository } from '@/lib/auth/ServerAuth';
+import { sessionFamily, type AccountRecord, type AuthRepository, type SessionRecord } from '@/lib/auth/AuthRepository';
+import { logSecurityEvent } from '@/lib/auth/ServerRateLimit';
+import {
+  JWT_SECRET_MISSING,
+  generateTokens,
+  publicUser,
+  sessionClient,
+  sessionRecord,
+  setRefreshCookie
+} from '@/lib/auth/ServerSession';
 
 // Validation schema
 const refreshSchema = z.object({
@@ -17,43 +27,11 @@ interface RefreshTokenPayload {
   exp: number;
 }
 
-interface User {
-  id: string;
-  email: string;
-  name: string;
-  role: 'admin' | 'instructor' | 'student';
-  avatar?: string;
-  preferences?: any;
-  created_at: string;
-  updated_at: string;
-  last_login_at?: string;
-  is_email_verified: boolean;
-  is_active: boolean;
-}
-
-interface AuthTokens {
-  accessToken: string;
-  refreshToken: string;
-  expiresAt: number;
-}
-
-// Initialize Supabase client
-function getSupabaseClient() {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  
-  if (!supabaseUrl || !supabaseServiceKey) {
-    throw new Error('Missing Supabase configuration');
-  }
-  
-  return createClient(supabaseUrl, supabaseServiceKey);
-}
-
 // Verify refresh token
 function verifyRefreshToken(token: string): RefreshTokenPayload {
   const jwtSecret = process.env.NEXTAUTH_SECRET || process.env.JWT_SECRET;
   if (!jwtSecret) {
-    throw new Error('JWT secret not configured');
+    throw new Error(JWT_SECRET_MISSING);
   }
 
   try {
@@ -72,128 +50,42 @@ function verifyRefreshToken(token: string): RefreshTokenPayload {
   }
 }
 
-// Generate new JWT tokens
-function generateTokens(user: User): AuthTokens {
-  const jwtSecret = process.env.NEXTAUTH_SECRET || process.env.JWT_SECRET;
-  if (!jwtSecret) {
-    throw new Error('JWT secret not configured');
-  }
-
-  const payload = {
-    sub: user.id,
-    email: user.email,
-    role: user.role,
-    name: user.name,
-    iat: Math.floor(Date.now() / 1000),
-    jti: `${user.id}_${Date.now()}` // Unique token ID
-  };
-
-  // Access token (15 minutes)
-  const accessToken = jwt.sign(payload, jwtSecret, {
-    expiresIn: '15m',
-    issuer: 'tahitian-tutor',
-    audience: 'tahitian-tutor-app'
+/**
+ * A retired token came back: either it was stolen and the thief or the owner
+ * already used it, or the other way round. Neither copy can be trusted, so
+ * the whole family is signed out.
+ */
+async function revokeReusedFamily(repository: AuthRepository, session: SessionRecord, request: NextRequest): Promise<void> {
+  const familyId = sessionFamily(session);
+  await repository.deactivateSessionFamily(familyId, 'reuse_detected');
+  await logSecurityEvent(repository, request.headers, {
+    userId: session.userId,
+    action: 'refresh_token_reused',
+    details: { sessionId: familyId, signedInAt: session.signedInAt ?? session.createdAt }
   });
-
-  // New refresh token (7 days)
-  const refreshTokenPayload = {
-    sub: user.id,
-    type: 'refresh',
-    jti: `refresh_${user.id}_${Date.now()}`
-  };
-
-  const refreshToken = jwt.sign(refreshTokenPayload, jwtSecret, {
-    expiresIn: '7d',
-    issuer: 'tahitian-tutor',
-    audience: 'tahitian-tutor-app'
-  });
-
-  const expiresAt = Date.now() + (15 * 60 * 1000); // 15 minutes
-
-  return {
-    accessToken,
-    refreshToken,
-    expiresAt
-  };
-}
-
-// Validate refresh token in database
-async function validateRefreshTokenInDB(supabase: any, userId: string, refreshToken: string): Promise<boolean> {
-  const { data, error } = await supabase
-    .from('user_sessions')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('refresh_token', refreshToken)
-    .eq('is_active', true)
-    .gte('expires_at', new Date().toISOString())
-    .single();
-
-  return !error && !!data;
-}
-
-// Invalidate old refresh token
-async function invalidateRefreshToken(supabase: any, refreshToken: string): Promise<void> {
-  const { error } = await supabase
-    .from('user_sessions')
-    .update({ 
-      is_active: false,
-      updated_at: new Date().toISOString()
-    })
-    .eq('refresh_token', refreshToken);
-
-  if (error) {
-    console.error('Failed to invalidate refresh token:', error);
-  }
-}
-
-// Store new refresh token
-async function storeNewRefreshToken(supabase: any, userId: string, refreshToken: string): Promise<void> {
-  const { error } = await supabase
-    .from('user_sessions')
-    .insert({
-      user_id: userId,
-      refresh_token: refreshToken,
-      expires_at: new Date(Date.now() + (7 * 24 * 60 * 60 * 1000)).toISOString(), // 7 days
-      created_at: new Date().toISOString(),
-      is_active: true
-    });
-
-  if (error) {
-    console.error('Failed to store new refresh token:', error);
-  }
 }
 
 // Get user by ID
-async function getUserById(supabase: any, userId: string): Promise<User | null> {
-  const { data, error } = await supabase
-    .from('users')
-    .select('*')
-    .eq('id', userId)
-    .eq('is_active', true)
-    .single();
-
-  if (error || !data) {
-    return null;
-  }
-
-  return data;
+async function getUserById(repository: AuthRepository, userId: string): Promise<AccountRecord | null> {
+  const user = await repository.getUser(userId);
+  return user?.isActive ? user : null;
 }
 
 // Update user last activity
-async function updateLastActivity(supabase: any, userId: string): Promise<void> {
-  const { error } = await supabase
-    .from('users')
-    .update({ 
-      last_login_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', userId);
-
-  if (error) {
+async function updateLastActivity(repository: AuthRepository, userId: string): Promise<void> {
+  try {
+    const now = new Date().toISOString();
+    await repository.updateUser(userId, { lastLoginAt: now, updatedAt: now });
+  } catch (error) {
     console.error('Failed to update last activity:', error);
   }
 }
 
+const invalidRefreshToken = () => NextResponse.json(
+  { error: 'Invalid or expired refresh token' },
+  { status: 401 }
+);
+
 export async function POST(request: NextRequest) {
   try {
     // Parse and validate request body
@@ -216,20 +108,25 @@ export async function POST(request: NextRequest) {
     const decoded = verifyRefreshToken(tokenToUse);
     const userId = decoded.sub;
 
-    // Initialize Supabase
-    const supabase = getSupabaseClient();
+    const repository = await getAuthRepository();
 
-    // Validate refresh token in database
-    const isValidInDB = await validateRefreshTokenInDB(supabase, userId, tokenToUse);
-    if (!isValidInDB) {
-      return NextResponse.json(
-        { error: 'Invalid or expired refresh token' },
-        { status: 401 }
-      );
+    // Look the token up whatever its state, so a retired one is recognised
+    const session = await repository.findSession(tokenToUse);
+    if (!session || session.userId !== userId) {
+      return invalidRefreshToken();
+    }
+    if (!session.isActive) {
+      if (session.endedReason === 'rotated') {
+        await revokeReusedFamily(repository, session, request);
+      }
+      return invalidRefreshToken();
+    }
+    if (new Date(session.expiresAt) <= new Date()) {
+      return invalidRefreshToken();
     }
 
     // Get user data
-    const user = await getUserById(supabase, userId);
+    const user = await getUserById(repository, userId);
     if (!user) {
       return NextResponse.json(
         { error: 'User not found or inactive' },
@@ -237,47 +134,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate new tokens
-    const newTokens = generateTokens(user);
-
-    // Invalidate old refresh token and store new one
-    await Promise.all([
-      invalidateRefreshToken(supabase, tokenToUse),
-      storeNewRefreshToken(supabase, userId, newTokens.refreshToken),
-      updateLastActivity(supabase, userId)
-    ]);
+    // Generate new tokens in the same family
+    const familyId = sessionFamily(session);
+    const newTokens = generateTokens(user, familyId);
+    const next = sessionRecord(
+      userId,
+      newTokens.refreshToken,
+      { familyId, signedInAt: session.signedInAt ?? session.createdAt },
+      sessionClient(request.headers)
+    );
 
-    // Prepare user data (exclude sensitive information)
-    const userData = {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-      avatar: user.avatar,
-      preferences: user.preferences,
-      createdAt: user.created_at,
-      updatedAt: user.updated_at,
-      lastLoginAt: user.last_login_at,
-      isEmailVerified: user.is_email_verified,
-      isActive: user.is_active
-    };
+    // Retire the old refresh token and store the new one. Losing the race to
+    // a concurrent refresh with the same token counts as reuse.
+    if (!await repository.rotateSession(tokenToUse, next)) {
+      await revokeReusedFamily(repository, session, request);
+      return invalidRefreshToken();
+    }
+    await updateLastActivity(repository, userId);
 
     // Create response
     const response = NextResponse.json({
       success: true,
       tokens: newTokens,
-      user: userData
+      user: publicUser(user)
     });
 
     // Update refresh token cookie if it was provided via cookie
     if (cookieRefreshToken) {
-      response.cookies.set('refresh_token', newTokens.refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 7 * 24 * 60 * 60, // 7 days
-        path: '/'
-      });
+      setRefreshCookie(response, newTokens.refreshToken);
     }
 
     return response;
@@ -308,8 +192,8 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      if (error.message.includes('Missing Supabase configuration') || 
-          error.message.includes('JWT secret not configured')) {
+      if (error.message.includes(AUTH_DATABASE_MISSING) || 
+          error.message.includes(JWT_SECRET_MISSING)) {
         return NextResponse.json(
           { error: 'Service temporarily unavailable' },
           { status: 503 }
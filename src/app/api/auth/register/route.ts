@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
+import { AUTH_DATABASE_MISSING, getAuthRepository } from '@/lib/auth/ServerAuth';
+import { DuplicateEmailError, type AccountRecord, type AuthRepository } from '@/lib/auth/AuthRepository';
+import { retryAfterHeaders } from '@/lib/auth/RateLimiter';
+import { clientIp, getRateLimiter, logSecurityEvent, tooManyRequests } from '@/lib/auth/ServerRateLimit';
+import { emailLocale } from '@/lib/email/EmailTemplates';
+import { getMailer } from '@/lib/email/ServerEmail';
 
 // Validation schema
 const registerSchema = z.object({
@@ -34,22 +39,10 @@ interface UserPreferences {
   };
 }
 
-// Initialize Supabase client
-function getSupabaseClient() {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  
-  if (!supabaseUrl || !supabaseServiceKey) {
-    throw new Error('Missing Supabase configuration');
-  }
-  
-  return createClient(supabaseUrl, supabaseServiceKey);
-}
-
-// Generate default user preferences
-function generateDefaultPreferences(): UserPreferences {
+// Generate default user preferences, in the browser's language when we have it
+function generateDefaultPreferences(acceptLanguage: string | null): UserPreferences {
   return {
-    language: 'en',
+    language: emailLocale(acceptLanguage?.slice(0, 2).toLowerCase()),
     theme: 'system',
     notifications: {
       email: true,
@@ -65,42 +58,14 @@ function generateDefaultPreferences(): UserPreferences {
   };
 }
 
-// Check if email already exists
-async function checkEmailExists(supabase: any, email: string): Promise<boolean> {
-  const { data, error } = await supabase
-    .from('users')
-    .select('id')
-    .eq('email', email.toLowerCase())
-    .single();
-
-  return !error && !!data;
-}
-
 // Create user account
-async function createUser(supabase: any, userData: any): Promise<any> {
-  const { data, error } = await supabase
-    .from('users')
-    .insert(userData)
-    .select()
-    .single();
-
-  if (error) {
-    throw new Error(`Failed to create user: ${error.message}`);
+async function createUser(repository: AuthRepository, userData: AccountRecord): Promise<AccountRecord> {
+  try {
+    return await repository.createUser(userData);
+  } catch (error) {
+    if (error instanceof DuplicateEmailError) throw error;
+    throw new Error(`Failed to create user: ${error instanceof Error ? error.message : error}`);
   }
-
-  return data;
-}
-
-// Send welcome email (placeholder)
-async function sendWelcomeEmail(email: string, name: string): Promise<void> {
-  // TODO: Implement email service integration
-  console.log(`Welcome email would be sent to ${email} for ${name}`);
-}
-
-// Send email verification (placeholder)
-async function sendEmailVerification(email: string, verificationToken: string): Promise<void> {
-  // TODO: Implement email verification service
-  console.log(`Email verification would be sent to ${email} with token ${verificationToken}`);
 }
 
 export async function POST(request: NextRequest) {
@@ -110,15 +75,34 @@ export async function POST(request: NextRequest) {
     const validatedData = registerSchema.parse(body);
     const { email, password, name, role } = validatedData;
 
-    // Initialize Supabase
-    const supabase = getSupabaseClient();
+    const repository = await getAuthRepository();
+    const limiter = await getRateLimiter();
+
+    const subjects = { ip: clientIp(request.headers), account: email };
+    const decision = await limiter.attempt('register', subjects);
+    if (!decision.allowed) {
+      await logSecurityEvent(repository, request.headers, {
+        userId: 'anonymous',
+        action: 'rate_limited',
+        details: { endpoint: 'register', email, reason: decision.reason, scope: decision.scope }
+      });
+      return tooManyRequests(decision);
+    }
 
-    // Check if email already exists
-    const emailExists = await checkEmailExists(supabase, email);
-    if (emailExists) {
+    // Check if email already exists. Probing for taken emails counts as a failure.
+    const existingUser = await repository.findUserByEmail(email);
+    if (existingUser) {
+      const outcome = await limiter.recordFailure('register', { ip: subjects.ip });
+      if (outcome.locked.length > 0) {
+        await logSecurityEvent(repository, request.headers, {
+          userId: 'anonymous',
+          action: 'lockout_started',
+          details: { endpoint: 'register', scopes: outcome.locked, retryAfter: outcome.retryAfter }
+        });
+      }
       return NextResponse.json(
         { error: 'An account with this email already exists' },
-        { status: 409 }
+        { status: 409, headers: outcome.retryAfter > 0 ? retryAfterHeaders(outcome.retryAfter) : undefined }
       );
     }
 
@@ -132,52 +116,49 @@ export async function POST(request: NextRequest) {
     const now = new Date().toISOString();
 
     // Prepare user data
-    const userData = {
+    const userData: AccountRecord = {
       id: userId,
       email: email.toLowerCase(),
       name: name.trim(),
       role,
-      password_hash: passwordHash,
-      preferences: generateDefaultPreferences(),
-      created_at: now,
-      updated_at: now,
-      is_email_verified: false,
-      is_active: true,
-      email_verification_token: verificationToken,
-      email_verification_expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() // 24 hours
+      passwordHash,
+      preferences: { ...generateDefaultPreferences(request.headers.get('accept-language')) },
+      createdAt: now,
+      updatedAt: now,
+      isEmailVerified: false,
+      isActive: true,
+      emailVerificationToken: verificationToken,
+      emailVerificationExpiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() // 24 hours
     };
 
     // Create user
-    const createdUser = await createUser(supabase, userData);
+    const createdUser = await createUser(repository, userData);
 
-    // Send welcome and verification emails
+    // Send the verification email; the verify page can send another
     try {
-      await Promise.all([
-        sendWelcomeEmail(email, name),
-        sendEmailVerification(email, verificationToken)
-      ]);
+      const mailer = await getMailer();
+      await mailer.sendVerification(createdUser, verificationToken, userData.emailVerificationExpiresAt!);
     } catch (emailError) {
-      console.error('[Auth] Failed to send emails:', emailError);
+      console.error('[Auth] Failed to send verification email:', emailError);
       // Don't fail registration if emails fail
     }
 
     // Log registration event
     try {
-      await supabase
-        .from('user_activity_logs')
-        .insert({
-          user_id: userId,
-          action: 'user_registered',
-          details: {
-            email,
-            name,
-            role,
-            registration_method: 'email'
-          },
-          ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
-          user_agent: request.headers.get('user-agent') || 'unknown',
-          created_at: now
-        });
+      await repository.logActivity({
+        id: uuidv4(),
+        userId,
+        action: 'user_registered',
+        details: {
+          email,
+          name,
+          role,
+          registration_method: 'email'
+        },
+        ipAddress: clientIp(request.headers),
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        createdAt: now
+      });
     } catch (logError) {
       console.error('[Auth] Failed to log registration:', logError);
       // Don't fail registration if logging fails
@@ -193,7 +174,7 @@ export async function POST(request: NextRequest) {
         name: createdUser.name,
         role: createdUser.role,
         isEmailVerified: false,
-        createdAt: createdUser.created_at
+        createdAt: createdUser.createdAt
       }
     }, { status: 201 });
 
@@ -213,9 +194,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof DuplicateEmailError) {
+      return NextResponse.json(
+        { error: 'An account with this email already exists' },
+        { status: 409 }
+      );
+    }
+
     if (error instanceof Error) {
       // Handle specific errors
-      if (error.message.includes('Missing Supabase configuration')) {
+      if (error.message.includes(AUTH_DATABASE_MISSING)) {
         return NextResponse.json(
           { error: 'Service temporarily unavailable' },
           { status: 503 }
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
 import crypto from 'crypto';
+import { AUTH_DATABASE_MISSING, getAuthRepository } from '@/lib/auth/ServerAuth';
+import type { AuthRepository } from '@/lib/auth/AuthRepository';
+import type { RateLimiter, RateLimitSubjects } from '@/lib/auth/RateLimiter';
+import { clientIp, getRateLimiter, logSecurityEvent, tooManyRequests } from '@/lib/auth/ServerRateLimit';
+import { getMailer } from '@/lib/email/ServerEmail';
 
 // Validation schemas
 const resetRequestSchema = z.object({
@@ -16,154 +20,126 @@ const resetConfirmSchema = z.object({
     .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one lowercase letter, one uppercase letter, and one number')
 });
 
-// Types
-interface ResetToken {
-  id: string;
-  user_id: string;
-  token: string;
-  expires_at: string;
-  used: boolean;
-  created_at: string;
-}
-
-// Initialize Supabase client
-function getSupabaseClient() {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  
-  if (!supabaseUrl || !supabaseServiceKey) {
-    throw new Error('Missing Supabase configuration');
-  }
-  
-  return createClient(supabaseUrl, supabaseServiceKey);
-}
-
 // Generate secure reset token
 function generateResetToken(): string {
   return crypto.randomBytes(32).toString('hex');
 }
 
 // Create password reset token
-async function createResetToken(supabase: any, userId: string): Promise<string> {
+async function createResetToken(repository: AuthRepository, userId: string): Promise<{ token: string; expiresAt: string }> {
   const token = generateResetToken();
   const expiresAt = new Date(Date.now() + 60 * 60 * 1000); // 1 hour from now
 
-  // Invalidate any existing tokens for this user
-  await supabase
-    .from('password_reset_tokens')
-    .update({ used: true })
-    .eq('user_id', userId)
-    .eq('used', false);
-
-  // Create new reset token
-  const { error } = await supabase
-    .from('password_reset_tokens')
-    .insert({
-      user_id: userId,
+  // Replaces any existing tokens for this user
+  try {
+    await repository.replaceResetToken({
+      id: crypto.randomUUID(),
+      userId,
       token,
-      expires_at: expiresAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
       used: false,
-      created_at: new Date().toISOString()
+      createdAt: new Date().toISOString()
     });
-
-  if (error) {
+  } catch (error) {
     console.error('Failed to create reset token:', error);
     throw new Error('Failed to create reset token');
   }
 
-  return token;
+  return { token, expiresAt: expiresAt.toISOString() };
 }
 
 // Verify reset token
-async function verifyResetToken(supabase: any, token: string): Promise<{ userId: string; tokenId: string }> {
-  const { data, error } = await supabase
-    .from('password_reset_tokens')
-    .select('id, user_id, expires_at, used')
-    .eq('token', token)
-    .eq('used', false)
-    .single();
-
-  if (error || !data) {
+async function verifyResetToken(repository: AuthRepository, token: string): Promise<{ userId: string; tokenId: string }> {
+  const record = await repository.findUnusedResetToken(token);
+
+  if (!record) {
     throw new Error('Invalid or expired reset token');
   }
 
   // Check if token is expired
-  if (new Date(data.expires_at) < new Date()) {
+  if (new Date(record.expiresAt) < new Date()) {
     throw new Error('Reset token has expired');
   }
 
-  return { userId: data.user_id, tokenId: data.id };
+  return { userId: record.userId, tokenId: record.id };
 }
 
 // Update user password
-async function updateUserPassword(supabase: any, userId: string, newPassword: string): Promise<void> {
+async function updateUserPassword(repository: AuthRepository, userId: string, newPassword: string): Promise<void> {
   const saltRounds = 12;
   const hashedPassword = await bcrypt.hash(newPassword, saltRounds);
 
-  const { error } = await supabase
-    .from('users')
-    .update({ 
-      password_hash: hashedPassword,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', userId);
-
-  if (error) {
+  try {
+    await repository.updateUser(userId, {
+      passwordHash: hashedPassword,
+      updatedAt: new Date().toISOString()
+    });
+  } catch (error) {
     console.error('Failed to update password:', error);
     throw new Error('Failed to update password');
   }
 }
 
 // Mark reset token as used
-async function markTokenAsUsed(supabase: any, tokenId: string): Promise<void> {
-  const { error } = await supabase
-    .from('password_reset_tokens')
-    .update({ 
-      used: true,
-      used_at: new Date().toISOString()
-    })
-    .eq('id', tokenId);
-
-  if (error) {
+async function markTokenAsUsed(repository: AuthRepository, tokenId: string): Promise<void> {
+  try {
+    await repository.markResetTokenUsed(tokenId, new Date().toISOString());
+  } catch (error) {
     console.error('Failed to mark token as used:', error);
     // Don't throw here, as password update was successful
   }
 }
 
 // Log password reset activity
-async function logPasswordResetActivity(supabase: any, userId: string, action: string, request: NextRequest): Promise<void> {
+async function logPasswordResetActivity(repository: AuthRepository, userId: string, action: string, request: NextRequest): Promise<void> {
   try {
-    await supabase
-      .from('user_activity_logs')
-      .insert({
-        user_id: userId,
-        action: `password_${action}`,
-        details: {
-          action,
-          timestamp: new Date().toISOString()
-        },
-        ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
-        user_agent: request.headers.get('user-agent') || 'unknown',
-        created_at: new Date().toISOString()
-      });
+    await repository.logActivity({
+      id: crypto.randomUUID(),
+      userId,
+      action: `password_${action}`,
+      details: {
+        action,
+        timestamp: new Date().toISOString()
+      },
+      ipAddress: clientIp(request.headers),
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      createdAt: new Date().toISOString()
+    });
   } catch (error) {
     console.error('Failed to log password reset activity:', error);
     // Don't throw here
   }
 }
 
-// Send password reset email (placeholder)
-async function sendPasswordResetEmail(email: string, token: string): Promise<void> {
-  // TODO: Implement actual email sending
-  // For now, just log the reset link
-  const resetLink = `${process.env.NEXT_PUBLIC_APP_URL}/reset-password?token=${token}`;
-  console.log(`Password reset link for ${email}: ${resetLink}`);
-  
-  // In production, you would use a service like:
-  // - SendGrid
-  // - AWS SES
-  // - Resend
-  // - Nodemailer with SMTP
+// Refuses locked-out or too frequent requests with 429
+async function limitResetAttempt(
+  repository: AuthRepository,
+  limiter: RateLimiter,
+  request: NextRequest,
+  subjects: RateLimitSubjects,
+  action: string
+): Promise<NextResponse | null> {
+  const decision = await limiter.attempt('reset_password', subjects);
+  if (decision.allowed) return null;
+
+  await logSecurityEvent(repository, request.headers, {
+    userId: 'anonymous',
+    action: 'rate_limited',
+    details: { endpoint: `reset_password_${action}`, email: subjects.account, reason: decision.reason, scope: decision.scope }
+  });
+  return tooManyRequests(decision);
+}
+
+// Counts a guessed reset token against the client address
+async function recordInvalidToken(repository: AuthRepository, limiter: RateLimiter, request: NextRequest, subjects: RateLimitSubjects): Promise<void> {
+  const outcome = await limiter.recordFailure('reset_password', subjects);
+  if (outcome.locked.length > 0) {
+    await logSecurityEvent(repository, request.headers, {
+      userId: 'anonymous',
+      action: 'lockout_started',
+      details: { endpoint: 'reset_password_confirm', scopes: outcome.locked, retryAfter: outcome.retryAfter }
+    });
+  }
 }
 
 export async function POST(request: NextRequest) {
@@ -172,21 +148,22 @@ export async function POST(request: NextRequest) {
     const url = new URL(request.url);
     const action = url.searchParams.get('action') || 'request';
 
-    const supabase = getSupabaseClient();
+    const repository = await getAuthRepository();
+    const limiter = await getRateLimiter();
+    const ip = clientIp(request.headers);
 
     if (action === 'request') {
       // Handle password reset request
       const validatedData = resetRequestSchema.parse(body);
       const { email } = validatedData;
 
+      const limited = await limitResetAttempt(repository, limiter, request, { ip, account: email }, action);
+      if (limited) return limited;
+
       // Check if user exists
-      const { data: user, error: userError } = await supabase
-        .from('users')
-        .select('id, email, name')
-        .eq('email', email)
-        .single();
+      const user = await repository.findUserByEmail(email);
 
-      if (userError || !user) {
+      if (!user) {
         // Don't reveal if email exists or not for security
         return NextResponse.json({
           success: true,
@@ -195,13 +172,18 @@ export async function POST(request: NextRequest) {
       }
 
       // Create reset token
-      const resetToken = await createResetToken(supabase, user.id);
-
-      // Send reset email
-      await sendPasswordResetEmail(email, resetToken);
+      const resetToken = await createResetToken(repository, user.id);
+
+      // Send reset email. A failure is only logged, as an error would reveal the account exists.
+      try {
+        const mailer = await getMailer();
+        await mailer.sendPasswordReset(user, resetToken.token, resetToken.expiresAt);
+      } catch (emailError) {
+        console.error('[Auth] Failed to send password reset email:', emailError);
+      }
 
       // Log activity
-      await logPasswordResetActivity(supabase, user.id, 'reset_requested', request);
+      await logPasswordResetActivity(repository, user.id, 'reset_requested', request);
 
       return NextResponse.json({
         success: true,
@@ -213,27 +195,26 @@ export async function POST(request: NextRequest) {
       const validatedData = resetConfirmSchema.parse(body);
       const { token, newPassword } = validatedData;
 
+      const limited = await limitResetAttempt(repository, limiter, request, { ip }, action);
+      if (limited) return limited;
+
       // Verify reset token
-      const { userId, tokenId } = await verifyResetToken(supabase, token);
+      const { userId, tokenId } = await verifyResetToken(repository, token).catch(async (error: unknown) => {
+        await recordInvalidToken(repository, limiter, request, { ip });
+        throw error;
+      });
 
       // Update password
-      await updateUserPassword(supabase, userId, newPassword);
+      await updateUserPassword(repository, userId, newPassword);
 
       // Mark token as used
-      await markTokenAsUsed(supabase, tokenId);
+      await markTokenAsUsed(repository, tokenId);
 
       // Invalidate all user sessions (force re-login)
-      await supabase
-        .from('user_sessions')
-        .update({ 
-          is_active: false,
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', userId)
-        .eq('is_active', true);
+      await repository.deactivateUserSessions(userId, 'password_reset');
 
       // Log activity
-      await logPasswordResetActivity(supabase, userId, 'reset_completed', request);
+      await logPasswordResetActivity(repository, userId, 'reset_completed', request);
 
       return NextResponse.json({
         success: true,
@@ -265,7 +246,7 @@ export async function POST(request: NextRequest) {
 
     if (error instanceof Error) {
       // Handle specific errors
-      if (error.message.includes('Missing Supabase configuration')) {
+      if (error.message.includes(AUTH_DATABASE_MISSING)) {
         return NextResponse.json(
           { error: 'Service temporarily unavailable' },
           { status: 503 }
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { MemoryAuthRepository, type AccountRecord } from '../../../../../lib/auth/AuthRepository';
+import { startSession, type AuthTokens } from '../../../../../lib/auth/ServerSession';
+import { DELETE, GET } from '../route';
+
+const mockAuth = { repository: new MemoryAuthRepository() };
+
+jest.mock('@/lib/auth/ServerAuth', () => ({
+  AUTH_DATABASE_MISSING: 'Missing auth database configuration',
+  getAuthRepository: async () => mockAuth.repository
+}));
+
+const NOW = '2026-03-01T10:00:00.000Z';
+
+const account = (id: string): AccountRecord => ({
+  id,
+  email: `${id}@example.test`,
+  name: id,
+  role: 'student',
+  passwordHash: 'hash',
+  isEmailVerified: true,
+  isActive: true,
+  createdAt: NOW,
+  updatedAt: NOW
+});
+
+async function signIn(userId: string): Promise<AuthTokens> {
+  const user = await mockAuth.repository.getUser(userId) ?? await mockAuth.repository.createUser(account(userId));
+  const response = await startSession(mockAuth.repository, new Headers({ 'user-agent': 'jest' }), user, false);
+  return (await response.json()).tokens;
+}
+
+function sessionsRequest(method: 'GET' | 'DELETE', tokens?: AuthTokens, id?: string) {
+  const url = new URL('http://localhost/api/auth/sessions');
+  if (id) url.searchParams.set('id', id);
+  return new NextRequest(url, {
+    method,
+    headers: tokens ? { Authorization: `Bearer ${tokens.accessToken}` } : {}
+  });
+}
+
+describe('/api/auth/sessions', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    mockAuth.repository = new MemoryAuthRepository();
+  });
+
+  it('requires a signed-in user', async () => {
+    expect((await GET(sessionsRequest('GET'))).status).toBe(401);
+    expect((await DELETE(sessionsRequest('DELETE'))).status).toBe(401);
+  });
+
+  it('lists only the caller\'s devices', async () => {
+    const hina = await signIn('hina');
+    await signIn('teva');
+
+    const body = await (await GET(sessionsRequest('GET', hina))).json();
+
+    expect(body.sessions).toEqual([expect.objectContaining({ current: true })]);
+  });
+
+  it('will not sign out another user\'s device', async () => {
+    const hina = await signIn('hina');
+    const teva = await signIn('teva');
+    const [tevaDevice] = (await (await GET(sessionsRequest('GET', teva))).json()).sessions;
+
+    const response = await DELETE(sessionsRequest('DELETE', hina, tevaDevice.id));
+
+    expect(response.status).toBe(404);
+    expect(await mockAuth.repository.findActiveSession(teva.refreshToken, new Date())).not.toBeNull();
+  });
+
+  it('signs out one of the caller\'s own devices', async () => {
+    const phone = await signIn('hina');
+    const laptop = await signIn('hina');
+    const devices = (await (await GET(sessionsRequest('GET', laptop))).json()).sessions;
+    const phoneDevice = devices.find((device: { current: boolean }) => !device.current);
+
+    const response = await DELETE(sessionsRequest('DELETE', laptop, phoneDevice.id));
+
+    expect(await response.json()).toEqual({ success: true, signedOut: false });
+    expect(await mockAuth.repository.findActiveSession(phone.refreshToken, new Date())).toBeNull();
+    expect(await mockAuth.repository.findActiveSession(laptop.refreshToken, new Date())).not.toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AUTH_DATABASE_MISSING, getAuthRepository } from '@/lib/auth/ServerAuth';
+import { logSecurityEvent } from '@/lib/auth/ServerRateLimit';
+import { authenticate, JWT_SECRET_MISSING } from '@/lib/auth/ServerSession';
+import { summarizeSessions } from '@/lib/auth/Sessions';
+
+const unauthorized = () => NextResponse.json(
+  { error: 'Authorization token required' },
+  { status: 401 }
+);
+
+// The signed-in devices, one per session family
+export async function GET(request: NextRequest) {
+  try {
+    const payload = authenticate(request.headers);
+    if (!payload) return unauthorized();
+
+    const repository = await getAuthRepository();
+    const sessions = await repository.listActiveSessions(payload.sub, new Date());
+
+    return NextResponse.json({
+      success: true,
+      sessions: summarizeSessions(sessions, payload.sid)
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * `?id=` signs one device out; without it every device is signed out,
+ * including this one. A signed-out device can no longer refresh, so it is
+ * shut out once its current access token expires.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const payload = authenticate(request.headers);
+    if (!payload) return unauthorized();
+
+    const repository = await getAuthRepository();
+    const sessionId = new URL(request.url).searchParams.get('id');
+
+    if (!sessionId) {
+      await repository.deactivateUserSessions(payload.sub, 'revoked');
+      await logSecurityEvent(repository, request.headers, {
+        userId: payload.sub,
+        action: 'sessions_revoked',
+        details: { scope: 'all' }
+      });
+
+      const response = NextResponse.json({ success: true, signedOut: true });
+      response.cookies.set('refresh_token', '', {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: 0,
+        path: '/'
+      });
+      return response;
+    }
+
+    // Only the user's own devices can be signed out
+    const sessions = summarizeSessions(await repository.listActiveSessions(payload.sub, new Date()), payload.sid);
+    const target = sessions.find(session => session.id === sessionId);
+    if (!target) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    await repository.deactivateSessionFamily(target.id, 'revoked');
+    await logSecurityEvent(repository, request.headers, {
+      userId: payload.sub,
+      action: 'session_revoked',
+      details: { sessionId: target.id, device: target.device, ipAddress: target.ipAddress }
+    });
+
+    return NextResponse.json({ success: true, signedOut: target.current });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+function errorResponse(error: unknown): NextResponse {
+  console.error('[Auth] Sessions error:', error);
+
+  if (error instanceof Error && (error.message.includes(AUTH_DATABASE_MISSING) || error.message === JWT_SECRET_MISSING)) {
+    return NextResponse.json(
+      { error: 'Service temporarily unavailable' },
+      { status: 503 }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
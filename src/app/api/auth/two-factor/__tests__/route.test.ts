@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { MemoryAuthRepository, type AccountRecord } from '../../../../../lib/auth/AuthRepository';
+import { generateTotpSecret, totpCode, totpStep } from '../../../../../lib/auth/Totp';
+import { hashRecoveryCode, sealSecret, signChallenge } from '../../../../../lib/auth/TwoFactor';
+import { POST } from '../route';
+
+const mockAuth = { repository: new MemoryAuthRepository() };
+
+jest.mock('@/lib/auth/ServerAuth', () => ({
+  AUTH_DATABASE_MISSING: 'Missing auth database configuration',
+  getAuthRepository: async () => mockAuth.repository
+}));
+
+const JWT_SECRET = 'test-secret';
+const NOW = '2026-03-01T10:00:00.000Z';
+const RECOVERY_CODES = ['k3x9q-7hm2p', 'a2b3c-d4e5f'];
+
+/** An instructor with two-factor sign-in on, and the secret their app holds */
+async function enrolledUser(id: string): Promise<{ user: AccountRecord; secret: string }> {
+  const secret = generateTotpSecret();
+  const user = await mockAuth.repository.createUser({
+    id,
+    email: `${id}@example.test`,
+    name: id,
+    role: 'instructor',
+    passwordHash: 'hash',
+    isEmailVerified: true,
+    isActive: true,
+    createdAt: NOW,
+    updatedAt: NOW,
+    twoFactorSecret: sealSecret(secret, JWT_SECRET),
+    twoFactorEnabledAt: NOW,
+    twoFactorRecoveryCodes: RECOVERY_CODES.map(hashRecoveryCode)
+  });
+  return { user, secret };
+}
+
+const challengeFor = (userId: string) =>
+  signChallenge({ userId, purpose: 'verify', rememberMe: false }, JWT_SECRET).challengeToken;
+
+const currentCode = (secret: string) => totpCode(secret, totpStep(Date.now()));
+
+const verifyRequest = (body: Record<string, string>, ip: string) => new NextRequest('http://localhost/api/auth/two-factor?action=verify', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', 'x-forwarded-for': ip },
+  body: JSON.stringify(body)
+});
+
+describe('POST /api/auth/two-factor?action=verify', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = JWT_SECRET;
+  });
+
+  beforeEach(() => {
+    mockAuth.repository = new MemoryAuthRepository();
+  });
+
+  it('signs the user in once the code checks out', async () => {
+    const { user, secret } = await enrolledUser('hina');
+
+    const response = await POST(verifyRequest({ challengeToken: challengeFor(user.id), code: currentCode(secret) }, '198.51.100.1'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.user).toMatchObject({ id: 'hina', twoFactorEnabled: true });
+    expect(body.tokens.accessToken).toEqual(expect.any(String));
+  });
+
+  it('refuses a challenge that was already answered', async () => {
+    const { user, secret } = await enrolledUser('hina');
+    const challengeToken = challengeFor(user.id);
+    await POST(verifyRequest({ challengeToken, code: currentCode(secret) }, '198.51.100.2'));
+
+    // Even with a fresh, valid recovery code the replayed challenge signs no one in
+    const replayed = await POST(verifyRequest({ challengeToken, recoveryCode: RECOVERY_CODES[0] }, '198.51.100.2'));
+
+    expect(replayed.status).toBe(401);
+    expect(await replayed.json()).toEqual({ error: 'This sign-in has already been completed. Please sign in again.' });
+  });
+
+  it('refuses a code that was already used', async () => {
+    const { user, secret } = await enrolledUser('hina');
+    const code = currentCode(secret);
+    await POST(verifyRequest({ challengeToken: challengeFor(user.id), code }, '198.51.100.3'));
+
+    const replayed = await POST(verifyRequest({ challengeToken: challengeFor(user.id), code }, '198.51.100.3'));
+
+    expect(replayed.status).toBe(401);
+    expect(await replayed.json()).toEqual({ error: 'Invalid authentication code' });
+  });
+
+  it('spends each recovery code once', async () => {
+    const { user } = await enrolledUser('hina');
+    const first = await POST(verifyRequest({ challengeToken: challengeFor(user.id), recoveryCode: RECOVERY_CODES[1] }, '198.51.100.4'));
+
+    const second = await POST(verifyRequest({ challengeToken: challengeFor(user.id), recoveryCode: RECOVERY_CODES[1] }, '198.51.100.4'));
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(401);
+    expect((await mockAuth.repository.getUser(user.id))?.twoFactorRecoveryCodes).toEqual([hashRecoveryCode(RECOVERY_CODES[0])]);
+  });
+
+  it('will not answer one user\'s challenge with another user\'s code', async () => {
+    const { user: hina } = await enrolledUser('hina');
+    const { secret: tevaSecret } = await enrolledUser('teva');
+
+    const response = await POST(verifyRequest({ challengeToken: challengeFor(hina.id), code: currentCode(tevaSecret) }, '198.51.100.5'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects a forged challenge', async () => {
+    const { secret } = await enrolledUser('hina');
+    const forged = signChallenge({ userId: 'hina', purpose: 'verify', rememberMe: false }, 'another-secret').challengeToken;
+
+    const response = await POST(verifyRequest({ challengeToken: forged, code: currentCode(secret) }, '198.51.100.6'));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Your sign-in has expired. Please sign in again.' });
+  });
+});
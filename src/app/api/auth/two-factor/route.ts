@@ -0,0 +1,355 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AUTH_DATABASE_MISSING, getAuthRepository } from '@/lib/auth/ServerAuth';
+import type { AccountRecord, AuthRepository } from '@/lib/auth/AuthRepository';
+import { retryAfterHeaders } from '@/lib/auth/RateLimiter';
+import { clientIp, getRateLimiter, logSecurityEvent, tooManyRequests } from '@/lib/auth/ServerRateLimit';
+import { authenticate, JWT_SECRET_MISSING, jwtSecret, startSession } from '@/lib/auth/ServerSession';
+import { generateTotpSecret, totpProvisioningUri, verifyTotp } from '@/lib/auth/Totp';
+import {
+  TOTP_ISSUER,
+  TwoFactorError,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  matchRecoveryCode,
+  openSecret,
+  sealSecret,
+  verifyChallenge,
+  type TwoFactorChallenge
+} from '@/lib/auth/TwoFactor';
+import { rbacService } from '@/services/RBACService';
+
+// Validation schemas
+const setupSchema = z.object({
+  challengeToken: z.string().optional()
+});
+
+const enableSchema = z.object({
+  code: z.string().min(1, 'Authentication code is required'),
+  challengeToken: z.string().optional()
+});
+
+const verifySchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().optional(),
+  recoveryCode: z.string().optional()
+}).refine(data => Boolean(data.code || data.recoveryCode), {
+  message: 'An authentication code or a recovery code is required',
+  path: ['code']
+});
+
+const confirmSchema = z.object({
+  code: z.string().optional(),
+  recoveryCode: z.string().optional()
+}).refine(data => Boolean(data.code || data.recoveryCode), {
+  message: 'An authentication code or a recovery code is required',
+  path: ['code']
+});
+
+// TOTP secrets are encrypted with their own key when one is set
+function secretKey(): string {
+  return process.env.TWO_FACTOR_ENCRYPTION_KEY || jwtSecret();
+}
+
+function bearerUserId(request: NextRequest): string | null {
+  if (!request.headers.get('authorization')?.startsWith('Bearer ')) {
+    return null;
+  }
+  const payload = authenticate(request.headers);
+  if (!payload) {
+    throw new TwoFactorError('Invalid access token', 401);
+  }
+  return payload.sub;
+}
+
+async function loadUser(repository: AuthRepository, userId: string): Promise<AccountRecord> {
+  const user = await repository.getUser(userId);
+  if (!user || !user.isActive) {
+    throw new TwoFactorError('Account not found', 404);
+  }
+  return user;
+}
+
+// The account enrolling, from the setup challenge of a login or an access token
+async function enrollingUser(
+  repository: AuthRepository,
+  request: NextRequest,
+  challengeToken?: string
+): Promise<{ user: AccountRecord; challenge: TwoFactorChallenge | null }> {
+  const challenge = challengeToken ? verifyChallenge(challengeToken, 'setup', jwtSecret()) : null;
+  const userId = challenge?.userId ?? bearerUserId(request);
+  if (!userId) {
+    throw new TwoFactorError('Authorization token required', 401);
+  }
+
+  const user = await loadUser(repository, userId);
+  if (user.twoFactorEnabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+  }
+  return { user, challenge };
+}
+
+/**
+ * Checks a code from the authenticator app, or spends a recovery code, and
+ * saves what changed. Returns the response refusing it, or null when it is
+ * good. Wrong codes count towards the two-factor lockout.
+ */
+async function checkSecondFactor(
+  repository: AuthRepository,
+  request: NextRequest,
+  user: AccountRecord,
+  answer: { code?: string; recoveryCode?: string }
+): Promise<NextResponse | null> {
+  if (!user.twoFactorSecret) {
+    throw new TwoFactorError('Two-factor authentication is not enabled');
+  }
+
+  const limiter = await getRateLimiter();
+  const subjects = { ip: clientIp(request.headers), account: user.id };
+  const decision = await limiter.attempt('two_factor', subjects);
+  if (!decision.allowed) {
+    await logSecurityEvent(repository, request.headers, {
+      userId: user.id,
+      action: 'rate_limited',
+      details: { endpoint: 'two_factor', reason: decision.reason, scope: decision.scope }
+    });
+    return tooManyRequests(decision);
+  }
+
+  if (answer.code) {
+    const step = verifyTotp(openSecret(user.twoFactorSecret, secretKey()), answer.code, Date.now(), {
+      lastUsedStep: user.twoFactorLastStep
+    });
+    // A concurrent request may have spent the same code since the account was read
+    if (step !== null && await repository.advanceTwoFactorStep(user.id, step)) {
+      await limiter.recordSuccess('two_factor', subjects);
+      return null;
+    }
+  } else if (answer.recoveryCode) {
+    const match = matchRecoveryCode(user.twoFactorRecoveryCodes ?? [], answer.recoveryCode);
+    // Spent only if no concurrent request spent it first
+    const remaining = match && await repository.removeRecoveryCode(user.id, match);
+    if (remaining) {
+      await limiter.recordSuccess('two_factor', subjects);
+      await logSecurityEvent(repository, request.headers, {
+        userId: user.id,
+        action: 'two_factor_recovery_code_used',
+        details: { remaining: remaining.length }
+      });
+      return null;
+    }
+  }
+
+  const outcome = await limiter.recordFailure('two_factor', subjects);
+  await logSecurityEvent(repository, request.headers, {
+    userId: user.id,
+    action: 'two_factor_failed',
+    details: { method: answer.code ? 'totp' : 'recovery_code', failures: outcome.failures }
+  });
+  if (outcome.locked.length > 0) {
+    await logSecurityEvent(repository, request.headers, {
+      userId: user.id,
+      action: 'lockout_started',
+      details: { endpoint: 'two_factor', scopes: outcome.locked, retryAfter: outcome.retryAfter }
+    });
+  }
+  return NextResponse.json(
+    { error: 'Invalid authentication code' },
+    { status: 401, headers: outcome.retryAfter > 0 ? retryAfterHeaders(outcome.retryAfter) : undefined }
+  );
+}
+
+/**
+ * GET /api/auth/two-factor
+ * Whether two-factor sign-in is on for the signed-in account and whether its role requires it
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = bearerUserId(request);
+    if (!userId) {
+      throw new TwoFactorError('Authorization token required', 401);
+    }
+
+    const repository = await getAuthRepository();
+    const user = await loadUser(repository, userId);
+
+    return NextResponse.json({
+      success: true,
+      enabled: Boolean(user.twoFactorEnabledAt),
+      enabledAt: user.twoFactorEnabledAt,
+      required: rbacService.requiresTwoFactor(user.role),
+      recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length ?? 0
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST /api/auth/two-factor?action=setup|enable|verify|disable|recovery-codes
+ *
+ * - `setup` starts enrollment and returns the secret and its otpauth:// URI
+ * - `enable` confirms enrollment with a first code and returns recovery codes
+ * - `verify` answers a login challenge and signs the user in
+ * - `disable` and `recovery-codes` need a current code or a recovery code
+ *
+ * `setup` and `enable` take either an access token or, for roles that must
+ * enroll before signing in, the challenge token the login returned.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const action = new URL(request.url).searchParams.get('action');
+    const repository = await getAuthRepository();
+
+    if (action === 'setup') {
+      const { user } = await enrollingUser(repository, request, setupSchema.parse(body).challengeToken);
+      const secret = generateTotpSecret();
+      await repository.updateUser(user.id, {
+        twoFactorPendingSecret: sealSecret(secret, secretKey()),
+        updatedAt: new Date().toISOString()
+      });
+      return NextResponse.json({
+        success: true,
+        secret,
+        otpauthUri: totpProvisioningUri(secret, user.email, TOTP_ISSUER)
+      });
+    }
+
+    if (action === 'enable') {
+      const { code, challengeToken } = enableSchema.parse(body);
+      const { user, challenge } = await enrollingUser(repository, request, challengeToken);
+      if (!user.twoFactorPendingSecret) {
+        throw new TwoFactorError('Start two-factor setup first');
+      }
+      const step = verifyTotp(openSecret(user.twoFactorPendingSecret, secretKey()), code, Date.now());
+      if (step === null) {
+        throw new TwoFactorError('Invalid authentication code', 401);
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const now = new Date().toISOString();
+      const enabled = await repository.updateUser(user.id, {
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorPendingSecret: undefined,
+        twoFactorEnabledAt: now,
+        twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+        twoFactorLastStep: step,
+        updatedAt: now
+      });
+      await logSecurityEvent(repository, request.headers, { userId: user.id, action: 'two_factor_enabled', details: {} });
+
+      // Enrolling during login completes the login
+      if (challenge) {
+        return startSession(repository, request.headers, enabled ?? user, challenge.rememberMe, { recoveryCodes });
+      }
+      return NextResponse.json({ success: true, recoveryCodes });
+    }
+
+    if (action === 'verify') {
+      const { challengeToken, ...answer } = verifySchema.parse(body);
+      const challenge = verifyChallenge(challengeToken, 'verify', jwtSecret());
+      const user = await loadUser(repository, challenge.userId);
+
+      const refused = await checkSecondFactor(repository, request, user, answer);
+      if (refused) return refused;
+      // Each challenge signs in once
+      if (!await repository.consumeTwoFactorChallenge(challenge.id, user.id, new Date(challenge.expiresAt).toISOString())) {
+        throw new TwoFactorError('This sign-in has already been completed. Please sign in again.', 401);
+      }
+      return startSession(repository, request.headers, (await repository.getUser(user.id)) ?? user, challenge.rememberMe);
+    }
+
+    if (action === 'disable' || action === 'recovery-codes') {
+      const answer = confirmSchema.parse(body);
+      const userId = bearerUserId(request);
+      if (!userId) {
+        throw new TwoFactorError('Authorization token required', 401);
+      }
+
+      const user = await loadUser(repository, userId);
+      if (action === 'disable' && rbacService.requiresTwoFactor(user.role)) {
+        throw new TwoFactorError('Two-factor authentication is required for your role', 403);
+      }
+      const refused = await checkSecondFactor(repository, request, user, answer);
+      if (refused) return refused;
+
+      if (action === 'disable') {
+        await repository.updateUser(user.id, {
+          twoFactorSecret: undefined,
+          twoFactorPendingSecret: undefined,
+          twoFactorEnabledAt: undefined,
+          twoFactorRecoveryCodes: undefined,
+          twoFactorLastStep: undefined,
+          updatedAt: new Date().toISOString()
+        });
+        await logSecurityEvent(repository, request.headers, { userId: user.id, action: 'two_factor_disabled', details: {} });
+        return NextResponse.json({ success: true });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await repository.updateUser(user.id, {
+        twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+        updatedAt: new Date().toISOString()
+      });
+      await logSecurityEvent(repository, request.headers, { userId: user.id, action: 'two_factor_recovery_codes_regenerated', details: {} });
+      return NextResponse.json({ success: true, recoveryCodes });
+    }
+
+    return NextResponse.json(
+      { error: 'Invalid action parameter' },
+      { status: 400 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof TwoFactorError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error('[Auth] Two-factor error:', error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        error: 'Invalid input data',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof Error) {
+    // Don't expose internal errors to client
+    if (error.message.includes(AUTH_DATABASE_MISSING) ||
+        error.message.includes(JWT_SECRET_MISSING)) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable' },
+        { status: 503 }
+      );
+    }
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
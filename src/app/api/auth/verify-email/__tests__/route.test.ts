@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { MemoryAuthRepository, type AccountRecord } from '../../../../../lib/auth/AuthRepository';
+import { generateTokens } from '../../../../../lib/auth/ServerSession';
+import { CaptureEmailTransport } from '../../../../../lib/email/EmailTransport';
+import { Mailer } from '../../../../../lib/email/Mailer';
+import { POST } from '../route';
+
+const mockAuth = { repository: new MemoryAuthRepository() };
+const mockInbox = new CaptureEmailTransport();
+
+jest.mock('@/lib/auth/ServerAuth', () => ({
+  AUTH_DATABASE_MISSING: 'Missing auth database configuration',
+  getAuthRepository: async () => mockAuth.repository
+}));
+jest.mock('@/lib/email/ServerEmail', () => ({
+  getMailer: async () => new Mailer(mockInbox, { from: 'Tahitian Tutor <no-reply@example.com>', appUrl: 'https://tutor.example.com' })
+}));
+
+const NOW = '2026-03-01T10:00:00.000Z';
+const HOUR = 60 * 60 * 1000;
+
+async function unverifiedUser(id: string, token: string, expiresInMs = HOUR): Promise<AccountRecord> {
+  return mockAuth.repository.createUser({
+    id,
+    email: `${id}@example.test`,
+    name: id,
+    role: 'student',
+    passwordHash: 'hash',
+    isEmailVerified: false,
+    isActive: true,
+    emailVerificationToken: token,
+    emailVerificationExpiresAt: new Date(Date.now() + expiresInMs).toISOString(),
+    createdAt: NOW,
+    updatedAt: NOW
+  });
+}
+
+function verifyRequest(ip: string, options: { action?: string; body?: unknown; user?: AccountRecord } = {}) {
+  const url = new URL('http://localhost/api/auth/verify-email');
+  if (options.action) url.searchParams.set('action', options.action);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', 'x-forwarded-for': ip };
+  if (options.user) headers.Authorization = `Bearer ${generateTokens(options.user, 'session-1').accessToken}`;
+  return new NextRequest(url, { method: 'POST', headers, body: JSON.stringify(options.body ?? {}) });
+}
+
+/** The token in the newest verification link sent to the address */
+function linkTokenSentTo(address: string): string | undefined {
+  const message = mockInbox.messagesTo(address).at(-1);
+  const match = message?.text.match(/token=([^\s&"]+)/);
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+describe('POST /api/auth/verify-email', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    mockAuth.repository = new MemoryAuthRepository();
+    mockInbox.clear();
+  });
+
+  it('verifies the address the link was sent to', async () => {
+    await unverifiedUser('hina', 'link-token');
+
+    const response = await POST(verifyRequest('198.51.100.1', { body: { token: 'link-token' } }));
+
+    expect(await response.json()).toEqual({ success: true, email: 'hina@example.test' });
+    const hina = await mockAuth.repository.getUser('hina');
+    expect(hina?.isEmailVerified).toBe(true);
+    expect(hina?.emailVerificationToken).toBeUndefined();
+  });
+
+  it('refuses a link that was already used', async () => {
+    await unverifiedUser('hina', 'link-token');
+    await POST(verifyRequest('198.51.100.2', { body: { token: 'link-token' } }));
+
+    const replayed = await POST(verifyRequest('198.51.100.2', { body: { token: 'link-token' } }));
+
+    expect(replayed.status).toBe(400);
+    expect(await replayed.json()).toEqual({ error: 'Invalid verification link', expired: false });
+  });
+
+  it('refuses an expired link without verifying the account', async () => {
+    await unverifiedUser('hina', 'old-token', -HOUR);
+
+    const response = await POST(verifyRequest('198.51.100.3', { body: { token: 'old-token' } }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'This verification link has expired', expired: true });
+    expect((await mockAuth.repository.getUser('hina'))?.isEmailVerified).toBe(false);
+  });
+
+  it('requires a signed-in user to resend a link', async () => {
+    const response = await POST(verifyRequest('198.51.100.4', { action: 'resend' }));
+
+    expect(response.status).toBe(401);
+    expect(mockInbox.inbox).toHaveLength(0);
+  });
+
+  it('resends a new link to the caller only, replacing the old one', async () => {
+    const hina = await unverifiedUser('hina', 'hina-token');
+    await unverifiedUser('teva', 'teva-token');
+
+    const response = await POST(verifyRequest('198.51.100.5', { action: 'resend', user: hina }));
+    const token = linkTokenSentTo('hina@example.test');
+
+    expect(await response.json()).toEqual({ success: true });
+    expect(mockInbox.inbox.map(message => message.to)).toEqual(['hina@example.test']);
+    expect(token).toBeDefined();
+    expect(token).not.toBe('hina-token');
+    expect((await mockAuth.repository.getUser('teva'))?.emailVerificationToken).toBe('teva-token');
+    expect((await POST(verifyRequest('198.51.100.5', { body: { token: 'hina-token' } }))).status).toBe(400);
+    expect((await POST(verifyRequest('198.51.100.5', { body: { token } }))).status).toBe(200);
+  });
+});
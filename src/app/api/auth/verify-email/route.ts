@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { AUTH_DATABASE_MISSING, getAuthRepository } from '@/lib/auth/ServerAuth';
+import { retryAfterHeaders } from '@/lib/auth/RateLimiter';
+import { clientIp, getRateLimiter, logSecurityEvent, tooManyRequests } from '@/lib/auth/ServerRateLimit';
+import { authenticate, JWT_SECRET_MISSING } from '@/lib/auth/ServerSession';
+import { EmailTransportError } from '@/lib/email/EmailTransport';
+import { getMailer } from '@/lib/email/ServerEmail';
+
+// Validation schema
+const verifySchema = z.object({
+  token: z.string().min(1, 'Verification token is required')
+});
+
+const VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * `POST {token}` verifies the address a link was sent to; it needs no
+ * sign-in, as the link may be opened on another device.
+ * `POST ?action=resend` sends the signed-in user a new link.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const action = new URL(request.url).searchParams.get('action') || 'confirm';
+    const repository = await getAuthRepository();
+    const limiter = await getRateLimiter();
+    const ip = clientIp(request.headers);
+
+    if (action === 'confirm') {
+      const { token } = verifySchema.parse(await request.json());
+
+      const decision = await limiter.attempt('verify_email', { ip });
+      if (!decision.allowed) {
+        await logSecurityEvent(repository, request.headers, {
+          userId: 'anonymous',
+          action: 'rate_limited',
+          details: { endpoint: 'verify_email', reason: decision.reason, scope: decision.scope }
+        });
+        return tooManyRequests(decision);
+      }
+
+      const user = await repository.findUserByVerificationToken(token);
+      const expired = !user?.emailVerificationExpiresAt || new Date(user.emailVerificationExpiresAt) < new Date();
+      if (!user || expired) {
+        // Guessing tokens counts as a failure
+        const outcome = await limiter.recordFailure('verify_email', { ip });
+        if (outcome.locked.length > 0) {
+          await logSecurityEvent(repository, request.headers, {
+            userId: 'anonymous',
+            action: 'lockout_started',
+            details: { endpoint: 'verify_email', scopes: outcome.locked, retryAfter: outcome.retryAfter }
+          });
+        }
+        return NextResponse.json(
+          { error: user ? 'This verification link has expired' : 'Invalid verification link', expired: Boolean(user) },
+          { status: 400, headers: outcome.retryAfter > 0 ? retryAfterHeaders(outcome.retryAfter) : undefined }
+        );
+      }
+
+      await repository.updateUser(user.id, {
+        isEmailVerified: true,
+        emailVerificationToken: undefined,
+        emailVerificationExpiresAt: undefined,
+        updatedAt: new Date().toISOString()
+      });
+      await limiter.recordSuccess('verify_email', { ip });
+      await logSecurityEvent(repository, request.headers, {
+        userId: user.id,
+        action: 'email_verified',
+        details: { email: user.email }
+      });
+
+      return NextResponse.json({ success: true, email: user.email });
+    }
+
+    if (action === 'resend') {
+      const payload = authenticate(request.headers);
+      if (!payload) {
+        return NextResponse.json(
+          { error: 'Authorization token required' },
+          { status: 401 }
+        );
+      }
+
+      const user = await repository.getUser(payload.sub);
+      if (!user || !user.isActive) {
+        return NextResponse.json(
+          { error: 'User not found or inactive' },
+          { status: 404 }
+        );
+      }
+      if (user.isEmailVerified) {
+        return NextResponse.json(
+          { error: 'Email is already verified' },
+          { status: 400 }
+        );
+      }
+
+      const subjects = { ip, account: user.id };
+      const decision = await limiter.attempt('verify_email', subjects);
+      if (!decision.allowed) {
+        await logSecurityEvent(repository, request.headers, {
+          userId: user.id,
+          action: 'rate_limited',
+          details: { endpoint: 'verify_email', reason: decision.reason, scope: decision.scope }
+        });
+        return tooManyRequests(decision);
+      }
+
+      // A new link replaces the old one
+      const token = randomUUID();
+      const expiresAt = new Date(Date.now() + VERIFICATION_TTL_MS).toISOString();
+      await repository.updateUser(user.id, {
+        emailVerificationToken: token,
+        emailVerificationExpiresAt: expiresAt,
+        updatedAt: new Date().toISOString()
+      });
+
+      const mailer = await getMailer();
+      await mailer.sendVerification(user, token, expiresAt);
+      await logSecurityEvent(repository, request.headers, {
+        userId: user.id,
+        action: 'email_verification_sent',
+        details: { email: user.email }
+      });
+
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json(
+      { error: 'Invalid action parameter' },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error('[Auth] Email verification error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof EmailTransportError) {
+      return NextResponse.json(
+        { error: 'The verification email could not be sent. Please try again later.' },
+        { status: 503 }
+      );
+    }
+
+    if (error instanceof Error && (error.message.includes(AUTH_DATABASE_MISSING) || error.message === JWT_SECRET_MISSING)) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable' },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { AUTH_DATABASE_MISSING, getAuthRepository } from '@/lib/auth/ServerAuth';
+import { ServerDataService } from '@/lib/data/ServerDataService';
+import { wantsProgressEmails } from '@/lib/email/Mailer';
+import { getMailer } from '@/lib/email/ServerEmail';
+import { buildWeeklyDigest } from '@/lib/email/WeeklyDigest';
+
+// The scheduler authenticates with `Authorization: Bearer $CRON_SECRET`
+function isScheduler(request: NextRequest, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const given = Buffer.from(request.headers.get('authorization') ?? '');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * GET /api/cron/weekly-digest
+ * Emails each verified learner who wants progress emails a summary of the
+ * past seven days. Run it once a week; every run sends a fresh round.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Service temporarily unavailable' },
+      { status: 503 }
+    );
+  }
+  if (!isScheduler(request, secret)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const repository = await getAuthRepository();
+    const dataService = ServerDataService.getInstance();
+    const mailer = await getMailer();
+    const lessons = await dataService.getLessons();
+    const now = Date.now();
+
+    let sent = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    for (const user of await repository.listVerifiedUsers()) {
+      const progress = await dataService.getUserProgress(user.id);
+      // Learners who never started get no digest
+      if (!wantsProgressEmails(user) || progress.length === 0) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        await mailer.sendWeeklyDigest(user, buildWeeklyDigest(lessons, progress, now));
+        sent++;
+      } catch (error) {
+        console.error(`[Email] Weekly digest to ${user.id} failed:`, error);
+        failed++;
+      }
+    }
+
+    return NextResponse.json({ success: true, sent, skipped, failed });
+  } catch (error) {
+    console.error('[Email] Weekly digest error:', error);
+
+    if (error instanceof Error && error.message.includes(AUTH_DATABASE_MISSING)) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable' },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServerDataService } from '@/lib/data/ServerDataService';
+import { jsonWithETag } from '@/lib/api/ConditionalJson';
+
+// Roles that may read unpublished lessons
+const EDITOR_ROLES = ['instructor', 'admin', 'super_admin'];
+
+/**
+ * GET /api/lessons/[slug]
+ * Returns the full lesson, including sections, vocabulary and exercises
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+
+  try {
+    const lesson = await ServerDataService.getInstance().getLessonBySlug(slug);
+    const canSeeDrafts = EDITOR_ROLES.includes(request.headers.get('x-user-role') ?? '');
+
+    if (!lesson || (lesson.isPublished === false && !canSeeDrafts)) {
+      return NextResponse.json(
+        { success: false, error: 'Lesson not found' },
+        { status: 404 }
+      );
+    }
+
+    return jsonWithETag(request, { success: true, lesson });
+  } catch (error) {
+    console.error(`Failed to load lesson ${slug}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load lesson' },
+      { status: 500 }
+    );
+  }
+}
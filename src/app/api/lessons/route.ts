@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServerDataService } from '@/lib/data/ServerDataService';
+import { paginate, searchFiltersFromParams, DEFAULT_PAGE_SIZE } from '@/lib/data/LessonQuery';
+import { jsonWithETag } from '@/lib/api/ConditionalJson';
+import type { Lesson } from '@/types';
+
+// Roles that may list unpublished lessons
+const EDITOR_ROLES = ['instructor', 'admin', 'super_admin'];
+
+// Listings leave out section content; fetch /api/lessons/[slug] for the full lesson
+function toLessonSummary({ sections, ...lesson }: Lesson) {
+  return {
+    ...lesson,
+    sectionCount: sections.length,
+    vocabCount: sections.reduce((count, section) => count + (section.vocab?.length ?? 0), 0)
+  };
+}
+
+/**
+ * GET /api/lessons
+ * Paginated lesson listing. Accepts `page`, `pageSize` and the SearchFilters
+ * query parameters (`level`, `tags`, `q`, `category`, `minDuration`,
+ * `maxDuration`, `published`).
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const filters = searchFiltersFromParams(params);
+
+  // Middleware has verified the token and forwarded the role
+  if (!EDITOR_ROLES.includes(request.headers.get('x-user-role') ?? '')) {
+    filters.isPublished = true;
+  }
+
+  try {
+    const lessons = await ServerDataService.getInstance().getLessons(filters);
+    const { items, pagination } = paginate(
+      lessons,
+      Number(params.get('page')) || 1,
+      Number(params.get('pageSize')) || DEFAULT_PAGE_SIZE
+    );
+
+    return jsonWithETag(request, {
+      success: true,
+      lessons: items.map(toLessonSummary),
+      pagination
+    });
+  } catch (error) {
+    console.error('Failed to list lessons:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load lessons' },
+      { status: 500 }
+    );
+  }
+}
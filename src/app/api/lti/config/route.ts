@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ltiToolUrls } from '@/lib/lti/ServerLti';
+import { AGS_SCOPES } from '@/lib/lti/LtiTool';
+
+/**
+ * GET /api/lti/config
+ * The values an LMS administrator enters when registering TahitiSpeak as an
+ * LTI 1.3 tool
+ */
+export async function GET(request: NextRequest) {
+  const urls = ltiToolUrls(request.nextUrl.origin);
+  return NextResponse.json({
+    success: true,
+    tool: {
+      title: 'TahitiSpeak',
+      initiateLoginUrl: urls.loginUrl,
+      redirectUris: [urls.launchUrl],
+      targetLinkUri: urls.launchUrl,
+      publicJwksUrl: urls.jwksUrl,
+      deepLinkingUrl: urls.launchUrl,
+      scopes: [AGS_SCOPES.lineItem, AGS_SCOPES.score],
+      customParameters: { lesson_slug: 'Set by deep linking; the slug of the lesson to open' }
+    }
+  });
+}
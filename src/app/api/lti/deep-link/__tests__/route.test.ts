@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { generateSigningKey } from '../../../../../lib/lti/LtiJwt';
+import { MemoryLtiStore } from '../../../../../lib/lti/LtiStore';
+import { LtiTool } from '../../../../../lib/lti/LtiTool';
+import { MockLtiPlatform } from '../../../../../lib/lti/MockPlatform';
+import { POST } from '../route';
+
+const TOOL_URL = 'https://tutor.example.test';
+const LAUNCH_URL = `${TOOL_URL}/api/lti/launch`;
+
+const mockLti: { tool: LtiTool | null } = { tool: null };
+
+jest.mock('@/lib/sync/ServerSyncStore', () => ({ getSyncStore: jest.fn() }));
+jest.mock('@/lib/lti/ServerLti', () => ({
+  getLtiTool: async () => mockLti.tool,
+  ltiToolUrls: (origin: string) => ({ launchUrl: `${origin}/api/lti/launch` })
+}));
+
+/** The launch id a deep linking request leaves for the lesson picker */
+async function deepLinkingLaunch(roles?: string[]) {
+  const key = generateSigningKey();
+  const platform = new MockLtiPlatform(key.publicJwk);
+  const store = new MemoryLtiStore();
+  await store.savePlatform(platform.registration);
+  mockLti.tool = new LtiTool({ store, key, fetcher: platform.fetch });
+
+  const authUrl = await mockLti.tool.initiateLogin(platform.loginParams(LAUNCH_URL), LAUNCH_URL);
+  const { id_token, state } = platform.authorize(authUrl, { messageType: 'LtiDeepLinkingRequest', roles });
+  return (await mockLti.tool.validateLaunch(id_token, state)).id;
+}
+
+function pickRequest(launchId: string, lessons: string[]) {
+  const form = new FormData();
+  form.append('launch', launchId);
+  for (const slug of lessons) form.append('lesson', slug);
+  return new NextRequest(`${TOOL_URL}/api/lti/deep-link`, { method: 'POST', body: form });
+}
+
+describe('POST /api/lti/deep-link', () => {
+  it('posts the chosen lessons back to the LMS', async () => {
+    const launchId = await deepLinkingLaunch();
+
+    const response = await POST(pickRequest(launchId, ['greetings-basics']));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('https://lms.example.test/deep-link-return');
+  });
+
+  it('keeps learners out of the lesson picker', async () => {
+    const launchId = await deepLinkingLaunch(['http://purl.imsglobal.org/vocab/lis/v2/membership#Learner']);
+
+    const response = await POST(pickRequest(launchId, ['greetings-basics']));
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ success: false, error: 'Only instructors can add lessons' });
+  });
+
+  it('rejects a picker session that was already used', async () => {
+    const launchId = await deepLinkingLaunch();
+    await POST(pickRequest(launchId, ['greetings-basics']));
+
+    const response = await POST(pickRequest(launchId, ['greetings-basics']));
+
+    expect(response.status).toBe(410);
+    expect(await response.json()).toEqual({ success: false, error: 'This deep linking session has expired' });
+  });
+
+  it('rejects unknown lessons and empty picks', async () => {
+    const launchId = await deepLinkingLaunch();
+
+    expect((await POST(pickRequest(launchId, ['no-such-lesson']))).status).toBe(400);
+    expect((await POST(pickRequest(launchId, []))).status).toBe(400);
+  });
+});
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServerDataService } from '@/lib/data/ServerDataService';
+import { LtiError } from '@/lib/lti/LtiJwt';
+import { getLtiTool, ltiToolUrls } from '@/lib/lti/ServerLti';
+import { autoSubmitForm } from '@/lib/lti/LtiTool';
+import type { Lesson } from '@/types';
+
+/**
+ * POST /api/lti/deep-link
+ * Form post from the lesson picker (`launch` and one `lesson` per chosen
+ * slug). Answers with a page that posts the signed deep-linking response
+ * back to the LMS.
+ */
+export async function POST(request: NextRequest) {
+  const form = await request.formData();
+  const launchId = form.get('launch');
+  const slugs = form.getAll('lesson').filter((value): value is string => typeof value === 'string');
+
+  if (typeof launchId !== 'string' || slugs.length === 0) {
+    return NextResponse.json(
+      { success: false, error: 'Choose at least one lesson' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const dataService = ServerDataService.getInstance();
+    const lessons = (await Promise.all(slugs.map(slug => dataService.getLessonBySlug(slug))))
+      .filter((lesson): lesson is Lesson => lesson !== null);
+    if (lessons.length !== slugs.length) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown lesson' },
+        { status: 400 }
+      );
+    }
+
+    const tool = await getLtiTool();
+    const { returnUrl, jwt } = await tool.createDeepLinkingResponse(
+      launchId,
+      lessons,
+      ltiToolUrls(request.nextUrl.origin).launchUrl
+    );
+
+    return new NextResponse(autoSubmitForm(returnUrl, { JWT: jwt }), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    if (error instanceof LtiError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('LTI deep linking failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'Deep linking failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getLtiTool } from '@/lib/lti/ServerLti';
+
+/**
+ * GET /api/lti/jwks
+ * Public keys platforms use to verify our deep-linking responses and token
+ * requests
+ */
+export async function GET() {
+  const tool = await getLtiTool();
+  return NextResponse.json(tool.jwksDocument, {
+    headers: { 'Cache-Control': 'public, max-age=300' }
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import jwt from 'jsonwebtoken';
+import { NextRequest } from 'next/server';
+import { generateSigningKey } from '../../../../../lib/lti/LtiJwt';
+import { MemoryLtiStore } from '../../../../../lib/lti/LtiStore';
+import { LtiTool } from '../../../../../lib/lti/LtiTool';
+import { MockLtiPlatform } from '../../../../../lib/lti/MockPlatform';
+import { POST } from '../route';
+
+const LAUNCH_URL = 'https://tutor.example.test/api/lti/launch';
+
+const mockLti: { tool: LtiTool | null } = { tool: null };
+
+jest.mock('@/lib/lti/ServerLti', () => ({ getLtiTool: async () => mockLti.tool }));
+
+async function authorizeLaunch(options: Parameters<MockLtiPlatform['authorize']>[1] = {}) {
+  const key = generateSigningKey();
+  const platform = new MockLtiPlatform(key.publicJwk);
+  const store = new MemoryLtiStore();
+  await store.savePlatform(platform.registration);
+  mockLti.tool = new LtiTool({ store, key, fetcher: platform.fetch });
+
+  const authUrl = await mockLti.tool.initiateLogin(platform.loginParams(LAUNCH_URL), LAUNCH_URL);
+  return platform.authorize(authUrl, options);
+}
+
+function launchRequest(fields: Record<string, string>) {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) form.append(name, value);
+  return new NextRequest(LAUNCH_URL, { method: 'POST', body: form });
+}
+
+describe('POST /api/lti/launch', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  it('signs the learner in as a student and opens the linked lesson', async () => {
+    const posted = await authorizeLaunch({
+      custom: { lesson_slug: 'greetings' },
+      roles: ['http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor']
+    });
+
+    const response = await POST(launchRequest(posted));
+    const html = await response.text();
+    const token = jwt.verify(response.cookies.get('access_token')!.value, 'test-secret') as jwt.JwtPayload;
+
+    expect(response.status).toBe(200);
+    expect(html).toContain('/lessons/greetings');
+    expect(token).toMatchObject({ sub: 'lti:mock-lms:learner-42', role: 'student' });
+  });
+
+  it('rejects a replayed launch', async () => {
+    const posted = await authorizeLaunch({ custom: { lesson_slug: 'greetings' } });
+    await POST(launchRequest(posted));
+
+    const response = await POST(launchRequest(posted));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ success: false, error: 'Unknown or expired login state; launch again from the LMS' });
+    expect(response.cookies.get('access_token')).toBeUndefined();
+  });
+
+  it('rejects a launch without an id_token', async () => {
+    const posted = await authorizeLaunch();
+
+    const response = await POST(launchRequest({ state: posted.state }));
+
+    expect(response.status).toBe(400);
+    expect(response.cookies.get('access_token')).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import { LtiError } from '@/lib/lti/LtiJwt';
+import { getLtiTool } from '@/lib/lti/ServerLti';
+import type { LTI13Launch } from '@/types/integration';
+
+// LMS sessions are not refreshed; learners relaunch from the LMS instead
+const LTI_SESSION_SECONDS = 60 * 60;
+
+// Same keys as AuthService, so the embedded app treats the learner as signed in
+const TOKEN_STORAGE_KEY = 'tahitian_tutor_tokens';
+const USER_STORAGE_KEY = 'tahitian_tutor_user';
+
+/**
+ * LMS roles are not ours to grant: an Instructor in the LMS course gets a
+ * learner session here, and only uses their LMS role for deep linking,
+ * which checks the launch itself
+ */
+const LTI_SESSION_ROLE = 'student';
+
+function generateAccessToken(launch: LTI13Launch): string {
+  const jwtSecret = process.env.NEXTAUTH_SECRET || process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT secret not configured');
+  }
+
+  return jwt.sign(
+    {
+      sub: launch.userId,
+      email: launch.email ?? '',
+      role: LTI_SESSION_ROLE,
+      name: launch.name ?? '',
+      jti: `lti_${launch.id}`
+    },
+    jwtSecret,
+    {
+      expiresIn: LTI_SESSION_SECONDS,
+      issuer: 'tahitian-tutor',
+      audience: 'tahitian-tutor-app'
+    }
+  );
+}
+
+/** JSON inside a <script> element must not be able to close it */
+const scriptJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+/**
+ * Signs the learner in and opens the lesson. The page stores the session the
+ * way AuthService does; the cookie lets the middleware through inside the LMS
+ * iframe, hence SameSite=None and a partitioned cookie.
+ */
+function openLesson(launch: LTI13Launch) {
+  const accessToken = generateAccessToken(launch);
+  const now = new Date().toISOString();
+  const tokens = { accessToken, refreshToken: '', expiresAt: Date.now() + LTI_SESSION_SECONDS * 1000 };
+  const user = {
+    id: launch.userId,
+    email: launch.email ?? '',
+    name: launch.name ?? '',
+    role: LTI_SESSION_ROLE,
+    createdAt: now,
+    updatedAt: now,
+    isEmailVerified: Boolean(launch.email),
+    isActive: true
+  };
+  const target = launch.lessonSlug ? `/lessons/${encodeURIComponent(launch.lessonSlug)}` : '/lessons';
+
+  const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><title>TahitiSpeak</title></head><body><script>
+localStorage.setItem(${scriptJson(TOKEN_STORAGE_KEY)}, ${scriptJson(JSON.stringify(tokens))});
+localStorage.setItem(${scriptJson(USER_STORAGE_KEY)}, ${scriptJson(JSON.stringify(user))});
+location.replace(${scriptJson(target)});
+</script></body></html>`;
+
+  const response = new NextResponse(html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' }
+  });
+  response.cookies.set('access_token', accessToken, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'none',
+    partitioned: true,
+    maxAge: LTI_SESSION_SECONDS,
+    path: '/'
+  });
+  return response;
+}
+
+/**
+ * POST /api/lti/launch
+ * Receives the platform's form post (`id_token`, `state`). Resource link
+ * launches open the linked lesson; deep linking requests go to the lesson
+ * picker.
+ */
+export async function POST(request: NextRequest) {
+  const form = await request.formData();
+  const idToken = form.get('id_token');
+  const state = form.get('state');
+
+  try {
+    const tool = await getLtiTool();
+    const launch = await tool.validateLaunch(
+      typeof idToken === 'string' ? idToken : undefined,
+      typeof state === 'string' ? state : undefined
+    );
+
+    if (launch.messageType === 'LtiDeepLinkingRequest') {
+      return NextResponse.redirect(new URL(`/lti/deep-link?launch=${launch.id}`, request.url), 303);
+    }
+    return openLesson(launch);
+  } catch (error) {
+    if (error instanceof LtiError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('LTI launch failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'LTI launch failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LtiError } from '@/lib/lti/LtiJwt';
+import { getLtiTool, ltiToolUrls } from '@/lib/lti/ServerLti';
+import type { LoginInitiation } from '@/lib/lti/LtiTool';
+
+const LOGIN_PARAMS: Array<keyof LoginInitiation> = [
+  'iss',
+  'login_hint',
+  'target_link_uri',
+  'lti_message_hint',
+  'client_id',
+  'lti_deployment_id'
+];
+
+async function initiateLogin(request: NextRequest, read: (name: string) => string | null) {
+  const params: LoginInitiation = {};
+  for (const name of LOGIN_PARAMS) {
+    params[name] = read(name) ?? undefined;
+  }
+
+  try {
+    const tool = await getLtiTool();
+    const redirectUrl = await tool.initiateLogin(params, ltiToolUrls(request.nextUrl.origin).launchUrl);
+    return NextResponse.redirect(redirectUrl, 302);
+  } catch (error) {
+    if (error instanceof LtiError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('LTI login initiation failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'LTI login failed' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/lti/login
+ * OIDC third-party initiated login; redirects to the platform's
+ * authorization endpoint with a fresh state and nonce
+ */
+export async function GET(request: NextRequest) {
+  return initiateLogin(request, name => request.nextUrl.searchParams.get(name));
+}
+
+/**
+ * POST /api/lti/login
+ * Same as GET for platforms that post the login parameters as a form
+ */
+export async function POST(request: NextRequest) {
+  const form = await request.formData();
+  return initiateLogin(request, name => {
+    const value = form.get(name);
+    return typeof value === 'string' ? value : null;
+  });
+}
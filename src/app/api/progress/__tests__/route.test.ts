@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { generateTokens } from '../../../../lib/auth/ServerSession';
+import type { AccountRecord } from '../../../../lib/auth/AuthRepository';
+import { MemorySyncStore } from '../../../../lib/sync/SyncStore';
+import { GET, PUT } from '../route';
+
+const mockStore = new MemorySyncStore();
+
+jest.mock('@/lib/sync/ServerSyncStore', () => ({ getSyncStore: () => mockStore }));
+jest.mock('@/lib/lti/ServerLti', () => ({ publishLtiGrades: jest.fn(async () => undefined) }));
+jest.mock('@/lib/webhooks/ServerWebhooks', () => ({
+  completedLessonIds: jest.fn(async () => new Set<number>()),
+  emitLessonCompletions: jest.fn(async () => undefined)
+}));
+
+const NOW = '2026-03-01T10:00:00.000Z';
+
+const account = (id: string): AccountRecord => ({
+  id,
+  email: `${id}@example.test`,
+  name: id,
+  role: 'student',
+  passwordHash: 'hash',
+  isEmailVerified: true,
+  isActive: true,
+  createdAt: NOW,
+  updatedAt: NOW
+});
+
+function progressRequest(method: 'GET' | 'PUT', userId?: string, body?: unknown) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (userId) headers.Authorization = `Bearer ${generateTokens(account(userId), `session-${userId}`).accessToken}`;
+  return new NextRequest('http://localhost/api/progress?lessonId=1', {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+}
+
+describe('/api/progress', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  it('requires a signed-in user', async () => {
+    expect((await GET(progressRequest('GET'))).status).toBe(401);
+    expect((await PUT(progressRequest('PUT', undefined, { lessonId: 1, sectionKind: 'Practice', score: 80, completed: true }))).status).toBe(401);
+  });
+
+  it('saves progress for the caller, whatever user the body names', async () => {
+    const response = await PUT(progressRequest('PUT', 'teva', {
+      userId: 'hina',
+      lessonId: 1,
+      sectionKind: 'Practice',
+      score: 80,
+      completed: true
+    }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).progress).toMatchObject({ userId: 'teva', lessonId: 1, score: 80 });
+  });
+
+  it('only returns the caller\'s own progress', async () => {
+    const hina = await (await GET(progressRequest('GET', 'hina'))).json();
+    const teva = await (await GET(progressRequest('GET', 'teva'))).json();
+
+    expect(hina.progress).toEqual([]);
+    expect(teva.progress).toEqual([expect.objectContaining({ userId: 'teva', score: 80 })]);
+  });
+});
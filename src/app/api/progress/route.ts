@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataServiceError } from '@/lib/data/DataService';
+import { ServerDataService } from '@/lib/data/ServerDataService';
+import { jsonWithETag } from '@/lib/api/ConditionalJson';
+import { publishLtiGrades } from '@/lib/lti/ServerLti';
+import { completedLessonIds, emitLessonCompletions } from '@/lib/webhooks/ServerWebhooks';
+import { authenticate } from '@/lib/auth/ServerSession';
+import type { SectionKind } from '@/types';
+
+const SECTION_KINDS: SectionKind[] = ['Objectives', 'Vocabulary', 'Practice', 'Culture', 'Assessment', 'Review'];
+
+/**
+ * GET /api/progress
+ * Returns the signed-in user's progress, optionally for one `lessonId`
+ */
+export async function GET(request: NextRequest) {
+  const payload = authenticate(request.headers);
+  if (!payload) {
+    return NextResponse.json(
+      { success: false, error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const lessonIdParam = request.nextUrl.searchParams.get('lessonId');
+  const lessonId = lessonIdParam === null ? undefined : Number(lessonIdParam);
+  if (lessonId !== undefined && !Number.isInteger(lessonId)) {
+    return NextResponse.json(
+      { success: false, error: 'lessonId must be an integer' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const progress = await ServerDataService.getInstance().getUserProgress(payload.sub, lessonId);
+    return jsonWithETag(request, { success: true, progress });
+  } catch (error) {
+    console.error('Failed to load progress:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load progress' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/progress
+ * Upserts progress for one lesson section. Send an `Idempotency-Key` header to
+ * make retries safe; a repeated key does not count the attempt twice.
+ */
+export async function PUT(request: NextRequest) {
+  const payload = authenticate(request.headers);
+  if (!payload) {
+    return NextResponse.json(
+      { success: false, error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  const { lessonId, sectionKind, score, completed } = body ?? {};
+  const attemptsDelta = body?.attemptsDelta ?? 1;
+  if (
+    !Number.isInteger(lessonId) ||
+    !SECTION_KINDS.includes(sectionKind as SectionKind) ||
+    typeof score !== 'number' || score < 0 || score > 100 ||
+    typeof completed !== 'boolean' ||
+    !Number.isInteger(attemptsDelta) || (attemptsDelta as number) < 0
+  ) {
+    return NextResponse.json(
+      { success: false, error: 'lessonId, sectionKind, score (0-100) and completed are required' },
+      { status: 400 }
+    );
+  }
+
+  const actionId = request.headers.get('idempotency-key') || crypto.randomUUID();
+
+  try {
+    const completedBefore = await completedLessonIds(payload.sub, [lessonId as number]);
+    const progress = await ServerDataService.getInstance().upsertUserProgress(
+      payload.sub,
+      { lessonId: lessonId as number, sectionKind: sectionKind as SectionKind, score, completed },
+      `progress:${actionId}`,
+      attemptsDelta as number
+    );
+
+    // Learners launched from an LMS get their lesson score sent to its gradebook
+    void publishLtiGrades(payload.sub, [progress.lessonId]);
+    void emitLessonCompletions(payload.sub, [progress.lessonId], completedBefore);
+    return NextResponse.json({ success: true, progress });
+  } catch (error) {
+    if (error instanceof DataServiceError && error.code === 'VALIDATION_ERROR') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    if (error instanceof DataServiceError && error.code === 'CONFLICT') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Failed to save progress:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save progress' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { generateTokens } from '../../../../lib/auth/ServerSession';
+import type { AccountRecord } from '../../../../lib/auth/AuthRepository';
+import { MemorySyncStore } from '../../../../lib/sync/SyncStore';
+import { POST } from '../route';
+
+const mockStore = new MemorySyncStore();
+
+jest.mock('@/lib/sync/ServerSyncStore', () => ({ getSyncStore: () => mockStore }));
+jest.mock('@/lib/lti/ServerLti', () => ({ publishLtiGrades: jest.fn(async () => undefined) }));
+jest.mock('@/lib/webhooks/ServerWebhooks', () => ({ emitSyncedCompletions: jest.fn(async () => undefined) }));
+
+const NOW = '2026-03-01T10:00:00.000Z';
+
+const account = (id: string): AccountRecord => ({
+  id,
+  email: `${id}@example.test`,
+  name: id,
+  role: 'student',
+  passwordHash: 'hash',
+  isEmailVerified: true,
+  isActive: true,
+  createdAt: NOW,
+  updatedAt: NOW
+});
+
+const progressAction = (id: string, userId: string) => ({
+  id,
+  userId,
+  type: 'progress_update',
+  timestamp: 1000,
+  data: {
+    progress: { userId, lessonId: 1, sectionKind: 'Practice', completed: true, score: 90, attempts: 1, updatedAt: 1000 },
+    attemptsDelta: 1
+  }
+});
+
+function syncRequest(body: unknown, userId?: string) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (userId) headers.Authorization = `Bearer ${generateTokens(account(userId), `session-${userId}`).accessToken}`;
+  return new NextRequest('http://localhost/api/sync', { method: 'POST', headers, body: JSON.stringify(body) });
+}
+
+describe('POST /api/sync', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  it('requires a signed-in user', async () => {
+    const response = await POST(syncRequest({ actions: [progressAction('a-1', 'hina')] }));
+
+    expect(response.status).toBe(401);
+    expect((await mockStore.load('hina')).state.progress).toEqual([]);
+  });
+
+  it('rejects actions another user queued and applies the caller\'s own', async () => {
+    const response = await POST(syncRequest({
+      actions: [progressAction('a-2', 'teva'), progressAction('a-3', 'hina')]
+    }, 'teva'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.applied).toEqual(['a-2']);
+    expect(body.rejected).toEqual([{ id: 'a-3', error: 'Action was queued by another user' }]);
+    expect((await mockStore.load('hina')).state.progress).toEqual([]);
+    expect((await mockStore.load('teva')).state.progress).toHaveLength(1);
+  });
+
+  it('turns away a batch that only holds another user\'s actions', async () => {
+    const response = await POST(syncRequest({ actions: [progressAction('a-4', 'hina')] }, 'teva'));
+    const body = await response.json();
+
+    expect(body.applied).toEqual([]);
+    expect(body.rejected).toEqual([{ id: 'a-4', error: 'Action was queued by another user' }]);
+    expect((await mockStore.load('hina')).state.progress).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  applySyncActions,
+  lessonIdsOfActions,
+  MAX_SYNC_BATCH_SIZE,
+  partitionForeignActions,
+  type SyncAction
+} from '@/lib/sync/SyncProtocol';
+import { getSyncStore } from '@/lib/sync/ServerSyncStore';
+import { publishLtiGrades } from '@/lib/lti/ServerLti';
+import { emitSyncedCompletions } from '@/lib/webhooks/ServerWebhooks';
+import { authenticate } from '@/lib/auth/ServerSession';
+
+// Concurrent syncs from two devices are retried against the fresh state
+const MAX_WRITE_ATTEMPTS = 3;
+
+/**
+ * GET /api/sync
+ * Returns the merged server state for the signed-in user
+ */
+export async function GET(request: NextRequest) {
+  const payload = authenticate(request.headers);
+  if (!payload) {
+    return NextResponse.json(
+      { success: false, error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const record = await getSyncStore().load(payload.sub);
+    return NextResponse.json({ success: true, state: record.state });
+  } catch (error) {
+    console.error('Failed to load sync state:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load sync state' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/sync
+ * Applies a batch of offline actions. Re-sent action ids are acknowledged as
+ * duplicates without being applied twice, so clients can retry safely.
+ */
+export async function POST(request: NextRequest) {
+  const payload = authenticate(request.headers);
+  if (!payload) {
+    return NextResponse.json(
+      { success: false, error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  let body: { actions?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  if (!Array.isArray(body.actions)) {
+    return NextResponse.json(
+      { success: false, error: 'actions must be an array' },
+      { status: 400 }
+    );
+  }
+
+  if (body.actions.length > MAX_SYNC_BATCH_SIZE) {
+    return NextResponse.json(
+      { success: false, error: `At most ${MAX_SYNC_BATCH_SIZE} actions can be synced per request` },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const store = getSyncStore();
+    const { own, rejected: foreign } = partitionForeignActions(body.actions, payload.sub);
+
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const record = await store.load(payload.sub);
+      const result = applySyncActions(record.state, record.processedActionIds, own);
+
+      const saved = result.applied.length === 0 || await store.save({
+        ...record,
+        state: result.state,
+        processedActionIds: result.processedActionIds
+      });
+
+      if (saved) {
+        // Learners launched from an LMS get their lesson scores sent to its gradebook
+        void publishLtiGrades(payload.sub, lessonIdsOfActions(own as SyncAction[], result.applied));
+        void emitSyncedCompletions(
+          payload.sub,
+          result.state.completions.filter(c => !record.state.completions.some(before => before.lessonId === c.lessonId))
+        );
+        return NextResponse.json({
+          success: true,
+          applied: result.applied,
+          duplicates: result.duplicates,
+          rejected: [...foreign, ...result.rejected],
+          state: result.state
+        });
+      }
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Sync state changed concurrently, please retry' },
+      { status: 409 }
+    );
+  } catch (error) {
+    console.error('Sync failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'Sync failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServerDataService } from '@/lib/data/ServerDataService';
+import { paginate, searchFiltersFromParams, DEFAULT_PAGE_SIZE } from '@/lib/data/LessonQuery';
+import { jsonWithETag } from '@/lib/api/ConditionalJson';
+
+/**
+ * GET /api/vocabulary
+ * Looks up vocabulary across published lessons. `q` matches French, Tahitian
+ * or English forms regardless of accents and glottal stops; `lesson` and
+ * `level` narrow the search. Paginated with `page` and `pageSize`.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  try {
+    const entries = await ServerDataService.getInstance().getVocabulary({
+      query: params.get('q') ?? undefined,
+      lessonSlug: params.get('lesson') ?? undefined,
+      level: searchFiltersFromParams(params).level,
+      publishedOnly: true
+    });
+    const { items, pagination } = paginate(
+      entries,
+      Number(params.get('page')) || 1,
+      Number(params.get('pageSize')) || DEFAULT_PAGE_SIZE
+    );
+
+    return jsonWithETag(request, { success: true, vocabulary: items, pagination });
+  } catch (error) {
+    console.error('Failed to look up vocabulary:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to look up vocabulary' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { Suspense } from 'react';
+import { Metadata } from 'next';
+import { EmailVerification } from '../../../components/auth/EmailVerification';
+import { MailCheck } from 'lucide-react';
+import { AuthLayout } from '@/components/layout/AppLayout';
+
+export const metadata: Metadata = {
+  title: 'Verify Email | Tahitian Tutor',
+  description: 'Confirm the email address of your Tahitian Tutor account.',
+};
+
+export default function VerifyEmailPage() {
+  return (
+    <AuthLayout>
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="w-full max-w-md space-y-6">
+        {/* Logo and Title */}
+        <div className="text-center space-y-2">
+          <div className="mx-auto w-16 h-16 bg-gradient-to-br from-blue-600 to-indigo-600 rounded-2xl flex items-center justify-center">
+            <MailCheck className="h-8 w-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold tracking-tight">Verify Your Email</h1>
+          <p className="text-muted-foreground">
+            One last step to secure your account
+          </p>
+        </div>
+
+        {/* The link's token is read from the URL */}
+        <Suspense fallback={null}>
+          <EmailVerification />
+        </Suspense>
+      </div>
+    </div>
+    </AuthLayout>
+  );
+}
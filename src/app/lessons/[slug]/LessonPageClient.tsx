@@ -1,50 +1,61 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { LessonPage } from '@/components/lesson/LessonPage';
-import { JSONDataService } from '@/lib/data/JSONDataService';
+import { useEffect, useState } from 'react';
+import LessonPage from '@/components/lesson/LessonPage';
 import { AuthenticatedLayout } from '@/components/layout/AppLayout';
-import type { Lesson, UserProgress } from '@/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserProgress } from '@/hooks/useUserProgress';
+import { reviewScheduler } from '@/lib/srs/ReviewScheduler';
+import { phrasebookService } from '@/lib/phrasebook/PhrasebookService';
+import { gamificationService } from '@/lib/gamification/GamificationService';
+import CollaborationService from '@/services/CollaborationService';
+import type { ExerciseResult, Lesson, UserProgress, VocabItem } from '@/types';
+import type { Annotation } from '@/types/collaboration';
 
 interface LessonPageClientProps {
   lesson: Lesson;
 }
 
 export function LessonPageClient({ lesson }: LessonPageClientProps) {
-  const [userProgress, setUserProgress] = useState<UserProgress | undefined>(undefined);
-  const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  const { progress, isLoading, recordProgress } = useUserProgress(lesson.id);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
 
+  // Studying a lesson adds its vocabulary to the user's spaced-repetition reviews
   useEffect(() => {
-    const loadUserProgress = async () => {
-      try {
-        setIsLoading(true);
-        const dataService = new JSONDataService();
-        // Using a default user ID of 1 for now
-        const progress = await dataService.getUserProgress(1, lesson.id);
-        setUserProgress(progress);
-      } catch (error) {
-        console.error('Failed to load user progress:', error);
-        // Set empty progress if loading fails
-        setUserProgress(undefined);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+    if (!user) return;
+    reviewScheduler.trackLessonVocabulary(user.id, lesson).catch(error => {
+      console.error('Failed to track lesson vocabulary for review:', error);
+    });
+  }, [user, lesson]);
 
-    loadUserProgress();
-  }, [lesson.id]);
+  // Reviewers' notes marked public are shown alongside the lesson text
+  useEffect(() => {
+    new CollaborationService().getLessonAnnotations(lesson.slug, { publicOnly: true })
+      .then(setAnnotations)
+      .catch(error => {
+        console.error('Failed to load lesson annotations:', error);
+      });
+  }, [lesson.slug]);
 
-  const handleProgressUpdate = async (progress: UserProgress) => {
+  const handleProgressUpdate = async (updated: UserProgress, results: ExerciseResult[], previous?: UserProgress) => {
     try {
-      const dataService = new JSONDataService();
-      await dataService.updateUserProgress(progress);
-      setUserProgress(progress);
-      console.log('Progress updated:', progress);
+      await recordProgress(updated);
+      await gamificationService.recordActivity(updated, results, previous);
     } catch (error) {
       console.error('Failed to update progress:', error);
     }
   };
 
+  const handleAddToPhrasebook = async (item: VocabItem) => {
+    if (!user) return;
+    try {
+      await phrasebookService.addEntry(user.id, item, lesson.slug);
+    } catch (error) {
+      console.error('Failed to add to phrasebook:', error);
+    }
+  };
+
   if (isLoading) {
     return (
       <AuthenticatedLayout>
@@ -62,8 +73,11 @@ export function LessonPageClient({ lesson }: LessonPageClientProps) {
     <AuthenticatedLayout>
       <LessonPage
         lesson={lesson}
-        userProgress={userProgress}
+        userId={user?.id ?? ''}
+        userProgress={progress}
         onProgressUpdate={handleProgressUpdate}
+        onAddToPhrasebook={handleAddToPhrasebook}
+        annotations={annotations}
       />
     </AuthenticatedLayout>
   );
@@ -10,6 +10,7 @@ import Button from '@/components/ui/Button';
 import Badge from '@/components/ui/Badge';
 import Input from '@/components/ui/Input';
 import { AuthenticatedLayout } from '@/components/layout/AppLayout';
+import { OfflinePackButton } from '@/components/offline/OfflinePackButton';
 
 const LessonsPage: React.FC = () => {
   const [lessons, setLessons] = useState<Lesson[]>([]);
@@ -192,6 +193,13 @@ const LessonsPage: React.FC = () => {
           </Card>
         </div>
 
+        {selectedLevel !== 'all' && (
+          <div className="mb-6 flex items-center justify-between gap-4">
+            <p className="text-sm text-gray-600">Take every {selectedLevel} lesson with you offline.</p>
+            <OfflinePackButton key={selectedLevel} level={selectedLevel} className="w-64" />
+          </div>
+        )}
+
         {/* Lessons Grid */}
         {filteredLessons.length === 0 ? (
           <div className="text-center py-12" role="status" aria-live="polite">
@@ -266,6 +274,8 @@ const LessonsPage: React.FC = () => {
                       <ArrowRight className="w-4 h-4" aria-hidden="true" />
                     </Button>
                   </Link>
+
+                  <OfflinePackButton slug={lesson.slug} className="mt-3" />
                 </CardContent>
               </Card>
             ))}
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Metadata } from 'next';
+import { ServerDataService } from '@/lib/data/ServerDataService';
+import { LtiError } from '@/lib/lti/LtiJwt';
+import { getLtiTool } from '@/lib/lti/ServerLti';
+import type { LTI13Launch } from '@/types/integration';
+
+export const metadata: Metadata = {
+  title: 'Add lessons | Tahitian Tutor',
+  description: 'Choose the lessons to add to your LMS course.'
+};
+
+export const dynamic = 'force-dynamic';
+
+interface DeepLinkPageProps {
+  searchParams: Promise<{ launch?: string }>;
+}
+
+/**
+ * Lesson picker an instructor sees after choosing TahitiSpeak in the LMS
+ * activity chooser. Submitting posts to /api/lti/deep-link, which hands the
+ * selection back to the LMS.
+ */
+export default async function DeepLinkPage({ searchParams }: DeepLinkPageProps) {
+  const { launch: launchId } = await searchParams;
+
+  let launch: LTI13Launch;
+  try {
+    launch = await (await getLtiTool()).getDeepLinkingLaunch(launchId ?? '');
+  } catch (error) {
+    const message = error instanceof LtiError ? error.message : 'This link could not be opened';
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <h1 className="text-2xl font-bold mb-2">Lessons unavailable</h1>
+        <p className="text-gray-600">{message}. Start again from your LMS.</p>
+      </div>
+    );
+  }
+
+  const lessons = await ServerDataService.getInstance().getLessons({ isPublished: true });
+  const multiple = launch.deepLinking?.acceptMultiple ?? false;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <h1 className="text-2xl font-bold mb-2">Add TahitiSpeak lessons</h1>
+      <p className="text-gray-600 mb-6">
+        {launch.contextTitle ? `Choose the lessons to add to ${launch.contextTitle}. ` : 'Choose the lessons to add to your course. '}
+        Each lesson gets its own gradebook column with the learner&apos;s score out of 100.
+      </p>
+
+      <form method="post" action="/api/lti/deep-link" className="space-y-4">
+        <input type="hidden" name="launch" value={launch.id} />
+        <fieldset className="border border-gray-200 rounded-md divide-y divide-gray-100">
+          <legend className="sr-only">Lessons</legend>
+          {lessons.map(lesson => (
+            <label key={lesson.slug} className="flex items-start gap-3 p-3 hover:bg-gray-50 cursor-pointer">
+              <input
+                type={multiple ? 'checkbox' : 'radio'}
+                name="lesson"
+                value={lesson.slug}
+                className="mt-1"
+                required={!multiple}
+              />
+              <span>
+                <span className="block font-medium text-gray-900">{lesson.title.fr}</span>
+                <span className="block text-sm text-gray-500">
+                  {[lesson.title.tah, lesson.level].filter(Boolean).join(' · ')}
+                </span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+        <button
+          type="submit"
+          className="px-4 py-2 rounded-md bg-blue-600 text-white font-medium hover:bg-blue-700"
+        >
+          Add to course
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { Metadata } from 'next';
+import { Phrasebook } from '@/components/phrasebook/Phrasebook';
+import { AuthenticatedLayout } from '@/components/layout/AppLayout';
+
+export const metadata: Metadata = {
+  title: 'Phrasebook | Tahitian Tutor',
+  description: 'Your personal collection of words and phrases saved from lessons.',
+};
+
+export default function PhrasebookPage() {
+  return (
+    <AuthenticatedLayout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold tracking-tight mb-2">My Phrasebook</h1>
+          <p className="text-muted-foreground">
+            Organize the words you saved into folders and tags, and export them for study.
+          </p>
+        </div>
+
+        <Phrasebook />
+      </div>
+    </AuthenticatedLayout>
+  );
+}
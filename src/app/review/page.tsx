@@ -0,0 +1,27 @@
+import { Metadata } from 'next';
+import { ReviewSession } from '@/components/review/ReviewSession';
+import { AuthenticatedLayout } from '@/components/layout/AppLayout';
+
+export const metadata: Metadata = {
+  title: 'Review | Tahitian Tutor',
+  description: 'Review the vocabulary that is due today with spaced repetition.',
+};
+
+export default function ReviewPage() {
+  return (
+    <AuthenticatedLayout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold tracking-tight mb-2">Vocabulary Review</h1>
+            <p className="text-muted-foreground">
+              Recall each word, then rate how well you knew it to schedule its next review.
+            </p>
+          </div>
+
+          <ReviewSession />
+        </div>
+      </div>
+    </AuthenticatedLayout>
+  );
+}
@@ -0,0 +1,25 @@
+import { Metadata } from 'next';
+import { OfflineStorageManager } from '@/components/offline/OfflineStorageManager';
+import { AuthenticatedLayout } from '@/components/layout/AppLayout';
+
+export const metadata: Metadata = {
+  title: 'Offline Storage | Tahitian Tutor',
+  description: 'Manage the lessons and media downloaded to this device for offline study.',
+};
+
+export default function StoragePage() {
+  return (
+    <AuthenticatedLayout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold tracking-tight mb-2">Offline Storage</h1>
+          <p className="text-muted-foreground">
+            Download lessons with their audio and images, and free up space when you no longer need them.
+          </p>
+        </div>
+
+        <OfflineStorageManager />
+      </div>
+    </AuthenticatedLayout>
+  );
+}
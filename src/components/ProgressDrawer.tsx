@@ -1,9 +1,11 @@
 // Progress tracking drawer with completion indicators
 
 import React, { useState, useEffect } from 'react';
-import { X, Trophy, Clock, Target, TrendingUp, Calendar, Award } from 'lucide-react';
+import { X, Trophy, Clock, Target, TrendingUp, Calendar, RotateCcw } from 'lucide-react';
 import { jsonDataService } from '@/lib/data/JSONDataService';
-import type { UserProgress, Lesson } from '@/types';
+import { progressStore } from '@/lib/progress/ProgressStore';
+import { summarizeProgress, type LessonProgressSummary } from '@/lib/progress/ProgressModel';
+import type { Lesson } from '@/types';
 
 interface ProgressDrawerProps {
   isOpen: boolean;
@@ -14,16 +16,15 @@ interface ProgressDrawerProps {
 
 interface ProgressStats {
   totalLessons: number;
+  startedLessons: number;
   completedLessons: number;
-  totalTimeSpent: number;
   averageScore: number;
-  currentStreak: number;
   lastActivity: Date | null;
 }
 
 interface LessonProgressItem {
   lesson: Lesson;
-  progress: UserProgress | null;
+  summary: LessonProgressSummary;
 }
 
 export default function ProgressDrawer({ 
@@ -43,6 +44,14 @@ export default function ProgressDrawer({
     }
   }, [isOpen, userId]);
 
+  // Progress recorded or synced while the drawer is open
+  useEffect(() => {
+    if (!isOpen) return;
+    return progressStore.subscribe(updatedUserId => {
+      if (updatedUserId === userId) loadProgressData();
+    });
+  }, [isOpen, userId]);
+
   const loadProgressData = async () => {
     try {
       setLoading(true);
@@ -54,57 +63,31 @@ export default function ProgressDrawer({
       // Load all lessons and user progress
       const [lessons, userProgress] = await Promise.all([
         jsonDataService.getLessons(),
-        jsonDataService.getUserProgress(userId)
+        progressStore.getProgress(userId)
       ]);
+      const overview = summarizeProgress(lessons, userProgress);
 
-      // Combine lessons with progress data
-      const progressItems: LessonProgressItem[] = lessons.map(lesson => {
-        const progress = userProgress.find(p => p.lessonSlug === lesson.slug) || null;
-        return { lesson, progress };
-      });
-
-      // Sort by lesson order or last accessed
+      // Most recently studied lessons first, then the rest by title
+      const progressItems: LessonProgressItem[] = lessons.map((lesson, index) => ({
+        lesson,
+        summary: overview.lessons[index]
+      }));
       progressItems.sort((a, b) => {
-        if (a.progress?.lastAccessedAt && b.progress?.lastAccessedAt) {
-          return new Date(b.progress.lastAccessedAt).getTime() - new Date(a.progress.lastAccessedAt).getTime();
+        if (a.summary.lastActivityAt && b.summary.lastActivityAt) {
+          return b.summary.lastActivityAt - a.summary.lastActivityAt;
         }
-        if (a.progress?.lastAccessedAt) return -1;
-        if (b.progress?.lastAccessedAt) return 1;
-        return a.lesson.title.en.localeCompare(b.lesson.title.en);
+        if (a.summary.lastActivityAt) return -1;
+        if (b.summary.lastActivityAt) return 1;
+        return (a.lesson.title.en ?? a.lesson.title.fr).localeCompare(b.lesson.title.en ?? b.lesson.title.fr);
       });
 
       setProgressData(progressItems);
-
-      // Calculate stats
-      const completedLessons = userProgress.filter(p => p.completedAt).length;
-      const totalTimeSpent = userProgress.reduce((sum, p) => sum + (p.timeSpent || 0), 0);
-      const averageScore = userProgress.length > 0 
-        ? userProgress.reduce((sum, p) => sum + (p.score || 0), 0) / userProgress.length 
-        : 0;
-      
-      // Calculate streak (simplified - consecutive days with activity)
-      const sortedProgress = userProgress
-        .filter(p => p.lastAccessedAt)
-        .sort((a, b) => new Date(b.lastAccessedAt!).getTime() - new Date(a.lastAccessedAt!).getTime());
-      
-      let currentStreak = 0;
-      if (sortedProgress.length > 0) {
-        const today = new Date();
-        const lastActivity = new Date(sortedProgress[0].lastAccessedAt!);
-        const daysDiff = Math.floor((today.getTime() - lastActivity.getTime()) / (1000 * 60 * 60 * 24));
-        
-        if (daysDiff <= 1) {
-          currentStreak = 1; // Simplified streak calculation
-        }
-      }
-
       setStats({
-        totalLessons: lessons.length,
-        completedLessons,
-        totalTimeSpent,
-        averageScore,
-        currentStreak,
-        lastActivity: sortedProgress.length > 0 ? new Date(sortedProgress[0].lastAccessedAt!) : null
+        totalLessons: overview.totalLessons,
+        startedLessons: overview.startedLessons,
+        completedLessons: overview.completedLessons,
+        averageScore: overview.averageScore,
+        lastActivity: overview.lastActivityAt ? new Date(overview.lastActivityAt) : null
       });
 
     } catch (err) {
@@ -115,15 +98,6 @@ export default function ProgressDrawer({
     }
   };
 
-  const formatTime = (minutes: number): string => {
-    if (minutes < 60) {
-      return `${Math.round(minutes)}m`;
-    }
-    const hours = Math.floor(minutes / 60);
-    const remainingMinutes = Math.round(minutes % 60);
-    return `${hours}h ${remainingMinutes}m`;
-  };
-
   const getProgressColor = (score: number): string => {
     if (score >= 80) return 'bg-green-500';
     if (score >= 60) return 'bg-yellow-500';
@@ -131,12 +105,8 @@ export default function ProgressDrawer({
     return 'bg-red-500';
   };
 
-  const getCompletionBadge = (progress: UserProgress | null) => {
-    if (!progress) {
-      return <span className="text-xs text-gray-400">Not started</span>;
-    }
-    
-    if (progress.completedAt) {
+  const getCompletionBadge = (summary: LessonProgressSummary) => {
+    if (summary.completed) {
       return (
         <div className="flex items-center space-x-1">
           <Trophy className="h-3 w-3 text-yellow-500" />
@@ -145,7 +115,7 @@ export default function ProgressDrawer({
       );
     }
     
-    if (progress.lastAccessedAt) {
+    if (summary.attempts > 0) {
       return (
         <div className="flex items-center space-x-1">
           <Clock className="h-3 w-3 text-blue-500" />
@@ -224,23 +194,13 @@ export default function ProgressDrawer({
                       </p>
                     </div>
                     
-                    <div className="bg-purple-50 p-3 rounded-lg">
+                    <div className="bg-purple-50 p-3 rounded-lg col-span-2">
                       <div className="flex items-center space-x-2">
-                        <Clock className="h-4 w-4 text-purple-600" />
-                        <span className="text-xs text-purple-600 font-medium">Time Spent</span>
+                        <RotateCcw className="h-4 w-4 text-purple-600" />
+                        <span className="text-xs text-purple-600 font-medium">Started</span>
                       </div>
                       <p className="text-lg font-bold text-purple-900">
-                        {formatTime(stats.totalTimeSpent)}
-                      </p>
-                    </div>
-                    
-                    <div className="bg-orange-50 p-3 rounded-lg">
-                      <div className="flex items-center space-x-2">
-                        <Award className="h-4 w-4 text-orange-600" />
-                        <span className="text-xs text-orange-600 font-medium">Streak</span>
-                      </div>
-                      <p className="text-lg font-bold text-orange-900">
-                        {stats.currentStreak} day{stats.currentStreak !== 1 ? 's' : ''}
+                        {stats.startedLessons} lesson{stats.startedLessons !== 1 ? 's' : ''}
                       </p>
                     </div>
                   </div>
@@ -261,7 +221,7 @@ export default function ProgressDrawer({
                 <h3 className="text-lg font-medium text-gray-900 mb-4">Lesson Progress</h3>
                 
                 <div className="space-y-3">
-                  {progressData.map(({ lesson, progress }) => {
+                  {progressData.map(({ lesson, summary }) => {
                     const isCurrentLesson = lesson.slug === currentLessonSlug;
                     
                     return (
@@ -276,46 +236,44 @@ export default function ProgressDrawer({
                         <div className="flex items-start justify-between mb-2">
                           <div className="flex-1">
                             <h4 className="font-medium text-gray-900 text-sm">
-                              {lesson.title.en}
+                              {lesson.title.en ?? lesson.title.fr}
                             </h4>
                             <p className="text-xs text-gray-500">
                               {lesson.level} • {lesson.durationMin} min
                             </p>
                           </div>
                           
-                          {getCompletionBadge(progress)}
+                          {getCompletionBadge(summary)}
                         </div>
                         
-                        {progress && (
+                        {summary.attempts > 0 && (
                           <div className="space-y-2">
                             {/* Progress Bar */}
                             <div className="flex items-center space-x-2">
                               <div className="flex-1 bg-gray-200 rounded-full h-2">
                                 <div 
                                   className={`h-2 rounded-full transition-all duration-300 ${
-                                    getProgressColor(progress.score || 0)
+                                    getProgressColor(summary.averageScore)
                                   }`}
-                                  style={{ width: `${progress.score || 0}%` }}
+                                  style={{ width: `${summary.percent}%` }}
                                 ></div>
                               </div>
                               <span className="text-xs text-gray-600 font-medium">
-                                {progress.score || 0}%
+                                {summary.percent}%
                               </span>
                             </div>
                             
                             {/* Additional Info */}
                             <div className="flex items-center justify-between text-xs text-gray-500">
                               <span>
-                                {progress.attempts || 0} attempt{(progress.attempts || 0) !== 1 ? 's' : ''}
+                                {summary.attempts} attempt{summary.attempts !== 1 ? 's' : ''}
                               </span>
-                              {progress.timeSpent && (
-                                <span>{formatTime(progress.timeSpent)}</span>
-                              )}
+                              <span>Avg score {summary.averageScore}%</span>
                             </div>
                             
-                            {progress.lastAccessedAt && (
+                            {summary.lastActivityAt && (
                               <p className="text-xs text-gray-400">
-                                Last accessed: {new Date(progress.lastAccessedAt).toLocaleDateString()}
+                                Last accessed: {new Date(summary.lastActivityAt).toLocaleDateString()}
                               </p>
                             )}
                           </div>
@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { Mic, MicOff, Volume2, RotateCcw, CheckCircle, AlertCircle } from 'lucide-react';
 import { speechService, PronunciationResult } from '../lib/speech/SpeechService';
+import type { SyllableFeedback } from '../lib/speech/TahitianPhonetics';
 
 interface PronunciationPracticeProps {
   targetText: string;
+  targetIpa?: string;
   audioUrl?: string;
   language?: string;
   onResult?: (result: PronunciationResult) => void;
@@ -12,6 +14,7 @@ interface PronunciationPracticeProps {
 
 export const PronunciationPractice: React.FC<PronunciationPracticeProps> = ({
   targetText,
+  targetIpa,
   audioUrl,
   language = 'ty-PF',
   onResult,
@@ -96,7 +99,8 @@ export const PronunciationPractice: React.FC<PronunciationPracticeProps> = ({
       const pronunciationResult = await speechService.startListening(targetText, {
         language,
         continuous: false,
-        interimResults: false
+        interimResults: false,
+        targetIpa
       });
       
       setResult(pronunciationResult);
@@ -137,6 +141,55 @@ export const PronunciationPractice: React.FC<PronunciationPracticeProps> = ({
     return <AlertCircle className="w-5 h-5 text-orange-600" />;
   };
 
+  const getSyllableClass = (status: SyllableFeedback['status']) => {
+    switch (status) {
+      case 'correct': return 'text-green-700';
+      case 'close': return 'text-yellow-700 bg-yellow-100 rounded';
+      default: return 'text-red-700 bg-red-100 rounded underline decoration-wavy';
+    }
+  };
+
+  const describeSyllable = (syllable: SyllableFeedback): string => {
+    if (syllable.issues.length === 0) return `${syllable.text}: correct`;
+    const issues = syllable.issues.map(issue => {
+      switch (issue.kind) {
+        case 'vowel-length': return 'vowel length';
+        case 'glottal-stop': return 'glottal stop';
+        case 'missing': return `missing "${issue.expected}"`;
+        case 'extra': return `extra "${issue.heard}"`;
+        default: return `"${issue.heard}" instead of "${issue.expected}"`;
+      }
+    });
+    return `${syllable.text}: ${issues.join(', ')}`;
+  };
+
+  // Target text split into syllables, coloured by how well each one was pronounced
+  const renderSyllables = (syllables: SyllableFeedback[]) => {
+    const words = syllables.reduce<SyllableFeedback[][]>((acc, syllable) => {
+      (acc[syllable.wordIndex] ??= []).push(syllable);
+      return acc;
+    }, []);
+
+    return (
+      <span className="inline-flex flex-wrap justify-center gap-x-3" lang="ty">
+        {words.map((word, wordIndex) => (
+          <span key={wordIndex} className="inline-flex">
+            {word.map((syllable, index) => (
+              <span
+                key={index}
+                className={`px-0.5 ${getSyllableClass(syllable.status)}`}
+                title={describeSyllable(syllable)}
+                aria-label={describeSyllable(syllable)}
+              >
+                {syllable.text}
+              </span>
+            ))}
+          </span>
+        ))}
+      </span>
+    );
+  };
+
   if (!isSupported) {
     return (
       <div className={`bg-gray-50 rounded-lg p-4 ${className}`}>
@@ -157,7 +210,7 @@ export const PronunciationPractice: React.FC<PronunciationPracticeProps> = ({
             Practice Pronunciation
           </h3>
           <div className="text-2xl font-medium text-blue-600 bg-blue-50 rounded-lg p-4">
-            {targetText}
+            {result && result.syllables.length > 0 ? renderSyllables(result.syllables) : targetText}
           </div>
         </div>
 
@@ -267,6 +320,22 @@ export const PronunciationPractice: React.FC<PronunciationPracticeProps> = ({
               <p className="font-medium text-gray-900">{result.feedback}</p>
             </div>
             
+            {result.syllables.some(syllable => syllable.status !== 'correct') && (
+              <div>
+                <span className="text-sm text-gray-600">Syllables to work on:</span>
+                <ul className="mt-1 space-y-1">
+                  {result.syllables
+                    .filter(syllable => syllable.status !== 'correct')
+                    .map((syllable, index) => (
+                      <li key={index} className="text-sm text-gray-700">
+                        <span className={`font-medium px-1 ${getSyllableClass(syllable.status)}`}>{syllable.text}</span>
+                        {' '}/{syllable.ipa}/ — heard &quot;{syllable.heard || '…'}&quot;
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            )}
+
             {result.suggestions.length > 0 && (
               <div>
                 <span className="text-sm text-gray-600">Suggestions:</span>
@@ -23,7 +23,8 @@ import {
   FolderTree,
   Zap,
   Activity,
-  Globe
+  Globe,
+  ClipboardCheck
 } from 'lucide-react';
 
 interface AdminLayoutProps {
@@ -49,6 +50,12 @@ const navItems: NavItem[] = [
     icon: BookOpen,
     permission: 'courses.edit'
   },
+  {
+    href: '/admin/reviews',
+    label: 'Reviews',
+    icon: ClipboardCheck,
+    permission: 'courses.review'
+  },
   {
     href: '/admin/import',
     label: 'Bulk Import',
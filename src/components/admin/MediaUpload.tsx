@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useRef, useCallback } from 'react';
-import type { MediaAsset } from '@/types';
+import type { MediaAsset, MediaKind } from '@/types';
 import {
   Upload,
   X,
@@ -13,8 +13,9 @@ import {
   CheckCircle,
   Loader2
 } from 'lucide-react';
-import { Button } from '@/components/ui/Button';
-import { Badge } from '@/components/ui/Badge';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import { sha256Hex } from '@/lib/offline/LessonPack';
 
 interface MediaUploadProps {
   onFilesUploaded: (assets: MediaAsset[]) => void;
@@ -44,11 +45,7 @@ const DEFAULT_ALLOWED_TYPES = [
   'audio/ogg',
   'video/mp4',
   'video/webm',
-  'video/ogg',
-  'application/pdf',
-  'application/msword',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'text/plain'
+  'video/ogg'
 ];
 
 const DEFAULT_MAX_FILE_SIZE = 50; // 50MB
@@ -80,21 +77,20 @@ export default function MediaUpload({
     }
 
     // Check if file already exists
-    if (existingAssets.some(asset => asset.filename === file.name)) {
+    if (existingAssets.some(asset => asset.alt === file.name)) {
       return `File "${file.name}" already exists.`;
     }
 
     return null;
   };
 
-  const getFileType = (file: File): MediaAsset['type'] => {
+  const getFileType = (file: File): MediaKind => {
     if (file.type.startsWith('image/')) return 'image';
-    if (file.type.startsWith('audio/')) return 'audio';
     if (file.type.startsWith('video/')) return 'video';
-    return 'document';
+    return 'audio';
   };
 
-  const getFileIcon = (type: MediaAsset['type']) => {
+  const getFileIcon = (type: MediaKind) => {
     switch (type) {
       case 'image': return <Image className="h-5 w-5" />;
       case 'audio': return <Music className="h-5 w-5" />;
@@ -103,14 +99,6 @@ export default function MediaUpload({
     }
   };
 
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
   const simulateUpload = async (file: File): Promise<MediaAsset> => {
     const fileId = `${Date.now()}-${Math.random()}`;
     
@@ -135,14 +123,13 @@ export default function MediaUpload({
       [fileId]: { progress: 100, status: 'completed' }
     }));
 
-    // Create media asset
+    // Create media asset; the checksum lets offline packs verify the download
     const asset: MediaAsset = {
-      id: fileId,
-      type: getFileType(file),
-      url: URL.createObjectURL(file),
-      filename: file.name,
-      size: file.size,
-      uploadedAt: Date.now()
+      id: Date.now() + Math.floor(Math.random() * 1000),
+      kind: getFileType(file),
+      filePath: URL.createObjectURL(file),
+      alt: file.name,
+      sha256: await sha256Hex(await file.arrayBuffer())
     };
 
     // Clean up progress after a delay
@@ -270,7 +257,7 @@ export default function MediaUpload({
             </button>
           </p>
           <p className="text-xs text-gray-500 mt-2">
-            Supported: Images, Audio, Video, Documents (max {maxFileSize}MB each)
+            Supported: Images, Audio, Video (max {maxFileSize}MB each)
           </p>
           <p className="text-xs text-gray-500">
             Maximum {maxFiles} files total
@@ -362,18 +349,18 @@ export default function MediaUpload({
               >
                 <div className="flex items-center space-x-3">
                   <div className="text-gray-500">
-                    {getFileIcon(asset.type)}
+                    {getFileIcon(asset.kind)}
                   </div>
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium text-gray-900 truncate">
-                      {asset.filename}
+                      {asset.alt ?? asset.filePath}
                     </p>
                     <div className="flex items-center space-x-2 mt-1">
                       <Badge className="bg-blue-100 text-blue-800 text-xs">
-                        {asset.type}
+                        {asset.kind}
                       </Badge>
                       <span className="text-xs text-gray-500">
-                        {formatFileSize(asset.size || 0)}
+                        #{asset.id}
                       </span>
                     </div>
                   </div>
@@ -398,7 +385,7 @@ export default function MediaUpload({
         <ul className="mt-1 space-y-1">
           <li>• Maximum file size: {maxFileSize}MB per file</li>
           <li>• Maximum files: {maxFiles} total</li>
-          <li>• Supported formats: Images (JPEG, PNG, GIF, WebP), Audio (MP3, WAV, OGG), Video (MP4, WebM, OGG), Documents (PDF, DOC, DOCX, TXT)</li>
+          <li>• Supported formats: Images (JPEG, PNG, GIF, WebP), Audio (MP3, WAV, OGG), Video (MP4, WebM, OGG)</li>
           <li>• Files are automatically optimized for web delivery</li>
         </ul>
       </div>
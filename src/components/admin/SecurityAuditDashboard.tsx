@@ -27,6 +27,7 @@ import {
   FileText
 } from 'lucide-react';
 import { securityService, AuditLogEntry } from '@/utils/securityService';
+import type { Lockout } from '@/lib/auth/RateLimiter';
 import { toast } from 'sonner';
 
 interface SecurityReport {
@@ -38,6 +39,14 @@ interface SecurityReport {
   lastChecked: Date;
 }
 
+const LOCKOUT_ACTIONS: Record<Lockout['action'], string> = {
+  login: 'Login',
+  register: 'Registration',
+  reset_password: 'Password reset',
+  two_factor: 'Two-factor code',
+  verify_email: 'Email verification'
+};
+
 interface ComplianceCheck {
   id: string;
   name: string;
@@ -56,6 +65,9 @@ const SecurityAuditDashboard: React.FC = () => {
   const [filterUser, setFilterUser] = useState<string>('all');
   const [filterDateRange, setFilterDateRange] = useState<string>('7d');
   const [searchTerm, setSearchTerm] = useState('');
+  const [lockouts, setLockouts] = useState<Lockout[]>([]);
+  const [lockoutsLoading, setLockoutsLoading] = useState(false);
+  const [clearingLockout, setClearingLockout] = useState<string | null>(null);
   const [securityMetrics, setSecurityMetrics] = useState({
     totalAuditLogs: 0,
     recentActivity: 0,
@@ -69,6 +81,10 @@ const SecurityAuditDashboard: React.FC = () => {
     runComplianceChecks();
   }, []);
 
+  useEffect(() => {
+    if (activeTab === 'lockouts') loadLockouts();
+  }, [activeTab]);
+
   useEffect(() => {
     applyFilters();
   }, [auditLogs, filterAction, filterUser, filterDateRange, searchTerm]);
@@ -81,6 +97,32 @@ const SecurityAuditDashboard: React.FC = () => {
     setSecurityMetrics(metrics);
   };
 
+  const lockoutKey = (lockout: Lockout) => `${lockout.action}:${lockout.scope}:${lockout.subject}`;
+
+  const loadLockouts = async () => {
+    setLockoutsLoading(true);
+    try {
+      setLockouts(await securityService.getLockouts());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load lockouts');
+    } finally {
+      setLockoutsLoading(false);
+    }
+  };
+
+  const handleClearLockout = async (lockout: Lockout) => {
+    setClearingLockout(lockoutKey(lockout));
+    try {
+      await securityService.clearLockout(lockout);
+      setLockouts(current => current.filter(entry => lockoutKey(entry) !== lockoutKey(lockout)));
+      toast.success(`Lockout cleared for ${lockout.subject}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to clear lockout');
+    } finally {
+      setClearingLockout(null);
+    }
+  };
+
   const applyFilters = () => {
     let filtered = [...auditLogs];
 
@@ -351,6 +393,7 @@ const SecurityAuditDashboard: React.FC = () => {
           <TabsTrigger value="audit-logs">Audit Logs</TabsTrigger>
           <TabsTrigger value="security-reports">Security Reports</TabsTrigger>
           <TabsTrigger value="compliance">Compliance</TabsTrigger>
+          <TabsTrigger value="lockouts">Lockouts</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -567,6 +610,64 @@ const SecurityAuditDashboard: React.FC = () => {
             ))}
           </div>
         </TabsContent>
+
+        <TabsContent value="lockouts" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Lock className="h-4 w-4" />
+                    <span>Active Lockouts ({lockouts.length})</span>
+                  </CardTitle>
+                  <CardDescription>
+                    IP addresses and accounts blocked after repeated failed login, registration or password reset attempts
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={loadLockouts} disabled={lockoutsLoading}>
+                  Refresh
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {lockouts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {lockoutsLoading ? 'Loading lockouts...' : 'No IP address or account is locked out.'}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {lockouts.map((lockout) => (
+                    <div key={lockoutKey(lockout)} className="flex items-center justify-between p-3 border rounded">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-2 mb-1">
+                          <Badge variant="destructive">{lockout.scope === 'ip' ? 'IP' : 'Account'}</Badge>
+                          <span className="font-medium">{lockout.subject}</span>
+                        </div>
+                        <div className="flex items-center space-x-4 text-xs text-muted-foreground">
+                          <span>{LOCKOUT_ACTIONS[lockout.action]}</span>
+                          <span>{lockout.failures} failed attempts</span>
+                          <span className="flex items-center space-x-1">
+                            <Clock className="h-3 w-3" />
+                            <span>Locked {new Date(lockout.lockedAt).toLocaleString()}, until {new Date(lockout.expiresAt).toLocaleTimeString()}</span>
+                          </span>
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleClearLockout(lockout)}
+                        disabled={clearingLockout === lockoutKey(lockout)}
+                      >
+                        <Unlock className="h-4 w-4 mr-2" />
+                        Clear
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
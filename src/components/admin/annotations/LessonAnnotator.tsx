@@ -0,0 +1,235 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { MessageSquarePlus } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import { MarkdownContent } from '@/components/lesson/MarkdownContent';
+import { HighlightedText, selectionRange } from '@/components/lesson/HighlightedText';
+import { AnnotationNotes, annotationHighlights } from '@/components/lesson/AnnotationNotes';
+import CollaborationService from '@/services/CollaborationService';
+import {
+  ANNOTATION_CATEGORY_LABELS,
+  annotationsAt,
+  DIALECT_LABELS,
+  resolveAnnotations,
+  targetText,
+  VOCAB_ANNOTATION_FIELDS,
+  type AnnotationTarget
+} from '@/lib/annotations/AnnotationAnchor';
+import type { Lesson } from '@/types';
+import type { Annotation, AnnotationAnchor, AnnotationCategory, PolynesianDialect } from '@/types/collaboration';
+
+interface LessonAnnotatorProps {
+  lesson: Lesson;
+}
+
+const FIELD_LANGUAGES: Record<AnnotationAnchor['field'], string | undefined> = {
+  contentMd: undefined,
+  fr: 'fr',
+  tah: 'ty',
+  en: 'en',
+  note: undefined
+};
+
+// Targets travel through the DOM as data-annotation-target="section:field[:vocab]"
+function targetAttribute(target: AnnotationTarget): string {
+  return [target.sectionIndex, target.field, ...(target.vocabIndex === undefined ? [] : [target.vocabIndex])].join(':');
+}
+
+function parseTargetAttribute(value: string): AnnotationTarget {
+  const [sectionIndex, field, vocabIndex] = value.split(':');
+  return {
+    sectionIndex: Number(sectionIndex),
+    field: field as AnnotationAnchor['field'],
+    vocabIndex: vocabIndex === undefined ? undefined : Number(vocabIndex)
+  };
+}
+
+/**
+ * The lesson's text for reviewers: select words in a section or a vocabulary
+ * field to flag them, and see what others flagged.
+ */
+export const LessonAnnotator: React.FC<LessonAnnotatorProps> = ({ lesson }) => {
+  const [collaborationService] = useState(() => new CollaborationService());
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [selection, setSelection] = useState<{ target: AnnotationTarget; start: number; end: number; quote: string } | null>(null);
+  const [category, setCategory] = useState<AnnotationCategory>('dialect');
+  const [dialect, setDialect] = useState<PolynesianDialect>('marquesan');
+  const [note, setNote] = useState('');
+  const [visibility, setVisibility] = useState<Annotation['visibility']>('team');
+  const [focusedId, setFocusedId] = useState<string>();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadAnnotations = useCallback(async () => {
+    try {
+      setAnnotations(await collaborationService.getLessonAnnotations(lesson.slug));
+    } catch (error) {
+      console.error('Failed to load annotations:', error);
+    }
+  }, [collaborationService, lesson.slug]);
+
+  useEffect(() => {
+    setSelection(null);
+    loadAnnotations();
+  }, [loadAnnotations]);
+
+  const resolved = useMemo(() => resolveAnnotations(lesson, annotations), [lesson, annotations]);
+
+  const handleSelect = () => {
+    const range = selectionRange(window.getSelection());
+    if (!range) return;
+
+    const target = parseTargetAttribute(range.target);
+    const text = targetText(lesson, target);
+    if (text === undefined) return;
+    setSelection({ target, start: range.start, end: range.end, quote: text.slice(range.start, range.end) });
+  };
+
+  const handleSave = async () => {
+    if (!selection) return;
+
+    setIsSaving(true);
+    try {
+      const annotation = await collaborationService.annotateLesson(lesson, selection.target, selection.start, selection.end, {
+        text: note,
+        category,
+        dialect,
+        visibility
+      });
+      setAnnotations(prev => [...prev, annotation]);
+      setSelection(null);
+      setNote('');
+      setFocusedId(annotation.id);
+      toast.success('Annotation added');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add annotation');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (annotationId: string) => {
+    try {
+      await collaborationService.deleteAnnotation(annotationId);
+      setAnnotations(prev => prev.filter(annotation => annotation.id !== annotationId));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete annotation');
+    }
+  };
+
+  const highlightsAt = (target: AnnotationTarget) => annotationHighlights(annotationsAt(resolved, target), focusedId);
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
+      <div className="xl:col-span-2 space-y-6">
+        <p className="text-sm text-gray-500">Select words in a section or a vocabulary entry to annotate them.</p>
+
+        {lesson.sections.map((section, sectionIndex) => {
+          const contentTarget: AnnotationTarget = { sectionIndex, field: 'contentMd' };
+          return (
+            <section key={sectionIndex} className="space-y-2">
+              <h4 className="font-medium text-gray-900">
+                {section.title} <span className="text-xs text-gray-500">({section.kind})</span>
+              </h4>
+
+              {section.contentMd && (
+                <div data-annotation-target={targetAttribute(contentTarget)} onMouseUp={handleSelect}>
+                  <MarkdownContent
+                    markdown={section.contentMd}
+                    highlights={highlightsAt(contentTarget)}
+                    onHighlightClick={setFocusedId}
+                  />
+                </div>
+              )}
+
+              {section.vocab && section.vocab.length > 0 && (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {section.vocab.map((item, vocabIndex) => (
+                      <tr key={vocabIndex} className="border-t border-gray-100">
+                        {VOCAB_ANNOTATION_FIELDS.map(field => {
+                          const target: AnnotationTarget = { sectionIndex, field, vocabIndex };
+                          const text = item[field];
+                          return (
+                            <td
+                              key={field}
+                              className={`py-1 pr-3 ${field === 'tah' ? 'font-medium' : 'text-gray-600'}`}
+                              lang={FIELD_LANGUAGES[field]}
+                              data-annotation-target={targetAttribute(target)}
+                              onMouseUp={handleSelect}
+                            >
+                              {text && <HighlightedText text={text} highlights={highlightsAt(target)} onHighlightClick={setFocusedId} />}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          );
+        })}
+      </div>
+
+      <div className="space-y-4">
+        {selection && (
+          <div className="rounded-md border border-blue-200 bg-blue-50 p-3 space-y-2">
+            <div className="text-sm font-medium flex items-center">
+              <MessageSquarePlus className="w-4 h-4 mr-1" aria-hidden="true" />
+              Annotate “{selection.quote}”
+            </div>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as AnnotationCategory)}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+              aria-label="Annotation type"
+            >
+              {Object.entries(ANNOTATION_CATEGORY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            {category === 'dialect' && (
+              <select
+                value={dialect}
+                onChange={(e) => setDialect(e.target.value as PolynesianDialect)}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                aria-label="Dialect"
+              >
+                {Object.entries(DIALECT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            )}
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Marquesan usage; in Tahitian say…"
+              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+              rows={3}
+            />
+            <select
+              value={visibility}
+              onChange={(e) => setVisibility(e.target.value as Annotation['visibility'])}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+              aria-label="Visibility"
+            >
+              <option value="team">Reviewers only</option>
+              <option value="public">Shown to learners</option>
+              <option value="private">Only me</option>
+            </select>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setSelection(null)}>Cancel</Button>
+              <Button size="sm" onClick={handleSave} loading={isSaving} disabled={isSaving}>Add annotation</Button>
+            </div>
+          </div>
+        )}
+
+        <AnnotationNotes entries={resolved} focusedId={focusedId} onFocus={setFocusedId} onDelete={handleDelete} />
+      </div>
+    </div>
+  );
+};
+
+export default LessonAnnotator;
@@ -0,0 +1,511 @@
+'use client';
+
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import { BLANK_MARKER, EXERCISE_TYPES, countBlanks, createExercise } from '@/lib/authoring/LessonAuthoring';
+import type {
+  Exercise,
+  ExerciseType,
+  MediaAsset,
+  MCQExerciseData,
+  MatchExerciseData,
+  OrderingExerciseData,
+  DictationExerciseData,
+  PronunciationExerciseData,
+  FillBlankExerciseData,
+  RoleplayExerciseData
+} from '@/types';
+
+interface ExerciseEditorProps {
+  exercise: Exercise;
+  mediaAssets: MediaAsset[];
+  onChange: (exercise: Exercise) => void;
+}
+
+interface BuilderProps<T> {
+  data: T;
+  onChange: (data: T) => void;
+}
+
+const INPUT_CLASS = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+const LABEL_CLASS = 'block text-xs font-medium text-gray-600 mb-1';
+
+const TYPE_LABELS: Record<ExerciseType, string> = {
+  MCQ: 'Multiple choice',
+  Match: 'Matching pairs',
+  Ordering: 'Ordering',
+  Dictation: 'Dictation',
+  Pronunciation: 'Pronunciation',
+  FillBlank: 'Fill in the blanks',
+  Roleplay: 'Roleplay dialogue'
+};
+
+const replaceAt = <T,>(items: T[], index: number, value: T): T[] =>
+  items.map((item, i) => (i === index ? value : item));
+
+const removeAt = <T,>(items: T[], index: number): T[] => items.filter((_, i) => i !== index);
+
+const TextField: React.FC<{ label: string; value: string; onChange: (value: string) => void; multiline?: boolean }> = ({
+  label,
+  value,
+  onChange,
+  multiline
+}) => (
+  <label className="block">
+    <span className={LABEL_CLASS}>{label}</span>
+    {multiline ? (
+      <textarea value={value} onChange={(e) => onChange(e.target.value)} rows={3} className={INPUT_CLASS} />
+    ) : (
+      <input type="text" value={value} onChange={(e) => onChange(e.target.value)} className={INPUT_CLASS} />
+    )}
+  </label>
+);
+
+const AudioField: React.FC<{ value: string; mediaAssets: MediaAsset[]; onChange: (url: string) => void }> = ({
+  value,
+  mediaAssets,
+  onChange
+}) => {
+  const audioAssets = mediaAssets.filter(asset => asset.kind === 'audio');
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <label className="block">
+        <span className={LABEL_CLASS}>Audio from media library</span>
+        <select
+          value={audioAssets.some(asset => asset.filePath === value) ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={INPUT_CLASS}
+        >
+          <option value="">None</option>
+          {audioAssets.map(asset => (
+            <option key={asset.id} value={asset.filePath}>{asset.alt ?? asset.filePath}</option>
+          ))}
+        </select>
+      </label>
+      <TextField label="or audio URL" value={value} onChange={onChange} />
+    </div>
+  );
+};
+
+// Type-specific builders
+
+const MCQBuilder: React.FC<BuilderProps<MCQExerciseData>> = ({ data, onChange }) => (
+  <div className="space-y-3">
+    <TextField label="Question *" value={data.question} onChange={(question) => onChange({ ...data, question })} />
+    <fieldset className="space-y-2">
+      <legend className={LABEL_CLASS}>Options (select the correct one) *</legend>
+      {data.options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="radio"
+            checked={data.correctIndex === index}
+            onChange={() => onChange({ ...data, correctIndex: index })}
+            aria-label={`Option ${index + 1} is correct`}
+          />
+          <input
+            type="text"
+            value={option}
+            onChange={(e) => onChange({ ...data, options: replaceAt(data.options, index, e.target.value) })}
+            className={INPUT_CLASS}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({
+              ...data,
+              options: removeAt(data.options, index),
+              correctIndex: data.correctIndex > index ? data.correctIndex - 1 : data.correctIndex === index ? 0 : data.correctIndex
+            })}
+            disabled={data.options.length <= 2}
+            ariaLabel="Remove option"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange({ ...data, options: [...data.options, ''] })}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add option
+      </Button>
+    </fieldset>
+  </div>
+);
+
+const MatchBuilder: React.FC<BuilderProps<MatchExerciseData>> = ({ data, onChange }) => (
+  <fieldset className="space-y-2">
+    <legend className={LABEL_CLASS}>Pairs *</legend>
+    {data.pairs.map((pair, index) => (
+      <div key={index} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={pair.left}
+          placeholder="Left"
+          onChange={(e) => onChange({ pairs: replaceAt(data.pairs, index, { ...pair, left: e.target.value }) })}
+          className={INPUT_CLASS}
+        />
+        <span className="text-gray-400">↔</span>
+        <input
+          type="text"
+          value={pair.right}
+          placeholder="Right"
+          onChange={(e) => onChange({ pairs: replaceAt(data.pairs, index, { ...pair, right: e.target.value }) })}
+          className={INPUT_CLASS}
+        />
+        <Button variant="ghost" size="sm" onClick={() => onChange({ pairs: removeAt(data.pairs, index) })} ariaLabel="Remove pair">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    ))}
+    <Button variant="outline" size="sm" onClick={() => onChange({ pairs: [...data.pairs, { left: '', right: '' }] })}>
+      <Plus className="h-4 w-4 mr-1" />
+      Add pair
+    </Button>
+  </fieldset>
+);
+
+/**
+ * Items are shown to learners in the listed order; each item's correct
+ * position is picked separately. Picking a taken position swaps the two items.
+ */
+const OrderingBuilder: React.FC<BuilderProps<OrderingExerciseData>> = ({ data, onChange }) => {
+  const positionOf = (itemIndex: number) => data.correctOrder.indexOf(itemIndex);
+
+  const setPosition = (itemIndex: number, position: number) => {
+    const next = [...data.correctOrder];
+    const current = positionOf(itemIndex);
+    if (current >= 0) next[current] = next[position];
+    next[position] = itemIndex;
+    onChange({ ...data, correctOrder: next });
+  };
+
+  const addItem = () => onChange({
+    items: [...data.items, ''],
+    correctOrder: [...data.correctOrder, data.items.length]
+  });
+
+  const removeItem = (itemIndex: number) => onChange({
+    items: removeAt(data.items, itemIndex),
+    correctOrder: data.correctOrder
+      .filter(index => index !== itemIndex)
+      .map(index => (index > itemIndex ? index - 1 : index))
+  });
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className={LABEL_CLASS}>Items, in the order learners see them *</legend>
+      {data.items.map((item, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={item}
+            onChange={(e) => onChange({ ...data, items: replaceAt(data.items, index, e.target.value) })}
+            className={INPUT_CLASS}
+          />
+          <label className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap">
+            Correct position
+            <select
+              value={positionOf(index)}
+              onChange={(e) => setPosition(index, Number(e.target.value))}
+              className="px-1 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              {data.items.map((_, position) => (
+                <option key={position} value={position}>{position + 1}</option>
+              ))}
+            </select>
+          </label>
+          <Button variant="ghost" size="sm" onClick={() => removeItem(index)} disabled={data.items.length <= 2} ariaLabel="Remove item">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={addItem}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add item
+      </Button>
+    </fieldset>
+  );
+};
+
+const DictationBuilder: React.FC<BuilderProps<DictationExerciseData> & { mediaAssets: MediaAsset[] }> = ({ data, onChange, mediaAssets }) => (
+  <div className="space-y-3">
+    <AudioField value={data.audioUrl ?? ''} mediaAssets={mediaAssets} onChange={(audioUrl) => onChange({ ...data, audioUrl })} />
+    <TextField label="Transcript *" value={data.transcript} onChange={(transcript) => onChange({ ...data, transcript })} multiline />
+    <TextField
+      label="Hints (one per line)"
+      value={(data.hints ?? []).join('\n')}
+      onChange={(value) => onChange({ ...data, hints: value.split('\n') })}
+      multiline
+    />
+  </div>
+);
+
+const PronunciationBuilder: React.FC<BuilderProps<PronunciationExerciseData> & { mediaAssets: MediaAsset[] }> = ({ data, onChange, mediaAssets }) => (
+  <div className="space-y-3">
+    <TextField label="Target phrase *" value={data.target} onChange={(target) => onChange({ ...data, target })} />
+    <TextField
+      label="IPA (defaults to the matching vocabulary item's)"
+      value={data.ipa ?? ''}
+      onChange={(ipa) => onChange({ ...data, ipa: ipa || undefined })}
+    />
+    <label className="block">
+      <span className={LABEL_CLASS}>Accuracy needed: {Math.round(data.threshold * 100)}%</span>
+      <input
+        type="range"
+        min={0.1}
+        max={1}
+        step={0.05}
+        value={data.threshold}
+        onChange={(e) => onChange({ ...data, threshold: Number(e.target.value) })}
+        className="w-full"
+      />
+    </label>
+    <AudioField value={data.audioUrl ?? ''} mediaAssets={mediaAssets} onChange={(audioUrl) => onChange({ ...data, audioUrl: audioUrl || undefined })} />
+  </div>
+);
+
+/**
+ * Blanks follow the `___` markers in the text: typing a marker adds an answer
+ * row, deleting one removes the last row
+ */
+const FillBlankBuilder: React.FC<BuilderProps<FillBlankExerciseData>> = ({ data, onChange }) => {
+  const updateText = (text: string) => {
+    const count = countBlanks(text);
+    const blanks = Array.from({ length: count }, (_, position) =>
+      data.blanks[position] ?? { position, answer: '' }
+    );
+    onChange({ text, blanks });
+  };
+
+  return (
+    <div className="space-y-3">
+      <TextField label={`Text, with ${BLANK_MARKER} for each blank *`} value={data.text} onChange={updateText} multiline />
+      {data.blanks.map((blank, index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <TextField
+            label={`Blank ${index + 1} answer *`}
+            value={blank.answer}
+            onChange={(answer) => onChange({ ...data, blanks: replaceAt(data.blanks, index, { ...blank, answer }) })}
+          />
+          <TextField
+            label="Also accept (comma separated)"
+            value={(blank.alternatives ?? []).join(', ')}
+            onChange={(value) => onChange({
+              ...data,
+              blanks: replaceAt(data.blanks, index, {
+                ...blank,
+                alternatives: value.split(',').map(alt => alt.trim()).filter(Boolean)
+              })
+            })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Learner steps may offer replies; the correct reply of each step is kept in
+ * the exercise solution as `correctOptions`
+ */
+const RoleplayBuilder: React.FC<{
+  data: RoleplayExerciseData;
+  correctOptions: Record<number, number>;
+  onChange: (data: RoleplayExerciseData, correctOptions: Record<number, number>) => void;
+}> = ({ data, correctOptions, onChange }) => {
+  type Step = RoleplayExerciseData['steps'][number];
+  const updateStep = (index: number, step: Step) =>
+    onChange({ ...data, steps: replaceAt(data.steps, index, step) }, correctOptions);
+  const onCorrectOptionsChange = (next: Record<number, number>) => onChange(data, next);
+
+  const removeStep = (index: number) => {
+    const shifted: Record<number, number> = {};
+    Object.entries(correctOptions).forEach(([step, option]) => {
+      const stepIndex = Number(step);
+      if (stepIndex < index) shifted[stepIndex] = option;
+      if (stepIndex > index) shifted[stepIndex - 1] = option;
+    });
+    onChange({ ...data, steps: removeAt(data.steps, index) }, shifted);
+  };
+
+  const removeOption = (index: number, step: Step, optionIndex: number) => {
+    const options = removeAt(step.options ?? [], optionIndex);
+    const steps = replaceAt(data.steps, index, { ...step, options: options.length > 0 ? options : undefined });
+    const { [index]: correct, ...others } = correctOptions;
+    const next = correct === undefined || correct === optionIndex
+      ? others
+      : { ...others, [index]: correct > optionIndex ? correct - 1 : correct };
+    onChange({ ...data, steps }, next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <TextField label="Scenario *" value={data.scenario} onChange={(scenario) => onChange({ ...data, scenario }, correctOptions)} multiline />
+      {data.steps.map((step, index) => (
+        <div key={index} className="p-3 border border-gray-200 rounded-md space-y-2 bg-white">
+          <div className="flex items-center gap-2">
+            <select
+              value={step.speaker}
+              onChange={(e) => {
+                const speaker = e.target.value as Step['speaker'];
+                updateStep(index, { ...step, speaker, options: speaker === 'you' ? step.options : undefined });
+              }}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+              aria-label={`Speaker of step ${index + 1}`}
+            >
+              <option value="other">Other speaker</option>
+              <option value="you">Learner</option>
+            </select>
+            <input
+              type="text"
+              value={step.text}
+              onChange={(e) => updateStep(index, { ...step, text: e.target.value })}
+              className={INPUT_CLASS}
+              placeholder="Line of dialogue"
+            />
+            <Button variant="ghost" size="sm" onClick={() => removeStep(index)} ariaLabel="Remove step">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {step.speaker === 'you' && (
+            <div className="pl-4 space-y-2">
+              {(step.options ?? []).map((option, optionIndex) => (
+                <div key={optionIndex} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={correctOptions[index] === optionIndex}
+                    onChange={() => onCorrectOptionsChange({ ...correctOptions, [index]: optionIndex })}
+                    aria-label={`Reply ${optionIndex + 1} is correct`}
+                  />
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) => updateStep(index, { ...step, options: replaceAt(step.options ?? [], optionIndex, e.target.value) })}
+                    className={INPUT_CLASS}
+                    placeholder="Reply option"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeOption(index, step, optionIndex)}
+                    ariaLabel="Remove reply"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateStep(index, { ...step, options: [...(step.options ?? []), ''] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add reply option
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange({ ...data, steps: [...data.steps, { speaker: 'other', text: '' }] }, correctOptions)}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add step
+      </Button>
+    </div>
+  );
+};
+
+/**
+ * Edits one exercise: the shared prompt, points and explanation, plus the
+ * form for its type's payload. Changing the type starts a fresh payload.
+ */
+export const ExerciseEditor: React.FC<ExerciseEditorProps> = ({ exercise, mediaAssets, onChange }) => {
+  const setData = (data: object) => onChange({ ...exercise, data: { ...data } });
+  const solution = exercise.solution ?? {};
+  const explanation = typeof solution.explanation === 'string' ? solution.explanation : '';
+
+  const mergeSolution = (changes: Record<string, unknown>): Exercise['solution'] => {
+    const next = { ...solution, ...changes };
+    Object.keys(next).forEach(key => {
+      if (next[key] === undefined) delete next[key];
+    });
+    return Object.keys(next).length > 0 ? next : undefined;
+  };
+
+  const renderBuilder = () => {
+    switch (exercise.type) {
+      case 'MCQ':
+        return <MCQBuilder data={exercise.data as unknown as MCQExerciseData} onChange={setData} />;
+      case 'Match':
+        return <MatchBuilder data={exercise.data as unknown as MatchExerciseData} onChange={setData} />;
+      case 'Ordering':
+        return <OrderingBuilder data={exercise.data as unknown as OrderingExerciseData} onChange={setData} />;
+      case 'Dictation':
+        return <DictationBuilder data={exercise.data as unknown as DictationExerciseData} onChange={setData} mediaAssets={mediaAssets} />;
+      case 'Pronunciation':
+        return <PronunciationBuilder data={exercise.data as unknown as PronunciationExerciseData} onChange={setData} mediaAssets={mediaAssets} />;
+      case 'FillBlank':
+        return <FillBlankBuilder data={exercise.data as unknown as FillBlankExerciseData} onChange={setData} />;
+      case 'Roleplay': {
+        const correctOptions = (solution.correctOptions as Record<number, number> | undefined) ?? {};
+        return (
+          <RoleplayBuilder
+            data={exercise.data as unknown as RoleplayExerciseData}
+            correctOptions={correctOptions}
+            onChange={(data, next) => onChange({
+              ...exercise,
+              data: { ...data },
+              solution: mergeSolution({ correctOptions: Object.keys(next).length > 0 ? next : undefined })
+            })}
+          />
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <label className="block">
+          <span className={LABEL_CLASS}>Type</span>
+          <select
+            value={exercise.type}
+            onChange={(e) => {
+              const fresh = createExercise(e.target.value as ExerciseType);
+              onChange({ ...fresh, prompt: exercise.prompt, points: exercise.points });
+            }}
+            className={INPUT_CLASS}
+          >
+            {EXERCISE_TYPES.map(type => (
+              <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </label>
+        <div className="md:col-span-2">
+          <TextField label="Prompt *" value={exercise.prompt} onChange={(prompt) => onChange({ ...exercise, prompt })} />
+        </div>
+        <label className="block">
+          <span className={LABEL_CLASS}>Points</span>
+          <input
+            type="number"
+            min={1}
+            value={exercise.points ?? ''}
+            placeholder="10"
+            onChange={(e) => onChange({ ...exercise, points: e.target.value ? Number(e.target.value) : undefined })}
+            className={INPUT_CLASS}
+          />
+        </label>
+      </div>
+
+      {renderBuilder()}
+
+      <TextField
+        label="Explanation shown after answering"
+        value={explanation}
+        onChange={(value) => onChange({ ...exercise, solution: mergeSolution({ explanation: value || undefined }) })}
+      />
+    </div>
+  );
+};
+
+export default ExerciseEditor;
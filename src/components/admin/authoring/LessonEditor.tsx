@@ -0,0 +1,211 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown, AlertCircle, AlertTriangle } from 'lucide-react';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import { SectionEditor } from './SectionEditor';
+import { SECTION_KINDS, createSection, moveItem } from '@/lib/authoring/LessonAuthoring';
+import type { LessonSchemaIssue } from '@/lib/data/LessonNormalizer';
+import type { Lesson, LessonLevel, LessonSection, MediaAsset, SectionKind } from '@/types';
+
+interface LessonEditorProps {
+  lesson: Lesson;
+  mediaAssets: MediaAsset[];
+  /** Result of the last validation, shown above the editor */
+  issues: LessonSchemaIssue[];
+  onChange: (lesson: Lesson) => void;
+  onMediaAdded: (assets: MediaAsset[]) => void;
+  /** Room prefix for live co-editing; each section's markdown gets its own room */
+  collaborationRoom?: string;
+}
+
+const LEVELS: LessonLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Lesson details plus its ordered sections. One section is edited at a time.
+ */
+export const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, mediaAssets, issues, onChange, onMediaAdded, collaborationRoom }) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [newKind, setNewKind] = useState<SectionKind>('Vocabulary');
+  const active = lesson.sections[activeIndex];
+  const images = mediaAssets.filter(asset => asset.kind === 'image');
+
+  const setSections = (sections: LessonSection[]) => onChange({ ...lesson, sections });
+
+  const addSection = () => {
+    setSections([...lesson.sections, createSection(newKind)]);
+    setActiveIndex(lesson.sections.length);
+  };
+
+  const moveSection = (from: number, to: number) => {
+    setSections(moveItem(lesson.sections, from, to));
+    if (activeIndex === from) setActiveIndex(to);
+    else if (activeIndex === to) setActiveIndex(from);
+  };
+
+  const deleteSection = (index: number) => {
+    if (!window.confirm(`Delete the section "${lesson.sections[index].title}"?`)) return;
+    setSections(lesson.sections.filter((_, i) => i !== index));
+    setActiveIndex(current => Math.max(0, current > index ? current - 1 : Math.min(current, lesson.sections.length - 2)));
+  };
+
+  const issueCount = (index: number) =>
+    issues.filter(issue => issue.severity === 'error' && issue.path.startsWith(`sections[${index}]`)).length;
+
+  return (
+    <div className="space-y-6">
+      {issues.length > 0 && (
+        <Card className="p-4 border-red-200">
+          <ul className="space-y-1 text-sm" role="alert">
+            {issues.map((issue, index) => (
+              <li key={index} className={`flex items-start gap-2 ${issue.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}`}>
+                {issue.severity === 'error'
+                  ? <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  : <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />}
+                <span><code className="text-xs">{issue.path || 'lesson'}</code> — {issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      {/* Lesson details */}
+      <Card className="p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">Lesson details</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {(['fr', 'tah', 'en'] as const).map(lang => (
+            <label key={lang} className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-2">
+                Title ({lang}){lang === 'fr' ? ' *' : ''}
+              </span>
+              <input
+                type="text"
+                value={lesson.title[lang] ?? ''}
+                onChange={(e) => onChange({ ...lesson, title: { ...lesson.title, [lang]: e.target.value } })}
+                className={INPUT_CLASS}
+              />
+            </label>
+          ))}
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-2">Slug *</span>
+            <input
+              type="text"
+              value={lesson.slug}
+              onChange={(e) => onChange({ ...lesson, slug: e.target.value })}
+              className={`${INPUT_CLASS} font-mono text-sm`}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-2">Level</span>
+            <select
+              value={lesson.level}
+              onChange={(e) => onChange({ ...lesson, level: e.target.value as LessonLevel })}
+              className={INPUT_CLASS}
+            >
+              {LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-2">Duration (minutes)</span>
+            <input
+              type="number"
+              min={1}
+              value={lesson.durationMin ?? ''}
+              onChange={(e) => onChange({ ...lesson, durationMin: e.target.value ? Number(e.target.value) : undefined })}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="block md:col-span-2">
+            <span className="block text-sm font-medium text-gray-700 mb-2">Summary</span>
+            <textarea
+              value={lesson.summary}
+              onChange={(e) => onChange({ ...lesson, summary: e.target.value })}
+              rows={2}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-2">Hero image</span>
+            <select
+              value={lesson.heroMediaId ?? ''}
+              onChange={(e) => onChange({ ...lesson, heroMediaId: e.target.value ? Number(e.target.value) : undefined })}
+              className={INPUT_CLASS}
+            >
+              <option value="">None</option>
+              {images.map(asset => <option key={asset.id} value={asset.id}>{asset.alt ?? asset.filePath}</option>)}
+            </select>
+          </label>
+        </div>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Section list */}
+        <Card className="p-4 lg:col-span-1 h-fit">
+          <h2 className="text-sm font-medium text-gray-900 mb-3">Sections</h2>
+          <ol className="space-y-1 mb-4" aria-label="Lesson sections">
+            {lesson.sections.map((section, index) => (
+              <li
+                key={index}
+                className={`flex items-center gap-1 rounded-md px-2 py-1 ${index === activeIndex ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-50'}`}
+              >
+                <button
+                  onClick={() => setActiveIndex(index)}
+                  className="flex-1 text-left text-sm truncate"
+                  aria-current={index === activeIndex}
+                >
+                  <span className="text-gray-400 mr-1">{index + 1}.</span>
+                  {section.title || section.kind}
+                  <span className="block text-xs text-gray-500">{section.kind}</span>
+                </button>
+                {issueCount(index) > 0 && <Badge variant="danger" size="sm">{issueCount(index)}</Badge>}
+                <Button variant="ghost" size="sm" onClick={() => moveSection(index, index - 1)} disabled={index === 0} ariaLabel="Move section up">
+                  <ChevronUp className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => moveSection(index, index + 1)} disabled={index === lesson.sections.length - 1} ariaLabel="Move section down">
+                  <ChevronDown className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => deleteSection(index)} ariaLabel="Delete section">
+                  <Trash2 className="h-3 w-3 text-red-600" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+          <div className="flex gap-2">
+            <select
+              value={newKind}
+              onChange={(e) => setNewKind(e.target.value as SectionKind)}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+              aria-label="Kind of section to add"
+            >
+              {SECTION_KINDS.map(kind => <option key={kind} value={kind}>{kind}</option>)}
+            </select>
+            <Button size="sm" onClick={addSection} ariaLabel="Add section">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </Card>
+
+        {/* Active section */}
+        <Card className="p-6 lg:col-span-3">
+          {active ? (
+            <SectionEditor
+              key={activeIndex}
+              section={active}
+              mediaAssets={mediaAssets}
+              onChange={(section) => setSections(lesson.sections.map((current, i) => (i === activeIndex ? section : current)))}
+              onMediaAdded={onMediaAdded}
+              collaborationRoom={collaborationRoom && `${collaborationRoom}:${activeIndex}`}
+            />
+          ) : (
+            <p className="text-sm text-gray-500">Add a section to start writing the lesson.</p>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default LessonEditor;
@@ -0,0 +1,185 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import { MarkdownContent } from '@/components/lesson/MarkdownContent';
+import { VocabEditor } from './VocabEditor';
+import { ExerciseEditor } from './ExerciseEditor';
+import { SECTION_KINDS, createExercise, moveItem } from '@/lib/authoring/LessonAuthoring';
+import { offsetToPosition } from '@/lib/collaboration/TextOperation';
+import { useCollaborativeText } from '@/lib/hooks/useCollaborativeText';
+import type { Exercise, LessonSection, MediaAsset, SectionKind } from '@/types';
+
+interface SectionEditorProps {
+  section: LessonSection;
+  mediaAssets: MediaAsset[];
+  onChange: (section: LessonSection) => void;
+  onMediaAdded: (assets: MediaAsset[]) => void;
+  /** Shares the markdown live with other editors who open the same room */
+  collaborationRoom?: string;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Edits one section: its markdown text with a live preview, its vocabulary
+ * and its exercises
+ */
+export const SectionEditor: React.FC<SectionEditorProps> = ({ section, mediaAssets, onChange, onMediaAdded, collaborationRoom }) => {
+  const [showPreview, setShowPreview] = useState(true);
+  const exercises = section.exercises ?? [];
+  const markdown = section.contentMd ?? '';
+  const collaboration = useCollaborativeText(collaborationRoom, markdown, (contentMd) => onChange({ ...section, contentMd }));
+
+  const updateMarkdown = (contentMd: string) => {
+    onChange({ ...section, contentMd });
+    collaboration.edit(contentMd);
+  };
+
+  const shareSelection = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    collaboration.select(e.currentTarget.selectionStart, e.currentTarget.selectionEnd);
+  };
+
+  const updateExercise = (index: number, exercise: Exercise) => {
+    onChange({ ...section, exercises: exercises.map((current, i) => (i === index ? exercise : current)) });
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="block md:col-span-2">
+          <span className="block text-sm font-medium text-gray-700 mb-2">Title *</span>
+          <input
+            type="text"
+            value={section.title}
+            onChange={(e) => onChange({ ...section, title: e.target.value })}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-2">Kind</span>
+          <select
+            value={section.kind}
+            onChange={(e) => onChange({ ...section, kind: e.target.value as SectionKind })}
+            className={INPUT_CLASS}
+          >
+            {SECTION_KINDS.map(kind => (
+              <option key={kind} value={kind}>{kind}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Markdown */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-gray-700">Content (markdown)</span>
+          {collaborationRoom && (
+            <div className="flex flex-wrap items-center gap-2 text-xs" aria-live="polite">
+              <Badge variant={collaboration.status === 'live' ? 'success' : 'secondary'} size="sm">
+                {collaboration.status === 'live' ? 'Live' : collaboration.status === 'connecting' ? 'Connecting…' : 'Offline'}
+              </Badge>
+              {collaboration.error && collaboration.status !== 'live' && (
+                <span className="text-red-600">{collaboration.error}</span>
+              )}
+              {collaboration.collaborators.map(participant => {
+                const selection = participant.selection;
+                const position = selection && offsetToPosition(markdown, selection.head);
+                return (
+                  <span key={participant.clientId} className="flex items-center gap-1 text-gray-600" title={participant.name}>
+                    <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: participant.color }} />
+                    {participant.name}
+                    {position && (
+                      <span className="text-gray-400">
+                        {selection.anchor !== selection.head
+                          ? `selecting ${Math.abs(selection.head - selection.anchor)} chars`
+                          : `line ${position.line + 1}, col ${position.character + 1}`}
+                      </span>
+                    )}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => setShowPreview(value => !value)}>
+            {showPreview ? 'Hide preview' : 'Show preview'}
+          </Button>
+        </div>
+        <div className={`grid grid-cols-1 ${showPreview ? 'lg:grid-cols-2' : ''} gap-4`}>
+          <textarea
+            ref={collaboration.textareaRef}
+            value={markdown}
+            onChange={(e) => updateMarkdown(e.target.value)}
+            onSelect={shareSelection}
+            rows={14}
+            className={`${INPUT_CLASS} font-mono text-sm`}
+            placeholder={'## Titre\n\nTexte avec **gras**, *italique* et des listes :\n\n- ia ora na\n- māuruuru'}
+            aria-label="Section content in markdown"
+          />
+          {showPreview && (
+            <div className="p-4 border border-gray-200 rounded-md bg-white overflow-y-auto max-h-96" aria-label="Content preview">
+              {section.contentMd?.trim()
+                ? <MarkdownContent markdown={section.contentMd} />
+                : <p className="text-sm text-gray-400">Nothing to preview yet.</p>}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Vocabulary */}
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="text-base font-medium text-gray-900">Vocabulary</h3>
+          <Badge variant="secondary" size="sm">{section.vocab?.length ?? 0}</Badge>
+        </div>
+        <VocabEditor
+          items={section.vocab ?? []}
+          mediaAssets={mediaAssets}
+          onChange={(vocab) => onChange({ ...section, vocab })}
+          onMediaAdded={onMediaAdded}
+        />
+      </div>
+
+      {/* Exercises */}
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="text-base font-medium text-gray-900">Exercises</h3>
+          <Badge variant="secondary" size="sm">{exercises.length}</Badge>
+        </div>
+        <div className="space-y-4">
+          {exercises.map((exercise, index) => (
+            <div key={index} className="p-4 border border-gray-200 rounded-lg bg-gray-50">
+              <div className="flex items-center justify-between mb-3">
+                <span className="text-sm font-medium text-gray-700">Exercise {index + 1}</span>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => onChange({ ...section, exercises: moveItem(exercises, index, index - 1) })} disabled={index === 0} ariaLabel="Move exercise up">
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => onChange({ ...section, exercises: moveItem(exercises, index, index + 1) })} disabled={index === exercises.length - 1} ariaLabel="Move exercise down">
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => onChange({ ...section, exercises: exercises.filter((_, i) => i !== index) })} ariaLabel="Delete exercise">
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+              <ExerciseEditor
+                exercise={exercise}
+                mediaAssets={mediaAssets}
+                onChange={(next) => updateExercise(index, next)}
+              />
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => onChange({ ...section, exercises: [...exercises, createExercise('MCQ')] })}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add exercise
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SectionEditor;
@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown, Music } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import MediaUpload from '@/components/admin/MediaUpload';
+import { createVocabItem, moveItem } from '@/lib/authoring/LessonAuthoring';
+import type { MediaAsset, VocabItem } from '@/types';
+
+interface VocabEditorProps {
+  items: VocabItem[];
+  mediaAssets: MediaAsset[];
+  onChange: (items: VocabItem[]) => void;
+  onMediaAdded: (assets: MediaAsset[]) => void;
+}
+
+const INPUT_CLASS = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const TEXT_FIELDS: Array<{ key: 'fr' | 'tah' | 'en' | 'ipaFr' | 'ipaTah' | 'partOfSpeech' | 'note'; label: string }> = [
+  { key: 'fr', label: 'French *' },
+  { key: 'tah', label: 'Tahitian' },
+  { key: 'en', label: 'English' },
+  { key: 'ipaFr', label: 'IPA (fr)' },
+  { key: 'ipaTah', label: 'IPA (tah)' },
+  { key: 'partOfSpeech', label: 'Part of speech' },
+  { key: 'note', label: 'Note' }
+];
+
+/**
+ * Vocabulary rows of a section, with audio picked from the course media
+ * library or uploaded in place
+ */
+export const VocabEditor: React.FC<VocabEditorProps> = ({ items, mediaAssets, onChange, onMediaAdded }) => {
+  const [uploadingFor, setUploadingFor] = useState<number | null>(null);
+  const audioAssets = mediaAssets.filter(asset => asset.kind === 'audio');
+
+  const updateItem = (index: number, changes: Partial<VocabItem>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleAudioUploaded = (index: number, assets: MediaAsset[]) => {
+    onMediaAdded(assets);
+    if (assets[0]) updateItem(index, { audioMediaId: assets[0].id });
+    setUploadingFor(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      {items.length === 0 && (
+        <p className="text-sm text-gray-500">No vocabulary yet.</p>
+      )}
+
+      {items.map((item, index) => (
+        <div key={index} className="p-4 border border-gray-200 rounded-lg bg-gray-50 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">
+              #{index + 1} {item.fr || <span className="text-gray-400">(untitled)</span>}
+            </span>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" onClick={() => onChange(moveItem(items, index, index - 1))} disabled={index === 0} ariaLabel="Move word up">
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => onChange(moveItem(items, index, index + 1))} disabled={index === items.length - 1} ariaLabel="Move word down">
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => onChange(items.filter((_, i) => i !== index))} ariaLabel="Delete word">
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {TEXT_FIELDS.map(field => (
+              <label key={field.key} className="block">
+                <span className="block text-xs font-medium text-gray-600 mb-1">{field.label}</span>
+                <input
+                  type="text"
+                  value={item[field.key] ?? ''}
+                  onChange={(e) => updateItem(index, { [field.key]: e.target.value })}
+                  className={INPUT_CLASS}
+                />
+              </label>
+            ))}
+            <label className="flex items-center gap-2 mt-5 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={Boolean(item.isCore)}
+                onChange={(e) => updateItem(index, { isCore: e.target.checked })}
+              />
+              Core word
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="block flex-1 min-w-[12rem]">
+              <span className="block text-xs font-medium text-gray-600 mb-1">Audio</span>
+              <select
+                value={item.audioMediaId ?? ''}
+                onChange={(e) => updateItem(index, { audioMediaId: e.target.value ? Number(e.target.value) : undefined })}
+                className={INPUT_CLASS}
+              >
+                <option value="">No audio</option>
+                {audioAssets.map(asset => (
+                  <option key={asset.id} value={asset.id}>{asset.alt ?? asset.filePath}</option>
+                ))}
+              </select>
+            </label>
+            {item.audioMediaId !== undefined && (
+              <audio
+                controls
+                className="h-8"
+                src={audioAssets.find(asset => asset.id === item.audioMediaId)?.filePath}
+              />
+            )}
+            <Button variant="outline" size="sm" onClick={() => setUploadingFor(uploadingFor === index ? null : index)}>
+              <Music className="h-4 w-4 mr-1" />
+              {uploadingFor === index ? 'Cancel upload' : 'Upload audio'}
+            </Button>
+          </div>
+
+          {uploadingFor === index && (
+            <MediaUpload
+              onFilesUploaded={(assets) => handleAudioUploaded(index, assets)}
+              onFileRemoved={() => undefined}
+              allowedTypes={['audio/mpeg', 'audio/wav', 'audio/ogg']}
+              maxFiles={1}
+            />
+          )}
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={() => onChange([...items, createVocabItem()])}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add word
+      </Button>
+    </div>
+  );
+};
+
+export default VocabEditor;
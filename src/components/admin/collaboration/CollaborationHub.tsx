@@ -23,6 +23,7 @@ import {
   Comment,
   ReviewRequest,
   CollaborationSession,
+  SessionParticipant,
   Notification
 } from '@/types/collaboration';
 
@@ -49,17 +50,16 @@ const CollaborationHub: React.FC<CollaborationHubProps> = ({
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   
-  const collaborationService = new CollaborationService();
+  // One instance per hub: it holds the connection to the joined session
+  const [collaborationService] = useState(() => new CollaborationService());
 
   useEffect(() => {
     loadData();
-    setupEventListeners();
-    
-    return () => {
-      // Cleanup event listeners
-    };
+    return setupEventListeners();
   }, [contentId]);
 
+  useEffect(() => () => collaborationService.disconnectSession(), [collaborationService]);
+
   const loadData = async () => {
     try {
       setLoading(true);
@@ -76,6 +76,10 @@ const CollaborationHub: React.FC<CollaborationHubProps> = ({
       setMergeRequests(mergeRequestsData);
       setComments(commentsData);
       setReviewRequests(reviewRequestsData);
+      setSessions(await collaborationService.getLiveSessions().catch(error => {
+        console.error('Error loading live sessions:', error);
+        return [];
+      }));
     } catch (error) {
       console.error('Error loading collaboration data:', error);
     } finally {
@@ -84,17 +88,26 @@ const CollaborationHub: React.FC<CollaborationHubProps> = ({
   };
 
   const setupEventListeners = () => {
-    collaborationService.on('version:created', (version: ContentVersion) => {
-      setVersions(prev => [version, ...prev]);
-    });
-    
-    collaborationService.on('comment:created', (comment: Comment) => {
-      setComments(prev => [comment, ...prev]);
-    });
-    
-    collaborationService.on('review_request:created', (request: ReviewRequest) => {
-      setReviewRequests(prev => [request, ...prev]);
-    });
+    const listeners: Record<string, (payload: never) => void> = {
+      'version:created': (version: ContentVersion) => {
+        setVersions(prev => [version, ...prev]);
+      },
+      'comment:created': (comment: Comment) => {
+        setComments(prev => [comment, ...prev]);
+      },
+      'review_request:created': (request: ReviewRequest) => {
+        setReviewRequests(prev => [request, ...prev]);
+      },
+      // Who is in the joined session and where their carets are, live from the server
+      'session:participants': ({ sessionId, participants }: { sessionId: string; participants: SessionParticipant[] }) => {
+        setSessions(prev => prev.map(session => (
+          session.id === sessionId ? { ...session, participants, lastActivity: new Date() } : session
+        )));
+      }
+    };
+
+    Object.entries(listeners).forEach(([event, listener]) => collaborationService.on(event, listener));
+    return () => Object.entries(listeners).forEach(([event, listener]) => collaborationService.off(event, listener));
   };
 
   const handleCreateVersion = async () => {
@@ -147,6 +160,21 @@ const CollaborationHub: React.FC<CollaborationHubProps> = ({
     }
   };
 
+  const handleJoinSession = async (sessionId: string) => {
+    try {
+      const session = await collaborationService.joinCollaborationSession(sessionId);
+      setSessions(prev => prev.map(current => (current.id === sessionId ? session : current)));
+    } catch (error) {
+      console.error('Error joining collaboration session:', error);
+    }
+  };
+
+  /** Lesson editor rooms are named `course-<id>:…`; their editor page is where the text is */
+  const sessionEditorUrl = (session: CollaborationSession) => {
+    const match = /^course-(\d+):/.exec(session.contentId ?? '');
+    return match ? `/admin/courses/${match[1]}/edit` : null;
+  };
+
   const filteredData = () => {
     const filterBySearch = (items: any[], searchFields: string[]) => {
       if (!searchTerm) return items;
@@ -312,7 +340,7 @@ const CollaborationHub: React.FC<CollaborationHubProps> = ({
             <div className="flex justify-between items-start">
               <div className="flex-1">
                 <div className="flex items-center gap-3">
-                  <h4 className="font-medium">{item.title || `Review Request ${item.id}`}</h4>
+                  <h4 className="font-medium">{'title' in item ? item.title : `Review Request ${item.id}`}</h4>
                   <span className={`px-2 py-1 rounded-full text-xs ${getStatusColor(item.status)}`}>
                     {item.status}
                   </span>
@@ -326,7 +354,7 @@ const CollaborationHub: React.FC<CollaborationHubProps> = ({
                     </span>
                   )}
                 </div>
-                <p className="text-sm text-gray-600 mt-1">{item.description || 'No description'}</p>
+                <p className="text-sm text-gray-600 mt-1">{('description' in item && item.description) || 'No description'}</p>
                 <div className="flex items-center gap-4 mt-2 text-xs text-gray-500">
                   <span>By {'authorId' in item ? item.authorId : 'requestedBy' in item ? item.requestedBy : 'Unknown'}</span>
                   <span>{new Date(item.createdAt).toLocaleDateString()}</span>
@@ -443,8 +471,16 @@ const CollaborationHub: React.FC<CollaborationHubProps> = ({
                 </div>
                 <div className="flex items-center gap-2 mt-2">
                   {session.participants.slice(0, 3).map((participant, index) => (
-                    <div key={index} className="w-6 h-6 bg-gray-300 rounded-full flex items-center justify-center text-xs">
-                      {participant.userId.charAt(0).toUpperCase()}
+                    <div
+                      key={index}
+                      className="w-6 h-6 bg-gray-300 rounded-full flex items-center justify-center text-xs text-white"
+                      style={participant.color ? { backgroundColor: participant.color } : undefined}
+                      title={[
+                        participant.name ?? participant.userId,
+                        participant.cursor && `line ${participant.cursor.line + 1}, col ${participant.cursor.character + 1}`
+                      ].filter(Boolean).join(' · ')}
+                    >
+                      {(participant.name ?? participant.userId).charAt(0).toUpperCase()}
                     </div>
                   ))}
                   {session.participants.length > 3 && (
@@ -453,12 +489,20 @@ const CollaborationHub: React.FC<CollaborationHubProps> = ({
                 </div>
               </div>
               <div className="flex items-center gap-2">
-                <button className="px-3 py-1 text-sm bg-indigo-100 text-indigo-700 rounded hover:bg-indigo-200">
+                <button
+                  onClick={() => handleJoinSession(session.id)}
+                  className="px-3 py-1 text-sm bg-indigo-100 text-indigo-700 rounded hover:bg-indigo-200"
+                >
                   Join
                 </button>
-                <button className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200">
-                  View
-                </button>
+                {sessionEditorUrl(session) && (
+                  <a
+                    href={sessionEditorUrl(session)!}
+                    className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                  >
+                    View
+                  </a>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,85 @@
+'use client';
+
+import React from 'react';
+import Badge from '@/components/ui/Badge';
+import type { StructuralChange } from '@/types/collaboration';
+
+interface CourseDiffViewProps {
+  changes: StructuralChange[];
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const TYPE_BADGES: Record<StructuralChange['type'], { label: string; variant: 'success' | 'danger' | 'warning' }> = {
+  addition: { label: 'Added', variant: 'success' },
+  deletion: { label: 'Removed', variant: 'danger' },
+  modification: { label: 'Modified', variant: 'warning' }
+};
+
+/** Shows the value or a placeholder when the node does not exist on that side */
+const ValuePane: React.FC<{ value?: string; tone: 'before' | 'after' }> = ({ value, tone }) => (
+  value
+    ? (
+      <pre className={`text-xs whitespace-pre-wrap break-words rounded p-3 max-h-64 overflow-y-auto ${tone === 'before' ? 'bg-red-50 text-red-900' : 'bg-green-50 text-green-900'}`}>
+        {value}
+      </pre>
+    )
+    : <p className="text-xs italic text-gray-400 p-3">Not present</p>
+);
+
+/**
+ * Structural changes between two course versions, grouped by lesson, with
+ * the old and new value of each node side by side
+ */
+export const CourseDiffView: React.FC<CourseDiffViewProps> = ({ changes, beforeLabel, afterLabel }) => {
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">These versions have the same content.</p>;
+  }
+
+  const groups = new Map<string, StructuralChange[]>();
+  for (const change of changes) {
+    const group = change.lesson ? `Lesson ${change.lesson}` : 'Course';
+    groups.set(group, [...(groups.get(group) ?? []), change]);
+  }
+
+  const count = (type: StructuralChange['type']) => changes.filter(change => change.type === type).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(TYPE_BADGES) as StructuralChange['type'][]).map(type => (
+          <Badge key={type} variant={TYPE_BADGES[type].variant} size="sm">
+            {count(type)} {TYPE_BADGES[type].label.toLowerCase()}
+          </Badge>
+        ))}
+      </div>
+
+      {[...groups.entries()].map(([group, groupChanges]) => (
+        <section key={group} aria-label={group}>
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">{group}</h3>
+          <div className="grid grid-cols-2 gap-4 px-1 mb-2 text-xs font-medium uppercase tracking-wide text-gray-500">
+            <span>{beforeLabel}</span>
+            <span>{afterLabel}</span>
+          </div>
+          <ul className="space-y-3">
+            {groupChanges.map(change => (
+              <li key={change.id} className="border border-gray-200 rounded-lg p-3">
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <Badge variant={TYPE_BADGES[change.type].variant} size="sm">{TYPE_BADGES[change.type].label}</Badge>
+                  <span className="text-sm font-medium text-gray-900">{change.label}</span>
+                  {change.field && <code className="text-xs text-gray-500">{change.field}</code>}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <ValuePane value={change.oldValue} tone="before" />
+                  <ValuePane value={change.newValue} tone="after" />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default CourseDiffView;
@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import Badge from '@/components/ui/Badge';
+import Button from '@/components/ui/Button';
+import type { ConflictChoice, ConflictSection } from '@/types/collaboration';
+
+interface MergeConflictListProps {
+  conflicts: ConflictSection[];
+  sourceLabel: string;
+  targetLabel: string;
+  onResolve: (conflictId: string, choice: ConflictChoice) => void;
+}
+
+const Pane: React.FC<{ title: string; content: string; chosen?: boolean }> = ({ title, content, chosen }) => (
+  <div className={`rounded border ${chosen ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'}`}>
+    <p className="px-3 py-1.5 text-xs font-medium uppercase tracking-wide text-gray-500 border-b border-gray-200">{title}</p>
+    {content
+      ? <pre className="text-xs whitespace-pre-wrap break-words p-3 max-h-64 overflow-y-auto">{content}</pre>
+      : <p className="text-xs italic text-gray-400 p-3">Removed</p>}
+  </div>
+);
+
+/**
+ * Conflicts of a three-way merge: the common ancestor, the incoming and the
+ * current side next to each other, with a choice of which side to keep
+ */
+export const MergeConflictList: React.FC<MergeConflictListProps> = ({ conflicts, sourceLabel, targetLabel, onResolve }) => {
+  if (conflicts.length === 0) {
+    return <p className="text-sm text-green-700">No conflicts: every change merges cleanly.</p>;
+  }
+
+  return (
+    <ul className="space-y-4">
+      {conflicts.map(conflict => (
+        <li key={conflict.id} className="border border-gray-200 rounded-lg p-4">
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <Badge variant={conflict.resolution ? 'success' : 'danger'} size="sm">
+              {conflict.resolution ? 'Resolved' : 'Conflict'}
+            </Badge>
+            <Badge variant="secondary" size="sm">{conflict.type}</Badge>
+            <span className="text-sm font-medium text-gray-900">{conflict.section}</span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+            <Pane title="Common ancestor" content={conflict.baseContent} />
+            <Pane title={sourceLabel} content={conflict.sourceContent} chosen={conflict.resolution === 'source'} />
+            <Pane title={targetLabel} content={conflict.targetContent} chosen={conflict.resolution === 'target'} />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button
+              variant={conflict.resolution === 'source' ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => onResolve(conflict.id, 'source')}
+            >
+              Keep {sourceLabel.toLowerCase()}
+            </Button>
+            <Button
+              variant={conflict.resolution === 'target' ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => onResolve(conflict.id, 'target')}
+            >
+              Keep {targetLabel.toLowerCase()}
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default MergeConflictList;
@@ -0,0 +1,88 @@
+'use client';
+
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Download } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import {
+  buildCoursePackage,
+  loadPackageMedia,
+  packageFileName,
+  PACKAGE_FORMATS,
+  type PackageFormat
+} from '@/lib/export/CoursePackage';
+import type { Course } from '@/types';
+
+interface CourseExportMenuProps {
+  course: Course;
+}
+
+const FORMAT_ORDER: PackageFormat[] = ['scorm12', 'scorm2004', 'cc'];
+
+/**
+ * Downloads the course as a SCORM or Common Cartridge package for a school LMS
+ */
+export const CourseExportMenu: React.FC<CourseExportMenuProps> = ({ course }) => {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState<PackageFormat | null>(null);
+
+  const handleExport = async (format: PackageFormat) => {
+    setExporting(format);
+    try {
+      const { files, missing } = await loadPackageMedia(course.mediaAssets);
+      const archive = buildCoursePackage(course, format, files);
+
+      const blob = new Blob([archive], { type: 'application/zip' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = packageFileName(course, format);
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      if (missing.length > 0) {
+        toast.warning(`${PACKAGE_FORMATS[format].label} package exported without ${missing.length} media file(s) that could not be loaded`);
+      } else {
+        toast.success(`${PACKAGE_FORMATS[format].label} package exported`);
+      }
+      setOpen(false);
+    } catch (error) {
+      console.error('Failed to export course package:', error);
+      toast.error('Failed to export course package');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="outline" onClick={() => setOpen(!open)} ariaLabel="Export course for an LMS">
+        <Download className="h-4 w-4 mr-2" />
+        Export for LMS
+      </Button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-80 rounded-md border border-gray-200 bg-white shadow-lg" role="menu">
+          {FORMAT_ORDER.map(format => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              disabled={exporting !== null}
+              onClick={() => handleExport(format)}
+              className="block w-full px-4 py-3 text-left hover:bg-gray-50 disabled:opacity-50 border-b last:border-b-0 border-gray-100"
+            >
+              <span className="block text-sm font-medium text-gray-900">
+                {exporting === format ? 'Packaging…' : PACKAGE_FORMATS[format].label}
+              </span>
+              <span className="block text-xs text-gray-500">{PACKAGE_FORMATS[format].description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CourseExportMenu;
@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useState } from 'react';
+import Badge from '@/components/ui/Badge';
+import { CourseDiffView } from '@/components/admin/collaboration/CourseDiffView';
+import type { ImportReport, ValidationError } from '@/types';
+
+interface ImportReportViewProps {
+  report: ImportReport;
+}
+
+/** Rows listed before the table is collapsed behind "Show all" */
+const VISIBLE_ROWS = 20;
+
+const FORMAT_LABELS: Record<ImportReport['format'], string> = {
+  'course-json': 'Course JSON',
+  'lesson-json': 'Lesson JSON',
+  'course-csv': 'Course CSV',
+  'vocab-sheet': 'Vocabulary sheet',
+  'anki-package': 'Anki package',
+  'anki-text': 'Anki text export'
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const ValidationTable: React.FC<{ errors: ValidationError[] }> = ({ errors }) => {
+  const [showAll, setShowAll] = useState(false);
+  const visible = showAll ? errors : errors.slice(0, VISIBLE_ROWS);
+
+  return (
+    <div>
+      <div className="overflow-x-auto border border-gray-200 rounded-md max-h-80 overflow-y-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-xs uppercase tracking-wide text-gray-500 sticky top-0">
+            <tr>
+              <th scope="col" className="px-3 py-2 text-left">Row</th>
+              <th scope="col" className="px-3 py-2 text-left">Source</th>
+              <th scope="col" className="px-3 py-2 text-left">Field</th>
+              <th scope="col" className="px-3 py-2 text-left">Problem</th>
+              <th scope="col" className="px-3 py-2 text-left">Value</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {visible.map((error, index) => (
+              <tr key={index} className={error.severity === 'error' ? 'bg-red-50' : 'bg-yellow-50'}>
+                <td className="px-3 py-1.5 whitespace-nowrap">{error.row || 'File'}</td>
+                <td className="px-3 py-1.5 text-gray-600">{error.source ?? ''}</td>
+                <td className="px-3 py-1.5 font-mono text-xs">{error.field}</td>
+                <td className="px-3 py-1.5">
+                  <Badge variant={error.severity === 'error' ? 'danger' : 'warning'} size="sm">{error.severity}</Badge>{' '}
+                  {error.message}
+                </td>
+                <td className="px-3 py-1.5 text-gray-600 break-all">{formatValue(error.value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {errors.length > VISIBLE_ROWS && (
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          className="mt-2 text-xs text-blue-600 hover:underline"
+        >
+          {showAll ? 'Show fewer' : `Show all ${errors.length} rows`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Dry-run result of a bulk import: row-level problems and, per course, what
+ * committing would change
+ */
+export const ImportReportView: React.FC<ImportReportViewProps> = ({ report }) => {
+  const { summary } = report;
+  const tiles = [
+    { label: 'Courses', value: summary.courses, className: 'bg-blue-50 text-blue-600' },
+    { label: 'Lessons', value: summary.lessons, className: 'bg-purple-50 text-purple-600' },
+    { label: 'Vocabulary', value: summary.vocab, className: 'bg-green-50 text-green-600' },
+    { label: 'Errors', value: summary.errors, className: 'bg-red-50 text-red-600' },
+    { label: 'Warnings', value: summary.warnings, className: 'bg-yellow-50 text-yellow-700' }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Read as <strong>{FORMAT_LABELS[report.format]}</strong>.
+        {summary.errors > 0 && ' Rows with errors are skipped; fix them in the file and run the dry run again to include them.'}
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {tiles.map(tile => (
+          <div key={tile.label} className={`text-center p-3 rounded-lg ${tile.className}`}>
+            <p className="text-2xl font-bold">{tile.value}</p>
+            <p className="text-sm">{tile.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {report.validationErrors.length > 0 && (
+        <section>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Row problems</h3>
+          <ValidationTable errors={report.validationErrors} />
+        </section>
+      )}
+
+      {report.plans.map((plan, index) => (
+        <section key={index}>
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <Badge variant={plan.action === 'create' ? 'success' : 'info'} size="sm">
+              {plan.action === 'create' ? 'New course' : 'Update'}
+            </Badge>
+            <h3 className="text-sm font-medium text-gray-900">{plan.course.title.fr || plan.course.title.en}</h3>
+          </div>
+          <CourseDiffView
+            changes={plan.changes}
+            beforeLabel={plan.action === 'create' ? 'Nothing yet' : 'Current course'}
+            afterLabel="After import"
+          />
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default ImportReportView;
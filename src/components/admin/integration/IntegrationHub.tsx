@@ -27,12 +27,24 @@ import { integrationService } from '../../../services/IntegrationService';
 import { 
   APIEndpoint, 
   Webhook, 
+  WebhookDelivery, 
   SSOProvider, 
   LTIProvider, 
   Plugin, 
   PluginRegistry 
 } from '../../../types/integration';
 
+const describeDelivery = (delivery: WebhookDelivery): string => {
+  switch (delivery.status) {
+    case 'success':
+      return `Delivered: HTTP ${delivery.response?.statusCode} in ${delivery.response?.duration}ms`;
+    case 'retrying':
+      return `Delivery failed (${delivery.error}); retrying at ${delivery.nextAttempt?.toLocaleTimeString()}`;
+    default:
+      return `Delivery failed (${delivery.error}); moved to dead letters`;
+  }
+};
+
 const IntegrationHub: React.FC = () => {
   const [activeTab, setActiveTab] = useState('api');
   const [loading, setLoading] = useState(false);
@@ -42,6 +54,8 @@ const IntegrationHub: React.FC = () => {
   // Data states
   const [endpoints, setEndpoints] = useState<APIEndpoint[]>([]);
   const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deadLetters, setDeadLetters] = useState<WebhookDelivery[]>([]);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
   const [ssoProviders, setSSOProviders] = useState<SSOProvider[]>([]);
   const [ltiProviders, setLTIProviders] = useState<LTIProvider[]>([]);
   const [plugins, setPlugins] = useState<Plugin[]>([]);
@@ -64,8 +78,12 @@ const IntegrationHub: React.FC = () => {
           setEndpoints(endpointsData);
           break;
         case 'webhooks':
-          const webhooksData = await integrationService.getWebhooks();
+          const [webhooksData, deadLetterData] = await Promise.all([
+            integrationService.getWebhooks(),
+            integrationService.getDeadLetterDeliveries()
+          ]);
           setWebhooks(webhooksData);
+          setDeadLetters(deadLetterData);
           break;
         case 'sso':
           const ssoData = await integrationService.getSSOProviders();
@@ -112,13 +130,27 @@ const IntegrationHub: React.FC = () => {
         description: 'Manual test trigger',
         payload: { test: true, timestamp: new Date().toISOString() }
       };
-      await integrationService.triggerWebhook(webhookId, event);
-      alert('Webhook triggered successfully');
+      const delivery = await integrationService.triggerWebhook(webhookId, event);
+      alert(describeDelivery(delivery));
+      await loadData();
     } catch (error) {
       alert('Webhook trigger failed: ' + error);
     }
   };
 
+  const handleReplayDelivery = async (deliveryId: string) => {
+    setReplayingId(deliveryId);
+    try {
+      const delivery = await integrationService.retryWebhookDelivery(deliveryId);
+      alert(describeDelivery(delivery));
+      await loadData();
+    } catch (error) {
+      alert('Replay failed: ' + error);
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
   const handleTestSSO = async (providerId: string) => {
     try {
       const result = await integrationService.testSSOConnection(providerId);
@@ -273,6 +305,44 @@ const IntegrationHub: React.FC = () => {
           </div>
         ))}
       </div>
+
+      <div className="pt-4">
+        <h3 className="text-lg font-semibold mb-1">Dead letters</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Deliveries that failed after every retry. Replaying sends the event again with a fresh retry budget.
+        </p>
+        {deadLetters.length === 0 ? (
+          <p className="text-sm text-gray-500">No failed deliveries.</p>
+        ) : (
+          <div className="grid gap-2">
+            {deadLetters.map(delivery => (
+              <div key={delivery.id} className="bg-white p-3 rounded-lg border border-red-200 flex justify-between items-center">
+                <div className="text-sm">
+                  <div className="flex items-center gap-2 font-medium">
+                    <XCircle className="w-4 h-4 text-red-600" />
+                    {delivery.event.type}
+                    <span className="text-gray-500 font-normal">
+                      → {webhooks.find(w => w.id === delivery.webhookId)?.name ?? delivery.webhookId}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {delivery.attempts} attempts · {delivery.error}
+                    {delivery.deadLetteredAt && ` · ${delivery.deadLetteredAt.toLocaleString()}`}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleReplayDelivery(delivery.id)}
+                  disabled={replayingId === delivery.id}
+                  className="px-3 py-1 text-sm text-blue-600 border border-blue-200 rounded hover:bg-blue-50 flex items-center gap-1 disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-4 h-4 ${replayingId === delivery.id ? 'animate-spin' : ''}`} />
+                  Replay
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 
@@ -0,0 +1,154 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import authService from '../../services/AuthService';
+import type { SessionSummary } from '../../lib/auth/Sessions';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../ui/card';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Badge } from '../ui/badge';
+import { Laptop, Loader2, LogOut, RefreshCw, Smartphone, Tablet } from 'lucide-react';
+import { toast } from 'sonner';
+
+function DeviceIcon({ device }: { device: string }) {
+  if (/iPad|tablet/.test(device)) return <Tablet className="h-5 w-5 text-muted-foreground" />;
+  if (/iPhone|phone/.test(device)) return <Smartphone className="h-5 w-5 text-muted-foreground" />;
+  return <Laptop className="h-5 w-5 text-muted-foreground" />;
+}
+
+/** The "Devices & sessions" card of the profile's security tab */
+export function DeviceSessions() {
+  const [sessions, setSessions] = useState<SessionSummary[] | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const router = useRouter();
+
+  const loadSessions = useCallback(async () => {
+    setError('');
+    try {
+      const list = await authService.getSessions();
+      // This device first, then the most recently active
+      setSessions([...list].sort((a, b) => Number(b.current) - Number(a.current) || b.lastActiveAt.localeCompare(a.lastActiveAt)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: SessionSummary) => {
+    if (session.current && !window.confirm('Sign out of this device?')) return;
+    setPendingId(session.id);
+    try {
+      await authService.revokeSession(session.id);
+      toast.success(`Signed out ${session.device}`);
+      if (session.current) {
+        router.push('/auth/login');
+        return;
+      }
+      await loadSessions();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to sign out the device');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!window.confirm('Sign out of every device, including this one?')) return;
+    setPendingId('all');
+    try {
+      await authService.signOutEverywhere();
+      toast.success('Signed out everywhere');
+      router.push('/auth/login');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to sign out everywhere');
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Devices &amp; Sessions</CardTitle>
+          <Button type="button" variant="ghost" size="sm" onClick={loadSessions} disabled={pendingId !== null}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+        <CardDescription>
+          Devices signed in to your account. Sign out any you no longer use, such as a shared tablet.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!sessions && !error && (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        )}
+
+        {sessions?.length === 0 && (
+          <p className="text-sm text-muted-foreground">No devices are signed in.</p>
+        )}
+
+        {sessions?.map(session => (
+          <div key={session.id} className="flex items-center justify-between gap-4 rounded border p-3">
+            <div className="flex items-center gap-3">
+              <DeviceIcon device={session.device} />
+              <div>
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  {session.device}
+                  {session.current && <Badge variant="secondary">This device</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {session.ipAddress} · Active {new Date(session.lastActiveAt).toLocaleString()}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Signed in {new Date(session.signedInAt).toLocaleString()}
+                </p>
+              </div>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => handleRevoke(session)}
+              disabled={pendingId !== null}
+            >
+              {pendingId === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Sign out'}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+
+      <CardFooter>
+        <Button
+          type="button"
+          variant="destructive"
+          className="w-full"
+          onClick={handleSignOutEverywhere}
+          disabled={pendingId !== null || !sessions?.length}
+        >
+          {pendingId === 'all' ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <LogOut className="mr-2 h-4 w-4" />
+          )}
+          Sign out everywhere
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+export default DeviceSessions;
@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useAuth } from '../../hooks/useAuth';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../ui/card';
+import { Alert, AlertDescription } from '../ui/alert';
+import { CheckCircle, Loader2, Mail, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+
+type VerificationStatus = 'pending' | 'verifying' | 'verified' | 'failed';
+
+/**
+ * Confirms the token from a verification link, or without one tells the
+ * user to check their inbox. Signed-in users can ask for a new link.
+ */
+export function EmailVerification() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const { user, isAuthenticated, verifyEmail, resendVerification } = useAuth();
+
+  const [status, setStatus] = useState<VerificationStatus>(token ? 'verifying' : 'pending');
+  const [error, setError] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  // Each link is confirmed once, even when effects run twice in development
+  const attempted = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || attempted.current === token) return;
+    attempted.current = token;
+
+    setStatus('verifying');
+    verifyEmail(token).then(result => {
+      if (result.success) {
+        setStatus('verified');
+        toast.success('Email verified');
+      } else {
+        setError(result.error || 'Email verification failed');
+        setStatus('failed');
+      }
+    });
+  }, [token, verifyEmail]);
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      const result = await resendVerification();
+      if (result.success) {
+        toast.success(`A new link is on its way to ${user?.email}`);
+      } else {
+        toast.error(result.error || 'Failed to send the verification email');
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const alreadyVerified = status === 'pending' && user?.isEmailVerified;
+  const canResend = isAuthenticated && !user?.isEmailVerified && (status === 'pending' || status === 'failed');
+
+  return (
+    <Card>
+      <CardHeader className="text-center">
+        <div className="mx-auto mb-2">
+          {status === 'verifying' && <Loader2 className="h-10 w-10 animate-spin text-blue-600" />}
+          {(status === 'verified' || alreadyVerified) && <CheckCircle className="h-10 w-10 text-green-600" />}
+          {status === 'failed' && <XCircle className="h-10 w-10 text-red-600" />}
+          {status === 'pending' && !alreadyVerified && <Mail className="h-10 w-10 text-blue-600" />}
+        </div>
+        <CardTitle>
+          {status === 'verifying' && 'Verifying your email'}
+          {(status === 'verified' || alreadyVerified) && 'Email verified'}
+          {status === 'failed' && 'Verification failed'}
+          {status === 'pending' && !alreadyVerified && 'Check your inbox'}
+        </CardTitle>
+        <CardDescription>
+          {status === 'verifying' && 'This only takes a moment.'}
+          {(status === 'verified' || alreadyVerified) && 'Thanks for confirming your address. Every feature of your account is now available.'}
+          {status === 'failed' && 'We could not verify your email with this link.'}
+          {status === 'pending' && !alreadyVerified && (
+            user?.email
+              ? `We sent a verification link to ${user.email}. Open it to finish setting up your account.`
+              : 'We sent you a verification link. Open it to finish setting up your account.'
+          )}
+        </CardDescription>
+      </CardHeader>
+
+      {(status === 'failed' || (status === 'pending' && !alreadyVerified)) && (
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <p className="text-sm text-muted-foreground">
+            Until your email is verified you can keep learning, but instructor and admin tools stay locked.
+            {!isAuthenticated && ' Sign in to have a new link sent.'}
+          </p>
+        </CardContent>
+      )}
+
+      <CardFooter className="flex flex-col space-y-2">
+        {canResend && (
+          <Button type="button" className="w-full" onClick={handleResend} disabled={isSending}>
+            {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+            Send a new link
+          </Button>
+        )}
+        <Link href={isAuthenticated ? '/dashboard' : '/auth/login'} className="w-full">
+          <Button type="button" variant="outline" className="w-full">
+            {isAuthenticated ? 'Go to dashboard' : 'Sign in'}
+          </Button>
+        </Link>
+      </CardFooter>
+    </Card>
+  );
+}
+
+export default EmailVerification;
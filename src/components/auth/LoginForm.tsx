@@ -3,13 +3,15 @@
 import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '../../hooks/useAuth';
+import type { TwoFactorChallenge } from '../../services/AuthService';
+import { TwoFactorSetup } from './TwoFactorSetup';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../ui/card';
 import { Alert, AlertDescription } from '../ui/alert';
 import { Checkbox } from '../ui/checkbox';
-import { Eye, EyeOff, Loader2, Mail, Lock } from 'lucide-react';
+import { Eye, EyeOff, Loader2, Mail, Lock, ShieldCheck } from 'lucide-react';
 import Link from 'next/link';
 import { toast } from 'sonner';
 
@@ -28,10 +30,23 @@ export function LoginForm({ redirectTo = '/dashboard', onSuccess, className }: L
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [secondFactor, setSecondFactor] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
-  const { login } = useAuth();
+  const { login, verifyTwoFactor } = useAuth();
   const router = useRouter();
 
+  const finishLogin = () => {
+    toast.success('Login successful!');
+
+    if (onSuccess) {
+      onSuccess();
+    } else {
+      router.push(redirectTo);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -44,14 +59,10 @@ export function LoginForm({ redirectTo = '/dashboard', onSuccess, className }: L
         rememberMe: formData.rememberMe
       });
 
-      if (result.success) {
-        toast.success('Login successful!');
-        
-        if (onSuccess) {
-          onSuccess();
-        } else {
-          router.push(redirectTo);
-        }
+      if (result.challenge) {
+        setChallenge(result.challenge);
+      } else if (result.success) {
+        finishLogin();
       } else {
         setError(result.error || 'Login failed');
         toast.error(result.error || 'Login failed');
@@ -65,6 +76,34 @@ export function LoginForm({ redirectTo = '/dashboard', onSuccess, className }: L
     }
   };
 
+  const handleSecondFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const result = await verifyTwoFactor(
+        challenge,
+        useRecoveryCode ? { recoveryCode: secondFactor } : { code: secondFactor }
+      );
+      if (result.success) {
+        finishLogin();
+      } else {
+        setError(result.error || 'Verification failed');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const restartLogin = () => {
+    setChallenge(null);
+    setSecondFactor('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
   const handleInputChange = (field: keyof typeof formData) => (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({
       ...prev,
@@ -80,6 +119,101 @@ export function LoginForm({ redirectTo = '/dashboard', onSuccess, className }: L
     }));
   };
 
+  if (challenge?.purpose === 'setup') {
+    return (
+      <Card className={`w-full max-w-md mx-auto ${className}`}>
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">
+            Set Up Two-Factor Authentication
+          </CardTitle>
+          <CardDescription className="text-center">
+            Your role requires a code from an authenticator app as well as your password
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TwoFactorSetup challenge={challenge} onComplete={finishLogin} onCancel={restartLogin} />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (challenge) {
+    return (
+      <Card className={`w-full max-w-md mx-auto ${className}`}>
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">
+            Two-Factor Authentication
+          </CardTitle>
+          <CardDescription className="text-center">
+            {useRecoveryCode
+              ? 'Enter one of your recovery codes'
+              : 'Enter the 6-digit code from your authenticator app'}
+          </CardDescription>
+        </CardHeader>
+
+        <form onSubmit={handleSecondFactorSubmit}>
+          <CardContent className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="secondFactor">{useRecoveryCode ? 'Recovery code' : 'Authentication code'}</Label>
+              <div className="relative">
+                <ShieldCheck className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="secondFactor"
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                  value={secondFactor}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSecondFactor(e.target.value)}
+                  className="pl-10"
+                  required
+                  autoFocus
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
+
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="px-0"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setSecondFactor('');
+                setError('');
+              }}
+              disabled={isLoading}
+            >
+              {useRecoveryCode ? 'Use your authenticator app instead' : 'Lost your phone? Use a recovery code'}
+            </Button>
+          </CardContent>
+
+          <CardFooter className="flex flex-col space-y-4">
+            <Button type="submit" className="w-full" disabled={isLoading || !secondFactor}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                'Verify'
+              )}
+            </Button>
+            <Button type="button" variant="outline" className="w-full" onClick={restartLogin} disabled={isLoading}>
+              Back to sign in
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    );
+  }
+
   return (
     <Card className={`w-full max-w-md mx-auto ${className}`}>
       <CardHeader className="space-y-1">
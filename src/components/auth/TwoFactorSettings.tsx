@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import authService, { TwoFactorStatus } from '../../services/AuthService';
+import { RecoveryCodes, TwoFactorSetup } from './TwoFactorSetup';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Badge } from '../ui/badge';
+import { Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+
+type PendingAction = 'disable' | 'recovery-codes';
+
+/** Two-factor status and controls for the profile's security tab */
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isSettingUp, setIsSettingUp] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await authService.getTwoFactorStatus());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor settings');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const closeAction = () => {
+    setPendingAction(null);
+    setCode('');
+    setError('');
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    // Codes from the app are digits; anything else is taken as a recovery code
+    const answer = /^\d{6}$/.test(code.trim()) ? { code: code.trim() } : { recoveryCode: code };
+    try {
+      if (pendingAction === 'disable') {
+        await authService.disableTwoFactor(answer);
+        toast.success('Two-factor authentication is off');
+      } else {
+        setRecoveryCodes(await authService.regenerateRecoveryCodes(answer));
+        toast.success('New recovery codes generated');
+      }
+      closeAction();
+      await loadStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (!status) {
+      return error ? null : (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      );
+    }
+
+    if (isSettingUp) {
+      return (
+        <TwoFactorSetup
+          onComplete={() => {
+            setIsSettingUp(false);
+            loadStatus();
+          }}
+          onCancel={() => setIsSettingUp(false)}
+        />
+      );
+    }
+
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4">
+          <RecoveryCodes codes={recoveryCodes} />
+          <Button type="button" onClick={() => setRecoveryCodes(null)}>
+            Done
+          </Button>
+        </div>
+      );
+    }
+
+    if (pendingAction) {
+      return (
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-confirm-code">
+              Enter a code from your authenticator app or a recovery code
+            </Label>
+            <Input
+              id="two-factor-confirm-code"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+              disabled={isLoading}
+              autoFocus
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={closeAction} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant={pendingAction === 'disable' ? 'destructive' : 'default'}
+              disabled={isLoading || !code.trim()}
+            >
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingAction === 'disable' ? 'Turn off' : 'Generate new codes'}
+            </Button>
+          </div>
+        </form>
+      );
+    }
+
+    if (!status.enabled) {
+      return (
+        <div className="space-y-4">
+          {status.required && (
+            <Alert>
+              <AlertDescription>Your role requires two-factor authentication.</AlertDescription>
+            </Alert>
+          )}
+          <Button type="button" onClick={() => setIsSettingUp(true)}>
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Set up two-factor authentication
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+          {status.recoveryCodesRemaining < 3 && ' Generate new ones before you run out.'}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" onClick={() => setPendingAction('recovery-codes')}>
+            Generate new recovery codes
+          </Button>
+          {!status.required && (
+            <Button type="button" variant="outline" onClick={() => setPendingAction('disable')}>
+              <ShieldOff className="mr-2 h-4 w-4" />
+              Turn off
+            </Button>
+          )}
+        </div>
+        {status.required && (
+          <p className="text-xs text-muted-foreground">
+            Your role requires two-factor authentication, so it cannot be turned off.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          {status && (
+            <Badge variant={status.enabled ? 'default' : 'secondary'}>
+              {status.enabled ? 'On' : 'Off'}
+            </Badge>
+          )}
+        </div>
+        <CardDescription>
+          Ask for a code from your phone as well as your password when you sign in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {renderBody()}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default TwoFactorSettings;
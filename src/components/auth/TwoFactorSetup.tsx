@@ -0,0 +1,187 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import authService, { TwoFactorChallenge, TwoFactorEnrollment } from '../../services/AuthService';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Copy, Download, KeyRound, Loader2, Smartphone } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+/** Recovery codes are shown once, so this offers to copy and download them */
+export function RecoveryCodes({ codes }: RecoveryCodesProps) {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Could not copy the codes; select and copy them instead');
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`Tahitian Tutor recovery codes\n\n${text}\n`], { type: 'text/plain' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'tahitian-tutor-recovery-codes.txt';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Alert>
+        <KeyRound className="h-4 w-4" />
+        <AlertDescription>
+          Keep these recovery codes somewhere safe. Each one signs you in once if you lose your phone.
+          They will not be shown again.
+        </AlertDescription>
+      </Alert>
+      <ul className="grid grid-cols-2 gap-2 rounded border p-3 font-mono text-sm">
+        {codes.map(code => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface TwoFactorSetupProps {
+  /** A login's `setup` challenge; without one the signed-in user enrolls */
+  challenge?: TwoFactorChallenge;
+  /** Called once the codes have been saved */
+  onComplete: () => void;
+  onCancel?: () => void;
+}
+
+export function TwoFactorSetup({ challenge, onComplete, onCancel }: TwoFactorSetupProps) {
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    authService.startTwoFactorSetup(challenge)
+      .then(result => {
+        if (!cancelled) setEnrollment(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not start two-factor setup');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [challenge]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      setRecoveryCodes(await authService.enableTwoFactor(code, challenge));
+      toast.success('Two-factor authentication is on');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not enable two-factor authentication');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodes codes={recoveryCodes} />
+        <Button type="button" className="w-full" onClick={onComplete}>
+          I have saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!enrollment && !error && (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      )}
+
+      {enrollment && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Add an account in an authenticator app such as Google Authenticator, 1Password or Aegis.
+            On this device you can{' '}
+            <a href={enrollment.otpauthUri} className="text-primary underline">
+              open it in the app
+            </a>
+            ; elsewhere, enter this key:
+          </p>
+          <div className="flex items-center gap-2 rounded border p-3">
+            <Smartphone className="h-4 w-4 text-muted-foreground" />
+            <code className="break-all font-mono text-sm">{enrollment.secret.match(/.{1,4}/g)?.join(' ')}</code>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-setup-code">Then enter the 6-digit code it shows</Label>
+            <Input
+              id="two-factor-setup-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              value={code}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              disabled={isLoading}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="flex gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isLoading}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" className="flex-1" disabled={isLoading || !enrollment || code.length !== 6}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            'Turn on two-factor authentication'
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default TwoFactorSetup;
@@ -13,6 +13,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar';
 import { Badge } from '../ui/badge';
 import { Separator } from '../ui/separator';
+import { TwoFactorSettings } from './TwoFactorSettings';
+import { DeviceSessions } from './DeviceSessions';
 import { 
   User, 
   Mail, 
@@ -423,7 +425,7 @@ export function UserProfile({ userId, className }: UserProfileProps) {
             </Card>
           </TabsContent>
           
-          <TabsContent value="security">
+          <TabsContent value="security" className="space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle>Change Password</CardTitle>
@@ -574,6 +576,10 @@ export function UserProfile({ userId, className }: UserProfileProps) {
                 </CardFooter>
               </form>
             </Card>
+
+            <TwoFactorSettings />
+
+            <DeviceSessions />
           </TabsContent>
         </Tabs>
       ) : (
@@ -1,7 +1,9 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../../hooks/useAuth';
+import { useUserProgress } from '../../hooks/useUserProgress';
+import { useGamification } from '../../hooks/useGamification';
 import { useAuthorization } from '../../hooks/useAuthorization';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
@@ -13,7 +15,6 @@ import { Alert, AlertDescription } from '../ui/alert';
 import {
   BookOpen,
   Trophy,
-  Clock,
   TrendingUp,
   Calendar,
   Star,
@@ -32,17 +33,11 @@ import {
   Loader2
 } from 'lucide-react';
 import { toast } from 'sonner';
-
-interface DashboardStats {
-  totalLessons: number;
-  completedLessons: number;
-  currentStreak: number;
-  totalPoints: number;
-  weeklyGoal: number;
-  weeklyProgress: number;
-  averageScore: number;
-  timeSpent: number;
-}
+import Link from 'next/link';
+import { reviewScheduler } from '../../lib/srs/ReviewScheduler';
+import { jsonDataService } from '../../lib/data/JSONDataService';
+import { summarizeProgress } from '../../lib/progress/ProgressModel';
+import type { Lesson, WeeklyGoals } from '../../types';
 
 interface RecentActivity {
   id: string;
@@ -55,177 +50,110 @@ interface RecentActivity {
 }
 
 interface LearningGoal {
-  id: string;
+  id: keyof WeeklyGoals;
   title: string;
   description: string;
   target: number;
   current: number;
   deadline: string;
-  type: 'lessons' | 'points' | 'streak' | 'time';
+  type: 'lessons' | 'points' | 'days';
 }
 
-interface Achievement {
-  id: string;
-  title: string;
-  description: string;
-  icon: string;
-  unlockedAt?: string;
-  progress?: number;
-  target?: number;
-}
+const GOAL_LABELS: Record<keyof WeeklyGoals, { title: string; unit: string; type: LearningGoal['type'] }> = {
+  lessons: { title: 'Weekly Lessons', unit: 'lessons', type: 'lessons' },
+  xp: { title: 'Weekly XP', unit: 'XP', type: 'points' },
+  activeDays: { title: 'Study Days', unit: 'days', type: 'days' }
+};
 
 export function UserDashboard() {
   const { user, isLoading: authLoading } = useAuth();
   const { hasRole } = useAuthorization();
   
-  const [isLoading, setIsLoading] = useState(true);
-  const [stats, setStats] = useState<DashboardStats>({
-    totalLessons: 0,
-    completedLessons: 0,
-    currentStreak: 0,
-    totalPoints: 0,
-    weeklyGoal: 0,
-    weeklyProgress: 0,
-    averageScore: 0,
-    timeSpent: 0
-  });
-  
-  const [recentActivity, setRecentActivity] = useState<RecentActivity[]>([]);
-  const [learningGoals, setLearningGoals] = useState<LearningGoal[]>([]);
-  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const { progress, isLoading: progressLoading } = useUserProgress();
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const {
+    summary,
+    activities,
+    settings,
+    isLoading: gamificationLoading,
+    updateWeeklyGoals
+  } = useGamification(lessons, progress);
+  const [goalDraft, setGoalDraft] = useState<WeeklyGoals | null>(null);
+  const [isSavingGoals, setIsSavingGoals] = useState(false);
   const [activeTab, setActiveTab] = useState('overview');
+  const [reviewsDue, setReviewsDue] = useState(0);
 
-  // Mock data - In real app, this would come from API
   useEffect(() => {
-    const loadDashboardData = async () => {
-      setIsLoading(true);
-      
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Mock stats
-      setStats({
-        totalLessons: 45,
-        completedLessons: 28,
-        currentStreak: 7,
-        totalPoints: 2840,
-        weeklyGoal: 5,
-        weeklyProgress: 3,
-        averageScore: 87,
-        timeSpent: 1260 // minutes
-      });
-      
-      // Mock recent activity
-      setRecentActivity([
-        {
-          id: '1',
-          type: 'lesson',
-          title: 'Basic Greetings',
-          description: 'Completed lesson with 95% accuracy',
-          timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-          score: 95,
-          points: 120
-        },
-        {
-          id: '2',
-          type: 'achievement',
-          title: 'Week Warrior',
-          description: 'Completed 7 days in a row',
-          timestamp: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString(),
-          points: 200
-        },
-        {
-          id: '3',
-          type: 'quiz',
-          title: 'Vocabulary Quiz',
-          description: 'Scored 88% on intermediate vocabulary',
-          timestamp: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-          score: 88,
-          points: 80
-        },
-        {
-          id: '4',
-          type: 'milestone',
-          title: '1000 Points',
-          description: 'Reached 1000 total points milestone',
-          timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-          points: 100
-        }
-      ]);
-      
-      // Mock learning goals
-      setLearningGoals([
-        {
-          id: '1',
-          title: 'Weekly Lessons',
-          description: 'Complete 5 lessons this week',
-          target: 5,
-          current: 3,
-          deadline: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString(),
-          type: 'lessons'
-        },
-        {
-          id: '2',
-          title: 'Monthly Points',
-          description: 'Earn 1000 points this month',
-          target: 1000,
-          current: 640,
-          deadline: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString(),
-          type: 'points'
-        },
-        {
-          id: '3',
-          title: 'Study Streak',
-          description: 'Maintain a 14-day study streak',
-          target: 14,
-          current: 7,
-          deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-          type: 'streak'
-        }
-      ]);
-      
-      // Mock achievements
-      setAchievements([
-        {
-          id: '1',
-          title: 'First Steps',
-          description: 'Complete your first lesson',
-          icon: '🎯',
-          unlockedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
-        },
-        {
-          id: '2',
-          title: 'Week Warrior',
-          description: 'Study for 7 consecutive days',
-          icon: '🔥',
-          unlockedAt: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString()
-        },
-        {
-          id: '3',
-          title: 'Perfect Score',
-          description: 'Get 100% on any lesson',
-          icon: '⭐',
-          progress: 95,
-          target: 100
-        },
-        {
-          id: '4',
-          title: 'Speed Learner',
-          description: 'Complete 10 lessons in one day',
-          icon: '⚡',
-          progress: 3,
-          target: 10
-        }
-      ]);
-      
-      setIsLoading(false);
-    };
-    
-    if (user) {
-      loadDashboardData();
-    }
+    if (!user) return;
+    reviewScheduler.getStats(user.id)
+      .then(reviewStats => setReviewsDue(reviewStats.dueToday))
+      .catch(error => console.error('Failed to load review stats:', error));
   }, [user]);
 
+  useEffect(() => {
+    jsonDataService.initialize()
+      .then(() => jsonDataService.getLessons())
+      .then(setLessons)
+      .catch(error => console.error('Failed to load lessons:', error));
+  }, []);
+
+  const overview = useMemo(() => summarizeProgress(lessons, progress), [lessons, progress]);
+
+  // Exercise runs and unlocked achievements, most recent first
+  const recentActivity = useMemo<RecentActivity[]>(() => {
+    const lessonsById = new Map(lessons.map(lesson => [lesson.id, lesson]));
+    const runs = activities.map((activity): RecentActivity => {
+      const lesson = lessonsById.get(activity.lessonId);
+      return {
+        id: activity.id,
+        type: activity.sectionKind === 'Assessment' ? 'quiz' : 'lesson',
+        title: lesson ? lesson.title.en ?? lesson.title.fr : `Lesson ${activity.lessonId}`,
+        description: `${activity.completed ? 'Completed' : 'Practised'} ${activity.sectionKind.toLowerCase()} with ${activity.score}% accuracy`,
+        timestamp: new Date(activity.occurredAt).toISOString(),
+        score: activity.score,
+        points: activity.xp
+      };
+    });
+    const unlocks = (summary?.achievements ?? [])
+      .filter(achievement => achievement.unlockedAt !== undefined)
+      .map((achievement): RecentActivity => ({
+        id: `achievement:${achievement.id}`,
+        type: 'achievement',
+        title: achievement.title,
+        description: achievement.description,
+        timestamp: new Date(achievement.unlockedAt!).toISOString()
+      }));
+
+    return [...runs, ...unlocks].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }, [lessons, activities, summary]);
+
+  const learningGoals = useMemo<LearningGoal[]>(() => (summary?.weeklyGoals ?? []).map(goal => ({
+    id: goal.goal,
+    title: GOAL_LABELS[goal.goal].title,
+    description: `Reach ${goal.target} ${GOAL_LABELS[goal.goal].unit} this week`,
+    target: goal.target,
+    current: goal.current,
+    deadline: `${goal.weekEnd}T23:59:59`,
+    type: GOAL_LABELS[goal.goal].type
+  })), [summary]);
+
+  const lessonGoal = learningGoals.find(goal => goal.id === 'lessons');
+  const xpGoal = learningGoals.find(goal => goal.id === 'xp');
+
+  const handleSaveGoals = async () => {
+    if (!goalDraft) return;
+    try {
+      setIsSavingGoals(true);
+      await updateWeeklyGoals(goalDraft);
+      setGoalDraft(null);
+      toast.success('Weekly goals updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update weekly goals');
+    } finally {
+      setIsSavingGoals(false);
+    }
+  };
+
   const getActivityIcon = (type: string) => {
     switch (type) {
       case 'lesson': return <BookOpen className="h-4 w-4" />;
@@ -246,12 +174,6 @@ export function UserDashboard() {
     }
   };
 
-  const formatTime = (minutes: number) => {
-    const hours = Math.floor(minutes / 60);
-    const mins = minutes % 60;
-    return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
-  };
-
   const formatTimeAgo = (timestamp: string) => {
     const now = new Date();
     const time = new Date(timestamp);
@@ -267,13 +189,12 @@ export function UserDashboard() {
     switch (type) {
       case 'lessons': return <BookOpen className="h-4 w-4" />;
       case 'points': return <Star className="h-4 w-4" />;
-      case 'streak': return <Zap className="h-4 w-4" />;
-      case 'time': return <Clock className="h-4 w-4" />;
+      case 'days': return <Calendar className="h-4 w-4" />;
       default: return <Target className="h-4 w-4" />;
     }
   };
 
-  if (authLoading || isLoading) {
+  if (authLoading || progressLoading || gamificationLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <Loader2 className="h-8 w-8 animate-spin" />
@@ -324,12 +245,12 @@ export function UserDashboard() {
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Lessons</p>
                 <p className="text-2xl font-bold">
-                  {stats.completedLessons}/{stats.totalLessons}
+                  {overview.completedLessons}/{overview.totalLessons}
                 </p>
               </div>
             </div>
             <Progress 
-              value={(stats.completedLessons / stats.totalLessons) * 100} 
+              value={overview.totalLessons > 0 ? (overview.completedLessons / overview.totalLessons) * 100 : 0}
               className="mt-3" 
             />
           </CardContent>
@@ -341,11 +262,15 @@ export function UserDashboard() {
               <Zap className="h-5 w-5 text-orange-600" />
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Current Streak</p>
-                <p className="text-2xl font-bold">{stats.currentStreak} days</p>
+                <p className="text-2xl font-bold">{summary?.streak.current ?? 0} days</p>
               </div>
             </div>
             <p className="text-xs text-muted-foreground mt-2">
-              Keep it up! 🔥
+              {summary?.streak.activeToday
+                ? 'Keep it up! 🔥'
+                : summary?.streak.current
+                  ? 'Study today to keep your streak'
+                  : `Longest: ${summary?.streak.longest ?? 0} days`}
             </p>
           </CardContent>
         </Card>
@@ -355,12 +280,12 @@ export function UserDashboard() {
             <div className="flex items-center space-x-2">
               <Star className="h-5 w-5 text-yellow-600" />
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Total Points</p>
-                <p className="text-2xl font-bold">{stats.totalPoints.toLocaleString()}</p>
+                <p className="text-sm font-medium text-muted-foreground">Total XP</p>
+                <p className="text-2xl font-bold">{(summary?.totalXp ?? 0).toLocaleString()}</p>
               </div>
             </div>
             <p className="text-xs text-muted-foreground mt-2">
-              Avg: {stats.averageScore}%
+              Avg: {overview.averageScore}%
             </p>
           </CardContent>
         </Card>
@@ -368,14 +293,14 @@ export function UserDashboard() {
         <Card>
           <CardContent className="p-6">
             <div className="flex items-center space-x-2">
-              <Clock className="h-5 w-5 text-green-600" />
+              <TrendingUp className="h-5 w-5 text-green-600" />
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Time Spent</p>
-                <p className="text-2xl font-bold">{formatTime(stats.timeSpent)}</p>
+                <p className="text-sm font-medium text-muted-foreground">This Week</p>
+                <p className="text-2xl font-bold">{(summary?.weeklyXp ?? 0).toLocaleString()} XP</p>
               </div>
             </div>
             <p className="text-xs text-muted-foreground mt-2">
-              This month
+              Goal: {xpGoal?.target ?? 0} XP
             </p>
           </CardContent>
         </Card>
@@ -400,20 +325,24 @@ export function UserDashboard() {
                   <span>Weekly Goal</span>
                 </CardTitle>
                 <CardDescription>
-                  Complete {stats.weeklyGoal} lessons this week
+                  Complete {lessonGoal?.target ?? 0} lessons this week
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span>{stats.weeklyProgress} of {stats.weeklyGoal} lessons</span>
-                    <span>{Math.round((stats.weeklyProgress / stats.weeklyGoal) * 100)}%</span>
+                {lessonGoal && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span>{lessonGoal.current} of {lessonGoal.target} lessons</span>
+                      <span>{Math.min(100, Math.round((lessonGoal.current / lessonGoal.target) * 100))}%</span>
+                    </div>
+                    <Progress value={Math.min(100, (lessonGoal.current / lessonGoal.target) * 100)} />
+                    <p className="text-xs text-muted-foreground">
+                      {lessonGoal.current >= lessonGoal.target
+                        ? 'Goal reached this week 🎉'
+                        : `${lessonGoal.target - lessonGoal.current} lessons remaining`}
+                    </p>
                   </div>
-                  <Progress value={(stats.weeklyProgress / stats.weeklyGoal) * 100} />
-                  <p className="text-xs text-muted-foreground">
-                    {stats.weeklyGoal - stats.weeklyProgress} lessons remaining
-                  </p>
-                </div>
+                )}
               </CardContent>
             </Card>
             
@@ -430,10 +359,15 @@ export function UserDashboard() {
                   <PlayCircle className="h-4 w-4 mr-2" />
                   Continue Last Lesson
                 </Button>
-                <Button variant="outline" className="w-full justify-start">
-                  <RotateCcw className="h-4 w-4 mr-2" />
-                  Review Vocabulary
-                </Button>
+                <Link href="/review" className="block">
+                  <Button variant="outline" className="w-full justify-start">
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Review Vocabulary
+                    {reviewsDue > 0 && (
+                      <Badge variant="secondary" className="ml-auto">{reviewsDue} due</Badge>
+                    )}
+                  </Button>
+                </Link>
                 <Button variant="outline" className="w-full justify-start">
                   <Target className="h-4 w-4 mr-2" />
                   Take Practice Quiz
@@ -465,7 +399,7 @@ export function UserDashboard() {
                         </span>
                       </div>
                       <p className="text-xs text-muted-foreground">{activity.description}</p>
-                      {activity.points && (
+                      {!!activity.points && (
                         <Badge variant="secondary" className="mt-1">
                           +{activity.points} points
                         </Badge>
@@ -495,9 +429,9 @@ export function UserDashboard() {
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
                       <span>{goal.current} of {goal.target}</span>
-                      <span>{Math.round((goal.current / goal.target) * 100)}%</span>
+                      <span>{Math.min(100, Math.round((goal.current / goal.target) * 100))}%</span>
                     </div>
-                    <Progress value={(goal.current / goal.target) * 100} />
+                    <Progress value={Math.min(100, (goal.current / goal.target) * 100)} />
                     <p className="text-xs text-muted-foreground">
                       Due: {new Date(goal.deadline).toLocaleDateString()}
                     </p>
@@ -506,28 +440,76 @@ export function UserDashboard() {
               </Card>
             ))}
           </div>
+
+          {/* Goal settings */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Settings className="h-5 w-5" />
+                <span>Weekly Targets</span>
+              </CardTitle>
+              <CardDescription>
+                Weeks run Monday to Sunday in your timezone
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {settings && (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {(Object.keys(GOAL_LABELS) as (keyof WeeklyGoals)[]).map(goal => (
+                      <label key={goal} className="space-y-1 text-sm">
+                        <span className="font-medium">{GOAL_LABELS[goal].title}</span>
+                        <input
+                          type="number"
+                          min={1}
+                          step={1}
+                          value={(goalDraft ?? settings.weeklyGoals)[goal]}
+                          onChange={event => setGoalDraft({
+                            ...(goalDraft ?? settings.weeklyGoals),
+                            [goal]: Number(event.target.value)
+                          })}
+                          className="w-full rounded-md border border-gray-300 px-3 py-2"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="outline" size="sm" disabled={!goalDraft} onClick={() => setGoalDraft(null)}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" disabled={!goalDraft || isSavingGoals} onClick={handleSaveGoals}>
+                      {isSavingGoals && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Save Goals
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
         
         <TabsContent value="achievements" className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {achievements.map((achievement) => (
-              <Card key={achievement.id} className={achievement.unlockedAt ? 'border-green-200' : 'opacity-75'}>
+            {(summary?.achievements ?? []).map((achievement) => (
+              <Card key={achievement.id} className={achievement.unlocked ? 'border-green-200' : 'opacity-75'}>
                 <CardContent className="p-6">
                   <div className="text-center space-y-2">
                     <div className="text-4xl">{achievement.icon}</div>
                     <h3 className="font-semibold">{achievement.title}</h3>
                     <p className="text-xs text-muted-foreground">{achievement.description}</p>
                     
-                    {achievement.unlockedAt ? (
+                    {achievement.unlocked ? (
                       <div className="flex items-center justify-center space-x-1 text-green-600">
                         <CheckCircle className="h-4 w-4" />
-                        <span className="text-xs">Unlocked</span>
+                        <span className="text-xs">
+                          Unlocked {new Date(achievement.unlockedAt!).toLocaleDateString()}
+                        </span>
                       </div>
-                    ) : achievement.progress !== undefined ? (
+                    ) : achievement.current > 0 ? (
                       <div className="space-y-1">
-                        <Progress value={(achievement.progress! / achievement.target!) * 100} />
+                        <Progress value={(achievement.current / achievement.target) * 100} />
                         <p className="text-xs text-muted-foreground">
-                          {achievement.progress} / {achievement.target}
+                          {achievement.current} / {achievement.target}
                         </p>
                       </div>
                     ) : (
@@ -564,12 +546,12 @@ export function UserDashboard() {
                       </div>
                       <p className="text-sm text-muted-foreground mb-2">{activity.description}</p>
                       <div className="flex items-center space-x-2">
-                        {activity.score && (
+                        {activity.score !== undefined && (
                           <Badge variant="outline">
                             Score: {activity.score}%
                           </Badge>
                         )}
-                        {activity.points && (
+                        {!!activity.points && (
                           <Badge variant="secondary">
                             +{activity.points} points
                           </Badge>
@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { BookOpen, FileText } from 'lucide-react';
+import Input from '@/components/ui/Input';
+import { jsonDataService } from '@/lib/data/JSONDataService';
+import { searchService, type ContentSearchResult } from '@/lib/data/SearchService';
+
+const MAX_RESULTS = 8;
+const SEARCH_DELAY_MS = 150;
+
+// Lessons are loaded into the search index once per page load, on first use
+let searchReady: Promise<void> | null = null;
+
+function ensureSearchReady(): Promise<void> {
+  if (!searchReady) {
+    searchReady = jsonDataService.initialize().catch(error => {
+      searchReady = null;
+      throw error;
+    });
+  }
+  return searchReady;
+}
+
+interface GlobalSearchProps {
+  className?: string;
+  onNavigate?: () => void;
+}
+
+/**
+ * Search box for vocabulary and lesson content. Results link straight to the
+ * section of the lesson where the word or passage appears.
+ */
+export function GlobalSearch({ className = '', onNavigate }: GlobalSearchProps) {
+  const router = useRouter();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ContentSearchResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setIsLoading(true);
+        await ensureSearchReady();
+        const matches = await searchService.searchContent(query, MAX_RESULTS);
+        if (!cancelled) {
+          setResults(matches);
+          setActiveIndex(matches.length > 0 ? 0 : -1);
+        }
+      } catch (error) {
+        console.error('Search failed:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const openResult = (result: ContentSearchResult) => {
+    setIsOpen(false);
+    setQuery('');
+    router.push(result.href);
+    onNavigate?.();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (results.length === 0 ? -1 : (index + 1) % results.length));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex(index => (results.length === 0 ? -1 : (index - 1 + results.length) % results.length));
+        break;
+      case 'Enter':
+        if (activeIndex >= 0 && results[activeIndex]) {
+          event.preventDefault();
+          openResult(results[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  const showResults = isOpen && query.trim() !== '';
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <Input
+        variant="search"
+        type="search"
+        value={query}
+        placeholder="Search words and lessons…"
+        ariaLabel="Search vocabulary and lessons"
+        role="combobox"
+        aria-expanded={showResults}
+        aria-controls="global-search-results"
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? `global-search-result-${activeIndex}` : undefined}
+        onChange={event => {
+          setQuery(event.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => {
+          setIsOpen(true);
+          ensureSearchReady().catch(() => {});
+        }}
+        onKeyDown={handleKeyDown}
+      />
+
+      {showResults && (
+        <ul
+          id="global-search-results"
+          role="listbox"
+          aria-label="Search results"
+          className="absolute z-50 mt-1 w-full min-w-[20rem] bg-white border border-gray-200 rounded-lg shadow-lg max-h-96 overflow-y-auto"
+        >
+          {results.length === 0 ? (
+            <li className="px-4 py-3 text-sm text-gray-500">
+              {isLoading ? 'Searching…' : 'No matching words or lessons'}
+            </li>
+          ) : (
+            results.map((result, index) => {
+              const Icon = result.kind === 'vocab' ? BookOpen : FileText;
+              return (
+                <li
+                  key={result.id}
+                  id={`global-search-result-${index}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  className={`flex items-start gap-3 px-4 py-2 cursor-pointer ${index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onMouseDown={event => {
+                    event.preventDefault();
+                    openResult(result);
+                  }}
+                >
+                  <Icon className="h-4 w-4 mt-1 text-gray-400 flex-shrink-0" aria-hidden="true" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{result.snippet}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {result.lessonTitle.fr} · {result.sectionTitle}
+                    </p>
+                  </div>
+                </li>
+              );
+            })
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
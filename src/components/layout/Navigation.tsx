@@ -29,9 +29,12 @@ import {
   Shield,
   Home,
   GraduationCap,
+  Bookmark,
+  HardDrive,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { LanguageSwitcher } from '../LanguageSwitcher';
+import { GlobalSearch } from './GlobalSearch';
 
 export function Navigation() {
   const { user, isAuthenticated, logout } = useAuth();
@@ -68,6 +71,12 @@ export function Navigation() {
       icon: BookOpen,
       show: isAuthenticated,
     },
+    {
+      name: 'Phrasebook',
+      href: '/phrasebook',
+      icon: Bookmark,
+      show: isAuthenticated,
+    },
     {
       name: 'Community',
       href: '/community',
@@ -123,6 +132,7 @@ export function Navigation() {
 
           {/* Language Switcher and User Menu */}
           <div className="flex items-center space-x-4">
+            {isAuthenticated && <GlobalSearch className="hidden md:block w-48 lg:w-64" />}
             <LanguageSwitcher variant="compact" />
             {isAuthenticated ? (
               <DropdownMenu>
@@ -163,6 +173,12 @@ export function Navigation() {
                       <span>Settings</span>
                     </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link href="/storage" className="flex items-center">
+                      <HardDrive className="mr-2 h-4 w-4" />
+                      <span>Offline storage</span>
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleLogout}>
                     <LogOut className="mr-2 h-4 w-4" />
@@ -206,6 +222,11 @@ export function Navigation() {
         {isMobileMenuOpen && (
           <div className="md:hidden">
             <div className="px-2 pt-2 pb-3 space-y-1 sm:px-3 border-t border-gray-200">
+              {isAuthenticated && (
+                <div className="px-1 pb-2">
+                  <GlobalSearch onNavigate={() => setIsMobileMenuOpen(false)} />
+                </div>
+              )}
               {visibleItems.map((item) => {
                 const Icon = item.icon;
                 return (
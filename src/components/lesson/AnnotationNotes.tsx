@@ -0,0 +1,96 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle, Trash2 } from 'lucide-react';
+import {
+  ANNOTATION_CATEGORY_LABELS,
+  DIALECT_LABELS,
+  type ResolvedAnnotation
+} from '@/lib/annotations/AnnotationAnchor';
+import type { AnnotationCategory } from '@/types/collaboration';
+import type { TextHighlight } from './HighlightedText';
+
+const HIGHLIGHT_CLASSES: Record<AnnotationCategory, string> = {
+  dialect: 'bg-purple-100 border-b-2 border-purple-400',
+  accuracy: 'bg-red-100 border-b-2 border-red-400',
+  cultural: 'bg-amber-100 border-b-2 border-amber-400'
+};
+
+const BADGE_CLASSES: Record<AnnotationCategory, string> = {
+  dialect: 'bg-purple-100 text-purple-800',
+  accuracy: 'bg-red-100 text-red-800',
+  cultural: 'bg-amber-100 text-amber-800'
+};
+
+function categoryLabel(entry: ResolvedAnnotation): string {
+  const { category, dialect } = entry.annotation;
+  if (!category) return 'Note';
+  return category === 'dialect' && dialect ? DIALECT_LABELS[dialect] : ANNOTATION_CATEGORY_LABELS[category];
+}
+
+/** Highlights for annotations found in the text; the focused one stands out */
+export function annotationHighlights(entries: ResolvedAnnotation[], focusedId?: string): TextHighlight[] {
+  return entries.flatMap(entry => (entry.range ? [{
+    id: entry.annotation.id,
+    start: entry.range.start,
+    end: entry.range.end,
+    className: `${HIGHLIGHT_CLASSES[entry.annotation.category ?? 'accuracy']} cursor-pointer ${entry.annotation.id === focusedId ? 'ring-2 ring-blue-400' : ''}`,
+    title: `${categoryLabel(entry)}: ${entry.annotation.text}`
+  }] : []));
+}
+
+interface AnnotationNotesProps {
+  entries: ResolvedAnnotation[];
+  focusedId?: string;
+  onFocus?: (id: string) => void;
+  onDelete?: (id: string) => void;
+}
+
+/** The notes attached to a lesson's text, with the words each is about */
+export const AnnotationNotes: React.FC<AnnotationNotesProps> = ({ entries, focusedId, onFocus, onDelete }) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <ul className="space-y-2" aria-label="Annotations">
+      {entries.map(entry => {
+        const { annotation } = entry;
+        return (
+          <li
+            key={annotation.id}
+            className={`text-sm rounded-md border p-2 ${annotation.id === focusedId ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+            onClick={onFocus ? () => onFocus(annotation.id) : undefined}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${BADGE_CLASSES[annotation.category ?? 'accuracy']}`}>
+                {categoryLabel(entry)}
+              </span>
+              {onDelete && (
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-red-600"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onDelete(annotation.id);
+                  }}
+                  aria-label="Delete annotation"
+                >
+                  <Trash2 className="w-4 h-4" aria-hidden="true" />
+                </button>
+              )}
+            </div>
+            <p className="mt-1 text-gray-500 italic" lang="ty">“{annotation.anchor?.quote.exact}”</p>
+            <p className="mt-1 text-gray-800">{annotation.text}</p>
+            {!entry.range && (
+              <p className="mt-1 text-xs text-amber-700 flex items-center">
+                <AlertTriangle className="w-3 h-3 mr-1" aria-hidden="true" />
+                The annotated words have been changed or removed
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default AnnotationNotes;
@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import { highlightSegments, type HighlightRange } from '@/lib/annotations/AnnotationAnchor';
+
+export interface TextHighlight extends HighlightRange {
+  className: string;
+  title?: string;
+}
+
+interface HighlightedTextProps {
+  text: string;
+  /** Where `text` starts in its source; highlights are in source offsets */
+  offset?: number;
+  highlights: TextHighlight[];
+  onHighlightClick?: (id: string) => void;
+}
+
+/**
+ * Text with highlighted ranges. Every piece carries `data-source-offset` so a
+ * selection in it can be mapped back to the source (see `selectionRange`).
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, offset = 0, highlights, onHighlightClick }) => (
+  <>
+    {highlightSegments(text, offset, highlights).map(segment => {
+      const highlight = highlights.find(candidate => candidate.id === segment.ids[segment.ids.length - 1]);
+      if (!highlight) {
+        return <span key={segment.offset} data-source-offset={segment.offset}>{segment.text}</span>;
+      }
+      return (
+        <mark
+          key={segment.offset}
+          data-source-offset={segment.offset}
+          className={highlight.className}
+          title={highlight.title}
+          onClick={onHighlightClick ? () => onHighlightClick(highlight.id) : undefined}
+        >
+          {segment.text}
+        </mark>
+      );
+    })}
+  </>
+);
+
+/** Offset in the source of a point in text rendered by `HighlightedText` */
+function sourceOffset(node: Node, offset: number): number | null {
+  if (node.nodeType !== Node.TEXT_NODE) return null;
+  const piece = node.parentElement?.closest<HTMLElement>('[data-source-offset]');
+  return piece ? Number(piece.dataset.sourceOffset) + offset : null;
+}
+
+/**
+ * The source range of the current selection, when it lies within a single
+ * element marked with `data-annotation-target`. Returns that attribute's value.
+ */
+export function selectionRange(selection: Selection | null): { target: string; start: number; end: number } | null {
+  if (!selection || selection.isCollapsed || !selection.anchorNode || !selection.focusNode) return null;
+
+  const container = (node: Node) => (node.nodeType === Node.TEXT_NODE ? node.parentElement : node as Element)
+    ?.closest<HTMLElement>('[data-annotation-target]');
+  const from = container(selection.anchorNode);
+  if (!from || from !== container(selection.focusNode)) return null;
+
+  const anchor = sourceOffset(selection.anchorNode, selection.anchorOffset);
+  const focus = sourceOffset(selection.focusNode, selection.focusOffset);
+  if (anchor === null || focus === null || anchor === focus) return null;
+
+  return { target: from.dataset.annotationTarget!, start: Math.min(anchor, focus), end: Math.max(anchor, focus) };
+}
+
+export default HighlightedText;
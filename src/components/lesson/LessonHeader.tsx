@@ -20,7 +20,7 @@ const LessonHeader: React.FC<LessonHeaderProps> = ({
   showBackButton = true
 }) => {
   const getTitle = (title: TitleTriplet): string => {
-    return title[currentLanguage] || title.fr || title.en;
+    return title[currentLanguage] || title.fr;
   };
 
   const getLevelColor = (level: string): string => {
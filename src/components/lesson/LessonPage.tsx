@@ -1,50 +1,174 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { Lesson, UserProgress, LessonSection } from '@/types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Lesson, UserProgress, LessonSection, ExerciseResult, VocabItem } from '@/types';
+import type { Annotation } from '@/types/collaboration';
 import LessonHeader from './LessonHeader';
 import TabNavigation from './TabNavigation';
 import VocabularyTab from './VocabularyTab';
-import ProgressDrawer from './ProgressDrawer';
+import ProgressDrawer, { type ProgressSection } from './ProgressDrawer';
+import ExerciseRunner from './exercises/ExerciseRunner';
+import MarkdownContent from './MarkdownContent';
+import { AnnotationNotes, annotationHighlights } from './AnnotationNotes';
+import { buildSectionProgress, isGradedSection } from '@/lib/exercises/ExerciseEngine';
+import { summarizeLessonProgress } from '@/lib/progress/ProgressModel';
+import { annotationsAt, resolveAnnotations, vocabKey } from '@/lib/annotations/AnnotationAnchor';
 import Card, { CardContent } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
-import { BookOpen, Target, Users, Award, RotateCcw } from 'lucide-react';
+import { BookOpen, Target, Users, Award, RotateCcw, ClipboardCheck } from 'lucide-react';
 
 interface LessonPageProps {
   lesson: Lesson;
-  userProgress?: UserProgress;
-  onProgressUpdate?: (progress: UserProgress) => void;
+  userId: string;
+  /** The user's progress for this lesson, one entry per attempted section */
+  userProgress?: UserProgress[];
+  /** Called after each exercise run with the updated section progress, the run's results and the progress before it */
+  onProgressUpdate?: (progress: UserProgress, results: ExerciseResult[], previous?: UserProgress) => void;
+  onAddToPhrasebook?: (item: VocabItem) => void;
+  /** Reviewers' public annotations on the lesson's text */
+  annotations?: Annotation[];
+}
+
+const SECTION_TABS = ['objectives', 'vocabulary', 'practice', 'assessment', 'culture', 'review'];
+
+/** The objectives the normalizer writes as a Markdown list into the Objectives section */
+function sectionObjectives(section?: LessonSection): string[] {
+  return (section?.contentMd ?? '')
+    .split('\n')
+    .map(line => line.match(/^\s*[-*]\s+(.+)$/)?.[1]?.trim())
+    .filter((objective): objective is string => Boolean(objective));
 }
 
 const LessonPage: React.FC<LessonPageProps> = ({
   lesson,
-  userProgress,
-  onProgressUpdate
+  userId,
+  userProgress = [],
+  onProgressUpdate,
+  onAddToPhrasebook,
+  annotations = []
 }) => {
   const [activeTab, setActiveTab] = useState('objectives');
   const [showProgress, setShowProgress] = useState(false);
-  const [currentLanguage, setCurrentLanguage] = useState<'french' | 'tahitian'>('french');
-
-  // Calculate overall progress
-  const calculateProgress = () => {
-    if (!userProgress) return 0;
-    const totalSections = lesson.sections.length;
-    const completedSections = lesson.sections.filter(section => 
-      userProgress.sectionProgress[section.id]?.completed
-    ).length;
-    return totalSections > 0 ? (completedSections / totalSections) * 100 : 0;
+  const [currentLanguage, setCurrentLanguage] = useState<'fr' | 'tah' | 'en'>('fr');
+  const [showTranslations, setShowTranslations] = useState(true);
+  const [showPhonetics, setShowPhonetics] = useState(false);
+  const [focusedAnnotationId, setFocusedAnnotationId] = useState<string>();
+
+  // Search results deep-link to a section as /lessons/<slug>#<section kind>
+  useEffect(() => {
+    const openSectionFromHash = () => {
+      const tab = window.location.hash.slice(1).toLowerCase();
+      if (SECTION_TABS.includes(tab)) {
+        setActiveTab(tab);
+      }
+    };
+
+    openSectionFromHash();
+    window.addEventListener('hashchange', openSectionFromHash);
+    return () => window.removeEventListener('hashchange', openSectionFromHash);
+  }, [lesson.slug]);
+
+  const progressSummary = summarizeLessonProgress(lesson, userProgress);
+
+  const progressSections: ProgressSection[] = lesson.sections.map(section => {
+    const entry = userProgress.find(p => p.sectionKind === section.kind);
+    return {
+      kind: section.kind,
+      title: section.title,
+      completed: entry?.completed ?? false,
+      score: entry && entry.attempts > 0 ? entry.score : undefined
+    };
+  });
+
+  const currentSectionKind = lesson.sections.find(section => section.kind.toLowerCase() === activeTab)?.kind
+    ?? 'Objectives';
+
+  const findSection = (kind: LessonSection['kind']) =>
+    lesson.sections.find(section => section.kind === kind);
+
+  // Vocabulary lives in the sections; the tab lists it all
+  const vocabulary = useMemo(() => lesson.sections.flatMap(section => section.vocab ?? []), [lesson]);
+  const objectives = sectionObjectives(findSection('Objectives'));
+
+  const resolvedAnnotations = useMemo(() => resolveAnnotations(lesson, annotations), [lesson, annotations]);
+
+  const vocabAnnotations = (item: VocabItem) => resolvedAnnotations.filter(({ range }) => {
+    if (!range || range.vocabIndex === undefined) return false;
+    const annotated = lesson.sections[range.sectionIndex].vocab?.[range.vocabIndex];
+    return annotated !== undefined && vocabKey(annotated) === vocabKey(item);
+  });
+
+  /** A section's text with the annotations on it, or null if it has none */
+  const renderSectionText = (kind: LessonSection['kind']) => {
+    const sectionIndex = lesson.sections.findIndex(section => section.kind === kind);
+    const markdown = lesson.sections[sectionIndex]?.contentMd;
+    if (!markdown) return null;
+
+    const entries = annotationsAt(resolvedAnnotations, { sectionIndex, field: 'contentMd' });
+    return (
+      <div className="space-y-4">
+        <MarkdownContent
+          markdown={markdown}
+          className="prose max-w-none text-gray-700 leading-relaxed"
+          highlights={annotationHighlights(entries, focusedAnnotationId)}
+          onHighlightClick={setFocusedAnnotationId}
+        />
+        <AnnotationNotes entries={entries} focusedId={focusedAnnotationId} onFocus={setFocusedAnnotationId} />
+      </div>
+    );
+  };
+
+  const handleExercisesComplete = (section: LessonSection, results: ExerciseResult[]) => {
+    if (!isGradedSection(section.kind) || lesson.id === undefined) return;
+
+    const previous = userProgress.find(p => p.sectionKind === section.kind);
+    onProgressUpdate?.(
+      buildSectionProgress(userId, lesson.id, section.kind, section.exercises?.length ?? 0, results, previous),
+      results,
+      previous
+    );
+  };
+
+  const renderExerciseSection = (kind: 'Practice' | 'Assessment', emptyLabel: string) => {
+    const exerciseSection = findSection(kind);
+
+    if (!exerciseSection?.exercises?.length) {
+      return (
+        <Card>
+          <CardContent>
+            <div className="text-center py-8">
+              <BookOpen className="w-12 h-12 text-gray-400 mx-auto mb-4" aria-hidden="true" />
+              <p className="text-gray-600">{emptyLabel}</p>
+            </div>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <ExerciseRunner
+        key={`${lesson.slug}-${kind}`}
+        title={exerciseSection.title}
+        exercises={exerciseSection.exercises}
+        vocab={vocabulary}
+        onComplete={(results) => handleExercisesComplete(exerciseSection, results)}
+      />
+    );
   };
 
   const renderTabContent = () => {
-    const section = lesson.sections.find(s => s.id === activeTab);
-    
     switch (activeTab) {
       case 'vocabulary':
         return (
           <VocabularyTab
-            vocabulary={lesson.vocabulary}
+            vocabulary={vocabulary}
             currentLanguage={currentLanguage}
-            onLanguageToggle={() => setCurrentLanguage(prev => prev === 'french' ? 'tahitian' : 'french')}
+            showTranslations={showTranslations}
+            showPhonetics={showPhonetics}
+            onToggleTranslations={() => setShowTranslations(prev => !prev)}
+            onTogglePhonetics={() => setShowPhonetics(prev => !prev)}
+            onAddToPhrasebook={onAddToPhrasebook}
+            annotationsFor={vocabAnnotations}
           />
         );
         
@@ -58,36 +182,30 @@ const LessonPage: React.FC<LessonPageProps> = ({
                   <h3 className="text-lg font-semibold">Learning Objectives</h3>
                 </div>
                 
-                <ul className="space-y-2" role="list" aria-label="Learning objectives for this lesson">
-                  {lesson.objectives.map((objective, index) => (
-                    <li key={index} className="flex items-start gap-2" role="listitem">
-                      <span className="w-6 h-6 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center text-sm font-medium mt-0.5" aria-hidden="true">
-                        {index + 1}
-                      </span>
-                      <span className="text-gray-700">{objective}</span>
-                    </li>
-                  ))}
-                </ul>
+                {objectives.length > 0 ? (
+                  <ul className="space-y-2" role="list" aria-label="Learning objectives for this lesson">
+                    {objectives.map((objective, index) => (
+                      <li key={index} className="flex items-start gap-2" role="listitem">
+                        <span className="w-6 h-6 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center text-sm font-medium mt-0.5" aria-hidden="true">
+                          {index + 1}
+                        </span>
+                        <span className="text-gray-700">{objective}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : renderSectionText('Objectives') ?? (
+                  <p className="text-gray-600">No objectives for this lesson yet</p>
+                )}
               </div>
             </CardContent>
           </Card>
         );
         
       case 'practice':
-        return (
-          <Card>
-            <CardContent>
-              <div className="text-center py-8">
-                <BookOpen className="w-12 h-12 text-gray-400 mx-auto mb-4" aria-hidden="true" />
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">Practice Exercises</h3>
-                <p className="text-gray-600 mb-4">Interactive exercises will be available here</p>
-                <Button variant="primary" ariaLabel="Start practice exercises">
-                  Start Practice
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        );
+        return renderExerciseSection('Practice', 'No practice exercises for this lesson yet');
+
+      case 'assessment':
+        return renderExerciseSection('Assessment', 'No assessment for this lesson yet');
         
       case 'culture':
         return (
@@ -99,11 +217,7 @@ const LessonPage: React.FC<LessonPageProps> = ({
                   <h3 className="text-lg font-semibold">Cultural Context</h3>
                 </div>
                 
-                {section?.content ? (
-                  <div className="prose max-w-none">
-                    <p className="text-gray-700 leading-relaxed">{section.content}</p>
-                  </div>
-                ) : (
+                {renderSectionText('Culture') ?? (
                   <div className="text-center py-8">
                     <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" aria-hidden="true" />
                     <p className="text-gray-600">Cultural insights will be available here</p>
@@ -124,11 +238,7 @@ const LessonPage: React.FC<LessonPageProps> = ({
                   <h3 className="text-lg font-semibold">Lesson Review</h3>
                 </div>
                 
-                {section?.content ? (
-                  <div className="prose max-w-none">
-                    <p className="text-gray-700 leading-relaxed">{section.content}</p>
-                  </div>
-                ) : (
+                {renderSectionText('Review') ?? (
                   <div className="space-y-4">
                     <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                       <h4 className="font-medium text-green-900 mb-2">Key Takeaways</h4>
@@ -174,24 +284,32 @@ const LessonPage: React.FC<LessonPageProps> = ({
       <LessonHeader
         lesson={lesson}
         currentLanguage={currentLanguage}
-        onLanguageToggle={() => setCurrentLanguage(prev => prev === 'french' ? 'tahitian' : 'french')}
-        onShowProgress={() => setShowProgress(true)}
-        progress={calculateProgress()}
+        onLanguageChange={setCurrentLanguage}
+        onBack={() => window.history.back()}
       />
       
       {/* Main Content */}
       <div className="max-w-4xl mx-auto px-4 py-6">
+        <div className="flex justify-end mb-4">
+          <Button variant="outline" onClick={() => setShowProgress(true)} ariaLabel="Show lesson progress">
+            Progress {progressSummary.percent}%
+          </Button>
+        </div>
+
         {/* Tab Navigation */}
         <div className="mb-6">
           <TabNavigation
             activeTab={activeTab}
             onTabChange={setActiveTab}
-            tabs={[
-              { id: 'objectives', label: 'Objectives', icon: Target },
-              { id: 'vocabulary', label: 'Vocabulary', icon: BookOpen, count: lesson.vocabulary.length },
-              { id: 'practice', label: 'Practice', icon: BookOpen },
-              { id: 'culture', label: 'Culture', icon: Users },
-              { id: 'review', label: 'Review', icon: Award }
+            customTabs={[
+              { id: 'objectives', label: 'Objectives', icon: <Target className="w-4 h-4" /> },
+              { id: 'vocabulary', label: 'Vocabulary', icon: <BookOpen className="w-4 h-4" />, count: vocabulary.length },
+              { id: 'practice', label: 'Practice', icon: <BookOpen className="w-4 h-4" /> },
+              ...(findSection('Assessment')
+                ? [{ id: 'assessment', label: 'Assessment', icon: <ClipboardCheck className="w-4 h-4" /> }]
+                : []),
+              { id: 'culture', label: 'Culture', icon: <Users className="w-4 h-4" /> },
+              { id: 'review', label: 'Review', icon: <Award className="w-4 h-4" /> }
             ]}
           />
         </div>
@@ -203,13 +321,17 @@ const LessonPage: React.FC<LessonPageProps> = ({
       </div>
       
       {/* Progress Drawer */}
-      {showProgress && (
-        <ProgressDrawer
-          lesson={lesson}
-          userProgress={userProgress}
-          onClose={() => setShowProgress(false)}
-        />
-      )}
+      <ProgressDrawer
+        isOpen={showProgress}
+        onClose={() => setShowProgress(false)}
+        summary={progressSummary}
+        sections={progressSections}
+        currentSection={currentSectionKind}
+        onSectionClick={(kind) => {
+          setActiveTab(kind.toLowerCase());
+          setShowProgress(false);
+        }}
+      />
     </div>
   );
 };
@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/content/Markdown';
+import { HighlightedText, type TextHighlight } from './HighlightedText';
+
+interface MarkdownContentProps {
+  markdown: string;
+  className?: string;
+  /** Ranges of the markdown source to highlight, such as annotated words */
+  highlights?: TextHighlight[];
+  onHighlightClick?: (id: string) => void;
+}
+
+interface Highlighting {
+  highlights: TextHighlight[];
+  onHighlightClick?: (id: string) => void;
+}
+
+const HEADING_CLASSES: Record<1 | 2 | 3 | 4, string> = {
+  1: 'text-2xl font-bold text-gray-900',
+  2: 'text-xl font-semibold text-gray-900',
+  3: 'text-lg font-semibold text-gray-900',
+  4: 'text-base font-semibold text-gray-900'
+};
+
+function renderInline(nodes: MarkdownInline[], highlighting?: Highlighting): React.ReactNode {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return highlighting && node.offset !== undefined
+          ? <HighlightedText key={index} text={node.text} offset={node.offset} {...highlighting} />
+          : <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children, highlighting)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children, highlighting)}</em>;
+      case 'code':
+        return (
+          <code key={index} className="px-1 py-0.5 rounded bg-gray-100 text-sm">
+            {highlighting && node.offset !== undefined
+              ? <HighlightedText text={node.text} offset={node.offset} {...highlighting} />
+              : node.text}
+          </code>
+        );
+      case 'link': {
+        const external = /^https?:/i.test(node.href);
+        return (
+          <a
+            key={index}
+            href={node.href}
+            className="text-blue-600 underline hover:text-blue-800"
+            {...(external ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+          >
+            {renderInline(node.children, highlighting)}
+          </a>
+        );
+      }
+    }
+  });
+}
+
+function renderBlock(block: MarkdownBlock, index: number, highlighting?: Highlighting): React.ReactNode {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${block.level + 1}` as 'h2' | 'h3' | 'h4' | 'h5';
+      return <Tag key={index} className={HEADING_CLASSES[block.level]}>{renderInline(block.children, highlighting)}</Tag>;
+    }
+    case 'paragraph':
+      return <p key={index} className="text-gray-700 leading-relaxed">{renderInline(block.children, highlighting)}</p>;
+    case 'list': {
+      const ListTag = block.ordered ? 'ol' : 'ul';
+      return (
+        <ListTag key={index} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-6 space-y-1 text-gray-700`}>
+          {block.items.map((item, i) => <li key={i}>{renderInline(item, highlighting)}</li>)}
+        </ListTag>
+      );
+    }
+    case 'quote':
+      return (
+        <blockquote key={index} className="border-l-4 border-blue-200 pl-4 italic text-gray-600">
+          {renderInline(block.children, highlighting)}
+        </blockquote>
+      );
+    case 'code':
+      return (
+        <pre key={index} className="p-3 rounded-md bg-gray-100 text-sm overflow-x-auto">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'rule':
+      return <hr key={index} className="border-gray-200" />;
+  }
+}
+
+/**
+ * Renders lesson markdown. Headings start at h2 so content sits under the
+ * page title. With `highlights`, text is rendered in pieces that know their
+ * place in the source, so annotations can be shown and made on it.
+ */
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ markdown, className = '', highlights, onHighlightClick }) => {
+  const sourceOffsets = highlights !== undefined;
+  const blocks = useMemo(() => parseMarkdown(markdown, { sourceOffsets }), [markdown, sourceOffsets]);
+  const highlighting = highlights && { highlights, onHighlightClick };
+
+  return <div className={`space-y-3 ${className}`}>{blocks.map((block, index) => renderBlock(block, index, highlighting))}</div>;
+};
+
+export default MarkdownContent;
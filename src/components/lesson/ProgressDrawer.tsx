@@ -1,8 +1,9 @@
 'use client';
 
 import React from 'react';
-import { X, Clock, Trophy, CheckCircle, Target, Circle } from 'lucide-react';
-import { UserProgress, SectionKind } from '@/types';
+import { X, RotateCcw, Trophy, CheckCircle, Target, Circle } from 'lucide-react';
+import { SectionKind } from '@/types';
+import type { LessonProgressSummary } from '@/lib/progress/ProgressModel';
 
 interface ProgressSection {
   kind: SectionKind;
@@ -15,7 +16,7 @@ interface ProgressSection {
 interface ProgressDrawerProps {
   isOpen: boolean;
   onClose: () => void;
-  progress: UserProgress;
+  summary: LessonProgressSummary;
   sections: ProgressSection[];
   currentSection: SectionKind;
   onSectionClick: (section: SectionKind) => void;
@@ -24,7 +25,7 @@ interface ProgressDrawerProps {
 const ProgressDrawer: React.FC<ProgressDrawerProps> = ({
   isOpen,
   onClose,
-  progress,
+  summary,
   sections,
   currentSection,
   onSectionClick
@@ -120,12 +121,12 @@ const ProgressDrawer: React.FC<ProgressDrawerProps> = ({
             <div className="grid grid-cols-2 gap-4">
               <div className="bg-blue-50 rounded-lg p-3 text-center">
                 <div className="flex items-center justify-center mb-1">
-                  <Clock className="w-4 h-4 text-blue-600" />
+                  <RotateCcw className="w-4 h-4 text-blue-600" />
                 </div>
                 <div className="text-sm font-medium text-blue-900">
-                  {formatTime(progress.timeSpentSeconds || 0)}
+                  {summary.attempts}
                 </div>
-                <div className="text-xs text-blue-600">Temps passé</div>
+                <div className="text-xs text-blue-600">Tentatives</div>
               </div>
               
               <div className="bg-green-50 rounded-lg p-3 text-center">
@@ -133,7 +134,7 @@ const ProgressDrawer: React.FC<ProgressDrawerProps> = ({
                   <Trophy className="w-4 h-4 text-green-600" />
                 </div>
                 <div className="text-sm font-medium text-green-900">
-                  {progress.overallScore || 0}%
+                  {summary.averageScore}%
                 </div>
                 <div className="text-xs text-green-600">Score global</div>
               </div>
@@ -196,30 +197,6 @@ const ProgressDrawer: React.FC<ProgressDrawerProps> = ({
                 </div>
               </div>
             </section>
-
-            {/* Achievements */}
-            {progress.achievements && progress.achievements.length > 0 && (
-              <section aria-labelledby="achievements-heading">
-                <div className="space-y-3">
-                  <h3 id="achievements-heading" className="text-sm font-medium text-gray-700">Réussites</h3>
-                  
-                  <div className="space-y-2" role="list" aria-label="Réussites obtenues">
-                    {progress.achievements.map((achievement, index) => (
-                      <div
-                        key={index}
-                        className="flex items-center space-x-3 p-2 bg-yellow-50 rounded-lg"
-                        role="listitem"
-                      >
-                        <Trophy className="w-4 h-4 text-yellow-600 flex-shrink-0" aria-hidden="true" />
-                        <span className="text-sm text-yellow-800">
-                          {achievement}
-                        </span>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              </section>
-            )}
           </div>
 
           {/* Footer */}
@@ -227,8 +204,8 @@ const ProgressDrawer: React.FC<ProgressDrawerProps> = ({
             <div className="text-xs text-gray-500 text-center" role="status" aria-live="polite">
               Dernière mise à jour :
               <br />
-              {progress.lastAccessedAt ? 
-                new Date(progress.lastAccessedAt).toLocaleString('fr-FR') : 
+              {summary.lastActivityAt ?
+                new Date(summary.lastActivityAt).toLocaleString('fr-FR') :
                 'Jamais'
               }
             </div>
@@ -2,7 +2,7 @@
 
 import React, { useRef, useEffect } from 'react';
 import { Target, BookOpen, Dumbbell, Globe, CheckCircle } from 'lucide-react';
-import { TabNavigationProps } from '@/types';
+import type { TabItem, TabNavigationProps } from '@/types';
 
 const TabNavigation: React.FC<TabNavigationProps> = ({
   activeTab,
@@ -11,7 +11,7 @@ const TabNavigation: React.FC<TabNavigationProps> = ({
 }) => {
   const tabRefs = useRef<(HTMLButtonElement | null)[]>([]);
   const activeTabIndex = useRef<number>(0);
-  const defaultTabs = [
+  const defaultTabs: TabItem[] = [
     {
       id: 'Objectives',
       label: 'Aperçu',
@@ -88,7 +88,7 @@ const TabNavigation: React.FC<TabNavigationProps> = ({
           return (
             <button
               key={tab.id}
-              ref={(el) => (tabRefs.current[index] = el)}
+              ref={(el) => { tabRefs.current[index] = el; }}
               onClick={() => onTabChange(tab.id)}
               onKeyDown={(e) => handleKeyDown(e, index)}
               role="tab"
@@ -1,8 +1,10 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Volume2, Star, Eye, EyeOff } from 'lucide-react';
+import { Volume2, Star, Eye, EyeOff, BookmarkPlus, BookmarkCheck } from 'lucide-react';
 import { VocabItem } from '@/types';
+import type { ResolvedAnnotation } from '@/lib/annotations/AnnotationAnchor';
+import { AnnotationNotes } from './AnnotationNotes';
 
 interface VocabularyTabProps {
   vocabulary: VocabItem[];
@@ -12,6 +14,9 @@ interface VocabularyTabProps {
   onToggleTranslations: () => void;
   onTogglePhonetics: () => void;
   onPlayAudio?: (audioId: number) => void;
+  onAddToPhrasebook?: (item: VocabItem) => void;
+  /** Reviewers' annotations on an item's words */
+  annotationsFor?: (item: VocabItem) => ResolvedAnnotation[];
 }
 
 const VocabularyTab: React.FC<VocabularyTabProps> = ({
@@ -21,23 +26,31 @@ const VocabularyTab: React.FC<VocabularyTabProps> = ({
   showPhonetics,
   onToggleTranslations,
   onTogglePhonetics,
-  onPlayAudio
+  onPlayAudio,
+  onAddToPhrasebook,
+  annotationsFor
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [savedItems, setSavedItems] = useState<Set<VocabItem>>(new Set());
+
+  const handleAddToPhrasebook = (item: VocabItem) => {
+    onAddToPhrasebook?.(item);
+    setSavedItems(prev => new Set(prev).add(item));
+  };
   const [filterByCore, setFilterByCore] = useState(false);
 
   const filteredVocabulary = vocabulary
     .filter(item => {
       const matchesSearch = !searchTerm || 
         item.fr.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        item.tah.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        item.en.toLowerCase().includes(searchTerm.toLowerCase());
+        item.tah?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        item.en?.toLowerCase().includes(searchTerm.toLowerCase());
       
       const matchesCore = !filterByCore || item.isCore;
       
       return matchesSearch && matchesCore;
     })
-    .sort((a, b) => a.sortOrder - b.sortOrder);
+    .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
 
   const getPartOfSpeechColor = (pos: string): string => {
     switch (pos.toLowerCase()) {
@@ -65,8 +78,8 @@ const VocabularyTab: React.FC<VocabularyTabProps> = ({
   const getPrimaryText = (item: VocabItem): string => {
     switch (currentLanguage) {
       case 'fr': return item.fr;
-      case 'tah': return item.tah;
-      case 'en': return item.en;
+      case 'tah': return item.tah ?? item.fr;
+      case 'en': return item.en ?? item.fr;
       default: return item.fr;
     }
   };
@@ -75,7 +88,7 @@ const VocabularyTab: React.FC<VocabularyTabProps> = ({
     switch (currentLanguage) {
       case 'fr': return item.ipaFr;
       case 'tah': return item.ipaTah;
-      case 'en': return item.ipaEn;
+      case 'en': return undefined;
       default: return item.ipaFr;
     }
   };
@@ -214,20 +227,39 @@ const VocabularyTab: React.FC<VocabularyTabProps> = ({
                       {item.note}
                     </p>
                   )}
+
+                  {annotationsFor && <AnnotationNotes entries={annotationsFor(item)} />}
                 </div>
 
-                {/* Audio Button */}
-                {item.audioMediaId && onPlayAudio && (
-                  <button
-                    onClick={() => onPlayAudio(item.audioMediaId!)}
-                    className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-                    aria-label={`Listen to pronunciation of ${getPrimaryText(item)}`}
-                    aria-describedby={`vocab-${index}-primary`}
-                  >
-                    <Volume2 className="w-5 h-5" aria-hidden="true" />
-                    <span className="sr-only">Play audio</span>
-                  </button>
-                )}
+                <div className="flex items-center space-x-1">
+                  {/* Audio Button */}
+                  {item.audioMediaId && onPlayAudio && (
+                    <button
+                      onClick={() => onPlayAudio(item.audioMediaId!)}
+                      className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      aria-label={`Listen to pronunciation of ${getPrimaryText(item)}`}
+                      aria-describedby={`vocab-${index}-primary`}
+                    >
+                      <Volume2 className="w-5 h-5" aria-hidden="true" />
+                      <span className="sr-only">Play audio</span>
+                    </button>
+                  )}
+
+                  {/* Phrasebook Button */}
+                  {onAddToPhrasebook && (
+                    <button
+                      onClick={() => handleAddToPhrasebook(item)}
+                      disabled={savedItems.has(item)}
+                      className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:text-green-600 disabled:hover:bg-transparent"
+                      aria-label={savedItems.has(item) ? `${getPrimaryText(item)} saved to phrasebook` : `Add ${getPrimaryText(item)} to phrasebook`}
+                      title={savedItems.has(item) ? 'Ajouté au carnet' : 'Ajouter au carnet'}
+                    >
+                      {savedItems.has(item)
+                        ? <BookmarkCheck className="w-5 h-5" aria-hidden="true" />
+                        : <BookmarkPlus className="w-5 h-5" aria-hidden="true" />}
+                    </button>
+                  )}
+                </div>
               </div>
             </div>
           ))
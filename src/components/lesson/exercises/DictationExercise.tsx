@@ -0,0 +1,73 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Volume2 } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import { speechService } from '@/lib/speech/SpeechService';
+import type { DictationExerciseData, ExerciseAnswer } from '@/types';
+
+interface DictationExerciseProps {
+  data: DictationExerciseData;
+  disabled: boolean;
+  onSubmit: (answer: ExerciseAnswer) => void;
+}
+
+const DictationExercise: React.FC<DictationExerciseProps> = ({ data, disabled, onSubmit }) => {
+  const [text, setText] = useState('');
+  const [showHints, setShowHints] = useState(false);
+
+  const playAudio = async () => {
+    try {
+      await new Audio(data.audioUrl).play();
+    } catch (error) {
+      console.warn('Dictation audio unavailable, falling back to speech synthesis:', error);
+      await speechService.speak(data.transcript).catch(() => undefined);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Button variant="outline" onClick={playAudio} ariaLabel="Play dictation audio">
+        <Volume2 className="w-4 h-4 mr-2" aria-hidden="true" />
+        Listen
+      </Button>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={disabled}
+        rows={3}
+        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        placeholder="Write what you hear..."
+        aria-label="Dictation answer"
+      />
+
+      {data.hints && data.hints.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowHints(prev => !prev)}
+            className="text-sm text-blue-600 hover:underline"
+            aria-expanded={showHints}
+          >
+            {showHints ? 'Hide hints' : 'Show hints'}
+          </button>
+          {showHints && (
+            <ul className="mt-2 text-sm text-gray-600 list-disc list-inside">
+              {data.hints.map((hint, index) => <li key={index}>{hint}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <Button
+        variant="primary"
+        disabled={disabled || !text.trim()}
+        onClick={() => onSubmit({ type: 'Dictation', text })}
+      >
+        Check answer
+      </Button>
+    </div>
+  );
+};
+
+export default DictationExercise;
@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { CheckCircle, XCircle, RotateCcw, Award } from 'lucide-react';
+import Card, { CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { gradeExercise, summarizeResults } from '@/lib/exercises/ExerciseEngine';
+import MCQExercise from './MCQExercise';
+import MatchExercise from './MatchExercise';
+import OrderingExercise from './OrderingExercise';
+import DictationExercise from './DictationExercise';
+import PronunciationExercise from './PronunciationExercise';
+import FillBlankExercise from './FillBlankExercise';
+import RoleplayExercise from './RoleplayExercise';
+import type {
+  Exercise,
+  ExerciseAnswer,
+  ExerciseResult,
+  MCQExerciseData,
+  MatchExerciseData,
+  OrderingExerciseData,
+  DictationExerciseData,
+  PronunciationExerciseData,
+  FillBlankExerciseData,
+  RoleplayExerciseData,
+  VocabItem
+} from '@/types';
+
+interface ExerciseRunnerProps {
+  exercises: Exercise[];
+  title?: string;
+  /** The lesson's vocabulary, which pronunciation exercises take their IPA from */
+  vocab?: VocabItem[];
+  onExerciseGraded?: (result: ExerciseResult) => void;
+  onComplete: (results: ExerciseResult[]) => void;
+}
+
+const ExerciseRunner: React.FC<ExerciseRunnerProps> = ({
+  exercises,
+  title,
+  vocab,
+  onExerciseGraded,
+  onComplete
+}) => {
+  const orderedExercises = useMemo(
+    () => [...exercises].sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0)),
+    [exercises]
+  );
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [results, setResults] = useState<ExerciseResult[]>([]);
+  const [attemptKey, setAttemptKey] = useState(0);
+
+  const current = orderedExercises[currentIndex];
+  const currentResult = results.find(r => r.exerciseIndex === currentIndex);
+  const isFinished = results.length === orderedExercises.length && currentIndex === orderedExercises.length;
+
+  const handleSubmit = (answer: ExerciseAnswer) => {
+    if (!current || currentResult) return;
+
+    const result = gradeExercise(current, answer, currentIndex);
+    setResults(prev => [...prev, result]);
+    onExerciseGraded?.(result);
+  };
+
+  const handleNext = () => {
+    const nextIndex = currentIndex + 1;
+    setCurrentIndex(nextIndex);
+    if (nextIndex === orderedExercises.length) {
+      onComplete(results);
+    }
+  };
+
+  const handleRestart = () => {
+    setResults([]);
+    setCurrentIndex(0);
+    setAttemptKey(prev => prev + 1);
+  };
+
+  const renderExercise = (exercise: Exercise) => {
+    const disabled = Boolean(currentResult);
+    const key = `${attemptKey}-${currentIndex}`;
+
+    switch (exercise.type) {
+      case 'MCQ':
+        return <MCQExercise key={key} data={exercise.data as unknown as MCQExerciseData} disabled={disabled} onSubmit={handleSubmit} />;
+      case 'Match':
+        return <MatchExercise key={key} data={exercise.data as unknown as MatchExerciseData} disabled={disabled} onSubmit={handleSubmit} />;
+      case 'Ordering':
+        return <OrderingExercise key={key} data={exercise.data as unknown as OrderingExerciseData} disabled={disabled} onSubmit={handleSubmit} />;
+      case 'Dictation':
+        return <DictationExercise key={key} data={exercise.data as unknown as DictationExerciseData} disabled={disabled} onSubmit={handleSubmit} />;
+      case 'Pronunciation':
+        return <PronunciationExercise key={key} data={exercise.data as unknown as PronunciationExerciseData} vocab={vocab} disabled={disabled} onSubmit={handleSubmit} />;
+      case 'FillBlank':
+        return <FillBlankExercise key={key} data={exercise.data as unknown as FillBlankExerciseData} disabled={disabled} onSubmit={handleSubmit} />;
+      case 'Roleplay':
+        return <RoleplayExercise key={key} data={exercise.data as unknown as RoleplayExerciseData} disabled={disabled} onSubmit={handleSubmit} />;
+      default:
+        return <p className="text-gray-600">This exercise type is not supported yet.</p>;
+    }
+  };
+
+  if (orderedExercises.length === 0) {
+    return (
+      <Card>
+        <CardContent>
+          <p className="text-center py-8 text-gray-600">No exercises in this section yet.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isFinished) {
+    const summary = summarizeResults(results);
+
+    return (
+      <Card>
+        <CardContent>
+          <div className="text-center py-8 space-y-4" role="status" aria-live="polite">
+            <Award className="w-12 h-12 text-yellow-500 mx-auto" aria-hidden="true" />
+            <h3 className="text-lg font-semibold text-gray-900">Section complete</h3>
+            <p className="text-gray-700">
+              {summary.correctCount} of {orderedExercises.length} correct · {summary.pointsAwarded}/{summary.pointsPossible} points ({summary.percentage}%)
+            </p>
+            <Button variant="outline" onClick={handleRestart} ariaLabel="Retry these exercises">
+              <RotateCcw className="w-4 h-4 mr-2" aria-hidden="true" />
+              Try again
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent>
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold">{title ?? 'Practice Exercises'}</h3>
+            <span className="text-sm text-gray-500" aria-live="polite">
+              Exercise {currentIndex + 1} of {orderedExercises.length}
+            </span>
+          </div>
+
+          <p className="text-gray-800">{current.prompt}</p>
+
+          {renderExercise(current)}
+
+          {currentResult && (
+            <div
+              className={`p-4 rounded-lg border ${
+                currentResult.correct ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+              }`}
+              role="alert"
+            >
+              <div className="flex items-center gap-2 font-medium">
+                {currentResult.correct ? (
+                  <CheckCircle className="w-5 h-5 text-green-600" aria-hidden="true" />
+                ) : (
+                  <XCircle className="w-5 h-5 text-red-600" aria-hidden="true" />
+                )}
+                <span>
+                  {currentResult.correct ? 'Correct!' : 'Not quite.'} +{currentResult.pointsAwarded} points
+                </span>
+              </div>
+              {currentResult.explanation && (
+                <p className="mt-2 text-sm text-gray-700">{currentResult.explanation}</p>
+              )}
+              <div className="mt-4 text-right">
+                <Button variant="primary" onClick={handleNext}>
+                  {currentIndex + 1 < orderedExercises.length ? 'Next exercise' : 'See results'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExerciseRunner;
@@ -0,0 +1,54 @@
+'use client';
+
+import React, { useState } from 'react';
+import Button from '@/components/ui/Button';
+import type { ExerciseAnswer, FillBlankExerciseData } from '@/types';
+
+interface FillBlankExerciseProps {
+  data: FillBlankExerciseData;
+  disabled: boolean;
+  onSubmit: (answer: ExerciseAnswer) => void;
+}
+
+const BLANK_PATTERN = /_{3,}/;
+
+const FillBlankExercise: React.FC<FillBlankExerciseProps> = ({ data, disabled, onSubmit }) => {
+  const [answers, setAnswers] = useState<string[]>(() => data.blanks.map(() => ''));
+  const segments = data.text.split(BLANK_PATTERN);
+
+  const updateAnswer = (index: number, value: string) => {
+    setAnswers(prev => prev.map((answer, i) => (i === index ? value : answer)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-gray-800 leading-loose whitespace-pre-line">
+        {segments.map((segment, index) => (
+          <React.Fragment key={index}>
+            {segment}
+            {index < segments.length - 1 && index < data.blanks.length && (
+              <input
+                type="text"
+                value={answers[index]}
+                onChange={(e) => updateAnswer(index, e.target.value)}
+                disabled={disabled}
+                className="inline-block w-32 mx-1 px-2 py-0.5 border-b-2 border-blue-300 focus:border-blue-600 focus:outline-none bg-transparent"
+                aria-label={`Blank ${index + 1}`}
+              />
+            )}
+          </React.Fragment>
+        ))}
+      </p>
+
+      <Button
+        variant="primary"
+        disabled={disabled || answers.some(answer => !answer.trim())}
+        onClick={() => onSubmit({ type: 'FillBlank', answers })}
+      >
+        Check answer
+      </Button>
+    </div>
+  );
+};
+
+export default FillBlankExercise;
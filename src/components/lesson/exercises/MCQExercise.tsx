@@ -0,0 +1,52 @@
+'use client';
+
+import React, { useState } from 'react';
+import Button from '@/components/ui/Button';
+import type { ExerciseAnswer, MCQExerciseData } from '@/types';
+
+interface MCQExerciseProps {
+  data: MCQExerciseData;
+  disabled: boolean;
+  onSubmit: (answer: ExerciseAnswer) => void;
+}
+
+const MCQExercise: React.FC<MCQExerciseProps> = ({ data, disabled, onSubmit }) => {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  return (
+    <div className="space-y-4">
+      {data.question && <p className="font-medium text-gray-900">{data.question}</p>}
+
+      <div className="space-y-2" role="radiogroup" aria-label={data.question}>
+        {data.options.map((option, index) => (
+          <label
+            key={index}
+            className={`flex items-center gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+              selectedIndex === index ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            <input
+              type="radio"
+              name="mcq-option"
+              checked={selectedIndex === index}
+              onChange={() => setSelectedIndex(index)}
+              disabled={disabled}
+              className="text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-gray-800">{option}</span>
+          </label>
+        ))}
+      </div>
+
+      <Button
+        variant="primary"
+        disabled={disabled || selectedIndex === null}
+        onClick={() => selectedIndex !== null && onSubmit({ type: 'MCQ', selectedIndex })}
+      >
+        Check answer
+      </Button>
+    </div>
+  );
+};
+
+export default MCQExercise;
@@ -0,0 +1,57 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import Button from '@/components/ui/Button';
+import type { ExerciseAnswer, MatchExerciseData } from '@/types';
+
+interface MatchExerciseProps {
+  data: MatchExerciseData;
+  disabled: boolean;
+  onSubmit: (answer: ExerciseAnswer) => void;
+}
+
+const MatchExercise: React.FC<MatchExerciseProps> = ({ data, disabled, onSubmit }) => {
+  const [pairs, setPairs] = useState<Record<string, string>>({});
+
+  // Present the right-hand column in a stable but scrambled order
+  const choices = useMemo(
+    () => data.pairs.map(pair => pair.right).sort((a, b) => a.localeCompare(b)),
+    [data.pairs]
+  );
+
+  const allMatched = data.pairs.every(pair => Boolean(pairs[pair.left]));
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {data.pairs.map(pair => (
+          <div key={pair.left} className="flex items-center gap-4">
+            <span className="flex-1 font-medium text-gray-900">{pair.left}</span>
+            <select
+              value={pairs[pair.left] ?? ''}
+              onChange={(e) => setPairs(prev => ({ ...prev, [pair.left]: e.target.value }))}
+              disabled={disabled}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              aria-label={`Match for ${pair.left}`}
+            >
+              <option value="">—</option>
+              {choices.map(choice => (
+                <option key={choice} value={choice}>{choice}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <Button
+        variant="primary"
+        disabled={disabled || !allMatched}
+        onClick={() => onSubmit({ type: 'Match', pairs })}
+      >
+        Check answer
+      </Button>
+    </div>
+  );
+};
+
+export default MatchExercise;
@@ -0,0 +1,64 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import type { ExerciseAnswer, OrderingExerciseData } from '@/types';
+
+interface OrderingExerciseProps {
+  data: OrderingExerciseData;
+  disabled: boolean;
+  onSubmit: (answer: ExerciseAnswer) => void;
+}
+
+const OrderingExercise: React.FC<OrderingExerciseProps> = ({ data, disabled, onSubmit }) => {
+  const [order, setOrder] = useState<number[]>(() => data.items.map((_, index) => index));
+
+  const move = (position: number, offset: number) => {
+    const target = position + offset;
+    if (target < 0 || target >= order.length) return;
+
+    setOrder(prev => {
+      const next = [...prev];
+      [next[position], next[target]] = [next[target], next[position]];
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <ol className="space-y-2" aria-label="Items to order">
+        {order.map((itemIndex, position) => (
+          <li key={itemIndex} className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg bg-white">
+            <span className="w-6 h-6 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center text-sm font-medium">
+              {position + 1}
+            </span>
+            <span className="flex-1 text-gray-800">{data.items[itemIndex]}</span>
+            <button
+              onClick={() => move(position, -1)}
+              disabled={disabled || position === 0}
+              className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+              aria-label={`Move ${data.items[itemIndex]} up`}
+            >
+              <ArrowUp className="w-4 h-4" aria-hidden="true" />
+            </button>
+            <button
+              onClick={() => move(position, 1)}
+              disabled={disabled || position === order.length - 1}
+              className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+              aria-label={`Move ${data.items[itemIndex]} down`}
+            >
+              <ArrowDown className="w-4 h-4" aria-hidden="true" />
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <Button variant="primary" disabled={disabled} onClick={() => onSubmit({ type: 'Ordering', order })}>
+        Check answer
+      </Button>
+    </div>
+  );
+};
+
+export default OrderingExercise;
@@ -0,0 +1,30 @@
+'use client';
+
+import React from 'react';
+import { PronunciationPractice } from '@/components/PronunciationPractice';
+import { pronunciationIpa } from '@/lib/exercises/ExerciseEngine';
+import type { ExerciseAnswer, PronunciationExerciseData, VocabItem } from '@/types';
+
+interface PronunciationExerciseProps {
+  data: PronunciationExerciseData;
+  /** The lesson's vocabulary, for the IPA of the target */
+  vocab?: VocabItem[];
+  disabled: boolean;
+  onSubmit: (answer: ExerciseAnswer) => void;
+}
+
+const PronunciationExercise: React.FC<PronunciationExerciseProps> = ({ data, vocab, disabled, onSubmit }) => (
+  <PronunciationPractice
+    targetText={data.target}
+    targetIpa={pronunciationIpa(data, vocab)}
+    audioUrl={data.audioUrl}
+    className={disabled ? 'pointer-events-none opacity-60' : ''}
+    onResult={(result) => {
+      if (!disabled) {
+        onSubmit({ type: 'Pronunciation', transcript: result.transcript, accuracy: result.accuracy });
+      }
+    }}
+  />
+);
+
+export default PronunciationExercise;
@@ -0,0 +1,66 @@
+'use client';
+
+import React, { useState } from 'react';
+import Button from '@/components/ui/Button';
+import type { ExerciseAnswer, RoleplayExerciseData } from '@/types';
+
+interface RoleplayExerciseProps {
+  data: RoleplayExerciseData;
+  disabled: boolean;
+  onSubmit: (answer: ExerciseAnswer) => void;
+}
+
+const RoleplayExercise: React.FC<RoleplayExerciseProps> = ({ data, disabled, onSubmit }) => {
+  const [choices, setChoices] = useState<Record<number, number>>({});
+
+  const pendingChoice = data.steps.some(
+    (step, index) => step.speaker === 'you' && step.options?.length && choices[index] === undefined
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 italic">{data.scenario}</p>
+
+      <div className="space-y-3">
+        {data.steps.map((step, index) => (
+          <div key={index} className={`flex ${step.speaker === 'you' ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-md p-3 rounded-lg ${
+                step.speaker === 'you' ? 'bg-blue-50 border border-blue-200' : 'bg-gray-100'
+              }`}
+            >
+              {step.speaker === 'you' && step.options && step.options.length > 0 ? (
+                <div className="space-y-2" role="radiogroup" aria-label={`Your reply ${index + 1}`}>
+                  {step.options.map((option, optionIndex) => (
+                    <label key={optionIndex} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name={`roleplay-step-${index}`}
+                        checked={choices[index] === optionIndex}
+                        onChange={() => setChoices(prev => ({ ...prev, [index]: optionIndex }))}
+                        disabled={disabled}
+                      />
+                      <span>{option}</span>
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-800">{step.text}</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Button
+        variant="primary"
+        disabled={disabled || pendingChoice}
+        onClick={() => onSubmit({ type: 'Roleplay', choices })}
+      >
+        Check answer
+      </Button>
+    </div>
+  );
+};
+
+export default RoleplayExercise;
@@ -0,0 +1,119 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Download, CheckCircle, AlertTriangle } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import { offlinePackService } from '@/lib/offline/OfflinePackService';
+import { lessonPackId, levelPackId, type PackProgress } from '@/lib/offline/LessonPack';
+import { formatCacheSize } from '@/lib/sw-registration';
+import type { LessonLevel, OfflinePack } from '@/types';
+
+interface OfflinePackButtonProps {
+  /** Download a single lesson */
+  slug?: string;
+  /** Download every lesson of a level */
+  level?: LessonLevel;
+  className?: string;
+}
+
+/**
+ * Downloads a lesson or level for offline use and shows its size and progress
+ */
+export const OfflinePackButton: React.FC<OfflinePackButtonProps> = ({ slug, level, className = '' }) => {
+  const packId = slug ? lessonPackId(slug) : level ? levelPackId(level) : null;
+  const [pack, setPack] = useState<OfflinePack | null>(null);
+  const [progress, setProgress] = useState<PackProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [supported, setSupported] = useState(true);
+
+  useEffect(() => {
+    if (!packId) return;
+    setSupported(offlinePackService.isSupported());
+
+    let active = true;
+    offlinePackService.getPack(packId)
+      .then(current => {
+        if (active) setPack(current);
+      })
+      .catch(err => console.error('Failed to load offline pack:', err));
+
+    const unsubscribe = offlinePackService.subscribe(packs => {
+      setPack(packs.find(p => p.id === packId) ?? null);
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [packId]);
+
+  const handleDownload = useCallback(async () => {
+    setError(null);
+    setProgress({ packId: packId ?? '', completed: 0, total: 0, bytes: 0 });
+    try {
+      const result = slug
+        ? await offlinePackService.downloadLessonPack(slug, setProgress)
+        : level
+          ? await offlinePackService.downloadLevelPack(level, setProgress)
+          : null;
+      setPack(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Download failed');
+    } finally {
+      setProgress(null);
+    }
+  }, [packId, slug, level]);
+
+  if (!packId || !supported) return null;
+
+  if (progress) {
+    const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+    return (
+      <div className={`space-y-1 ${className}`} role="status" aria-live="polite">
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          <span>Downloading {progress.completed}/{progress.total || '…'}</span>
+          <span>{formatCacheSize(progress.bytes)}</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-1.5">
+          <div className="bg-blue-600 h-1.5 rounded-full transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+    );
+  }
+
+  if (pack?.status === 'complete') {
+    return (
+      <div className={`flex items-center gap-1 text-xs text-green-700 ${className}`}>
+        <CheckCircle className="w-4 h-4" aria-hidden="true" />
+        <span>Available offline · {formatCacheSize(pack.totalBytes)}</span>
+      </div>
+    );
+  }
+
+  const incomplete = pack?.status === 'partial' || pack?.status === 'failed' || error;
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full flex items-center justify-center gap-2"
+        onClick={handleDownload}
+        ariaLabel={incomplete ? 'Retry offline download' : 'Download for offline use'}
+      >
+        {incomplete
+          ? <AlertTriangle className="w-4 h-4" aria-hidden="true" />
+          : <Download className="w-4 h-4" aria-hidden="true" />}
+        {incomplete ? 'Retry download' : 'Download for offline'}
+      </Button>
+      {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+      {!error && pack?.status === 'partial' && (
+        <p className="text-xs text-yellow-700">
+          {pack.resources.filter(resource => resource.error).length} files missing · {formatCacheSize(pack.totalBytes)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OfflinePackButton;
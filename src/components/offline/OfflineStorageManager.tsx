@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { HardDrive, Trash2, RefreshCw, WifiOff } from 'lucide-react';
+import Card, { CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import { OfflinePackButton } from './OfflinePackButton';
+import { offlinePackService, type StorageUsage } from '@/lib/offline/OfflinePackService';
+import { formatCacheSize } from '@/lib/sw-registration';
+import type { LessonLevel, OfflinePack, PackStatus } from '@/types';
+
+const LEVELS: LessonLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
+
+const STATUS_BADGES: Record<PackStatus, { label: string; variant: 'success' | 'warning' | 'danger' | 'info' }> = {
+  complete: { label: 'Ready', variant: 'success' },
+  partial: { label: 'Incomplete', variant: 'warning' },
+  failed: { label: 'Failed', variant: 'danger' },
+  downloading: { label: 'Interrupted', variant: 'info' }
+};
+
+/**
+ * Lists downloaded offline packs with their size and lets the learner remove
+ * or retry them
+ */
+export const OfflineStorageManager: React.FC = () => {
+  const [packs, setPacks] = useState<OfflinePack[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [supported, setSupported] = useState(true);
+
+  const refreshUsage = useCallback(async () => {
+    setUsage(await offlinePackService.getStorageUsage());
+  }, []);
+
+  useEffect(() => {
+    setSupported(offlinePackService.isSupported());
+
+    let active = true;
+    Promise.all([offlinePackService.getPacks(), offlinePackService.getStorageUsage()])
+      .then(([currentPacks, currentUsage]) => {
+        if (!active) return;
+        setPacks(currentPacks);
+        setUsage(currentUsage);
+      })
+      .catch(error => console.error('Failed to load offline packs:', error))
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    const unsubscribe = offlinePackService.subscribe(nextPacks => {
+      setPacks(nextPacks);
+      refreshUsage().catch(error => console.error('Failed to read storage usage:', error));
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [refreshUsage]);
+
+  const handleRemove = async (pack: OfflinePack) => {
+    setBusyId(pack.id);
+    try {
+      await offlinePackService.removePack(pack.id);
+    } catch (error) {
+      console.error('Failed to remove offline pack:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRetry = async (pack: OfflinePack) => {
+    setBusyId(pack.id);
+    try {
+      if (pack.scope === 'lesson') {
+        await offlinePackService.downloadLessonPack(pack.lessonSlugs[0]);
+      } else {
+        await offlinePackService.downloadLevelPack(pack.id.replace(/^level:/, '') as LessonLevel);
+      }
+    } catch (error) {
+      console.error('Failed to download offline pack:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!supported) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center text-gray-600">
+          <WifiOff className="w-10 h-10 mx-auto mb-3 text-gray-400" aria-hidden="true" />
+          This browser cannot store lessons for offline use.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <HardDrive className="w-5 h-5" aria-hidden="true" />
+            Storage
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {usage ? (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-700">
+                Offline lessons use <strong>{formatCacheSize(usage.packs)}</strong>
+                {usage.quota > 0 && (
+                  <> · {formatCacheSize(usage.used)} of {formatCacheSize(usage.quota)} used by this site</>
+                )}
+              </p>
+              {usage.quota > 0 && (
+                <div className="w-full bg-gray-200 rounded-full h-2" aria-hidden="true">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full"
+                    style={{ width: `${Math.min(100, (usage.used / usage.quota) * 100)}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Measuring storage…</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Download a whole level</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {LEVELS.map(level => (
+              <div key={level} className="space-y-2">
+                <p className="text-sm font-medium text-gray-900">{level}</p>
+                <OfflinePackButton level={level} />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Downloaded packs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading…</p>
+          ) : packs.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Nothing downloaded yet. Use &quot;Download for offline&quot; on a lesson or level.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200" aria-label="Downloaded packs">
+              {packs.map(pack => {
+                const badge = STATUS_BADGES[pack.status];
+                const failed = pack.resources.filter(resource => resource.error).length;
+                const verified = pack.resources.filter(resource => resource.verified).length;
+                return (
+                  <li key={pack.id} className="py-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900">{pack.label}</span>
+                        <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {pack.lessonSlugs.length} {pack.lessonSlugs.length === 1 ? 'lesson' : 'lessons'}
+                        {' · '}{formatCacheSize(pack.totalBytes)}
+                        {' · '}{pack.resources.length} files, {verified} verified
+                        {failed > 0 && <span className="text-red-600"> · {failed} failed</span>}
+                      </p>
+                      {pack.downloadedAt && (
+                        <p className="text-xs text-gray-500">
+                          Downloaded {new Date(pack.downloadedAt).toLocaleString()}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      {pack.status !== 'complete' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRetry(pack)}
+                          loading={busyId === pack.id}
+                          ariaLabel={`Retry download of ${pack.label}`}
+                        >
+                          <RefreshCw className="w-4 h-4 mr-1" aria-hidden="true" />
+                          Retry
+                        </Button>
+                      )}
+                      <Button
+                        variant="danger"
+                        size="sm"
+                        onClick={() => handleRemove(pack)}
+                        disabled={busyId === pack.id}
+                        ariaLabel={`Remove ${pack.label} from this device`}
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" aria-hidden="true" />
+                        Remove
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default OfflineStorageManager;
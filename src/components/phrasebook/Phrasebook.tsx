@@ -0,0 +1,294 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Volume2, Trash2, FolderPlus, Folder, Download, Tag, Loader2 } from 'lucide-react';
+import Card, { CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import Badge from '@/components/ui/Badge';
+import { useAuth } from '@/hooks/useAuth';
+import { phrasebookService } from '@/lib/phrasebook/PhrasebookService';
+import { collectTags, filterPhrasebookEntries, toAnkiTSV, toCSV } from '@/lib/phrasebook/PhrasebookExport';
+import { speechService } from '@/lib/speech/SpeechService';
+import type { PhrasebookEntry, PhrasebookFolder } from '@/types';
+
+// undefined = all entries, null = entries outside any folder
+type FolderSelection = string | null | undefined;
+
+function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export function Phrasebook() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [entries, setEntries] = useState<PhrasebookEntry[]>([]);
+  const [folders, setFolders] = useState<PhrasebookFolder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [selectedFolder, setSelectedFolder] = useState<FolderSelection>(undefined);
+  const [selectedTag, setSelectedTag] = useState<string | undefined>(undefined);
+  const [newFolderName, setNewFolderName] = useState('');
+
+  const load = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setIsLoading(true);
+      const [loadedEntries, loadedFolders] = await Promise.all([
+        phrasebookService.getEntries(userId),
+        phrasebookService.getFolders(userId)
+      ]);
+      setEntries(loadedEntries);
+      setFolders(loadedFolders);
+    } catch (error) {
+      console.error('Failed to load phrasebook:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const visibleEntries = useMemo(
+    () => filterPhrasebookEntries(entries, { query, folderId: selectedFolder, tag: selectedTag }),
+    [entries, query, selectedFolder, selectedTag]
+  );
+  const tags = useMemo(() => collectTags(entries), [entries]);
+
+  const replaceEntry = (updated: PhrasebookEntry) => {
+    setEntries(prev => prev.map(entry => (entry.id === updated.id ? updated : entry)));
+  };
+
+  const handlePlay = async (entry: PhrasebookEntry) => {
+    const text = entry.vocab.tah ?? entry.vocab.fr;
+    try {
+      await speechService.speak(text, { lang: entry.vocab.tah ? 'ty-PF' : 'fr-FR' });
+    } catch (error) {
+      console.error('Failed to play pronunciation:', error);
+    }
+  };
+
+  const handleMove = async (entry: PhrasebookEntry, folderId: string) => {
+    replaceEntry(await phrasebookService.updateEntry(entry, { folderId: folderId || undefined }));
+  };
+
+  const handleTagsChange = async (entry: PhrasebookEntry, value: string) => {
+    replaceEntry(await phrasebookService.updateEntry(entry, { tags: value.split(',') }));
+  };
+
+  const handleRemove = async (entry: PhrasebookEntry) => {
+    await phrasebookService.removeEntry(entry.id);
+    setEntries(prev => prev.filter(e => e.id !== entry.id));
+  };
+
+  const handleCreateFolder = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!userId || !newFolderName.trim()) return;
+    const folder = await phrasebookService.createFolder(userId, newFolderName);
+    setFolders(prev => [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)));
+    setNewFolderName('');
+  };
+
+  const handleDeleteFolder = async (folder: PhrasebookFolder) => {
+    if (!userId) return;
+    await phrasebookService.deleteFolder(userId, folder.id);
+    if (selectedFolder === folder.id) setSelectedFolder(undefined);
+    await load();
+  };
+
+  const exportName = `phrasebook-${new Date().toISOString().split('T')[0]}`;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16" role="status">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" aria-hidden="true" />
+        <span className="sr-only">Loading phrasebook</span>
+      </div>
+    );
+  }
+
+  const folderButton = (label: string, value: FolderSelection) => (
+    <button
+      onClick={() => setSelectedFolder(value)}
+      className={`flex-1 text-left px-3 py-2 rounded-lg text-sm ${
+        selectedFolder === value ? 'bg-blue-100 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-100'
+      }`}
+      aria-pressed={selectedFolder === value}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+      <aside className="space-y-4" aria-label="Phrasebook folders">
+        <Card>
+          <CardContent>
+            <div className="space-y-1">
+              {folderButton('All words', undefined)}
+              {folderButton('Unfiled', null)}
+              {folders.map(folder => (
+                <div key={folder.id} className="flex items-center">
+                  <Folder className="w-4 h-4 text-gray-400 mr-1" aria-hidden="true" />
+                  {folderButton(folder.name, folder.id)}
+                  <button
+                    onClick={() => handleDeleteFolder(folder)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label={`Delete folder ${folder.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" aria-hidden="true" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <form onSubmit={handleCreateFolder} className="mt-4 flex gap-2">
+              <Input
+                value={newFolderName}
+                onChange={(e) => setNewFolderName(e.target.value)}
+                placeholder="New folder"
+                ariaLabel="New folder name"
+              />
+              <Button type="submit" variant="outline" size="sm" ariaLabel="Create folder">
+                <FolderPlus className="w-4 h-4" aria-hidden="true" />
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {tags.length > 0 && (
+          <Card>
+            <CardContent>
+              <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by tag">
+                {tags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => setSelectedTag(prev => (prev === tag ? undefined : tag))}
+                    aria-pressed={selectedTag === tag}
+                  >
+                    <Badge variant={selectedTag === tag ? 'primary' : 'default'} size="sm">
+                      <Tag className="w-3 h-3 mr-1" aria-hidden="true" />
+                      {tag}
+                    </Badge>
+                  </button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </aside>
+
+      <section className="md:col-span-3 space-y-4" aria-label="Phrasebook entries">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="flex-1">
+            <Input
+              variant="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search in French, Tahitian or English"
+              ariaLabel="Search phrasebook"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => downloadFile(toCSV(visibleEntries, folders), `${exportName}.csv`, 'text/csv;charset=utf-8')}
+            disabled={visibleEntries.length === 0}
+          >
+            <Download className="w-4 h-4 mr-2" aria-hidden="true" />
+            CSV
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => downloadFile(toAnkiTSV(visibleEntries), `${exportName}-anki.txt`, 'text/tab-separated-values;charset=utf-8')}
+            disabled={visibleEntries.length === 0}
+          >
+            <Download className="w-4 h-4 mr-2" aria-hidden="true" />
+            Anki
+          </Button>
+        </div>
+
+        {visibleEntries.length === 0 ? (
+          <Card>
+            <CardContent>
+              <div className="text-center py-12 space-y-2" role="status">
+                <p className="text-gray-700">
+                  {entries.length === 0 ? 'Your phrasebook is empty.' : 'No words match your filters.'}
+                </p>
+                {entries.length === 0 && (
+                  <Link href="/lessons" className="text-blue-600 hover:underline">
+                    Save words from any lesson&apos;s vocabulary tab
+                  </Link>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <ul className="space-y-3" role="list">
+            {visibleEntries.map(entry => (
+              <li key={entry.id} className="bg-white border border-gray-200 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 space-y-1">
+                    <p className="text-lg font-semibold text-gray-900" lang="ty">{entry.vocab.tah ?? entry.vocab.fr}</p>
+                    {entry.vocab.tah && <p className="text-sm text-gray-700" lang="fr">{entry.vocab.fr}</p>}
+                    {entry.vocab.en && <p className="text-sm text-gray-600" lang="en">{entry.vocab.en}</p>}
+                    {entry.lessonSlug && (
+                      <Link href={`/lessons/${entry.lessonSlug}`} className="text-xs text-blue-600 hover:underline">
+                        {entry.lessonSlug}
+                      </Link>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handlePlay(entry)}
+                      className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+                      aria-label={`Listen to ${entry.vocab.tah ?? entry.vocab.fr}`}
+                    >
+                      <Volume2 className="w-5 h-5" aria-hidden="true" />
+                    </button>
+                    <button
+                      onClick={() => handleRemove(entry)}
+                      className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                      aria-label={`Remove ${entry.vocab.tah ?? entry.vocab.fr} from phrasebook`}
+                    >
+                      <Trash2 className="w-5 h-5" aria-hidden="true" />
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                  <select
+                    value={entry.folderId ?? ''}
+                    onChange={(e) => handleMove(entry, e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    aria-label="Folder"
+                  >
+                    <option value="">Unfiled</option>
+                    {folders.map(folder => (
+                      <option key={folder.id} value={folder.id}>{folder.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    defaultValue={entry.tags.join(', ')}
+                    onBlur={(e) => handleTagsChange(entry, e.target.value)}
+                    placeholder="Tags, separated by commas"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    aria-label="Tags"
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Volume2, Eye, CheckCircle, Loader2 } from 'lucide-react';
+import Card, { CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { useAuth } from '@/hooks/useAuth';
+import { reviewScheduler } from '@/lib/srs/ReviewScheduler';
+import { speechService } from '@/lib/speech/SpeechService';
+import type { ReviewCard, ReviewGrade } from '@/types';
+
+const GRADE_BUTTONS: Array<{ grade: ReviewGrade; label: string; variant: 'danger' | 'outline' | 'secondary' | 'primary' }> = [
+  { grade: 'again', label: 'Again', variant: 'danger' },
+  { grade: 'hard', label: 'Hard', variant: 'outline' },
+  { grade: 'good', label: 'Good', variant: 'secondary' },
+  { grade: 'easy', label: 'Easy', variant: 'primary' }
+];
+
+export function ReviewSession() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [queue, setQueue] = useState<ReviewCard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setIsLoading(true);
+      setQueue(await reviewScheduler.getDueQueue(userId));
+    } catch (err) {
+      console.error('Failed to load review queue:', err);
+      setError('Could not load your review queue.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const current = queue[0];
+
+  const handlePlay = async () => {
+    if (!current?.vocab.tah) return;
+    try {
+      await speechService.speak(current.vocab.tah);
+    } catch (err) {
+      console.error('Failed to play pronunciation:', err);
+    }
+  };
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!current) return;
+    try {
+      await reviewScheduler.recordReview(current, grade);
+      // Failed cards come back at the end of today's session
+      setQueue(prev => (grade === 'again' ? [...prev.slice(1), prev[0]] : prev.slice(1)));
+      setReviewedCount(prev => prev + 1);
+      setShowAnswer(false);
+    } catch (err) {
+      console.error('Failed to record review:', err);
+      setError('Could not save your answer. Please try again.');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16" role="status">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" aria-hidden="true" />
+        <span className="sr-only">Loading review queue</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent>
+          <p className="text-center py-8 text-red-600" role="alert">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!current) {
+    return (
+      <Card>
+        <CardContent>
+          <div className="text-center py-12 space-y-4" role="status">
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto" aria-hidden="true" />
+            <h2 className="text-lg font-semibold text-gray-900">
+              {reviewedCount > 0 ? `All done! You reviewed ${reviewedCount} cards.` : 'Nothing due today'}
+            </h2>
+            <p className="text-gray-600">New words are added to your reviews as you study lessons.</p>
+            <Link href="/lessons" className="inline-block text-blue-600 hover:underline">
+              Browse lessons
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent>
+        <div className="space-y-6">
+          <div className="flex items-center justify-between text-sm text-gray-500">
+            <span aria-live="polite">{queue.length} due today</span>
+            <span>{reviewedCount} reviewed</span>
+          </div>
+
+          <div className="text-center py-8 space-y-3">
+            <p className="text-3xl font-bold text-gray-900">{current.vocab.tah ?? current.vocab.fr}</p>
+            {current.vocab.ipaTah && (
+              <p className="text-gray-500">/{current.vocab.ipaTah}/</p>
+            )}
+            {current.vocab.tah && (
+              <Button variant="ghost" size="sm" onClick={handlePlay} ariaLabel={`Play pronunciation of ${current.vocab.tah}`}>
+                <Volume2 className="w-4 h-4" aria-hidden="true" />
+              </Button>
+            )}
+          </div>
+
+          {showAnswer ? (
+            <div className="space-y-6">
+              <div className="text-center border-t pt-6 space-y-1">
+                <p className="text-xl text-gray-800">{current.vocab.fr}</p>
+                {current.vocab.en && <p className="text-gray-600">{current.vocab.en}</p>}
+                {current.vocab.note && <p className="text-sm text-gray-500">{current.vocab.note}</p>}
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {GRADE_BUTTONS.map(({ grade, label, variant }) => (
+                  <Button key={grade} variant={variant} onClick={() => handleGrade(grade)}>
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="text-center">
+              <Button variant="primary" onClick={() => setShowAnswer(true)}>
+                <Eye className="w-4 h-4 mr-2" aria-hidden="true" />
+                Show answer
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
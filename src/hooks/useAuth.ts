@@ -1,7 +1,17 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import authService, { AuthState, LoginCredentials, RegisterData, ResetPasswordData, ChangePasswordData, User } from '../services/AuthService';
+import authService, {
+  AuthState,
+  LoginCredentials,
+  LoginResult,
+  RegisterData,
+  ResetPasswordData,
+  ChangePasswordData,
+  TwoFactorAnswer,
+  TwoFactorChallenge,
+  User
+} from '../services/AuthService';
 import { LoggingService } from '../services/LoggingService';
 import { PerformanceMonitoringService } from '../services/PerformanceMonitoringService';
 
@@ -13,10 +23,13 @@ export interface UseAuthReturn {
   error: string | null;
   
   // Actions
-  login: (credentials: LoginCredentials) => Promise<{ success: boolean; error?: string }>;
+  login: (credentials: LoginCredentials) => Promise<LoginResult>;
+  verifyTwoFactor: (challenge: TwoFactorChallenge, answer: TwoFactorAnswer) => Promise<{ success: boolean; error?: string }>;
   register: (data: RegisterData) => Promise<{ success: boolean; error?: string }>;
   logout: () => Promise<void>;
   resetPassword: (data: ResetPasswordData) => Promise<{ success: boolean; error?: string }>;
+  verifyEmail: (token: string) => Promise<{ success: boolean; error?: string; expired?: boolean }>;
+  resendVerification: () => Promise<{ success: boolean; error?: string }>;
   changePassword: (data: ChangePasswordData) => Promise<{ success: boolean; error?: string }>;
   updateProfile: (updates: Partial<User>) => Promise<{ success: boolean; error?: string }>;
   refreshTokens: () => Promise<boolean>;
@@ -101,7 +114,14 @@ export function useAuth(): UseAuthReturn {
       
       const duration = Date.now() - startTime;
       
-      if (result.success) {
+      if (result.challenge) {
+        LoggingService.info('Login awaiting second factor', {
+          email: credentials.email,
+          purpose: result.challenge.purpose,
+          duration,
+          timestamp: new Date().toISOString()
+        });
+      } else if (result.success) {
         PerformanceMonitoringService.recordMetric({
           name: 'auth_login_duration',
           value: duration,
@@ -164,6 +184,32 @@ export function useAuth(): UseAuthReturn {
     }
   }, []);
 
+  const verifyTwoFactor = useCallback(async (challenge: TwoFactorChallenge, answer: TwoFactorAnswer) => {
+    const result = await authService.verifyTwoFactor(challenge, answer);
+    if (!result.success) {
+      LoggingService.warn('Two-factor verification failed', {
+        method: answer.recoveryCode ? 'recovery_code' : 'totp',
+        error: result.error,
+        timestamp: new Date().toISOString()
+      });
+    }
+    return result;
+  }, []);
+
+  const verifyEmail = useCallback(async (token: string) => {
+    const result = await authService.verifyEmail(token);
+    if (!result.success) {
+      LoggingService.warn('Email verification failed', {
+        expired: result.expired,
+        error: result.error,
+        timestamp: new Date().toISOString()
+      });
+    }
+    return result;
+  }, []);
+
+  const resendVerification = useCallback(() => authService.resendVerification(), []);
+
   const register = useCallback(async (data: RegisterData) => {
     const startTime = Date.now();
     
@@ -562,9 +608,12 @@ export function useAuth(): UseAuthReturn {
     
     // Actions
     login,
+    verifyTwoFactor,
     register,
     logout,
     resetPassword,
+    verifyEmail,
+    resendVerification,
     changePassword,
     updateProfile,
     refreshTokens,
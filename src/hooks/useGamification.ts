@@ -0,0 +1,74 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { useI18n } from '../i18n/provider';
+import { gamificationService } from '../lib/gamification/GamificationService';
+import { resolveTimeZone } from '../utils/localeFormatting';
+import type { GamificationSummary } from '../lib/gamification/Gamification';
+import type { GamificationSettings, LearningActivity, Lesson, UserProgress, WeeklyGoals } from '../types';
+
+export interface UseGamificationReturn {
+  summary: GamificationSummary | null;
+  activities: LearningActivity[];
+  settings: GamificationSettings | null;
+  isLoading: boolean;
+  updateWeeklyGoals: (goals: WeeklyGoals) => Promise<void>;
+}
+
+/**
+ * Streak, XP, weekly goals and achievements of the signed-in user, recomputed
+ * whenever their progress changes. Days end at midnight in the user's timezone.
+ */
+export function useGamification(lessons: Lesson[], progress: UserProgress[]): UseGamificationReturn {
+  const { user } = useAuth();
+  const { locale } = useI18n();
+  const userId = user?.id ?? null;
+  const [summary, setSummary] = useState<GamificationSummary | null>(null);
+  const [activities, setActivities] = useState<LearningActivity[]>([]);
+  const [settings, setSettings] = useState<GamificationSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    if (!userId) {
+      setSummary(null);
+      setActivities([]);
+      setSettings(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let active = true;
+    const load = async () => {
+      const userSettings = await gamificationService.getSettings(userId);
+      const timeZone = resolveTimeZone(locale, userSettings.timezone);
+      const [nextSummary, nextActivities] = await Promise.all([
+        gamificationService.getSummary(userId, lessons, progress, timeZone),
+        gamificationService.getActivities(userId)
+      ]);
+      if (!active) return;
+      setSummary(nextSummary);
+      setActivities(nextActivities);
+      setSettings(userSettings);
+    };
+
+    load()
+      .catch(error => console.error('Failed to load gamification data:', error))
+      .finally(() => {
+        if (active) setIsLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [userId, locale, lessons, progress, revision]);
+
+  const updateWeeklyGoals = useCallback(async (goals: WeeklyGoals) => {
+    if (!userId) return;
+    await gamificationService.updateWeeklyGoals(userId, goals);
+    setRevision(value => value + 1);
+  }, [userId]);
+
+  return { summary, activities, settings, isLoading, updateWeeklyGoals };
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from './useAuth';
+import { progressStore } from '../lib/progress/ProgressStore';
+import type { UserProgress } from '../types';
+
+export interface UseUserProgressReturn {
+  /** Id of the signed-in user the progress belongs to */
+  userId: string | null;
+  progress: UserProgress[];
+  isLoading: boolean;
+  recordProgress: (progress: Omit<UserProgress, 'userId'>, attemptsDelta?: number) => Promise<void>;
+}
+
+/**
+ * Progress of the signed-in user, optionally narrowed to one lesson. Shows the
+ * local copy immediately and updates when the server copy arrives.
+ */
+export function useUserProgress(lessonId?: number): UseUserProgressReturn {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [progress, setProgress] = useState<UserProgress[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setProgress([]);
+      setIsLoading(false);
+      return;
+    }
+
+    let active = true;
+    const unsubscribe = progressStore.subscribe((updatedUserId, updated) => {
+      if (active && updatedUserId === userId) setProgress(updated);
+    });
+
+    setIsLoading(true);
+    progressStore.getProgress(userId)
+      .then(local => {
+        if (active) setProgress(local);
+      })
+      .catch(error => console.error('Failed to load progress:', error))
+      .finally(() => {
+        if (active) setIsLoading(false);
+      });
+
+    progressStore.refresh(userId).catch(error => {
+      console.error('Failed to refresh progress from the server:', error);
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const recordProgress = useCallback(async (entry: Omit<UserProgress, 'userId'>, attemptsDelta = 1) => {
+    if (!userId) return;
+    await progressStore.recordProgress({ ...entry, userId }, attemptsDelta);
+  }, [userId]);
+
+  const visibleProgress = useMemo(
+    () => lessonId === undefined ? progress : progress.filter(p => p.lessonId === lessonId),
+    [progress, lessonId]
+  );
+
+  return { userId, progress: visibleProgress, isLoading, recordProgress };
+}
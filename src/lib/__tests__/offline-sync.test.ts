@@ -0,0 +1,113 @@
+import type { OfflineAction } from '../indexeddb-service';
+import type { UserProgress } from '../../types';
+
+// One device queue, shared by whoever signs in on it
+const mockQueue: OfflineAction[] = [];
+const mockAuth = { userId: null as string | null };
+
+jest.mock('../indexeddb-service', () => {
+  const { pendingActionsOf } = jest.requireActual('../indexeddb-service');
+  return {
+    pendingActionsOf,
+    indexedDBService: {
+      addOfflineAction: jest.fn(async (userId: string, type: OfflineAction['type'], data: Record<string, unknown>) => {
+        const action = { id: mockQueue.length + 1, actionId: `action-${mockQueue.length + 1}`, userId, type, data, timestamp: Date.now(), synced: false, retryCount: 0, nextAttemptAt: 0 };
+        mockQueue.push(action);
+        return action;
+      }),
+      getUnsyncedActions: jest.fn(async (userId: string) => pendingActionsOf(mockQueue, userId)),
+      markActionSynced: jest.fn(async (id: number) => {
+        mockQueue.find(action => action.id === id)!.synced = true;
+      }),
+      updateOfflineAction: jest.fn(async () => undefined),
+      close: jest.fn()
+    }
+  };
+});
+
+jest.mock('../../services/AuthService', () => ({
+  __esModule: true,
+  default: {
+    getState: () => ({ user: mockAuth.userId ? { id: mockAuth.userId } : null }),
+    getAuthHeader: () => (mockAuth.userId ? `Bearer token-of-${mockAuth.userId}` : null)
+  }
+}));
+
+jest.mock('../data/JSONDataService', () => ({ JSONDataService: jest.fn() }));
+
+import { offlineSyncService } from '../offline-sync';
+
+const progress = (userId: string, score: number): UserProgress => ({
+  userId,
+  lessonId: 1,
+  sectionKind: 'Practice',
+  completed: score >= 70,
+  score,
+  attempts: 1,
+  updatedAt: 1000
+});
+
+function sentBatches() {
+  return (global.fetch as jest.Mock).mock.calls.map(([, init]) => ({
+    authorization: init.headers.Authorization,
+    actions: JSON.parse(init.body).actions as { id: string; userId: string }[]
+  }));
+}
+
+describe('offlineSyncService', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn(async (_url: string, init: RequestInit) => {
+      const { actions } = JSON.parse(String(init.body)) as { actions: { id: string }[] };
+      return {
+        ok: true,
+        json: async () => ({
+          applied: actions.map(action => action.id),
+          duplicates: [],
+          rejected: [],
+          state: { progress: [], completions: [], vocabulary: [], updatedAt: 0 }
+        })
+      };
+    }) as jest.Mock;
+  });
+
+  afterAll(() => {
+    offlineSyncService.destroy();
+  });
+
+  it('only syncs a shared queue to the account of the user who queued each action', async () => {
+    // Hina practises offline, then Teva signs in on the same device
+    window.dispatchEvent(new Event('offline'));
+    mockAuth.userId = 'hina';
+    await offlineSyncService.saveUserProgress('hina', progress('hina', 40));
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    mockAuth.userId = 'teva';
+    window.dispatchEvent(new Event('online'));
+    await offlineSyncService.forceSync();
+    await offlineSyncService.saveUserProgress('teva', progress('teva', 90));
+
+    expect(sentBatches()).toEqual([{ authorization: 'Bearer token-of-teva', actions: [expect.objectContaining({ id: 'action-2', userId: 'teva' })] }]);
+    expect(mockQueue.find(action => action.userId === 'hina')).toMatchObject({ synced: false });
+
+    // Hina's attempt waits for her to sign in again
+    mockAuth.userId = 'hina';
+    await offlineSyncService.forceSync();
+    expect(sentBatches()[1]).toEqual({ authorization: 'Bearer token-of-hina', actions: [expect.objectContaining({ id: 'action-1', userId: 'hina' })] });
+    expect(mockQueue.every(action => action.synced)).toBe(true);
+  });
+
+  it('flushes the signed-in user\'s queue and leaves the rest for their owners', async () => {
+    mockAuth.userId = 'hina';
+    window.dispatchEvent(new Event('offline'));
+    await offlineSyncService.saveUserProgress('hina', progress('hina', 75));
+    await offlineSyncService.saveUserProgress('teva', progress('teva', 95));
+    mockAuth.userId = null;
+    window.dispatchEvent(new Event('online'));
+    mockAuth.userId = 'hina';
+
+    await offlineSyncService.flushPendingActions();
+
+    expect(sentBatches()).toEqual([{ authorization: 'Bearer token-of-hina', actions: [expect.objectContaining({ id: 'action-3', userId: 'hina' })] }]);
+    expect(mockQueue.filter(action => !action.synced).map(action => action.userId)).toEqual(['teva']);
+  });
+});
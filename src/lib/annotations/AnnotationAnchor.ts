@@ -0,0 +1,237 @@
+// Anchors reviewer annotations to spans of lesson text. An anchor keeps the
+// annotated words with a little of the text on either side, so the span is
+// found again after the section is edited around it; it is lost only when the
+// annotated words themselves change.
+
+import type { Lesson, VocabItem } from '../../types';
+import type {
+  Annotation,
+  AnnotationAnchor,
+  AnnotationCategory,
+  PolynesianDialect,
+  VocabAnnotationField
+} from '../../types/collaboration';
+import { offsetToPosition } from '../collaboration/TextOperation';
+
+export class AnnotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnnotationError';
+  }
+}
+
+/** Characters of context kept on each side of the annotated words */
+const QUOTE_CONTEXT = 32;
+
+export const ANNOTATION_CATEGORY_LABELS: Record<AnnotationCategory, string> = {
+  dialect: 'Dialect note',
+  accuracy: 'Accuracy concern',
+  cultural: 'Cultural sensitivity'
+};
+
+export const DIALECT_LABELS: Record<PolynesianDialect, string> = {
+  tahitian: 'Tahitian (Reo Tahiti)',
+  marquesan: 'Marquesan (ʻEo ʻEnana)',
+  paumotu: 'Paumotu (Reo Pa\'umotu)',
+  austral: 'Austral (Reo Tūhaʻa Pae)',
+  mangarevan: 'Mangarevan (Reo Magareva)'
+};
+
+export const VOCAB_ANNOTATION_FIELDS: VocabAnnotationField[] = ['fr', 'tah', 'en', 'note'];
+
+/** What is being annotated: a section's markdown or a field of one of its vocabulary items */
+export interface AnnotationTarget {
+  sectionIndex: number;
+  field: AnnotationAnchor['field'];
+  vocabIndex?: number;
+}
+
+/** Where an anchor was found in the lesson as it is now */
+export interface ResolvedAnchor extends AnnotationTarget {
+  start: number;
+  end: number;
+}
+
+export function lessonContentId(slug: string): string {
+  return `lesson-${slug}`;
+}
+
+export function vocabKey(item: VocabItem): string {
+  return `${item.fr}|${item.tah ?? ''}`;
+}
+
+/** The annotatable text at the target, or undefined if the lesson has no such text */
+export function targetText(lesson: Lesson, target: AnnotationTarget): string | undefined {
+  const section = lesson.sections[target.sectionIndex];
+  if (!section) return undefined;
+  if (target.field === 'contentMd') return section.contentMd;
+  if (target.vocabIndex === undefined) return undefined;
+  return section.vocab?.[target.vocabIndex]?.[target.field];
+}
+
+/** Anchors the characters `start`..`end` of the target's text */
+export function createAnchor(lesson: Lesson, target: AnnotationTarget, start: number, end: number): AnnotationAnchor {
+  const text = targetText(lesson, target);
+  if (text === undefined) throw new AnnotationError('There is no text to annotate there');
+  if (!(start >= 0 && end <= text.length && start < end)) throw new AnnotationError('Select the words to annotate');
+
+  const exact = text.slice(start, end);
+  if (exact.trim() === '') throw new AnnotationError('Select the words to annotate');
+
+  const section = lesson.sections[target.sectionIndex];
+  const vocab = target.field === 'contentMd' || target.vocabIndex === undefined ? undefined : section.vocab?.[target.vocabIndex];
+  return {
+    lessonSlug: lesson.slug,
+    sectionIndex: target.sectionIndex,
+    sectionKind: section.kind,
+    field: target.field,
+    ...(vocab ? { vocabIndex: target.vocabIndex, vocabKey: vocabKey(vocab) } : {}),
+    quote: {
+      exact,
+      prefix: text.slice(Math.max(0, start - QUOTE_CONTEXT), start),
+      suffix: text.slice(end, end + QUOTE_CONTEXT)
+    },
+    start,
+    end
+  };
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+}
+
+/**
+ * Finds the quoted words in `text`. Of several occurrences, the one whose
+ * surroundings best match the quote's wins, and the one nearest `hint` on a
+ * tie. Returns null when the words are no longer there.
+ */
+export function locateQuote(text: string, quote: AnnotationAnchor['quote'], hint = 0): { start: number; end: number } | null {
+  if (!quote.exact) return null;
+
+  let best: { start: number; score: number; distance: number } | null = null;
+  for (let start = text.indexOf(quote.exact); start !== -1; start = text.indexOf(quote.exact, start + 1)) {
+    const end = start + quote.exact.length;
+    const score = commonSuffixLength(text.slice(Math.max(0, start - quote.prefix.length), start), quote.prefix)
+      + commonPrefixLength(text.slice(end, end + quote.suffix.length), quote.suffix);
+    const distance = Math.abs(start - hint);
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start, score, distance };
+    }
+  }
+  return best && { start: best.start, end: best.start + quote.exact.length };
+}
+
+/**
+ * Finds an anchor in the lesson as it is now. Sections and vocabulary items
+ * are looked up where they were, then by kind or words if they moved.
+ */
+export function resolveAnchor(lesson: Lesson, anchor: AnnotationAnchor): ResolvedAnchor | null {
+  if (anchor.lessonSlug !== lesson.slug) return null;
+
+  const sameKind = lesson.sections[anchor.sectionIndex]?.kind === anchor.sectionKind;
+  const candidates = sameKind
+    ? [anchor.sectionIndex]
+    : lesson.sections.flatMap((section, index) => (section.kind === anchor.sectionKind ? [index] : []));
+
+  for (const sectionIndex of candidates) {
+    let vocabIndex: number | undefined;
+    if (anchor.field !== 'contentMd') {
+      const vocab = lesson.sections[sectionIndex].vocab ?? [];
+      const byKey = vocab.findIndex(item => vocabKey(item) === anchor.vocabKey);
+      vocabIndex = byKey !== -1 ? byKey : anchor.vocabIndex;
+    }
+
+    const target = { sectionIndex, field: anchor.field, vocabIndex };
+    const text = targetText(lesson, target);
+    const range = text === undefined ? null : locateQuote(text, anchor.quote, anchor.start);
+    if (range) return { ...target, ...range };
+  }
+  return null;
+}
+
+export function sameTarget(a: AnnotationTarget, b: AnnotationTarget): boolean {
+  return a.sectionIndex === b.sectionIndex && a.field === b.field && (a.field === 'contentMd' || a.vocabIndex === b.vocabIndex);
+}
+
+/** An annotation with where its anchor is now; `range` is null once the annotated words are gone */
+export interface ResolvedAnnotation {
+  annotation: Annotation;
+  range: ResolvedAnchor | null;
+}
+
+/** Finds the lesson's anchored annotations in its current text */
+export function resolveAnnotations(lesson: Lesson, annotations: Annotation[]): ResolvedAnnotation[] {
+  return annotations
+    .filter(annotation => annotation.anchor?.lessonSlug === lesson.slug)
+    .map(annotation => ({ annotation, range: resolveAnchor(lesson, annotation.anchor!) }));
+}
+
+/** The resolved annotations on one section's markdown or vocabulary field */
+export function annotationsAt(resolved: ResolvedAnnotation[], target: AnnotationTarget): (ResolvedAnnotation & { range: ResolvedAnchor })[] {
+  return resolved.filter((entry): entry is ResolvedAnnotation & { range: ResolvedAnchor } => (
+    entry.range !== null && sameTarget(entry.range, target)
+  ));
+}
+
+/** The anchor as the line/character `position` annotations have always carried */
+export function anchorPosition(anchor: AnnotationAnchor, text: string): Annotation['position'] {
+  const start = offsetToPosition(text, anchor.start);
+  const end = offsetToPosition(text, anchor.end);
+  const field = anchor.field === 'contentMd' ? 'contentMd' : `vocab.${anchor.vocabIndex}.${anchor.field}`;
+  return {
+    section: `${anchor.lessonSlug}:${anchor.sectionIndex}:${field}`,
+    startLine: start.line,
+    endLine: end.line,
+    startChar: start.character,
+    endChar: end.character
+  };
+}
+
+export interface HighlightRange {
+  id: string;
+  start: number;
+  end: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  /** Where the segment starts in the source */
+  offset: number;
+  /** Ranges covering the segment, innermost last */
+  ids: string[];
+}
+
+/**
+ * Splits a run of text that starts at `offset` in its source wherever one of
+ * the ranges (in source offsets) begins or ends.
+ */
+export function highlightSegments(text: string, offset: number, ranges: HighlightRange[]): HighlightSegment[] {
+  const end = offset + text.length;
+  const overlapping = ranges.filter(range => range.start < end && range.end > offset);
+  const cuts = new Set([offset, end]);
+  for (const range of overlapping) {
+    if (range.start > offset) cuts.add(range.start);
+    if (range.end < end) cuts.add(range.end);
+  }
+
+  const points = [...cuts].sort((a, b) => a - b);
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const from = points[i];
+    const to = points[i + 1];
+    const ids = overlapping
+      .filter(range => range.start <= from && range.end >= to)
+      .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+      .map(range => range.id);
+    segments.push({ text: text.slice(from - offset, to - offset), offset: from, ids });
+  }
+  return segments;
+}
@@ -0,0 +1,103 @@
+import {
+  AnnotationError,
+  annotationsAt,
+  createAnchor,
+  highlightSegments,
+  resolveAnchor,
+  resolveAnnotations
+} from '../AnnotationAnchor';
+import type { Lesson } from '../../../types';
+import type { Annotation } from '../../../types/collaboration';
+
+function lesson(contentMd: string, vocab = [
+  { fr: 'bonjour', tah: 'ia ora na', en: 'hello' },
+  { fr: 'merci', tah: 'māuruuru', en: 'thank you', note: 'Aux Marquises on dit koutau.' }
+]): Lesson {
+  return {
+    slug: 'salutations',
+    level: 'Beginner',
+    title: { fr: 'Salutations' },
+    summary: '',
+    sections: [
+      { kind: 'Culture', title: 'Culture', contentMd },
+      { kind: 'Vocabulary', title: 'Vocabulaire', vocab }
+    ]
+  };
+}
+
+const TEXT = 'On salue avec **ia ora na**. Aux Marquises, on dit *kaoha*.';
+
+describe('AnnotationAnchor', () => {
+  it('anchors a selection with the text around it', () => {
+    const start = TEXT.indexOf('kaoha');
+    const anchor = createAnchor(lesson(TEXT), { sectionIndex: 0, field: 'contentMd' }, start, start + 5);
+
+    expect(anchor).toMatchObject({
+      lessonSlug: 'salutations',
+      sectionKind: 'Culture',
+      field: 'contentMd',
+      quote: { exact: 'kaoha', prefix: 'ra na**. Aux Marquises, on dit *', suffix: '*.' },
+      start
+    });
+    expect(() => createAnchor(lesson(TEXT), { sectionIndex: 0, field: 'contentMd' }, 3, 3)).toThrow(AnnotationError);
+    expect(() => createAnchor(lesson(TEXT), { sectionIndex: 0, field: 'contentMd' }, 8, 9)).toThrow('Select the words to annotate');
+  });
+
+  it('follows the annotated words through edits around them', () => {
+    const start = TEXT.indexOf('kaoha');
+    const anchor = createAnchor(lesson(TEXT), { sectionIndex: 0, field: 'contentMd' }, start, start + 5);
+    const edited = `Une introduction.\n\n${TEXT.replace('on dit', 'on entend')}`;
+
+    const range = resolveAnchor(lesson(edited), anchor);
+    expect(range).toMatchObject({ sectionIndex: 0, field: 'contentMd' });
+    expect(edited.slice(range!.start, range!.end)).toBe('kaoha');
+
+    // Moving the section keeps the anchor; removing the words orphans it
+    const moved = lesson(edited);
+    moved.sections.reverse();
+    expect(resolveAnchor(moved, anchor)).toMatchObject({ sectionIndex: 1 });
+    expect(resolveAnchor(lesson(TEXT.replace('kaoha', 'bonjour')), anchor)).toBeNull();
+  });
+
+  it('tells repeated words apart by their surroundings', () => {
+    const text = 'Ia ora na le matin. Ia ora na le soir.';
+    const start = text.lastIndexOf('Ia ora na');
+    const anchor = createAnchor(lesson(text), { sectionIndex: 0, field: 'contentMd' }, start, start + 9);
+
+    const edited = `Ia ora na ! ${text}`;
+    const range = resolveAnchor(lesson(edited), anchor);
+    expect(range!.start).toBe(edited.lastIndexOf('Ia ora na'));
+  });
+
+  it('anchors vocabulary fields by the item rather than its position', () => {
+    const note = 'Aux Marquises on dit koutau.';
+    const anchor = createAnchor(lesson(TEXT), { sectionIndex: 1, field: 'note', vocabIndex: 1 }, note.indexOf('koutau'), note.indexOf('koutau') + 6);
+    expect(anchor).toMatchObject({ vocabIndex: 1, vocabKey: 'merci|māuruuru' });
+
+    const reordered = lesson(TEXT, [
+      { fr: 'merci', tah: 'māuruuru', en: 'thank you', note: `Attention : ${note}` },
+      { fr: 'bonjour', tah: 'ia ora na', en: 'hello' }
+    ]);
+    const annotation = { id: 'a1', anchor } as Annotation;
+    const resolved = resolveAnnotations(reordered, [annotation, { id: 'a2' } as Annotation]);
+
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0].range).toMatchObject({ sectionIndex: 1, field: 'note', vocabIndex: 0 });
+    expect(annotationsAt(resolved, { sectionIndex: 1, field: 'note', vocabIndex: 0 })).toHaveLength(1);
+    expect(annotationsAt(resolved, { sectionIndex: 1, field: 'note', vocabIndex: 1 })).toHaveLength(0);
+  });
+
+  it('splits text into highlighted segments with the innermost range last', () => {
+    const segments = highlightSegments('ia ora na', 10, [
+      { id: 'outer', start: 10, end: 19 },
+      { id: 'inner', start: 13, end: 16 },
+      { id: 'elsewhere', start: 30, end: 35 }
+    ]);
+
+    expect(segments).toEqual([
+      { text: 'ia ', offset: 10, ids: ['outer'] },
+      { text: 'ora', offset: 13, ids: ['outer', 'inner'] },
+      { text: ' na', offset: 16, ids: ['outer'] }
+    ]);
+  });
+});
@@ -0,0 +1,24 @@
+// JSON responses that answer If-None-Match with 304 Not Modified
+
+import { NextRequest, NextResponse } from 'next/server';
+import { computeETag, etagMatches } from './ETag';
+
+/**
+ * Serializes `body` and tags it with an ETag. Responses are private to the
+ * signed-in user and must be revalidated before reuse.
+ */
+export function jsonWithETag(request: NextRequest, body: unknown, init: ResponseInit = {}): NextResponse {
+  const json = JSON.stringify(body);
+  const etag = computeETag(json);
+  const headers = new Headers(init.headers);
+  headers.set('ETag', etag);
+  headers.set('Cache-Control', 'private, no-cache');
+  headers.set('Vary', 'Authorization');
+
+  if (etagMatches(request.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  headers.set('Content-Type', 'application/json');
+  return new NextResponse(json, { ...init, headers });
+}
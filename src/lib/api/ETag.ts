@@ -0,0 +1,26 @@
+// Entity tags for JSON API responses, so clients can revalidate with If-None-Match
+
+import { createHash } from 'crypto';
+
+/**
+ * Weak ETag over the serialized body. Weak because the same JSON may be sent
+ * compressed or uncompressed.
+ */
+export function computeETag(body: string): string {
+  return `W/"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+function opaqueTag(tag: string): string {
+  return tag.trim().replace(/^W\//, '');
+}
+
+/**
+ * Weak comparison of an If-None-Match header against the current ETag
+ */
+export function etagMatches(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+
+  const current = opaqueTag(etag);
+  return ifNoneMatch.split(',').some(tag => opaqueTag(tag) === current);
+}
@@ -0,0 +1,22 @@
+import { computeETag, etagMatches } from '../ETag';
+
+describe('ETag', () => {
+  it('is stable for the same body and changes with it', () => {
+    const etag = computeETag('{"success":true}');
+
+    expect(etag).toMatch(/^W\/".+"$/);
+    expect(computeETag('{"success":true}')).toBe(etag);
+    expect(computeETag('{"success":false}')).not.toBe(etag);
+  });
+
+  it('matches If-None-Match with weak comparison', () => {
+    const etag = computeETag('body');
+    const strong = etag.replace(/^W\//, '');
+
+    expect(etagMatches(etag, etag)).toBe(true);
+    expect(etagMatches(`"other", ${strong}`, etag)).toBe(true);
+    expect(etagMatches('*', etag)).toBe(true);
+    expect(etagMatches('"other"', etag)).toBe(false);
+    expect(etagMatches(null, etag)).toBe(false);
+  });
+});
@@ -30,6 +30,7 @@ export class AdminAuthService {
         'courses.create',
         'courses.edit',
         'courses.publish',
+        'courses.review',
         'lessons.create',
         'lessons.edit',
         'media.upload',
@@ -37,6 +38,24 @@ export class AdminAuthService {
       ],
       createdAt: Date.now(),
       lastSeenAt: Date.now()
+    },
+    {
+      id: 3,
+      nickname: 'Language Advisor',
+      email: 'linguist@tahitian-tutor.com',
+      role: 'linguist',
+      permissions: ['courses.review'],
+      createdAt: Date.now(),
+      lastSeenAt: Date.now()
+    },
+    {
+      id: 4,
+      nickname: 'Cultural Advisor',
+      email: 'culture@tahitian-tutor.com',
+      role: 'cultural_advisor',
+      permissions: ['courses.review'],
+      createdAt: Date.now(),
+      lastSeenAt: Date.now()
     }
   ];
 
@@ -48,7 +67,9 @@ export class AdminAuthService {
     // Demo authentication - in production, use proper password hashing
     const demoPasswords: Record<string, string> = {
       'admin@tahitian-tutor.com': 'admin123',
-      'manager@tahitian-tutor.com': 'manager123'
+      'manager@tahitian-tutor.com': 'manager123',
+      'linguist@tahitian-tutor.com': 'linguist123',
+      'culture@tahitian-tutor.com': 'culture123'
     };
 
     if (demoPasswords[email] === password) {
@@ -177,6 +198,7 @@ export class AdminAuthService {
       'courses.delete',
       'courses.publish',
       'courses.archive',
+      'courses.review',
       'lessons.create',
       'lessons.edit',
       'lessons.delete',
@@ -136,6 +136,7 @@ export class AuthBridge {
         'courses.create',
         'courses.edit',
         'courses.publish',
+        'courses.review',
         'lessons.create',
         'lessons.edit',
         'media.upload',
@@ -162,7 +163,8 @@ export class AuthBridge {
         'create': 'courses.create',
         'update': 'courses.edit',
         'delete': 'courses.delete',
-        'manage': 'content.manage'
+        'manage': 'content.manage',
+        'approve': 'courses.review'
       },
       'user': {
         'read': 'users.view',
@@ -0,0 +1,291 @@
+// Persistence for the /api/auth routes: accounts, refresh-token sessions,
+// password reset tokens, answered two-factor challenges and the activity log.
+// Timestamps are ISO strings, as the routes send them to clients.
+
+export type AccountRole = 'student' | 'instructor' | 'admin' | 'super_admin';
+
+export interface AccountRecord {
+  id: string;
+  /** Always lower case */
+  email: string;
+  name: string;
+  role: AccountRole;
+  passwordHash: string;
+  avatar?: string;
+  preferences?: Record<string, unknown>;
+  isEmailVerified: boolean;
+  isActive: boolean;
+  emailVerificationToken?: string;
+  emailVerificationExpiresAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt?: string;
+  /** Encrypted TOTP secret, set once two-factor sign-in is enabled */
+  twoFactorSecret?: string;
+  /** Encrypted secret being enrolled, until the first code confirms it */
+  twoFactorPendingSecret?: string;
+  twoFactorEnabledAt?: string;
+  /** SHA-256 hashes of the unused recovery codes */
+  twoFactorRecoveryCodes?: string[];
+  /** Time step of the last accepted code, so each code works once */
+  twoFactorLastStep?: number;
+}
+
+export type AccountChanges = Partial<Omit<AccountRecord, 'id' | 'createdAt'>>;
+
+/** Why a refresh token stopped working */
+export type SessionEndReason = 'rotated' | 'logout' | 'revoked' | 'reuse_detected' | 'password_reset';
+
+/**
+ * One refresh token. Each refresh replaces the token with a new record in the
+ * same family, so a family is one signed-in device.
+ */
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  refreshToken: string;
+  expiresAt: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt?: string;
+  /** Shared by every token rotated from one sign-in; older rows have none and stand alone */
+  familyId?: string;
+  /** When the family's first token was issued */
+  signedInAt?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  endedReason?: SessionEndReason;
+}
+
+/** The family a session belongs to; sessions from before families are their own */
+export const sessionFamily = (session: Pick<SessionRecord, 'id' | 'familyId'>): string => session.familyId ?? session.id;
+
+export interface PasswordResetTokenRecord {
+  id: string;
+  userId: string;
+  token: string;
+  expiresAt: string;
+  used: boolean;
+  usedAt?: string;
+  createdAt: string;
+}
+
+export interface ActivityLogEntry {
+  id: string;
+  userId: string;
+  action: string;
+  details: Record<string, unknown>;
+  ipAddress: string;
+  userAgent: string;
+  createdAt: string;
+}
+
+export interface AuthRepository {
+  getUser(id: string): Promise<AccountRecord | null>;
+  findUserByEmail(email: string): Promise<AccountRecord | null>;
+  /** The account holding the email verification token; expiry is left to the caller */
+  findUserByVerificationToken(token: string): Promise<AccountRecord | null>;
+  /** Active accounts with a verified email, the ones we send progress emails to */
+  listVerifiedUsers(): Promise<AccountRecord[]>;
+  /** Throws when the email is already registered */
+  createUser(user: AccountRecord): Promise<AccountRecord>;
+  /** Returns the updated account, or null if there is none with that id */
+  updateUser(id: string, changes: AccountChanges): Promise<AccountRecord | null>;
+  /**
+   * Stores `step` as the account's last accepted code step if it is later
+   * than the stored one. Returns false, storing nothing, when a code from that
+   * step or a later one was already accepted, e.g. by a concurrent request.
+   */
+  advanceTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  /**
+   * Removes one recovery code hash if the account still holds it and returns
+   * the hashes left. Returns null, changing nothing, when it does not, e.g.
+   * because a concurrent request spent the same code first.
+   */
+  removeRecoveryCode(userId: string, hash: string): Promise<string[] | null>;
+  /**
+   * Marks a login challenge as answered. Returns false when it already was,
+   * so each challenge signs in once; records may go once `expiresAt` passes.
+   */
+  consumeTwoFactorChallenge(id: string, userId: string, expiresAt: string): Promise<boolean>;
+
+  createSession(session: SessionRecord): Promise<void>;
+  /** The active, unexpired session holding the refresh token */
+  findActiveSession(refreshToken: string, now: Date): Promise<SessionRecord | null>;
+  /** The session holding the refresh token whatever its state, to recognise a reused token */
+  findSession(refreshToken: string): Promise<SessionRecord | null>;
+  /** The user's active, unexpired sessions, newest first */
+  listActiveSessions(userId: string, now: Date): Promise<SessionRecord[]>;
+  /**
+   * Ends the active session holding `refreshToken` as `rotated` and stores
+   * `next` in its place. Returns false, storing nothing, when that session
+   * had already ended, e.g. because a concurrent refresh rotated it first.
+   */
+  rotateSession(refreshToken: string, next: SessionRecord): Promise<boolean>;
+  deactivateSession(refreshToken: string, reason?: SessionEndReason): Promise<void>;
+  deactivateSessionFamily(familyId: string, reason: SessionEndReason): Promise<void>;
+  deactivateUserSessions(userId: string, reason?: SessionEndReason): Promise<void>;
+
+  /** Stores a new reset token, marking the user's earlier unused tokens as used */
+  replaceResetToken(record: PasswordResetTokenRecord): Promise<void>;
+  /** The reset token if it has not been used; expiry is left to the caller */
+  findUnusedResetToken(token: string): Promise<PasswordResetTokenRecord | null>;
+  markResetTokenUsed(id: string, usedAt: string): Promise<void>;
+
+  logActivity(entry: ActivityLogEntry): Promise<void>;
+}
+
+export class DuplicateEmailError extends Error {
+  constructor(email: string) {
+    super(`An account with email ${email} already exists`);
+    this.name = 'DuplicateEmailError';
+  }
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+/**
+ * Process-local repository for development and tests
+ */
+export class MemoryAuthRepository implements AuthRepository {
+  private users = new Map<string, AccountRecord>();
+  private sessions = new Map<string, SessionRecord>();
+  private resetTokens = new Map<string, PasswordResetTokenRecord>();
+  /** Expiry of each answered challenge, by id */
+  private usedChallenges = new Map<string, string>();
+  readonly activity: ActivityLogEntry[] = [];
+
+  async getUser(id: string): Promise<AccountRecord | null> {
+    const user = this.users.get(id);
+    return user ? clone(user) : null;
+  }
+
+  async findUserByEmail(email: string): Promise<AccountRecord | null> {
+    const user = [...this.users.values()].find(candidate => candidate.email === email.toLowerCase());
+    return user ? clone(user) : null;
+  }
+
+  async findUserByVerificationToken(token: string): Promise<AccountRecord | null> {
+    const user = [...this.users.values()].find(candidate => candidate.emailVerificationToken === token);
+    return user ? clone(user) : null;
+  }
+
+  async listVerifiedUsers(): Promise<AccountRecord[]> {
+    return [...this.users.values()].filter(user => user.isActive && user.isEmailVerified).map(clone);
+  }
+
+  async createUser(user: AccountRecord): Promise<AccountRecord> {
+    if (await this.findUserByEmail(user.email)) throw new DuplicateEmailError(user.email);
+    this.users.set(user.id, clone({ ...user, email: user.email.toLowerCase() }));
+    return clone(this.users.get(user.id)!);
+  }
+
+  async updateUser(id: string, changes: AccountChanges): Promise<AccountRecord | null> {
+    const user = this.users.get(id);
+    if (!user) return null;
+    if (changes.email && changes.email.toLowerCase() !== user.email && await this.findUserByEmail(changes.email)) {
+      throw new DuplicateEmailError(changes.email);
+    }
+
+    const updated = { ...user, ...changes, ...(changes.email ? { email: changes.email.toLowerCase() } : {}) };
+    this.users.set(id, clone(updated));
+    return clone(updated);
+  }
+
+  async advanceTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user || (user.twoFactorLastStep !== undefined && user.twoFactorLastStep >= step)) return false;
+    Object.assign(user, { twoFactorLastStep: step, updatedAt: new Date().toISOString() });
+    return true;
+  }
+
+  async removeRecoveryCode(userId: string, hash: string): Promise<string[] | null> {
+    const user = this.users.get(userId);
+    if (!user?.twoFactorRecoveryCodes?.includes(hash)) return null;
+    const index = user.twoFactorRecoveryCodes.indexOf(hash);
+    const remaining = user.twoFactorRecoveryCodes.filter((_, i) => i !== index);
+    Object.assign(user, { twoFactorRecoveryCodes: remaining, updatedAt: new Date().toISOString() });
+    return [...remaining];
+  }
+
+  async consumeTwoFactorChallenge(id: string, userId: string, expiresAt: string): Promise<boolean> {
+    const now = new Date();
+    for (const [usedId, usedUntil] of this.usedChallenges) {
+      if (new Date(usedUntil) < now) this.usedChallenges.delete(usedId);
+    }
+    if (this.usedChallenges.has(id)) return false;
+    this.usedChallenges.set(id, expiresAt);
+    return true;
+  }
+
+  async createSession(session: SessionRecord): Promise<void> {
+    this.sessions.set(session.id, clone(session));
+  }
+
+  async findActiveSession(refreshToken: string, now: Date): Promise<SessionRecord | null> {
+    const session = [...this.sessions.values()].find(candidate =>
+      candidate.refreshToken === refreshToken && candidate.isActive && new Date(candidate.expiresAt) > now
+    );
+    return session ? clone(session) : null;
+  }
+
+  async findSession(refreshToken: string): Promise<SessionRecord | null> {
+    const session = [...this.sessions.values()].find(candidate => candidate.refreshToken === refreshToken);
+    return session ? clone(session) : null;
+  }
+
+  async listActiveSessions(userId: string, now: Date): Promise<SessionRecord[]> {
+    return [...this.sessions.values()]
+      .filter(session => session.userId === userId && session.isActive && new Date(session.expiresAt) > now)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(clone);
+  }
+
+  async rotateSession(refreshToken: string, next: SessionRecord): Promise<boolean> {
+    const current = [...this.sessions.values()].find(candidate => candidate.refreshToken === refreshToken && candidate.isActive);
+    if (!current) return false;
+    Object.assign(current, { isActive: false, endedReason: 'rotated', updatedAt: new Date().toISOString() });
+    this.sessions.set(next.id, clone(next));
+    return true;
+  }
+
+  private endSessions(matches: (session: SessionRecord) => boolean, endedReason?: SessionEndReason): void {
+    const updatedAt = new Date().toISOString();
+    for (const session of this.sessions.values()) {
+      if (session.isActive && matches(session)) Object.assign(session, { isActive: false, endedReason, updatedAt });
+    }
+  }
+
+  async deactivateSession(refreshToken: string, reason?: SessionEndReason): Promise<void> {
+    this.endSessions(session => session.refreshToken === refreshToken, reason);
+  }
+
+  async deactivateSessionFamily(familyId: string, reason: SessionEndReason): Promise<void> {
+    this.endSessions(session => sessionFamily(session) === familyId, reason);
+  }
+
+  async deactivateUserSessions(userId: string, reason?: SessionEndReason): Promise<void> {
+    this.endSessions(session => session.userId === userId, reason);
+  }
+
+  async replaceResetToken(record: PasswordResetTokenRecord): Promise<void> {
+    for (const existing of this.resetTokens.values()) {
+      if (existing.userId === record.userId && !existing.used) existing.used = true;
+    }
+    this.resetTokens.set(record.id, clone(record));
+  }
+
+  async findUnusedResetToken(token: string): Promise<PasswordResetTokenRecord | null> {
+    const record = [...this.resetTokens.values()].find(candidate => candidate.token === token && !candidate.used);
+    return record ? clone(record) : null;
+  }
+
+  async markResetTokenUsed(id: string, usedAt: string): Promise<void> {
+    const record = this.resetTokens.get(id);
+    if (record) Object.assign(record, { used: true, usedAt });
+  }
+
+  async logActivity(entry: ActivityLogEntry): Promise<void> {
+    this.activity.push(clone(entry));
+  }
+}
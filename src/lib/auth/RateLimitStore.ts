@@ -0,0 +1,141 @@
+// Expiring counters and flags for rate limiting, kept in process memory or
+// in Redis so that every server instance sees the same counts
+
+export interface RateLimitEntry {
+  key: string;
+  value: string;
+  /** Epoch milliseconds */
+  expiresAt: number;
+}
+
+export interface RateLimitCounter {
+  count: number;
+  /** Epoch milliseconds */
+  expiresAt: number;
+}
+
+export interface RateLimitStore {
+  /** Adds one to the counter. A new counter lives for `ttlMs`; later increments keep its expiry. */
+  increment(key: string, ttlMs: number): Promise<RateLimitCounter>;
+  get(key: string): Promise<RateLimitEntry | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  /** Unexpired entries whose key starts with `prefix` */
+  list(prefix: string): Promise<RateLimitEntry[]>;
+}
+
+export class RateLimitStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitStoreError';
+  }
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  private live(key: string) {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async increment(key: string, ttlMs: number): Promise<RateLimitCounter> {
+    const entry = this.live(key) ?? { value: '0', expiresAt: this.now() + ttlMs };
+    const count = Number(entry.value) + 1;
+    this.entries.set(key, { value: String(count), expiresAt: entry.expiresAt });
+    return { count, expiresAt: entry.expiresAt };
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const entry = this.live(key);
+    return entry ? { key, ...entry } : null;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: this.now() + ttlMs });
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach(key => this.entries.delete(key));
+  }
+
+  async list(prefix: string): Promise<RateLimitEntry[]> {
+    const entries: RateLimitEntry[] = [];
+    for (const key of [...this.entries.keys()]) {
+      const entry = key.startsWith(prefix) ? this.live(key) : undefined;
+      if (entry) entries.push({ key, ...entry });
+    }
+    return entries;
+  }
+}
+
+/** The Redis commands the store needs, as ioredis names them */
+export interface RedisCommands {
+  incr(key: string): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<number>;
+  /** Milliseconds left; negative when the key is missing or never expires */
+  pttl(key: string): Promise<number>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', milliseconds: number): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  scan(cursor: string, matchToken: 'MATCH', pattern: string, countToken: 'COUNT', count: number): Promise<[string, string[]]>;
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private readonly redis: RedisCommands, private readonly now: () => number = Date.now) {}
+
+  async increment(key: string, ttlMs: number): Promise<RateLimitCounter> {
+    const count = await this.redis.incr(key);
+    let remaining = await this.redis.pttl(key);
+    // A counter without an expiry would never reset, e.g. after a crash between INCR and PEXPIRE
+    if (count === 1 || remaining < 0) {
+      await this.redis.pexpire(key, ttlMs);
+      remaining = ttlMs;
+    }
+    return { count, expiresAt: this.now() + remaining };
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const [value, remaining] = await Promise.all([this.redis.get(key), this.redis.pttl(key)]);
+    if (value === null || remaining === -2) return null;
+    return { key, value, expiresAt: this.now() + Math.max(remaining, 0) };
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.redis.set(key, value, 'PX', ttlMs);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length > 0) await this.redis.del(...keys);
+  }
+
+  async list(prefix: string): Promise<RateLimitEntry[]> {
+    const keys = new Set<string>();
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.redis.scan(cursor, 'MATCH', `${prefix}*`, 'COUNT', 100);
+      batch.forEach(key => keys.add(key));
+      cursor = next;
+    } while (cursor !== '0');
+
+    const entries = await Promise.all([...keys].map(key => this.get(key)));
+    return entries.filter((entry): entry is RateLimitEntry => entry !== null);
+  }
+}
+
+/** Connects with ioredis, which is installed only where Redis is used */
+export async function connectRedisRateLimitStore(url: string): Promise<RedisRateLimitStore> {
+  let Redis: typeof import('ioredis').default;
+  try {
+    Redis = (await import('ioredis')).default;
+  } catch {
+    throw new RateLimitStoreError('Install ioredis to keep rate limits in Redis');
+  }
+  return new RedisRateLimitStore(new Redis(url));
+}
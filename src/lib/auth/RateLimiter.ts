@@ -0,0 +1,254 @@
+// Brute-force protection for the auth endpoints: request budgets per IP and
+// per account, progressively longer waits after failures, and temporary
+// lockouts once failures pile up
+
+import type { RateLimitStore } from './RateLimitStore';
+
+export type RateLimitAction = 'login' | 'register' | 'reset_password' | 'two_factor' | 'verify_email';
+
+export type RateLimitScope = 'ip' | 'account';
+
+/** Who is asking: the client address and, when the request names one, the account */
+export type RateLimitSubjects = Partial<Record<RateLimitScope, string>>;
+
+export interface RateLimitPolicy {
+  /** Requests allowed per window, counted separately for each IP and account */
+  requests: { ip: number; account: number; windowMs: number };
+  /**
+   * Failures allowed before each further attempt must wait, starting at
+   * `baseDelayMs` and doubling up to `maxDelayMs`
+   */
+  backoff: { ip: number; account: number; baseDelayMs: number; maxDelayMs: number };
+  /** Failures within the window that lock the IP or account for `durationMs` */
+  lockout: { ip: number; account: number; windowMs: number; durationMs: number };
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// IP limits are looser than account ones: a school or café shares one address
+export const DEFAULT_RATE_LIMIT_POLICIES: Record<RateLimitAction, RateLimitPolicy> = {
+  login: {
+    requests: { ip: 60, account: 20, windowMs: 15 * MINUTE },
+    backoff: { ip: 10, account: 3, baseDelayMs: 1000, maxDelayMs: 60 * 1000 },
+    lockout: { ip: 50, account: 5, windowMs: 15 * MINUTE, durationMs: 15 * MINUTE }
+  },
+  register: {
+    requests: { ip: 10, account: 3, windowMs: HOUR },
+    backoff: { ip: 10, account: 3, baseDelayMs: 1000, maxDelayMs: 60 * 1000 },
+    lockout: { ip: 20, account: 5, windowMs: HOUR, durationMs: HOUR }
+  },
+  reset_password: {
+    requests: { ip: 20, account: 3, windowMs: HOUR },
+    backoff: { ip: 5, account: 3, baseDelayMs: 2000, maxDelayMs: 5 * MINUTE },
+    lockout: { ip: 20, account: 5, windowMs: HOUR, durationMs: HOUR }
+  },
+  two_factor: {
+    requests: { ip: 60, account: 20, windowMs: 15 * MINUTE },
+    backoff: { ip: 10, account: 2, baseDelayMs: 1000, maxDelayMs: 60 * 1000 },
+    lockout: { ip: 50, account: 5, windowMs: 15 * MINUTE, durationMs: 15 * MINUTE }
+  },
+  verify_email: {
+    requests: { ip: 30, account: 5, windowMs: HOUR },
+    backoff: { ip: 10, account: 3, baseDelayMs: 1000, maxDelayMs: 60 * 1000 },
+    lockout: { ip: 30, account: 10, windowMs: HOUR, durationMs: HOUR }
+  }
+};
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: 'locked' | 'backoff' | 'too_many_requests';
+      scope: RateLimitScope;
+      /** Seconds until the next attempt is accepted */
+      retryAfter: number;
+    };
+
+export interface FailureOutcome {
+  /** Failures counted so far in the lockout window, per scope */
+  failures: Partial<Record<RateLimitScope, number>>;
+  /** Scopes this failure locked */
+  locked: RateLimitScope[];
+  /** Seconds before the next attempt is accepted; 0 when it may follow at once */
+  retryAfter: number;
+}
+
+export interface Lockout {
+  action: RateLimitAction;
+  scope: RateLimitScope;
+  subject: string;
+  failures: number;
+  lockedAt: string;
+  expiresAt: string;
+}
+
+type KeyKind = 'requests' | 'failures' | 'backoff' | 'lock';
+
+const KEY_PREFIX = 'ratelimit';
+const SCOPES: RateLimitScope[] = ['ip', 'account'];
+const ACTIONS = Object.keys(DEFAULT_RATE_LIMIT_POLICIES) as RateLimitAction[];
+
+const normalizeSubject = (scope: RateLimitScope, subject: string) =>
+  scope === 'account' ? subject.trim().toLowerCase() : subject.trim();
+
+// Subjects are encoded so IPv6 colons cannot be mistaken for separators
+function rateLimitKey(kind: KeyKind, action: RateLimitAction, scope: RateLimitScope, subject: string): string {
+  return [KEY_PREFIX, kind, action, scope, encodeURIComponent(normalizeSubject(scope, subject))].join(':');
+}
+
+function parseLockKey(key: string): Pick<Lockout, 'action' | 'scope' | 'subject'> | null {
+  const [prefix, kind, action, scope, subject] = key.split(':');
+  if (prefix !== KEY_PREFIX || kind !== 'lock' || subject === undefined) return null;
+  if (!ACTIONS.includes(action as RateLimitAction) || !SCOPES.includes(scope as RateLimitScope)) return null;
+  return { action: action as RateLimitAction, scope: scope as RateLimitScope, subject: decodeURIComponent(subject) };
+}
+
+const toSeconds = (milliseconds: number) => Math.max(1, Math.ceil(milliseconds / 1000));
+
+/**
+ * The client address as the trusted proxies in front of the app saw it.
+ * Each proxy appends the address it received the request from to
+ * `X-Forwarded-For`, so only the last `trustedProxies` entries can be
+ * believed; anything to their left is whatever the client sent.
+ */
+export function clientAddress(headers: Headers, trustedProxies: number): string {
+  const hops = (headers.get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+  if (trustedProxies > 0 && hops.length > 0) {
+    return hops[Math.max(0, hops.length - trustedProxies)];
+  }
+  return headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/** The `Retry-After` header for a refused request */
+export function retryAfterHeaders(retryAfter: number): Record<string, string> {
+  return { 'Retry-After': String(retryAfter) };
+}
+
+export interface RateLimiterOptions {
+  policies?: Partial<Record<RateLimitAction, RateLimitPolicy>>;
+  now?: () => number;
+}
+
+export class RateLimiter {
+  private readonly policies: Record<RateLimitAction, RateLimitPolicy>;
+  private readonly now: () => number;
+
+  constructor(private readonly store: RateLimitStore, options: RateLimiterOptions = {}) {
+    this.policies = { ...DEFAULT_RATE_LIMIT_POLICIES, ...options.policies };
+    this.now = options.now ?? Date.now;
+  }
+
+  private scopes(subjects: RateLimitSubjects): [RateLimitScope, string][] {
+    return SCOPES.flatMap(scope => {
+      const subject = subjects[scope];
+      return subject ? [[scope, subject] as [RateLimitScope, string]] : [];
+    });
+  }
+
+  /**
+   * Decides whether a request may go ahead and counts it against the
+   * request budgets. Refused requests are not counted.
+   */
+  async attempt(action: RateLimitAction, subjects: RateLimitSubjects): Promise<RateLimitDecision> {
+    const policy = this.policies[action];
+    const scopes = this.scopes(subjects);
+
+    for (const reason of ['locked', 'backoff'] as const) {
+      for (const [scope, subject] of scopes) {
+        const entry = await this.store.get(rateLimitKey(reason === 'locked' ? 'lock' : 'backoff', action, scope, subject));
+        if (entry) {
+          return { allowed: false, reason, scope, retryAfter: toSeconds(entry.expiresAt - this.now()) };
+        }
+      }
+    }
+
+    let refused: RateLimitDecision = { allowed: true };
+    for (const [scope, subject] of scopes) {
+      const counter = await this.store.increment(rateLimitKey('requests', action, scope, subject), policy.requests.windowMs);
+      if (counter.count > policy.requests[scope] && refused.allowed) {
+        refused = { allowed: false, reason: 'too_many_requests', scope, retryAfter: toSeconds(counter.expiresAt - this.now()) };
+      }
+    }
+    return refused;
+  }
+
+  /** Counts a failed attempt, e.g. a wrong password, and applies backoff or a lockout */
+  async recordFailure(action: RateLimitAction, subjects: RateLimitSubjects): Promise<FailureOutcome> {
+    const policy = this.policies[action];
+    const outcome: FailureOutcome = { failures: {}, locked: [], retryAfter: 0 };
+
+    for (const [scope, subject] of this.scopes(subjects)) {
+      const failuresKey = rateLimitKey('failures', action, scope, subject);
+      const { count } = await this.store.increment(failuresKey, policy.lockout.windowMs);
+      outcome.failures[scope] = count;
+
+      if (count >= policy.lockout[scope]) {
+        const lock = { failures: count, lockedAt: new Date(this.now()).toISOString() };
+        await this.store.set(rateLimitKey('lock', action, scope, subject), JSON.stringify(lock), policy.lockout.durationMs);
+        // Counting starts afresh once the lockout ends
+        await this.store.delete([failuresKey, rateLimitKey('backoff', action, scope, subject)]);
+        outcome.locked.push(scope);
+        outcome.retryAfter = Math.max(outcome.retryAfter, toSeconds(policy.lockout.durationMs));
+      } else if (count > policy.backoff[scope]) {
+        const delay = Math.min(policy.backoff.baseDelayMs * 2 ** (count - policy.backoff[scope] - 1), policy.backoff.maxDelayMs);
+        await this.store.set(rateLimitKey('backoff', action, scope, subject), String(count), delay);
+        outcome.retryAfter = Math.max(outcome.retryAfter, toSeconds(delay));
+      }
+    }
+    return outcome;
+  }
+
+  /**
+   * Forgets the account's failures after a successful attempt. The IP keeps
+   * its count, or one valid account would reset guessing at all the others.
+   */
+  async recordSuccess(action: RateLimitAction, subjects: RateLimitSubjects): Promise<void> {
+    if (!subjects.account) return;
+    await this.store.delete([
+      rateLimitKey('failures', action, 'account', subjects.account),
+      rateLimitKey('backoff', action, 'account', subjects.account)
+    ]);
+  }
+
+  /** Current lockouts, the most recent first */
+  async listLockouts(): Promise<Lockout[]> {
+    const entries = await this.store.list(`${KEY_PREFIX}:lock:`);
+    const lockouts: Lockout[] = [];
+    for (const entry of entries) {
+      const target = parseLockKey(entry.key);
+      if (!target) continue;
+      let lock: { failures?: number; lockedAt?: string } = {};
+      try {
+        lock = JSON.parse(entry.value);
+      } catch {
+        // An unreadable lock still locks; show it without details
+      }
+      lockouts.push({
+        ...target,
+        failures: lock.failures ?? 0,
+        lockedAt: lock.lockedAt ?? new Date(this.now()).toISOString(),
+        expiresAt: new Date(entry.expiresAt).toISOString()
+      });
+    }
+    return lockouts.sort((a, b) => b.lockedAt.localeCompare(a.lockedAt));
+  }
+
+  /** Lifts a lockout along with any pending backoff. Returns false when there was none. */
+  async clearLockout(action: RateLimitAction, scope: RateLimitScope, subject: string): Promise<boolean> {
+    const lockKey = rateLimitKey('lock', action, scope, subject);
+    const existing = await this.store.get(lockKey);
+    await this.store.delete([
+      lockKey,
+      rateLimitKey('failures', action, scope, subject),
+      rateLimitKey('backoff', action, scope, subject)
+    ]);
+    return existing !== null;
+  }
+}
+
+export const isRateLimitAction = (value: unknown): value is RateLimitAction =>
+  ACTIONS.includes(value as RateLimitAction);
+
+export const isRateLimitScope = (value: unknown): value is RateLimitScope =>
+  SCOPES.includes(value as RateLimitScope);
@@ -0,0 +1,42 @@
+// The auth repository the /api/auth routes share, chosen from the environment
+
+import { createClient } from '@supabase/supabase-js';
+import { connectSql } from '../db/SqlClient';
+import type { AuthRepository } from './AuthRepository';
+import { SqlAuthRepository } from './SqlAuthRepository';
+import { SupabaseAuthRepository } from './SupabaseAuthRepository';
+
+/** Thrown when no auth database is configured; the routes answer 503 */
+export const AUTH_DATABASE_MISSING = 'Missing auth database configuration';
+
+let sqlRepository: Promise<AuthRepository> | null = null;
+
+/**
+ * `AUTH_STORE=supabase` or `AUTH_STORE=sql` picks the backend. Without it,
+ * Supabase is used when configured and otherwise the SQLite or Postgres
+ * database at DATABASE_URL (see `npm run db:migrate`).
+ */
+export async function getAuthRepository(): Promise<AuthRepository> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const databaseUrl = process.env.DATABASE_URL;
+  const store = process.env.AUTH_STORE ?? (supabaseUrl && supabaseServiceKey ? 'supabase' : 'sql');
+
+  if (store === 'supabase') {
+    if (!supabaseUrl || !supabaseServiceKey) throw new Error(AUTH_DATABASE_MISSING);
+    return new SupabaseAuthRepository(createClient(supabaseUrl, supabaseServiceKey));
+  }
+
+  if (store !== 'sql' || !databaseUrl) throw new Error(AUTH_DATABASE_MISSING);
+  if (!sqlRepository) {
+    sqlRepository = connectSql(databaseUrl).then(
+      db => new SqlAuthRepository(db),
+      error => {
+        console.error('Failed to open the auth database:', error);
+        sqlRepository = null;
+        throw new Error(AUTH_DATABASE_MISSING);
+      }
+    );
+  }
+  return sqlRepository;
+}
@@ -0,0 +1,73 @@
+// The rate limiter the /api/auth routes share, and the responses and audit
+// entries that go with it
+
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import type { AuthRepository } from './AuthRepository';
+import { clientAddress, RateLimiter, retryAfterHeaders, type RateLimitDecision } from './RateLimiter';
+import { connectRedisRateLimitStore, MemoryRateLimitStore } from './RateLimitStore';
+
+let limiter: Promise<RateLimiter> | null = null;
+
+/**
+ * Counts live in Redis when REDIS_URL is set, so every server instance
+ * shares them; otherwise in this process. Should Redis be unreachable the
+ * in-process store still limits this instance.
+ */
+export function getRateLimiter(): Promise<RateLimiter> {
+  if (!limiter) {
+    const redisUrl = process.env.REDIS_URL;
+    limiter = redisUrl
+      ? connectRedisRateLimitStore(redisUrl).then(
+          store => new RateLimiter(store),
+          error => {
+            console.error('Failed to connect the rate limit store, counting in memory instead:', error);
+            return new RateLimiter(new MemoryRateLimitStore());
+          }
+        )
+      : Promise.resolve(new RateLimiter(new MemoryRateLimitStore()));
+  }
+  return limiter;
+}
+
+/**
+ * The client address behind TRUSTED_PROXY_COUNT proxies (one by default).
+ * With `0` only `X-Real-IP` is read, for an edge that sets it itself.
+ */
+export function clientIp(headers: Headers): string {
+  const configured = Number.parseInt(process.env.TRUSTED_PROXY_COUNT ?? '', 10);
+  return clientAddress(headers, Number.isNaN(configured) ? 1 : Math.max(0, configured));
+}
+
+/** 429 with `Retry-After` for a request the limiter refused */
+export function tooManyRequests(decision: Extract<RateLimitDecision, { allowed: false }>): NextResponse {
+  const error = decision.reason === 'locked'
+    ? 'Too many failed attempts. This account is temporarily locked.'
+    : 'Too many attempts. Please try again later.';
+  return NextResponse.json(
+    { error, retryAfter: decision.retryAfter },
+    { status: 429, headers: retryAfterHeaders(decision.retryAfter) }
+  );
+}
+
+interface SecurityEvent {
+  /** `anonymous` when the request names no known account */
+  userId: string;
+  action: string;
+  details: Record<string, unknown>;
+}
+
+/** Writes a `user_activity_logs` entry. Failures are logged, never thrown. */
+export async function logSecurityEvent(repository: AuthRepository, headers: Headers, event: SecurityEvent): Promise<void> {
+  try {
+    await repository.logActivity({
+      id: randomUUID(),
+      ...event,
+      ipAddress: clientIp(headers),
+      userAgent: headers.get('user-agent') || 'unknown',
+      createdAt: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error(`Failed to log ${event.action}:`, error);
+  }
+}
@@ -0,0 +1,237 @@
+// Issuing tokens once a user has proven who they are, shared by the password
+// login, the two-factor step that can follow it and token refresh
+
+import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import type { AccountRecord, AuthRepository, SessionRecord } from './AuthRepository';
+import { clientIp } from './ServerRateLimit';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+}
+
+/** Thrown when neither NEXTAUTH_SECRET nor JWT_SECRET is set; the routes answer 503 */
+export const JWT_SECRET_MISSING = 'JWT secret not configured';
+
+export function jwtSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error(JWT_SECRET_MISSING);
+  }
+  return secret;
+}
+
+/** The claims of an access token from `generateTokens` */
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  role: string;
+  name: string;
+  /** Missing from tokens issued before verification was enforced */
+  emailVerified?: boolean;
+  /** The session family; tokens issued before families have none */
+  sid?: string;
+  iat: number;
+  exp: number;
+  jti: string;
+}
+
+/** Roles the admin API routes accept */
+export const ADMIN_ROLES = ['admin', 'super_admin'];
+
+/** The token's claims, or null when it is invalid or expired. A missing secret is thrown. */
+export function verifyAccessToken(token: string): AccessTokenPayload | null {
+  const secret = jwtSecret();
+  try {
+    return jwt.verify(token, secret, {
+      issuer: 'tahitian-tutor',
+      audience: 'tahitian-tutor-app'
+    }) as AccessTokenPayload;
+  } catch {
+    return null;
+  }
+}
+
+/** The caller of a request sent with `Authorization: Bearer <access token>`, if any */
+export function authenticate(headers: Headers): AccessTokenPayload | null {
+  const authHeader = headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  return verifyAccessToken(authHeader.substring(7));
+}
+
+/** As `authenticate`, but only for admins */
+export function authenticateAdmin(headers: Headers): AccessTokenPayload | null {
+  const payload = authenticate(headers);
+  return payload && ADMIN_ROLES.includes(payload.role) ? payload : null;
+}
+
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Generate JWT tokens. Both carry the session family as `sid`, so a request
+ * can tell which signed-in device it comes from. The access token also says
+ * whether the email is verified, which the middleware restricts on.
+ */
+export function generateTokens(user: AccountRecord, sessionId: string): AuthTokens {
+  const secret = jwtSecret();
+
+  const payload = {
+    sub: user.id,
+    email: user.email,
+    role: user.role,
+    name: user.name,
+    emailVerified: user.isEmailVerified,
+    sid: sessionId,
+    iat: Math.floor(Date.now() / 1000),
+    jti: `${user.id}_${Date.now()}` // Unique token ID
+  };
+
+  // Access token (15 minutes)
+  const accessToken = jwt.sign(payload, secret, {
+    expiresIn: '15m',
+    issuer: 'tahitian-tutor',
+    audience: 'tahitian-tutor-app'
+  });
+
+  // Refresh token (7 days or 30 days if remember me)
+  const refreshTokenPayload = {
+    sub: user.id,
+    type: 'refresh',
+    sid: sessionId,
+    jti: randomUUID()
+  };
+
+  const refreshToken = jwt.sign(refreshTokenPayload, secret, {
+    expiresIn: '7d', // Always 7 days for security
+    issuer: 'tahitian-tutor',
+    audience: 'tahitian-tutor-app'
+  });
+
+  const expiresAt = Date.now() + (15 * 60 * 1000); // 15 minutes
+
+  return {
+    accessToken,
+    refreshToken,
+    expiresAt
+  };
+}
+
+// Update user last login
+async function updateLastLogin(repository: AuthRepository, userId: string): Promise<void> {
+  try {
+    const now = new Date().toISOString();
+    await repository.updateUser(userId, { lastLoginAt: now, updatedAt: now });
+  } catch (error) {
+    console.error('Failed to update last login:', error);
+    // Don't throw here, as login should still succeed
+  }
+}
+
+/** Where a session was started from, shown in the user's list of devices */
+export interface SessionClient {
+  ipAddress: string;
+  userAgent: string;
+}
+
+export function sessionClient(headers: Headers): SessionClient {
+  return { ipAddress: clientIp(headers), userAgent: headers.get('user-agent') || 'unknown' };
+}
+
+/** The record for a newly issued refresh token in the family */
+export function sessionRecord(
+  userId: string,
+  refreshToken: string,
+  family: { familyId: string; signedInAt: string },
+  client: SessionClient
+): SessionRecord {
+  const now = Date.now();
+  return {
+    id: randomUUID(),
+    userId,
+    refreshToken,
+    expiresAt: new Date(now + REFRESH_TOKEN_TTL_MS).toISOString(),
+    isActive: true,
+    createdAt: new Date(now).toISOString(),
+    ...family,
+    ...client
+  };
+}
+
+// Store refresh token
+async function storeRefreshToken(repository: AuthRepository, session: SessionRecord): Promise<void> {
+  try {
+    await repository.createSession(session);
+  } catch (error) {
+    console.error('Failed to store refresh token:', error);
+    // Don't throw here, as login should still succeed
+  }
+}
+
+/** What clients may see of an account */
+export function publicUser(user: AccountRecord) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    avatar: user.avatar,
+    preferences: user.preferences,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+    lastLoginAt: user.lastLoginAt,
+    isEmailVerified: user.isEmailVerified,
+    isActive: user.isActive,
+    twoFactorEnabled: Boolean(user.twoFactorEnabledAt)
+  };
+}
+
+export function setRefreshCookie(response: NextResponse, refreshToken: string): void {
+  response.cookies.set('refresh_token', refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: REFRESH_TOKEN_TTL_MS / 1000,
+    path: '/'
+  });
+}
+
+/**
+ * Signs the user in on a new device: starts a session family, issues tokens
+ * and answers with them. `extra` is merged into the response body.
+ */
+export async function startSession(
+  repository: AuthRepository,
+  headers: Headers,
+  user: AccountRecord,
+  rememberMe: boolean,
+  extra: Record<string, unknown> = {}
+): Promise<NextResponse> {
+  const familyId = randomUUID();
+  const tokens = generateTokens(user, familyId);
+  const session = sessionRecord(user.id, tokens.refreshToken, { familyId, signedInAt: new Date().toISOString() }, sessionClient(headers));
+
+  // Update last login and store refresh token
+  await Promise.all([
+    updateLastLogin(repository, user.id),
+    storeRefreshToken(repository, session)
+  ]);
+
+  const response = NextResponse.json({
+    success: true,
+    user: { ...publicUser(user), lastLoginAt: new Date().toISOString() },
+    tokens,
+    ...extra
+  });
+
+  // Set refresh token as HTTP-only cookie if remember me is enabled
+  if (rememberMe) {
+    setRefreshCookie(response, tokens.refreshToken);
+  }
+
+  return response;
+}
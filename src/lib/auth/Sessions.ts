@@ -0,0 +1,75 @@
+// What a user sees of their signed-in devices: one entry per refresh-token
+// family, labelled from the browser's user agent
+
+import { sessionFamily, type SessionRecord } from './AuthRepository';
+
+export interface SessionSummary {
+  /** The session family; revoking it signs that device out */
+  id: string;
+  /** e.g. "Safari on iPad" */
+  device: string;
+  ipAddress: string;
+  userAgent: string;
+  signedInAt: string;
+  /** When the device last refreshed its tokens */
+  lastActiveAt: string;
+  expiresAt: string;
+  /** The device making the request */
+  current: boolean;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+// iPads and Android tablets come before the phones they resemble
+const PLATFORMS: [RegExp, string][] = [
+  [/iPad/, 'iPad'],
+  [/iPhone|iPod/, 'iPhone'],
+  [/Android(?!.*Mobile)/, 'Android tablet'],
+  [/Android/, 'Android phone'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+const match = (userAgent: string, patterns: [RegExp, string][]) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+/** A readable device label; "Unknown device" when the user agent says nothing useful */
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent || userAgent === 'unknown') return 'Unknown device';
+  const browser = match(userAgent, BROWSERS);
+  const platform = match(userAgent, PLATFORMS);
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? 'Unknown device';
+}
+
+/**
+ * One summary per family, from the user's active sessions newest first.
+ * `currentSessionId` is the family of the request's access token.
+ */
+export function summarizeSessions(sessions: SessionRecord[], currentSessionId?: string): SessionSummary[] {
+  const families = new Map<string, SessionSummary>();
+  for (const session of sessions) {
+    const id = sessionFamily(session);
+    if (families.has(id)) continue;
+    families.set(id, {
+      id,
+      device: describeDevice(session.userAgent),
+      ipAddress: session.ipAddress ?? 'unknown',
+      userAgent: session.userAgent ?? 'unknown',
+      signedInAt: session.signedInAt ?? session.createdAt,
+      lastActiveAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      current: id === currentSessionId
+    });
+  }
+  return [...families.values()];
+}
@@ -0,0 +1,290 @@
+// Auth persistence on SQLite or Postgres, over the tables created by
+// db/migrations (run `npm run db:migrate`)
+
+import type { SqlClient, SqlRow } from '../db/SqlClient';
+import {
+  DuplicateEmailError,
+  type AccountChanges,
+  type AccountRecord,
+  type ActivityLogEntry,
+  type AuthRepository,
+  type PasswordResetTokenRecord,
+  type SessionEndReason,
+  type SessionRecord
+} from './AuthRepository';
+
+/** Account fields and the columns that hold them */
+const USER_COLUMNS: Record<keyof AccountRecord, string> = {
+  id: 'id',
+  email: 'email',
+  name: 'name',
+  role: 'role',
+  passwordHash: 'password_hash',
+  avatar: 'avatar',
+  preferences: 'preferences',
+  isEmailVerified: 'is_email_verified',
+  isActive: 'is_active',
+  emailVerificationToken: 'email_verification_token',
+  emailVerificationExpiresAt: 'email_verification_expires_at',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  lastLoginAt: 'last_login_at',
+  twoFactorSecret: 'two_factor_secret',
+  twoFactorPendingSecret: 'two_factor_pending_secret',
+  twoFactorEnabledAt: 'two_factor_enabled_at',
+  twoFactorRecoveryCodes: 'two_factor_recovery_codes',
+  twoFactorLastStep: 'two_factor_last_step'
+};
+
+// Postgres hands back Date and parsed JSON; SQLite hands back the stored text
+const toIso = (value: unknown): string | undefined =>
+  value === null || value === undefined ? undefined : value instanceof Date ? value.toISOString() : String(value);
+
+const fromJson = <T>(value: unknown): T | undefined =>
+  value === null || value === undefined ? undefined : typeof value === 'string' ? JSON.parse(value) as T : value as T;
+
+const optional = (value: unknown): string | undefined => (value === null || value === undefined ? undefined : String(value));
+
+function toAccount(row: SqlRow): AccountRecord {
+  return {
+    id: String(row.id),
+    email: String(row.email),
+    name: String(row.name),
+    role: row.role as AccountRecord['role'],
+    passwordHash: String(row.password_hash),
+    avatar: optional(row.avatar),
+    preferences: fromJson(row.preferences),
+    isEmailVerified: Boolean(row.is_email_verified),
+    isActive: Boolean(row.is_active),
+    emailVerificationToken: optional(row.email_verification_token),
+    emailVerificationExpiresAt: toIso(row.email_verification_expires_at),
+    createdAt: toIso(row.created_at)!,
+    updatedAt: toIso(row.updated_at)!,
+    lastLoginAt: toIso(row.last_login_at),
+    twoFactorSecret: optional(row.two_factor_secret),
+    twoFactorPendingSecret: optional(row.two_factor_pending_secret),
+    twoFactorEnabledAt: toIso(row.two_factor_enabled_at),
+    twoFactorRecoveryCodes: fromJson(row.two_factor_recovery_codes),
+    twoFactorLastStep: row.two_factor_last_step === null || row.two_factor_last_step === undefined ? undefined : Number(row.two_factor_last_step)
+  };
+}
+
+function toSession(row: SqlRow): SessionRecord {
+  return {
+    id: String(row.id),
+    userId: String(row.user_id),
+    refreshToken: String(row.refresh_token),
+    expiresAt: toIso(row.expires_at)!,
+    isActive: Boolean(row.is_active),
+    createdAt: toIso(row.created_at)!,
+    updatedAt: toIso(row.updated_at),
+    familyId: optional(row.family_id),
+    signedInAt: toIso(row.signed_in_at),
+    ipAddress: optional(row.ip_address),
+    userAgent: optional(row.user_agent),
+    endedReason: optional(row.ended_reason) as SessionEndReason | undefined
+  };
+}
+
+function toResetToken(row: SqlRow): PasswordResetTokenRecord {
+  return {
+    id: String(row.id),
+    userId: String(row.user_id),
+    token: String(row.token),
+    expiresAt: toIso(row.expires_at)!,
+    used: Boolean(row.used),
+    usedAt: toIso(row.used_at),
+    createdAt: toIso(row.created_at)!
+  };
+}
+
+function columnValue(field: keyof AccountRecord, value: unknown): unknown {
+  if (value === undefined) return null;
+  return field === 'preferences' || field === 'twoFactorRecoveryCodes' ? JSON.stringify(value) : value;
+}
+
+export class SqlAuthRepository implements AuthRepository {
+  constructor(private db: SqlClient) {}
+
+  async getUser(id: string): Promise<AccountRecord | null> {
+    const [row] = await this.db.query('SELECT * FROM users WHERE id = ?', [id]);
+    return row ? toAccount(row) : null;
+  }
+
+  async findUserByEmail(email: string): Promise<AccountRecord | null> {
+    const [row] = await this.db.query('SELECT * FROM users WHERE email = ?', [email.toLowerCase()]);
+    return row ? toAccount(row) : null;
+  }
+
+  async findUserByVerificationToken(token: string): Promise<AccountRecord | null> {
+    const [row] = await this.db.query('SELECT * FROM users WHERE email_verification_token = ?', [token]);
+    return row ? toAccount(row) : null;
+  }
+
+  async listVerifiedUsers(): Promise<AccountRecord[]> {
+    const rows = await this.db.query('SELECT * FROM users WHERE is_active = ? AND is_email_verified = ?', [true, true]);
+    return rows.map(toAccount);
+  }
+
+  async createUser(user: AccountRecord): Promise<AccountRecord> {
+    const record = { ...user, email: user.email.toLowerCase() };
+    if (await this.findUserByEmail(record.email)) throw new DuplicateEmailError(record.email);
+
+    const fields = Object.keys(USER_COLUMNS) as (keyof AccountRecord)[];
+    await this.db.query(
+      `INSERT INTO users (${fields.map(field => USER_COLUMNS[field]).join(', ')}) VALUES (${fields.map(() => '?').join(', ')})`,
+      fields.map(field => columnValue(field, record[field]))
+    );
+    return (await this.getUser(record.id))!;
+  }
+
+  async updateUser(id: string, changes: AccountChanges): Promise<AccountRecord | null> {
+    const update = { ...changes, ...(changes.email ? { email: changes.email.toLowerCase() } : {}) };
+    if (update.email) {
+      const owner = await this.findUserByEmail(update.email);
+      if (owner && owner.id !== id) throw new DuplicateEmailError(update.email);
+    }
+
+    const fields = (Object.keys(update) as (keyof AccountChanges)[]).filter(field => field in USER_COLUMNS);
+    if (fields.length > 0) {
+      await this.db.query(
+        `UPDATE users SET ${fields.map(field => `${USER_COLUMNS[field]} = ?`).join(', ')} WHERE id = ?`,
+        [...fields.map(field => columnValue(field, update[field])), id]
+      );
+    }
+    return this.getUser(id);
+  }
+
+  async advanceTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    // Comparing and storing in one statement lets only one of two concurrent requests spend a code
+    const advanced = await this.db.query(
+      `UPDATE users SET two_factor_last_step = ?, updated_at = ?
+       WHERE id = ? AND (two_factor_last_step IS NULL OR two_factor_last_step < ?) RETURNING id`,
+      [step, new Date().toISOString(), userId, step]
+    );
+    return advanced.length > 0;
+  }
+
+  async removeRecoveryCode(userId: string, hash: string): Promise<string[] | null> {
+    // The update only matches the list that was read, so of two requests spending a code one finds
+    // it changed; it reads again and tries once more while the code is still there
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const codes = (await this.getUser(userId))?.twoFactorRecoveryCodes ?? [];
+      const index = codes.indexOf(hash);
+      if (index === -1) return null;
+
+      const remaining = codes.filter((_, i) => i !== index);
+      const updated = await this.db.query(
+        'UPDATE users SET two_factor_recovery_codes = ?, updated_at = ? WHERE id = ? AND two_factor_recovery_codes = ? RETURNING id',
+        [JSON.stringify(remaining), new Date().toISOString(), userId, JSON.stringify(codes)]
+      );
+      if (updated.length > 0) return remaining;
+    }
+    return null;
+  }
+
+  async consumeTwoFactorChallenge(id: string, userId: string, expiresAt: string): Promise<boolean> {
+    const now = new Date().toISOString();
+    await this.db.query('DELETE FROM used_two_factor_challenges WHERE expires_at < ?', [now]);
+    const inserted = await this.db.query(
+      `INSERT INTO used_two_factor_challenges (id, user_id, expires_at, used_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (id) DO NOTHING RETURNING id`,
+      [id, userId, expiresAt, now]
+    );
+    return inserted.length > 0;
+  }
+
+  async createSession(session: SessionRecord): Promise<void> {
+    await this.db.query(
+      `INSERT INTO user_sessions (id, user_id, refresh_token, expires_at, is_active, created_at, updated_at,
+         family_id, signed_in_at, ip_address, user_agent, ended_reason)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        session.id, session.userId, session.refreshToken, session.expiresAt, session.isActive, session.createdAt, session.updatedAt,
+        session.familyId, session.signedInAt, session.ipAddress, session.userAgent, session.endedReason
+      ]
+    );
+  }
+
+  async findActiveSession(refreshToken: string, now: Date): Promise<SessionRecord | null> {
+    const [row] = await this.db.query(
+      'SELECT * FROM user_sessions WHERE refresh_token = ? AND is_active = ? AND expires_at > ?',
+      [refreshToken, true, now.toISOString()]
+    );
+    return row ? toSession(row) : null;
+  }
+
+  async findSession(refreshToken: string): Promise<SessionRecord | null> {
+    const [row] = await this.db.query('SELECT * FROM user_sessions WHERE refresh_token = ?', [refreshToken]);
+    return row ? toSession(row) : null;
+  }
+
+  async listActiveSessions(userId: string, now: Date): Promise<SessionRecord[]> {
+    const rows = await this.db.query(
+      'SELECT * FROM user_sessions WHERE user_id = ? AND is_active = ? AND expires_at > ? ORDER BY created_at DESC',
+      [userId, true, now.toISOString()]
+    );
+    return rows.map(toSession);
+  }
+
+  async rotateSession(refreshToken: string, next: SessionRecord): Promise<boolean> {
+    // Checking and ending the old token in one statement leaves a concurrent refresh nothing to rotate
+    const ended = await this.db.query(
+      'UPDATE user_sessions SET is_active = ?, ended_reason = ?, updated_at = ? WHERE refresh_token = ? AND is_active = ? RETURNING id',
+      [false, 'rotated', new Date().toISOString(), refreshToken, true]
+    );
+    if (ended.length === 0) return false;
+    await this.createSession(next);
+    return true;
+  }
+
+  async deactivateSession(refreshToken: string, reason?: SessionEndReason): Promise<void> {
+    await this.db.query(
+      'UPDATE user_sessions SET is_active = ?, ended_reason = ?, updated_at = ? WHERE refresh_token = ? AND is_active = ?',
+      [false, reason, new Date().toISOString(), refreshToken, true]
+    );
+  }
+
+  async deactivateSessionFamily(familyId: string, reason: SessionEndReason): Promise<void> {
+    await this.db.query(
+      'UPDATE user_sessions SET is_active = ?, ended_reason = ?, updated_at = ? WHERE (family_id = ? OR id = ?) AND is_active = ?',
+      [false, reason, new Date().toISOString(), familyId, familyId, true]
+    );
+  }
+
+  async deactivateUserSessions(userId: string, reason?: SessionEndReason): Promise<void> {
+    await this.db.query(
+      'UPDATE user_sessions SET is_active = ?, ended_reason = ?, updated_at = ? WHERE user_id = ? AND is_active = ?',
+      [false, reason, new Date().toISOString(), userId, true]
+    );
+  }
+
+  async replaceResetToken(record: PasswordResetTokenRecord): Promise<void> {
+    await this.db.query(
+      'UPDATE password_reset_tokens SET used = ? WHERE user_id = ? AND used = ?',
+      [true, record.userId, false]
+    );
+    await this.db.query(
+      `INSERT INTO password_reset_tokens (id, user_id, token, expires_at, used, used_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [record.id, record.userId, record.token, record.expiresAt, record.used, record.usedAt, record.createdAt]
+    );
+  }
+
+  async findUnusedResetToken(token: string): Promise<PasswordResetTokenRecord | null> {
+    const [row] = await this.db.query('SELECT * FROM password_reset_tokens WHERE token = ? AND used = ?', [token, false]);
+    return row ? toResetToken(row) : null;
+  }
+
+  async markResetTokenUsed(id: string, usedAt: string): Promise<void> {
+    await this.db.query('UPDATE password_reset_tokens SET used = ?, used_at = ? WHERE id = ?', [true, usedAt, id]);
+  }
+
+  async logActivity(entry: ActivityLogEntry): Promise<void> {
+    await this.db.query(
+      `INSERT INTO user_activity_logs (id, user_id, action, details, ip_address, user_agent, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [entry.id, entry.userId, entry.action, JSON.stringify(entry.details), entry.ipAddress, entry.userAgent, entry.createdAt]
+    );
+  }
+}
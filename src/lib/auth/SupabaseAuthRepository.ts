@@ -0,0 +1,382 @@
+// Auth persistence on the Supabase `users`, `user_sessions`,
+// `password_reset_tokens`, `used_two_factor_challenges` and
+// `user_activity_logs` tables
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DuplicateEmailError,
+  type AccountChanges,
+  type AccountRecord,
+  type ActivityLogEntry,
+  type AuthRepository,
+  type PasswordResetTokenRecord,
+  type SessionEndReason,
+  type SessionRecord
+} from './AuthRepository';
+
+interface UserRow {
+  id: string;
+  email: string;
+  name: string;
+  role: AccountRecord['role'];
+  password_hash: string;
+  avatar?: string | null;
+  preferences?: Record<string, unknown> | null;
+  is_email_verified: boolean;
+  is_active: boolean;
+  email_verification_token?: string | null;
+  email_verification_expires_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  last_login_at?: string | null;
+  two_factor_secret?: string | null;
+  two_factor_pending_secret?: string | null;
+  two_factor_enabled_at?: string | null;
+  two_factor_recovery_codes?: string[] | null;
+  two_factor_last_step?: number | null;
+}
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  refresh_token: string;
+  expires_at: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at?: string | null;
+  family_id?: string | null;
+  signed_in_at?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  ended_reason?: SessionEndReason | null;
+}
+
+interface ResetTokenRow {
+  id: string;
+  user_id: string;
+  token: string;
+  expires_at: string;
+  used: boolean;
+  used_at?: string | null;
+  created_at: string;
+}
+
+function toAccount(row: UserRow): AccountRecord {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    passwordHash: row.password_hash,
+    avatar: row.avatar ?? undefined,
+    preferences: row.preferences ?? undefined,
+    isEmailVerified: row.is_email_verified,
+    isActive: row.is_active,
+    emailVerificationToken: row.email_verification_token ?? undefined,
+    emailVerificationExpiresAt: row.email_verification_expires_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    lastLoginAt: row.last_login_at ?? undefined,
+    twoFactorSecret: row.two_factor_secret ?? undefined,
+    twoFactorPendingSecret: row.two_factor_pending_secret ?? undefined,
+    twoFactorEnabledAt: row.two_factor_enabled_at ?? undefined,
+    twoFactorRecoveryCodes: row.two_factor_recovery_codes ?? undefined,
+    twoFactorLastStep: row.two_factor_last_step ?? undefined
+  };
+}
+
+function toUserRow(changes: AccountChanges & { id?: string; createdAt?: string }): Partial<UserRow> {
+  const row: Partial<UserRow> = {};
+  if (changes.id !== undefined) row.id = changes.id;
+  if (changes.email !== undefined) row.email = changes.email.toLowerCase();
+  if (changes.name !== undefined) row.name = changes.name;
+  if (changes.role !== undefined) row.role = changes.role;
+  if (changes.passwordHash !== undefined) row.password_hash = changes.passwordHash;
+  if ('avatar' in changes) row.avatar = changes.avatar ?? null;
+  if ('preferences' in changes) row.preferences = changes.preferences ?? null;
+  if (changes.isEmailVerified !== undefined) row.is_email_verified = changes.isEmailVerified;
+  if (changes.isActive !== undefined) row.is_active = changes.isActive;
+  if ('emailVerificationToken' in changes) row.email_verification_token = changes.emailVerificationToken ?? null;
+  if ('emailVerificationExpiresAt' in changes) row.email_verification_expires_at = changes.emailVerificationExpiresAt ?? null;
+  if (changes.createdAt !== undefined) row.created_at = changes.createdAt;
+  if (changes.updatedAt !== undefined) row.updated_at = changes.updatedAt;
+  if ('lastLoginAt' in changes) row.last_login_at = changes.lastLoginAt ?? null;
+  if ('twoFactorSecret' in changes) row.two_factor_secret = changes.twoFactorSecret ?? null;
+  if ('twoFactorPendingSecret' in changes) row.two_factor_pending_secret = changes.twoFactorPendingSecret ?? null;
+  if ('twoFactorEnabledAt' in changes) row.two_factor_enabled_at = changes.twoFactorEnabledAt ?? null;
+  if ('twoFactorRecoveryCodes' in changes) row.two_factor_recovery_codes = changes.twoFactorRecoveryCodes ?? null;
+  if ('twoFactorLastStep' in changes) row.two_factor_last_step = changes.twoFactorLastStep ?? null;
+  return row;
+}
+
+function toSession(row: SessionRow): SessionRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    refreshToken: row.refresh_token,
+    expiresAt: row.expires_at,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? undefined,
+    familyId: row.family_id ?? undefined,
+    signedInAt: row.signed_in_at ?? undefined,
+    ipAddress: row.ip_address ?? undefined,
+    userAgent: row.user_agent ?? undefined,
+    endedReason: row.ended_reason ?? undefined
+  };
+}
+
+function toSessionRow(session: SessionRecord): SessionRow {
+  return {
+    id: session.id,
+    user_id: session.userId,
+    refresh_token: session.refreshToken,
+    expires_at: session.expiresAt,
+    is_active: session.isActive,
+    created_at: session.createdAt,
+    updated_at: session.updatedAt ?? null,
+    family_id: session.familyId ?? null,
+    signed_in_at: session.signedInAt ?? null,
+    ip_address: session.ipAddress ?? null,
+    user_agent: session.userAgent ?? null,
+    ended_reason: session.endedReason ?? null
+  };
+}
+
+function toResetToken(row: ResetTokenRow): PasswordResetTokenRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    token: row.token,
+    expiresAt: row.expires_at,
+    used: row.used,
+    usedAt: row.used_at ?? undefined,
+    createdAt: row.created_at
+  };
+}
+
+export class SupabaseAuthRepository implements AuthRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async getUser(id: string): Promise<AccountRecord | null> {
+    const { data, error } = await this.supabase.from('users').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error('Failed to load user');
+    return data ? toAccount(data as UserRow) : null;
+  }
+
+  async findUserByEmail(email: string): Promise<AccountRecord | null> {
+    const { data, error } = await this.supabase.from('users').select('*').eq('email', email.toLowerCase()).maybeSingle();
+    if (error) throw new Error('Failed to load user');
+    return data ? toAccount(data as UserRow) : null;
+  }
+
+  async findUserByVerificationToken(token: string): Promise<AccountRecord | null> {
+    const { data, error } = await this.supabase.from('users').select('*').eq('email_verification_token', token).maybeSingle();
+    if (error) throw new Error('Failed to load user');
+    return data ? toAccount(data as UserRow) : null;
+  }
+
+  async listVerifiedUsers(): Promise<AccountRecord[]> {
+    const { data, error } = await this.supabase.from('users').select('*').eq('is_active', true).eq('is_email_verified', true);
+    if (error) throw new Error('Failed to load users');
+    return ((data ?? []) as UserRow[]).map(toAccount);
+  }
+
+  async createUser(user: AccountRecord): Promise<AccountRecord> {
+    if (await this.findUserByEmail(user.email)) throw new DuplicateEmailError(user.email);
+
+    const { data, error } = await this.supabase.from('users').insert(toUserRow(user)).select().single();
+    if (error || !data) throw new Error(`Failed to create user: ${error?.message}`);
+    return toAccount(data as UserRow);
+  }
+
+  async updateUser(id: string, changes: AccountChanges): Promise<AccountRecord | null> {
+    if (changes.email) {
+      const owner = await this.findUserByEmail(changes.email);
+      if (owner && owner.id !== id) throw new DuplicateEmailError(changes.email);
+    }
+
+    const { data, error } = await this.supabase.from('users').update(toUserRow(changes)).eq('id', id).select().maybeSingle();
+    if (error) throw new Error('Failed to update user');
+    return data ? toAccount(data as UserRow) : null;
+  }
+
+  async advanceTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    // The update only matches an earlier step, so a concurrent request spending the same code finds nothing
+    const { data, error } = await this.supabase
+      .from('users')
+      .update({ two_factor_last_step: step, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+      .or(`two_factor_last_step.is.null,two_factor_last_step.lt.${step}`)
+      .select('id');
+    if (error) throw new Error('Failed to update two-factor step');
+    return Boolean(data && data.length > 0);
+  }
+
+  async removeRecoveryCode(userId: string, hash: string): Promise<string[] | null> {
+    // Matching on the list as read makes this a compare-and-set; a list changed in between is read again
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const codes = (await this.getUser(userId))?.twoFactorRecoveryCodes ?? [];
+      const index = codes.indexOf(hash);
+      if (index === -1) return null;
+
+      const remaining = codes.filter((_, i) => i !== index);
+      const { data, error } = await this.supabase
+        .from('users')
+        .update({ two_factor_recovery_codes: remaining, updated_at: new Date().toISOString() })
+        .eq('id', userId)
+        .eq('two_factor_recovery_codes', JSON.stringify(codes))
+        .select('id');
+      if (error) throw new Error('Failed to update recovery codes');
+      if (data && data.length > 0) return remaining;
+    }
+    return null;
+  }
+
+  async consumeTwoFactorChallenge(id: string, userId: string, expiresAt: string): Promise<boolean> {
+    const now = new Date().toISOString();
+    const { error: pruneError } = await this.supabase.from('used_two_factor_challenges').delete().lt('expires_at', now);
+    if (pruneError) throw new Error('Failed to prune two-factor challenges');
+
+    // An id already stored is skipped and comes back as no rows
+    const { data, error } = await this.supabase
+      .from('used_two_factor_challenges')
+      .upsert({ id, user_id: userId, expires_at: expiresAt, used_at: now }, { onConflict: 'id', ignoreDuplicates: true })
+      .select('id');
+    if (error) throw new Error('Failed to record two-factor challenge');
+    return Boolean(data && data.length > 0);
+  }
+
+  async createSession(session: SessionRecord): Promise<void> {
+    const { error } = await this.supabase.from('user_sessions').insert(toSessionRow(session));
+    if (error) throw new Error('Failed to store session');
+  }
+
+  async findActiveSession(refreshToken: string, now: Date): Promise<SessionRecord | null> {
+    const { data, error } = await this.supabase
+      .from('user_sessions')
+      .select('*')
+      .eq('refresh_token', refreshToken)
+      .eq('is_active', true)
+      .gt('expires_at', now.toISOString())
+      .maybeSingle();
+    if (error) throw new Error('Failed to load session');
+    return data ? toSession(data as SessionRow) : null;
+  }
+
+  async findSession(refreshToken: string): Promise<SessionRecord | null> {
+    const { data, error } = await this.supabase
+      .from('user_sessions')
+      .select('*')
+      .eq('refresh_token', refreshToken)
+      .maybeSingle();
+    if (error) throw new Error('Failed to load session');
+    return data ? toSession(data as SessionRow) : null;
+  }
+
+  async listActiveSessions(userId: string, now: Date): Promise<SessionRecord[]> {
+    const { data, error } = await this.supabase
+      .from('user_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .gt('expires_at', now.toISOString())
+      .order('created_at', { ascending: false });
+    if (error) throw new Error('Failed to load sessions');
+    return (data as SessionRow[]).map(toSession);
+  }
+
+  async rotateSession(refreshToken: string, next: SessionRecord): Promise<boolean> {
+    // The update only matches while the token is active, so a concurrent refresh finds nothing to rotate
+    const { data, error } = await this.supabase
+      .from('user_sessions')
+      .update({ is_active: false, ended_reason: 'rotated', updated_at: new Date().toISOString() })
+      .eq('refresh_token', refreshToken)
+      .eq('is_active', true)
+      .select('id');
+    if (error) throw new Error('Failed to rotate session');
+    if (!data || data.length === 0) return false;
+    await this.createSession(next);
+    return true;
+  }
+
+  async deactivateSession(refreshToken: string, reason?: SessionEndReason): Promise<void> {
+    const { error } = await this.supabase
+      .from('user_sessions')
+      .update({ is_active: false, ended_reason: reason ?? null, updated_at: new Date().toISOString() })
+      .eq('refresh_token', refreshToken)
+      .eq('is_active', true);
+    if (error) throw new Error('Failed to invalidate session');
+  }
+
+  async deactivateSessionFamily(familyId: string, reason: SessionEndReason): Promise<void> {
+    const changes = { is_active: false, ended_reason: reason, updated_at: new Date().toISOString() };
+    // Sessions from before families carry no family id and are their own family
+    for (const column of ['family_id', 'id']) {
+      const { error } = await this.supabase
+        .from('user_sessions')
+        .update(changes)
+        .eq(column, familyId)
+        .eq('is_active', true);
+      if (error) throw new Error('Failed to invalidate sessions');
+    }
+  }
+
+  async deactivateUserSessions(userId: string, reason?: SessionEndReason): Promise<void> {
+    const { error } = await this.supabase
+      .from('user_sessions')
+      .update({ is_active: false, ended_reason: reason ?? null, updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('is_active', true);
+    if (error) throw new Error('Failed to invalidate sessions');
+  }
+
+  async replaceResetToken(record: PasswordResetTokenRecord): Promise<void> {
+    const { error: invalidateError } = await this.supabase
+      .from('password_reset_tokens')
+      .update({ used: true })
+      .eq('user_id', record.userId)
+      .eq('used', false);
+    if (invalidateError) throw new Error('Failed to create reset token');
+
+    const { error } = await this.supabase.from('password_reset_tokens').insert({
+      id: record.id,
+      user_id: record.userId,
+      token: record.token,
+      expires_at: record.expiresAt,
+      used: record.used,
+      used_at: record.usedAt ?? null,
+      created_at: record.createdAt
+    });
+    if (error) throw new Error('Failed to create reset token');
+  }
+
+  async findUnusedResetToken(token: string): Promise<PasswordResetTokenRecord | null> {
+    const { data, error } = await this.supabase
+      .from('password_reset_tokens')
+      .select('*')
+      .eq('token', token)
+      .eq('used', false)
+      .maybeSingle();
+    if (error) throw new Error('Failed to load reset token');
+    return data ? toResetToken(data as ResetTokenRow) : null;
+  }
+
+  async markResetTokenUsed(id: string, usedAt: string): Promise<void> {
+    const { error } = await this.supabase.from('password_reset_tokens').update({ used: true, used_at: usedAt }).eq('id', id);
+    if (error) throw new Error('Failed to mark reset token as used');
+  }
+
+  async logActivity(entry: ActivityLogEntry): Promise<void> {
+    const { error } = await this.supabase.from('user_activity_logs').insert({
+      id: entry.id,
+      user_id: entry.userId,
+      action: entry.action,
+      details: entry.details,
+      ip_address: entry.ipAddress,
+      user_agent: entry.userAgent,
+      created_at: entry.createdAt
+    });
+    if (error) throw new Error('Failed to log activity');
+  }
+}
@@ -0,0 +1,100 @@
+// Time-based one-time passwords (RFC 6238) as authenticator apps generate
+// them: HMAC-SHA1 over 30-second steps, six digits, base32 secrets
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_STEP_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+/** Accepts lower case, spaces and padding, as people copy secrets by hand */
+export function base32Decode(secret: string): Buffer {
+  const clean = secret.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** A new 160-bit secret, base32-encoded */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/** The time step a moment falls in */
+export const totpStep = (timeMs: number): number => Math.floor(timeMs / 1000 / TOTP_STEP_SECONDS);
+
+/** The code for one time step (RFC 4226 HOTP over the step counter) */
+export function totpCode(secret: string, step: number, digits = TOTP_DIGITS): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+  return String(binary).padStart(digits, '0');
+}
+
+export interface TotpVerifyOptions {
+  /** Steps either side of the current one still accepted, for clock drift */
+  window?: number;
+  /** The step of the last accepted code; it and earlier steps are refused so a code works once */
+  lastUsedStep?: number;
+}
+
+/**
+ * The step the code belongs to, or null when it matches none in the window.
+ * Store the step and pass it back as `lastUsedStep` next time.
+ */
+export function verifyTotp(secret: string, code: string, timeMs: number, options: TotpVerifyOptions = {}): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null;
+
+  const window = options.window ?? 1;
+  const current = totpStep(timeMs);
+  for (let step = current - window; step <= current + window; step++) {
+    if (options.lastUsedStep !== undefined && step <= options.lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(normalized))) return step;
+  }
+  return null;
+}
+
+/** The `otpauth://` URI authenticator apps read from a QR code */
+export function totpProvisioningUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,124 @@
+// Second-factor building blocks for the auth routes: one-time recovery codes
+// kept only as hashes, TOTP secrets encrypted at rest, and the short-lived
+// challenge tokens that carry a login from the password step to the code step
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { base32Encode } from './Totp';
+
+export const TOTP_ISSUER = 'Tahitian Tutor';
+export const RECOVERY_CODE_COUNT = 10;
+export const CHALLENGE_TTL_SECONDS = 5 * 60;
+
+export class TwoFactorError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+// Recovery codes
+
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z2-7]/g, '');
+
+/** Ten codes like `k3x9q-7hm2p`: 50 random bits each, easy to read out and type */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/** Codes are random enough that a plain SHA-256 cannot be reversed by guessing */
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/** The stored hash `code` matches, or null when it matches none of them */
+export function matchRecoveryCode(hashes: string[], code: string): string | null {
+  const candidate = Buffer.from(hashRecoveryCode(code), 'hex');
+  return hashes.find(hash => timingSafeEqual(Buffer.from(hash, 'hex'), candidate)) ?? null;
+}
+
+/** The hashes left once `code` is spent, or null when it matches none of them */
+export function consumeRecoveryCode(hashes: string[], code: string): string[] | null {
+  const match = matchRecoveryCode(hashes, code);
+  return match === null ? null : hashes.filter((_, i) => i !== hashes.indexOf(match));
+}
+
+// TOTP secrets at rest
+
+function sealingKey(keyMaterial: string): Buffer {
+  return createHash('sha256').update(keyMaterial).digest();
+}
+
+/** AES-256-GCM, stored as `v1.<iv>.<tag>.<ciphertext>` in base64url */
+export function sealSecret(secret: string, keyMaterial: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', sealingKey(keyMaterial), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return ['v1', iv, cipher.getAuthTag(), ciphertext].map(part => (typeof part === 'string' ? part : part.toString('base64url'))).join('.');
+}
+
+export function openSecret(sealed: string, keyMaterial: string): string {
+  const [version, iv, tag, ciphertext] = sealed.split('.');
+  if (version !== 'v1' || !iv || !tag || !ciphertext) throw new TwoFactorError('Unreadable two-factor secret', 500);
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', sealingKey(keyMaterial), Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new TwoFactorError('Unreadable two-factor secret', 500);
+  }
+}
+
+// Login challenges
+
+/**
+ * `verify` finishes a login with a code; `setup` lets an account whose role
+ * requires two factors enroll before its first full login
+ */
+export type ChallengePurpose = 'verify' | 'setup';
+
+export interface TwoFactorChallenge {
+  userId: string;
+  purpose: ChallengePurpose;
+  rememberMe: boolean;
+}
+
+/** A challenge read back from its token */
+export interface VerifiedChallenge extends TwoFactorChallenge {
+  /** The token's `jti`, spent once the challenge is answered */
+  id: string;
+  expiresAt: number;
+}
+
+// A different audience from access tokens, so a challenge never passes for one
+const CHALLENGE_AUDIENCE = 'tahitian-tutor-2fa';
+
+export function signChallenge(challenge: TwoFactorChallenge, jwtSecret: string): { challengeToken: string; expiresAt: number } {
+  const challengeToken = jwt.sign(
+    { sub: challenge.userId, purpose: challenge.purpose, rememberMe: challenge.rememberMe },
+    jwtSecret,
+    { expiresIn: CHALLENGE_TTL_SECONDS, issuer: 'tahitian-tutor', audience: CHALLENGE_AUDIENCE, jwtid: randomUUID() }
+  );
+  return { challengeToken, expiresAt: Date.now() + CHALLENGE_TTL_SECONDS * 1000 };
+}
+
+export function verifyChallenge(token: string, purpose: ChallengePurpose, jwtSecret: string): VerifiedChallenge {
+  try {
+    const payload = jwt.verify(token, jwtSecret, { issuer: 'tahitian-tutor', audience: CHALLENGE_AUDIENCE }) as jwt.JwtPayload;
+    if (payload.purpose !== purpose || typeof payload.sub !== 'string') throw new Error('Wrong challenge purpose');
+    if (typeof payload.jti !== 'string' || typeof payload.exp !== 'number') throw new Error('Challenge cannot be spent');
+    return {
+      userId: payload.sub,
+      purpose,
+      rememberMe: payload.rememberMe === true,
+      id: payload.jti,
+      expiresAt: payload.exp * 1000
+    };
+  } catch {
+    throw new TwoFactorError('Your sign-in has expired. Please sign in again.', 401);
+  }
+}
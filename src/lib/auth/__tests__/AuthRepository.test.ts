@@ -0,0 +1,180 @@
+import fs from 'fs';
+import path from 'path';
+import { DuplicateEmailError, MemoryAuthRepository, type AccountRecord, type AuthRepository } from '../AuthRepository';
+import { SqlAuthRepository } from '../SqlAuthRepository';
+import { connectSql, type SqlClient } from '../../db/SqlClient';
+
+const NOW = '2026-03-01T10:00:00.000Z';
+
+const account = (overrides: Partial<AccountRecord> = {}): AccountRecord => ({
+  id: 'user-1',
+  email: 'hina@example.test',
+  name: 'Hina',
+  role: 'student',
+  passwordHash: 'hash',
+  preferences: { language: 'fr', notifications: { email: true } },
+  isEmailVerified: false,
+  isActive: true,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides
+});
+
+const session = (refreshToken: string, expiresAt = '2026-03-08T10:00:00.000Z') => ({
+  id: `session-${refreshToken}`,
+  userId: 'user-1',
+  refreshToken,
+  expiresAt,
+  isActive: true,
+  createdAt: NOW
+});
+
+const hasSqlite = (() => {
+  try {
+    require.resolve('better-sqlite3');
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+async function migratedSqlite(): Promise<SqlClient> {
+  const db = await connectSql('sqlite::memory:');
+  const dir = path.join(process.cwd(), 'db', 'migrations');
+  for (const file of fs.readdirSync(dir).filter(name => name.endsWith('.sql')).sort()) {
+    await db.exec(fs.readFileSync(path.join(dir, file), 'utf8'));
+  }
+  return db;
+}
+
+function describeRepository(name: string, create: () => Promise<{ repository: AuthRepository; close?: () => Promise<void> }>) {
+  describe(name, () => {
+    let repository: AuthRepository;
+    let close: (() => Promise<void>) | undefined;
+
+    beforeEach(async () => {
+      ({ repository, close } = await create());
+      await repository.createUser(account({ email: 'Hina@Example.test' }));
+    });
+
+    afterEach(async () => {
+      await close?.();
+    });
+
+    it('stores accounts with lower-case emails and refuses duplicates', async () => {
+      const user = await repository.findUserByEmail('HINA@example.test');
+      expect(user).toEqual(account());
+      await expect(repository.createUser(account({ id: 'user-2' }))).rejects.toThrow(DuplicateEmailError);
+
+      const updated = await repository.updateUser('user-1', { name: 'Hina T.', lastLoginAt: '2026-03-02T08:00:00.000Z', isEmailVerified: true });
+      expect(updated).toMatchObject({ name: 'Hina T.', lastLoginAt: '2026-03-02T08:00:00.000Z', isEmailVerified: true, isActive: true });
+      expect(await repository.updateUser('missing', { name: 'x' })).toBeNull();
+
+      await repository.createUser(account({ id: 'user-2', email: 'teva@example.test' }));
+      await expect(repository.updateUser('user-2', { email: 'hina@example.test' })).rejects.toThrow(DuplicateEmailError);
+    });
+
+    it('finds accounts by verification token and lists verified ones', async () => {
+      await repository.updateUser('user-1', { emailVerificationToken: 'verify-1', emailVerificationExpiresAt: '2026-03-02T10:00:00.000Z' });
+      expect(await repository.findUserByVerificationToken('verify-1')).toMatchObject({ id: 'user-1' });
+      expect(await repository.listVerifiedUsers()).toEqual([]);
+
+      await repository.updateUser('user-1', { isEmailVerified: true, emailVerificationToken: undefined, emailVerificationExpiresAt: undefined });
+      await repository.createUser(account({ id: 'user-2', email: 'teva@example.test', isEmailVerified: true, isActive: false }));
+      expect(await repository.findUserByVerificationToken('verify-1')).toBeNull();
+      expect((await repository.listVerifiedUsers()).map(user => user.id)).toEqual(['user-1']);
+    });
+
+    it('spends two-factor steps and challenges once', async () => {
+      expect(await repository.advanceTwoFactorStep('user-1', 100)).toBe(true);
+      expect(await repository.advanceTwoFactorStep('user-1', 100)).toBe(false);
+      expect(await repository.advanceTwoFactorStep('user-1', 99)).toBe(false);
+      expect(await repository.advanceTwoFactorStep('user-1', 101)).toBe(true);
+      expect(await repository.getUser('user-1')).toMatchObject({ twoFactorLastStep: 101 });
+      expect(await repository.advanceTwoFactorStep('missing', 1)).toBe(false);
+
+      await repository.updateUser('user-1', { twoFactorRecoveryCodes: ['hash-a', 'hash-b'] });
+      expect(await repository.removeRecoveryCode('user-1', 'hash-a')).toEqual(['hash-b']);
+      expect(await repository.removeRecoveryCode('user-1', 'hash-a')).toBeNull();
+      const [first, second] = await Promise.all([
+        repository.removeRecoveryCode('user-1', 'hash-b'),
+        repository.removeRecoveryCode('user-1', 'hash-b')
+      ]);
+      expect([first, second].filter(Boolean)).toEqual([[]]);
+      expect(await repository.getUser('user-1')).toMatchObject({ twoFactorRecoveryCodes: [] });
+
+      const expiresAt = new Date(Date.now() + 5 * 60 * 1000).toISOString();
+      expect(await repository.consumeTwoFactorChallenge('challenge-1', 'user-1', expiresAt)).toBe(true);
+      expect(await repository.consumeTwoFactorChallenge('challenge-1', 'user-1', expiresAt)).toBe(false);
+      expect(await repository.consumeTwoFactorChallenge('challenge-2', 'user-1', expiresAt)).toBe(true);
+    });
+
+    it('finds only active, unexpired sessions', async () => {
+      await repository.createSession(session('token-a'));
+      await repository.createSession(session('token-b'));
+      await repository.createSession(session('token-old', '2026-02-01T00:00:00.000Z'));
+
+      const now = new Date(NOW);
+      expect(await repository.findActiveSession('token-a', now)).toMatchObject({ userId: 'user-1', isActive: true });
+      expect(await repository.findActiveSession('token-old', now)).toBeNull();
+
+      await repository.deactivateSession('token-a');
+      expect(await repository.findActiveSession('token-a', now)).toBeNull();
+      expect(await repository.findActiveSession('token-b', now)).not.toBeNull();
+
+      await repository.deactivateUserSessions('user-1');
+      expect(await repository.findActiveSession('token-b', now)).toBeNull();
+    });
+
+    it('rotates refresh tokens within a family and ends families', async () => {
+      const now = new Date(NOW);
+      await repository.createSession({ ...session('token-1'), familyId: 'family-a', signedInAt: NOW, userAgent: 'Safari' });
+      await repository.createSession({ ...session('token-x'), familyId: 'family-b' });
+
+      const next = { ...session('token-2'), familyId: 'family-a', signedInAt: NOW, createdAt: '2026-03-01T10:15:00.000Z' };
+      expect(await repository.rotateSession('token-1', next)).toBe(true);
+      expect(await repository.rotateSession('token-1', { ...next, id: 'session-again', refreshToken: 'token-3' })).toBe(false);
+      expect(await repository.findSession('token-1')).toMatchObject({ isActive: false, endedReason: 'rotated', familyId: 'family-a' });
+      expect(await repository.findSession('token-3')).toBeNull();
+      expect((await repository.listActiveSessions('user-1', now)).map(active => active.refreshToken)).toEqual(['token-2', 'token-x']);
+
+      await repository.deactivateSessionFamily('family-a', 'reuse_detected');
+      expect(await repository.findSession('token-2')).toMatchObject({ isActive: false, endedReason: 'reuse_detected' });
+      expect(await repository.findActiveSession('token-x', now)).not.toBeNull();
+    });
+
+    it('keeps one usable reset token per account', async () => {
+      const token = (id: string) => ({ id, userId: 'user-1', token: `secret-${id}`, expiresAt: '2026-03-01T11:00:00.000Z', used: false, createdAt: NOW });
+      await repository.replaceResetToken(token('first'));
+      await repository.replaceResetToken(token('second'));
+
+      expect(await repository.findUnusedResetToken('secret-first')).toBeNull();
+      expect(await repository.findUnusedResetToken('secret-second')).toMatchObject({ id: 'second', userId: 'user-1' });
+
+      await repository.markResetTokenUsed('second', NOW);
+      expect(await repository.findUnusedResetToken('secret-second')).toBeNull();
+    });
+
+    it('records activity', async () => {
+      await expect(repository.logActivity({
+        id: 'log-1',
+        userId: 'user-1',
+        action: 'user_logout',
+        details: { logout_method: 'manual' },
+        ipAddress: '203.0.113.7',
+        userAgent: 'jest',
+        createdAt: NOW
+      })).resolves.toBeUndefined();
+    });
+  });
+}
+
+describeRepository('MemoryAuthRepository', async () => ({ repository: new MemoryAuthRepository() }));
+
+// Runs wherever the optional SQLite driver is installed
+if (hasSqlite) {
+  describeRepository('SqlAuthRepository on SQLite', async () => {
+    const db = await migratedSqlite();
+    return { repository: new SqlAuthRepository(db), close: () => db.close() };
+  });
+}
@@ -0,0 +1,102 @@
+import { clientAddress, RateLimiter, type RateLimitPolicy } from '../RateLimiter';
+import { MemoryRateLimitStore } from '../RateLimitStore';
+
+const policy: RateLimitPolicy = {
+  requests: { ip: 10, account: 6, windowMs: 60_000 },
+  backoff: { ip: 10, account: 2, baseDelayMs: 1000, maxDelayMs: 4000 },
+  lockout: { ip: 8, account: 5, windowMs: 60_000, durationMs: 300_000 }
+};
+
+describe('RateLimiter', () => {
+  let now: number;
+  let limiter: RateLimiter;
+  const subjects = { ip: '2001:db8::7', account: 'Hina@Example.test' };
+
+  beforeEach(() => {
+    now = Date.parse('2026-03-01T10:00:00.000Z');
+    const clock = () => now;
+    limiter = new RateLimiter(new MemoryRateLimitStore(clock), { policies: { login: policy }, now: clock });
+  });
+
+  it('refuses requests over the budget until the window ends', async () => {
+    for (let i = 0; i < 6; i++) {
+      expect(await limiter.attempt('login', subjects)).toEqual({ allowed: true });
+    }
+    expect(await limiter.attempt('login', subjects)).toEqual({ allowed: false, reason: 'too_many_requests', scope: 'account', retryAfter: 60 });
+
+    now += 45_000;
+    expect(await limiter.attempt('login', { ...subjects, account: 'HINA@example.test' })).toMatchObject({ retryAfter: 15 });
+    expect(await limiter.attempt('login', { ip: subjects.ip, account: 'teva@example.test' })).toEqual({ allowed: true });
+
+    now += 15_000;
+    expect(await limiter.attempt('login', subjects)).toEqual({ allowed: true });
+  });
+
+  it('backs off progressively, then locks the account', async () => {
+    const delays: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      expect((await limiter.attempt('login', subjects)).allowed).toBe(true);
+      delays.push((await limiter.recordFailure('login', subjects)).retryAfter);
+      if (delays[i] > 0) {
+        expect(await limiter.attempt('login', subjects)).toMatchObject({ allowed: false, reason: 'backoff', retryAfter: delays[i] });
+        now += delays[i] * 1000;
+      }
+    }
+    expect(delays).toEqual([0, 0, 1, 2]);
+
+    const outcome = await limiter.recordFailure('login', subjects);
+    expect(outcome).toEqual({ failures: { ip: 5, account: 5 }, locked: ['account'], retryAfter: 300 });
+    expect(await limiter.attempt('login', subjects)).toMatchObject({ allowed: false, reason: 'locked', scope: 'account', retryAfter: 300 });
+
+    now += 300_000;
+    expect(await limiter.attempt('login', subjects)).toEqual({ allowed: true });
+    expect((await limiter.recordFailure('login', subjects)).failures.account).toBe(1);
+  });
+
+  it('forgets account failures after a success but keeps counting the IP', async () => {
+    await limiter.recordFailure('login', subjects);
+    await limiter.recordFailure('login', subjects);
+    await limiter.recordSuccess('login', subjects);
+
+    expect((await limiter.recordFailure('login', subjects)).failures).toEqual({ ip: 3, account: 1 });
+  });
+
+  it('lists and clears lockouts', async () => {
+    for (let i = 0; i < 8; i++) await limiter.recordFailure('login', { ip: subjects.ip, account: `user${i}@example.test` });
+    await limiter.recordFailure('reset_password', { ip: '203.0.113.9' });
+
+    expect(await limiter.listLockouts()).toEqual([{
+      action: 'login',
+      scope: 'ip',
+      subject: '2001:db8::7',
+      failures: 8,
+      lockedAt: '2026-03-01T10:00:00.000Z',
+      expiresAt: '2026-03-01T10:05:00.000Z'
+    }]);
+
+    expect(await limiter.clearLockout('login', 'ip', '2001:db8::7')).toBe(true);
+    expect(await limiter.clearLockout('login', 'ip', '2001:db8::7')).toBe(false);
+    expect(await limiter.listLockouts()).toEqual([]);
+    expect(await limiter.attempt('login', { ip: subjects.ip })).toEqual({ allowed: true });
+  });
+
+  it('keeps counting the proxy-reported IP however the client forges X-Forwarded-For', async () => {
+    const from = (forwardedFor: string) => clientAddress(new Headers({ 'x-forwarded-for': forwardedFor }), 1);
+    for (let i = 0; i < 8; i++) {
+      await limiter.recordFailure('login', { ip: from(`198.51.100.${i}, 203.0.113.9`), account: `user${i}@example.test` });
+    }
+
+    const spoofed = from('198.51.100.77, 203.0.113.9');
+    expect(spoofed).toBe('203.0.113.9');
+    expect(await limiter.attempt('login', { ip: spoofed })).toMatchObject({ allowed: false, reason: 'locked', scope: 'ip' });
+  });
+
+  it('reads the client address the trusted proxies added', () => {
+    const headers = new Headers({ 'x-forwarded-for': '10.0.0.1, 198.51.100.4, 172.16.0.2', 'x-real-ip': '192.0.2.5' });
+    expect(clientAddress(headers, 1)).toBe('172.16.0.2');
+    expect(clientAddress(headers, 2)).toBe('198.51.100.4');
+    expect(clientAddress(headers, 5)).toBe('10.0.0.1');
+    expect(clientAddress(headers, 0)).toBe('192.0.2.5');
+    expect(clientAddress(new Headers(), 1)).toBe('unknown');
+  });
+});
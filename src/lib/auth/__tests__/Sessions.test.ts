@@ -0,0 +1,45 @@
+import type { SessionRecord } from '../AuthRepository';
+import { describeDevice, summarizeSessions } from '../Sessions';
+
+const IPAD_SAFARI = 'Mozilla/5.0 (iPad; CPU OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1';
+const ANDROID_TABLET_CHROME = 'Mozilla/5.0 (Linux; Android 14; SM-X200) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const WINDOWS_EDGE = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0';
+
+const session = (id: string, overrides: Partial<SessionRecord> = {}): SessionRecord => ({
+  id,
+  userId: 'user-1',
+  refreshToken: `token-${id}`,
+  expiresAt: '2026-03-08T10:00:00.000Z',
+  isActive: true,
+  createdAt: '2026-03-01T10:00:00.000Z',
+  ...overrides
+});
+
+describe('Sessions', () => {
+  it('labels devices from their user agent', () => {
+    expect(describeDevice(IPAD_SAFARI)).toBe('Safari on iPad');
+    expect(describeDevice(ANDROID_TABLET_CHROME)).toBe('Chrome on Android tablet');
+    expect(describeDevice(WINDOWS_EDGE)).toBe('Edge on Windows');
+    expect(describeDevice('unknown')).toBe('Unknown device');
+  });
+
+  it('summarises one entry per family and marks the current one', () => {
+    const summaries = summarizeSessions([
+      session('s3', { familyId: 'family-a', signedInAt: '2026-02-20T08:00:00.000Z', createdAt: '2026-03-01T12:00:00.000Z', userAgent: IPAD_SAFARI, ipAddress: '203.0.113.9' }),
+      session('s2', { familyId: 'family-a', createdAt: '2026-03-01T11:00:00.000Z' }),
+      session('legacy')
+    ], 'family-a');
+
+    expect(summaries).toEqual([
+      expect.objectContaining({
+        id: 'family-a',
+        device: 'Safari on iPad',
+        ipAddress: '203.0.113.9',
+        signedInAt: '2026-02-20T08:00:00.000Z',
+        lastActiveAt: '2026-03-01T12:00:00.000Z',
+        current: true
+      }),
+      expect.objectContaining({ id: 'legacy', device: 'Unknown device', current: false })
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { base32Decode, base32Encode, totpCode, totpProvisioningUri, totpStep, verifyTotp } from '../Totp';
+import {
+  consumeRecoveryCode,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  matchRecoveryCode,
+  openSecret,
+  sealSecret,
+  signChallenge,
+  verifyChallenge
+} from '../TwoFactor';
+
+// The shared secret from the RFC 6238 test vectors
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(totpCode(RFC_SECRET, totpStep(59_000), 8)).toBe('94287082');
+    expect(totpCode(RFC_SECRET, totpStep(1_111_111_109_000), 8)).toBe('07081804');
+    expect(totpCode(RFC_SECRET, totpStep(59_000))).toBe('287082');
+  });
+
+  it('decodes secrets typed by hand', () => {
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq').toString()).toBe('12345678901234567890');
+    expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character');
+  });
+
+  it('accepts codes from neighbouring steps once each', () => {
+    const now = 1_700_000_000_000;
+    const previous = totpCode(RFC_SECRET, totpStep(now) - 1);
+
+    const step = verifyTotp(RFC_SECRET, previous, now);
+    expect(step).toBe(totpStep(now) - 1);
+    expect(verifyTotp(RFC_SECRET, previous, now, { lastUsedStep: step! })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, totpStep(now) - 2), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull();
+  });
+
+  it('builds an otpauth URI apps can scan', () => {
+    const uri = new URL(totpProvisioningUri(RFC_SECRET, 'hina@example.test', 'Tahitian Tutor'));
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.searchParams.get('secret')).toBe(RFC_SECRET);
+    expect(uri.searchParams.get('issuer')).toBe('Tahitian Tutor');
+  });
+});
+
+describe('TwoFactor', () => {
+  it('spends each recovery code once', () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(codes[0]).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+
+    const hashes = codes.map(hashRecoveryCode);
+    expect(matchRecoveryCode(hashes, codes[3])).toBe(hashes[3]);
+    const remaining = consumeRecoveryCode(hashes, ` ${codes[3].toUpperCase()} `);
+    expect(remaining).toHaveLength(9);
+    expect(consumeRecoveryCode(remaining!, codes[3])).toBeNull();
+  });
+
+  it('seals secrets so only the same key opens them', () => {
+    const sealed = sealSecret(RFC_SECRET, 'key-one');
+    expect(sealed).not.toContain(RFC_SECRET);
+    expect(openSecret(sealed, 'key-one')).toBe(RFC_SECRET);
+    expect(() => openSecret(sealed, 'key-two')).toThrow('Unreadable two-factor secret');
+  });
+
+  it('only accepts a challenge for its own purpose', () => {
+    const { challengeToken } = signChallenge({ userId: 'user-1', purpose: 'verify', rememberMe: true }, 'jwt-secret');
+
+    expect(verifyChallenge(challengeToken, 'verify', 'jwt-secret')).toEqual({
+      userId: 'user-1',
+      purpose: 'verify',
+      rememberMe: true,
+      id: expect.any(String),
+      expiresAt: expect.any(Number)
+    });
+    expect(() => verifyChallenge(challengeToken, 'setup', 'jwt-secret')).toThrow(expect.objectContaining({ status: 401 }));
+    expect(() => verifyChallenge(challengeToken, 'verify', 'other-secret')).toThrow(expect.objectContaining({ status: 401 }));
+  });
+
+  it('gives every challenge its own id to spend', () => {
+    const issue = () => signChallenge({ userId: 'user-1', purpose: 'verify', rememberMe: false }, 'jwt-secret').challengeToken;
+    const first = verifyChallenge(issue(), 'verify', 'jwt-secret');
+
+    expect(first.id).not.toBe(verifyChallenge(issue(), 'verify', 'jwt-secret').id);
+    expect(first.expiresAt).toBeGreaterThan(Date.now());
+  });
+});
@@ -0,0 +1,359 @@
+// Building blocks and save-time validation for the lesson authoring editor
+
+import { DataUtils } from '../data/DataService';
+import type { LessonSchemaIssue } from '../data/LessonNormalizer';
+import type {
+  Exercise,
+  ExerciseType,
+  Lesson,
+  LessonLevel,
+  LessonSection,
+  MCQExerciseData,
+  MatchExerciseData,
+  OrderingExerciseData,
+  DictationExerciseData,
+  PronunciationExerciseData,
+  FillBlankExerciseData,
+  RoleplayExerciseData,
+  SectionKind,
+  VocabItem
+} from '../../types';
+
+export const SECTION_KINDS: SectionKind[] = ['Objectives', 'Vocabulary', 'Practice', 'Culture', 'Assessment', 'Review'];
+export const EXERCISE_TYPES: ExerciseType[] = ['MCQ', 'Match', 'Ordering', 'Dictation', 'Pronunciation', 'FillBlank', 'Roleplay'];
+
+/** Marker for a blank in FillBlank text, as read by the learner view */
+export const BLANK_MARKER = '___';
+
+const BLANK_PATTERN = /_{3,}/g;
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const DEFAULT_SECTION_TITLES: Record<SectionKind, string> = {
+  Objectives: 'Objectifs',
+  Vocabulary: 'Vocabulaire',
+  Practice: 'Pratique',
+  Culture: 'Culture',
+  Assessment: 'Évaluation',
+  Review: 'Révision'
+};
+
+/** Section kinds whose content is mainly vocabulary or exercises */
+const VOCAB_SECTION_KINDS: SectionKind[] = ['Vocabulary'];
+const EXERCISE_SECTION_KINDS: SectionKind[] = ['Practice', 'Assessment', 'Review'];
+
+export function sectionHoldsVocab(kind: SectionKind): boolean {
+  return VOCAB_SECTION_KINDS.includes(kind);
+}
+
+export function sectionHoldsExercises(kind: SectionKind): boolean {
+  return EXERCISE_SECTION_KINDS.includes(kind);
+}
+
+/**
+ * URL slug from a title: accents and the glottal stop are dropped, so
+ * "Ia ora na ʻoe" becomes "ia-ora-na-oe"
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function createLesson(slug: string, level: LessonLevel, titleFr: string): Lesson {
+  return {
+    id: DataUtils.generateLessonId(slug),
+    slug,
+    level,
+    title: { fr: titleFr },
+    summary: '',
+    sections: [],
+    tags: [],
+    version: 1,
+    isPublished: false,
+    createdAt: Date.now(),
+    updatedAt: Date.now()
+  };
+}
+
+export function createSection(kind: SectionKind): LessonSection {
+  return {
+    kind,
+    title: DEFAULT_SECTION_TITLES[kind],
+    contentMd: '',
+    vocab: sectionHoldsVocab(kind) ? [] : undefined,
+    exercises: sectionHoldsExercises(kind) ? [] : undefined
+  };
+}
+
+export function createVocabItem(): VocabItem {
+  return { fr: '', tah: '', en: '' };
+}
+
+/**
+ * A new exercise of `type` with an empty payload of the shape the learner
+ * view expects
+ */
+export function createExercise(type: ExerciseType): Exercise {
+  switch (type) {
+    case 'MCQ': {
+      const data: MCQExerciseData = { question: '', options: ['', ''], correctIndex: 0 };
+      return { type, prompt: '', data: { ...data } };
+    }
+    case 'Match': {
+      const data: MatchExerciseData = { pairs: [{ left: '', right: '' }, { left: '', right: '' }] };
+      return { type, prompt: '', data: { ...data } };
+    }
+    case 'Ordering': {
+      const data: OrderingExerciseData = { items: ['', ''], correctOrder: [0, 1] };
+      return { type, prompt: '', data: { ...data } };
+    }
+    case 'Dictation': {
+      const data: DictationExerciseData = { audioUrl: '', transcript: '', hints: [] };
+      return { type, prompt: '', data: { ...data } };
+    }
+    case 'Pronunciation': {
+      const data: PronunciationExerciseData = { target: '', threshold: 0.7 };
+      return { type, prompt: '', data: { ...data } };
+    }
+    case 'FillBlank': {
+      const data: FillBlankExerciseData = { text: '', blanks: [] };
+      return { type, prompt: '', data: { ...data } };
+    }
+    case 'Roleplay': {
+      const data: RoleplayExerciseData = { scenario: '', steps: [{ speaker: 'other', text: '' }] };
+      return { type, prompt: '', data: { ...data } };
+    }
+  }
+}
+
+/**
+ * Returns a copy of `items` with the entry at `from` moved to `to`
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) {
+    return items;
+  }
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/**
+ * Number of blanks marked in FillBlank text
+ */
+export function countBlanks(text: string): number {
+  return (text.match(BLANK_PATTERN) ?? []).length;
+}
+
+const isBlank = (value: unknown): boolean => typeof value !== 'string' || value.trim() === '';
+
+class IssueList {
+  readonly issues: LessonSchemaIssue[] = [];
+
+  error(path: string, message: string): void {
+    this.issues.push({ path, message, severity: 'error' });
+  }
+
+  warn(path: string, message: string): void {
+    this.issues.push({ path, message, severity: 'warning' });
+  }
+}
+
+function validateExercisePayload(exercise: Exercise, path: string, list: IssueList): void {
+  const data = exercise.data;
+
+  switch (exercise.type) {
+    case 'MCQ': {
+      const { question, options = [], correctIndex } = data as unknown as MCQExerciseData;
+      if (isBlank(question)) list.error(`${path}.data.question`, 'question is required');
+      if (options.length < 2) list.error(`${path}.data.options`, 'at least two options are required');
+      options.forEach((option, i) => {
+        if (isBlank(option)) list.error(`${path}.data.options[${i}]`, 'option text is required');
+      });
+      if (!Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= options.length) {
+        list.error(`${path}.data.correctIndex`, 'mark one option as correct');
+      }
+      break;
+    }
+    case 'Match': {
+      const { pairs = [] } = data as unknown as MatchExerciseData;
+      if (pairs.length < 2) list.error(`${path}.data.pairs`, 'at least two pairs are required');
+      const lefts = new Set<string>();
+      pairs.forEach((pair, i) => {
+        if (isBlank(pair.left) || isBlank(pair.right)) {
+          list.error(`${path}.data.pairs[${i}]`, 'both sides of the pair are required');
+        } else if (lefts.has(pair.left.trim())) {
+          list.error(`${path}.data.pairs[${i}]`, `'${pair.left}' appears twice on the left`);
+        }
+        lefts.add(pair.left.trim());
+      });
+      break;
+    }
+    case 'Ordering': {
+      const { items = [], correctOrder = [] } = data as unknown as OrderingExerciseData;
+      if (items.length < 2) list.error(`${path}.data.items`, 'at least two items are required');
+      items.forEach((item, i) => {
+        if (isBlank(item)) list.error(`${path}.data.items[${i}]`, 'item text is required');
+      });
+      const isPermutation = correctOrder.length === items.length &&
+        [...correctOrder].sort((a, b) => a - b).every((value, i) => value === i);
+      if (!isPermutation) {
+        list.error(`${path}.data.correctOrder`, 'correct order must list every item exactly once');
+      }
+      break;
+    }
+    case 'Dictation': {
+      const { audioUrl, transcript } = data as unknown as DictationExerciseData;
+      if (isBlank(transcript)) list.error(`${path}.data.transcript`, 'transcript is required');
+      if (isBlank(audioUrl) && data.audioMediaId === undefined) {
+        list.warn(`${path}.data.audioUrl`, 'no audio attached; learners will hear speech synthesis');
+      }
+      break;
+    }
+    case 'Pronunciation': {
+      const { target, threshold } = data as unknown as PronunciationExerciseData;
+      if (isBlank(target)) list.error(`${path}.data.target`, 'target phrase is required');
+      if (typeof threshold !== 'number' || threshold <= 0 || threshold > 1) {
+        list.error(`${path}.data.threshold`, 'threshold must be between 0 and 1');
+      }
+      break;
+    }
+    case 'FillBlank': {
+      const { text, blanks = [] } = data as unknown as FillBlankExerciseData;
+      if (isBlank(text)) {
+        list.error(`${path}.data.text`, 'text is required');
+        break;
+      }
+      const markers = countBlanks(text);
+      if (markers === 0) list.error(`${path}.data.text`, `mark blanks in the text with ${BLANK_MARKER}`);
+      if (markers !== blanks.length) {
+        list.error(`${path}.data.blanks`, `text has ${markers} blank(s) but ${blanks.length} answer(s)`);
+      }
+      blanks.forEach((blank, i) => {
+        if (isBlank(blank.answer)) list.error(`${path}.data.blanks[${i}].answer`, 'answer is required');
+      });
+      break;
+    }
+    case 'Roleplay': {
+      const { scenario, steps = [] } = data as unknown as RoleplayExerciseData;
+      if (isBlank(scenario)) list.error(`${path}.data.scenario`, 'scenario is required');
+      if (steps.length === 0) list.error(`${path}.data.steps`, 'at least one dialogue step is required');
+      steps.forEach((step, i) => {
+        const stepPath = `${path}.data.steps[${i}]`;
+        if (isBlank(step.text) && !(step.options && step.options.length > 0)) {
+          list.error(stepPath, 'step needs a line of dialogue or reply options');
+        }
+        if (step.options) {
+          if (step.speaker !== 'you') list.error(`${stepPath}.options`, 'only the learner can choose a reply');
+          if (step.options.length < 2) list.error(`${stepPath}.options`, 'offer at least two replies');
+          step.options.forEach((option, j) => {
+            if (isBlank(option)) list.error(`${stepPath}.options[${j}]`, 'reply text is required');
+          });
+        }
+      });
+      break;
+    }
+  }
+}
+
+function validateExercise(exercise: Exercise, path: string, list: IssueList): void {
+  if (!EXERCISE_TYPES.includes(exercise.type)) {
+    list.error(`${path}.type`, `unsupported exercise type '${exercise.type}'`);
+    return;
+  }
+  if (isBlank(exercise.prompt)) list.error(`${path}.prompt`, 'prompt is required');
+  if (exercise.points !== undefined && (!Number.isInteger(exercise.points) || exercise.points < 1)) {
+    list.error(`${path}.points`, 'points must be a whole number of at least 1');
+  }
+  validateExercisePayload(exercise, path, list);
+}
+
+function validateVocabItem(item: VocabItem, path: string, list: IssueList, mediaIds?: Set<number>): void {
+  if (isBlank(item.fr)) list.error(`${path}.fr`, 'French text is required');
+  if (isBlank(item.tah)) list.warn(`${path}.tah`, 'Tahitian text is missing');
+  if (item.audioMediaId !== undefined && mediaIds && !mediaIds.has(item.audioMediaId)) {
+    list.error(`${path}.audioMediaId`, `audio #${item.audioMediaId} is not in the media library`);
+  }
+}
+
+function validateSection(section: LessonSection, path: string, list: IssueList, mediaIds?: Set<number>): void {
+  if (isBlank(section.title)) list.error(`${path}.title`, 'section title is required');
+
+  const vocab = section.vocab ?? [];
+  const exercises = section.exercises ?? [];
+  if (isBlank(section.contentMd) && vocab.length === 0 && exercises.length === 0) {
+    list.warn(path, 'section has no content');
+  }
+  if (sectionHoldsExercises(section.kind) && section.kind !== 'Review' && exercises.length === 0) {
+    list.warn(`${path}.exercises`, `${section.kind} sections are graded; add at least one exercise`);
+  }
+
+  vocab.forEach((item, i) => validateVocabItem(item, `${path}.vocab[${i}]`, list, mediaIds));
+  exercises.forEach((exercise, i) => validateExercise(exercise, `${path}.exercises[${i}]`, list));
+}
+
+/**
+ * Checks an authored lesson before it is saved. Errors block saving; warnings
+ * are shown to the author. `mediaIds`, when given, is the media library that
+ * audio attachments must point into.
+ */
+export function validateLessonDraft(lesson: Lesson, mediaIds?: Set<number>): LessonSchemaIssue[] {
+  const list = new IssueList();
+
+  if (!SLUG_PATTERN.test(lesson.slug)) {
+    list.error('slug', 'slug must be lowercase words separated by hyphens');
+  }
+  if (isBlank(lesson.title.fr)) list.error('title.fr', 'French title is required');
+  if (isBlank(lesson.summary)) list.warn('summary', 'summary is empty');
+  if (lesson.sections.length === 0) list.error('sections', 'add at least one section');
+  if (lesson.heroMediaId !== undefined && mediaIds && !mediaIds.has(lesson.heroMediaId)) {
+    list.error('heroMediaId', `image #${lesson.heroMediaId} is not in the media library`);
+  }
+
+  lesson.sections.forEach((section, i) => validateSection(section, `sections[${i}]`, list, mediaIds));
+  return list.issues;
+}
+
+export function hasBlockingIssues(issues: LessonSchemaIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
+
+/**
+ * The lesson as it is stored: sort orders follow the on-screen order, text is
+ * trimmed and empty optional fields are dropped
+ */
+export function prepareLessonForSave(lesson: Lesson, now: number = Date.now()): Lesson {
+  const trimOptional = (value?: string) => (value && value.trim() ? value.trim() : undefined);
+
+  return {
+    ...lesson,
+    summary: lesson.summary.trim(),
+    updatedAt: now,
+    sections: lesson.sections.map((section, sectionIndex) => ({
+      ...section,
+      title: section.title.trim(),
+      contentMd: trimOptional(section.contentMd),
+      sortOrder: sectionIndex + 1,
+      vocab: section.vocab?.length
+        ? section.vocab.map((item, i) => ({
+            ...item,
+            fr: item.fr.trim(),
+            tah: trimOptional(item.tah),
+            en: trimOptional(item.en),
+            ipaFr: trimOptional(item.ipaFr),
+            ipaTah: trimOptional(item.ipaTah),
+            partOfSpeech: trimOptional(item.partOfSpeech),
+            note: trimOptional(item.note),
+            sortOrder: i + 1
+          }))
+        : undefined,
+      exercises: section.exercises?.length
+        ? section.exercises.map((exercise, i) => ({ ...exercise, prompt: exercise.prompt.trim(), sortOrder: i + 1 }))
+        : undefined
+    }))
+  };
+}
@@ -0,0 +1,91 @@
+import {
+  EXERCISE_TYPES,
+  createExercise,
+  createLesson,
+  createSection,
+  hasBlockingIssues,
+  moveItem,
+  prepareLessonForSave,
+  slugify,
+  validateLessonDraft
+} from '../LessonAuthoring';
+import type { Exercise, Lesson } from '../../../types';
+
+const lessonWith = (exercises: Exercise[], overrides: Partial<Lesson> = {}): Lesson => ({
+  ...createLesson('salutations', 'Beginner', 'Salutations'),
+  summary: 'Dire bonjour',
+  sections: [{ ...createSection('Practice'), exercises }],
+  ...overrides
+});
+
+const errorPaths = (lesson: Lesson, mediaIds?: Set<number>) =>
+  validateLessonDraft(lesson, mediaIds)
+    .filter(issue => issue.severity === 'error')
+    .map(issue => issue.path);
+
+describe('LessonAuthoring', () => {
+  it('builds slugs without accents or glottal stops', () => {
+    expect(slugify('  Ia ora na ʻoe !')).toBe('ia-ora-na-oe');
+    expect(slugify('Les nombres – été')).toBe('les-nombres-ete');
+  });
+
+  it('moves items without mutating the list', () => {
+    const items = ['a', 'b', 'c'];
+    expect(moveItem(items, 0, 2)).toEqual(['b', 'c', 'a']);
+    expect(moveItem(items, 2, 3)).toBe(items);
+    expect(items).toEqual(['a', 'b', 'c']);
+  });
+
+  it('rejects every blank exercise template until it is filled in', () => {
+    EXERCISE_TYPES.forEach(type => {
+      const issues = validateLessonDraft(lessonWith([createExercise(type)]));
+      expect(hasBlockingIssues(issues)).toBe(true);
+      expect(issues.some(issue => issue.path === 'sections[0].exercises[0].prompt')).toBe(true);
+    });
+  });
+
+  it('checks type-specific payload rules', () => {
+    const ordering: Exercise = { type: 'Ordering', prompt: 'Ordonnez', data: { items: ['a', 'b', 'c'], correctOrder: [0, 0, 2] } };
+    const fillBlank: Exercise = {
+      type: 'FillBlank',
+      prompt: 'Complétez',
+      data: { text: 'Ia ___ na, ___ !', blanks: [{ position: 0, answer: 'ora' }] }
+    };
+    const roleplay: Exercise = {
+      type: 'Roleplay',
+      prompt: 'Au marché',
+      data: { scenario: 'Au marché', steps: [{ speaker: 'other', text: 'Ia ora na', options: ['a', 'b'] }] }
+    };
+    const mcq: Exercise = { type: 'MCQ', prompt: 'Choisissez', data: { question: 'Bonjour ?', options: ['Ia ora na', 'Nana'], correctIndex: 1 } };
+
+    expect(errorPaths(lessonWith([ordering, fillBlank, roleplay, mcq]))).toEqual([
+      'sections[0].exercises[0].data.correctOrder',
+      'sections[0].exercises[1].data.blanks',
+      'sections[0].exercises[2].data.steps[0].options'
+    ]);
+  });
+
+  it('requires attached media to exist in the course library', () => {
+    const lesson = lessonWith([], {
+      heroMediaId: 9,
+      sections: [{ ...createSection('Vocabulary'), vocab: [{ fr: 'bonjour', tah: 'ia ora na', audioMediaId: 3 }] }]
+    });
+
+    expect(errorPaths(lesson, new Set([3]))).toEqual(['heroMediaId']);
+    expect(errorPaths(lesson, new Set([9]))).toEqual(['sections[0].vocab[0].audioMediaId']);
+  });
+
+  it('renumbers and trims content for saving', () => {
+    const lesson = lessonWith([], {
+      sections: [
+        { ...createSection('Culture'), title: ' Le tiare ', contentMd: '  ', sortOrder: 5 },
+        { ...createSection('Vocabulary'), vocab: [{ fr: ' fleur ', tah: 'tiare', en: '' }] }
+      ]
+    });
+
+    const saved = prepareLessonForSave(lesson, 1000);
+    expect(saved.updatedAt).toBe(1000);
+    expect(saved.sections[0]).toMatchObject({ title: 'Le tiare', contentMd: undefined, sortOrder: 1 });
+    expect(saved.sections[1].vocab).toEqual([{ fr: 'fleur', tah: 'tiare', sortOrder: 1 }]);
+  });
+});
@@ -223,7 +223,7 @@ export class IndexedDBCache {
   /**
    * Get cached user progress
    */
-  async getCachedUserProgress(userId: number, lessonId?: number): Promise<UserProgress[]> {
+  async getCachedUserProgress(userId: string, lessonId?: number): Promise<UserProgress[]> {
     await this.initialize();
     if (!this.db) return [];
 
@@ -0,0 +1,146 @@
+// The editor's side of a shared document. Local edits are applied at once and
+// sent one operation at a time; edits made while waiting for the server are
+// buffered, and remote operations are transformed past both.
+
+import type { ClientMessage, PresenceInfo, ServerMessage, TextSelection } from './CollaborationProtocol';
+import { transformSelection } from './CollaborationRoom';
+import {
+  applyOperation,
+  composeOperations,
+  diffToOperation,
+  isNoop,
+  transformOperations,
+  type TextOperation
+} from './TextOperation';
+
+export interface CollaborationClientOptions {
+  send: (message: ClientMessage) => Promise<void>;
+  /** The text changed because of the server: the snapshot on connect or another editor's operation */
+  onDocument?: (document: string) => void;
+  onParticipants?: (participants: PresenceInfo[]) => void;
+  onError?: (error: Error) => void;
+}
+
+export class CollaborationClient {
+  clientId: string | null = null;
+  private document = '';
+  private revision = 0;
+  private outstanding: TextOperation | null = null;
+  private buffer: TextOperation | null = null;
+  private pendingSelection: TextSelection | null | undefined;
+  private participants: PresenceInfo[] = [];
+
+  constructor(private readonly options: CollaborationClientOptions) {}
+
+  get text(): string {
+    return this.document;
+  }
+
+  get connected(): boolean {
+    return this.clientId !== null;
+  }
+
+  /** Everyone in the room, this editor included */
+  get roomParticipants(): PresenceInfo[] {
+    return this.participants;
+  }
+
+  /** Everyone else in the room, with carets moved to this editor's text */
+  get collaborators(): PresenceInfo[] {
+    return this.participants.filter(participant => participant.clientId !== this.clientId);
+  }
+
+  receive(message: ServerMessage): void {
+    switch (message.type) {
+      case 'snapshot':
+        this.clientId = message.clientId;
+        this.document = message.document;
+        this.revision = message.revision;
+        this.outstanding = null;
+        this.buffer = null;
+        this.participants = message.participants;
+        this.options.onDocument?.(this.document);
+        this.options.onParticipants?.(this.collaborators);
+        break;
+
+      case 'operation':
+        if (message.clientId === this.clientId) this.acknowledge(message.revision);
+        else this.applyRemote(message.revision, message.operation);
+        break;
+
+      case 'presence':
+        this.participants = message.participants;
+        this.options.onParticipants?.(this.collaborators);
+        break;
+    }
+  }
+
+  /** Records the editor's new text and sends the change */
+  edit(next: string): void {
+    const operation = diffToOperation(this.document, next);
+    if (isNoop(operation)) return;
+    this.document = next;
+
+    if (!this.clientId) return;
+    if (this.outstanding) {
+      this.buffer = this.buffer ? composeOperations(this.buffer, operation) : operation;
+    } else {
+      this.outstanding = operation;
+      this.sendOperation(operation);
+    }
+  }
+
+  /**
+   * Shares the editor's caret. While edits are in flight the server could not
+   * place it, so it is sent once they are acknowledged.
+   */
+  select(selection: TextSelection | null): void {
+    if (!this.clientId) return;
+    if (this.outstanding) {
+      this.pendingSelection = selection;
+      return;
+    }
+    this.sendSelection(selection);
+  }
+
+  private acknowledge(revision: number): void {
+    this.revision = revision;
+    this.outstanding = this.buffer;
+    this.buffer = null;
+
+    if (this.outstanding) {
+      this.sendOperation(this.outstanding);
+    } else if (this.pendingSelection !== undefined) {
+      this.sendSelection(this.pendingSelection);
+      this.pendingSelection = undefined;
+    }
+  }
+
+  private applyRemote(revision: number, operation: TextOperation): void {
+    let remote = operation;
+    if (this.outstanding) [this.outstanding, remote] = transformOperations(this.outstanding, remote);
+    if (this.buffer) [this.buffer, remote] = transformOperations(this.buffer, remote);
+
+    this.document = applyOperation(this.document, remote);
+    this.revision = revision;
+    this.participants = this.participants.map(participant => (
+      participant.selection ? { ...participant, selection: transformSelection(participant.selection, remote) } : participant
+    ));
+    this.options.onDocument?.(this.document);
+    this.options.onParticipants?.(this.collaborators);
+  }
+
+  private sendOperation(operation: TextOperation): void {
+    this.dispatch({ type: 'operation', clientId: this.clientId!, revision: this.revision, operation });
+  }
+
+  private sendSelection(selection: TextSelection | null): void {
+    this.dispatch({ type: 'selection', clientId: this.clientId!, revision: this.revision, selection });
+  }
+
+  private dispatch(message: ClientMessage): void {
+    this.options.send(message).catch(error => {
+      this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
+    });
+  }
+}
@@ -0,0 +1,82 @@
+// Browser connection to a collaboration room: a streamed POST that carries
+// server-sent events down, and plain POSTs for the editor's messages. fetch is
+// used rather than EventSource so the request can carry the bearer token.
+
+import { parseServerEvents, type ClientMessage, type ServerMessage } from './CollaborationProtocol';
+
+export interface CollaborationConnectionOptions {
+  roomId: string;
+  /** Seeds the room when this editor is the first to open it */
+  document?: string;
+  /** `view` joins for presence only */
+  mode?: 'edit' | 'view';
+  headers: Record<string, string>;
+  onMessage: (message: ServerMessage) => void;
+  /** The stream ended; `error` is set unless `close()` was called */
+  onClose: (error?: Error) => void;
+  fetcher?: typeof fetch;
+}
+
+export interface CollaborationConnection {
+  send: (message: ClientMessage) => Promise<void>;
+  close: () => void;
+}
+
+const roomUrl = (roomId: string) => `/api/admin/collaboration/${encodeURIComponent(roomId)}`;
+
+async function responseError(response: Response, fallback: string): Promise<Error> {
+  const body = await response.json().catch(() => null) as { error?: string } | null;
+  return new Error(body?.error ?? `${fallback} (HTTP ${response.status})`);
+}
+
+export function connectCollaboration(options: CollaborationConnectionOptions): CollaborationConnection {
+  const fetcher = options.fetcher ?? fetch;
+  const controller = new AbortController();
+  let closed = false;
+
+  const finish = (error?: Error) => {
+    if (closed) return;
+    closed = true;
+    options.onClose(error);
+  };
+
+  (async () => {
+    const response = await fetcher(roomUrl(options.roomId), {
+      method: 'POST',
+      headers: { ...options.headers, 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify({ document: options.document, mode: options.mode ?? 'edit' }),
+      signal: controller.signal
+    });
+    if (!response.ok || !response.body) throw await responseError(response, 'Could not join the session');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const parsed = parseServerEvents(buffer);
+      buffer = parsed.rest;
+      parsed.messages.forEach(options.onMessage);
+    }
+    finish(new Error('The collaboration session was closed'));
+  })().catch(error => {
+    finish(controller.signal.aborted ? undefined : error instanceof Error ? error : new Error(String(error)));
+  });
+
+  return {
+    async send(message) {
+      const response = await fetcher(`${roomUrl(options.roomId)}/messages`, {
+        method: 'POST',
+        headers: { ...options.headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify(message)
+      });
+      if (!response.ok) throw await responseError(response, 'Could not send the change');
+    },
+    close() {
+      finish();
+      controller.abort();
+    }
+  };
+}
@@ -0,0 +1,90 @@
+// Messages exchanged between the collaboration server and editors. The
+// server streams them as server-sent events; editors POST theirs back.
+
+import { offsetToPosition, type TextOperation } from './TextOperation';
+import type { SessionParticipant } from '../../types/collaboration';
+
+/** A caret (anchor === head) or selection, as offsets into the document */
+export interface TextSelection {
+  anchor: number;
+  head: number;
+}
+
+export interface PresenceInfo {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+  canEdit: boolean;
+  joinedAt: number;
+  lastSeen: number;
+  selection?: TextSelection;
+}
+
+export type ServerMessage =
+  | { type: 'snapshot'; clientId: string; revision: number; document: string; participants: PresenceInfo[] }
+  /** `clientId` is the author; for the author the message doubles as the acknowledgement */
+  | { type: 'operation'; clientId: string; revision: number; operation: TextOperation }
+  | { type: 'presence'; participants: PresenceInfo[] };
+
+export type ClientMessage =
+  /** `revision` is the last server revision the operation was based on */
+  | { type: 'operation'; clientId: string; revision: number; operation: TextOperation }
+  | { type: 'selection'; clientId: string; revision: number; selection: TextSelection | null };
+
+export const MAX_DOCUMENT_LENGTH = 200_000;
+
+/** Room ids look like `course-<id>:<lessonSlug>:<section>` */
+const ROOM_ID_PATTERN = /^[\w.-]+(:[\w.-]+){0,3}$/;
+
+export function isValidRoomId(roomId: string): boolean {
+  return roomId.length <= 200 && ROOM_ID_PATTERN.test(roomId);
+}
+
+/** Someone in a room as a session participant, with their caret as lines of `document` */
+export function toSessionParticipant(presence: PresenceInfo, document: string, section: string): SessionParticipant {
+  const { selection } = presence;
+  return {
+    userId: presence.userId,
+    name: presence.name,
+    color: presence.color,
+    role: presence.canEdit ? 'editor' : 'viewer',
+    joinedAt: new Date(presence.joinedAt),
+    lastSeen: new Date(presence.lastSeen),
+    isActive: true,
+    ...(selection && { cursor: { section, ...offsetToPosition(document, selection.head) } }),
+    ...(selection && selection.anchor !== selection.head && {
+      selection: {
+        start: offsetToPosition(document, Math.min(selection.anchor, selection.head)),
+        end: offsetToPosition(document, Math.max(selection.anchor, selection.head))
+      }
+    })
+  };
+}
+
+/** Idle streams get a comment this often so proxies keep them open */
+export const HEARTBEAT_INTERVAL_MS = 25_000;
+
+export function encodeServerEvent(message: ServerMessage): string {
+  return `event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`;
+}
+
+/**
+ * Splits buffered stream text into complete events. Returns the messages and
+ * the unfinished remainder to prepend to the next chunk.
+ */
+export function parseServerEvents(buffer: string): { messages: ServerMessage[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const messages: ServerMessage[] = [];
+
+  for (const block of blocks) {
+    const data = block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+    if (data) messages.push(JSON.parse(data) as ServerMessage);
+  }
+  return { messages, rest };
+}
@@ -0,0 +1,206 @@
+// One shared document on the collaboration server: the authoritative text,
+// its revision history and who is in the room
+
+import type { PresenceInfo, ServerMessage, TextSelection } from './CollaborationProtocol';
+import { MAX_DOCUMENT_LENGTH } from './CollaborationProtocol';
+import {
+  applyOperation,
+  OperationError,
+  targetLength,
+  transformIndex,
+  transformOperations,
+  type TextOperation
+} from './TextOperation';
+
+export class CollaborationError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'CollaborationError';
+  }
+}
+
+/** Older revisions are forgotten; editors that far behind must reconnect */
+const MAX_HISTORY = 1000;
+
+const PARTICIPANT_COLORS = ['#2563eb', '#db2777', '#16a34a', '#ea580c', '#7c3aed', '#0891b2', '#ca8a04', '#dc2626'];
+
+export interface JoinRequest {
+  clientId: string;
+  userId: string;
+  name: string;
+  canEdit: boolean;
+  /** The editor's copy of the text; it seeds a room nobody has edited yet */
+  document?: string;
+}
+
+type RoomListener = (message: ServerMessage) => void;
+
+export class CollaborationRoom {
+  private document = '';
+  private revision = 0;
+  private history: TextOperation[] = [];
+  private historyStart = 0;
+  private participants = new Map<string, PresenceInfo>();
+  private listeners = new Set<RoomListener>();
+  private joinCount = 0;
+  lastActivity: number;
+
+  constructor(readonly id: string, private readonly now: () => number = Date.now) {
+    this.lastActivity = now();
+  }
+
+  get text(): string {
+    return this.document;
+  }
+
+  get currentRevision(): number {
+    return this.revision;
+  }
+
+  get isEmpty(): boolean {
+    return this.participants.size === 0;
+  }
+
+  listParticipants(): PresenceInfo[] {
+    return [...this.participants.values()].map(participant => ({ ...participant }));
+  }
+
+  subscribe(listener: RoomListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Adds an editor or viewer. The first editor's text becomes the room's
+   * first revision, so anyone already watching receives it as an operation.
+   */
+  join(request: JoinRequest): Extract<ServerMessage, { type: 'snapshot' }> {
+    const { document, ...member } = request;
+    if (document !== undefined && document.length > MAX_DOCUMENT_LENGTH) {
+      throw new CollaborationError('The document is too large to edit together', 413);
+    }
+
+    const now = this.now();
+    this.participants.set(member.clientId, {
+      ...member,
+      color: PARTICIPANT_COLORS[this.joinCount++ % PARTICIPANT_COLORS.length],
+      joinedAt: now,
+      lastSeen: now
+    });
+    if (document && member.canEdit && this.revision === 0 && this.document === '') {
+      this.receiveOperation(member.clientId, 0, [document]);
+    }
+    this.lastActivity = now;
+    this.broadcastPresence();
+
+    return {
+      type: 'snapshot',
+      clientId: member.clientId,
+      revision: this.revision,
+      document: this.document,
+      participants: this.listParticipants()
+    };
+  }
+
+  leave(clientId: string): void {
+    if (!this.participants.delete(clientId)) return;
+    this.lastActivity = this.now();
+    this.broadcastPresence();
+  }
+
+  /**
+   * Applies an editor's operation, written against `revision`, after
+   * transforming it past everything accepted since. Returns the new revision.
+   */
+  receiveOperation(clientId: string, revision: number, operation: TextOperation): number {
+    const participant = this.requireParticipant(clientId);
+    if (!participant.canEdit) throw new CollaborationError('You can only view this document', 403);
+
+    let transformed = operation;
+    for (const concurrent of this.historySince(revision)) {
+      [transformed] = transformOperations(transformed, concurrent);
+    }
+
+    let next: string;
+    try {
+      next = applyOperation(this.document, transformed);
+    } catch (error) {
+      if (error instanceof OperationError) throw new CollaborationError(error.message, 409);
+      throw error;
+    }
+    if (next.length > MAX_DOCUMENT_LENGTH) throw new CollaborationError('The document is too large to edit together', 413);
+
+    this.document = next;
+    this.history.push(transformed);
+    this.revision++;
+    if (this.history.length > MAX_HISTORY) {
+      this.history.shift();
+      this.historyStart++;
+    }
+
+    const now = this.now();
+    this.lastActivity = now;
+    participant.lastSeen = now;
+    for (const other of this.participants.values()) {
+      if (other.selection) other.selection = transformSelection(other.selection, transformed);
+    }
+
+    this.broadcast({ type: 'operation', clientId, revision: this.revision, operation: transformed });
+    return this.revision;
+  }
+
+  /** Moves an editor's caret, given as of `revision`, to the current text */
+  updateSelection(clientId: string, revision: number, selection: TextSelection | null): void {
+    const participant = this.requireParticipant(clientId);
+
+    if (selection) {
+      let current = selection;
+      for (const operation of this.historySince(revision)) current = transformSelection(current, operation);
+      const clamp = (index: number) => Math.max(0, Math.min(Math.floor(index), this.document.length));
+      participant.selection = { anchor: clamp(current.anchor), head: clamp(current.head) };
+    } else {
+      delete participant.selection;
+    }
+
+    participant.lastSeen = this.now();
+    this.broadcastPresence();
+  }
+
+  private requireParticipant(clientId: string): PresenceInfo {
+    const participant = this.participants.get(clientId);
+    if (!participant) throw new CollaborationError('Not connected to this session', 404);
+    return participant;
+  }
+
+  private historySince(revision: number): TextOperation[] {
+    if (!Number.isInteger(revision) || revision > this.revision) {
+      throw new CollaborationError('Unknown revision', 400);
+    }
+    if (revision < this.historyStart) {
+      throw new CollaborationError('Too far behind; reload the document', 409);
+    }
+    return this.history.slice(revision - this.historyStart);
+  }
+
+  private broadcastPresence(): void {
+    this.broadcast({ type: 'presence', participants: this.listParticipants() });
+  }
+
+  private broadcast(message: ServerMessage): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error('Failed to deliver collaboration message:', error);
+      }
+    }
+  }
+}
+
+export function transformSelection(selection: TextSelection, operation: TextOperation): TextSelection {
+  const length = targetLength(operation);
+  return {
+    anchor: Math.min(transformIndex(selection.anchor, operation), length),
+    head: Math.min(transformIndex(selection.head, operation), length)
+  };
+}
@@ -0,0 +1,32 @@
+// Collaboration rooms live in this server process. Deployments with several
+// instances need sticky routing by room id so editors of a lesson meet here.
+
+import { CollaborationRoom } from './CollaborationRoom';
+
+const rooms = new Map<string, CollaborationRoom>();
+
+/** The open room, or a new empty one that the first editor to join seeds */
+export function openCollaborationRoom(roomId: string): CollaborationRoom {
+  let room = rooms.get(roomId);
+  if (!room) {
+    room = new CollaborationRoom(roomId);
+    rooms.set(roomId, room);
+  }
+  return room;
+}
+
+export function findCollaborationRoom(roomId: string): CollaborationRoom | undefined {
+  return rooms.get(roomId);
+}
+
+export function listCollaborationRooms(): CollaborationRoom[] {
+  return [...rooms.values()];
+}
+
+/** Removes the editor and closes the room once nobody is left */
+export function leaveCollaborationRoom(roomId: string, clientId: string): void {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  room.leave(clientId);
+  if (room.isEmpty) rooms.delete(roomId);
+}
@@ -0,0 +1,345 @@
+// Operational transform for plain text, as used for lesson markdown.
+//
+// An operation walks the whole document: a positive number retains that many
+// characters, a negative number deletes that many and a string inserts it.
+// `transform` lets two editors apply each other's concurrent operations and
+// end up with the same text.
+
+export type OperationComponent = number | string;
+export type TextOperation = OperationComponent[];
+
+export class OperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OperationError';
+  }
+}
+
+const isRetain = (component: OperationComponent | undefined): component is number =>
+  typeof component === 'number' && component > 0;
+const isDelete = (component: OperationComponent | undefined): component is number =>
+  typeof component === 'number' && component < 0;
+const isInsert = (component: OperationComponent | undefined): component is string =>
+  typeof component === 'string';
+
+/** Builds normalized operations: no empty components, neighbours merged, inserts before deletes */
+class OperationBuilder {
+  readonly ops: TextOperation = [];
+
+  retain(count: number): this {
+    if (count === 0) return this;
+    const last = this.ops.length - 1;
+    if (isRetain(this.ops[last])) this.ops[last] = (this.ops[last] as number) + count;
+    else this.ops.push(count);
+    return this;
+  }
+
+  insert(text: string): this {
+    if (text === '') return this;
+    const last = this.ops.length - 1;
+    if (isInsert(this.ops[last])) {
+      this.ops[last] = (this.ops[last] as string) + text;
+    } else if (isDelete(this.ops[last])) {
+      // Insert-then-delete and delete-then-insert mean the same; keep one order
+      if (isInsert(this.ops[last - 1])) {
+        this.ops[last - 1] = (this.ops[last - 1] as string) + text;
+      } else {
+        this.ops.splice(last, 0, text);
+      }
+    } else {
+      this.ops.push(text);
+    }
+    return this;
+  }
+
+  delete(count: number): this {
+    if (count === 0) return this;
+    const last = this.ops.length - 1;
+    if (isDelete(this.ops[last])) this.ops[last] = (this.ops[last] as number) - count;
+    else this.ops.push(-count);
+    return this;
+  }
+}
+
+/** Length of the document the operation applies to */
+export function baseLength(operation: TextOperation): number {
+  return operation.reduce<number>((length, c) => length + (isInsert(c) ? 0 : Math.abs(c)), 0);
+}
+
+/** Length of the document after the operation */
+export function targetLength(operation: TextOperation): number {
+  return operation.reduce<number>((length, c) => length + (isInsert(c) ? c.length : isRetain(c) ? c : 0), 0);
+}
+
+export function isNoop(operation: TextOperation): boolean {
+  return operation.every(isRetain);
+}
+
+/** Checks untrusted input and returns it normalized */
+export function parseOperation(value: unknown): TextOperation {
+  if (!Array.isArray(value)) throw new OperationError('An operation must be an array');
+  const builder = new OperationBuilder();
+  for (const component of value) {
+    if (typeof component === 'string') builder.insert(component);
+    else if (Number.isInteger(component) && component > 0) builder.retain(component);
+    else if (Number.isInteger(component) && component < 0) builder.delete(-component);
+    else throw new OperationError('Operation components must be strings or non-zero integers');
+  }
+  return builder.ops;
+}
+
+export function applyOperation(document: string, operation: TextOperation): string {
+  if (baseLength(operation) !== document.length) {
+    throw new OperationError('The operation does not match the document length');
+  }
+
+  let result = '';
+  let index = 0;
+  for (const component of operation) {
+    if (isRetain(component)) {
+      result += document.slice(index, index + component);
+      index += component;
+    } else if (isInsert(component)) {
+      result += component;
+    } else {
+      index -= component;
+    }
+  }
+  return result;
+}
+
+/** One operation with the effect of `a` followed by `b` */
+export function composeOperations(a: TextOperation, b: TextOperation): TextOperation {
+  if (targetLength(a) !== baseLength(b)) {
+    throw new OperationError('The second operation must start from the result of the first');
+  }
+
+  const result = new OperationBuilder();
+  let i1 = 0;
+  let i2 = 0;
+  let op1 = a[i1++];
+  let op2 = b[i2++];
+
+  while (op1 !== undefined || op2 !== undefined) {
+    // A plain check: isDelete's type guard would also rule out retains below
+    if (typeof op1 === 'number' && op1 < 0) {
+      result.delete(-op1);
+      op1 = a[i1++];
+      continue;
+    }
+    if (isInsert(op2)) {
+      result.insert(op2);
+      op2 = b[i2++];
+      continue;
+    }
+    if (op1 === undefined || op2 === undefined) throw new OperationError('Cannot compose operations of different lengths');
+
+    if (isRetain(op1) && isRetain(op2)) {
+      if (op1 > op2) {
+        result.retain(op2);
+        op1 -= op2;
+        op2 = b[i2++];
+      } else if (op1 === op2) {
+        result.retain(op1);
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        result.retain(op1);
+        op2 -= op1;
+        op1 = a[i1++];
+      }
+    } else if (isInsert(op1) && isDelete(op2)) {
+      if (op1.length > -op2) {
+        op1 = op1.slice(-op2);
+        op2 = b[i2++];
+      } else if (op1.length === -op2) {
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        op2 += op1.length;
+        op1 = a[i1++];
+      }
+    } else if (isInsert(op1) && isRetain(op2)) {
+      if (op1.length > op2) {
+        result.insert(op1.slice(0, op2));
+        op1 = op1.slice(op2);
+        op2 = b[i2++];
+      } else if (op1.length === op2) {
+        result.insert(op1);
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        result.insert(op1);
+        op2 -= op1.length;
+        op1 = a[i1++];
+      }
+    } else if (isRetain(op1) && isDelete(op2)) {
+      if (op1 > -op2) {
+        result.delete(-op2);
+        op1 += op2;
+        op2 = b[i2++];
+      } else if (op1 === -op2) {
+        result.delete(-op2);
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        result.delete(op1);
+        op2 += op1;
+        op1 = a[i1++];
+      }
+    } else {
+      throw new OperationError('Cannot compose these operations');
+    }
+  }
+  return result.ops;
+}
+
+/**
+ * For concurrent `a` and `b` on the same document, returns `[a', b']` such
+ * that applying a then b' gives the same text as b then a'. When both insert
+ * at the same place, `a`'s text comes first.
+ */
+export function transformOperations(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+  if (baseLength(a) !== baseLength(b)) {
+    throw new OperationError('Concurrent operations must apply to the same document');
+  }
+
+  const aPrime = new OperationBuilder();
+  const bPrime = new OperationBuilder();
+  let i1 = 0;
+  let i2 = 0;
+  let op1 = a[i1++];
+  let op2 = b[i2++];
+
+  while (op1 !== undefined || op2 !== undefined) {
+    if (isInsert(op1)) {
+      aPrime.insert(op1);
+      bPrime.retain(op1.length);
+      op1 = a[i1++];
+      continue;
+    }
+    if (isInsert(op2)) {
+      aPrime.retain(op2.length);
+      bPrime.insert(op2);
+      op2 = b[i2++];
+      continue;
+    }
+    if (op1 === undefined || op2 === undefined) throw new OperationError('Cannot transform operations of different lengths');
+
+    let length: number;
+    if (isRetain(op1) && isRetain(op2)) {
+      if (op1 > op2) {
+        length = op2;
+        op1 -= op2;
+        op2 = b[i2++];
+      } else if (op1 === op2) {
+        length = op2;
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        length = op1;
+        op2 -= op1;
+        op1 = a[i1++];
+      }
+      aPrime.retain(length);
+      bPrime.retain(length);
+    } else if (isDelete(op1) && isDelete(op2)) {
+      // Both deleted the same text; neither needs to delete it again
+      if (-op1 > -op2) {
+        op1 -= op2;
+        op2 = b[i2++];
+      } else if (op1 === op2) {
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        op2 -= op1;
+        op1 = a[i1++];
+      }
+    } else if (isDelete(op1) && isRetain(op2)) {
+      if (-op1 > op2) {
+        length = op2;
+        op1 += op2;
+        op2 = b[i2++];
+      } else if (-op1 === op2) {
+        length = op2;
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        length = -op1;
+        op2 += op1;
+        op1 = a[i1++];
+      }
+      aPrime.delete(length);
+    } else if (isRetain(op1) && isDelete(op2)) {
+      if (op1 > -op2) {
+        length = -op2;
+        op1 += op2;
+        op2 = b[i2++];
+      } else if (op1 === -op2) {
+        length = op1;
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        length = op1;
+        op2 += op1;
+        op1 = a[i1++];
+      }
+      bPrime.delete(length);
+    } else {
+      throw new OperationError('Cannot transform these operations');
+    }
+  }
+  return [aPrime.ops, bPrime.ops];
+}
+
+/** Where a caret at `index` ends up after the operation; text inserted at the caret pushes it along */
+export function transformIndex(index: number, operation: TextOperation): number {
+  let remaining = index;
+  let result = index;
+  for (const component of operation) {
+    if (remaining < 0) break;
+    if (isRetain(component)) {
+      remaining -= component;
+    } else if (isInsert(component)) {
+      result += component.length;
+    } else {
+      result -= Math.min(remaining, -component);
+      remaining += component;
+    }
+  }
+  return result;
+}
+
+/** The operation turning `before` into `after`, as one replaced span */
+export function diffToOperation(before: string, after: string): TextOperation {
+  let prefix = 0;
+  const maxPrefix = Math.min(before.length, after.length);
+  while (prefix < maxPrefix && before[prefix] === after[prefix]) prefix++;
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (suffix < maxSuffix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+
+  return new OperationBuilder()
+    .retain(prefix)
+    .delete(before.length - prefix - suffix)
+    .insert(after.slice(prefix, after.length - suffix))
+    .retain(suffix)
+    .ops;
+}
+
+/** Zero-based line and character of an offset */
+export function offsetToPosition(text: string, offset: number): { line: number; character: number } {
+  const before = text.slice(0, Math.max(0, Math.min(offset, text.length)));
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length - 1, character: before.length - lineStart };
+}
+
+/** Offset of a zero-based line and character, clamped to the text */
+export function positionToOffset(text: string, position: { line: number; character: number }): number {
+  const lines = text.split('\n');
+  const line = Math.max(0, Math.min(position.line, lines.length - 1));
+  let offset = 0;
+  for (let i = 0; i < line; i++) offset += lines[i].length + 1;
+  return offset + Math.max(0, Math.min(position.character, lines[line].length));
+}
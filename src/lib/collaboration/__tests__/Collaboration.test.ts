@@ -0,0 +1,197 @@
+import { CollaborationClient } from '../CollaborationClient';
+import { parseServerEvents, encodeServerEvent, toSessionParticipant, type ClientMessage } from '../CollaborationProtocol';
+import { CollaborationRoom } from '../CollaborationRoom';
+import {
+  applyOperation,
+  composeOperations,
+  diffToOperation,
+  offsetToPosition,
+  parseOperation,
+  positionToOffset,
+  transformIndex,
+  transformOperations,
+  type TextOperation
+} from '../TextOperation';
+
+/** A random edit of `text`, from a seeded generator so failures reproduce */
+function randomOperation(text: string, random: () => number): TextOperation {
+  const start = Math.floor(random() * (text.length + 1));
+  const end = start + Math.floor(random() * (text.length - start + 1));
+  const inserted = random() < 0.7 ? 'xyz'.slice(0, 1 + Math.floor(random() * 3)) : '';
+  return diffToOperation(text, text.slice(0, start) + inserted + text.slice(end));
+}
+
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+}
+
+describe('TextOperation', () => {
+  it('applies, composes and diffs', () => {
+    expect(applyOperation('ia na!', parseOperation([3, 'ora ', 3]))).toBe('ia ora na!');
+    expect(applyOperation('ia na!', parseOperation([2, -4]))).toBe('ia');
+    expect(applyOperation('abc', composeOperations(diffToOperation('abc', 'abXc'), diffToOperation('abXc', 'Xc')))).toBe('Xc');
+    expect(applyOperation('māuruuru', diffToOperation('māuruuru', 'māuruuru roa'))).toBe('māuruuru roa');
+    expect(() => applyOperation('ab', [3])).toThrow('document length');
+    expect(() => parseOperation([1, 0])).toThrow('non-zero integers');
+  });
+
+  it('converges for concurrent edits in either order', () => {
+    const random = seededRandom(42);
+    for (let i = 0; i < 300; i++) {
+      const text = 'Ia ora na, e aha te huru?'.slice(0, Math.floor(random() * 26));
+      const a = randomOperation(text, random);
+      const b = randomOperation(text, random);
+      const [aPrime, bPrime] = transformOperations(a, b);
+
+      expect(applyOperation(applyOperation(text, a), bPrime)).toBe(applyOperation(applyOperation(text, b), aPrime));
+    }
+  });
+
+  it('puts the first operation ahead on inserts at the same place', () => {
+    const [aPrime, bPrime] = transformOperations(diffToOperation('ab', 'aXb'), diffToOperation('ab', 'aYb'));
+
+    expect(applyOperation('aXb', bPrime)).toBe('aXYb');
+    expect(applyOperation('aYb', aPrime)).toBe('aXYb');
+  });
+
+  it('moves carets past edits and converts offsets to lines', () => {
+    expect(transformIndex(4, diffToOperation('abcdef', 'XXabcdef'))).toBe(6);
+    expect(transformIndex(4, diffToOperation('abcdef', 'ab'))).toBe(2);
+    expect(transformIndex(1, diffToOperation('abcdef', 'abcdXef'))).toBe(1);
+
+    const text = '## Titre\n\n- ia ora na';
+    expect(offsetToPosition(text, 12)).toEqual({ line: 2, character: 2 });
+    expect(positionToOffset(text, { line: 2, character: 2 })).toBe(12);
+    expect(positionToOffset(text, { line: 9, character: 99 })).toBe(text.length);
+  });
+});
+
+describe('CollaborationRoom', () => {
+  const member = (clientId: string, overrides = {}) => ({ clientId, userId: `user-${clientId}`, name: clientId, canEdit: true, ...overrides });
+
+  it('is seeded by the first editor and transforms stale operations', () => {
+    const room = new CollaborationRoom('course-1:greetings:0', () => 1000);
+    const first = room.join(member('a', { document: 'Ia ora na' }));
+    const second = room.join(member('b', { document: 'stale copy' }));
+
+    expect(first).toMatchObject({ revision: 1, document: 'Ia ora na' });
+    expect(second).toMatchObject({ revision: 1, document: 'Ia ora na' });
+
+    room.receiveOperation('a', 1, diffToOperation('Ia ora na', 'Ia ora na!'));
+    room.receiveOperation('b', 1, diffToOperation('Ia ora na', 'Ia ora roa na'));
+
+    expect(room.text).toBe('Ia ora roa na!');
+    expect(room.currentRevision).toBe(3);
+  });
+
+  it('keeps carets in place, rejects viewers and unknown revisions', () => {
+    const room = new CollaborationRoom('room');
+    const messages: string[] = [];
+    room.join(member('a', { document: 'abcdef' }));
+    room.join(member('v', { canEdit: false }));
+    room.subscribe(message => messages.push(message.type));
+
+    room.updateSelection('v', 1, { anchor: 3, head: 5 });
+    room.receiveOperation('a', 1, diffToOperation('abcdef', 'XXabcdef'));
+
+    expect(room.listParticipants().find(p => p.clientId === 'v')?.selection).toEqual({ anchor: 5, head: 7 });
+    expect(messages).toEqual(['presence', 'operation']);
+    expect(() => room.receiveOperation('v', 2, [8, '!'])).toThrow(expect.objectContaining({ status: 403 }));
+    expect(() => room.receiveOperation('a', 7, [8, '!'])).toThrow(expect.objectContaining({ status: 400 }));
+    expect(() => room.receiveOperation('nobody', 2, [8, '!'])).toThrow(expect.objectContaining({ status: 404 }));
+
+    room.leave('a');
+    room.leave('v');
+    expect(room.isEmpty).toBe(true);
+  });
+});
+
+describe('CollaborationClient', () => {
+  /**
+   * Two editors on one room. Their messages queue up like requests in flight
+   * and are delivered when `flush` runs, so edits can be made concurrently.
+   */
+  function twoEditors(initial: string) {
+    const room = new CollaborationRoom('course-1:greetings:0');
+    const outbox: ClientMessage[] = [];
+    const inbox = new Map<string, string>();
+
+    const connect = (name: string, document: string) => {
+      const client = new CollaborationClient({ send: async message => { outbox.push(message); } });
+      const snapshot = room.join({ clientId: name, userId: name, name, canEdit: true, document });
+      // Messages cross the wire as server-sent events
+      room.subscribe(message => inbox.set(name, (inbox.get(name) ?? '') + encodeServerEvent(message)));
+      client.receive(snapshot);
+      return client;
+    };
+
+    const alice = connect('alice', initial);
+    const bob = connect('bob', 'ignored');
+    const clients = { alice, bob };
+
+    const flush = () => {
+      while (outbox.length > 0 || [...inbox.values()].some(Boolean)) {
+        const message = outbox.shift();
+        if (message?.type === 'operation') room.receiveOperation(message.clientId, message.revision, message.operation);
+        if (message?.type === 'selection') room.updateSelection(message.clientId, message.revision, message.selection);
+        for (const [name, buffer] of inbox) {
+          inbox.set(name, '');
+          parseServerEvents(buffer).messages.forEach(event => clients[name as keyof typeof clients].receive(event));
+        }
+      }
+    };
+    flush();
+    return { room, alice, bob, flush };
+  }
+
+  it('lets two editors type at once without overwriting each other', () => {
+    const { room, alice, bob, flush } = twoEditors('## Greetings\n\nIa ora na');
+    expect(bob.text).toBe('## Greetings\n\nIa ora na');
+
+    alice.edit('## Greetings\n\nIa ora na!');
+    alice.edit('## Greetings\n\nIa ora na! Maeva');
+    bob.edit('## Tahitian greetings\n\nIa ora na');
+    bob.edit('## Tahitian greetings\n\n_Reo Tahiti_\n\nIa ora na');
+    flush();
+
+    const expected = '## Tahitian greetings\n\n_Reo Tahiti_\n\nIa ora na! Maeva';
+    expect(room.text).toBe(expected);
+    expect(alice.text).toBe(expected);
+    expect(bob.text).toBe(expected);
+  });
+
+  it('converges under random concurrent edits', () => {
+    const random = seededRandom(7);
+    const { room, alice, bob, flush } = twoEditors('E aha te huru?');
+
+    for (let round = 0; round < 50; round++) {
+      for (const client of [alice, bob]) {
+        const edits = Math.floor(random() * 3);
+        for (let i = 0; i < edits; i++) client.edit(applyOperation(client.text, randomOperation(client.text, random)));
+      }
+      if (random() < 0.5) flush();
+    }
+    flush();
+
+    expect(alice.text).toBe(room.text);
+    expect(bob.text).toBe(room.text);
+  });
+
+  it('shares carets as session participants', () => {
+    const { alice, bob, flush } = twoEditors('line one\nline two');
+
+    bob.select({ anchor: 14, head: 14 });
+    flush();
+
+    const [presence] = alice.collaborators;
+    expect(toSessionParticipant(presence, alice.text, 'course-1:greetings:0')).toMatchObject({
+      userId: 'bob',
+      role: 'editor',
+      cursor: { section: 'course-1:greetings:0', line: 1, character: 5 }
+    });
+  });
+});
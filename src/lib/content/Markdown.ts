@@ -0,0 +1,231 @@
+// Minimal markdown parser for lesson `contentMd`. Produces a small block tree
+// that components render as React elements, so no HTML is ever injected.
+// Supported: # headings, paragraphs, - / 1. lists, > quotes, ``` code fences,
+// --- rules, **bold**, *italic*, `code` and [links](url).
+//
+// With `sourceOffsets`, text and code nodes record where their text starts in
+// the markdown, so ranges of the source (annotations) can be drawn on the
+// rendered text and selections in it mapped back.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string; offset?: number }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string; offset?: number }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export interface MarkdownOptions {
+  /** Record source offsets on text nodes; offsets count from the markdown with line endings normalized to \n */
+  sourceOffsets?: boolean;
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,4})\s+(.*)$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^```/;
+const RULE = /^(\*\s*){3,}$|^(-\s*){3,}$|^(_\s*){3,}$/;
+
+const INLINE = /(\*\*(?:[^*]|\*(?!\*))+\*\*|__(?:[^_]|_(?!_))+__|\*[^*\s][^*]*\*|_[^_\s][^_]*_|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/;
+
+/**
+ * Only web, mail and same-site links are kept; anything else (javascript:,
+ * data:) is rendered as plain text
+ */
+export function isSafeHref(href: string): boolean {
+  return /^(https?:|mailto:)/i.test(href) || /^[/#]/.test(href);
+}
+
+/** Parses inline formatting; `offset`, when given, is where `text` starts in the source */
+export function parseInline(text: string, offset?: number): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+  let consumed = 0;
+  const at = (index: number) => (offset === undefined ? {} : { offset: offset + consumed + index });
+  const within = (index: number) => (offset === undefined ? undefined : offset + consumed + index);
+
+  while (rest) {
+    const match = INLINE.exec(rest);
+    if (!match) {
+      nodes.push({ type: 'text', text: rest, ...at(0) });
+      break;
+    }
+    if (match.index > 0) nodes.push({ type: 'text', text: rest.slice(0, match.index), ...at(0) });
+
+    const token = match[0];
+    if (token.startsWith('**') || token.startsWith('__')) {
+      nodes.push({ type: 'strong', children: parseInline(token.slice(2, -2), within(match.index + 2)) });
+    } else if (token.startsWith('`')) {
+      nodes.push({ type: 'code', text: token.slice(1, -1), ...at(match.index + 1) });
+    } else if (token.startsWith('[')) {
+      const [, label, href] = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(token) ?? [];
+      nodes.push(isSafeHref(href)
+        ? { type: 'link', href, children: parseInline(label, within(match.index + 1)) }
+        : { type: 'text', text: label, ...at(match.index + 1) });
+    } else {
+      nodes.push({ type: 'em', children: parseInline(token.slice(1, -1), within(match.index + 1)) });
+    }
+    consumed += match.index + token.length;
+    rest = rest.slice(match.index + token.length);
+  }
+
+  return nodes;
+}
+
+/** A run of joined block text that is contiguous in the source */
+interface SourceSpan {
+  /** Where the run starts in the joined text */
+  from: number;
+  /** Where it starts in the source */
+  to: number;
+  length: number;
+}
+
+/**
+ * Moves offsets from text joined out of several lines to the source. Text
+ * nodes that cross a line break are split so each piece is contiguous there.
+ */
+function mapToSource(nodes: MarkdownInline[], spans: SourceSpan[]): MarkdownInline[] {
+  const toSource = (index: number) => {
+    const span = spans.find(candidate => index < candidate.from + candidate.length) ?? spans[spans.length - 1];
+    return span.to + (index - span.from);
+  };
+
+  return nodes.flatMap((node): MarkdownInline[] => {
+    if (node.type === 'code') return [{ ...node, offset: toSource(node.offset ?? 0) }];
+    if (node.type !== 'text') return [{ ...node, children: mapToSource(node.children, spans) }];
+
+    const start = node.offset ?? 0;
+    const pieces: MarkdownInline[] = [];
+    for (const span of spans) {
+      const from = Math.max(start, span.from);
+      const to = Math.min(start + node.text.length, span.from + span.length);
+      if (from >= to) continue;
+
+      const text = node.text.slice(from - start, to - start);
+      const offset = span.to + (from - span.from);
+      const previous = pieces[pieces.length - 1];
+      if (previous?.type === 'text' && previous.offset! + previous.text.length === offset) {
+        previous.text += text;
+      } else {
+        pieces.push({ type: 'text', text, offset });
+      }
+    }
+    return pieces;
+  });
+}
+
+/** Parses lines joined with spaces, as paragraphs and quotes are, keeping source offsets */
+function parseJoined(parts: { text: string; start: number }[], sourceOffsets: boolean): MarkdownInline[] {
+  const joined = parts.map(part => part.text).join(' ');
+  if (!sourceOffsets) return parseInline(joined);
+
+  const spans: SourceSpan[] = [];
+  let from = 0;
+  parts.forEach((part, index) => {
+    // The joining space stands for the line break after each line
+    const length = part.text.length + (index < parts.length - 1 ? 1 : 0);
+    spans.push({ from, to: part.start, length });
+    from += length;
+  });
+  return mapToSource(parseInline(joined, 0), spans);
+}
+
+export function parseMarkdown(markdown: string, options: MarkdownOptions = {}): MarkdownBlock[] {
+  const sourceOffsets = options.sourceOffsets ?? false;
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const lineStarts: number[] = [];
+  lines.reduce((start, line) => {
+    lineStarts.push(start);
+    return start + line.length + 1;
+  }, 0);
+  let paragraph: { text: string; start: number }[] = [];
+
+  // Where `text`, which ends line `i`, starts in the source
+  const endOfLine = (i: number, text: string) => lineStarts[i] + lines[i].trimEnd().length - text.length;
+  const inline = (text: string, start: number) => parseInline(text, sourceOffsets ? start : undefined);
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseJoined(paragraph, sourceOffsets) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flushParagraph();
+      continue;
+    }
+
+    if (FENCE.test(trimmed)) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE.test(lines[i].trim())) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(trimmed);
+    if (heading) {
+      flushParagraph();
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3 | 4,
+        children: inline(heading[2].trim(), endOfLine(i, heading[2].trimEnd()))
+      });
+      continue;
+    }
+
+    if (RULE.test(trimmed)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || UNORDERED_ITEM.test(line)) {
+      flushParagraph();
+      const pattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+      const items: MarkdownInline[][] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        const item = pattern.exec(lines[i])![1].trim();
+        items.push(inline(item, endOfLine(i, item)));
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    if (QUOTE.test(trimmed)) {
+      flushParagraph();
+      const quoted: { text: string; start: number }[] = [];
+      while (i < lines.length && QUOTE.test(lines[i].trim())) {
+        const text = QUOTE.exec(lines[i].trim())![1];
+        quoted.push({ text, start: endOfLine(i, text) });
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'quote', children: parseJoined(quoted, sourceOffsets) });
+      continue;
+    }
+
+    paragraph.push({ text: trimmed, start: endOfLine(i, trimmed) });
+  }
+
+  flushParagraph();
+  return blocks;
+}
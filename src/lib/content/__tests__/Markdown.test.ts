@@ -0,0 +1,60 @@
+import { parseInline, parseMarkdown, type MarkdownInline } from '../Markdown';
+
+describe('Markdown', () => {
+  it('parses headings, paragraphs, lists and quotes', () => {
+    const blocks = parseMarkdown('# Le tiare\n\nLa fleur\nde Tahiti.\n\n- une\n- deux\n\n1. un\n2. deux\n\n> citation\n\n---');
+
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'paragraph', 'list', 'list', 'quote', 'rule']);
+    expect(blocks[1]).toEqual({ type: 'paragraph', children: [{ type: 'text', text: 'La fleur de Tahiti.' }] });
+    expect(blocks[2]).toMatchObject({ ordered: false, items: [[{ text: 'une' }], [{ text: 'deux' }]] });
+    expect(blocks[3]).toMatchObject({ ordered: true });
+  });
+
+  it('keeps code fences verbatim', () => {
+    expect(parseMarkdown('```\n# pas un titre\n**brut**\n```')).toEqual([
+      { type: 'code', text: '# pas un titre\n**brut**' }
+    ]);
+  });
+
+  it('parses nested inline formatting and drops unsafe links', () => {
+    expect(parseInline('Le **tiare *blanc* parfumé** et `ʻeta`')).toEqual([
+      { type: 'text', text: 'Le ' },
+      {
+        type: 'strong',
+        children: [
+          { type: 'text', text: 'tiare ' },
+          { type: 'em', children: [{ type: 'text', text: 'blanc' }] },
+          { type: 'text', text: ' parfumé' }
+        ]
+      },
+      { type: 'text', text: ' et ' },
+      { type: 'code', text: 'ʻeta' }
+    ]);
+    expect(parseInline('[site](https://example.com) [x](javascript:alert(1))')).toEqual([
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'site' }] },
+      { type: 'text', text: ' ' },
+      { type: 'text', text: 'x' },
+      { type: 'text', text: ')' }
+    ]);
+  });
+
+  it('records where text starts in the source when asked', () => {
+    const source = '## Ia ora na\n\nLe **tiare** se dit\n  *tiare Tahiti*.\n\n- `ʻeta` [site](https://example.com)\n> une\n>  citation';
+    const texts: { text: string; offset?: number }[] = [];
+    const collect = (nodes: MarkdownInline[]) => nodes.forEach(node => {
+      if (node.type === 'text' || node.type === 'code') texts.push(node);
+      else collect(node.children);
+    });
+    parseMarkdown(source, { sourceOffsets: true }).forEach(block => {
+      if (block.type === 'list') block.items.forEach(collect);
+      else if ('children' in block) collect(block.children);
+    });
+
+    // The space joining two lines stands for the line break
+    expect(texts.map(node => node.text)).toEqual(['Ia ora na', 'Le ', 'tiare', ' se dit ', 'tiare Tahiti', '.', 'ʻeta', ' ', 'site', 'une ', ' citation']);
+    for (const node of texts) {
+      expect(source.slice(node.offset, node.offset! + node.text.length).replace(/\n/g, ' ')).toBe(node.text);
+    }
+    expect(parseInline('plain')).toEqual([{ type: 'text', text: 'plain' }]);
+  });
+});
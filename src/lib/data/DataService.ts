@@ -11,9 +11,12 @@ import {
   LessonSearchResult,
   ApiResponse,
   Course,
+  CourseVersion,
   AdminActivityLog,
   AdminDashboardStats
 } from '../../types';
+import type { ReviewRequest, ReviewWorkflow } from '../../types/collaboration';
+import { courseContentId, courseFingerprint, publishGate, reviveReviewRequest, type PublishGate } from '../review/ReviewWorkflow';
 
 /**
  * Abstract base class for data services
@@ -24,7 +27,7 @@ export abstract class DataService {
   abstract getLessonBySlug(slug: string): Promise<Lesson | null>;
   abstract searchLessons(query: string, filters?: SearchFilters): Promise<LessonSearchResult[]>;
   
-  abstract getUserProgress(userId: number, lessonId?: number): Promise<UserProgress[]>;
+  abstract getUserProgress(userId: string, lessonId?: number): Promise<UserProgress[]>;
   abstract updateUserProgress(progress: Omit<UserProgress, 'updatedAt'>): Promise<void>;
   
   abstract getMediaAsset(id: number): Promise<MediaAsset | null>;
@@ -58,6 +61,7 @@ export abstract class DataService {
   abstract searchCourses(query: string): Promise<Course[]>;
   abstract getAdminStats(): Promise<AdminDashboardStats>;
   abstract getActivityLogs(limit?: number): Promise<AdminActivityLog[]>;
+  abstract getCourseVersions(courseId: number): Promise<CourseVersion[]>;
   abstract createCourseVersion(courseId: number, version: number): Promise<void>;
   abstract restoreCourseVersion(courseId: number, version: number): Promise<Course>;
 }
@@ -73,25 +77,25 @@ export class LocalStorageService {
     LAST_SYNC: 'tahitian-tutor-last-sync'
   } as const;
 
-  static getUserProgress(userId: number): UserProgress[] {
+  static getUserProgress(userId: string): UserProgress[] {
     try {
       const data = localStorage.getItem(this.STORAGE_KEYS.USER_PROGRESS);
       if (!data) return [];
       
       const allProgress = JSON.parse(data) as Record<string, UserProgress[]>;
-      return allProgress[userId.toString()] || [];
+      return allProgress[userId] || [];
     } catch (error) {
       console.error('Error reading user progress from localStorage:', error);
       return [];
     }
   }
 
-  static saveUserProgress(userId: number, progress: UserProgress[]): void {
+  static saveUserProgress(userId: string, progress: UserProgress[]): void {
     try {
       const data = localStorage.getItem(this.STORAGE_KEYS.USER_PROGRESS);
       const allProgress = data ? JSON.parse(data) : {};
       
-      allProgress[userId.toString()] = progress;
+      allProgress[userId] = progress;
       localStorage.setItem(this.STORAGE_KEYS.USER_PROGRESS, JSON.stringify(allProgress));
     } catch (error) {
       console.error('Error saving user progress to localStorage:', error);
@@ -250,7 +254,7 @@ export class LocalDataService extends DataService {
       .sort((a, b) => b.score - a.score);
   }
 
-  async getUserProgress(userId: number, lessonId?: number): Promise<UserProgress[]> {
+  async getUserProgress(userId: string, lessonId?: number): Promise<UserProgress[]> {
     const key = `user_progress_${userId}`;
     const stored = localStorage.getItem(key);
     let progress: UserProgress[] = stored ? JSON.parse(stored) : [];
@@ -420,6 +424,10 @@ export class LocalDataService extends DataService {
 
   // Admin method implementations
   async createCourse(courseData: Omit<Course, 'id' | 'createdAt' | 'updatedAt'>): Promise<Course> {
+    // A new course has not been reviewed yet
+    if (courseData.status === 'published') {
+      throw new DataServiceError('Submit the course for review before publishing', 'PUBLISH_NOT_APPROVED');
+    }
     const courses = await this.getCourses();
     const newCourse: Course = {
       ...courseData,
@@ -455,6 +463,14 @@ export class LocalDataService extends DataService {
       ...updates,
       updatedAt: Date.now()
     };
+
+    // Publishing goes through the review workflow whoever asks for it
+    if (updatedCourse.status === 'published' && courses[courseIndex].status !== 'published') {
+      const gate = await this.getPublishGate(updatedCourse);
+      if (!gate.allowed) {
+        throw new DataServiceError(gate.reason ?? 'The course has not been approved for publishing', 'PUBLISH_NOT_APPROVED');
+      }
+    }
     
     courses[courseIndex] = updatedCourse;
     localStorage.setItem('admin_courses', JSON.stringify(courses));
@@ -470,6 +486,15 @@ export class LocalDataService extends DataService {
     return updatedCourse;
   }
 
+  /** Whether the latest review of the course approved it as it is now */
+  async getPublishGate(course: Course): Promise<PublishGate> {
+    if (course.id === undefined) return publishGate(null, courseFingerprint(course));
+    const requests = await this.query<ReviewRequest>('review_requests', { contentId: courseContentId(course.id) });
+    const latest = requests.map(reviveReviewRequest).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0] ?? null;
+    const workflow = latest ? await this.getById<ReviewWorkflow>('review_workflows', latest.workflowId) : null;
+    return publishGate(latest, courseFingerprint(course), workflow ?? undefined);
+  }
+
   async deleteCourse(id: number): Promise<void> {
     const courses = await this.getCourses();
     const courseIndex = courses.findIndex(c => c.id === id);
@@ -514,11 +539,14 @@ export class LocalDataService extends DataService {
 
   async bulkImportCourses(coursesData: Omit<Course, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<Course[]> {
     const existingCourses = await this.getCourses();
+    // Ids continue after the highest existing one so a batch never collides
+    const firstId = Math.max(0, ...existingCourses.map(c => c.id ?? 0)) + 1;
+    const now = Date.now();
     const newCourses: Course[] = coursesData.map((courseData, index) => ({
       ...courseData,
-      id: Date.now() + index,
-      createdAt: Date.now(),
-      updatedAt: Date.now()
+      id: firstId + index,
+      createdAt: now,
+      updatedAt: now
     }));
     
     const allCourses = [...existingCourses, ...newCourses];
@@ -570,13 +598,17 @@ export class LocalDataService extends DataService {
     return logs.slice(0, limit).sort((a, b) => b.timestamp - a.timestamp);
   }
 
+  async getCourseVersions(courseId: number): Promise<CourseVersion[]> {
+    return this.readCourseVersions(courseId).sort((a, b) => b.version - a.version);
+  }
+
   async createCourseVersion(courseId: number, version: number): Promise<void> {
     const course = await this.getCourse(courseId);
     if (!course) {
       throw new DataNotFoundError(`Course with id ${courseId} not found`);
     }
     
-    const versions = this.getCourseVersions(courseId);
+    const versions = this.readCourseVersions(courseId);
     versions.push({
       version,
       courseData: course,
@@ -587,7 +619,7 @@ export class LocalDataService extends DataService {
   }
 
   async restoreCourseVersion(courseId: number, version: number): Promise<Course> {
-    const versions = this.getCourseVersions(courseId);
+    const versions = this.readCourseVersions(courseId);
     const versionData = versions.find(v => v.version === version);
     
     if (!versionData) {
@@ -604,7 +636,7 @@ export class LocalDataService extends DataService {
     return restoredCourse;
   }
 
-  private getCourseVersions(courseId: number): any[] {
+  private readCourseVersions(courseId: number): CourseVersion[] {
     const stored = localStorage.getItem(`course_versions_${courseId}`);
     return stored ? JSON.parse(stored) : [];
   }
@@ -736,7 +768,7 @@ export class DataUtils {
     
     const p = progress as Record<string, unknown>;
     return (
-      typeof p.userId === 'number' &&
+      typeof p.userId === 'string' &&
       typeof p.lessonId === 'number' &&
       typeof p.sectionKind === 'string' &&
       typeof p.completed === 'boolean' &&
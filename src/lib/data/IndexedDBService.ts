@@ -1,6 +1,16 @@
 // IndexedDB service for offline lesson data caching
 
-import type { Lesson, UserProgress, MediaAsset } from '../../types';
+import type {
+  Lesson,
+  UserProgress,
+  MediaAsset,
+  ReviewCard,
+  PhrasebookEntry,
+  PhrasebookFolder,
+  LearningActivity,
+  GamificationSettings,
+  OfflinePack
+} from '../../types';
 
 interface DBSchema {
   lessons: {
@@ -12,17 +22,54 @@ interface DBSchema {
     };
   };
   progress: {
-    key: string;
+    key: [string, number, string];
     value: UserProgress;
     indexes: {
-      userId: number;
-      lessonId: number;
+      userId: string;
+      userLesson: [string, number];
     };
   };
   media: {
     key: number;
     value: MediaAsset;
   };
+  reviews: {
+    key: string;
+    value: ReviewCard;
+    indexes: {
+      userId: string;
+      userDue: [string, number];
+    };
+  };
+  phrasebook: {
+    key: string;
+    value: PhrasebookEntry;
+    indexes: {
+      userId: string;
+    };
+  };
+  phrasebookFolders: {
+    key: string;
+    value: PhrasebookFolder;
+    indexes: {
+      userId: string;
+    };
+  };
+  activity: {
+    key: string;
+    value: LearningActivity;
+    indexes: {
+      userId: string;
+    };
+  };
+  gamification: {
+    key: string;
+    value: GamificationSettings;
+  };
+  offlinePacks: {
+    key: string;
+    value: OfflinePack;
+  };
   metadata: {
     key: string;
     value: {
@@ -36,7 +83,7 @@ export class IndexedDBService {
   private static instance: IndexedDBService;
   private db: IDBDatabase | null = null;
   private readonly dbName = 'TahitianTutorDB';
-  private readonly dbVersion = 1;
+  private readonly dbVersion = 6;
 
   private constructor() {}
 
@@ -67,12 +114,12 @@ export class IndexedDBService {
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
-        this.createObjectStores(db);
+        this.createObjectStores(db, event.oldVersion);
       };
     });
   }
 
-  private createObjectStores(db: IDBDatabase): void {
+  private createObjectStores(db: IDBDatabase, oldVersion: number): void {
     // Lessons store
     if (!db.objectStoreNames.contains('lessons')) {
       const lessonsStore = db.createObjectStore('lessons', { keyPath: 'slug' });
@@ -80,12 +127,15 @@ export class IndexedDBService {
       lessonsStore.createIndex('tags', 'tags', { unique: false, multiEntry: true });
     }
 
-    // Progress store
+    // Progress store, one record per user, lesson and section. Before v4 it was
+    // keyed by a nonexistent `id` field, so nothing could be stored in it.
+    if (oldVersion < 4 && db.objectStoreNames.contains('progress')) {
+      db.deleteObjectStore('progress');
+    }
     if (!db.objectStoreNames.contains('progress')) {
-      const progressStore = db.createObjectStore('progress', { keyPath: 'id' });
+      const progressStore = db.createObjectStore('progress', { keyPath: ['userId', 'lessonId', 'sectionKind'] });
       progressStore.createIndex('userId', 'userId', { unique: false });
-      progressStore.createIndex('lessonId', 'lessonId', { unique: false });
-      progressStore.createIndex('userLesson', ['userId', 'lessonId'], { unique: true });
+      progressStore.createIndex('userLesson', ['userId', 'lessonId'], { unique: false });
     }
 
     // Media store
@@ -93,6 +143,39 @@ export class IndexedDBService {
       db.createObjectStore('media', { keyPath: 'id' });
     }
 
+    // Spaced-repetition review cards, stored next to progress (added in v2)
+    if (!db.objectStoreNames.contains('reviews')) {
+      const reviewsStore = db.createObjectStore('reviews', { keyPath: 'id' });
+      reviewsStore.createIndex('userId', 'userId', { unique: false });
+      reviewsStore.createIndex('userDue', ['userId', 'dueAt'], { unique: false });
+    }
+
+    // Personal phrasebook entries and folders (added in v3)
+    if (!db.objectStoreNames.contains('phrasebook')) {
+      const phrasebookStore = db.createObjectStore('phrasebook', { keyPath: 'id' });
+      phrasebookStore.createIndex('userId', 'userId', { unique: false });
+    }
+
+    if (!db.objectStoreNames.contains('phrasebookFolders')) {
+      const foldersStore = db.createObjectStore('phrasebookFolders', { keyPath: 'id' });
+      foldersStore.createIndex('userId', 'userId', { unique: false });
+    }
+
+    // Learning activity log and per-user goals and achievements (added in v5)
+    if (!db.objectStoreNames.contains('activity')) {
+      const activityStore = db.createObjectStore('activity', { keyPath: 'id' });
+      activityStore.createIndex('userId', 'userId', { unique: false });
+    }
+
+    if (!db.objectStoreNames.contains('gamification')) {
+      db.createObjectStore('gamification', { keyPath: 'userId' });
+    }
+
+    // Manifests of downloaded offline lesson packs (added in v6)
+    if (!db.objectStoreNames.contains('offlinePacks')) {
+      db.createObjectStore('offlinePacks', { keyPath: 'id' });
+    }
+
     // Metadata store
     if (!db.objectStoreNames.contains('metadata')) {
       db.createObjectStore('metadata', { keyPath: 'key' });
@@ -190,19 +273,19 @@ export class IndexedDBService {
     await Promise.all(promises);
   }
 
-  async getUserProgress(userId: number, lessonId?: number): Promise<UserProgress[]> {
+  async getUserProgress(userId: string, lessonId?: number): Promise<UserProgress[]> {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction(['progress'], 'readonly');
       const store = transaction.objectStore('progress');
       
-      if (lessonId) {
+      if (lessonId !== undefined) {
         const index = store.index('userLesson');
-        const request = index.get([userId, lessonId]);
+        const request = index.getAll([userId, lessonId]);
         
         request.onsuccess = () => {
-          resolve(request.result ? [request.result] : []);
+          resolve(request.result || []);
         };
         
         request.onerror = () => {
@@ -259,6 +342,195 @@ export class IndexedDBService {
     });
   }
 
+  // Review card operations
+  async saveReviewCards(cards: ReviewCard[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const transaction = this.db.transaction(['reviews'], 'readwrite');
+    const store = transaction.objectStore('reviews');
+
+    const promises = cards.map(card => {
+      return new Promise<void>((resolve, reject) => {
+        const request = store.put(card);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    });
+
+    await Promise.all(promises);
+  }
+
+  async getReviewCards(userId: string): Promise<ReviewCard[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['reviews'], 'readonly');
+      const store = transaction.objectStore('reviews');
+      const index = store.index('userId');
+      const request = index.getAll(userId);
+
+      request.onsuccess = () => {
+        resolve(request.result || []);
+      };
+
+      request.onerror = () => {
+        reject(request.error);
+      };
+    });
+  }
+
+  async getDueReviewCards(userId: string, dueBefore: number): Promise<ReviewCard[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['reviews'], 'readonly');
+      const store = transaction.objectStore('reviews');
+      const index = store.index('userDue');
+      const request = index.getAll(IDBKeyRange.bound([userId, 0], [userId, dueBefore]));
+
+      request.onsuccess = () => {
+        resolve(request.result || []);
+      };
+
+      request.onerror = () => {
+        reject(request.error);
+      };
+    });
+  }
+
+  // Phrasebook operations
+  async savePhrasebookEntries(entries: PhrasebookEntry[]): Promise<void> {
+    await this.putAll('phrasebook', entries);
+  }
+
+  async getPhrasebookEntries(userId: string): Promise<PhrasebookEntry[]> {
+    return this.getAllByUser<PhrasebookEntry>('phrasebook', userId);
+  }
+
+  async deletePhrasebookEntry(id: string): Promise<void> {
+    await this.deleteByKey('phrasebook', id);
+  }
+
+  async savePhrasebookFolder(folder: PhrasebookFolder): Promise<void> {
+    await this.putAll('phrasebookFolders', [folder]);
+  }
+
+  async getPhrasebookFolders(userId: string): Promise<PhrasebookFolder[]> {
+    return this.getAllByUser<PhrasebookFolder>('phrasebookFolders', userId);
+  }
+
+  async deletePhrasebookFolder(id: string): Promise<void> {
+    await this.deleteByKey('phrasebookFolders', id);
+  }
+
+  // Gamification operations
+  async saveLearningActivities(activities: LearningActivity[]): Promise<void> {
+    await this.putAll('activity', activities);
+  }
+
+  async getLearningActivities(userId: string): Promise<LearningActivity[]> {
+    return this.getAllByUser<LearningActivity>('activity', userId);
+  }
+
+  async saveGamificationSettings(settings: GamificationSettings): Promise<void> {
+    await this.putAll('gamification', [settings]);
+  }
+
+  async getGamificationSettings(userId: string): Promise<GamificationSettings | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['gamification'], 'readonly');
+      const request = transaction.objectStore('gamification').get(userId);
+
+      request.onsuccess = () => {
+        resolve((request.result as GamificationSettings | undefined) ?? null);
+      };
+
+      request.onerror = () => {
+        reject(request.error);
+      };
+    });
+  }
+
+  // Offline pack operations
+  async saveOfflinePack(pack: OfflinePack): Promise<void> {
+    await this.putAll('offlinePacks', [pack]);
+  }
+
+  async getOfflinePacks(): Promise<OfflinePack[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['offlinePacks'], 'readonly');
+      const request = transaction.objectStore('offlinePacks').getAll();
+
+      request.onsuccess = () => {
+        resolve((request.result as OfflinePack[]) || []);
+      };
+
+      request.onerror = () => {
+        reject(request.error);
+      };
+    });
+  }
+
+  async deleteOfflinePack(id: string): Promise<void> {
+    await this.deleteByKey('offlinePacks', id);
+  }
+
+  private async putAll(storeName: string, values: unknown[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const transaction = this.db.transaction([storeName], 'readwrite');
+    const store = transaction.objectStore(storeName);
+
+    const promises = values.map(value => {
+      return new Promise<void>((resolve, reject) => {
+        const request = store.put(value);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    });
+
+    await Promise.all(promises);
+  }
+
+  private async getAllByUser<T>(storeName: string, userId: string): Promise<T[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readonly');
+      const index = transaction.objectStore(storeName).index('userId');
+      const request = index.getAll(userId);
+
+      request.onsuccess = () => {
+        resolve((request.result as T[]) || []);
+      };
+
+      request.onerror = () => {
+        reject(request.error);
+      };
+    });
+  }
+
+  private async deleteByKey(storeName: string, key: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readwrite');
+      const request = transaction.objectStore(storeName).delete(key);
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(request.error);
+      };
+    });
+  }
+
   // Metadata operations
   async setLastSyncTime(timestamp: number): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
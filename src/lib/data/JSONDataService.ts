@@ -3,6 +3,12 @@
 import { DataService, DataServiceError } from './DataService';
 import { IndexedDBService } from './IndexedDBService';
 import { searchService } from './SearchService';
+import {
+  normalizeLesson,
+  formatNormalizationReport,
+  CURRENT_LESSON_SCHEMA_VERSION,
+  type LessonNormalizationResult
+} from './LessonNormalizer';
 import type {
   Lesson,
   LessonSearchResult,
@@ -12,6 +18,7 @@ import type {
   User,
   Tag,
   Course,
+  CourseVersion,
   BulkImportJob,
   CourseStatus,
   LessonLevel,
@@ -25,6 +32,7 @@ export class JSONDataService extends DataService {
   private indexedDB: IndexedDBService;
   private isInitialized = false;
   private baseUrl: string;
+  private normalizationReport: LessonNormalizationResult[] = [];
 
   private constructor(baseUrl: string = '/data') {
     super();
@@ -87,20 +95,41 @@ export class JSONDataService extends DataService {
       }
       
       const lessonIndex = await response.json();
+      const lessonRefs: Array<string | { slug: string }> = Array.isArray(lessonIndex) ? lessonIndex : lessonIndex.lessons;
       const lessons: Lesson[] = [];
+      const results: LessonNormalizationResult[] = [];
       
-      // Load each lesson file
-      for (const lessonRef of lessonIndex.lessons) {
+      // Load each lesson file and normalize it to the canonical schema
+      for (const lessonRef of lessonRefs) {
+        const slug = typeof lessonRef === 'string' ? lessonRef : lessonRef.slug;
+        const source = `lessons/${slug}.json`;
         try {
-          const lessonResponse = await fetch(`${this.baseUrl}/lessons/${lessonRef.slug}.json`);
-          if (lessonResponse.ok) {
-            const lesson = await lessonResponse.json();
-            lessons.push(lesson);
+          const lessonResponse = await fetch(`${this.baseUrl}/${source}`);
+          if (!lessonResponse.ok) {
+            results.push({
+              source,
+              schemaVersion: CURRENT_LESSON_SCHEMA_VERSION,
+              lesson: null,
+              issues: [{ path: '', message: `HTTP ${lessonResponse.status}`, severity: 'error' }]
+            });
+            continue;
+          }
+
+          const result = normalizeLesson(await lessonResponse.json(), source);
+          results.push(result);
+          if (result.lesson) {
+            lessons.push(result.lesson);
           }
         } catch (error) {
-          console.warn(`Failed to load lesson ${lessonRef.slug}:`, error);
+          console.warn(`Failed to load lesson ${slug}:`, error);
         }
       }
+
+      this.normalizationReport = results;
+      const report = formatNormalizationReport(results);
+      if (report) {
+        console.warn(`Lesson schema issues:\n${report}`);
+      }
       
       return lessons;
     } catch (error) {
@@ -109,6 +138,13 @@ export class JSONDataService extends DataService {
     }
   }
 
+  /**
+   * Per-file schema report from the last time lessons were loaded from JSON
+   */
+  getNormalizationReport(): LessonNormalizationResult[] {
+    return this.normalizationReport;
+  }
+
   // Lesson methods
   async getLessons(filters?: SearchFilters): Promise<Lesson[]> {
     this.ensureInitialized();
@@ -194,7 +230,7 @@ export class JSONDataService extends DataService {
   }
 
   // User progress methods
-  async getUserProgress(userId: number, lessonId?: number): Promise<UserProgress[]> {
+  async getUserProgress(userId: string, lessonId?: number): Promise<UserProgress[]> {
     this.ensureInitialized();
     
     try {
@@ -205,7 +241,7 @@ export class JSONDataService extends DataService {
     }
   }
 
-  async getLessonProgress(userId: number, lessonId: number): Promise<UserProgress | null> {
+  async getLessonProgress(userId: string, lessonId: number): Promise<UserProgress | null> {
     this.ensureInitialized();
     
     try {
@@ -232,7 +268,7 @@ export class JSONDataService extends DataService {
   }
 
   async updateLessonProgress(
-    userId: number, 
+    userId: string, 
     lessonId: number, 
     progressData: Partial<UserProgress>
   ): Promise<void> {
@@ -244,6 +280,7 @@ export class JSONDataService extends DataService {
       const updatedProgress: UserProgress = {
         userId,
         lessonId,
+        sectionKind: 'Practice',
         completed: false,
         score: 0,
         attempts: 0,
@@ -282,82 +319,21 @@ export class JSONDataService extends DataService {
     }
   }
 
+  /**
+   * Downloads the lesson and its media bytes as an offline pack
+   */
   async preloadLessonMedia(lessonSlug: string): Promise<void> {
     this.ensureInitialized();
     
     try {
-      const lesson = await this.getLesson(lessonSlug);
-      if (!lesson) {
-        throw new Error(`Lesson ${lessonSlug} not found`);
-      }
-      
-      // Preload hero media
-      if (lesson.heroMediaId) {
-        await this.preloadMediaAsset(lesson.heroMediaId);
-      }
-      
-      // Preload section media
-      for (const section of lesson.sections || []) {
-        if (section.kind === 'Vocabulary' && section.vocab) {
-          for (const item of section.vocab) {
-            if (item.audioMediaId) {
-                const mediaAsset = await this.getMediaAsset(item.audioMediaId);
-                if (mediaAsset) {
-                  await this.cacheMediaAsset(mediaAsset);
-                }
-              }
-          }
-        }
-        if (section.kind === 'Practice' && section.exercises) {
-          for (const exercise of section.exercises) {
-            // Preload any media referenced in exercise data
-            if (exercise.data && typeof exercise.data === 'object') {
-              const data = exercise.data as any;
-              if (data.audioUrl && typeof data.audioUrl === 'number') {
-                  const mediaAsset = await this.getMediaAsset(data.audioUrl);
-                  if (mediaAsset) {
-                    await this.cacheMediaAsset(mediaAsset);
-                  }
-                }
-            }
-          }
-        }
-      }
+      const { offlinePackService } = await import('../offline/OfflinePackService');
+      await offlinePackService.downloadLessonPack(lessonSlug);
     } catch (error) {
       console.error(`Failed to preload media for lesson ${lessonSlug}:`, error);
       // Don't throw - preloading is optional
     }
   }
 
-  private async preloadMediaAsset(mediaId: number): Promise<void> {
-    try {
-      // Check if already cached
-      const cached = await this.getMediaAsset(mediaId);
-      if (cached) {
-        return;
-      }
-      
-      // Fetch and cache
-      const response = await fetch(`${this.baseUrl}/media/${mediaId}`);
-      if (response.ok) {
-        const blob = await response.blob();
-        const asset: MediaAsset = {
-          id: mediaId,
-          kind: 'audio',
-          filePath: `media/${mediaId}`,
-          alt: '',
-          durationMs: 0,
-          rights: '',
-          sha256: ''
-        };
-        
-        await this.cacheMediaAsset(asset);
-      }
-    } catch (error) {
-      console.warn(`Failed to preload media asset ${mediaId}:`, error);
-    }
-  }
-
   // User preferences removed - UserPreferences type not available
 
   // Generic CRUD operations
@@ -549,12 +525,8 @@ export class JSONDataService extends DataService {
   async updateUserProgress(progress: Omit<UserProgress, 'updatedAt'>): Promise<void> {
     await this.ensureInitialized();
     try {
-      const key = `progress_${progress.userId}_${String(progress.lessonId)}`;
-      const fullProgress: UserProgress = {
-        ...progress,
-        updatedAt: Date.now()
-      };
-      localStorage.setItem(key, JSON.stringify(fullProgress));
+      // Stored next to getUserProgress's records so progress survives a reload
+      await this.indexedDB.cacheUserProgress([{ ...progress, updatedAt: Date.now() }]);
     } catch (error) {
       throw new DataServiceError('UPDATE_ERROR', 'Failed to update user progress', error);
     }
@@ -751,11 +723,14 @@ export class JSONDataService extends DataService {
     await this.ensureInitialized();
     try {
       const existingCourses = await this.getCourses();
+      // Ids continue after the highest existing one so a batch never collides
+      const firstId = Math.max(0, ...existingCourses.map(c => c.id ?? 0)) + 1;
+      const now = Date.now();
       const newCourses: Course[] = courses.map((course, index) => ({
         ...course,
-        id: Date.now() + index,
-        createdAt: Date.now(),
-        updatedAt: Date.now()
+        id: firstId + index,
+        createdAt: now,
+        updatedAt: now
       }));
       
       const allCourses = [...existingCourses, ...newCourses];
@@ -814,6 +789,11 @@ export class JSONDataService extends DataService {
     }
   }
 
+  async getCourseVersions(courseId: number): Promise<CourseVersion[]> {
+    await this.ensureInitialized();
+    return this.readCourseVersions(courseId).sort((a, b) => b.version - a.version);
+  }
+
   async createCourseVersion(courseId: number, version: number): Promise<void> {
     await this.ensureInitialized();
     try {
@@ -823,7 +803,7 @@ export class JSONDataService extends DataService {
       }
       
       // Store version
-      const versions = this.getCourseVersions(courseId);
+      const versions = this.readCourseVersions(courseId);
       versions.push({
         version,
         courseData: course,
@@ -838,7 +818,7 @@ export class JSONDataService extends DataService {
   async restoreCourseVersion(courseId: number, version: number): Promise<Course> {
     await this.ensureInitialized();
     try {
-      const versions = this.getCourseVersions(courseId);
+      const versions = this.readCourseVersions(courseId);
       const versionData = versions.find(v => v.version === version);
       
       if (!versionData) {
@@ -858,7 +838,7 @@ export class JSONDataService extends DataService {
     }
   }
 
-  private getCourseVersions(courseId: number): any[] {
+  private readCourseVersions(courseId: number): CourseVersion[] {
     const stored = localStorage.getItem(`course_versions_${courseId}`);
     return stored ? JSON.parse(stored) : [];
   }
@@ -868,7 +848,7 @@ export class JSONDataService extends DataService {
    */
   private validateUserProgress(progress: UserProgress): boolean {
     return (
-      typeof progress.userId === 'number' &&
+      typeof progress.userId === 'string' &&
       typeof progress.lessonId === 'number' &&
       typeof progress.sectionKind === 'string' &&
       typeof progress.completed === 'boolean' &&
@@ -0,0 +1,439 @@
+// Versioned normalization of lesson JSON files into the canonical Lesson type
+//
+// Schema versions:
+//   1 - canonical shape: `title.tah`, `sections[].kind`, `contentMd`, `vocab[]` with fr/tah/en/ipaTah
+//   2 - content-block shape: `title.ty`, lowercase `level`, `summary` triplet,
+//       `sections[].type` and `content.{objectives,words,exercises,text,summary,keyPoints}`
+// Files may mix both shapes per section, so sections are detected individually.
+
+import { DataUtils } from './DataService';
+import type {
+  Lesson,
+  LessonLevel,
+  LessonSection,
+  SectionKind,
+  TitleTriplet,
+  VocabItem,
+  Exercise,
+  ExerciseType
+} from '../../types';
+
+export const CURRENT_LESSON_SCHEMA_VERSION = 1;
+
+export type LessonSchemaVersion = 1 | 2;
+
+export interface LessonSchemaIssue {
+  path: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface LessonNormalizationResult {
+  source: string;
+  schemaVersion: LessonSchemaVersion;
+  lesson: Lesson | null;
+  issues: LessonSchemaIssue[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+const LEVELS: LessonLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
+const SECTION_KINDS: SectionKind[] = ['Objectives', 'Vocabulary', 'Practice', 'Culture', 'Assessment', 'Review'];
+const EXERCISE_TYPES: ExerciseType[] = ['MCQ', 'Match', 'Ordering', 'Dictation', 'Pronunciation', 'FillBlank', 'Roleplay'];
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+class IssueCollector {
+  readonly issues: LessonSchemaIssue[] = [];
+
+  error(path: string, message: string): void {
+    this.issues.push({ path, message, severity: 'error' });
+  }
+
+  warn(path: string, message: string): void {
+    this.issues.push({ path, message, severity: 'warning' });
+  }
+
+  get hasErrors(): boolean {
+    return this.issues.some(issue => issue.severity === 'error');
+  }
+}
+
+/**
+ * Picks a display string from a plain string or a fr/tah|ty/en triplet
+ */
+function pickText(value: unknown, order: Array<'fr' | 'tah' | 'ty' | 'en'> = ['fr', 'en', 'tah', 'ty']): string | undefined {
+  if (typeof value === 'string') return value;
+  if (!isRecord(value)) return undefined;
+  for (const key of order) {
+    if (typeof value[key] === 'string' && value[key]) return value[key] as string;
+  }
+  return undefined;
+}
+
+function normalizeTitle(value: unknown, path: string, collector: IssueCollector): TitleTriplet | null {
+  if (typeof value === 'string') return { fr: value };
+  if (!isRecord(value)) {
+    collector.error(path, 'title must be a string or a fr/tah/en triplet');
+    return null;
+  }
+
+  const fr = pickText(value, ['fr', 'en']);
+  if (!fr) {
+    collector.error(path, 'title is missing a French (fr) value');
+    return null;
+  }
+
+  const tah = typeof value.tah === 'string' ? value.tah : typeof value.ty === 'string' ? value.ty : undefined;
+  if (value.ty !== undefined && value.tah === undefined) {
+    collector.warn(`${path}.ty`, "'ty' is deprecated, use 'tah' for Tahitian text");
+  }
+
+  return {
+    fr,
+    tah,
+    en: typeof value.en === 'string' ? value.en : undefined
+  };
+}
+
+function normalizeLevel(value: unknown, collector: IssueCollector): LessonLevel | null {
+  if (typeof value !== 'string') {
+    collector.error('level', 'level is required');
+    return null;
+  }
+
+  const level = LEVELS.find(candidate => candidate.toLowerCase() === value.toLowerCase());
+  if (!level) {
+    collector.error('level', `unknown level '${value}', expected one of ${LEVELS.join(', ')}`);
+    return null;
+  }
+  if (level !== value) {
+    collector.warn('level', `level '${value}' should be written '${level}'`);
+  }
+  return level;
+}
+
+function normalizeTimestamp(value: unknown, path: string, collector: IssueCollector): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed)) return parsed;
+  }
+  collector.warn(path, 'timestamp must be epoch milliseconds or an ISO date string');
+  return undefined;
+}
+
+function normalizeNumericId(value: unknown, path: string, collector: IssueCollector): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number' && Number.isInteger(value)) return value;
+  collector.warn(path, `media reference '${String(value)}' is not a numeric MediaAsset id and was ignored`);
+  return undefined;
+}
+
+function normalizeVersion(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const major = parseInt(value, 10);
+    return Number.isNaN(major) ? undefined : major;
+  }
+  return undefined;
+}
+
+function normalizeSectionKind(section: RawRecord, path: string, collector: IssueCollector): SectionKind | null {
+  const raw = section.kind ?? section.type;
+  if (typeof raw !== 'string') {
+    collector.error(path, 'section is missing its kind');
+    return null;
+  }
+
+  const kind = SECTION_KINDS.find(candidate => candidate.toLowerCase() === raw.toLowerCase());
+  if (!kind) {
+    collector.warn(path, `unknown section kind '${raw}', section skipped`);
+    return null;
+  }
+  return kind;
+}
+
+// Canonical (v1) section parts
+
+function normalizeVocabItem(raw: unknown, path: string, collector: IssueCollector): VocabItem | null {
+  if (!isRecord(raw)) {
+    collector.error(path, 'vocabulary item must be an object');
+    return null;
+  }
+
+  const isLegacy = raw.tahitian !== undefined || raw.french !== undefined;
+  const fr = (isLegacy ? raw.french : raw.fr) as unknown;
+  if (typeof fr !== 'string' || !fr) {
+    collector.error(path, 'vocabulary item is missing its French (fr) text');
+    return null;
+  }
+
+  if (isLegacy) {
+    return {
+      fr,
+      tah: typeof raw.tahitian === 'string' ? raw.tahitian : undefined,
+      en: typeof raw.english === 'string' ? raw.english : undefined,
+      note: typeof raw.pronunciation === 'string' ? raw.pronunciation : undefined
+    };
+  }
+
+  return {
+    ...(raw as unknown as VocabItem),
+    fr,
+    audioMediaId: normalizeNumericId(raw.audioMediaId, `${path}.audioMediaId`, collector)
+  };
+}
+
+function normalizeCanonicalExercise(raw: unknown, path: string, collector: IssueCollector): Exercise | null {
+  if (!isRecord(raw)) {
+    collector.error(path, 'exercise must be an object');
+    return null;
+  }
+  if (!EXERCISE_TYPES.includes(raw.type as ExerciseType)) {
+    collector.warn(path, `unsupported exercise type '${String(raw.type)}', exercise skipped`);
+    return null;
+  }
+  if (typeof raw.prompt !== 'string' || !isRecord(raw.data)) {
+    collector.error(path, 'exercise requires a prompt and a data object');
+    return null;
+  }
+  return raw as unknown as Exercise;
+}
+
+// Content-block (v2) section parts
+
+function pairsToMatch(pairs: unknown[]): Exercise['data'] {
+  return {
+    pairs: pairs.filter(isRecord).map(pair => {
+      const [left, right] = Object.values(pair).map(value => String(value));
+      return { left, right };
+    })
+  };
+}
+
+function dialogueToRoleplay(lines: unknown[], scenario: string): { data: Exercise['data']; solution?: Exercise['solution'] } {
+  const correctOptions: Record<number, number> = {};
+  const steps = lines.filter(isRecord).map((line, index) => {
+    const options = Array.isArray(line.options) ? line.options.map(String) : undefined;
+    if (options && typeof line.correct === 'string' && options.includes(line.correct)) {
+      correctOptions[index] = options.indexOf(line.correct);
+    }
+    const isLearner = Boolean(options) || /^'?oe$/i.test(String(line.speaker ?? ''));
+    return {
+      speaker: isLearner ? 'you' : 'other',
+      text: String(line.text ?? ''),
+      options
+    };
+  });
+
+  return {
+    data: { scenario, steps },
+    solution: Object.keys(correctOptions).length > 0 ? { correctOptions } : undefined
+  };
+}
+
+function convertContentExercise(raw: unknown, path: string, collector: IssueCollector): Exercise[] {
+  if (!isRecord(raw)) {
+    collector.error(path, 'exercise must be an object');
+    return [];
+  }
+
+  const sourceType = String(raw.type ?? '');
+  const prompt = pickText(raw.instruction) ?? pickText(raw.question) ?? '';
+
+  if (Array.isArray(raw.pairs)) {
+    return [{ type: 'Match', prompt, data: pairsToMatch(raw.pairs) }];
+  }
+
+  const lines = Array.isArray(raw.dialogue) ? raw.dialogue : Array.isArray(raw.conversation) ? raw.conversation : null;
+  if (lines) {
+    const { data, solution } = dialogueToRoleplay(lines, prompt);
+    return [{ type: 'Roleplay', prompt, data, solution }];
+  }
+
+  if (sourceType === 'sequence' && Array.isArray(raw.items) && raw.items.every(item => typeof item === 'string')) {
+    // Items are authored in the correct order; present them alphabetically
+    const correct = raw.items as string[];
+    const items = [...correct].sort((a, b) => a.localeCompare(b));
+    return [{
+      type: 'Ordering',
+      prompt,
+      data: { items, correctOrder: correct.map(item => items.indexOf(item)) }
+    }];
+  }
+
+  if (Array.isArray(raw.items) && raw.items.every(item => isRecord(item) && Array.isArray(item.options))) {
+    return (raw.items as RawRecord[]).map(item => {
+      const options = (item.options as unknown[]).map(String);
+      return {
+        type: 'MCQ' as const,
+        prompt,
+        data: { question: prompt, options, correctIndex: options.indexOf(String(item.correct)) }
+      };
+    });
+  }
+
+  collector.warn(path, `exercise type '${sourceType}' has no interactive equivalent, exercise skipped`);
+  return [];
+}
+
+function contentToMarkdown(content: RawRecord): string | undefined {
+  const blocks: string[] = [];
+
+  if (Array.isArray(content.objectives)) {
+    blocks.push(content.objectives.map(objective => `- ${pickText(objective) ?? ''}`).join('\n'));
+  }
+  const text = pickText(content.text);
+  if (text) blocks.push(text);
+  const summary = pickText(content.summary);
+  if (summary) blocks.push(summary);
+  if (Array.isArray(content.keyPoints)) {
+    blocks.push(content.keyPoints.map(point => `- ${pickText(point) ?? ''}`).join('\n'));
+  }
+
+  return blocks.length > 0 ? blocks.join('\n\n') : undefined;
+}
+
+function normalizeSection(raw: unknown, index: number, collector: IssueCollector): LessonSection | null {
+  const path = `sections[${index}]`;
+  if (!isRecord(raw)) {
+    collector.error(path, 'section must be an object');
+    return null;
+  }
+
+  const kind = normalizeSectionKind(raw, path, collector);
+  if (!kind) return null;
+
+  const section: LessonSection = {
+    kind,
+    title: pickText(raw.title) ?? kind,
+    sortOrder: typeof raw.sortOrder === 'number' ? raw.sortOrder : index + 1
+  };
+
+  if (isRecord(raw.content)) {
+    const content = raw.content;
+    section.contentMd = contentToMarkdown(content);
+
+    if (Array.isArray(content.words)) {
+      const words = content.words as unknown[];
+      section.vocab = words
+        .map((word, i) => normalizeVocabItem(word, `${path}.content.words[${i}]`, collector))
+        .filter((item): item is VocabItem => item !== null)
+        .map((item, i) => ({ ...item, sortOrder: i + 1 }));
+
+      const unlinkedAudio = words.filter(word => isRecord(word) && (word.audioId ?? word.audioUrl) !== undefined).length;
+      if (unlinkedAudio > 0) {
+        collector.warn(`${path}.content.words`, `${unlinkedAudio} word(s) reference audio by name instead of audioMediaId; audio not linked`);
+      }
+    }
+    if (Array.isArray(content.exercises)) {
+      const exercises = content.exercises as unknown[];
+      section.exercises = exercises
+        .flatMap((exercise, i) => convertContentExercise(exercise, `${path}.content.exercises[${i}]`, collector))
+        .map((exercise, i) => ({ ...exercise, sortOrder: i + 1 }));
+    }
+    return section;
+  }
+
+  if (typeof raw.contentMd === 'string') section.contentMd = raw.contentMd;
+  if (Array.isArray(raw.vocab)) {
+    const vocab = raw.vocab as unknown[];
+    section.vocab = vocab
+      .map((item, i) => normalizeVocabItem(item, `${path}.vocab[${i}]`, collector))
+      .filter((item): item is VocabItem => item !== null);
+  }
+  if (Array.isArray(raw.exercises)) {
+    const exercises = raw.exercises as unknown[];
+    section.exercises = exercises
+      .map((exercise, i) => normalizeCanonicalExercise(exercise, `${path}.exercises[${i}]`, collector))
+      .filter((exercise): exercise is Exercise => exercise !== null);
+  }
+  return section;
+}
+
+/**
+ * Detects which schema version a raw lesson file was authored against
+ */
+export function detectLessonSchemaVersion(raw: unknown): LessonSchemaVersion {
+  if (!isRecord(raw)) return CURRENT_LESSON_SCHEMA_VERSION;
+
+  const sections = Array.isArray(raw.sections) ? raw.sections.filter(isRecord) : [];
+  const usesContentBlocks = sections.some(section => section.type !== undefined || isRecord(section.content));
+  const usesLegacyTopLevel = isRecord(raw.summary) || (isRecord(raw.title) && raw.title.ty !== undefined);
+
+  return usesContentBlocks || usesLegacyTopLevel ? 2 : 1;
+}
+
+/**
+ * Turns any known lesson shape into the canonical Lesson type.
+ * `lesson` is null when the file has schema errors; warnings never block loading.
+ */
+export function normalizeLesson(raw: unknown, source: string): LessonNormalizationResult {
+  const collector = new IssueCollector();
+  const schemaVersion = detectLessonSchemaVersion(raw);
+
+  if (!isRecord(raw)) {
+    collector.error('', 'lesson file must contain a JSON object');
+    return { source, schemaVersion, lesson: null, issues: collector.issues };
+  }
+
+  const slug = typeof raw.slug === 'string' ? raw.slug : undefined;
+  if (!slug) collector.error('slug', 'slug is required');
+
+  const title = normalizeTitle(raw.title, 'title', collector);
+  const level = normalizeLevel(raw.level, collector);
+
+  const summary = pickText(raw.summary, ['en', 'fr', 'tah', 'ty']);
+  if (summary === undefined) collector.error('summary', 'summary is required');
+
+  if (!Array.isArray(raw.sections)) {
+    collector.error('sections', 'sections must be an array');
+  }
+  const sections = (Array.isArray(raw.sections) ? raw.sections : [])
+    .map((section, index) => normalizeSection(section, index, collector))
+    .filter((section): section is LessonSection => section !== null);
+
+  if (collector.hasErrors || !slug || !title || !level) {
+    return { source, schemaVersion, lesson: null, issues: collector.issues };
+  }
+
+  if (raw.id !== undefined && typeof raw.id !== 'number') {
+    collector.warn('id', 'id should be numeric; a stable id was derived from the slug');
+  }
+
+  const lesson: Lesson = {
+    id: typeof raw.id === 'number' ? raw.id : DataUtils.generateLessonId(slug),
+    slug,
+    level,
+    title,
+    summary: summary ?? '',
+    durationMin: typeof raw.durationMin === 'number' ? raw.durationMin : undefined,
+    sections,
+    tags: Array.isArray(raw.tags) ? raw.tags.map(String) : [],
+    version: normalizeVersion(raw.version),
+    heroMediaId: normalizeNumericId(raw.heroMediaId, 'heroMediaId', collector),
+    isPublished: typeof raw.isPublished === 'boolean' ? raw.isPublished : true,
+    createdAt: normalizeTimestamp(raw.createdAt, 'createdAt', collector),
+    updatedAt: normalizeTimestamp(raw.updatedAt, 'updatedAt', collector)
+  };
+
+  return { source, schemaVersion, lesson, issues: collector.issues };
+}
+
+/**
+ * Formats a per-file report of schema violations for logging
+ */
+export function formatNormalizationReport(results: LessonNormalizationResult[]): string {
+  return results
+    .filter(result => result.issues.length > 0)
+    .map(result => {
+      const lines = result.issues.map(issue =>
+        `  [${issue.severity}] ${issue.path || '(root)'}: ${issue.message}`
+      );
+      return `${result.source} (schema v${result.schemaVersion})\n${lines.join('\n')}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,156 @@
+// Filtering, pagination and vocabulary lookup over an in-memory lesson list
+
+import { foldSearchText } from '../text/SearchText';
+import type { Lesson, SearchFilters, VocabItem } from '../../types';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  pagination: Pagination;
+}
+
+export interface VocabularyEntry {
+  vocab: VocabItem;
+  lessonSlug: string;
+  lessonTitle: Lesson['title'];
+}
+
+export interface VocabularyFilters {
+  query?: string;
+  lessonSlug?: string;
+  level?: Lesson['level'];
+  /** Skip lessons explicitly marked as unpublished */
+  publishedOnly?: boolean;
+}
+
+function lessonText(lesson: Lesson): string {
+  return foldSearchText([
+    lesson.title.fr,
+    lesson.title.tah,
+    lesson.title.en,
+    lesson.summary,
+    ...(lesson.tags ?? [])
+  ].filter(Boolean).join(' '));
+}
+
+/**
+ * Applies every set field of `filters`. `tags` matches lessons carrying any
+ * of the tags; `category` is a single required tag.
+ */
+export function filterLessons(lessons: Lesson[], filters: SearchFilters = {}): Lesson[] {
+  const query = foldSearchText(filters.query ?? '');
+
+  return lessons.filter(lesson => {
+    const tags = lesson.tags ?? [];
+    if (filters.level && lesson.level !== filters.level) return false;
+    if (filters.tags && filters.tags.length > 0 && !filters.tags.some(tag => tags.includes(tag))) return false;
+    if (filters.category && !tags.includes(filters.category)) return false;
+    if (filters.isPublished !== undefined && (lesson.isPublished ?? true) !== filters.isPublished) return false;
+    if (filters.minDuration !== undefined && (lesson.durationMin ?? 0) < filters.minDuration) return false;
+    if (filters.maxDuration !== undefined && (lesson.durationMin ?? 0) > filters.maxDuration) return false;
+    if (query && !lessonText(lesson).includes(query)) return false;
+    return true;
+  });
+}
+
+/**
+ * Returns one page of `items`. Out-of-range pages are empty rather than an error
+ * so clients can page until `items` runs out.
+ */
+export function paginate<T>(items: T[], page = 1, pageSize = DEFAULT_PAGE_SIZE): Page<T> {
+  const size = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(pageSize)));
+  const current = Math.max(1, Math.floor(page));
+  const start = (current - 1) * size;
+
+  return {
+    items: items.slice(start, start + size),
+    pagination: {
+      page: current,
+      pageSize: size,
+      total: items.length,
+      totalPages: Math.ceil(items.length / size)
+    }
+  };
+}
+
+/**
+ * Finds vocabulary across lessons by French, Tahitian or English text,
+ * ignoring accents, macrons and glottal stops. Exact matches come first.
+ */
+export function lookupVocabulary(lessons: Lesson[], filters: VocabularyFilters = {}): VocabularyEntry[] {
+  const query = foldSearchText(filters.query ?? '');
+  const exact: VocabularyEntry[] = [];
+  const partial: VocabularyEntry[] = [];
+
+  for (const lesson of lessons) {
+    if (filters.lessonSlug && lesson.slug !== filters.lessonSlug) continue;
+    if (filters.level && lesson.level !== filters.level) continue;
+    if (filters.publishedOnly && lesson.isPublished === false) continue;
+
+    for (const section of lesson.sections) {
+      for (const vocab of section.vocab ?? []) {
+        const entry = { vocab, lessonSlug: lesson.slug, lessonTitle: lesson.title };
+        if (!query) {
+          partial.push(entry);
+          continue;
+        }
+
+        const forms = [vocab.fr, vocab.tah, vocab.en]
+          .filter((form): form is string => Boolean(form))
+          .map(foldSearchText);
+        if (forms.includes(query)) {
+          exact.push(entry);
+        } else if (forms.some(form => form.includes(query))) {
+          partial.push(entry);
+        }
+      }
+    }
+  }
+
+  return [...exact, ...partial];
+}
+
+const LESSON_LEVELS: Lesson['level'][] = ['Beginner', 'Intermediate', 'Advanced'];
+
+function numberParam(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Reads `SearchFilters` from a query string: `level`, `tags` (comma separated),
+ * `q`, `category`, `minDuration`, `maxDuration` and `published`. Unknown or
+ * malformed values are ignored.
+ */
+export function searchFiltersFromParams(params: URLSearchParams): SearchFilters {
+  const filters: SearchFilters = {};
+  const level = params.get('level')?.toLowerCase();
+  const tags = params.get('tags');
+  const query = params.get('q');
+  const category = params.get('category');
+  const minDuration = numberParam(params, 'minDuration');
+  const maxDuration = numberParam(params, 'maxDuration');
+  const published = params.get('published');
+
+  const matchedLevel = LESSON_LEVELS.find(l => l.toLowerCase() === level);
+  if (matchedLevel) filters.level = matchedLevel;
+  if (tags) filters.tags = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+  if (query) filters.query = query;
+  if (category) filters.category = category;
+  if (minDuration !== undefined) filters.minDuration = minDuration;
+  if (maxDuration !== undefined) filters.maxDuration = maxDuration;
+  if (published === 'true' || published === 'false') filters.isPublished = published === 'true';
+
+  return filters;
+}
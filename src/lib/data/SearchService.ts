@@ -1,7 +1,15 @@
 // Search service using MiniSearch for client-side lesson search
 
 import MiniSearch from 'minisearch';
-import type { Lesson, LessonSearchResult, SearchFilters } from '../../types';
+import { foldSearchText } from '../text/SearchText';
+import type {
+  Lesson,
+  LessonSearchResult,
+  SearchFilters,
+  SectionKind,
+  TitleTriplet,
+  VocabItem
+} from '../../types';
 
 export interface SearchOptions {
   fuzzy?: number;
@@ -9,16 +17,154 @@ export interface SearchOptions {
   boost?: Record<string, number>;
 }
 
+export type ContentSearchKind = 'vocab' | 'section';
+
+/**
+ * One vocabulary item or one section's markdown, indexed for "which lesson had
+ * that word?" searches
+ */
+export interface ContentSearchDocument {
+  id: string;
+  kind: ContentSearchKind;
+  lessonSlug: string;
+  lessonTitle: TitleTriplet;
+  sectionKind: SectionKind;
+  sectionTitle: string;
+  fr?: string;
+  tah?: string;
+  en?: string;
+  content?: string;
+  vocab?: VocabItem;
+}
+
+export interface ContentSearchResult {
+  id: string;
+  kind: ContentSearchKind;
+  lessonSlug: string;
+  lessonTitle: TitleTriplet;
+  sectionKind: SectionKind;
+  sectionTitle: string;
+  vocab?: VocabItem;
+  snippet: string;
+  score: number;
+  /** Deep link to the section of the lesson that matched */
+  href: string;
+}
+
+// Apostrophes and ʻokina stay inside words so "fa'a" is one term; folding removes them
+const TERM_SEPARATOR = /[\s.,;:!?()[\]{}"«»“”\-–—/\\*_#>|~+=]+/;
+
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Splits on whitespace and punctuation other than glottal-stop marks
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return text.split(TERM_SEPARATOR).filter(Boolean);
+}
+
+/**
+ * Folded form used for both indexing and querying, so "ura" finds "ʻūrā"
+ */
+export function processSearchTerm(term: string): string | null {
+  const folded = foldSearchText(term);
+  return folded || null;
+}
+
+export function lessonSectionHref(lessonSlug: string, sectionKind: SectionKind): string {
+  return `/lessons/${lessonSlug}#${sectionKind.toLowerCase()}`;
+}
+
+/**
+ * Flattens lessons into one document per vocabulary item and per section with
+ * markdown content
+ */
+export function buildContentDocuments(lessons: Lesson[]): ContentSearchDocument[] {
+  const documents: ContentSearchDocument[] = [];
+
+  for (const lesson of lessons) {
+    lesson.sections.forEach((section, sectionIndex) => {
+      const base = {
+        lessonSlug: lesson.slug,
+        lessonTitle: lesson.title,
+        sectionKind: section.kind,
+        sectionTitle: section.title
+      };
+
+      if (section.contentMd?.trim()) {
+        documents.push({ ...base, id: `${lesson.slug}:${sectionIndex}:section`, kind: 'section', content: section.contentMd });
+      }
+
+      (section.vocab ?? []).forEach((vocab, vocabIndex) => {
+        documents.push({
+          ...base,
+          id: `${lesson.slug}:${sectionIndex}:vocab:${vocabIndex}`,
+          kind: 'vocab',
+          fr: vocab.fr,
+          tah: vocab.tah,
+          en: vocab.en,
+          vocab
+        });
+      });
+    });
+  }
+
+  return documents;
+}
+
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#>*_`|~]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * The first line of `text` containing a query term, trimmed for display
+ */
+export function contentSnippet(text: string, query: string): string {
+  const terms = tokenizeSearchText(query).map(foldSearchText).filter(Boolean);
+  const lines = text.split(/\n+/).map(stripMarkdown).filter(Boolean);
+  const line = lines.find(l => terms.some(term => foldSearchText(l).includes(term))) ?? lines[0] ?? '';
+
+  return line.length > SNIPPET_LENGTH ? `${line.slice(0, SNIPPET_LENGTH - 1).trimEnd()}…` : line;
+}
+
 export class SearchService {
   private static instance: SearchService;
   private miniSearch: MiniSearch<Lesson>;
+  private contentSearch: MiniSearch<ContentSearchDocument>;
   private isInitialized = false;
 
   private constructor() {
+    this.contentSearch = new MiniSearch<ContentSearchDocument>({
+      fields: ['tah', 'fr', 'en', 'content', 'sectionTitle'],
+      storeFields: [
+        'kind',
+        'lessonSlug',
+        'lessonTitle',
+        'sectionKind',
+        'sectionTitle',
+        'content',
+        'vocab'
+      ],
+      tokenize: tokenizeSearchText,
+      processTerm: processSearchTerm,
+      searchOptions: {
+        boost: { tah: 3, fr: 3, en: 2, sectionTitle: 1.5, content: 1 },
+        fuzzy: 0.2,
+        prefix: true
+      }
+    });
+
     this.miniSearch = new MiniSearch({
+      idField: 'slug',
+      tokenize: tokenizeSearchText,
+      processTerm: processSearchTerm,
       fields: [
         'title.fr',
-        'title.ty', 
+        'title.tah',
         'title.en',
         'summary',
         'tags',
@@ -38,7 +184,7 @@ export class SearchService {
       searchOptions: {
         boost: {
           'title.fr': 3,
-          'title.ty': 3,
+          'title.tah': 3,
           'title.en': 3,
           'summary': 2,
           'tags': 2,
@@ -74,11 +220,14 @@ export class SearchService {
       // Clear existing index
       this.miniSearch.removeAll();
       
+      this.contentSearch.removeAll();
+      
       // Add lessons to search index
       this.miniSearch.addAll(lessons);
+      this.contentSearch.addAll(buildContentDocuments(lessons));
       
       this.isInitialized = true;
-      console.log(`Search service initialized with ${lessons.length} lessons`);
+      console.log(`Search service initialized with ${lessons.length} lessons and ${this.contentSearch.documentCount} vocabulary and section entries`);
     } catch (error) {
       console.error('Failed to initialize search service:', error);
       throw error;
@@ -162,37 +311,77 @@ export class SearchService {
 
   private getMatchedFields(result: any, query: string): string[] {
     const matchedFields: string[] = [];
-    const queryLower = query.toLowerCase();
+    const queryFolded = foldSearchText(query);
+    const matches = (value?: string) => Boolean(value && foldSearchText(value).includes(queryFolded));
 
     // Check title fields
-    if (result.title?.fr?.toLowerCase().includes(queryLower)) {
+    if (matches(result.title?.fr)) {
       matchedFields.push('title.fr');
     }
-    if (result.title?.ty?.toLowerCase().includes(queryLower)) {
-      matchedFields.push('title.ty');
+    if (matches(result.title?.tah)) {
+      matchedFields.push('title.tah');
     }
-    if (result.title?.en?.toLowerCase().includes(queryLower)) {
+    if (matches(result.title?.en)) {
       matchedFields.push('title.en');
     }
 
     // Check summary
-    if (result.summary?.toLowerCase().includes(queryLower)) {
+    if (matches(result.summary)) {
       matchedFields.push('summary');
     }
 
     // Check tags
-    if (result.tags?.some((tag: string) => tag.toLowerCase().includes(queryLower))) {
+    if (result.tags?.some((tag: string) => matches(tag))) {
       matchedFields.push('tags');
     }
 
     // Check level
-    if (result.level?.toLowerCase().includes(queryLower)) {
+    if (matches(result.level)) {
       matchedFields.push('level');
     }
 
     return matchedFields;
   }
 
+  /**
+   * Searches vocabulary and section content across all lessons. Each result
+   * links to the section it came from.
+   */
+  async searchContent(query: string, limit: number = 20): Promise<ContentSearchResult[]> {
+    if (!this.isInitialized) {
+      throw new Error('Search service not initialized');
+    }
+
+    if (!query.trim()) {
+      return [];
+    }
+
+    try {
+      return this.contentSearch.search(query).slice(0, limit).map(result => {
+        const vocab = result.vocab as VocabItem | undefined;
+        const sectionKind = result.sectionKind as SectionKind;
+
+        return {
+          id: String(result.id),
+          kind: result.kind as ContentSearchKind,
+          lessonSlug: result.lessonSlug as string,
+          lessonTitle: result.lessonTitle as TitleTriplet,
+          sectionKind,
+          sectionTitle: result.sectionTitle as string,
+          vocab,
+          snippet: vocab
+            ? [vocab.tah, vocab.fr, vocab.en].filter(Boolean).join(' — ')
+            : contentSnippet(result.content as string, query),
+          score: result.score,
+          href: lessonSectionHref(result.lessonSlug as string, sectionKind)
+        };
+      });
+    } catch (error) {
+      console.error('Content search failed:', error);
+      return [];
+    }
+  }
+
   async suggest(query: string, limit: number = 5): Promise<string[]> {
     if (!this.isInitialized || !query.trim()) {
       return [];
@@ -210,7 +399,7 @@ export class SearchService {
       results.slice(0, limit * 2).forEach(result => {
         // Add title suggestions
         if (result.title?.fr) suggestions.add(result.title.fr);
-        if (result.title?.ty) suggestions.add(result.title.ty);
+        if (result.title?.tah) suggestions.add(result.title.tah);
         if (result.title?.en) suggestions.add(result.title.en);
         
         // Add tag suggestions
@@ -219,7 +408,7 @@ export class SearchService {
 
       return Array.from(suggestions)
         .filter(suggestion => 
-          suggestion.toLowerCase().includes(query.toLowerCase())
+          foldSearchText(suggestion).includes(foldSearchText(query))
         )
         .slice(0, limit);
     } catch (error) {
@@ -235,6 +424,7 @@ export class SearchService {
 
     try {
       this.miniSearch.add(lesson);
+      this.contentSearch.addAll(buildContentDocuments([lesson]));
     } catch (error) {
       console.error('Failed to add lesson to search index:', error);
       throw error;
@@ -248,6 +438,8 @@ export class SearchService {
 
     try {
       this.miniSearch.replace(lesson);
+      this.removeLessonContent(lesson.slug);
+      this.contentSearch.addAll(buildContentDocuments([lesson]));
     } catch (error) {
       console.error('Failed to update lesson in search index:', error);
       throw error;
@@ -260,16 +452,26 @@ export class SearchService {
     }
 
     try {
-      this.miniSearch.remove({ slug: lessonSlug } as Lesson);
+      this.miniSearch.discard(lessonSlug);
+      this.removeLessonContent(lessonSlug);
     } catch (error) {
       console.error('Failed to remove lesson from search index:', error);
       throw error;
     }
   }
 
-  getStats(): { totalDocuments: number; isInitialized: boolean } {
+  private removeLessonContent(lessonSlug: string): void {
+    const prefix = `${lessonSlug}:`;
+    const ids = this.contentSearch
+      .search(MiniSearch.wildcard, { filter: result => String(result.id).startsWith(prefix) })
+      .map(result => result.id);
+    this.contentSearch.discardAll(ids);
+  }
+
+  getStats(): { totalDocuments: number; totalContentDocuments: number; isInitialized: boolean } {
     return {
       totalDocuments: this.miniSearch.documentCount,
+      totalContentDocuments: this.contentSearch.documentCount,
       isInitialized: this.isInitialized
     };
   }
@@ -280,6 +482,7 @@ export class SearchService {
 
   clear(): void {
     this.miniSearch.removeAll();
+    this.contentSearch.removeAll();
     this.isInitialized = false;
   }
 }
@@ -0,0 +1,272 @@
+// Read-only DataService for route handlers: lessons come from the JSON files in
+// public/data, progress from the same sync store that /api/sync writes to
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DataService, DataServiceError } from './DataService';
+import { normalizeLesson, formatNormalizationReport } from './LessonNormalizer';
+import { filterLessons, lookupVocabulary, VocabularyEntry, VocabularyFilters } from './LessonQuery';
+import { applySyncActions } from '../sync/SyncProtocol';
+import { getSyncStore } from '../sync/ServerSyncStore';
+import type { SyncStore } from '../sync/SyncStore';
+import type {
+  Lesson,
+  LessonSearchResult,
+  SearchFilters,
+  UserProgress,
+  MediaAsset,
+  User,
+  Tag,
+  Course,
+  CourseVersion,
+  AdminDashboardStats,
+  AdminActivityLog
+} from '../../types';
+
+export type ProgressUpdate = Pick<UserProgress, 'lessonId' | 'sectionKind' | 'completed' | 'score'>;
+
+// Concurrent writes from two devices are retried against the fresh state
+const MAX_WRITE_ATTEMPTS = 3;
+
+export class ServerDataService extends DataService {
+  private static instance: ServerDataService;
+  private lessons: Lesson[] | null = null;
+  private lastCacheUpdate = 0;
+  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+  private constructor(
+    private progressStore: SyncStore,
+    private dataDir: string = path.join(process.cwd(), 'public', 'data')
+  ) {
+    super();
+  }
+
+  static getInstance(): ServerDataService {
+    if (!ServerDataService.instance) {
+      ServerDataService.instance = new ServerDataService(getSyncStore());
+    }
+    return ServerDataService.instance;
+  }
+
+  private async readJSON<T>(file: string): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.dataDir, file), 'utf8')) as T;
+    } catch (error) {
+      throw new DataServiceError(`Failed to read ${file}`, 'READ_ERROR', error);
+    }
+  }
+
+  private async loadLessons(): Promise<Lesson[]> {
+    if (this.lessons && Date.now() - this.lastCacheUpdate < this.CACHE_TTL) {
+      return this.lessons;
+    }
+
+    const index = await this.readJSON<Array<string | { slug: string }> | { lessons: Array<string | { slug: string }> }>('lessons/index.json');
+    const refs = Array.isArray(index) ? index : index.lessons;
+    const results = await Promise.all(refs.map(async ref => {
+      const slug = typeof ref === 'string' ? ref : ref.slug;
+      const source = `lessons/${slug}.json`;
+      return normalizeLesson(await this.readJSON<unknown>(source), source);
+    }));
+
+    const report = formatNormalizationReport(results);
+    if (report) {
+      console.warn(`Lesson schema issues:\n${report}`);
+    }
+
+    this.lessons = results.flatMap(result => result.lesson ? [result.lesson] : []);
+    this.lastCacheUpdate = Date.now();
+    return this.lessons;
+  }
+
+  // Lesson methods
+  async getLessons(filters?: SearchFilters): Promise<Lesson[]> {
+    return filterLessons(await this.loadLessons(), filters);
+  }
+
+  async getLessonBySlug(slug: string): Promise<Lesson | null> {
+    const lessons = await this.loadLessons();
+    return lessons.find(lesson => lesson.slug === slug) || null;
+  }
+
+  async searchLessons(query: string, filters?: SearchFilters): Promise<LessonSearchResult[]> {
+    const lessons = await this.getLessons({ ...filters, query });
+    return lessons.map(lesson => ({ lesson, score: 1, highlights: [] }));
+  }
+
+  async getVocabulary(filters?: VocabularyFilters): Promise<VocabularyEntry[]> {
+    return lookupVocabulary(await this.loadLessons(), filters);
+  }
+
+  // Progress methods
+  async getUserProgress(userId: string, lessonId?: number): Promise<UserProgress[]> {
+    const record = await this.progressStore.load(userId);
+    return lessonId === undefined
+      ? record.state.progress
+      : record.state.progress.filter(p => p.lessonId === lessonId);
+  }
+
+  /**
+   * Records a progress update with the same merge rules as offline sync: the best
+   * score is kept, attempts add up and completion is never undone. Re-sending the
+   * same `actionId` does not count the attempt twice.
+   */
+  async upsertUserProgress(
+    userId: string,
+    update: ProgressUpdate,
+    actionId: string,
+    attemptsDelta = 1
+  ): Promise<UserProgress> {
+    const now = Date.now();
+    const progress: UserProgress = {
+      ...update,
+      userId,
+      attempts: attemptsDelta,
+      updatedAt: now
+    };
+    const action = { id: actionId, type: 'progress_update', data: { progress, attemptsDelta }, timestamp: now };
+
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const record = await this.progressStore.load(userId);
+      const result = applySyncActions(record.state, record.processedActionIds, [action], now);
+      if (result.rejected.length > 0) {
+        throw new DataServiceError(result.rejected[0].error, 'VALIDATION_ERROR', result.rejected);
+      }
+
+      const saved = result.applied.length === 0 || await this.progressStore.save({
+        ...record,
+        state: result.state,
+        processedActionIds: result.processedActionIds
+      });
+
+      if (saved) {
+        const merged = result.state.progress.find(
+          p => p.lessonId === update.lessonId && p.sectionKind === update.sectionKind
+        );
+        return merged ?? progress;
+      }
+    }
+
+    throw new DataServiceError('Progress changed concurrently, please retry', 'CONFLICT');
+  }
+
+  async updateUserProgress(progress: Omit<UserProgress, 'updatedAt'>): Promise<void> {
+    await this.upsertUserProgress(progress.userId, progress, `server-${Date.now()}-${Math.random()}`);
+  }
+
+  // Reference data
+  async getMediaAsset(id: number): Promise<MediaAsset | null> {
+    const assets = await this.readJSON<MediaAsset[]>('media-assets.json');
+    return assets.find(asset => asset.id === id) || null;
+  }
+
+  async getMediaAssets(ids: number[]): Promise<MediaAsset[]> {
+    const assets = await this.readJSON<MediaAsset[]>('media-assets.json');
+    return assets.filter(asset => ids.includes(asset.id));
+  }
+
+  async getTags(): Promise<Tag[]> {
+    return this.readJSON<Tag[]>('tags.json');
+  }
+
+  async getAppSettings(): Promise<Record<string, string>> {
+    const settings = await this.readJSON<Record<string, unknown>>('app-settings.json');
+    return Object.fromEntries(
+      Object.entries(settings).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])
+    );
+  }
+
+  async clearCache(): Promise<void> {
+    this.lessons = null;
+    this.lastCacheUpdate = 0;
+  }
+
+  async syncData(): Promise<void> {
+    await this.clearCache();
+  }
+
+  // Content is authored elsewhere; the server only serves it
+  private notSupported(operation: string): never {
+    throw new DataServiceError(`${operation} is not supported by the server data service`, 'NOT_SUPPORTED');
+  }
+
+  async getUser(): Promise<User | null> {
+    return this.notSupported('getUser');
+  }
+
+  async createUser(): Promise<User> {
+    return this.notSupported('createUser');
+  }
+
+  async updateAppSetting(): Promise<void> {
+    return this.notSupported('updateAppSetting');
+  }
+
+  async create<T>(): Promise<T> {
+    return this.notSupported('create');
+  }
+
+  async getById<T>(): Promise<T | null> {
+    return this.notSupported('getById');
+  }
+
+  async query<T>(): Promise<T[]> {
+    return this.notSupported('query');
+  }
+
+  async update<T>(): Promise<T> {
+    return this.notSupported('update');
+  }
+
+  async delete(): Promise<void> {
+    return this.notSupported('delete');
+  }
+
+  async createCourse(): Promise<Course> {
+    return this.notSupported('createCourse');
+  }
+
+  async updateCourse(): Promise<Course> {
+    return this.notSupported('updateCourse');
+  }
+
+  async deleteCourse(): Promise<void> {
+    return this.notSupported('deleteCourse');
+  }
+
+  async getCourses(): Promise<Course[]> {
+    return this.notSupported('getCourses');
+  }
+
+  async getCourse(): Promise<Course | null> {
+    return this.notSupported('getCourse');
+  }
+
+  async bulkImportCourses(): Promise<Course[]> {
+    return this.notSupported('bulkImportCourses');
+  }
+
+  async searchCourses(): Promise<Course[]> {
+    return this.notSupported('searchCourses');
+  }
+
+  async getAdminStats(): Promise<AdminDashboardStats> {
+    return this.notSupported('getAdminStats');
+  }
+
+  async getActivityLogs(): Promise<AdminActivityLog[]> {
+    return this.notSupported('getActivityLogs');
+  }
+
+  async getCourseVersions(): Promise<CourseVersion[]> {
+    return this.notSupported('getCourseVersions');
+  }
+
+  async createCourseVersion(): Promise<void> {
+    return this.notSupported('createCourseVersion');
+  }
+
+  async restoreCourseVersion(): Promise<Course> {
+    return this.notSupported('restoreCourseVersion');
+  }
+}
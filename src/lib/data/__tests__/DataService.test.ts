@@ -0,0 +1,74 @@
+import { LocalDataService } from '../DataService';
+import { courseContentId, courseFingerprint } from '../../review/ReviewWorkflow';
+import type { Course } from '../../../types';
+import type { ReviewRequest } from '../../../types/collaboration';
+
+const draft = (): Omit<Course, 'id' | 'createdAt' | 'updatedAt'> => ({
+  title: { fr: 'Salutations', tah: 'Te aroharaa', en: 'Greetings' },
+  description: 'Premiers mots',
+  level: 'Beginner',
+  category: 'basics',
+  tags: [],
+  estimatedDuration: 30,
+  learningObjectives: [],
+  status: 'draft',
+  authorId: 1,
+  version: 1,
+  lessons: [],
+  mediaAssets: []
+});
+
+function storeReview(course: Course, status: ReviewRequest['status']) {
+  const request: ReviewRequest = {
+    id: 'review-1',
+    contentId: courseContentId(course.id!),
+    versionId: courseFingerprint(course),
+    workflowId: 'workflow-1',
+    currentStepId: 'step-1',
+    requestedBy: '1',
+    assignedTo: [],
+    status,
+    priority: 'medium',
+    createdAt: new Date('2026-03-01T10:00:00.000Z'),
+    updatedAt: new Date('2026-03-01T10:00:00.000Z'),
+    feedback: [],
+    history: []
+  };
+  localStorage.setItem('review_requests_cache', JSON.stringify([request]));
+}
+
+describe('LocalDataService publishing', () => {
+  let service: LocalDataService;
+
+  beforeEach(() => {
+    // jest.setup.js stubs localStorage; back it with a map for these tests
+    const stored = new Map<string, string>();
+    jest.mocked(localStorage.getItem).mockImplementation(key => stored.get(key) ?? null);
+    jest.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      stored.set(key, value);
+    });
+    service = new LocalDataService();
+  });
+
+  it('refuses to publish a course its review has not approved', async () => {
+    const course = await service.createCourse(draft());
+    await expect(service.updateCourse(course.id!, { status: 'published' })).rejects.toThrow('Submit the course for review before publishing');
+
+    storeReview(course, 'in_review');
+    await expect(service.updateCourse(course.id!, { status: 'published' })).rejects.toMatchObject({ code: 'PUBLISH_NOT_APPROVED' });
+    expect((await service.getCourse(course.id!))?.status).toBe('draft');
+  });
+
+  it('publishes the approved version only', async () => {
+    const course = await service.createCourse(draft());
+    storeReview(course, 'approved');
+
+    await expect(service.updateCourse(course.id!, { status: 'published', description: 'Edited after approval' }))
+      .rejects.toThrow('The course changed after it was approved');
+    await expect(service.updateCourse(course.id!, { status: 'published' })).resolves.toMatchObject({ status: 'published' });
+  });
+
+  it('refuses to create a course already published', async () => {
+    await expect(service.createCourse({ ...draft(), status: 'published' })).rejects.toMatchObject({ code: 'PUBLISH_NOT_APPROVED' });
+  });
+});
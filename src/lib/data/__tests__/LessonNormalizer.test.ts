@@ -0,0 +1,82 @@
+import fs from 'fs';
+import path from 'path';
+import { normalizeLesson, detectLessonSchemaVersion, formatNormalizationReport } from '../LessonNormalizer';
+
+const LESSONS_DIR = path.join(process.cwd(), 'public/data/lessons');
+
+const readLesson = (slug: string) =>
+  JSON.parse(fs.readFileSync(path.join(LESSONS_DIR, `${slug}.json`), 'utf8'));
+
+describe('LessonNormalizer', () => {
+  it('passes canonical lessons through unchanged', () => {
+    const raw = readLesson('greetings-basics');
+    const result = normalizeLesson(raw, 'greetings-basics.json');
+
+    expect(result.schemaVersion).toBe(1);
+    expect(result.issues.filter(issue => issue.severity === 'error')).toEqual([]);
+    expect(result.lesson?.title.tah).toBe('Te faarava rahi');
+    expect(result.lesson?.sections.find(s => s.kind === 'Vocabulary')?.vocab?.[0]).toMatchObject({
+      fr: 'Bonjour',
+      tah: 'Ia ora na',
+      audioMediaId: 101
+    });
+  });
+
+  it('converts content-block lessons into the canonical shape', () => {
+    const raw = readLesson('animals-nature');
+    const result = normalizeLesson(raw, 'animals-nature.json');
+    const lesson = result.lesson!;
+
+    expect(result.schemaVersion).toBe(2);
+    expect(lesson.level).toBe('Beginner');
+    expect(lesson.title).toEqual({ fr: 'Animaux et Nature', tah: 'Te Mau Manu ma te Taiao', en: 'Animals and Nature' });
+    expect(lesson.summary).toBe('Discover the animals and nature of Tahiti');
+    expect(typeof lesson.id).toBe('number');
+    expect(lesson.createdAt).toBe(Date.parse('2024-01-15T10:00:00Z'));
+
+    const vocabulary = lesson.sections.find(s => s.kind === 'Vocabulary');
+    expect(vocabulary?.vocab?.[2]).toMatchObject({ fr: 'cochon', tah: 'puā', en: 'pig' });
+
+    const practice = lesson.sections.find(s => s.kind === 'Practice');
+    expect(practice?.exercises?.map(e => e.type)).toEqual(['Match']);
+  });
+
+  it('reports unsupported content as warnings, not errors', () => {
+    const result = normalizeLesson(readLesson('animals-nature'), 'animals-nature.json');
+    const paths = result.issues.map(issue => issue.path);
+
+    expect(paths).toContain('level');
+    expect(paths).toContain('heroMediaId');
+    expect(result.issues.every(issue => issue.severity === 'warning')).toBe(true);
+  });
+
+  it('turns dialogues with options into roleplay exercises with an answer key', () => {
+    const raw = readLesson('work-professions');
+    const practice = normalizeLesson(raw, 'work-professions.json').lesson!
+      .sections.find(s => s.kind === 'Practice');
+    const roleplay = practice?.exercises?.find(e => e.type === 'Roleplay');
+
+    expect(roleplay?.solution).toEqual({ correctOptions: { 1: 1 } });
+  });
+
+  it('rejects lessons with schema errors', () => {
+    const result = normalizeLesson({ slug: 'broken', level: 'Expert', sections: {} }, 'broken.json');
+
+    expect(result.lesson).toBeNull();
+    expect(result.issues.map(issue => issue.path)).toEqual(expect.arrayContaining(['title', 'level', 'summary', 'sections']));
+    expect(formatNormalizationReport([result])).toContain('broken.json (schema v1)');
+  });
+
+  it('normalizes every lesson shipped in public/data/lessons without errors', () => {
+    const files = fs.readdirSync(LESSONS_DIR).filter(file => file.endsWith('.json') && file !== 'index.json');
+
+    for (const file of files) {
+      const raw = JSON.parse(fs.readFileSync(path.join(LESSONS_DIR, file), 'utf8'));
+      const result = normalizeLesson(raw, file);
+
+      expect({ file, errors: result.issues.filter(issue => issue.severity === 'error') }).toEqual({ file, errors: [] });
+      expect(result.lesson?.sections.length).toBeGreaterThan(0);
+      expect([1, 2]).toContain(detectLessonSchemaVersion(raw));
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  filterLessons,
+  lookupVocabulary,
+  paginate,
+  searchFiltersFromParams
+} from '../LessonQuery';
+import type { Lesson } from '../../../types';
+
+const lesson = (slug: string, overrides: Partial<Lesson> = {}): Lesson => ({
+  slug,
+  level: 'Beginner',
+  title: { fr: slug, tah: slug, en: slug },
+  summary: '',
+  durationMin: 10,
+  tags: [],
+  sections: [],
+  ...overrides
+});
+
+const greetings = lesson('greetings', {
+  title: { fr: 'Salutations', tah: 'Te aroha', en: 'Greetings' },
+  tags: ['greetings', 'basics'],
+  sections: [{
+    kind: 'Vocabulary',
+    title: 'Mots',
+    vocab: [
+      { fr: 'Merci', tah: 'Māuruuru', en: 'Thank you' },
+      { fr: 'Merci beaucoup', tah: 'Māuruuru roa', en: 'Thank you very much' }
+    ]
+  }]
+});
+const numbers = lesson('numbers', { level: 'Intermediate', durationMin: 25, tags: ['numbers'] });
+const draft = lesson('draft', { isPublished: false });
+
+describe('LessonQuery', () => {
+  it('filters lessons by every SearchFilters field', () => {
+    const lessons = [greetings, numbers, draft];
+
+    expect(filterLessons(lessons, { level: 'Intermediate' })).toEqual([numbers]);
+    expect(filterLessons(lessons, { tags: ['numbers', 'basics'] })).toEqual([greetings, numbers]);
+    expect(filterLessons(lessons, { category: 'basics' })).toEqual([greetings]);
+    expect(filterLessons(lessons, { minDuration: 20 })).toEqual([numbers]);
+    expect(filterLessons(lessons, { isPublished: true })).toEqual([greetings, numbers]);
+    expect(filterLessons(lessons, { query: 'SALUT' })).toEqual([greetings]);
+  });
+
+  it('paginates and clamps the page size', () => {
+    const items = Array.from({ length: 25 }, (_, i) => i);
+
+    expect(paginate(items, 2, 10)).toEqual({
+      items: [10, 11, 12, 13, 14, 15, 16, 17, 18, 19],
+      pagination: { page: 2, pageSize: 10, total: 25, totalPages: 3 }
+    });
+    expect(paginate(items, 4, 10).items).toEqual([]);
+    expect(paginate(items, 1, 1000).pagination.pageSize).toBe(100);
+  });
+
+  it('reads filters from query parameters and ignores malformed values', () => {
+    const filters = searchFiltersFromParams(new URLSearchParams(
+      'level=beginner&tags=food, basics&q=ia ora&minDuration=abc&maxDuration=15&published=yes'
+    ));
+
+    expect(filters).toEqual({ level: 'Beginner', tags: ['food', 'basics'], query: 'ia ora', maxDuration: 15 });
+  });
+
+  it('looks up vocabulary without macrons and ranks exact matches first', () => {
+    const results = lookupVocabulary([greetings, numbers], { query: 'mauruuru' });
+
+    expect(results.map(r => r.vocab.fr)).toEqual(['Merci', 'Merci beaucoup']);
+    expect(results[0].lessonSlug).toBe('greetings');
+    expect(lookupVocabulary([greetings], { query: 'roa' }).map(r => r.vocab.fr)).toEqual(['Merci beaucoup']);
+    expect(lookupVocabulary([greetings], { lessonSlug: 'numbers' })).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { contentSnippet, lessonSectionHref, searchService } from '../SearchService';
+import type { Lesson } from '../../../types';
+
+const lessons: Lesson[] = [
+  {
+    slug: 'colors-nature',
+    level: 'Beginner',
+    title: { fr: 'Couleurs et nature', tah: 'Te ū ʻe te nātura', en: 'Colors and nature' },
+    summary: 'Les couleurs',
+    tags: ['colors'],
+    sections: [
+      {
+        kind: 'Vocabulary',
+        title: 'Vocabulaire',
+        vocab: [
+          { fr: 'rouge', tah: 'ʻūrā', en: 'red' },
+          { fr: 'fleur', tah: 'puā', en: 'flower' }
+        ]
+      },
+      {
+        kind: 'Culture',
+        title: 'Le tiare',
+        contentMd: '# Le tiare\n\nLe **tiare** est la fleur emblématique de Tahiti.\n\nOn le porte à l’oreille.'
+      }
+    ]
+  },
+  {
+    slug: 'greetings-basics',
+    level: 'Beginner',
+    title: { fr: 'Salutations', tah: 'Te aroha', en: 'Greetings' },
+    summary: 'Dire bonjour',
+    tags: ['greetings'],
+    sections: [
+      { kind: 'Vocabulary', title: 'Mots', vocab: [{ fr: 'merci', tah: 'māuruuru', en: 'thank you' }] }
+    ]
+  }
+];
+
+describe('SearchService', () => {
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await searchService.initialize(lessons);
+  });
+
+  it('finds Tahitian vocabulary without macrons or glottal stops', async () => {
+    const [red] = await searchService.searchContent('ura');
+    expect(red.vocab?.fr).toBe('rouge');
+    expect(red.href).toBe('/lessons/colors-nature#vocabulary');
+
+    const [flower] = await searchService.searchContent('pua');
+    expect(flower.vocab?.tah).toBe('puā');
+  });
+
+  it('searches section markdown and returns the matching line', async () => {
+    const results = await searchService.searchContent('emblematique');
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ kind: 'section', sectionKind: 'Culture', lessonSlug: 'colors-nature' });
+    expect(results[0].snippet).toBe('Le tiare est la fleur emblématique de Tahiti.');
+  });
+
+  it('indexes lesson titles by their Tahitian form', async () => {
+    const results = await searchService.search('aroha');
+    expect(results.map(r => r.lesson.slug)).toEqual(['greetings-basics']);
+    expect(results[0].highlights).toContain('title.tah');
+  });
+
+  it('drops a removed lesson from both indexes', async () => {
+    await searchService.removeLesson('greetings-basics');
+
+    expect(await searchService.searchContent('mauruuru')).toEqual([]);
+    expect(await searchService.search('aroha')).toEqual([]);
+
+    await searchService.addLesson(lessons[1]);
+    expect(await searchService.searchContent('mauruuru')).toHaveLength(1);
+  });
+
+  it('builds links and snippets', () => {
+    expect(lessonSectionHref('food-dining', 'Practice')).toBe('/lessons/food-dining#practice');
+    expect(contentSnippet('First line\nSecond [link](http://x) line', 'link')).toBe('Second link line');
+  });
+});
@@ -0,0 +1,124 @@
+// A minimal SQL connection over an embedded SQLite file or a Postgres server,
+// chosen by the DATABASE_URL scheme. Statements are written once with `?`
+// placeholders and run on either.
+
+export type SqlDialect = 'sqlite' | 'postgres';
+
+export type SqlRow = Record<string, unknown>;
+
+export interface SqlClient {
+  readonly dialect: SqlDialect;
+  /** Runs one statement with `?` placeholders and returns the rows it produced */
+  query<T extends SqlRow = SqlRow>(sql: string, params?: unknown[]): Promise<T[]>;
+  /** Runs a script of several statements without parameters, e.g. a migration */
+  exec(script: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export class SqlConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SqlConfigError';
+  }
+}
+
+/** `file:./data/app.db` and `sqlite:` URLs open SQLite; `postgres://` and `postgresql://` connect to Postgres */
+export function sqlDialect(url: string): SqlDialect {
+  if (/^(file|sqlite):/.test(url)) return 'sqlite';
+  if (/^postgres(ql)?:\/\//.test(url)) return 'postgres';
+  throw new SqlConfigError('DATABASE_URL must start with file:, sqlite:, postgres:// or postgresql://');
+}
+
+/** The database file a SQLite URL points at; `:memory:` for a throwaway database */
+export function sqliteFilename(url: string): string {
+  return url.replace(/^(file|sqlite):(\/\/)?/, '') || ':memory:';
+}
+
+/** `?` placeholders numbered for Postgres: `$1`, `$2`, … */
+export function numberPlaceholders(sql: string): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
+
+// SQLite bindings take neither booleans nor undefined
+function sqliteParam(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value;
+}
+
+interface SqliteStatement {
+  reader: boolean;
+  all(...params: unknown[]): SqlRow[];
+  run(...params: unknown[]): unknown;
+}
+
+interface SqliteDatabaseHandle {
+  prepare(sql: string): SqliteStatement;
+  exec(script: string): void;
+  pragma(pragma: string): unknown;
+  close(): void;
+}
+
+interface PostgresPool {
+  query(sql: string, params?: unknown[]): Promise<{ rows: SqlRow[] }>;
+  end(): Promise<void>;
+}
+
+async function openSqlite(filename: string): Promise<SqlClient> {
+  let Database: new (filename: string) => SqliteDatabaseHandle;
+  try {
+    Database = (await import('better-sqlite3')).default;
+  } catch {
+    throw new SqlConfigError('Install better-sqlite3 to use a SQLite database');
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  return {
+    dialect: 'sqlite',
+    async query<T extends SqlRow>(sql: string, params: unknown[] = []): Promise<T[]> {
+      const statement = db.prepare(sql);
+      const values = params.map(sqliteParam);
+      if (statement.reader) return statement.all(...values) as T[];
+      statement.run(...values);
+      return [];
+    },
+    async exec(script: string): Promise<void> {
+      db.exec(script);
+    },
+    async close(): Promise<void> {
+      db.close();
+    }
+  };
+}
+
+async function connectPostgres(url: string): Promise<SqlClient> {
+  let Pool: new (config: { connectionString: string }) => PostgresPool;
+  try {
+    Pool = (await import('pg')).default.Pool;
+  } catch {
+    throw new SqlConfigError('Install pg to use a Postgres database');
+  }
+
+  const pool = new Pool({ connectionString: url });
+  return {
+    dialect: 'postgres',
+    async query<T extends SqlRow>(sql: string, params: unknown[] = []): Promise<T[]> {
+      const result = await pool.query(numberPlaceholders(sql), params.map(value => value ?? null));
+      return result.rows as T[];
+    },
+    async exec(script: string): Promise<void> {
+      await pool.query(script);
+    },
+    async close(): Promise<void> {
+      await pool.end();
+    }
+  };
+}
+
+export async function connectSql(url: string): Promise<SqlClient> {
+  return sqlDialect(url) === 'sqlite' ? openSqlite(sqliteFilename(url)) : connectPostgres(url);
+}
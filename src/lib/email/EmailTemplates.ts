@@ -0,0 +1,151 @@
+// Transactional emails in the learner's interface language, worded from the
+// `email` messages in src/messages so translators edit them with the rest of
+// the app
+
+import en from '../../messages/en.json';
+import fr from '../../messages/fr.json';
+import ty from '../../messages/ty.json';
+import type { Locale } from '../../i18n/config';
+import type { TitleTriplet } from '../../types';
+import type { WeeklyDigest } from './WeeklyDigest';
+import { hasActivity } from './WeeklyDigest';
+
+type EmailMessages = typeof en.email;
+
+const MESSAGES: Record<Locale, EmailMessages> = { en: en.email, fr: fr.email, ty: ty.email };
+
+/** The locale to write to a user in: their interface language when it is one we have */
+export function emailLocale(language: unknown): Locale {
+  return typeof language === 'string' && language in MESSAGES ? language as Locale : 'en';
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/** Fills `{name}` style placeholders */
+export function fillPlaceholders(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface EmailContent {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  list?: { heading: string; items: string[] };
+  action: { label: string; url: string };
+  notes: string[];
+}
+
+function compose(messages: EmailMessages, content: EmailContent): RenderedEmail {
+  const { subject, greeting, paragraphs, list, action, notes } = content;
+  const signature = messages.common.signature;
+
+  const text = [
+    greeting,
+    ...paragraphs,
+    ...(list ? [[list.heading, ...list.items.map(item => `- ${item}`)].join('\n')] : []),
+    `${action.label}: ${action.url}`,
+    ...notes,
+    signature
+  ].join('\n\n');
+
+  const paragraph = (value: string) => `<p style="margin:0 0 16px">${escapeHtml(value).replace(/\n/g, '<br>')}</p>`;
+  const html = [
+    '<!DOCTYPE html>',
+    `<html><head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f4f7fb;font-family:Arial,Helvetica,sans-serif;color:#1f2937">',
+    '<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px">',
+    paragraph(greeting),
+    ...paragraphs.map(paragraph),
+    ...(list
+      ? [paragraph(list.heading), `<ul style="margin:0 0 16px;padding-left:20px">${list.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`]
+      : []),
+    `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="background:#2563eb;color:#ffffff;padding:12px 20px;border-radius:8px;text-decoration:none;display:inline-block">${escapeHtml(action.label)}</a></p>`,
+    `<p style="margin:0 0 16px;font-size:13px;color:#6b7280">${escapeHtml(messages.common.linkFallback)}<br><a href="${escapeHtml(action.url)}" style="color:#2563eb;word-break:break-all">${escapeHtml(action.url)}</a></p>`,
+    ...notes.map(note => `<p style="margin:0 0 16px;font-size:13px;color:#6b7280">${escapeHtml(note)}</p>`),
+    paragraph(signature),
+    '</div></body></html>'
+  ].join('\n');
+
+  return { subject, text, html };
+}
+
+export function renderVerificationEmail(
+  locale: Locale,
+  params: { name: string; url: string; expiresInHours: number }
+): RenderedEmail {
+  const messages = MESSAGES[locale];
+  return compose(messages, {
+    subject: messages.verification.subject,
+    greeting: fillPlaceholders(messages.common.greeting, { name: params.name }),
+    paragraphs: [messages.verification.intro],
+    action: { label: messages.verification.action, url: params.url },
+    notes: [fillPlaceholders(messages.verification.expiry, { hours: params.expiresInHours }), messages.common.ignore]
+  });
+}
+
+export function renderPasswordResetEmail(
+  locale: Locale,
+  params: { name: string; url: string; expiresInMinutes: number }
+): RenderedEmail {
+  const messages = MESSAGES[locale];
+  return compose(messages, {
+    subject: messages.passwordReset.subject,
+    greeting: fillPlaceholders(messages.common.greeting, { name: params.name }),
+    paragraphs: [messages.passwordReset.intro],
+    action: { label: messages.passwordReset.action, url: params.url },
+    notes: [fillPlaceholders(messages.passwordReset.expiry, { minutes: params.expiresInMinutes }), messages.common.ignore]
+  });
+}
+
+// Lesson titles in the reader's language where the lesson has one
+function lessonTitle(title: TitleTriplet, locale: Locale): string {
+  if (locale === 'ty') return title.tah ?? title.fr;
+  if (locale === 'en') return title.en ?? title.fr;
+  return title.fr;
+}
+
+export function renderWeeklyDigestEmail(
+  locale: Locale,
+  params: { name: string; url: string; digest: WeeklyDigest }
+): RenderedEmail {
+  const messages = MESSAGES[locale];
+  const { digest } = params;
+  const copy = messages.weeklyDigest;
+  const weekOf = new Date(`${digest.weekOf}T00:00:00Z`).toLocaleDateString(locale === 'ty' ? 'fr-PF' : locale, {
+    day: 'numeric',
+    month: 'long',
+    timeZone: 'UTC'
+  });
+
+  const figures = hasActivity(digest)
+    ? [
+        [
+          fillPlaceholders(copy.lessonsCompleted, { count: digest.lessonsCompleted }),
+          fillPlaceholders(copy.sectionsCompleted, { count: digest.sectionsCompleted }),
+          fillPlaceholders(copy.averageScore, { score: digest.averageScore })
+        ].join('\n')
+      ]
+    : [copy.noActivity];
+
+  return compose(messages, {
+    subject: copy.subject,
+    greeting: fillPlaceholders(messages.common.greeting, { name: params.name }),
+    paragraphs: [
+      fillPlaceholders(copy.intro, { weekOf }),
+      ...figures,
+      fillPlaceholders(copy.overall, { completed: digest.completedLessons, total: digest.totalLessons })
+    ],
+    list: hasActivity(digest)
+      ? { heading: copy.studied, items: digest.studiedLessons.map(title => lessonTitle(title, locale)) }
+      : undefined,
+    action: { label: copy.action, url: params.url },
+    notes: [copy.unsubscribe]
+  });
+}
@@ -0,0 +1,112 @@
+// Where outgoing email goes: an SMTP server in production, the console or a
+// folder of .eml files in development, and an in-memory inbox in tests
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export class EmailTransportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailTransportError';
+  }
+}
+
+/** Keeps every message in memory, for tests to read links back out of */
+export class CaptureEmailTransport implements EmailTransport {
+  readonly inbox: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<void> {
+    this.inbox.push({ ...message });
+  }
+
+  /** Messages sent to the address, oldest first */
+  messagesTo(address: string): EmailMessage[] {
+    return this.inbox.filter(message => message.to.toLowerCase() === address.toLowerCase());
+  }
+
+  clear(): void {
+    this.inbox.length = 0;
+  }
+}
+
+/** A message as an RFC 822 file that mail clients open, text and HTML as alternatives */
+export function toEml(message: EmailMessage, date = new Date()): string {
+  const boundary = `tahitian-tutor-${date.getTime().toString(36)}`;
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    '',
+    message.html,
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+/**
+ * Prints each message's text to the console and, given a directory, also
+ * saves it there as an .eml file
+ */
+export class ConsoleEmailTransport implements EmailTransport {
+  constructor(private readonly directory?: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`[Email] To: ${message.to}\n[Email] Subject: ${message.subject}\n${message.text}`);
+    if (!this.directory) return;
+
+    const date = new Date();
+    const slug = message.to.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, `${date.toISOString().replace(/[:.]/g, '-')}-${slug}.eml`), toEml(message, date));
+  }
+}
+
+/** The part of a nodemailer transporter the SMTP transport uses */
+export interface SmtpMailer {
+  sendMail(message: EmailMessage): Promise<unknown>;
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  constructor(private readonly mailer: SmtpMailer) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    try {
+      await this.mailer.sendMail(message);
+    } catch (error) {
+      throw new EmailTransportError(`SMTP delivery to ${message.to} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+/** Connects with nodemailer, which is installed only where SMTP is used */
+export async function connectSmtpTransport(url: string): Promise<SmtpEmailTransport> {
+  let createTransport: (url: string) => SmtpMailer;
+  try {
+    createTransport = (await import('nodemailer')).createTransport;
+  } catch {
+    throw new EmailTransportError('Install nodemailer to send email over SMTP');
+  }
+  return new SmtpEmailTransport(createTransport(url));
+}
@@ -0,0 +1,78 @@
+// The emails the app sends, rendered in the recipient's language and handed
+// to whichever transport is configured
+
+import type { AccountRecord } from '../auth/AuthRepository';
+import {
+  emailLocale,
+  renderPasswordResetEmail,
+  renderVerificationEmail,
+  renderWeeklyDigestEmail,
+  type RenderedEmail
+} from './EmailTemplates';
+import type { EmailTransport } from './EmailTransport';
+import type { WeeklyDigest } from './WeeklyDigest';
+
+export type EmailRecipient = Pick<AccountRecord, 'email' | 'name' | 'preferences'>;
+
+export interface MailerOptions {
+  /** The From header, e.g. `Tahitian Tutor <no-reply@example.com>` */
+  from: string;
+  /** Where links in emails point, without a trailing slash */
+  appUrl: string;
+}
+
+/** Whole units left until `expiresAt`, at least one */
+const remaining = (expiresAt: string, unitMs: number) =>
+  Math.max(1, Math.round((new Date(expiresAt).getTime() - Date.now()) / unitMs));
+
+export class Mailer {
+  private readonly appUrl: string;
+
+  constructor(private readonly transport: EmailTransport, private readonly options: MailerOptions) {
+    this.appUrl = options.appUrl.replace(/\/+$/, '');
+  }
+
+  /** The link in a verification email */
+  verificationUrl(token: string): string {
+    return `${this.appUrl}/auth/verify-email?token=${encodeURIComponent(token)}`;
+  }
+
+  /** The link in a password reset email, which the reset form reads both values from */
+  passwordResetUrl(email: string, token: string): string {
+    return `${this.appUrl}/auth/reset-password?token=${encodeURIComponent(token)}&email=${encodeURIComponent(email)}`;
+  }
+
+  async sendVerification(user: EmailRecipient, token: string, expiresAt: string): Promise<void> {
+    await this.deliver(user, renderVerificationEmail(emailLocale(user.preferences?.language), {
+      name: user.name,
+      url: this.verificationUrl(token),
+      expiresInHours: remaining(expiresAt, 60 * 60 * 1000)
+    }));
+  }
+
+  async sendPasswordReset(user: EmailRecipient, token: string, expiresAt: string): Promise<void> {
+    await this.deliver(user, renderPasswordResetEmail(emailLocale(user.preferences?.language), {
+      name: user.name,
+      url: this.passwordResetUrl(user.email, token),
+      expiresInMinutes: remaining(expiresAt, 60 * 1000)
+    }));
+  }
+
+  async sendWeeklyDigest(user: EmailRecipient, digest: WeeklyDigest): Promise<void> {
+    await this.deliver(user, renderWeeklyDigestEmail(emailLocale(user.preferences?.language), {
+      name: user.name,
+      url: `${this.appUrl}/dashboard`,
+      digest
+    }));
+  }
+
+  private async deliver(user: EmailRecipient, email: RenderedEmail): Promise<void> {
+    await this.transport.send({ from: this.options.from, to: user.email, ...email });
+  }
+}
+
+/** Whether the user asked for progress emails; both switches default to on */
+export function wantsProgressEmails(user: Pick<AccountRecord, 'preferences'>): boolean {
+  const notifications = user.preferences?.notifications as { email?: boolean; progress?: boolean } | undefined;
+  return notifications?.email !== false && notifications?.progress !== false;
+}
@@ -0,0 +1,57 @@
+// The mailer the API routes share, with its transport chosen from the environment
+
+import {
+  CaptureEmailTransport,
+  connectSmtpTransport,
+  ConsoleEmailTransport,
+  EmailTransportError,
+  type EmailTransport
+} from './EmailTransport';
+import { Mailer } from './Mailer';
+
+let mailer: Promise<Mailer> | null = null;
+
+async function createTransport(): Promise<EmailTransport> {
+  const smtpUrl = process.env.SMTP_URL;
+  // Printing mail to the console would lose it unnoticed in production
+  if (!process.env.EMAIL_TRANSPORT && !smtpUrl && process.env.NODE_ENV === 'production') {
+    throw new EmailTransportError('Set SMTP_URL or EMAIL_TRANSPORT to send email in production');
+  }
+  const kind = process.env.EMAIL_TRANSPORT ?? (smtpUrl ? 'smtp' : 'console');
+
+  switch (kind) {
+    case 'smtp':
+      if (!smtpUrl) throw new EmailTransportError('EMAIL_TRANSPORT=smtp needs SMTP_URL');
+      return connectSmtpTransport(smtpUrl);
+    case 'console':
+      return new ConsoleEmailTransport();
+    case 'file':
+      return new ConsoleEmailTransport(process.env.EMAIL_OUTBOX_DIR ?? '.outbox');
+    case 'capture':
+      return new CaptureEmailTransport();
+    default:
+      throw new EmailTransportError(`Unknown EMAIL_TRANSPORT "${kind}"`);
+  }
+}
+
+/**
+ * `EMAIL_TRANSPORT` picks where mail goes: `smtp` (SMTP_URL), `console`,
+ * `file` (.eml files in EMAIL_OUTBOX_DIR) or `capture` (kept in memory,
+ * never delivered). Without it, SMTP is used when SMTP_URL is set and the
+ * console otherwise, except in production, where sending fails instead.
+ */
+export function getMailer(): Promise<Mailer> {
+  if (!mailer) {
+    mailer = createTransport().then(
+      transport => new Mailer(transport, {
+        from: process.env.EMAIL_FROM ?? 'Tahitian Tutor <no-reply@localhost>',
+        appUrl: process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000'
+      }),
+      error => {
+        mailer = null;
+        throw error;
+      }
+    );
+  }
+  return mailer;
+}
@@ -0,0 +1,51 @@
+// The figures behind the weekly progress email, from the same progress model
+// as the dashboard
+
+import { summarizeProgress } from '../progress/ProgressModel';
+import type { Lesson, TitleTriplet, UserProgress } from '../../types';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface WeeklyDigest {
+  /** Start of the week covered, as YYYY-MM-DD */
+  weekOf: string;
+  /** Lessons with any activity this week, most recent first */
+  studiedLessons: TitleTriplet[];
+  lessonsCompleted: number;
+  sectionsCompleted: number;
+  /** Mean score over the sections practised this week, 0 when there were none */
+  averageScore: number;
+  completedLessons: number;
+  totalLessons: number;
+}
+
+/**
+ * Sums up the seven days before `now`. Sections and lessons count as
+ * completed this week when they are complete and were last saved this week.
+ */
+export function buildWeeklyDigest(lessons: Lesson[], progress: UserProgress[], now = Date.now()): WeeklyDigest {
+  const since = now - WEEK_MS;
+  const overview = summarizeProgress(lessons, progress);
+  const thisWeek = progress.filter(entry => entry.updatedAt >= since);
+  const practised = thisWeek.filter(entry => entry.attempts > 0);
+
+  const studied = overview.lessons
+    .map((summary, index) => ({ summary, lesson: lessons[index] }))
+    .filter(({ summary }) => summary.lastActivityAt !== null && summary.lastActivityAt >= since)
+    .sort((a, b) => (b.summary.lastActivityAt ?? 0) - (a.summary.lastActivityAt ?? 0));
+
+  return {
+    weekOf: new Date(since).toISOString().slice(0, 10),
+    studiedLessons: studied.map(({ lesson }) => lesson.title),
+    lessonsCompleted: studied.filter(({ summary }) => summary.completed).length,
+    sectionsCompleted: thisWeek.filter(entry => entry.completed).length,
+    averageScore: practised.length > 0
+      ? Math.round(practised.reduce((sum, entry) => sum + entry.score, 0) / practised.length)
+      : 0,
+    completedLessons: overview.completedLessons,
+    totalLessons: overview.totalLessons
+  };
+}
+
+/** Whether the week had anything to report */
+export const hasActivity = (digest: WeeklyDigest): boolean => digest.studiedLessons.length > 0;
@@ -0,0 +1,172 @@
+import { CaptureEmailTransport, toEml } from '../EmailTransport';
+import { emailLocale, fillPlaceholders } from '../EmailTemplates';
+import { Mailer, wantsProgressEmails } from '../Mailer';
+import { getMailer } from '../ServerEmail';
+import { buildWeeklyDigest } from '../WeeklyDigest';
+import type { Exercise, Lesson, UserProgress } from '../../../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-03-09T12:00:00.000Z');
+
+const exercise: Exercise = { type: 'MCQ', prompt: 'Ia ora na?', data: {} };
+
+const lesson = (id: number, title: Lesson['title']): Lesson => ({
+  id,
+  slug: `lesson-${id}`,
+  level: 'Beginner',
+  title,
+  summary: '',
+  sections: [
+    { kind: 'Practice', title: 'Pratique', exercises: [exercise] },
+    { kind: 'Assessment', title: 'Évaluation', exercises: [exercise] }
+  ]
+});
+
+const entry = (overrides: Partial<UserProgress>): UserProgress => ({
+  userId: 'user-1',
+  lessonId: 1,
+  sectionKind: 'Practice',
+  completed: true,
+  score: 80,
+  attempts: 1,
+  updatedAt: NOW - DAY,
+  ...overrides
+});
+
+const LESSONS = [
+  lesson(1, { fr: 'Salutations', tah: 'Te aroharaa', en: 'Greetings' }),
+  lesson(2, { fr: 'La famille', tah: 'Te utuafare' }),
+  lesson(3, { fr: 'Les nombres' })
+];
+
+const recipient = (language: string) => ({
+  email: 'Hina@Example.com',
+  name: 'Hina <Teriitehau>',
+  preferences: { language }
+});
+
+describe('Mailer', () => {
+  let inbox: CaptureEmailTransport;
+  let mailer: Mailer;
+
+  beforeEach(() => {
+    inbox = new CaptureEmailTransport();
+    mailer = new Mailer(inbox, { from: 'Tahitian Tutor <no-reply@example.com>', appUrl: 'https://tutor.example.com/' });
+  });
+
+  it('sends a verification link in the recipient language', async () => {
+    await mailer.sendVerification(recipient('fr'), 'token/1', new Date(Date.now() + DAY).toISOString());
+
+    const [message] = inbox.messagesTo('hina@example.com');
+    expect(message.from).toBe('Tahitian Tutor <no-reply@example.com>');
+    expect(message.subject).toBe('Confirmez votre adresse email');
+    expect(message.text).toContain('https://tutor.example.com/auth/verify-email?token=token%2F1');
+    expect(message.text).toContain('Ce lien expire dans 24 heures.');
+    expect(message.html).toContain('href="https://tutor.example.com/auth/verify-email?token=token%2F1"');
+  });
+
+  it('links password resets to the reset form with the token and email', async () => {
+    await mailer.sendPasswordReset(recipient('ty'), 'abc123', new Date(Date.now() + 60 * 60 * 1000).toISOString());
+
+    const [message] = inbox.inbox;
+    expect(message.subject).toBe('A taui i to oe upu huna');
+    expect(message.text).toContain('https://tutor.example.com/auth/reset-password?token=abc123&email=Hina%40Example.com');
+    expect(message.text).toContain('E mou teie taamuraa i roto e 60 minuti.');
+  });
+
+  it('escapes user content in the HTML part only', async () => {
+    await mailer.sendVerification(recipient('en'), 'token', new Date(Date.now() + DAY).toISOString());
+
+    const [message] = inbox.inbox;
+    expect(message.text).toContain('Hello Hina <Teriitehau>,');
+    expect(message.html).toContain('Hello Hina &lt;Teriitehau&gt;,');
+    expect(message.html).not.toContain('<Teriitehau>');
+  });
+
+  it('falls back to English for languages without email copy', async () => {
+    await mailer.sendVerification(recipient('de'), 'token', new Date(Date.now() + DAY).toISOString());
+
+    expect(inbox.inbox[0].subject).toBe('Confirm your email address');
+    expect(emailLocale(undefined)).toBe('en');
+    expect(emailLocale('ty')).toBe('ty');
+  });
+
+  it('titles digest lessons in the reader language', async () => {
+    const digest = buildWeeklyDigest(LESSONS, [
+      entry({ lessonId: 1, updatedAt: NOW - 2 * DAY }),
+      entry({ lessonId: 1, sectionKind: 'Assessment', score: 60, updatedAt: NOW - DAY }),
+      entry({ lessonId: 2, completed: false, score: 40, updatedAt: NOW - 3 * DAY })
+    ], NOW);
+
+    await mailer.sendWeeklyDigest(recipient('ty'), digest);
+    await mailer.sendWeeklyDigest(recipient('en'), digest);
+
+    const [tahitian, english] = inbox.inbox;
+    expect(tahitian.subject).toBe('To oe hepetoma i roto i te reo Tahiti');
+    expect(tahitian.text).toContain('- Te aroharaa\n- Te utuafare');
+    expect(english.text).toContain('- Greetings\n- La famille');
+    expect(english.text).toContain('Lessons completed: 1');
+    expect(english.text).toContain('Overall you have completed 1 of 3 lessons.');
+    expect(english.text).toContain('https://tutor.example.com/dashboard');
+  });
+
+  it('writes multipart .eml files', () => {
+    const eml = toEml({ from: 'a@example.com', to: 'b@example.com', subject: 'Hi', text: 'Plain', html: '<p>Rich</p>' }, new Date(NOW));
+
+    expect(eml).toContain('Content-Type: multipart/alternative; boundary="tahitian-tutor-');
+    expect(eml).toContain('Content-Type: text/plain; charset=utf-8\r\n\r\nPlain');
+    expect(eml).toContain('Content-Type: text/html; charset=utf-8\r\n\r\n<p>Rich</p>');
+  });
+});
+
+describe('getMailer', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses to fall back to the console in production', async () => {
+    jest.replaceProperty(process, 'env', { ...process.env, NODE_ENV: 'production', EMAIL_TRANSPORT: undefined, SMTP_URL: undefined });
+    await expect(getMailer()).rejects.toThrow('Set SMTP_URL or EMAIL_TRANSPORT to send email in production');
+
+    process.env.EMAIL_TRANSPORT = 'capture';
+    await expect(getMailer()).resolves.toBeInstanceOf(Mailer);
+  });
+});
+
+describe('WeeklyDigest', () => {
+  it('counts only the past seven days', () => {
+    const digest = buildWeeklyDigest(LESSONS, [
+      entry({ lessonId: 1, score: 100, updatedAt: NOW - DAY }),
+      entry({ lessonId: 1, sectionKind: 'Assessment', score: 50, updatedAt: NOW - 2 * DAY }),
+      entry({ lessonId: 3, score: 90, updatedAt: NOW - 10 * DAY }),
+      entry({ lessonId: 3, sectionKind: 'Assessment', score: 90, updatedAt: NOW - 10 * DAY })
+    ], NOW);
+
+    expect(digest).toEqual({
+      weekOf: '2026-03-02',
+      studiedLessons: [LESSONS[0].title],
+      lessonsCompleted: 1,
+      sectionsCompleted: 2,
+      averageScore: 75,
+      completedLessons: 2,
+      totalLessons: 3
+    });
+  });
+
+  it('reports a quiet week', () => {
+    const digest = buildWeeklyDigest(LESSONS, [entry({ updatedAt: NOW - 30 * DAY })], NOW);
+
+    expect(digest.studiedLessons).toEqual([]);
+    expect(digest.averageScore).toBe(0);
+  });
+
+  it('respects the notification switches', () => {
+    expect(wantsProgressEmails({ preferences: undefined })).toBe(true);
+    expect(wantsProgressEmails({ preferences: { notifications: { email: true, progress: false } } })).toBe(false);
+    expect(wantsProgressEmails({ preferences: { notifications: { email: false, progress: true } } })).toBe(false);
+  });
+
+  it('fills placeholders it knows and leaves the rest', () => {
+    expect(fillPlaceholders('{count} of {total}', { count: 2 })).toBe('2 of {total}');
+  });
+});
@@ -0,0 +1,236 @@
+// Answer checking and scoring for lesson exercises
+
+import type {
+  Exercise,
+  ExerciseAnswer,
+  ExerciseResult,
+  SectionKind,
+  UserProgress,
+  MCQExerciseData,
+  MatchExerciseData,
+  OrderingExerciseData,
+  DictationExerciseData,
+  PronunciationExerciseData,
+  FillBlankExerciseData,
+  RoleplayExerciseData,
+  VocabItem
+} from '../../types';
+
+export const DEFAULT_EXERCISE_POINTS = 10;
+export const ASSESSMENT_PASSING_SCORE = 70;
+
+/**
+ * Section kinds whose exercise results are written into UserProgress
+ */
+export const GRADED_SECTION_KINDS: SectionKind[] = ['Practice', 'Assessment'];
+
+export class ExerciseAnswerError extends Error {
+  constructor(expected: string, received: string) {
+    super(`Answer of type ${received} cannot be checked against a ${expected} exercise`);
+    this.name = 'ExerciseAnswerError';
+  }
+}
+
+export function isGradedSection(kind: SectionKind): boolean {
+  return GRADED_SECTION_KINDS.includes(kind);
+}
+
+/**
+ * Normalizes free-text answers: case, surrounding whitespace, punctuation and
+ * the different glyphs authors use for the Tahitian glottal stop ('eta).
+ */
+export function normalizeAnswerText(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[‘’ʻʼ`]/g, "'")
+    .replace(/[.,!?;:«»"()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Reads a field from the exercise solution, falling back to the exercise data.
+ * Authors put answer keys in either place, so both are honoured.
+ */
+function answerKey<T>(exercise: Exercise, field: string): T | undefined {
+  const fromSolution = exercise.solution?.[field];
+  if (fromSolution !== undefined) return fromSolution as T;
+  return exercise.data[field] as T | undefined;
+}
+
+function checkMCQ(exercise: Exercise, selectedIndex: number): number {
+  const data = exercise.data as unknown as MCQExerciseData;
+  const correctIndex = answerKey<number>(exercise, 'correctIndex') ?? data.correctIndex;
+  return selectedIndex === correctIndex ? 1 : 0;
+}
+
+function checkMatch(exercise: Exercise, pairs: Record<string, string>): number {
+  const expected = answerKey<MatchExerciseData['pairs']>(exercise, 'pairs') ?? [];
+  if (expected.length === 0) return 0;
+
+  const matched = expected.filter(pair =>
+    normalizeAnswerText(pairs[pair.left] ?? '') === normalizeAnswerText(pair.right)
+  ).length;
+  return matched / expected.length;
+}
+
+function checkOrdering(exercise: Exercise, order: number[]): number {
+  const correctOrder = answerKey<OrderingExerciseData['correctOrder']>(exercise, 'correctOrder') ?? [];
+  if (correctOrder.length === 0) return 0;
+
+  const inPlace = correctOrder.filter((itemIndex, position) => order[position] === itemIndex).length;
+  return inPlace / correctOrder.length;
+}
+
+function checkDictation(exercise: Exercise, text: string): number {
+  const data = exercise.data as unknown as DictationExerciseData;
+  const transcript = answerKey<string>(exercise, 'transcript') ?? data.transcript ?? '';
+  const expectedWords = normalizeAnswerText(transcript).split(' ').filter(Boolean);
+  const givenWords = normalizeAnswerText(text).split(' ').filter(Boolean);
+  if (expectedWords.length === 0) return 0;
+
+  const matched = expectedWords.filter((word, index) => givenWords[index] === word).length;
+  return matched / Math.max(expectedWords.length, givenWords.length);
+}
+
+function checkPronunciation(exercise: Exercise, accuracy: number): number {
+  const data = exercise.data as unknown as PronunciationExerciseData;
+  const threshold = answerKey<number>(exercise, 'threshold') ?? data.threshold ?? 0.7;
+  const ratio = Math.max(0, Math.min(1, accuracy / 100));
+  return ratio >= threshold ? 1 : ratio;
+}
+
+/**
+ * The IPA a pronunciation attempt is scored against: the exercise's own, or
+ * that of the lesson vocabulary item spelled like the target
+ */
+export function pronunciationIpa(data: PronunciationExerciseData, vocab: VocabItem[] = []): string | undefined {
+  if (data.ipa) return data.ipa;
+  const target = normalizeAnswerText(data.target);
+  return vocab.find(item => item.tah && item.ipaTah && normalizeAnswerText(item.tah) === target)?.ipaTah;
+}
+
+function checkFillBlank(exercise: Exercise, answers: string[]): number {
+  const blanks = answerKey<FillBlankExerciseData['blanks']>(exercise, 'blanks') ?? [];
+  if (blanks.length === 0) return 0;
+
+  const filled = blanks.filter((blank, index) => {
+    const given = normalizeAnswerText(answers[index] ?? '');
+    if (!given) return false;
+    return [blank.answer, ...(blank.alternatives ?? [])]
+      .some(accepted => normalizeAnswerText(accepted) === given);
+  }).length;
+  return filled / blanks.length;
+}
+
+function checkRoleplay(exercise: Exercise, choices: Record<number, number>): number {
+  const data = exercise.data as unknown as RoleplayExerciseData;
+  const correctOptions = answerKey<Record<number, number>>(exercise, 'correctOptions');
+  const choiceSteps = (data.steps ?? [])
+    .map((step, index) => ({ step, index }))
+    .filter(({ step }) => step.speaker === 'you' && step.options && step.options.length > 0);
+
+  if (choiceSteps.length === 0) return 1;
+
+  const answered = choiceSteps.filter(({ index }) => {
+    const choice = choices[index];
+    if (choice === undefined) return false;
+    // Without an answer key every reply is acceptable; the exercise is conversational practice.
+    return correctOptions?.[index] === undefined || correctOptions[index] === choice;
+  }).length;
+  return answered / choiceSteps.length;
+}
+
+/**
+ * Checks an answer against the exercise and returns a fractional score in [0, 1]
+ */
+export function scoreAnswer(exercise: Exercise, answer: ExerciseAnswer): number {
+  if (exercise.type !== answer.type) {
+    throw new ExerciseAnswerError(exercise.type, answer.type);
+  }
+
+  switch (answer.type) {
+    case 'MCQ':
+      return checkMCQ(exercise, answer.selectedIndex);
+    case 'Match':
+      return checkMatch(exercise, answer.pairs);
+    case 'Ordering':
+      return checkOrdering(exercise, answer.order);
+    case 'Dictation':
+      return checkDictation(exercise, answer.text);
+    case 'Pronunciation':
+      return checkPronunciation(exercise, answer.accuracy);
+    case 'FillBlank':
+      return checkFillBlank(exercise, answer.answers);
+    case 'Roleplay':
+      return checkRoleplay(exercise, answer.choices);
+  }
+}
+
+/**
+ * Grades a single exercise, awarding points in proportion to the score
+ */
+export function gradeExercise(
+  exercise: Exercise,
+  answer: ExerciseAnswer,
+  exerciseIndex: number
+): ExerciseResult {
+  const score = scoreAnswer(exercise, answer);
+  const pointsPossible = exercise.points ?? DEFAULT_EXERCISE_POINTS;
+  const explanation = exercise.solution?.explanation;
+
+  return {
+    exerciseIndex,
+    type: exercise.type,
+    correct: score === 1,
+    score,
+    pointsAwarded: Math.round(pointsPossible * score),
+    pointsPossible,
+    explanation: typeof explanation === 'string' ? explanation : undefined
+  };
+}
+
+export function summarizeResults(results: ExerciseResult[]): {
+  pointsAwarded: number;
+  pointsPossible: number;
+  percentage: number;
+  correctCount: number;
+} {
+  const pointsAwarded = results.reduce((sum, r) => sum + r.pointsAwarded, 0);
+  const pointsPossible = results.reduce((sum, r) => sum + r.pointsPossible, 0);
+
+  return {
+    pointsAwarded,
+    pointsPossible,
+    percentage: pointsPossible > 0 ? Math.round((pointsAwarded / pointsPossible) * 100) : 0,
+    correctCount: results.filter(r => r.correct).length
+  };
+}
+
+/**
+ * Builds the UserProgress record for a finished exercise run. The best score is
+ * kept across attempts; Assessment sections additionally require a passing score.
+ */
+export function buildSectionProgress(
+  userId: string,
+  lessonId: number,
+  sectionKind: SectionKind,
+  exerciseCount: number,
+  results: ExerciseResult[],
+  previous?: UserProgress
+): UserProgress {
+  const { percentage } = summarizeResults(results);
+  const finished = results.length >= exerciseCount;
+  const passed = sectionKind !== 'Assessment' || percentage >= ASSESSMENT_PASSING_SCORE;
+
+  return {
+    userId,
+    lessonId,
+    sectionKind,
+    completed: Boolean(previous?.completed) || (finished && passed),
+    score: Math.max(previous?.score ?? 0, percentage),
+    attempts: (previous?.attempts ?? 0) + 1,
+    updatedAt: Date.now()
+  };
+}
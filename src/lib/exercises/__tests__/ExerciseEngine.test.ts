@@ -0,0 +1,174 @@
+import {
+  gradeExercise,
+  scoreAnswer,
+  summarizeResults,
+  buildSectionProgress,
+  normalizeAnswerText,
+  pronunciationIpa,
+  ExerciseAnswerError
+} from '../ExerciseEngine';
+import type { Exercise } from '../../../types';
+
+const mcq: Exercise = {
+  type: 'MCQ',
+  prompt: "Comment dit-on 'Bonjour' en tahitien ?",
+  data: { question: 'Bonjour ?', options: ['Ia ora na', 'Nana'], correctIndex: 0 },
+  solution: { explanation: "'Ia ora na' est la salutation standard." },
+  points: 10
+};
+
+const match: Exercise = {
+  type: 'Match',
+  prompt: 'Associez',
+  data: {
+    pairs: [
+      { left: 'Merci', right: 'Mauruuru' },
+      { left: 'Au revoir', right: 'Nana' }
+    ]
+  },
+  points: 20
+};
+
+const fillBlank: Exercise = {
+  type: 'FillBlank',
+  prompt: 'Complétez',
+  data: {
+    text: '_____ Pierre ! Ça va bien, _____ !',
+    blanks: [
+      { position: 0, answer: 'Salut', alternatives: ['Kaoha'] },
+      { position: 26, answer: 'merci', alternatives: ['mauruuru'] }
+    ]
+  },
+  points: 15
+};
+
+describe('ExerciseEngine', () => {
+  describe('scoreAnswer', () => {
+    it('scores MCQ answers against data.correctIndex', () => {
+      expect(scoreAnswer(mcq, { type: 'MCQ', selectedIndex: 0 })).toBe(1);
+      expect(scoreAnswer(mcq, { type: 'MCQ', selectedIndex: 1 })).toBe(0);
+    });
+
+    it('prefers the answer key in solution over data', () => {
+      const overridden = { ...mcq, solution: { correctIndex: 1 } };
+      expect(scoreAnswer(overridden, { type: 'MCQ', selectedIndex: 1 })).toBe(1);
+    });
+
+    it('gives partial credit for Match pairs', () => {
+      const score = scoreAnswer(match, {
+        type: 'Match',
+        pairs: { Merci: 'Mauruuru', 'Au revoir': 'Mauruuru' }
+      });
+      expect(score).toBe(0.5);
+    });
+
+    it('compares Ordering answers position by position', () => {
+      const ordering: Exercise = {
+        type: 'Ordering',
+        prompt: 'Ordre',
+        data: { items: ['b', 'a', 'c'], correctOrder: [1, 0, 2] }
+      };
+      expect(scoreAnswer(ordering, { type: 'Ordering', order: [1, 0, 2] })).toBe(1);
+      expect(scoreAnswer(ordering, { type: 'Ordering', order: [0, 1, 2] })).toBeCloseTo(1 / 3);
+    });
+
+    it('accepts FillBlank alternatives case-insensitively', () => {
+      expect(scoreAnswer(fillBlank, { type: 'FillBlank', answers: ['kaoha', 'Mauruuru'] })).toBe(1);
+      expect(scoreAnswer(fillBlank, { type: 'FillBlank', answers: ['Nana', 'merci'] })).toBe(0.5);
+    });
+
+    it('ignores punctuation and glottal stop glyph variants in dictation', () => {
+      const dictation: Exercise = {
+        type: 'Dictation',
+        prompt: 'Écrivez',
+        data: { audioUrl: '/audio/x.mp3', transcript: "Aita pe'ape'a !" }
+      };
+      expect(scoreAnswer(dictation, { type: 'Dictation', text: 'aita peʻapeʻa' })).toBe(1);
+    });
+
+    it('passes pronunciation at or above the threshold', () => {
+      const pronunciation: Exercise = {
+        type: 'Pronunciation',
+        prompt: 'Répétez',
+        data: { target: 'Ia ora na', threshold: 0.7 }
+      };
+      expect(scoreAnswer(pronunciation, { type: 'Pronunciation', transcript: 'ia ora na', accuracy: 75 })).toBe(1);
+      expect(scoreAnswer(pronunciation, { type: 'Pronunciation', transcript: 'ia', accuracy: 40 })).toBe(0.4);
+    });
+
+    it('accepts any roleplay reply when no answer key is given', () => {
+      const roleplay: Exercise = {
+        type: 'Roleplay',
+        prompt: 'Dialogue',
+        data: {
+          scenario: 'Au marché',
+          steps: [
+            { speaker: 'other', text: 'Ia ora na' },
+            { speaker: 'you', text: '', options: ['Ia ora na', 'Nana'] }
+          ]
+        }
+      };
+      expect(scoreAnswer(roleplay, { type: 'Roleplay', choices: { 1: 1 } })).toBe(1);
+      expect(scoreAnswer({ ...roleplay, solution: { correctOptions: { 1: 0 } } }, { type: 'Roleplay', choices: { 1: 1 } })).toBe(0);
+    });
+
+    it('rejects answers of the wrong type', () => {
+      expect(() => scoreAnswer(mcq, { type: 'Dictation', text: 'x' })).toThrow(ExerciseAnswerError);
+    });
+  });
+
+  describe('gradeExercise', () => {
+    it('awards points proportionally and surfaces the explanation', () => {
+      const result = gradeExercise(mcq, { type: 'MCQ', selectedIndex: 0 }, 0);
+      expect(result).toMatchObject({ correct: true, pointsAwarded: 10, pointsPossible: 10 });
+      expect(result.explanation).toContain('Ia ora na');
+
+      const partial = gradeExercise(match, { type: 'Match', pairs: { Merci: 'Mauruuru' } }, 1);
+      expect(partial).toMatchObject({ correct: false, pointsAwarded: 10, pointsPossible: 20 });
+    });
+  });
+
+  describe('buildSectionProgress', () => {
+    const results = [
+      gradeExercise(mcq, { type: 'MCQ', selectedIndex: 0 }, 0),
+      gradeExercise(match, { type: 'Match', pairs: {} }, 1)
+    ];
+
+    it('summarizes points into a percentage', () => {
+      expect(summarizeResults(results)).toEqual({
+        pointsAwarded: 10,
+        pointsPossible: 30,
+        percentage: 33,
+        correctCount: 1
+      });
+    });
+
+    it('completes Practice once every exercise is answered', () => {
+      const progress = buildSectionProgress('user-1', 42, 'Practice', 2, results);
+      expect(progress).toMatchObject({ userId: 'user-1', lessonId: 42, completed: true, score: 33, attempts: 1 });
+    });
+
+    it('requires a passing score for Assessment and keeps the best attempt', () => {
+      const previous = buildSectionProgress('user-1', 42, 'Assessment', 2, results);
+      expect(previous.completed).toBe(false);
+
+      const next = buildSectionProgress('user-1', 42, 'Assessment', 2, results, { ...previous, score: 50 });
+      expect(next).toMatchObject({ completed: false, score: 50, attempts: 2 });
+    });
+  });
+
+  it('normalizes answer text', () => {
+    expect(normalizeAnswerText('  Ia ORA na ! ')).toBe('ia ora na');
+  });
+
+  it('scores pronunciation against the exercise IPA or the matching vocabulary', () => {
+    const vocab = [
+      { fr: 'Bonjour', tah: 'Ia ora na', ipaTah: 'ia ˈo.ra na' },
+      { fr: 'Merci', tah: 'Māuruuru', ipaTah: 'maː.u.ru.u.ru' }
+    ];
+
+    expect(pronunciationIpa({ target: 'ia ora na!', threshold: 0.7 }, vocab)).toBe('ia ˈo.ra na');
+    expect(pronunciationIpa({ target: 'Māuruuru', threshold: 0.7, ipa: 'maː.u.ˈru.u.ru' }, vocab)).toBe('maː.u.ˈru.u.ru');
+    expect(pronunciationIpa({ target: 'Nana', threshold: 0.7 }, vocab)).toBeUndefined();
+  });
+});
@@ -0,0 +1,468 @@
+// Packages a course as SCORM 1.2, SCORM 2004 or IMS Common Cartridge for
+// partner schools' LMSs (Moodle in particular). Every lesson becomes one
+// self-contained HTML page; the course's media and the runtime script are
+// shared assets. Packages are built in the browser because courses and
+// uploaded media only exist there.
+
+import type { Course, Exercise, Lesson, LessonSection, MediaAsset, VocabItem } from '../../types';
+import { isSafeHref, parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../content/Markdown';
+import { ASSESSMENT_PASSING_SCORE, DEFAULT_EXERCISE_POINTS } from '../exercises/ExerciseEngine';
+import { mediaAssetUrl } from '../offline/LessonPack';
+import { PACKAGE_STYLES_CSS, RUNTIME_PATH, SCORM_RUNTIME_JS, STYLES_PATH } from './ScormRuntime';
+import { buildZip, type ZipEntry } from './ZipWriter';
+
+export type PackageFormat = 'scorm12' | 'scorm2004' | 'cc';
+
+export const PACKAGE_FORMATS: Record<PackageFormat, { label: string; description: string; extension: string }> = {
+  scorm12: {
+    label: 'SCORM 1.2',
+    description: 'Most widely supported; reports completion and score',
+    extension: 'zip'
+  },
+  scorm2004: {
+    label: 'SCORM 2004 (4th edition)',
+    description: 'Reports completion and success separately with a scaled score',
+    extension: 'zip'
+  },
+  cc: {
+    label: 'IMS Common Cartridge 1.1',
+    description: 'Content only, no score reporting; imports as course pages',
+    extension: 'imscc'
+  }
+};
+
+/** Scorable exercise as embedded in a lesson page, with its answer key resolved */
+type PackagedExercise =
+  | { type: 'MCQ'; points: number; correctIndex: number }
+  | { type: 'Match'; points: number; pairs: Array<{ left: string; right: string }> }
+  | { type: 'FillBlank'; points: number; blanks: Array<{ answer: string; alternatives?: string[] }> }
+  | { type: 'Dictation'; points: number; transcript: string };
+
+const MESSAGES = {
+  score: 'Votre score : {score} %.',
+  passed: 'Leçon validée.',
+  failed: `Il faut ${ASSESSMENT_PASSING_SCORE} % pour valider la leçon.`,
+  completed: 'Leçon terminée.'
+};
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** Manifest identifiers must be XML NCNames */
+function identifier(prefix: string, value: string): string {
+  return `${prefix}-${value.replace(/[^A-Za-z0-9_.-]/g, '_')}`;
+}
+
+export function packageFileName(course: Course, format: PackageFormat): string {
+  const base = slugify(course.title.fr || course.title.en || '') || `course-${course.id ?? 'export'}`;
+  return `${base}-${format}.${PACKAGE_FORMATS[format].extension}`;
+}
+
+/** Media are prefixed with their id; upload blob: URLs have no usable name */
+export function mediaPackagePath(asset: MediaAsset): string {
+  const fileName = asset.filePath.split(/[?#]/)[0].split('/').pop() ?? '';
+  const extension = /\.([a-z0-9]{1,5})$/i.exec(fileName)?.[1].toLowerCase();
+  const stem = slugify(extension ? fileName.slice(0, -extension.length - 1) : fileName) || asset.kind;
+  return `media/${asset.id}-${stem}${extension ? `.${extension}` : ''}`;
+}
+
+/**
+ * Lesson pages are numbered so two lessons sharing a slug cannot collide and
+ * the package lists them in course order
+ */
+export function lessonPackagePath(lesson: Lesson, index: number): string {
+  return `lessons/${String(index + 1).padStart(2, '0')}-${slugify(lesson.slug) || 'lesson'}/index.html`;
+}
+
+/** Lesson pages sit two directories below the package root */
+const fromLesson = (path: string) => `../../${path}`;
+
+function renderInline(nodes: MarkdownInline[]): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.text);
+        case 'strong':
+          return `<strong>${renderInline(node.children)}</strong>`;
+        case 'em':
+          return `<em>${renderInline(node.children)}</em>`;
+        case 'code':
+          return `<code>${escapeHtml(node.text)}</code>`;
+        case 'link':
+          return isSafeHref(node.href)
+            ? `<a href="${escapeHtml(node.href)}" target="_blank" rel="noopener noreferrer">${renderInline(node.children)}</a>`
+            : renderInline(node.children);
+      }
+    })
+    .join('');
+}
+
+function renderBlock(block: MarkdownBlock): string {
+  switch (block.type) {
+    case 'heading': {
+      // Section titles are <h2>, so markdown headings start at <h3>
+      const level = Math.min(block.level + 2, 6);
+      return `<h${level}>${renderInline(block.children)}</h${level}>`;
+    }
+    case 'paragraph':
+      return `<p>${renderInline(block.children)}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>${block.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`;
+    }
+    case 'quote':
+      return `<blockquote>${renderInline(block.children)}</blockquote>`;
+    case 'code':
+      return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+    case 'rule':
+      return '<hr>';
+  }
+}
+
+export function renderMarkdownHtml(markdown: string): string {
+  return parseMarkdown(markdown).map(renderBlock).join('\n');
+}
+
+/** Same lookup as ExerciseEngine: the solution first, then the exercise data */
+function answerKey<T>(exercise: Exercise, field: string): T | undefined {
+  const fromSolution = exercise.solution?.[field];
+  if (fromSolution !== undefined) return fromSolution as T;
+  return exercise.data[field] as T | undefined;
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value : '');
+
+interface PageContext {
+  mediaPaths: Map<number, string>;
+  exercises: PackagedExercise[];
+}
+
+function mediaSource(reference: unknown, context: PageContext): string | null {
+  if (typeof reference === 'number') {
+    const path = context.mediaPaths.get(reference);
+    return path ? fromLesson(path) : null;
+  }
+  // Only absolute URLs still resolve once the page is inside an LMS
+  return typeof reference === 'string' && /^https?:\/\//.test(reference) ? reference : null;
+}
+
+function renderVocab(vocab: VocabItem[], context: PageContext): string {
+  const rows = vocab.map(item => {
+    const audio = mediaSource(item.audioMediaId, context);
+    const ipa = item.ipaTah ? ` <span class="ipa">/${escapeHtml(item.ipaTah)}/</span>` : '';
+    return `<tr><td>${escapeHtml(item.fr)}</td><td lang="ty">${escapeHtml(item.tah ?? '')}${ipa}</td>` +
+      `<td lang="en">${escapeHtml(item.en ?? '')}</td>` +
+      `<td>${audio ? `<audio controls preload="none" src="${escapeHtml(audio)}"></audio>` : ''}</td></tr>`;
+  });
+  return '<table><thead><tr><th scope="col">Français</th><th scope="col">Tahitien</th>' +
+    `<th scope="col">English</th><th scope="col">Audio</th></tr></thead><tbody>${rows.join('')}</tbody></table>`;
+}
+
+/**
+ * Renders one exercise as a fieldset. Scorable types are added to the page
+ * config with their answer key; the rest need the app (microphone, ordering
+ * drag and drop, dialogue branching) and are shown without a score.
+ */
+function renderExercise(exercise: Exercise, context: PageContext): string {
+  const index = context.exercises.length;
+  const name = `exercise-${index}`;
+  const points = exercise.points ?? DEFAULT_EXERCISE_POINTS;
+  const open = `<fieldset class="exercise" data-exercise="${index}"><legend>${escapeHtml(exercise.prompt)}</legend>`;
+
+  switch (exercise.type) {
+    case 'MCQ': {
+      const options = (exercise.data.options as unknown[] | undefined) ?? [];
+      context.exercises.push({ type: 'MCQ', points, correctIndex: Number(answerKey<number>(exercise, 'correctIndex')) });
+      const question = text(exercise.data.question);
+      return open + (question ? `<p>${escapeHtml(question)}</p>` : '') +
+        options.map((option, i) =>
+          `<label><input type="radio" name="${name}" value="${i}"> ${escapeHtml(text(option))}</label>`
+        ).join('') + '</fieldset>';
+    }
+    case 'Match': {
+      const pairs = answerKey<Array<{ left: string; right: string }>>(exercise, 'pairs') ?? [];
+      context.exercises.push({ type: 'Match', points, pairs });
+      // Sorted so the list order does not give the answers away
+      const choices = pairs.map(pair => pair.right).sort((a, b) => a.localeCompare(b, 'fr'));
+      return open + pairs.map((pair, i) =>
+        `<label>${escapeHtml(pair.left)} <select name="${name}-${i}"><option value="">—</option>` +
+        choices.map(choice => `<option>${escapeHtml(choice)}</option>`).join('') + '</select></label>'
+      ).join('') + '</fieldset>';
+    }
+    case 'FillBlank': {
+      const blanks = answerKey<Array<{ answer: string; alternatives?: string[] }>>(exercise, 'blanks') ?? [];
+      context.exercises.push({
+        type: 'FillBlank',
+        points,
+        blanks: blanks.map(blank => ({ answer: blank.answer, alternatives: blank.alternatives }))
+      });
+      return open + `<p>${escapeHtml(text(exercise.data.text))}</p>` + blanks.map((_, i) =>
+        `<label>${i + 1}. <input type="text" name="${name}-${i}" autocomplete="off"></label>`
+      ).join('') + '</fieldset>';
+    }
+    case 'Dictation': {
+      const audio = mediaSource(exercise.data.audioUrl ?? exercise.data.audioMediaId, context);
+      context.exercises.push({ type: 'Dictation', points, transcript: answerKey<string>(exercise, 'transcript') ?? '' });
+      return open + (audio ? `<audio controls preload="none" src="${escapeHtml(audio)}"></audio>` : '') +
+        `<label><input type="text" name="${name}" autocomplete="off" lang="ty"></label></fieldset>`;
+    }
+    default:
+      return `<fieldset class="exercise"><legend>${escapeHtml(exercise.prompt)}</legend>` +
+        '<p class="note">Cet exercice se fait dans l\'application TahitiSpeak et ne compte pas dans le score.</p></fieldset>';
+  }
+}
+
+function renderSection(section: LessonSection, context: PageContext): string {
+  const parts = [`<h2>${escapeHtml(section.title || section.kind)}</h2>`];
+  if (section.contentMd) parts.push(renderMarkdownHtml(section.contentMd));
+  if (section.vocab?.length) parts.push(renderVocab(section.vocab, context));
+  section.exercises?.forEach(exercise => parts.push(renderExercise(exercise, context)));
+  return `<section>\n${parts.join('\n')}\n</section>`;
+}
+
+/** JSON inside a <script> element must not be able to close it */
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+function renderLesson(
+  lesson: Lesson,
+  format: PackageFormat,
+  mediaPaths: Map<number, string>
+): { html: string; scored: boolean } {
+  const context: PageContext = { mediaPaths, exercises: [] };
+  const sections = [...lesson.sections]
+    .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0))
+    .map(section => renderSection(section, context));
+  const hero = mediaSource(lesson.heroMediaId, context);
+  const subtitle = [lesson.title.tah, lesson.title.en].filter(Boolean).join(' · ');
+  const config = {
+    standard: format,
+    passingScore: ASSESSMENT_PASSING_SCORE,
+    exercises: context.exercises,
+    messages: MESSAGES
+  };
+
+  const html = `<!DOCTYPE html>
+<html lang="fr">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(lesson.title.fr)}</title>
+<link rel="stylesheet" href="${fromLesson(STYLES_PATH)}">
+</head>
+<body>
+<main>
+<h1>${escapeHtml(lesson.title.fr)}</h1>
+${subtitle ? `<p class="subtitle">${escapeHtml(subtitle)}</p>` : ''}
+${hero ? `<img class="hero" src="${escapeHtml(hero)}" alt="">` : ''}
+${lesson.summary ? `<p>${escapeHtml(lesson.summary)}</p>` : ''}
+${sections.join('\n')}
+<button type="button" id="finish">${context.exercises.length > 0 ? 'Valider mes réponses' : 'J\'ai terminé cette leçon'}</button>
+<p id="result" role="status"></p>
+</main>
+<script type="application/json" id="tahitispeak-lesson">${scriptJson(config)}</script>
+<script src="${fromLesson(RUNTIME_PATH)}"></script>
+</body>
+</html>
+`;
+  return { html, scored: context.exercises.length > 0 };
+}
+
+export function renderLessonPage(lesson: Lesson, format: PackageFormat, mediaPaths: Map<number, string>): string {
+  return renderLesson(lesson, format, mediaPaths).html;
+}
+
+interface PackagedLesson {
+  lesson: Lesson;
+  path: string;
+  scored: boolean;
+}
+
+function sharedResource(format: PackageFormat, files: string[]): string {
+  const scormType = format === 'scorm12' ? ' adlcp:scormtype="asset"' : format === 'scorm2004' ? ' adlcp:scormType="asset"' : '';
+  return `    <resource identifier="RES-shared" type="webcontent"${scormType}>\n` +
+    files.map(file => `      <file href="${escapeHtml(file)}"/>`).join('\n') +
+    '\n    </resource>';
+}
+
+function lessonResource(format: PackageFormat, entry: PackagedLesson, index: number): string {
+  const scormType = format === 'scorm12' ? ' adlcp:scormtype="sco"' : format === 'scorm2004' ? ' adlcp:scormType="sco"' : '';
+  return `    <resource identifier="${identifier(`RES-${index + 1}`, entry.lesson.slug)}" type="webcontent"${scormType} href="${escapeHtml(entry.path)}">
+      <file href="${escapeHtml(entry.path)}"/>
+      <dependency identifierref="RES-shared"/>
+    </resource>`;
+}
+
+function lessonItem(format: PackageFormat, entry: PackagedLesson, index: number): string {
+  const title = `<title>${escapeHtml(entry.lesson.title.fr)}</title>`;
+  const id = identifier(`ITEM-${index + 1}`, entry.lesson.slug);
+  const ref = identifier(`RES-${index + 1}`, entry.lesson.slug);
+  let extra = '';
+  if (format === 'scorm12' && entry.scored) {
+    extra = `\n        <adlcp:masteryscore>${ASSESSMENT_PASSING_SCORE}</adlcp:masteryscore>`;
+  } else if (format === 'scorm2004' && entry.scored) {
+    extra = `
+        <imsss:sequencing>
+          <imsss:objectives>
+            <imsss:primaryObjective objectiveID="PRIMARYOBJ" satisfiedByMeasure="true">
+              <imsss:minNormalizedMeasure>${ASSESSMENT_PASSING_SCORE / 100}</imsss:minNormalizedMeasure>
+            </imsss:primaryObjective>
+          </imsss:objectives>
+        </imsss:sequencing>`;
+  }
+  return `      <item identifier="${id}" identifierref="${ref}">\n        ${title}${extra}\n      </item>`;
+}
+
+const MANIFEST_HEADERS: Record<PackageFormat, string> = {
+  scorm12: `xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd"`,
+  scorm2004: `xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd"`,
+  cc: `xmlns="http://www.imsglobal.org/xsd/imsccv1p1/imscp_v1p1"
+  xmlns:lomimscc="http://ltsc.ieee.org/xsd/imsccv1p1/LOM/manifest"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imsccv1p1/imscp_v1p1 http://www.imsglobal.org/profile/cc/ccv1p1/ccv1p1_imscp_v1p2_v1p0.xsd http://ltsc.ieee.org/xsd/imsccv1p1/LOM/manifest http://www.imsglobal.org/profile/cc/ccv1p1/LOM/ccv1p1_lommanifest_v1p0.xsd"`
+};
+
+function manifestMetadata(course: Course, format: PackageFormat): string {
+  if (format === 'cc') {
+    return `  <metadata>
+    <schema>IMS Common Cartridge</schema>
+    <schemaversion>1.1.0</schemaversion>
+    <lomimscc:lom>
+      <lomimscc:general>
+        <lomimscc:title><lomimscc:string language="fr">${escapeHtml(course.title.fr)}</lomimscc:string></lomimscc:title>
+        <lomimscc:description><lomimscc:string language="fr">${escapeHtml(course.description)}</lomimscc:string></lomimscc:description>
+      </lomimscc:general>
+    </lomimscc:lom>
+  </metadata>`;
+  }
+  return `  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>${format === 'scorm12' ? '1.2' : '2004 4th Edition'}</schemaversion>
+  </metadata>`;
+}
+
+/**
+ * imsmanifest.xml for the package: one item and SCO (or web content page)
+ * per lesson, all depending on a shared resource holding the runtime, the
+ * stylesheet and the media
+ */
+function buildManifest(course: Course, format: PackageFormat, lessons: PackagedLesson[], sharedFiles: string[]): string {
+  const items = lessons.map((entry, index) => lessonItem(format, entry, index)).join('\n');
+  // Common Cartridge requires a single root item wrapping the course outline
+  const organization = format === 'cc'
+    ? `    <organization identifier="ORG-1" structure="rooted-hierarchy">
+      <item identifier="ROOT">
+${items.replace(/^/gm, '  ')}
+      </item>
+    </organization>`
+    : `    <organization identifier="ORG-1">
+      <title>${escapeHtml(course.title.fr)}</title>
+${items}${format === 'scorm2004' ? `
+      <imsss:sequencing>
+        <imsss:controlMode choice="true" flow="true"/>
+      </imsss:sequencing>` : ''}
+    </organization>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier('TAHITISPEAK', `${course.id ?? slugify(course.title.fr)}-v${course.version}`)}" version="${course.version}"
+  ${MANIFEST_HEADERS[format]}>
+${manifestMetadata(course, format)}
+  <organizations default="ORG-1">
+${organization}
+  </organizations>
+  <resources>
+${lessons.map((entry, index) => lessonResource(format, entry, index)).join('\n')}
+${sharedResource(format, sharedFiles)}
+  </resources>
+</manifest>
+`;
+}
+
+/**
+ * Builds the package archive. `media` holds the bytes of the course's media
+ * assets by id; assets without bytes are left out and pages referencing them
+ * render without the image or audio.
+ */
+export function buildCoursePackage(
+  course: Course,
+  format: PackageFormat,
+  media: Map<number, Uint8Array>,
+  modified: Date = new Date()
+): Uint8Array<ArrayBuffer> {
+  const mediaPaths = new Map<number, string>();
+  const mediaEntries: ZipEntry[] = [];
+  for (const asset of course.mediaAssets) {
+    const bytes = media.get(asset.id);
+    if (!bytes || mediaPaths.has(asset.id)) continue;
+    const path = mediaPackagePath(asset);
+    mediaPaths.set(asset.id, path);
+    mediaEntries.push({ path, data: bytes });
+  }
+
+  const lessons: PackagedLesson[] = [];
+  const lessonEntries: ZipEntry[] = course.lessons.map((lesson, index) => {
+    const path = lessonPackagePath(lesson, index);
+    const { html, scored } = renderLesson(lesson, format, mediaPaths);
+    lessons.push({ lesson, path, scored });
+    return { path, data: html };
+  });
+
+  const sharedEntries: ZipEntry[] = [
+    { path: RUNTIME_PATH, data: SCORM_RUNTIME_JS },
+    { path: STYLES_PATH, data: PACKAGE_STYLES_CSS },
+    ...mediaEntries
+  ];
+  const manifest = buildManifest(course, format, lessons, sharedEntries.map(entry => entry.path));
+
+  return buildZip([{ path: 'imsmanifest.xml', data: manifest }, ...lessonEntries, ...sharedEntries], modified);
+}
+
+/**
+ * Downloads the bytes of every course media asset. Assets that fail to load
+ * are reported so the author can decide whether to export without them.
+ */
+export async function loadPackageMedia(
+  assets: MediaAsset[],
+  fetcher: typeof fetch = fetch
+): Promise<{ files: Map<number, Uint8Array>; missing: MediaAsset[] }> {
+  const files = new Map<number, Uint8Array>();
+  const missing: MediaAsset[] = [];
+
+  for (const asset of assets) {
+    try {
+      // Media uploaded in this session are still blob: URLs
+      const url = /^(blob|data):/.test(asset.filePath) ? asset.filePath : mediaAssetUrl(asset);
+      const response = await fetcher(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      files.set(asset.id, new Uint8Array(await response.arrayBuffer()));
+    } catch {
+      missing.push(asset);
+    }
+  }
+
+  return { files, missing };
+}
@@ -0,0 +1,228 @@
+// Static assets shipped inside exported course packages: the script that
+// grades a lesson page and reports to the LMS, and the page stylesheet.
+//
+// The script is plain ES5 so it runs in the older browsers school LMSs still
+// embed. It looks for the SCORM 1.2 `API` or SCORM 2004 `API_1484_11` object
+// in the parent and opener windows; without one (Common Cartridge, or the page
+// opened directly) grading still works and nothing is reported.
+// Answer checking mirrors normalizeAnswerText and the checks in ExerciseEngine.
+
+export const RUNTIME_PATH = 'shared/tahitispeak-runtime.js';
+export const STYLES_PATH = 'shared/tahitispeak.css';
+
+export const SCORM_RUNTIME_JS = `(function () {
+  'use strict';
+
+  var configElement = document.getElementById('tahitispeak-lesson');
+  var config = JSON.parse(configElement ? configElement.textContent : '{}');
+  var exercises = config.exercises || [];
+  var startedAt = new Date().getTime();
+  var finished = false;
+  var terminated = false;
+
+  function findApi(name) {
+    var windows = [window, window.opener];
+    for (var w = 0; w < windows.length; w++) {
+      var candidate = windows[w];
+      for (var depth = 0; candidate && depth < 10; depth++) {
+        try {
+          if (candidate[name]) return candidate[name];
+        } catch (e) {
+          break;
+        }
+        if (candidate.parent === candidate) break;
+        candidate = candidate.parent;
+      }
+    }
+    return null;
+  }
+
+  var scorm12 = config.standard === 'scorm12';
+  var api = config.standard === 'scorm2004' ? findApi('API_1484_11') : scorm12 ? findApi('API') : null;
+
+  function call(method12, method2004, args) {
+    if (!api) return '';
+    var method = scorm12 ? method12 : method2004;
+    try {
+      return api[method].apply(api, args || ['']);
+    } catch (e) {
+      return '';
+    }
+  }
+
+  function getValue(name) { return call('LMSGetValue', 'GetValue', [name]); }
+  function setValue(name, value) { return call('LMSSetValue', 'SetValue', [name, String(value)]); }
+  function commit() { return call('LMSCommit', 'Commit'); }
+
+  function pad(value, size) {
+    var text = String(value);
+    while (text.length < size) text = '0' + text;
+    return text;
+  }
+
+  function sessionTime() {
+    var seconds = Math.round((new Date().getTime() - startedAt) / 1000);
+    var hours = Math.floor(seconds / 3600);
+    var minutes = Math.floor((seconds % 3600) / 60);
+    seconds = seconds % 60;
+    if (scorm12) return pad(hours, 4) + ':' + pad(minutes, 2) + ':' + pad(seconds, 2);
+    return 'PT' + hours + 'H' + minutes + 'M' + seconds + 'S';
+  }
+
+  function start() {
+    if (!api) return;
+    call('LMSInitialize', 'Initialize');
+    if (scorm12) {
+      var status = getValue('cmi.core.lesson_status');
+      if (status === 'not attempted' || status === '') setValue('cmi.core.lesson_status', 'incomplete');
+    } else {
+      var completion = getValue('cmi.completion_status');
+      if (completion === 'not attempted' || completion === 'unknown' || completion === '') {
+        setValue('cmi.completion_status', 'incomplete');
+      }
+    }
+    commit();
+  }
+
+  function reportResult(percent) {
+    if (!api) return;
+    var passed = percent >= config.passingScore;
+    if (scorm12) {
+      if (percent !== null) {
+        setValue('cmi.core.score.min', 0);
+        setValue('cmi.core.score.max', 100);
+        setValue('cmi.core.score.raw', percent);
+      }
+      setValue('cmi.core.lesson_status', percent === null ? 'completed' : passed ? 'passed' : 'failed');
+    } else {
+      setValue('cmi.completion_status', 'completed');
+      if (percent !== null) {
+        setValue('cmi.score.min', 0);
+        setValue('cmi.score.max', 100);
+        setValue('cmi.score.raw', percent);
+        setValue('cmi.score.scaled', percent / 100);
+        setValue('cmi.success_status', passed ? 'passed' : 'failed');
+      }
+    }
+    commit();
+  }
+
+  function terminate() {
+    if (!api || terminated) return;
+    terminated = true;
+    if (scorm12) {
+      setValue('cmi.core.session_time', sessionTime());
+      setValue('cmi.core.exit', finished ? '' : 'suspend');
+    } else {
+      setValue('cmi.session_time', sessionTime());
+      setValue('cmi.exit', finished ? 'normal' : 'suspend');
+    }
+    commit();
+    call('LMSFinish', 'Terminate');
+  }
+
+  function normalize(text) {
+    return String(text || '')
+      .toLowerCase()
+      .replace(/[\\u2018\\u2019\\u02bb\\u02bc\`]/g, "'")
+      .replace(/[.,!?;:\\u00ab\\u00bb"()]/g, ' ')
+      .replace(/\\s+/g, ' ')
+      .replace(/^ | $/g, '');
+  }
+
+  function field(index) {
+    return document.querySelector('[data-exercise="' + index + '"]');
+  }
+
+  function inputs(element, selector) {
+    return Array.prototype.slice.call(element.querySelectorAll(selector));
+  }
+
+  function score(exercise, element) {
+    if (exercise.type === 'MCQ') {
+      var checked = element.querySelector('input:checked');
+      return checked && Number(checked.value) === exercise.correctIndex ? 1 : 0;
+    }
+    if (exercise.type === 'Match') {
+      if (!exercise.pairs.length) return 0;
+      var matched = inputs(element, 'select').filter(function (select, i) {
+        return normalize(select.value) === normalize(exercise.pairs[i].right);
+      }).length;
+      return matched / exercise.pairs.length;
+    }
+    if (exercise.type === 'FillBlank') {
+      if (!exercise.blanks.length) return 0;
+      var filled = inputs(element, 'input').filter(function (input, i) {
+        var given = normalize(input.value);
+        var blank = exercise.blanks[i];
+        return given !== '' && [blank.answer].concat(blank.alternatives || []).some(function (accepted) {
+          return normalize(accepted) === given;
+        });
+      }).length;
+      return filled / exercise.blanks.length;
+    }
+    if (exercise.type === 'Dictation') {
+      var expected = normalize(exercise.transcript).split(' ').filter(Boolean);
+      var given = normalize(element.querySelector('input').value).split(' ').filter(Boolean);
+      if (!expected.length) return 0;
+      var right = expected.filter(function (word, i) { return given[i] === word; }).length;
+      return right / Math.max(expected.length, given.length);
+    }
+    return 0;
+  }
+
+  function grade() {
+    var earned = 0;
+    var possible = 0;
+    for (var i = 0; i < exercises.length; i++) {
+      var element = field(i);
+      if (!element) continue;
+      var result = score(exercises[i], element);
+      earned += result * exercises[i].points;
+      possible += exercises[i].points;
+      element.className = 'exercise ' + (result === 1 ? 'correct' : result > 0 ? 'partial' : 'incorrect');
+    }
+    return possible > 0 ? Math.round((earned / possible) * 100) : null;
+  }
+
+  function finish() {
+    var percent = grade();
+    finished = true;
+    reportResult(percent);
+    var result = document.getElementById('result');
+    if (result) {
+      result.textContent = percent === null
+        ? config.messages.completed
+        : config.messages.score.replace('{score}', percent) + ' ' + (percent >= config.passingScore ? config.messages.passed : config.messages.failed);
+    }
+  }
+
+  start();
+  var button = document.getElementById('finish');
+  if (button) button.addEventListener('click', finish);
+  window.addEventListener('pagehide', terminate);
+  window.addEventListener('beforeunload', terminate);
+})();
+`;
+
+export const PACKAGE_STYLES_CSS = `body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #111827; line-height: 1.6; margin: 0; }
+main { max-width: 48rem; margin: 0 auto; padding: 1.5rem; }
+h1 { font-size: 1.75rem; margin-bottom: 0.25rem; }
+.subtitle { color: #4b5563; margin-top: 0; }
+section { margin: 2rem 0; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border-bottom: 1px solid #e5e7eb; padding: 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f9fafb; font-size: 0.85rem; text-transform: uppercase; color: #6b7280; }
+.ipa { color: #6b7280; font-size: 0.9em; }
+img.hero { max-width: 100%; border-radius: 0.5rem; }
+fieldset.exercise { border: 1px solid #d1d5db; border-radius: 0.5rem; margin: 1rem 0; padding: 1rem; }
+fieldset.correct { border-color: #16a34a; background: #f0fdf4; }
+fieldset.partial { border-color: #ca8a04; background: #fefce8; }
+fieldset.incorrect { border-color: #dc2626; background: #fef2f2; }
+legend { font-weight: 600; padding: 0 0.25rem; }
+label { display: block; margin: 0.25rem 0; }
+input[type="text"] { padding: 0.25rem 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem; }
+button#finish { background: #2563eb; color: #fff; border: 0; border-radius: 0.375rem; padding: 0.6rem 1.2rem; font-size: 1rem; cursor: pointer; }
+#result { font-weight: 600; margin-top: 1rem; }
+.note { color: #6b7280; font-style: italic; }
+`;
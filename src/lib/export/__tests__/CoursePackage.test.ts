@@ -0,0 +1,214 @@
+import { ZipArchive } from '../../import/ZipArchive';
+import {
+  buildCoursePackage,
+  loadPackageMedia,
+  mediaPackagePath,
+  packageFileName,
+  renderLessonPage
+} from '../CoursePackage';
+import { SCORM_RUNTIME_JS } from '../ScormRuntime';
+import { crc32 } from '../ZipWriter';
+import type { Course, Lesson } from '../../../types';
+
+const greetings: Lesson = {
+  slug: 'ia-ora-na',
+  level: 'Beginner',
+  title: { fr: 'Salutations', tah: 'Te aroha', en: 'Greetings' },
+  summary: 'Dire bonjour',
+  heroMediaId: 1,
+  sections: [
+    {
+      kind: 'Vocabulary',
+      title: 'Vocabulaire',
+      contentMd: '# Bonjour\n\nVoir [le lexique](https://example.com) ou [ceci](javascript:alert(1)).\n\n<script>alert(1)</script>',
+      vocab: [{ fr: 'Bonjour', tah: "Ia ora na", en: 'Hello', audioMediaId: 2 }]
+    },
+    {
+      kind: 'Assessment',
+      title: 'Évaluation',
+      exercises: [
+        {
+          type: 'MCQ',
+          prompt: 'Comment dit-on « merci » ?',
+          data: { question: 'Merci', options: ['Māuruuru', 'Nana'], correctIndex: 1 },
+          solution: { correctIndex: 0 }
+        },
+        {
+          type: 'FillBlank',
+          prompt: 'Complétez',
+          data: { text: '___ ora na', blanks: [{ position: 0, answer: 'Ia', alternatives: ["'Ia"] }] },
+          points: 30
+        },
+        { type: 'Pronunciation', prompt: 'Prononcez', data: { target: 'Ia ora na', threshold: 0.7 } }
+      ]
+    }
+  ]
+};
+
+const reading: Lesson = {
+  slug: 'ia-ora-na',
+  level: 'Beginner',
+  title: { fr: 'Lecture' },
+  summary: '',
+  sections: [{ kind: 'Culture', title: 'Culture', contentMd: 'Texte' }]
+};
+
+const course: Course = {
+  id: 7,
+  title: { fr: 'Tahitien pour débutants', en: 'Tahitian for beginners' },
+  description: 'Premiers pas',
+  level: 'Beginner',
+  category: 'language',
+  tags: [],
+  estimatedDuration: 60,
+  learningObjectives: [],
+  status: 'draft',
+  authorId: 1,
+  createdAt: 0,
+  updatedAt: 0,
+  version: 3,
+  lessons: [greetings, reading],
+  mediaAssets: [
+    { id: 1, kind: 'image', filePath: 'media/Hero Image.JPG' },
+    { id: 2, kind: 'audio', filePath: '/data/media/ia-ora-na.mp3' },
+    { id: 3, kind: 'audio', filePath: 'https://cdn.example.com/missing.mp3' }
+  ]
+};
+
+const media = new Map([
+  [1, new Uint8Array([1, 2, 3])],
+  [2, new Uint8Array([4, 5])]
+]);
+
+const readPackage = (format: 'scorm12' | 'scorm2004' | 'cc') =>
+  new ZipArchive(buildCoursePackage(course, format, media, new Date(2024, 0, 1)));
+
+describe('CoursePackage', () => {
+  it('lays out lesson pages, shared assets and media', () => {
+    const archive = readPackage('scorm12');
+
+    expect(archive.names).toEqual([
+      'imsmanifest.xml',
+      'lessons/01-ia-ora-na/index.html',
+      'lessons/02-ia-ora-na/index.html',
+      'shared/tahitispeak-runtime.js',
+      'shared/tahitispeak.css',
+      'media/1-hero-image.jpg',
+      'media/2-ia-ora-na.mp3'
+    ]);
+    expect(Array.from(archive.read('media/2-ia-ora-na.mp3') ?? [])).toEqual([4, 5]);
+    expect(archive.readText('shared/tahitispeak-runtime.js')).toBe(SCORM_RUNTIME_JS);
+  });
+
+  it('writes a SCORM 1.2 manifest with one SCO per lesson', () => {
+    const manifest = readPackage('scorm12').readText('imsmanifest.xml') ?? '';
+
+    expect(manifest).toContain('<schemaversion>1.2</schemaversion>');
+    expect(manifest).toContain('xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"');
+    expect(manifest.match(/adlcp:scormtype="sco"/g)).toHaveLength(2);
+    expect(manifest).toContain('href="lessons/02-ia-ora-na/index.html"');
+    expect(manifest).toContain('<file href="media/1-hero-image.jpg"/>');
+    // Only the lesson with scorable exercises has a mastery score
+    expect(manifest.match(/<adlcp:masteryscore>70<\/adlcp:masteryscore>/g)).toHaveLength(1);
+    expect(manifest).toContain('identifier="TAHITISPEAK-7-v3"');
+  });
+
+  it('writes SCORM 2004 and Common Cartridge manifests', () => {
+    const scorm2004 = readPackage('scorm2004').readText('imsmanifest.xml') ?? '';
+    expect(scorm2004).toContain('<schemaversion>2004 4th Edition</schemaversion>');
+    expect(scorm2004.match(/adlcp:scormType="sco"/g)).toHaveLength(2);
+    expect(scorm2004).toContain('<imsss:minNormalizedMeasure>0.7</imsss:minNormalizedMeasure>');
+
+    const cartridge = readPackage('cc').readText('imsmanifest.xml') ?? '';
+    expect(cartridge).toContain('xmlns="http://www.imsglobal.org/xsd/imsccv1p1/imscp_v1p1"');
+    expect(cartridge).toContain('structure="rooted-hierarchy"');
+    expect(cartridge).toContain('<lomimscc:string language="fr">Tahitien pour débutants</lomimscc:string>');
+    expect(cartridge).not.toContain('scormType');
+  });
+
+  it('renders lesson content safely and embeds resolved answer keys', () => {
+    const html = renderLessonPage(greetings, 'scorm12', new Map([[1, 'media/1-hero.jpg'], [2, 'media/2-audio.mp3']]));
+
+    expect(html).toContain('<h3>Bonjour</h3>');
+    expect(html).toContain('<a href="https://example.com" target="_blank" rel="noopener noreferrer">le lexique</a>');
+    expect(html).not.toContain('javascript:');
+    expect(html).not.toContain('<script>alert');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('src="../../media/2-audio.mp3"');
+    expect(html).toContain('<img class="hero" src="../../media/1-hero.jpg" alt="">');
+
+    const config = JSON.parse(/<script type="application\/json" id="tahitispeak-lesson">(.*?)<\/script>/.exec(html)?.[1] ?? '{}');
+    expect(config.standard).toBe('scorm12');
+    expect(config.passingScore).toBe(70);
+    expect(config.exercises).toEqual([
+      { type: 'MCQ', points: 10, correctIndex: 0 },
+      { type: 'FillBlank', points: 30, blanks: [{ answer: 'Ia', alternatives: ["'Ia"] }] }
+    ]);
+    expect(html).toContain('ne compte pas dans le score');
+  });
+
+  it('names packages and media files', () => {
+    expect(packageFileName(course, 'scorm2004')).toBe('tahitien-pour-debutants-scorm2004.zip');
+    expect(packageFileName(course, 'cc')).toBe('tahitien-pour-debutants-cc.imscc');
+    expect(mediaPackagePath({ id: 9, kind: 'audio', filePath: 'blob:http://localhost/4f0c' })).toBe('media/9-4f0c');
+  });
+
+  it('stores entries with their CRC', () => {
+    const bytes = buildCoursePackage(course, 'cc', media);
+    const view = new DataView(bytes.buffer);
+    const manifest = new ZipArchive(bytes).read('imsmanifest.xml') ?? new Uint8Array();
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(crc32(manifest));
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('loads media and reports assets that fail', async () => {
+    const fetcher = jest.fn(async (url: string) => {
+      if (url.includes('missing')) return { ok: false, status: 404 } as Response;
+      return { ok: true, arrayBuffer: async () => new Uint8Array([7]).buffer } as unknown as Response;
+    });
+
+    const { files, missing } = await loadPackageMedia(course.mediaAssets, fetcher as unknown as typeof fetch);
+
+    expect(fetcher).toHaveBeenCalledWith('/data/media/Hero Image.JPG');
+    expect([...files.keys()]).toEqual([1, 2]);
+    expect(missing.map(asset => asset.id)).toEqual([3]);
+  });
+});
+
+describe('SCORM runtime', () => {
+  it('grades the page and reports score and status to a SCORM 1.2 API', () => {
+    const values: Record<string, string> = { 'cmi.core.lesson_status': 'not attempted' };
+    const api = {
+      LMSInitialize: jest.fn(() => 'true'),
+      LMSGetValue: jest.fn((name: string) => values[name] ?? ''),
+      LMSSetValue: jest.fn((name: string, value: string) => {
+        values[name] = value;
+        return 'true';
+      }),
+      LMSCommit: jest.fn(() => 'true'),
+      LMSFinish: jest.fn(() => 'true')
+    };
+    (window as unknown as { API: typeof api }).API = api;
+
+    const html = renderLessonPage(greetings, 'scorm12', new Map());
+    document.body.innerHTML = /<body>([\s\S]*)<\/body>/.exec(html)?.[1].replace(/<script src=.*<\/script>/, '') ?? '';
+
+    new Function(SCORM_RUNTIME_JS)();
+    expect(api.LMSInitialize).toHaveBeenCalled();
+    expect(values['cmi.core.lesson_status']).toBe('incomplete');
+
+    (document.querySelector('input[name="exercise-0"][value="0"]') as HTMLInputElement).checked = true;
+    (document.querySelector('input[name="exercise-1-0"]') as HTMLInputElement).value = ' ʻia ';
+    (document.getElementById('finish') as HTMLButtonElement).click();
+
+    expect(values['cmi.core.score.raw']).toBe('100');
+    expect(values['cmi.core.lesson_status']).toBe('passed');
+    expect(document.getElementById('result')?.textContent).toContain('100 %');
+
+    window.dispatchEvent(new Event('pagehide'));
+    expect(api.LMSFinish).toHaveBeenCalledTimes(1);
+    expect(values['cmi.core.session_time']).toMatch(/^\d{4}:\d{2}:\d{2}$/);
+  });
+});
@@ -0,0 +1,319 @@
+// Streaks, XP, weekly goals and achievements derived from the learning activity log
+
+import { getDayKey } from '../../utils/localeFormatting';
+import { summarizeProgress } from '../progress/ProgressModel';
+import type {
+  ExerciseResult,
+  GamificationSettings,
+  LearningActivity,
+  Lesson,
+  LessonLevel,
+  UserProgress,
+  WeeklyGoals
+} from '../../types';
+
+export const DEFAULT_WEEKLY_GOALS: WeeklyGoals = {
+  lessons: 3,
+  xp: 300,
+  activeDays: 4
+};
+
+/**
+ * Extra XP for the run that first completes a section, on top of exercise points
+ */
+export const SECTION_COMPLETION_XP = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StreakSummary {
+  /** Consecutive active days ending today, or yesterday if today has no activity yet */
+  current: number;
+  longest: number;
+  activeToday: boolean;
+  lastActiveDay: string | null;
+}
+
+export interface WeeklyGoalProgress {
+  goal: keyof WeeklyGoals;
+  target: number;
+  current: number;
+  /** Monday and Sunday of the current week, as `YYYY-MM-DD` */
+  weekStart: string;
+  weekEnd: string;
+}
+
+export type AchievementRule =
+  | { type: 'lessonsCompleted'; count: number; level?: LessonLevel }
+  | { type: 'streak'; days: number }
+  | { type: 'totalXp'; xp: number }
+  | { type: 'perfectSections'; count: number };
+
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  rule: AchievementRule;
+}
+
+export interface AchievementStatus extends AchievementDefinition {
+  current: number;
+  target: number;
+  unlocked: boolean;
+  unlockedAt?: number;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first-lesson',
+    title: 'First Steps',
+    description: 'Complete your first lesson',
+    icon: '🎯',
+    rule: { type: 'lessonsCompleted', count: 1 }
+  },
+  {
+    id: 'beginner-5',
+    title: 'Solid Foundations',
+    description: 'Complete 5 Beginner lessons',
+    icon: '🌱',
+    rule: { type: 'lessonsCompleted', count: 5, level: 'Beginner' }
+  },
+  {
+    id: 'intermediate-5',
+    title: 'Conversationalist',
+    description: 'Complete 5 Intermediate lessons',
+    icon: '💬',
+    rule: { type: 'lessonsCompleted', count: 5, level: 'Intermediate' }
+  },
+  {
+    id: 'streak-7',
+    title: 'Week Warrior',
+    description: 'Study 7 days in a row',
+    icon: '🔥',
+    rule: { type: 'streak', days: 7 }
+  },
+  {
+    id: 'streak-30',
+    title: 'Island Time',
+    description: 'Study 30 days in a row',
+    icon: '🌺',
+    rule: { type: 'streak', days: 30 }
+  },
+  {
+    id: 'xp-1000',
+    title: '1000 XP',
+    description: 'Earn 1000 XP',
+    icon: '⚡',
+    rule: { type: 'totalXp', xp: 1000 }
+  },
+  {
+    id: 'perfect-score',
+    title: 'Perfect Score',
+    description: 'Get 100% on a practice or assessment',
+    icon: '⭐',
+    rule: { type: 'perfectSections', count: 1 }
+  }
+];
+
+export interface GamificationInput {
+  lessons: Lesson[];
+  progress: UserProgress[];
+  activities: LearningActivity[];
+  settings: GamificationSettings;
+  timeZone: string;
+  now?: number;
+}
+
+export interface GamificationSummary {
+  totalXp: number;
+  weeklyXp: number;
+  streak: StreakSummary;
+  weeklyGoals: WeeklyGoalProgress[];
+  achievements: AchievementStatus[];
+  /** Achievements unlocked by this evaluation, not yet recorded in the settings */
+  newlyUnlocked: AchievementStatus[];
+}
+
+export function defaultGamificationSettings(userId: string, now: number = Date.now()): GamificationSettings {
+  return {
+    userId,
+    weeklyGoals: { ...DEFAULT_WEEKLY_GOALS },
+    unlockedAchievements: {},
+    updatedAt: now
+  };
+}
+
+/**
+ * XP for one exercise run: the points awarded, plus a bonus when the run
+ * completes the section for the first time
+ */
+export function activityXp(results: ExerciseResult[], firstCompletion: boolean): number {
+  const points = results.reduce((sum, result) => sum + result.pointsAwarded, 0);
+  return points + (firstCompletion ? SECTION_COMPLETION_XP : 0);
+}
+
+export function createLearningActivity(
+  progress: UserProgress,
+  results: ExerciseResult[],
+  previous?: UserProgress
+): LearningActivity {
+  const possible = results.reduce((sum, result) => sum + result.pointsPossible, 0);
+  const awarded = results.reduce((sum, result) => sum + result.pointsAwarded, 0);
+
+  return {
+    id: `${progress.userId}:${progress.lessonId}:${progress.sectionKind}:${progress.updatedAt}`,
+    userId: progress.userId,
+    lessonId: progress.lessonId,
+    sectionKind: progress.sectionKind,
+    xp: activityXp(results, progress.completed && !previous?.completed),
+    score: possible > 0 ? Math.round((awarded / possible) * 100) : 0,
+    completed: progress.completed,
+    occurredAt: progress.updatedAt
+  };
+}
+
+function shiftDayKey(dayKey: string, days: number): string {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekBounds(now: number, timeZone: string): { weekStart: string; weekEnd: string } {
+  const today = getDayKey(now, timeZone);
+  const [year, month, day] = today.split('-').map(Number);
+  // Weeks start on Monday
+  const daysSinceMonday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+  const weekStart = shiftDayKey(today, -daysSinceMonday);
+  return { weekStart, weekEnd: shiftDayKey(weekStart, 6) };
+}
+
+/**
+ * Streaks count calendar days in `timeZone`, so a session at 23:30 and one at
+ * 00:15 are two consecutive days wherever the learner is
+ */
+export function computeStreak(
+  activities: LearningActivity[],
+  timeZone: string,
+  now: number = Date.now()
+): StreakSummary {
+  const days = Array.from(new Set(activities.map(activity => getDayKey(activity.occurredAt, timeZone)))).sort();
+  if (days.length === 0) {
+    return { current: 0, longest: 0, activeToday: false, lastActiveDay: null };
+  }
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = shiftDayKey(days[i - 1], 1) === days[i] ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const today = getDayKey(now, timeZone);
+  const lastActiveDay = days[days.length - 1];
+  const activeToday = lastActiveDay === today;
+  // `run` is the length of the streak ending on the last active day
+  const current = activeToday || lastActiveDay === shiftDayKey(today, -1) ? run : 0;
+
+  return { current, longest, activeToday, lastActiveDay };
+}
+
+export function computeWeeklyGoals(
+  activities: LearningActivity[],
+  goals: WeeklyGoals,
+  timeZone: string,
+  now: number = Date.now()
+): WeeklyGoalProgress[] {
+  const { weekStart, weekEnd } = weekBounds(now, timeZone);
+  const thisWeek = activities.filter(activity => {
+    const day = getDayKey(activity.occurredAt, timeZone);
+    return day >= weekStart && day <= weekEnd;
+  });
+
+  const current: WeeklyGoals = {
+    lessons: new Set(thisWeek.filter(activity => activity.completed).map(activity => activity.lessonId)).size,
+    xp: thisWeek.reduce((sum, activity) => sum + activity.xp, 0),
+    activeDays: new Set(thisWeek.map(activity => getDayKey(activity.occurredAt, timeZone))).size
+  };
+
+  return (Object.keys(goals) as (keyof WeeklyGoals)[]).map(goal => ({
+    goal,
+    target: goals[goal],
+    current: current[goal],
+    weekStart,
+    weekEnd
+  }));
+}
+
+interface RuleContext {
+  completedLessons: Lesson[];
+  progress: UserProgress[];
+  streak: StreakSummary;
+  totalXp: number;
+}
+
+function evaluateRule(rule: AchievementRule, context: RuleContext): { current: number; target: number } {
+  switch (rule.type) {
+    case 'lessonsCompleted':
+      return {
+        current: context.completedLessons.filter(lesson => !rule.level || lesson.level === rule.level).length,
+        target: rule.count
+      };
+    case 'streak':
+      return { current: context.streak.longest, target: rule.days };
+    case 'totalXp':
+      return { current: context.totalXp, target: rule.xp };
+    case 'perfectSections':
+      return { current: context.progress.filter(p => p.score >= 100).length, target: rule.count };
+  }
+}
+
+/**
+ * Evaluates every achievement rule. Achievements stay unlocked once recorded in
+ * `unlockedAchievements`, even if the underlying numbers later change.
+ */
+export function evaluateAchievements(
+  definitions: AchievementDefinition[],
+  context: RuleContext,
+  unlockedAchievements: Record<string, number>,
+  now: number = Date.now()
+): AchievementStatus[] {
+  return definitions.map(definition => {
+    const { current, target } = evaluateRule(definition.rule, context);
+    const unlockedAt = unlockedAchievements[definition.id] ?? (current >= target ? now : undefined);
+
+    return {
+      ...definition,
+      current: Math.min(current, target),
+      target,
+      unlocked: unlockedAt !== undefined,
+      unlockedAt
+    };
+  });
+}
+
+export function buildGamificationSummary(
+  input: GamificationInput,
+  definitions: AchievementDefinition[] = ACHIEVEMENTS
+): GamificationSummary {
+  const { lessons, progress, activities, settings, timeZone, now = Date.now() } = input;
+  const overview = summarizeProgress(lessons, progress);
+  const completedLessons = lessons.filter((_, index) => overview.lessons[index].completed);
+
+  const totalXp = activities.reduce((sum, activity) => sum + activity.xp, 0);
+  const streak = computeStreak(activities, timeZone, now);
+  const weeklyGoals = computeWeeklyGoals(activities, settings.weeklyGoals, timeZone, now);
+  const achievements = evaluateAchievements(
+    definitions,
+    { completedLessons, progress, streak, totalXp },
+    settings.unlockedAchievements,
+    now
+  );
+
+  return {
+    totalXp,
+    weeklyXp: weeklyGoals.find(goal => goal.goal === 'xp')?.current ?? 0,
+    streak,
+    weeklyGoals,
+    achievements,
+    newlyUnlocked: achievements.filter(a => a.unlocked && settings.unlockedAchievements[a.id] === undefined)
+  };
+}
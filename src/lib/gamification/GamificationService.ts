@@ -0,0 +1,99 @@
+// Learning activity log, weekly goal settings and achievement unlocks backed by
+// the IndexedDB activity and gamification stores
+
+import { indexedDBService } from '../data/IndexedDBService';
+import {
+  buildGamificationSummary,
+  createLearningActivity,
+  defaultGamificationSettings,
+  type GamificationSummary
+} from './Gamification';
+import type {
+  ExerciseResult,
+  GamificationSettings,
+  LearningActivity,
+  Lesson,
+  UserProgress,
+  WeeklyGoals
+} from '../../types';
+
+export class GamificationService {
+  private static instance: GamificationService;
+
+  private constructor() {}
+
+  static getInstance(): GamificationService {
+    if (!GamificationService.instance) {
+      GamificationService.instance = new GamificationService();
+    }
+    return GamificationService.instance;
+  }
+
+  /**
+   * Logs a finished exercise run. `previous` is the section's progress before
+   * the run, used to award the first-completion bonus only once.
+   */
+  async recordActivity(
+    progress: UserProgress,
+    results: ExerciseResult[],
+    previous?: UserProgress
+  ): Promise<LearningActivity> {
+    await indexedDBService.initialize();
+
+    const activity = createLearningActivity(progress, results, previous);
+    await indexedDBService.saveLearningActivities([activity]);
+    return activity;
+  }
+
+  async getActivities(userId: string): Promise<LearningActivity[]> {
+    await indexedDBService.initialize();
+
+    const activities = await indexedDBService.getLearningActivities(userId);
+    return activities.sort((a, b) => b.occurredAt - a.occurredAt);
+  }
+
+  async getSettings(userId: string): Promise<GamificationSettings> {
+    await indexedDBService.initialize();
+
+    return (await indexedDBService.getGamificationSettings(userId)) ?? defaultGamificationSettings(userId);
+  }
+
+  async updateWeeklyGoals(userId: string, goals: WeeklyGoals): Promise<GamificationSettings> {
+    const invalid = (Object.keys(goals) as (keyof WeeklyGoals)[])
+      .filter(goal => !Number.isInteger(goals[goal]) || goals[goal] < 1);
+    if (invalid.length > 0) {
+      throw new Error(`Weekly goals must be whole numbers of at least 1: ${invalid.join(', ')}`);
+    }
+
+    const settings = { ...(await this.getSettings(userId)), weeklyGoals: { ...goals }, updatedAt: Date.now() };
+    await indexedDBService.saveGamificationSettings(settings);
+    return settings;
+  }
+
+  /**
+   * Streak, XP, weekly goals and achievements for the user. Newly unlocked
+   * achievements are recorded so they keep their unlock date.
+   */
+  async getSummary(
+    userId: string,
+    lessons: Lesson[],
+    progress: UserProgress[],
+    timeZone: string,
+    now: number = Date.now()
+  ): Promise<GamificationSummary> {
+    const [activities, settings] = await Promise.all([this.getActivities(userId), this.getSettings(userId)]);
+    const summary = buildGamificationSummary({ lessons, progress, activities, settings, timeZone, now });
+
+    if (summary.newlyUnlocked.length > 0) {
+      const unlockedAchievements = { ...settings.unlockedAchievements };
+      summary.newlyUnlocked.forEach(achievement => {
+        unlockedAchievements[achievement.id] = achievement.unlockedAt ?? now;
+      });
+      await indexedDBService.saveGamificationSettings({ ...settings, unlockedAchievements, updatedAt: now });
+    }
+
+    return summary;
+  }
+}
+
+export const gamificationService = GamificationService.getInstance();
@@ -0,0 +1,135 @@
+import {
+  ACHIEVEMENTS,
+  SECTION_COMPLETION_XP,
+  buildGamificationSummary,
+  computeStreak,
+  computeWeeklyGoals,
+  createLearningActivity,
+  defaultGamificationSettings
+} from '../Gamification';
+import type { ExerciseResult, LearningActivity, Lesson, UserProgress } from '../../../types';
+
+const TAHITI = 'Pacific/Tahiti'; // UTC-10
+
+const at = (iso: string) => new Date(iso).getTime();
+
+const activity = (occurredAt: number, overrides: Partial<LearningActivity> = {}): LearningActivity => ({
+  id: `a-${occurredAt}`,
+  userId: 'user-1',
+  lessonId: 1,
+  sectionKind: 'Practice',
+  xp: 10,
+  score: 80,
+  completed: false,
+  occurredAt,
+  ...overrides
+});
+
+const result = (pointsAwarded: number, pointsPossible = 10): ExerciseResult => ({
+  exerciseIndex: 0,
+  type: 'MCQ',
+  correct: pointsAwarded === pointsPossible,
+  score: pointsAwarded / pointsPossible,
+  pointsAwarded,
+  pointsPossible
+});
+
+const progress = (overrides: Partial<UserProgress> = {}): UserProgress => ({
+  userId: 'user-1',
+  lessonId: 1,
+  sectionKind: 'Practice',
+  completed: true,
+  score: 100,
+  attempts: 1,
+  updatedAt: at('2024-03-06T20:00:00Z'),
+  ...overrides
+});
+
+describe('Gamification', () => {
+  it('awards exercise points plus a bonus only for the first completion', () => {
+    const first = createLearningActivity(progress(), [result(10), result(5)]);
+    expect(first.xp).toBe(15 + SECTION_COMPLETION_XP);
+    expect(first.score).toBe(75);
+
+    const again = createLearningActivity(progress(), [result(10)], progress());
+    expect(again.xp).toBe(10);
+  });
+
+  it('counts streak days in the learner timezone', () => {
+    // 09:00 UTC on the 6th is still the 5th in Tahiti
+    const activities = [
+      activity(at('2024-03-04T20:00:00Z')),
+      activity(at('2024-03-06T09:00:00Z')),
+      activity(at('2024-03-06T20:00:00Z'))
+    ];
+
+    expect(computeStreak(activities, TAHITI, at('2024-03-06T21:00:00Z'))).toEqual({
+      current: 3,
+      longest: 3,
+      activeToday: true,
+      lastActiveDay: '2024-03-06'
+    });
+    expect(computeStreak(activities, 'UTC', at('2024-03-06T21:00:00Z'))).toEqual({
+      current: 1,
+      longest: 1,
+      activeToday: true,
+      lastActiveDay: '2024-03-06'
+    });
+  });
+
+  it('keeps the streak alive until the end of the next day', () => {
+    const activities = [activity(at('2024-03-05T20:00:00Z')), activity(at('2024-03-06T20:00:00Z'))];
+
+    expect(computeStreak(activities, TAHITI, at('2024-03-07T20:00:00Z')).current).toBe(2);
+    expect(computeStreak(activities, TAHITI, at('2024-03-08T20:00:00Z')).current).toBe(0);
+    expect(computeStreak(activities, TAHITI, at('2024-03-08T20:00:00Z')).longest).toBe(2);
+  });
+
+  it('measures weekly goals from Monday in the learner timezone', () => {
+    // Wednesday 6 March 2024; the week runs from Monday 4 to Sunday 10
+    const activities = [
+      activity(at('2024-03-04T08:00:00Z'), { xp: 50, completed: true }), // Sunday 3rd in Tahiti
+      activity(at('2024-03-04T20:00:00Z'), { xp: 30, completed: true }),
+      activity(at('2024-03-05T20:00:00Z'), { xp: 20, lessonId: 2 }),
+      activity(at('2024-03-06T20:00:00Z'), { xp: 40, lessonId: 2, completed: true })
+    ];
+
+    const goals = computeWeeklyGoals(activities, { lessons: 3, xp: 100, activeDays: 4 }, TAHITI, at('2024-03-06T21:00:00Z'));
+
+    expect(goals).toEqual([
+      { goal: 'lessons', target: 3, current: 2, weekStart: '2024-03-04', weekEnd: '2024-03-10' },
+      { goal: 'xp', target: 100, current: 90, weekStart: '2024-03-04', weekEnd: '2024-03-10' },
+      { goal: 'activeDays', target: 4, current: 3, weekStart: '2024-03-04', weekEnd: '2024-03-10' }
+    ]);
+  });
+
+  it('evaluates declarative achievement rules and keeps recorded unlocks', () => {
+    const lesson: Lesson = {
+      id: 1,
+      slug: 'greetings',
+      level: 'Beginner',
+      title: { fr: 'Salutations' },
+      summary: '',
+      sections: [{ kind: 'Practice', title: 'Pratique', exercises: [{ type: 'MCQ', prompt: 'Ia ora na', data: {} }] }]
+    };
+    const now = at('2024-03-06T21:00:00Z');
+    const settings = { ...defaultGamificationSettings('user-1', now), unlockedAchievements: { 'streak-7': 1000 } };
+
+    const summary = buildGamificationSummary({
+      lessons: [lesson],
+      progress: [progress()],
+      activities: [activity(at('2024-03-06T20:00:00Z'), { xp: 30, completed: true })],
+      settings,
+      timeZone: TAHITI,
+      now
+    }, ACHIEVEMENTS);
+
+    const byId = Object.fromEntries(summary.achievements.map(a => [a.id, a]));
+    expect(summary.totalXp).toBe(30);
+    expect(byId['first-lesson']).toMatchObject({ unlocked: true, unlockedAt: now, current: 1, target: 1 });
+    expect(byId['perfect-score'].unlocked).toBe(true);
+    expect(byId['beginner-5']).toMatchObject({ unlocked: false, current: 1, target: 5 });
+    expect(byId['streak-7']).toMatchObject({ unlocked: true, unlockedAt: 1000, current: 1 });
+    expect(summary.newlyUnlocked.map(a => a.id)).toEqual(['first-lesson', 'perfect-score']);
+  });
+});
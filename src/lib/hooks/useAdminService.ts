@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { LocalDataService } from '@/lib/data/DataService';
 import type { Course, AdminDashboardStats, AdminActivityLog } from '@/types';
 
@@ -10,7 +10,8 @@ export function useAdminService() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handleAsync = async <T>(operation: () => Promise<T>): Promise<T | null> => {
+  // Stable across renders, so pages can list these in effect dependencies
+  const handleAsync = useCallback(async <T>(operation: () => Promise<T>): Promise<T | null> => {
     setIsLoading(true);
     setError(null);
     
@@ -25,53 +26,57 @@ export function useAdminService() {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, []);
 
-  const createCourse = async (courseData: Omit<Course, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const createCourse = useCallback(async (courseData: Omit<Course, 'id' | 'createdAt' | 'updatedAt'>) => {
     return handleAsync(() => dataService.createCourse(courseData));
-  };
+  }, [handleAsync]);
 
-  const updateCourse = async (id: number, updates: Partial<Course>) => {
+  const updateCourse = useCallback(async (id: number, updates: Partial<Course>) => {
     return handleAsync(() => dataService.updateCourse(id, updates));
-  };
+  }, [handleAsync]);
 
-  const deleteCourse = async (id: number) => {
+  const deleteCourse = useCallback(async (id: number) => {
     return handleAsync(() => dataService.deleteCourse(id));
-  };
+  }, [handleAsync]);
 
-  const getCourses = async (filters?: { level?: string; category?: string; status?: string }) => {
+  const getCourses = useCallback(async (filters?: { level?: string; category?: string; status?: string }) => {
     return handleAsync(() => dataService.getCourses(filters));
-  };
+  }, [handleAsync]);
 
-  const getCourse = async (id: number) => {
+  const getCourse = useCallback(async (id: number) => {
     return handleAsync(() => dataService.getCourse(id));
-  };
+  }, [handleAsync]);
 
-  const bulkImportCourses = async (courses: Omit<Course, 'id' | 'createdAt' | 'updatedAt'>[]) => {
+  const bulkImportCourses = useCallback(async (courses: Omit<Course, 'id' | 'createdAt' | 'updatedAt'>[]) => {
     return handleAsync(() => dataService.bulkImportCourses(courses));
-  };
+  }, [handleAsync]);
 
-  const searchCourses = async (query: string) => {
+  const searchCourses = useCallback(async (query: string) => {
     return handleAsync(() => dataService.searchCourses(query));
-  };
+  }, [handleAsync]);
 
-  const getAdminStats = async () => {
+  const getAdminStats = useCallback(async () => {
     return handleAsync(() => dataService.getAdminStats());
-  };
+  }, [handleAsync]);
 
-  const getActivityLogs = async (limit?: number) => {
+  const getActivityLogs = useCallback(async (limit?: number) => {
     return handleAsync(() => dataService.getActivityLogs(limit));
-  };
+  }, [handleAsync]);
+
+  const getCourseVersions = useCallback(async (courseId: number) => {
+    return handleAsync(() => dataService.getCourseVersions(courseId));
+  }, [handleAsync]);
 
-  const createCourseVersion = async (courseId: number, version: number) => {
+  const createCourseVersion = useCallback(async (courseId: number, version: number) => {
     return handleAsync(() => dataService.createCourseVersion(courseId, version));
-  };
+  }, [handleAsync]);
 
-  const restoreCourseVersion = async (courseId: number, version: number) => {
+  const restoreCourseVersion = useCallback(async (courseId: number, version: number) => {
     return handleAsync(() => dataService.restoreCourseVersion(courseId, version));
-  };
+  }, [handleAsync]);
 
-  const uploadMedia = async (file: File, type: 'audio' | 'image' | 'video') => {
+  const uploadMedia = useCallback(async (file: File, type: 'audio' | 'image' | 'video') => {
     return handleAsync(async () => {
       // Simulate upload delay
       await new Promise(resolve => setTimeout(resolve, 1000));
@@ -83,9 +88,9 @@ export function useAdminService() {
       
       return `/media/${type}s/${filename}`;
     });
-  };
+  }, [handleAsync]);
 
-  const clearError = () => setError(null);
+  const clearError = useCallback(() => setError(null), []);
 
   return {
     // State
@@ -106,6 +111,7 @@ export function useAdminService() {
     getActivityLogs,
     
     // Versioning
+    getCourseVersions,
     createCourseVersion,
     restoreCourseVersion,
     
@@ -0,0 +1,119 @@
+'use client';
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import authService from '@/services/AuthService';
+import { CollaborationClient } from '@/lib/collaboration/CollaborationClient';
+import { connectCollaboration, type CollaborationConnection } from '@/lib/collaboration/CollaborationConnection';
+import type { PresenceInfo } from '@/lib/collaboration/CollaborationProtocol';
+import { diffToOperation, transformIndex } from '@/lib/collaboration/TextOperation';
+
+export type CollaborationStatus = 'offline' | 'connecting' | 'live';
+
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+/**
+ * Shares a text field with everyone who has the same room open. The room's
+ * text replaces `value` on connect and whenever someone else edits;
+ * `onRemoteChange` receives it. Attach `textareaRef` to keep the caret in
+ * place when others type. Without a room id this does nothing and the field
+ * works as before.
+ */
+export function useCollaborativeText(roomId: string | undefined, value: string, onRemoteChange: (text: string) => void) {
+  const [status, setStatus] = useState<CollaborationStatus>('offline');
+  const [collaborators, setCollaborators] = useState<PresenceInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const clientRef = useRef<CollaborationClient | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const caretRef = useRef<[number, number] | null>(null);
+  const valueRef = useRef(value);
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  valueRef.current = value;
+  onRemoteChangeRef.current = onRemoteChange;
+
+  useEffect(() => {
+    const authHeader = authService.getAuthHeader();
+    if (!roomId || !authHeader) return;
+
+    let connection: CollaborationConnection | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let stopped = false;
+
+    const connect = () => {
+      setStatus('connecting');
+      const client = new CollaborationClient({
+        send: message => connection?.send(message) ?? Promise.resolve(),
+        onDocument: text => {
+          setStatus('live');
+          setError(null);
+          attempts = 0;
+          if (text === valueRef.current) return;
+          const element = textareaRef.current;
+          if (element && element === document.activeElement) {
+            const operation = diffToOperation(element.value, text);
+            caretRef.current = [transformIndex(element.selectionStart, operation), transformIndex(element.selectionEnd, operation)];
+          }
+          onRemoteChangeRef.current(text);
+        },
+        onParticipants: setCollaborators,
+        // A rejected edit means this copy has drifted; start over from the room's text
+        onError: err => {
+          setError(err.message);
+          connection?.close();
+          scheduleReconnect();
+        }
+      });
+      clientRef.current = client;
+      connection = connectCollaboration({
+        roomId,
+        document: valueRef.current,
+        headers: { Authorization: authHeader },
+        onMessage: message => client.receive(message),
+        onClose: err => {
+          if (!err) return;
+          setError(err.message);
+          scheduleReconnect();
+        }
+      });
+    };
+
+    const scheduleReconnect = () => {
+      if (stopped) return;
+      clientRef.current = null;
+      setStatus('offline');
+      setCollaborators([]);
+      clearTimeout(reconnectTimer);
+      reconnectTimer = setTimeout(connect, Math.min(1000 * 2 ** attempts++, MAX_RECONNECT_DELAY_MS));
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      connection?.close();
+      clientRef.current = null;
+      setStatus('offline');
+      setCollaborators([]);
+    };
+  }, [roomId]);
+
+  // Setting the value moves the caret to the end; put it back once rendered
+  useLayoutEffect(() => {
+    const caret = caretRef.current;
+    if (!caret || !textareaRef.current) return;
+    caretRef.current = null;
+    textareaRef.current.setSelectionRange(caret[0], caret[1]);
+  });
+
+  /** Call with the field's new text on every local change */
+  const edit = useCallback((text: string) => {
+    clientRef.current?.edit(text);
+  }, []);
+
+  /** Call when the caret or selection moves */
+  const select = useCallback((anchor: number, head: number) => {
+    clientRef.current?.select({ anchor, head });
+  }, []);
+
+  return { status, collaborators, error, textareaRef, edit, select };
+}
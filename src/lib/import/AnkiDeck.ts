@@ -0,0 +1,153 @@
+// Reads notes out of Anki exports: .apkg packages (a zip holding the SQLite
+// collection) and "Notes in Plain Text" .txt/.tsv exports with their
+// `#separator:` / `#columns:` header lines.
+
+import { parseDelimited } from './Spreadsheet';
+import { SqliteDatabase } from './SqliteDatabase';
+import { ZipArchive, ZipFormatError } from './ZipArchive';
+
+export interface AnkiNote {
+  /** 1-based note number in the package, or line number in a text export */
+  row: number;
+  deck: string;
+  fieldNames: string[];
+  fields: string[];
+  tags: string[];
+}
+
+/** Anki separates note fields with the unit separator character */
+const FIELD_SEPARATOR = '\x1f';
+
+const TEXT_SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  space: ' ',
+  pipe: '|',
+  colon: ':'
+};
+
+interface AnkiModel {
+  name?: string;
+  flds?: Array<{ name: string; ord: number }>;
+}
+
+function parseJsonColumn<T>(value: unknown): Record<string, T> {
+  if (typeof value !== 'string') return {};
+  try {
+    return JSON.parse(value) as Record<string, T>;
+  } catch {
+    return {};
+  }
+}
+
+const splitTags = (tags: string) => tags.split(/\s+/).filter(Boolean);
+
+/**
+ * Notes of an .apkg package. Packages from Anki 2.1.50+ keep a legacy
+ * collection next to the new one only when exported with "Support older Anki
+ * versions"; the zstd-compressed format is not readable here.
+ */
+export function readAnkiPackage(bytes: Uint8Array): AnkiNote[] {
+  const archive = new ZipArchive(bytes);
+  // collection.anki2 is a stub telling old clients to upgrade when anki21 is present
+  const collection = archive.read('collection.anki21') ?? archive.read('collection.anki2');
+  if (!collection) {
+    if (archive.has('collection.anki21b')) {
+      throw new ZipFormatError('This deck uses the newest Anki format. Export it again with "Support older Anki versions" checked.');
+    }
+    throw new ZipFormatError('Not an Anki package: collection.anki2 is missing');
+  }
+
+  const database = new SqliteDatabase(collection);
+  const [col] = database.readTable('col');
+  const models = parseJsonColumn<AnkiModel>(col?.models);
+  const decks = parseJsonColumn<{ name?: string }>(col?.decks);
+
+  const deckByNote = new Map<number, string>();
+  for (const card of database.readTable('cards')) {
+    const noteId = Number(card.nid);
+    if (!deckByNote.has(noteId)) deckByNote.set(noteId, decks[String(card.did)]?.name ?? 'Default');
+  }
+
+  return database.readTable('notes')
+    .sort((a, b) => Number(a.id) - Number(b.id))
+    .map((note, index) => {
+      const fields = String(note.flds ?? '').split(FIELD_SEPARATOR);
+      const model = models[String(note.mid)];
+      const fieldNames = [...(model?.flds ?? [])].sort((a, b) => a.ord - b.ord).map(field => field.name);
+      return {
+        row: index + 1,
+        deck: deckByNote.get(Number(note.id)) ?? 'Default',
+        fieldNames,
+        fields,
+        tags: splitTags(String(note.tags ?? ''))
+      };
+    });
+}
+
+/** True when a text file starts with the header lines of an Anki export */
+export function isAnkiText(text: string): boolean {
+  return /^\uFEFF?#(separator|html|columns|deck|notetype|tags)/i.test(text);
+}
+
+/**
+ * Notes of a plain-text export. Header lines name the separator, the field
+ * columns and which columns hold the deck and tags; without them every column
+ * is a field of the "Default" deck.
+ */
+export function parseAnkiText(text: string): AnkiNote[] {
+  const headers = new Map<string, string>();
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let headerLines = 0;
+  for (const line of lines) {
+    const match = /^#([^:]+):(.*)$/.exec(line);
+    if (!match) break;
+    headers.set(match[1].trim().toLowerCase(), match[2]);
+    headerLines++;
+  }
+
+  const separatorName = headers.get('separator')?.trim().toLowerCase() ?? 'tab';
+  const separator = TEXT_SEPARATORS[separatorName] ?? separatorName;
+  const columnIndex = (name: string) => {
+    const column = Number(headers.get(`${name} column`));
+    return Number.isInteger(column) && column > 0 ? column - 1 : -1;
+  };
+  const deckColumn = columnIndex('deck');
+  const tagsColumn = columnIndex('tags');
+  const notetypeColumn = columnIndex('notetype');
+  const guidColumn = columnIndex('guid');
+  const metaColumns = new Set([deckColumn, tagsColumn, notetypeColumn, guidColumn]);
+
+  const columnNames = headers.get('columns')?.split(separator).map(name => name.trim()) ?? [];
+  const fieldNames = columnNames.filter((_, index) => !metaColumns.has(index));
+
+  return parseDelimited(lines.slice(headerLines).join('\n'), separator).map(({ row, cells }) => ({
+    row: row + headerLines,
+    deck: (deckColumn >= 0 && cells[deckColumn]?.trim()) || 'Default',
+    fieldNames,
+    fields: cells.filter((_, index) => !metaColumns.has(index)),
+    tags: tagsColumn >= 0 ? splitTags(cells[tagsColumn] ?? '') : []
+  }));
+}
+
+/**
+ * Plain text of a note field: HTML is flattened and sound references are
+ * dropped. `hadMedia` tells the caller that audio or images were left behind.
+ */
+export function cleanAnkiField(html: string): { text: string; hadMedia: boolean } {
+  const hadMedia = /\[sound:[^\]]*\]|<img\b/i.test(html);
+  const text = html
+    .replace(/\[sound:[^\]]*\]/gi, '')
+    .replace(/<br\s*\/?>|<\/div>|<\/p>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&amp;/gi, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return { text, hadMedia };
+}
@@ -0,0 +1,166 @@
+// Server-side storage for bulk import jobs and their dry-run reports
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BulkImportJob } from '../../types';
+
+export interface ImportJobStore {
+  create(job: BulkImportJob): Promise<void>;
+  get(id: string): Promise<BulkImportJob | null>;
+  update(id: string, changes: Partial<BulkImportJob>): Promise<void>;
+  /** Most recent jobs of one user, newest first */
+  list(createdBy: string, limit: number): Promise<BulkImportJob[]>;
+  /**
+   * Sets `committedAt` unless the job was already committed. Returns false for
+   * a second commit so a report is never saved twice.
+   */
+  markCommitted(id: string, committedAt: number): Promise<boolean>;
+}
+
+function cloneJob(job: BulkImportJob): BulkImportJob {
+  return JSON.parse(JSON.stringify(job)) as BulkImportJob;
+}
+
+/**
+ * Process-local store for development and tests
+ */
+export class MemoryImportJobStore implements ImportJobStore {
+  private jobs = new Map<string, BulkImportJob>();
+
+  async create(job: BulkImportJob): Promise<void> {
+    this.jobs.set(job.id, cloneJob(job));
+  }
+
+  async get(id: string): Promise<BulkImportJob | null> {
+    const job = this.jobs.get(id);
+    return job ? cloneJob(job) : null;
+  }
+
+  async update(id: string, changes: Partial<BulkImportJob>): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) this.jobs.set(id, cloneJob({ ...job, ...changes }));
+  }
+
+  async list(createdBy: string, limit: number): Promise<BulkImportJob[]> {
+    return [...this.jobs.values()]
+      .filter(job => job.createdBy === createdBy)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, limit)
+      .map(cloneJob);
+  }
+
+  async markCommitted(id: string, committedAt: number): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || job.committedAt !== undefined) return false;
+    job.committedAt = committedAt;
+    return true;
+  }
+}
+
+interface ImportJobRow {
+  id: string;
+  filename: string;
+  status: BulkImportJob['status'];
+  total_items: number;
+  processed_items: number;
+  errors: string[] | null;
+  created_at: number;
+  completed_at: number | null;
+  created_by: string;
+  format: BulkImportJob['format'] | null;
+  report: BulkImportJob['report'] | null;
+  committed_at: number | null;
+}
+
+const COLUMNS: Array<[keyof BulkImportJob, keyof ImportJobRow]> = [
+  ['id', 'id'],
+  ['filename', 'filename'],
+  ['status', 'status'],
+  ['totalItems', 'total_items'],
+  ['processedItems', 'processed_items'],
+  ['errors', 'errors'],
+  ['createdAt', 'created_at'],
+  ['completedAt', 'completed_at'],
+  ['createdBy', 'created_by'],
+  ['format', 'format'],
+  ['report', 'report'],
+  ['committedAt', 'committed_at']
+];
+
+function toRow(job: Partial<BulkImportJob>): Partial<ImportJobRow> {
+  const row: Record<string, unknown> = {};
+  for (const [field, column] of COLUMNS) {
+    if (field in job) row[column] = job[field] ?? null;
+  }
+  return row as Partial<ImportJobRow>;
+}
+
+function fromRow(row: ImportJobRow): BulkImportJob {
+  return {
+    id: row.id,
+    filename: row.filename,
+    status: row.status,
+    totalItems: row.total_items,
+    processedItems: row.processed_items,
+    errors: row.errors ?? [],
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? undefined,
+    createdBy: row.created_by,
+    format: row.format ?? undefined,
+    report: row.report ?? undefined,
+    committedAt: row.committed_at ?? undefined
+  };
+}
+
+/**
+ * Stores one row per job in the `bulk_import_jobs` table; the report is a
+ * JSON column
+ */
+export class SupabaseImportJobStore implements ImportJobStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async create(job: BulkImportJob): Promise<void> {
+    const { error } = await this.supabase.from('bulk_import_jobs').insert(toRow(job));
+    if (error) throw new Error('Failed to create import job');
+  }
+
+  async get(id: string): Promise<BulkImportJob | null> {
+    const { data, error } = await this.supabase
+      .from('bulk_import_jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error('Failed to load import job');
+    return data ? fromRow(data as ImportJobRow) : null;
+  }
+
+  async update(id: string, changes: Partial<BulkImportJob>): Promise<void> {
+    const { error } = await this.supabase.from('bulk_import_jobs').update(toRow(changes)).eq('id', id);
+    if (error) throw new Error('Failed to update import job');
+  }
+
+  async list(createdBy: string, limit: number): Promise<BulkImportJob[]> {
+    // The report can be large; the history list only needs the job fields
+    const { data, error } = await this.supabase
+      .from('bulk_import_jobs')
+      .select('id, filename, status, total_items, processed_items, errors, created_at, completed_at, created_by, format, committed_at')
+      .eq('created_by', createdBy)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error('Failed to list import jobs');
+    return ((data ?? []) as Array<Omit<ImportJobRow, 'report'>>).map(row => fromRow({ ...row, report: null }));
+  }
+
+  async markCommitted(id: string, committedAt: number): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('bulk_import_jobs')
+      .update({ committed_at: committedAt })
+      .eq('id', id)
+      .is('committed_at', null)
+      .select('id');
+
+    if (error) throw new Error('Failed to commit import job');
+    return Array.isArray(data) && data.length > 0;
+  }
+}
@@ -0,0 +1,590 @@
+// Server-side bulk import: reads an uploaded file, validates every row and
+// plans what committing would change in the existing courses.
+//
+// Supported inputs:
+//   - course JSON ({ courses: [...] } or one course) and course CSV
+//   - lesson JSON in both public/data/lessons shapes (one lesson, an array or { lessons: [...] })
+//   - vocabulary sheets as CSV / TSV / XLSX, one lesson per sheet or per `lesson` column value
+//   - Anki .apkg packages and plain-text exports, one lesson per deck
+//
+// Rows with errors are skipped and reported; the rest is planned, so a dry
+// run shows exactly what a commit would save.
+
+import { normalizeLesson } from '../data/LessonNormalizer';
+import { createLesson, createSection, slugify } from '../authoring/LessonAuthoring';
+import { diffCourses } from '../versioning/CourseDiff';
+import { cleanAnkiField, isAnkiText, parseAnkiText, readAnkiPackage, AnkiNote } from './AnkiDeck';
+import { parseDelimited, readXlsx, Sheet, SheetRow } from './Spreadsheet';
+import { ZipArchive } from './ZipArchive';
+import type {
+  Course,
+  CourseStatus,
+  ImportCoursePlan,
+  ImportFormat,
+  ImportOptions,
+  ImportReport,
+  Lesson,
+  LessonLevel,
+  ValidationError,
+  VocabItem
+} from '../../types';
+
+/** Largest upload accepted by the import endpoint */
+export const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024;
+
+/** Progress is reported after this many rows */
+const PROGRESS_INTERVAL = 50;
+
+const LEVELS: LessonLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
+const STATUSES: CourseStatus[] = ['draft', 'review', 'published', 'archived'];
+/** Imported content goes through review; publishing is left to the publish gate */
+const IMPORT_STATUSES: CourseStatus[] = ['draft', 'review'];
+
+/** The file as a whole cannot be imported */
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+export interface ImportInput {
+  filename: string;
+  bytes: Uint8Array;
+  options: ImportOptions;
+  /** Courses the import is planned against, as stored by the admin data service */
+  existingCourses: Course[];
+  /** Admin recorded as author of courses the import creates */
+  authorId: number;
+}
+
+export type ImportProgress = (processedItems: number, totalItems: number) => void | Promise<void>;
+
+type NewCourse = Omit<Course, 'id' | 'createdAt' | 'updatedAt'>;
+
+type VocabField = 'fr' | 'tah' | 'en' | 'ipaFr' | 'ipaTah' | 'partOfSpeech' | 'note' | 'isCore' | 'lesson';
+
+interface VocabRow {
+  row: number;
+  source: string;
+  lesson: string;
+  values: Partial<Record<VocabField, string>>;
+}
+
+type ImportRecord =
+  | { kind: 'course'; row: number; source?: string; raw: unknown }
+  | { kind: 'lesson'; row: number; source?: string; raw: unknown }
+  | { kind: 'vocab'; vocab: VocabRow };
+
+interface ImportSource {
+  format: ImportFormat;
+  records: ImportRecord[];
+  issues: ValidationError[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Lowercase, accents and separators dropped: "Français" and "fran_cais" both give "francais" */
+const normalizeHeader = (header: string) =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Same key as the vocab matching in CourseDiff, so upserts and the diff agree */
+const vocabKey = (fr: string | undefined) => (fr ?? '').trim().toLowerCase();
+
+const HEADER_ALIASES: Record<string, VocabField> = {
+  fr: 'fr', french: 'fr', francais: 'fr', motfrancais: 'fr',
+  tah: 'tah', ty: 'tah', tahitian: 'tah', tahitien: 'tah', reomaohi: 'tah', reotahiti: 'tah',
+  en: 'en', english: 'en', anglais: 'en',
+  ipa: 'ipaTah', ipatah: 'ipaTah', pronunciation: 'ipaTah', prononciation: 'ipaTah',
+  ipafr: 'ipaFr',
+  partofspeech: 'partOfSpeech', pos: 'partOfSpeech', nature: 'partOfSpeech',
+  note: 'note', notes: 'note', remarque: 'note', comment: 'note',
+  core: 'isCore', iscore: 'isCore', essentiel: 'isCore',
+  lesson: 'lesson', lecon: 'lesson', deck: 'lesson', theme: 'lesson'
+};
+
+/** Column order assumed when a sheet has no recognizable header row */
+const POSITIONAL_FIELDS: VocabField[] = ['fr', 'tah', 'en'];
+
+function mapHeaders(headers: string[]): Array<VocabField | undefined> {
+  return headers.map(header => HEADER_ALIASES[normalizeHeader(header)]);
+}
+
+const baseName = (filename: string) => filename.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+function readJson(filename: string, bytes: Uint8Array): ImportSource {
+  let data: unknown;
+  try {
+    data = JSON.parse(new TextDecoder('utf-8').decode(bytes).replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new ImportFormatError(`${filename} is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+  }
+
+  const looksLikeLesson = (value: unknown) => isRecord(value) && (typeof value.slug === 'string' || Array.isArray(value.sections));
+  const lessons = (items: unknown[]): ImportSource => ({
+    format: 'lesson-json',
+    issues: [],
+    records: items.map((raw, index) => ({
+      kind: 'lesson' as const,
+      row: index + 1,
+      source: isRecord(raw) && typeof raw.slug === 'string' ? raw.slug : undefined,
+      raw
+    }))
+  });
+  const courses = (items: unknown[]): ImportSource => ({
+    format: 'course-json',
+    issues: [],
+    records: items.map((raw, index) => ({ kind: 'course' as const, row: index + 1, raw }))
+  });
+
+  if (Array.isArray(data)) return data.every(looksLikeLesson) ? lessons(data) : courses(data);
+  if (!isRecord(data)) throw new ImportFormatError(`${filename} must contain a JSON object or array`);
+  if (Array.isArray(data.courses)) return courses(data.courses);
+  if (looksLikeLesson(data)) return lessons([data]);
+  // { lessons: [...] } without course metadata is a lesson bundle
+  if (Array.isArray(data.lessons) && data.title === undefined) return lessons(data.lessons);
+  return courses([data]);
+}
+
+function readCourseCsv(rows: SheetRow[]): ImportSource {
+  const [header, ...body] = rows;
+  const columns = header.cells.map(cell => cell.trim());
+
+  return {
+    format: 'course-csv',
+    issues: [],
+    records: body.map(({ row, cells }) => {
+      const raw: Record<string, unknown> = { title: {}, tags: [], learningObjectives: [] };
+      const title = raw.title as Record<string, string>;
+      const list = (value: string) => value.split(';').map(item => item.trim()).filter(Boolean);
+
+      columns.forEach((column, index) => {
+        const value = (cells[index] ?? '').trim();
+        if (column === 'title_en') title.en = value;
+        else if (column === 'title_fr') title.fr = value;
+        else if (column === 'title_tah') title.tah = value;
+        else if (column === 'tags') raw.tags = list(value);
+        else if (column === 'learningObjectives') raw.learningObjectives = list(value);
+        else if (column === 'estimatedDuration') raw.estimatedDuration = value === '' ? undefined : Number(value);
+        else if (value !== '') raw[column] = value;
+      });
+      return { kind: 'course' as const, row, raw };
+    })
+  };
+}
+
+/**
+ * Vocabulary rows of one sheet. The first row is a header when any of its
+ * cells is a known column name; otherwise columns are read as fr, tah, en.
+ */
+function readVocabSheet(sheet: Sheet, defaultLesson: string, issues: ValidationError[]): VocabRow[] {
+  if (sheet.rows.length === 0) return [];
+
+  const [first, ...rest] = sheet.rows;
+  const mapped = mapHeaders(first.cells);
+  const hasHeader = mapped.some(Boolean);
+  const fields = hasHeader ? mapped : POSITIONAL_FIELDS;
+  const body = hasHeader ? rest : sheet.rows;
+
+  if (hasHeader) {
+    first.cells.forEach((header, index) => {
+      if (!mapped[index] && header.trim()) {
+        issues.push({ row: first.row, field: header, message: `Unknown column "${header}" is ignored`, severity: 'warning', source: sheet.name });
+      }
+    });
+    if (!mapped.includes('fr')) {
+      issues.push({ row: first.row, field: 'fr', message: 'No French column found (expected "fr" or "French")', severity: 'error', source: sheet.name });
+    }
+  } else {
+    issues.push({ row: first.row, field: '', message: 'No header row; columns are read as French, Tahitian, English', severity: 'warning', source: sheet.name });
+  }
+
+  return body.map(({ row, cells }) => {
+    const values: Partial<Record<VocabField, string>> = {};
+    fields.forEach((field, index) => {
+      const value = cells[index]?.trim();
+      if (field && value) values[field] = value;
+    });
+    return { row, source: sheet.name, lesson: values.lesson || defaultLesson, values };
+  });
+}
+
+function readAnkiNotes(notes: AnkiNote[], format: ImportFormat, issues: ValidationError[]): ImportSource {
+  const records: ImportRecord[] = notes.map(note => {
+    const deck = note.deck.split('::').pop() || note.deck;
+    const mapped = mapHeaders(note.fieldNames);
+    const fields = mapped.includes('fr') ? mapped : POSITIONAL_FIELDS;
+    const values: Partial<Record<VocabField, string>> = {};
+
+    note.fields.forEach((field, index) => {
+      const name = fields[index];
+      if (!name) return;
+      const { text, hadMedia } = cleanAnkiField(field);
+      if (hadMedia) {
+        issues.push({ row: note.row, field: note.fieldNames[index] ?? name, message: 'Audio and images in Anki fields are not imported', severity: 'warning', source: note.deck });
+      }
+      if (text) values[name] = text;
+    });
+
+    return { kind: 'vocab', vocab: { row: note.row, source: note.deck, lesson: deck, values } };
+  });
+
+  const fieldNames = notes[0]?.fieldNames ?? [];
+  if (notes.length > 0 && !mapHeaders(fieldNames).includes('fr')) {
+    issues.unshift({
+      row: 0,
+      field: fieldNames.join(', '),
+      message: 'Note fields are not named French/Tahitian/English; the first three fields are read as French, Tahitian, English',
+      severity: 'warning'
+    });
+  }
+
+  return { format, records, issues };
+}
+
+/**
+ * Detects the format from the file name and content and splits the file into
+ * records
+ */
+function readImportFile(filename: string, bytes: Uint8Array): ImportSource {
+  const extension = filename.toLowerCase().split('.').pop() ?? '';
+  const issues: ValidationError[] = [];
+
+  if (extension === 'apkg' || extension === 'colpkg') {
+    return readAnkiNotes(readAnkiPackage(bytes), 'anki-package', issues);
+  }
+
+  if (extension === 'xlsx' || (extension !== 'json' && ZipArchive.isZip(bytes))) {
+    const records = readXlsx(bytes).flatMap(sheet =>
+      readVocabSheet(sheet, sheet.name, issues).map(vocab => ({ kind: 'vocab' as const, vocab })));
+    return { format: 'vocab-sheet', records, issues };
+  }
+
+  if (extension === 'json') return readJson(filename, bytes);
+
+  if (['csv', 'tsv', 'txt'].includes(extension)) {
+    const text = new TextDecoder('utf-8').decode(bytes);
+    if (isAnkiText(text)) return readAnkiNotes(parseAnkiText(text), 'anki-text', issues);
+
+    const rows = parseDelimited(text, extension === 'tsv' ? '\t' : undefined);
+    if (rows.length === 0) throw new ImportFormatError(`${filename} is empty`);
+
+    const headers = rows[0].cells.map(cell => cell.trim());
+    if (headers.includes('title_fr') || headers.includes('title_en')) return readCourseCsv(rows);
+
+    const sheet: Sheet = { name: baseName(filename), rows };
+    const records = readVocabSheet(sheet, sheet.name, issues).map(vocab => ({ kind: 'vocab' as const, vocab }));
+    return { format: 'vocab-sheet', records, issues };
+  }
+
+  throw new ImportFormatError('Unsupported file format. Use JSON, CSV, TSV, XLSX or an Anki export (.apkg, .txt).');
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function validateCourse(raw: unknown, row: number, authorId: number, errors: ValidationError[]): NewCourse | null {
+  const before = errors.length;
+  const error = (field: string, message: string, value?: unknown) =>
+    errors.push({ row, field, message, value, severity: 'error' });
+
+  if (!isRecord(raw)) {
+    error('', 'course must be an object');
+    return null;
+  }
+
+  const title = isRecord(raw.title) ? raw.title : {};
+  if (!title.en) error('title.en', 'English title is required');
+  if (!title.fr) error('title.fr', 'French title is required');
+  if (!title.tah) error('title.tah', 'Tahitian title is required');
+
+  const description = typeof raw.description === 'string' ? raw.description : '';
+  if (!description) error('description', 'Description is required');
+  else if (description.length < 20) error('description', 'Description must be at least 20 characters long', description.length);
+
+  if (!raw.level) error('level', 'Level is required');
+  else if (!LEVELS.includes(raw.level as LessonLevel)) {
+    error('level', `Invalid level. Must be one of: ${LEVELS.join(', ')}`, raw.level);
+  }
+  if (!raw.category) error('category', 'Category is required');
+
+  const duration = raw.estimatedDuration === undefined ? 30 : Number(raw.estimatedDuration);
+  if (isNaN(duration) || duration < 5 || duration > 300) {
+    error('estimatedDuration', 'Duration must be a number between 5 and 300 minutes', raw.estimatedDuration);
+  }
+
+  let status: CourseStatus = 'draft';
+  if (raw.status !== undefined) {
+    if (IMPORT_STATUSES.includes(raw.status as CourseStatus)) status = raw.status as CourseStatus;
+    else if (STATUSES.includes(raw.status as CourseStatus)) {
+      errors.push({ row, field: 'status', message: 'Imported courses are saved as drafts; publish them once they pass review', value: raw.status, severity: 'warning' });
+    } else errors.push({ row, field: 'status', message: 'Unknown status; the course is imported as a draft', value: raw.status, severity: 'warning' });
+  }
+
+  const lessons: Lesson[] = [];
+  (Array.isArray(raw.lessons) ? raw.lessons : []).forEach((rawLesson, index) => {
+    const result = normalizeLesson(rawLesson, `lessons[${index}]`);
+    for (const issue of result.issues) {
+      errors.push({
+        row,
+        field: `lessons[${index}]${issue.path ? `.${issue.path}` : ''}`,
+        message: issue.message,
+        severity: issue.severity
+      });
+    }
+    if (result.lesson) lessons.push(result.lesson);
+  });
+
+  if (errors.slice(before).some(entry => entry.severity === 'error')) return null;
+
+  return {
+    title: { fr: String(title.fr), tah: String(title.tah), en: String(title.en) },
+    description,
+    level: raw.level as LessonLevel,
+    category: String(raw.category),
+    tags: Array.isArray(raw.tags) ? raw.tags.map(String) : [],
+    estimatedDuration: duration,
+    prerequisites: Array.isArray(raw.prerequisites) ? raw.prerequisites.map(String) : undefined,
+    learningObjectives: Array.isArray(raw.learningObjectives) ? raw.learningObjectives.map(String) : [],
+    status,
+    authorId,
+    version: 1,
+    lessons,
+    mediaAssets: []
+  };
+}
+
+function validateLesson(raw: unknown, row: number, source: string | undefined, errors: ValidationError[]): Lesson | null {
+  const result = normalizeLesson(raw, source ?? `lesson ${row}`);
+  for (const issue of result.issues) {
+    errors.push({ row, field: issue.path, message: issue.message, severity: issue.severity, source });
+  }
+  return result.lesson;
+}
+
+const TRUE_VALUES = ['true', 'yes', 'oui', '1', 'x'];
+const FALSE_VALUES = ['false', 'no', 'non', '0', ''];
+
+function validateVocab(vocab: VocabRow, errors: ValidationError[]): VocabItem | null {
+  const { row, source, values } = vocab;
+  const issue = (severity: ValidationError['severity'], field: string, message: string, value?: unknown) =>
+    errors.push({ row, field, message, value, severity, source });
+
+  if (!values.fr) {
+    issue('error', 'fr', 'French term is required');
+    return null;
+  }
+  if (!values.tah) issue('warning', 'tah', 'Tahitian translation is missing');
+
+  let isCore: boolean | undefined;
+  if (values.isCore !== undefined) {
+    const flag = values.isCore.toLowerCase();
+    if (TRUE_VALUES.includes(flag)) isCore = true;
+    else if (FALSE_VALUES.includes(flag)) isCore = false;
+    else issue('warning', 'isCore', 'Expected yes or no', values.isCore);
+  }
+
+  const item: VocabItem = { fr: values.fr };
+  if (values.tah) item.tah = values.tah;
+  if (values.en) item.en = values.en;
+  if (values.ipaFr) item.ipaFr = values.ipaFr;
+  if (values.ipaTah) item.ipaTah = values.ipaTah;
+  if (values.partOfSpeech) item.partOfSpeech = values.partOfSpeech;
+  if (values.note) item.note = values.note;
+  if (isCore !== undefined) item.isCore = isCore;
+  return item;
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+function findExistingCourse(course: NewCourse | Course, raw: unknown, existing: Course[]): Course | undefined {
+  const id = isRecord(raw) && typeof raw.id === 'number' ? raw.id : undefined;
+  const byId = id !== undefined ? existing.find(candidate => candidate.id === id) : undefined;
+  if (byId) return byId;
+
+  const titles = [course.title.fr, course.title.en].map(vocabKey).filter(Boolean);
+  return existing.find(candidate =>
+    [candidate.title.fr, candidate.title.en].some(title => titles.includes(vocabKey(title))));
+}
+
+/** Replaces lessons with the same slug and appends the others */
+function upsertLessons(lessons: Lesson[], incoming: Lesson[]): Lesson[] {
+  const result = [...lessons];
+  for (const lesson of incoming) {
+    const index = result.findIndex(candidate => candidate.slug === lesson.slug);
+    if (index === -1) result.push(lesson);
+    else result[index] = { ...lesson, id: result[index].id ?? lesson.id };
+  }
+  return result;
+}
+
+/**
+ * Adds vocabulary to the lesson's Vocabulary section, creating the section
+ * when missing. Items already present (same French term) take the imported
+ * values for the fields the import fills in.
+ */
+function upsertVocab(lesson: Lesson, items: VocabItem[]): Lesson {
+  let sectionIndex = lesson.sections.findIndex(section => section.kind === 'Vocabulary');
+  const sections = [...lesson.sections];
+  if (sectionIndex === -1) {
+    sections.push(createSection('Vocabulary'));
+    sectionIndex = sections.length - 1;
+  }
+
+  const vocab = [...(sections[sectionIndex].vocab ?? [])];
+  for (const item of items) {
+    const index = vocab.findIndex(candidate => vocabKey(candidate.fr) === vocabKey(item.fr));
+    if (index === -1) vocab.push({ ...item, sortOrder: vocab.length + 1 });
+    else vocab[index] = { ...vocab[index], ...item };
+  }
+
+  sections[sectionIndex] = { ...sections[sectionIndex], vocab };
+  return { ...lesson, sections };
+}
+
+function newCourseShell(options: ImportOptions, filename: string, authorId: number): NewCourse {
+  const title = options.courseTitle?.trim() || baseName(filename);
+  return {
+    title: { fr: title, en: title },
+    description: `Imported from ${filename}`,
+    level: options.level ?? 'Beginner',
+    category: 'Vocabulary',
+    tags: ['import'],
+    estimatedDuration: 30,
+    learningObjectives: [],
+    status: 'draft',
+    authorId,
+    version: 1,
+    lessons: [],
+    mediaAssets: []
+  };
+}
+
+function plan(course: NewCourse | Course, existing: Course | undefined): ImportCoursePlan {
+  const before = existing ?? { ...course, lessons: [], mediaAssets: [] } as Course;
+  return {
+    action: existing ? 'update' : 'create',
+    course,
+    changes: diffCourses(before, course as Course)
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Pipeline
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates every record of the file and plans the resulting course changes
+ * without saving anything. `onProgress` is awaited between batches so a job
+ * store can persist progress.
+ */
+export async function runImport(input: ImportInput, onProgress?: ImportProgress): Promise<ImportReport> {
+  const { filename, bytes, options, existingCourses, authorId } = input;
+  const source = readImportFile(filename, bytes);
+  const errors: ValidationError[] = [...source.issues];
+  const total = source.records.length;
+  await onProgress?.(0, total);
+
+  const courses: Array<{ course: NewCourse; raw: unknown }> = [];
+  const lessons: Lesson[] = [];
+  const vocabByLesson = new Map<string, { title: string; items: VocabItem[] }>();
+
+  for (let i = 0; i < total; i++) {
+    const record = source.records[i];
+
+    if (record.kind === 'course') {
+      const course = validateCourse(record.raw, record.row, authorId, errors);
+      if (course) courses.push({ course, raw: record.raw });
+    } else if (record.kind === 'lesson') {
+      const lesson = validateLesson(record.raw, record.row, record.source, errors);
+      if (lesson) lessons.push(lesson);
+    } else {
+      const item = validateVocab(record.vocab, errors);
+      const slug = slugify(record.vocab.lesson) || 'vocabulaire';
+      const bucket = vocabByLesson.get(slug) ?? { title: record.vocab.lesson, items: [] };
+      if (item && bucket.items.some(existing => vocabKey(existing.fr) === vocabKey(item.fr))) {
+        errors.push({
+          row: record.vocab.row,
+          field: 'fr',
+          message: `Duplicate of "${item.fr}" in this lesson; row skipped`,
+          value: item.fr,
+          severity: 'warning',
+          source: record.vocab.source
+        });
+      } else if (item) {
+        bucket.items.push(item);
+        vocabByLesson.set(slug, bucket);
+      }
+    }
+
+    if ((i + 1) % PROGRESS_INTERVAL === 0) await onProgress?.(i + 1, total);
+  }
+
+  const plans: ImportCoursePlan[] = courses.map(({ course, raw }) => {
+    const existing = findExistingCourse(course, raw, existingCourses);
+    if (!existing) return plan(course, undefined);
+
+    return plan({
+      ...existing,
+      ...course,
+      id: existing.id,
+      authorId: existing.authorId,
+      version: existing.version,
+      createdAt: existing.createdAt,
+      updatedAt: existing.updatedAt,
+      lessons: upsertLessons(existing.lessons ?? [], course.lessons)
+    }, existing);
+  });
+
+  if (lessons.length > 0 || vocabByLesson.size > 0) {
+    const target = options.targetCourseId !== undefined
+      ? existingCourses.find(course => course.id === options.targetCourseId)
+      : undefined;
+    if (options.targetCourseId !== undefined && !target) {
+      errors.push({ row: 0, field: 'targetCourseId', message: `Course #${options.targetCourseId} does not exist; a new course is planned instead`, severity: 'warning' });
+    }
+
+    let course: NewCourse | Course = target ?? newCourseShell(options, filename, authorId);
+    let courseLessons = upsertLessons(course.lessons ?? [], lessons);
+    for (const [slug, { title, items }] of vocabByLesson) {
+      const existingLesson = courseLessons.find(lesson => lesson.slug === slug);
+      const lesson = upsertVocab(existingLesson ?? createLesson(slug, options.level ?? course.level, title), items);
+      courseLessons = upsertLessons(courseLessons, [lesson]);
+    }
+    course = { ...course, lessons: courseLessons, status: IMPORT_STATUSES.includes(course.status) ? course.status : 'draft' };
+    plans.push(plan(course, target));
+  }
+
+  await onProgress?.(total, total);
+
+  const importedLessons = [...courses.flatMap(({ course }) => course.lessons), ...lessons];
+  const vocabCount = (lesson: Lesson) => lesson.sections.reduce((sum, section) => sum + (section.vocab?.length ?? 0), 0);
+
+  return {
+    format: source.format,
+    validationErrors: errors,
+    plans,
+    summary: {
+      courses: plans.length,
+      lessons: importedLessons.length + vocabByLesson.size,
+      vocab: importedLessons.reduce((sum, lesson) => sum + vocabCount(lesson), 0)
+        + [...vocabByLesson.values()].reduce((sum, bucket) => sum + bucket.items.length, 0),
+      errors: errors.filter(error => error.severity === 'error').length,
+      warnings: errors.filter(error => error.severity === 'warning').length
+    }
+  };
+}
+
+/** A report can be committed when it plans at least one change and the file itself was readable */
+export function isCommittable(report: ImportReport): boolean {
+  const fileLevelError = report.validationErrors.some(error => error.severity === 'error' && error.row === 0);
+  return !fileLevelError && report.plans.some(entry => entry.changes.length > 0);
+}
@@ -0,0 +1,24 @@
+// Shared server-side job store, so the import routes see the same jobs
+
+import { createClient } from '@supabase/supabase-js';
+import { ImportJobStore, MemoryImportJobStore, SupabaseImportJobStore } from './ImportJobStore';
+
+let memoryStore: MemoryImportJobStore | null = null;
+
+/**
+ * Supabase when configured; otherwise an in-process store for local development
+ */
+export function getImportJobStore(): ImportJobStore {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (supabaseUrl && supabaseServiceKey) {
+    return new SupabaseImportJobStore(createClient(supabaseUrl, supabaseServiceKey));
+  }
+
+  if (!memoryStore) {
+    console.warn('Supabase is not configured; import jobs are kept in memory only');
+    memoryStore = new MemoryImportJobStore();
+  }
+  return memoryStore;
+}
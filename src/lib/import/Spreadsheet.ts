@@ -0,0 +1,171 @@
+// Reads tabular uploads into rows of strings: CSV / TSV text and XLSX
+// workbooks. Row numbers are the ones the teacher sees in their spreadsheet
+// application, so validation errors can point at the exact line.
+
+import { ZipArchive, ZipFormatError } from './ZipArchive';
+
+export interface SheetRow {
+  /** 1-based line or row number in the source file */
+  row: number;
+  cells: string[];
+}
+
+export interface Sheet {
+  name: string;
+  rows: SheetRow[];
+}
+
+const isBlank = (cells: string[]) => cells.every(cell => cell.trim() === '');
+
+/**
+ * Picks the delimiter used most in the first line. French spreadsheet
+ * applications export CSV with semicolons.
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const counts = ['\t', ';', ','].map(delimiter => [delimiter, firstLine.split(delimiter).length - 1] as const);
+  const [best] = [...counts].sort((a, b) => b[1] - a[1]);
+  return best[1] > 0 ? best[0] : ',';
+}
+
+/**
+ * RFC 4180 parser: quoted fields may hold delimiters, doubled quotes and line
+ * breaks. Blank lines are skipped but still counted.
+ */
+export function parseDelimited(text: string, delimiter = detectDelimiter(text)): SheetRow[] {
+  const rows: SheetRow[] = [];
+  const source = text.replace(/^\uFEFF/, '');
+  let cells: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const endRow = () => {
+    cells.push(field);
+    if (!isBlank(cells)) rows.push({ row: rowStart, cells });
+    cells = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowStart = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || cells.length > 0) endRow();
+
+  return rows;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal: string) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+const attribute = (attributes: string, name: string) =>
+  new RegExp(`\\b${name}="([^"]*)"`).exec(attributes)?.[1];
+
+/** Concatenated text runs, ignoring phonetic annotations */
+function textRuns(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return [...withoutPhonetics.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(match => decodeXml(match[1])).join('');
+}
+
+/** "C7" → 2 */
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() ?? 'A';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function readSheetRows(xml: string, sharedStrings: string[]): SheetRow[] {
+  const rows: SheetRow[] = [];
+  let nextRow = 1;
+
+  for (const [, rowAttributes, rowXml] of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row = Number(attribute(rowAttributes, 'r') ?? nextRow);
+    nextRow = row + 1;
+    if (!rowXml) continue;
+
+    const cells: string[] = [];
+    let nextColumn = 0;
+    for (const [, cellAttributes, cellXml = ''] of rowXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(cellAttributes, 'r');
+      const column = reference ? columnIndex(reference) : nextColumn;
+      nextColumn = column + 1;
+
+      const type = attribute(cellAttributes, 't');
+      const value = /<v>([\s\S]*?)<\/v>/.exec(cellXml)?.[1];
+      let text = '';
+      if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = textRuns(cellXml);
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else if (value !== undefined) text = decodeXml(value);
+
+      while (cells.length < column) cells.push('');
+      cells[column] = text;
+    }
+
+    if (!isBlank(cells)) rows.push({ row, cells });
+  }
+
+  return rows;
+}
+
+/**
+ * Every worksheet of an XLSX workbook in tab order. Formulas are read from
+ * their cached values; styles, dates and merged cells are not interpreted.
+ */
+export function readXlsx(bytes: Uint8Array): Sheet[] {
+  const archive = new ZipArchive(bytes);
+  const workbook = archive.readText('xl/workbook.xml');
+  if (!workbook) throw new ZipFormatError('Not an XLSX workbook');
+
+  const sharedStringsXml = archive.readText('xl/sharedStrings.xml') ?? '';
+  const sharedStrings = [...sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(match => textRuns(match[1]));
+
+  const relations = new Map<string, string>();
+  for (const [, relationAttributes] of (archive.readText('xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const id = attribute(relationAttributes, 'Id');
+    const target = attribute(relationAttributes, 'Target');
+    if (id && target) relations.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  }
+
+  return [...workbook.matchAll(/<sheet\b([^>]*)\/?>/g)].flatMap(([, sheetAttributes], index) => {
+    const relationId = attribute(sheetAttributes, 'r:id');
+    const path = (relationId && relations.get(relationId)) || `xl/worksheets/sheet${index + 1}.xml`;
+    const xml = archive.readText(path);
+    return xml ? [{ name: decodeXml(attribute(sheetAttributes, 'name') ?? `Sheet${index + 1}`), rows: readSheetRows(xml, sharedStrings) }] : [];
+  });
+}
@@ -0,0 +1,235 @@
+// Read-only reader for SQLite database files, enough to pull rows out of the
+// collection inside an Anki package. Walks table b-trees directly; supports
+// overflow pages and UTF-8 databases, not WITHOUT ROWID tables or WAL files.
+// See https://www.sqlite.org/fileformat.html
+
+export type SqlValue = number | string | Uint8Array | null;
+
+export type SqlRow = Record<string, SqlValue>;
+
+const HEADER = 'SQLite format 3\0';
+
+const INTERIOR_TABLE_PAGE = 0x05;
+const LEAF_TABLE_PAGE = 0x0d;
+
+export class SqliteFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SqliteFormatError';
+  }
+}
+
+interface TableSchema {
+  name: string;
+  rootPage: number;
+  columns: string[];
+  /** Column declared INTEGER PRIMARY KEY; stored as NULL and aliased to the rowid */
+  rowidColumn?: string;
+}
+
+/**
+ * Column names from a CREATE TABLE statement, skipping table constraints
+ */
+function parseColumns(sql: string): { columns: string[]; rowidColumn?: string } {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      definitions.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  definitions.push(current);
+
+  const columns: string[] = [];
+  let rowidColumn: string | undefined;
+  for (const definition of definitions.map(text => text.trim()).filter(Boolean)) {
+    if (/^(constraint|primary|unique|check|foreign)\b/i.test(definition)) continue;
+    const name = /^(?:"([^"]+)"|`([^`]+)`|\[([^\]]+)\]|(\S+))/.exec(definition);
+    const column = name ? (name[1] ?? name[2] ?? name[3] ?? name[4]) : definition;
+    columns.push(column);
+    if (/\binteger\s+primary\s+key\b/i.test(definition)) rowidColumn = column;
+  }
+  return { columns, rowidColumn };
+}
+
+export class SqliteDatabase {
+  private readonly view: DataView;
+  private readonly pageSize: number;
+  private readonly usableSize: number;
+  private readonly decoder = new TextDecoder('utf-8');
+  private readonly tables = new Map<string, TableSchema>();
+
+  constructor(private readonly bytes: Uint8Array) {
+    if (!SqliteDatabase.isSqlite(bytes)) throw new SqliteFormatError('Not a SQLite database');
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    const pageSize = this.view.getUint16(16);
+    this.pageSize = pageSize === 1 ? 65536 : pageSize;
+    this.usableSize = this.pageSize - bytes[20];
+    if (this.view.getUint32(56) > 1) throw new SqliteFormatError('Only UTF-8 databases are supported');
+
+    for (const row of this.readTree(1)) {
+      const [type, name, , rootPage, sql] = row.values;
+      if (type === 'table' && typeof name === 'string' && typeof rootPage === 'number' && typeof sql === 'string') {
+        this.tables.set(name, { name, rootPage, ...parseColumns(sql) });
+      }
+    }
+  }
+
+  static isSqlite(bytes: Uint8Array): boolean {
+    return bytes.length >= 100 && String.fromCharCode(...bytes.subarray(0, 16)) === HEADER;
+  }
+
+  get tableNames(): string[] {
+    return [...this.tables.keys()];
+  }
+
+  /** All rows of a table keyed by column name; throws when the table does not exist */
+  readTable(name: string): SqlRow[] {
+    const table = this.tables.get(name);
+    if (!table) throw new SqliteFormatError(`Table ${name} not found`);
+
+    return this.readTree(table.rootPage).map(({ rowid, values }) => {
+      const row: SqlRow = {};
+      table.columns.forEach((column, index) => {
+        // Columns added by ALTER TABLE are missing from older records
+        const value = values[index] ?? null;
+        row[column] = column === table.rowidColumn && value === null ? rowid : value;
+      });
+      return row;
+    });
+  }
+
+  private pageOffset(page: number): number {
+    return (page - 1) * this.pageSize;
+  }
+
+  /** In-order walk of a table b-tree */
+  private readTree(rootPage: number): Array<{ rowid: number; values: SqlValue[] }> {
+    const rows: Array<{ rowid: number; values: SqlValue[] }> = [];
+    const visited = new Set<number>();
+    const pending = [rootPage];
+
+    while (pending.length > 0) {
+      const page = pending.pop()!;
+      if (visited.has(page) || page < 1 || this.pageOffset(page) >= this.bytes.length) {
+        throw new SqliteFormatError(`Corrupt b-tree at page ${page}`);
+      }
+      visited.add(page);
+
+      const start = this.pageOffset(page) + (page === 1 ? 100 : 0);
+      const type = this.bytes[start];
+      const cellCount = this.view.getUint16(start + 3);
+      const headerSize = type === INTERIOR_TABLE_PAGE ? 12 : 8;
+      const cells = Array.from({ length: cellCount }, (_, i) =>
+        this.pageOffset(page) + this.view.getUint16(start + headerSize + i * 2));
+
+      if (type === INTERIOR_TABLE_PAGE) {
+        // Children are pushed in reverse so the stack pops them left to right
+        pending.push(this.view.getUint32(start + 8));
+        for (let i = cells.length - 1; i >= 0; i--) pending.push(this.view.getUint32(cells[i]));
+      } else if (type === LEAF_TABLE_PAGE) {
+        for (const cell of cells) rows.push(this.readLeafCell(cell));
+      } else {
+        throw new SqliteFormatError(`Unsupported b-tree page type ${type}`);
+      }
+    }
+
+    return rows;
+  }
+
+  private readVarint(offset: number): [value: number, length: number] {
+    let value = 0;
+    for (let i = 0; i < 8; i++) {
+      const byte = this.bytes[offset + i];
+      value = value * 128 + (byte & 0x7f);
+      if (byte < 0x80) return [value, i + 1];
+    }
+    return [value * 256 + this.bytes[offset + 8], 9];
+  }
+
+  private readLeafCell(offset: number): { rowid: number; values: SqlValue[] } {
+    const [payloadSize, sizeLength] = this.readVarint(offset);
+    const [rowid, rowidLength] = this.readVarint(offset + sizeLength);
+    const payloadStart = offset + sizeLength + rowidLength;
+    return { rowid, values: this.readRecord(this.readPayload(payloadStart, payloadSize)) };
+  }
+
+  /** Reassembles a payload that spills onto overflow pages */
+  private readPayload(start: number, size: number): Uint8Array {
+    const maxLocal = this.usableSize - 35;
+    if (size <= maxLocal) return this.bytes.subarray(start, start + size);
+
+    const minLocal = Math.floor((this.usableSize - 12) * 32 / 255) - 23;
+    const surplus = minLocal + (size - minLocal) % (this.usableSize - 4);
+    const local = surplus <= maxLocal ? surplus : minLocal;
+
+    const payload = new Uint8Array(size);
+    payload.set(this.bytes.subarray(start, start + local));
+    let written = local;
+    let page = this.view.getUint32(start + local);
+    const visited = new Set<number>();
+    while (written < size && page !== 0) {
+      if (visited.has(page)) throw new SqliteFormatError('Overflow page loop');
+      visited.add(page);
+      const pageStart = this.pageOffset(page);
+      const chunk = Math.min(size - written, this.usableSize - 4);
+      payload.set(this.bytes.subarray(pageStart + 4, pageStart + 4 + chunk), written);
+      written += chunk;
+      page = this.view.getUint32(pageStart);
+    }
+    return payload;
+  }
+
+  private readRecord(payload: Uint8Array): SqlValue[] {
+    const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+    const readVarint = (offset: number): [number, number] => {
+      let value = 0;
+      for (let i = 0; i < 8; i++) {
+        const byte = payload[offset + i];
+        value = value * 128 + (byte & 0x7f);
+        if (byte < 0x80) return [value, i + 1];
+      }
+      return [value * 256 + payload[offset + 8], 9];
+    };
+
+    const [headerSize, headerSizeLength] = readVarint(0);
+    const serialTypes: number[] = [];
+    for (let offset = headerSizeLength; offset < headerSize;) {
+      const [serialType, length] = readVarint(offset);
+      serialTypes.push(serialType);
+      offset += length;
+    }
+
+    const values: SqlValue[] = [];
+    let offset = headerSize;
+    for (const serialType of serialTypes) {
+      switch (serialType) {
+        case 0: values.push(null); break;
+        case 1: values.push(view.getInt8(offset)); offset += 1; break;
+        case 2: values.push(view.getInt16(offset)); offset += 2; break;
+        case 3: values.push((view.getInt8(offset) * 65536) + view.getUint16(offset + 1)); offset += 3; break;
+        case 4: values.push(view.getInt32(offset)); offset += 4; break;
+        case 5: values.push(view.getInt16(offset) * 2 ** 32 + view.getUint32(offset + 2)); offset += 6; break;
+        case 6: values.push(Number(view.getBigInt64(offset))); offset += 8; break;
+        case 7: values.push(view.getFloat64(offset)); offset += 8; break;
+        case 8: values.push(0); break;
+        case 9: values.push(1); break;
+        default: {
+          const length = Math.floor((serialType - 12) / 2);
+          const data = payload.subarray(offset, offset + length);
+          values.push(serialType % 2 === 0 ? data : this.decoder.decode(data));
+          offset += length;
+        }
+      }
+    }
+    return values;
+  }
+}
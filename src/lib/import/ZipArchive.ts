@@ -0,0 +1,115 @@
+// Minimal ZIP reader for the archives teachers upload: XLSX workbooks and
+// Anki .apkg packages. Handles stored and deflated entries; no encryption,
+// no ZIP64 and no multi-disk archives.
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+/** Upper bound for a single inflated entry, so a zip bomb cannot exhaust memory */
+export const MAX_ENTRY_SIZE = 64 * 1024 * 1024;
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+export class ZipArchive {
+  private readonly view: DataView;
+  private readonly entries = new Map<string, ZipEntry>();
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.readCentralDirectory();
+  }
+
+  /** True when the bytes start like a ZIP file */
+  static isZip(bytes: Uint8Array): boolean {
+    return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+  }
+
+  get names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /** Uncompressed content of an entry, or null when the archive has no such entry */
+  read(name: string): Uint8Array | null {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+    if (entry.size > MAX_ENTRY_SIZE) {
+      throw new ZipFormatError(`${name} is too large to import`);
+    }
+
+    const offset = entry.localHeaderOffset;
+    if (this.view.getUint32(offset, true) !== LOCAL_FILE_HEADER) {
+      throw new ZipFormatError(`Corrupt local header for ${name}`);
+    }
+    // The local header repeats the name and has its own extra field length
+    const dataStart = offset + 30 + this.view.getUint16(offset + 26, true) + this.view.getUint16(offset + 28, true);
+    const data = this.bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+    if (entry.method === STORED) return data;
+    if (entry.method === DEFLATED) {
+      return new Uint8Array(inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE }));
+    }
+    throw new ZipFormatError(`${name} uses unsupported compression method ${entry.method}`);
+  }
+
+  readText(name: string): string | null {
+    const data = this.read(name);
+    return data ? new TextDecoder('utf-8').decode(data) : null;
+  }
+
+  private readCentralDirectory(): void {
+    const end = this.findEndOfCentralDirectory();
+    const count = this.view.getUint16(end + 10, true);
+    let offset = this.view.getUint32(end + 16, true);
+
+    for (let i = 0; i < count; i++) {
+      if (offset + 46 > this.bytes.length || this.view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new ZipFormatError('Corrupt central directory');
+      }
+      const nameLength = this.view.getUint16(offset + 28, true);
+      const extraLength = this.view.getUint16(offset + 30, true);
+      const commentLength = this.view.getUint16(offset + 32, true);
+      const name = new TextDecoder('utf-8').decode(this.bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+      this.entries.set(name, {
+        name,
+        method: this.view.getUint16(offset + 10, true),
+        compressedSize: this.view.getUint32(offset + 20, true),
+        size: this.view.getUint32(offset + 24, true),
+        localHeaderOffset: this.view.getUint32(offset + 42, true)
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  /** The end record sits in the last 22 bytes plus an optional comment of up to 64 KB */
+  private findEndOfCentralDirectory(): number {
+    const lowest = Math.max(0, this.bytes.length - 22 - 0xffff);
+    for (let offset = this.bytes.length - 22; offset >= lowest; offset--) {
+      if (this.view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+    }
+    throw new ZipFormatError('Not a ZIP archive');
+  }
+}
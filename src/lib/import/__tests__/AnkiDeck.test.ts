@@ -0,0 +1,64 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { cleanAnkiField, parseAnkiText, readAnkiPackage } from '../AnkiDeck';
+import { createZip } from './createZip';
+
+// fixtures/collection.anki2 is a 512-byte-page SQLite collection with the
+// col / notes / cards columns the reader uses: ten numbers in the deck
+// "Reo Tahiti::Les nombres" plus one note long enough to need an overflow
+// page. The notes table spans an interior b-tree page.
+const collection = readFileSync(join(__dirname, 'fixtures', 'collection.anki2'));
+
+describe('readAnkiPackage', () => {
+  it('reads notes with their field names, deck and tags', () => {
+    const notes = readAnkiPackage(createZip({ 'collection.anki2': collection, media: '{}' }));
+
+    expect(notes).toHaveLength(11);
+    expect(notes[1]).toEqual({
+      row: 2,
+      deck: 'Reo Tahiti::Les nombres',
+      fieldNames: ['Français', 'Tahitien', 'English'],
+      fields: ['deux', 'piti', '<b>two</b>'],
+      tags: ['nombres']
+    });
+  });
+
+  it('reassembles notes stored on overflow pages', () => {
+    const notes = readAnkiPackage(createZip({ 'collection.anki2': collection }));
+    const long = notes[notes.length - 1];
+
+    expect(long.fields[0]).toBe('cent');
+    expect(long.fields[2]).toBe(`hundred ${'x'.repeat(900)}`);
+  });
+
+  it('asks for a legacy export when only the new collection format is present', () => {
+    expect(() => readAnkiPackage(createZip({ 'collection.anki21b': 'zstd' })))
+      .toThrow('Support older Anki versions');
+  });
+});
+
+describe('parseAnkiText', () => {
+  it('uses the header lines for separator, columns, deck and tags', () => {
+    const text = [
+      '#separator:tab',
+      '#html:true',
+      '#deck column:1',
+      '#tags column:4',
+      '#columns:Deck\tFrench\tTahitian\tTags',
+      'Famille\tmère\tmetua vahine\tfamille noms',
+      'Famille\t"père"\tmetua tane\t'
+    ].join('\n');
+
+    expect(parseAnkiText(text)).toEqual([
+      { row: 6, deck: 'Famille', fieldNames: ['French', 'Tahitian'], fields: ['mère', 'metua vahine'], tags: ['famille', 'noms'] },
+      { row: 7, deck: 'Famille', fieldNames: ['French', 'Tahitian'], fields: ['père', 'metua tane'], tags: [] }
+    ]);
+  });
+});
+
+describe('cleanAnkiField', () => {
+  it('flattens HTML and reports dropped media', () => {
+    expect(cleanAnkiField('hōʻē[sound:one.mp3]<br>&nbsp;<i>un</i>')).toEqual({ text: 'hōʻē un', hadMedia: true });
+    expect(cleanAnkiField('piti')).toEqual({ text: 'piti', hadMedia: false });
+  });
+});
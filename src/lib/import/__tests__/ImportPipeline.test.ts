@@ -0,0 +1,157 @@
+import fs from 'fs';
+import path from 'path';
+import { isCommittable, runImport, ImportFormatError, ImportInput } from '../ImportPipeline';
+import { createZip } from './createZip';
+import type { Course } from '../../../types';
+
+const LESSONS_DIR = path.join(process.cwd(), 'public/data/lessons');
+
+const text = (content: string) => new TextEncoder().encode(content);
+
+const existingCourse = (): Course => ({
+  id: 7,
+  title: { fr: 'Tahitien 1', tah: 'Reo Tahiti 1', en: 'Tahitian 1' },
+  description: 'Premiers pas en reo tahiti',
+  level: 'Beginner',
+  category: 'language',
+  tags: [],
+  estimatedDuration: 60,
+  learningObjectives: [],
+  status: 'draft',
+  authorId: 2,
+  createdAt: 0,
+  updatedAt: 0,
+  version: 3,
+  mediaAssets: [],
+  lessons: [{
+    slug: 'salutations',
+    level: 'Beginner',
+    title: { fr: 'Salutations' },
+    summary: 'Dire bonjour',
+    tags: [],
+    isPublished: true,
+    sections: [{ kind: 'Vocabulary', title: 'Vocabulaire', vocab: [{ fr: 'Bonjour', tah: 'Ia ora na', sortOrder: 1 }] }]
+  }]
+});
+
+const input = (filename: string, bytes: Uint8Array, overrides: Partial<ImportInput> = {}): ImportInput => ({
+  filename,
+  bytes,
+  options: {},
+  existingCourses: [existingCourse()],
+  authorId: 1,
+  ...overrides
+});
+
+describe('runImport', () => {
+  it('reports row-level problems in a vocabulary sheet and plans the rest', async () => {
+    const csv = [
+      'Leçon;Français;Tahitien;English;Couleur',
+      'Salutations;Bonjour;Ia ora na;Hello;',
+      'Salutations;Merci;Māuruuru;Thank you;',
+      'Salutations;;Nana;Bye;',
+      'Salutations;merci;Māuruuru roa;;',
+      'Les nombres;Un;;One;'
+    ].join('\n');
+
+    const report = await runImport(input('vocabulaire.csv', text(csv), { options: { targetCourseId: 7 } }));
+
+    expect(report.format).toBe('vocab-sheet');
+    expect(report.validationErrors).toEqual([
+      expect.objectContaining({ row: 1, field: 'Couleur', severity: 'warning' }),
+      expect.objectContaining({ row: 4, field: 'fr', message: 'French term is required', severity: 'error' }),
+      expect.objectContaining({ row: 5, field: 'fr', severity: 'warning', value: 'merci' }),
+      expect.objectContaining({ row: 6, field: 'tah', severity: 'warning' })
+    ]);
+
+    expect(report.plans).toHaveLength(1);
+    const [plan] = report.plans;
+    expect(plan.action).toBe('update');
+    expect((plan.course as Course).id).toBe(7);
+    expect(plan.course.lessons.map(lesson => lesson.slug)).toEqual(['salutations', 'les-nombres']);
+    expect(plan.course.lessons[0].sections[0].vocab!.map(item => item.fr)).toEqual(['Bonjour', 'Merci']);
+    expect(plan.changes.map(change => `${change.type} ${change.label}`)).toEqual([
+      'modification Vocabulary "Bonjour"',
+      'addition Vocabulary "Merci"',
+      'addition Lesson "Les nombres"'
+    ]);
+    expect(report.summary).toMatchObject({ courses: 1, lessons: 2, vocab: 3, errors: 1, warnings: 3 });
+    expect(isCommittable(report)).toBe(true);
+  });
+
+  it('imports lesson files of both shapes into a new course', async () => {
+    const lessons = ['greetings-basics', 'animals-nature'].map(slug =>
+      JSON.parse(fs.readFileSync(path.join(LESSONS_DIR, `${slug}.json`), 'utf8')));
+
+    const report = await runImport(input('lessons.json', text(JSON.stringify({ lessons })), {
+      options: { courseTitle: 'Découverte' }
+    }));
+
+    expect(report.format).toBe('lesson-json');
+    expect(report.validationErrors.filter(error => error.severity === 'error')).toEqual([]);
+    expect(report.plans[0].action).toBe('create');
+    expect(report.plans[0].course.title.fr).toBe('Découverte');
+    expect(report.plans[0].course.lessons.map(lesson => lesson.slug)).toEqual(['greetings-basics', 'animals-nature']);
+    expect(report.plans[0].changes.filter(change => change.entity === 'lesson')).toHaveLength(2);
+  });
+
+  it('validates course records and matches existing courses by title', async () => {
+    const courses = [
+      { ...existingCourse(), id: undefined, description: 'Une nouvelle description du cours' },
+      { title: { fr: 'Sans titre anglais' }, description: 'trop court', level: 'Expert' }
+    ];
+
+    const report = await runImport(input('courses.json', text(JSON.stringify({ courses }))));
+
+    expect(report.validationErrors.filter(error => error.row === 2).map(error => error.field)).toEqual(
+      ['title.en', 'title.tah', 'description', 'level', 'category']
+    );
+    expect(report.plans).toHaveLength(1);
+    expect(report.plans[0]).toMatchObject({ action: 'update', course: { id: 7, version: 3, authorId: 2 } });
+    expect(report.plans[0].changes).toEqual([
+      expect.objectContaining({ entity: 'course', field: 'description' })
+    ]);
+  });
+
+  it('saves imported changes as drafts instead of publishing them', async () => {
+    const published = { ...existingCourse(), status: 'published' as const };
+    const courses = [{ ...published, id: undefined, description: 'Une nouvelle description du cours' }];
+
+    const courseReport = await runImport(input('courses.json', text(JSON.stringify({ courses })), { existingCourses: [published] }));
+    expect(courseReport.validationErrors).toEqual([
+      expect.objectContaining({ field: 'status', value: 'published', severity: 'warning' })
+    ]);
+    expect(courseReport.plans[0].course.status).toBe('draft');
+
+    const sheetReport = await runImport(input('vocabulaire.csv', text('Leçon;Français;Tahitien\nSalutations;Merci;Māuruuru'), {
+      options: { targetCourseId: 7 },
+      existingCourses: [published]
+    }));
+    expect(sheetReport.plans[0].course.status).toBe('draft');
+    expect(sheetReport.plans[0].changes).toContainEqual(expect.objectContaining({ entity: 'course', field: 'status' }));
+  });
+
+  it('turns an Anki deck into a lesson per deck and reports progress', async () => {
+    const collection = fs.readFileSync(path.join(__dirname, 'fixtures', 'collection.anki2'));
+    const progress: Array<[number, number]> = [];
+
+    const report = await runImport(
+      input('nombres.apkg', createZip({ 'collection.anki2': collection })),
+      (processed, total) => { progress.push([processed, total]); }
+    );
+
+    const lesson = report.plans[0].course.lessons[0];
+    expect(lesson.slug).toBe('les-nombres');
+    expect(lesson.sections[0].vocab![0]).toEqual({ fr: 'un', tah: 'hōʻē', en: 'one', sortOrder: 1 });
+    expect(report.validationErrors).toEqual([
+      expect.objectContaining({ row: 1, field: 'Tahitien', message: expect.stringContaining('Audio') })
+    ]);
+    expect(progress[0]).toEqual([0, 11]);
+    expect(progress[progress.length - 1]).toEqual([11, 11]);
+  });
+
+  it('rejects files it cannot read', async () => {
+    await expect(runImport(input('notes.pdf', text('%PDF')))).rejects.toThrow(ImportFormatError);
+    await expect(runImport(input('broken.json', text('{')))).rejects.toThrow('not valid JSON');
+  });
+});
@@ -0,0 +1,57 @@
+import { detectDelimiter, parseDelimited, readXlsx } from '../Spreadsheet';
+import { createZip } from './createZip';
+
+const workbook = (sheets: Record<string, string>, sharedStrings: string[]) => {
+  const names = Object.keys(sheets);
+  return createZip({
+    'xl/workbook.xml': `<workbook><sheets>${names.map((name, i) =>
+      `<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': `<Relationships>${names.map((_, i) =>
+      `<Relationship Id="rId${i + 1}" Target="worksheets/sheet${i + 1}.xml"/>`).join('')}</Relationships>`,
+    'xl/sharedStrings.xml': `<sst>${sharedStrings.map(text => `<si><t>${text}</t></si>`).join('')}</sst>`,
+    ...Object.fromEntries(names.map((name, i) => [`xl/worksheets/sheet${i + 1}.xml`, `<worksheet><sheetData>${sheets[name]}</sheetData></worksheet>`]))
+  });
+};
+
+describe('parseDelimited', () => {
+  it('handles quoted delimiters, doubled quotes and line breaks', () => {
+    const rows = parseDelimited('fr,tah,note\r\n"Bonjour, ça va",Ia ora na,"dit ""bonjour""\nle matin"\n\nMerci,Māuruuru,\n');
+
+    expect(rows).toEqual([
+      { row: 1, cells: ['fr', 'tah', 'note'] },
+      { row: 2, cells: ['Bonjour, ça va', 'Ia ora na', 'dit "bonjour"\nle matin'] },
+      { row: 5, cells: ['Merci', 'Māuruuru', ''] }
+    ]);
+  });
+
+  it('detects semicolon and tab separated exports', () => {
+    expect(detectDelimiter('fr;tah;en\nun;hōʻē;one')).toBe(';');
+    expect(detectDelimiter('fr\ttah\nun\thōʻē')).toBe('\t');
+    expect(parseDelimited('\uFEFFfr;tah\nun;hōʻē')[0].cells).toEqual(['fr', 'tah']);
+  });
+});
+
+describe('readXlsx', () => {
+  it('reads shared, inline and numeric cells of every sheet with their row numbers', () => {
+    const bytes = workbook({
+      Salutations: '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>'
+        + '<row r="3"><c r="A3" t="inlineStr"><is><t>Merci</t></is></c><c r="C3"><v>2</v></c></row>',
+      'Les nombres': '<row r="1"><c r="A1" t="s"><v>2</v></c></row>'
+    }, ['fr', 'tah', 'un &amp; deux']);
+
+    expect(readXlsx(bytes)).toEqual([
+      {
+        name: 'Salutations',
+        rows: [
+          { row: 1, cells: ['fr', 'tah'] },
+          { row: 3, cells: ['Merci', '', '2'] }
+        ]
+      },
+      { name: 'Les nombres', rows: [{ row: 1, cells: ['un & deux'] }] }
+    ]);
+  });
+
+  it('rejects archives that are not workbooks', () => {
+    expect(() => readXlsx(createZip({ 'readme.txt': 'hello' }))).toThrow('Not an XLSX workbook');
+  });
+});
@@ -3,6 +3,26 @@
 
 import { UserProgress, Lesson, MediaAsset } from './types';
 
+export interface OfflineAction {
+  id?: number;
+  /** Client-generated id that makes re-sending the action idempotent */
+  actionId: string;
+  /**
+   * The user who queued the action, the only account it is synced to.
+   * Actions queued before owners were recorded have none and are never sent.
+   */
+  userId?: string;
+  type: 'progress_update' | 'lesson_completion' | 'vocabulary_practice';
+  data: Record<string, unknown>;
+  timestamp: number;
+  synced: boolean;
+  retryCount: number;
+  nextAttemptAt: number;
+  /** Set when the server rejected the action as invalid; it is not retried */
+  failed?: boolean;
+  lastError?: string;
+}
+
 interface DBSchema {
   lessons: {
     key: string;
@@ -30,13 +50,7 @@ interface DBSchema {
   };
   offlineActions: {
     key: number;
-    value: {
-      id?: number;
-      type: 'progress_update' | 'lesson_completion' | 'vocabulary_practice';
-      data: Record<string, unknown>;
-      timestamp: number;
-      synced: boolean;
-    };
+    value: OfflineAction;
     indexes: {
       synced: boolean;
       timestamp: number;
@@ -46,7 +60,8 @@ interface DBSchema {
 
 class IndexedDBService {
   private db: IDBDatabase | null = null;
-  private readonly dbName = 'TahitianTutorDB';
+  // Kept apart from the lesson cache database, which has its own schema versions
+  private readonly dbName = 'TahitianTutorOfflineDB';
   private readonly dbVersion = 1;
 
   /**
@@ -277,48 +292,62 @@ class IndexedDBService {
   /**
    * Add offline action for later synchronization
    */
-  async addOfflineAction(type: string, data: Record<string, unknown>): Promise<void> {
+  async addOfflineAction(userId: string, type: OfflineAction['type'], data: Record<string, unknown>): Promise<OfflineAction> {
     if (!this.db) throw new Error('Database not initialized');
 
+    const action: OfflineAction = {
+      actionId: generateActionId(),
+      userId,
+      type,
+      data,
+      timestamp: Date.now(),
+      synced: false,
+      retryCount: 0,
+      nextAttemptAt: 0
+    };
+
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction(['offlineActions'], 'readwrite');
       const store = transaction.objectStore('offlineActions');
-      const action = {
-        type,
-        data,
-        timestamp: Date.now(),
-        synced: false
-      };
       const request = store.add(action);
 
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => resolve({ ...action, id: request.result as number });
       request.onerror = () => reject(new Error('Failed to add offline action'));
     });
   }
 
   /**
-   * Get unsynced offline actions
+   * Update a queued offline action (retry bookkeeping)
    */
-  async getUnsyncedActions(): Promise<Array<{ id?: number; type: string; data: Record<string, unknown>; timestamp: number; synced: boolean }>> {
+  async updateOfflineAction(action: OfflineAction): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['offlineActions'], 'readwrite');
+      const store = transaction.objectStore('offlineActions');
+      const request = store.put(action);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to update offline action'));
+    });
+  }
+
+  /**
+   * Get the user's unsynced offline actions. Other users' actions on this
+   * device wait until they sign in again.
+   */
+  async getUnsyncedActions(userId: string): Promise<OfflineAction[]> {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
       try {
         const transaction = this.db!.transaction(['offlineActions'], 'readonly');
         const store = transaction.objectStore('offlineActions');
-        
-        // Check if the index exists before using it
-        if (!store.indexNames.contains('synced')) {
-          console.warn('Synced index not found, returning empty array');
-          resolve([]);
-          return;
-        }
-        
-        const index = store.index('synced');
-        const request = index.getAll(false);
+        // Booleans are not valid IndexedDB keys, so the synced flag is filtered here
+        const request = store.getAll();
 
         request.onsuccess = () => {
-          resolve(request.result || []);
+          resolve(pendingActionsOf(request.result || [], userId));
         };
         
         request.onerror = (event) => {
@@ -423,6 +452,18 @@ class IndexedDBService {
   }
 }
 
+/** The actions still to send for `userId`: queued by them, not yet synced and not rejected */
+export function pendingActionsOf(actions: OfflineAction[], userId: string): OfflineAction[] {
+  return actions.filter(action => action.userId === userId && !action.synced && !action.failed);
+}
+
+function generateActionId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
 // Create singleton instance
 export const indexedDBService = new IndexedDBService();
 
@@ -0,0 +1,126 @@
+// Signing keys and JWT handling for LTI 1.3: the tool signs deep-linking
+// responses and token requests with its own RSA key, and verifies platform
+// id_tokens against the keys the platform publishes at its JWKS URL.
+
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, type JsonWebKey, type KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import type { LTIPlatformRegistration } from '../../types/integration';
+
+export const JWKS_CACHE_TTL_MS = 5 * 60 * 1000;
+/** An unknown `kid` triggers a refetch, but not more often than this */
+const JWKS_MIN_REFETCH_MS = 10 * 1000;
+
+export class LtiError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'LtiError';
+  }
+}
+
+export interface SigningKey {
+  kid: string;
+  privateKey: KeyObject;
+  /** Public half as published in our JWKS */
+  publicJwk: JsonWebKey;
+}
+
+function signingKeyFrom(privateKey: KeyObject): SigningKey {
+  const jwk = createPublicKey(privateKey).export({ format: 'jwk' });
+  const kid = createHash('sha256').update(String(jwk.n)).digest('base64url').slice(0, 16);
+  return { kid, privateKey, publicJwk: { ...jwk, kid, alg: 'RS256', use: 'sig' } };
+}
+
+export function signingKeyFromPem(pem: string): SigningKey {
+  return signingKeyFrom(createPrivateKey(pem));
+}
+
+export function generateSigningKey(): SigningKey {
+  return signingKeyFrom(generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey);
+}
+
+export function signJwt(payload: object, key: SigningKey, options: jwt.SignOptions = {}): string {
+  return jwt.sign(payload, key.privateKey, { ...options, algorithm: 'RS256', keyid: key.kid });
+}
+
+interface CachedKeySet {
+  keys: JsonWebKey[];
+  fetchedAt: number;
+}
+
+function findKey(keys: JsonWebKey[], kid: string | undefined): JsonWebKey | undefined {
+  if (kid === undefined) return keys.length === 1 ? keys[0] : undefined;
+  return keys.find(key => key.kid === kid);
+}
+
+/**
+ * Platform key sets by URL. Keys are refetched after the TTL, or earlier when
+ * a token names a key we have not seen, since platforms rotate keys without
+ * notice.
+ */
+export class JwksCache {
+  private sets = new Map<string, CachedKeySet>();
+
+  constructor(
+    private readonly fetcher: typeof fetch = fetch,
+    private readonly now: () => number = Date.now,
+    private readonly ttlMs = JWKS_CACHE_TTL_MS
+  ) {}
+
+  async getKey(jwksUrl: string, kid: string | undefined): Promise<KeyObject> {
+    let set = this.sets.get(jwksUrl);
+    let key = set && this.now() - set.fetchedAt < this.ttlMs ? findKey(set.keys, kid) : undefined;
+
+    if (!key && (!set || this.now() - set.fetchedAt >= JWKS_MIN_REFETCH_MS)) {
+      set = await this.fetchKeys(jwksUrl);
+      key = findKey(set.keys, kid);
+    }
+    if (!key) throw new LtiError(`The platform key set has no key ${kid ?? 'for this token'}`, 401);
+
+    return createPublicKey({ key, format: 'jwk' });
+  }
+
+  private async fetchKeys(jwksUrl: string): Promise<CachedKeySet> {
+    let body: { keys?: unknown };
+    try {
+      const response = await this.fetcher(jwksUrl, { headers: { Accept: 'application/json' } });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      body = await response.json();
+    } catch (error) {
+      throw new LtiError(`Could not load the platform key set: ${(error as Error).message}`, 502);
+    }
+
+    const set = { keys: Array.isArray(body.keys) ? (body.keys as JsonWebKey[]) : [], fetchedAt: this.now() };
+    this.sets.set(jwksUrl, set);
+    return set;
+  }
+}
+
+/**
+ * Verifies a JWT signed by the platform: RS256 only, signed by a key from the
+ * platform JWKS, issued by the platform for our client id and not expired
+ */
+export async function verifyPlatformJwt(
+  token: string,
+  platform: LTIPlatformRegistration,
+  jwks: JwksCache
+): Promise<jwt.JwtPayload> {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new LtiError('id_token is not a JWT', 401);
+  }
+  if (decoded.header.alg !== 'RS256') {
+    throw new LtiError(`id_token must be signed with RS256, not ${decoded.header.alg}`, 401);
+  }
+
+  const key = await jwks.getKey(platform.jwksUrl, decoded.header.kid);
+  try {
+    return jwt.verify(token, key, {
+      algorithms: ['RS256'],
+      issuer: platform.issuer,
+      audience: platform.clientId,
+      clockTolerance: 5
+    }) as jwt.JwtPayload;
+  } catch (error) {
+    throw new LtiError(`Invalid id_token: ${(error as Error).message}`, 401);
+  }
+}
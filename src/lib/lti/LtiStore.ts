@@ -0,0 +1,205 @@
+// Server-side storage for LTI 1.3 platform registrations, OIDC login states
+// and validated launches
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LTI13Launch, LTILoginState, LTIPlatformRegistration } from '../../types/integration';
+
+export interface LtiStore {
+  /** With one client id per platform the issuer is enough; otherwise pass the client id too */
+  findPlatform(issuer: string, clientId?: string): Promise<LTIPlatformRegistration | null>;
+  getPlatform(id: string): Promise<LTIPlatformRegistration | null>;
+  savePlatform(platform: LTIPlatformRegistration): Promise<void>;
+  saveLoginState(login: LTILoginState): Promise<void>;
+  /**
+   * Returns the login and deletes it, so a state (and the nonce bound to it)
+   * can only complete one launch. Expired logins return null.
+   */
+  consumeLoginState(state: string, now: number): Promise<LTILoginState | null>;
+  saveLaunch(launch: LTI13Launch): Promise<void>;
+  getLaunch(id: string): Promise<LTI13Launch | null>;
+  /** Most recent launch of a lesson by the user that came with a line item for grades */
+  findGradedLaunch(userId: string, lessonSlug: string): Promise<LTI13Launch | null>;
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+/**
+ * Process-local store for development and tests
+ */
+export class MemoryLtiStore implements LtiStore {
+  private platforms = new Map<string, LTIPlatformRegistration>();
+  private logins = new Map<string, LTILoginState>();
+  private launches = new Map<string, LTI13Launch>();
+
+  async findPlatform(issuer: string, clientId?: string): Promise<LTIPlatformRegistration | null> {
+    const matches = [...this.platforms.values()].filter(platform =>
+      platform.issuer === issuer && (clientId === undefined || platform.clientId === clientId)
+    );
+    return matches.length === 1 ? clone(matches[0]) : null;
+  }
+
+  async getPlatform(id: string): Promise<LTIPlatformRegistration | null> {
+    const platform = this.platforms.get(id);
+    return platform ? clone(platform) : null;
+  }
+
+  async savePlatform(platform: LTIPlatformRegistration): Promise<void> {
+    this.platforms.set(platform.id, clone(platform));
+  }
+
+  async saveLoginState(login: LTILoginState): Promise<void> {
+    this.logins.set(login.state, clone(login));
+  }
+
+  async consumeLoginState(state: string, now: number): Promise<LTILoginState | null> {
+    const login = this.logins.get(state);
+    this.logins.delete(state);
+    return login && login.expiresAt > now ? login : null;
+  }
+
+  async saveLaunch(launch: LTI13Launch): Promise<void> {
+    this.launches.set(launch.id, clone(launch));
+  }
+
+  async getLaunch(id: string): Promise<LTI13Launch | null> {
+    const launch = this.launches.get(id);
+    return launch ? clone(launch) : null;
+  }
+
+  async findGradedLaunch(userId: string, lessonSlug: string): Promise<LTI13Launch | null> {
+    const launch = [...this.launches.values()]
+      .filter(l => l.userId === userId && l.lessonSlug === lessonSlug && l.ags?.lineItem)
+      .sort((a, b) => b.createdAt - a.createdAt)[0];
+    return launch ? clone(launch) : null;
+  }
+}
+
+interface PlatformRow {
+  id: string;
+  name: string;
+  issuer: string;
+  client_id: string;
+  deployment_ids: string[];
+  auth_login_url: string;
+  auth_token_url: string;
+  jwks_url: string;
+}
+
+function platformFromRow(row: PlatformRow): LTIPlatformRegistration {
+  return {
+    id: row.id,
+    name: row.name,
+    issuer: row.issuer,
+    clientId: row.client_id,
+    deploymentIds: row.deployment_ids ?? [],
+    authLoginUrl: row.auth_login_url,
+    authTokenUrl: row.auth_token_url,
+    jwksUrl: row.jwks_url
+  };
+}
+
+/**
+ * Uses the `lti_platforms`, `lti_login_states` and `lti_launches` tables. The
+ * launch itself is a JSON column; user, lesson and time are copied out for
+ * the grade lookup.
+ */
+export class SupabaseLtiStore implements LtiStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async findPlatform(issuer: string, clientId?: string): Promise<LTIPlatformRegistration | null> {
+    let query = this.supabase.from('lti_platforms').select('*').eq('issuer', issuer);
+    if (clientId !== undefined) query = query.eq('client_id', clientId);
+    const { data, error } = await query.limit(2);
+
+    if (error) throw new Error('Failed to load LTI platform');
+    const rows = (data ?? []) as PlatformRow[];
+    return rows.length === 1 ? platformFromRow(rows[0]) : null;
+  }
+
+  async getPlatform(id: string): Promise<LTIPlatformRegistration | null> {
+    const { data, error } = await this.supabase.from('lti_platforms').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error('Failed to load LTI platform');
+    return data ? platformFromRow(data as PlatformRow) : null;
+  }
+
+  async savePlatform(platform: LTIPlatformRegistration): Promise<void> {
+    const row: PlatformRow = {
+      id: platform.id,
+      name: platform.name,
+      issuer: platform.issuer,
+      client_id: platform.clientId,
+      deployment_ids: platform.deploymentIds,
+      auth_login_url: platform.authLoginUrl,
+      auth_token_url: platform.authTokenUrl,
+      jwks_url: platform.jwksUrl
+    };
+    const { error } = await this.supabase.from('lti_platforms').upsert(row);
+    if (error) throw new Error('Failed to save LTI platform');
+  }
+
+  async saveLoginState(login: LTILoginState): Promise<void> {
+    const { error } = await this.supabase.from('lti_login_states').insert({
+      state: login.state,
+      nonce: login.nonce,
+      platform_id: login.platformId,
+      target_link_uri: login.targetLinkUri,
+      expires_at: login.expiresAt
+    });
+    if (error) throw new Error('Failed to save LTI login');
+  }
+
+  async consumeLoginState(state: string, now: number): Promise<LTILoginState | null> {
+    // Deleting and returning in one statement makes the state single-use
+    const { data, error } = await this.supabase
+      .from('lti_login_states')
+      .delete()
+      .eq('state', state)
+      .select('state, nonce, platform_id, target_link_uri, expires_at');
+
+    if (error) throw new Error('Failed to load LTI login');
+    const row = (data ?? [])[0] as
+      | { state: string; nonce: string; platform_id: string; target_link_uri: string; expires_at: number }
+      | undefined;
+    if (!row || row.expires_at <= now) return null;
+    return {
+      state: row.state,
+      nonce: row.nonce,
+      platformId: row.platform_id,
+      targetLinkUri: row.target_link_uri,
+      expiresAt: row.expires_at
+    };
+  }
+
+  async saveLaunch(launch: LTI13Launch): Promise<void> {
+    const { error } = await this.supabase.from('lti_launches').upsert({
+      id: launch.id,
+      user_id: launch.userId,
+      lesson_slug: launch.lessonSlug ?? null,
+      has_line_item: Boolean(launch.ags?.lineItem),
+      created_at: launch.createdAt,
+      launch
+    });
+    if (error) throw new Error('Failed to save LTI launch');
+  }
+
+  async getLaunch(id: string): Promise<LTI13Launch | null> {
+    const { data, error } = await this.supabase.from('lti_launches').select('launch').eq('id', id).maybeSingle();
+    if (error) throw new Error('Failed to load LTI launch');
+    return data ? (data as { launch: LTI13Launch }).launch : null;
+  }
+
+  async findGradedLaunch(userId: string, lessonSlug: string): Promise<LTI13Launch | null> {
+    const { data, error } = await this.supabase
+      .from('lti_launches')
+      .select('launch')
+      .eq('user_id', userId)
+      .eq('lesson_slug', lessonSlug)
+      .eq('has_line_item', true)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new Error('Failed to load LTI launch');
+    return data ? (data as { launch: LTI13Launch }).launch : null;
+  }
+}
@@ -0,0 +1,403 @@
+// LTI 1.3 tool provider: OIDC third-party login, launch validation, deep
+// linking responses and Assignment and Grade Services (AGS) score passback.
+// Routes under /api/lti are thin wrappers around this class.
+
+import { randomUUID } from 'crypto';
+import type jwt from 'jsonwebtoken';
+import { summarizeLessonProgress } from '../progress/ProgressModel';
+import { JwksCache, LtiError, signJwt, verifyPlatformJwt, type SigningKey } from './LtiJwt';
+import type { LtiStore } from './LtiStore';
+import type { Lesson, UserProgress } from '../../types';
+import type {
+  LTI13Launch,
+  LTIMessageType,
+  LTIPlatformRegistration
+} from '../../types/integration';
+
+const LTI = 'https://purl.imsglobal.org/spec/lti/claim/';
+const LTI_DL = 'https://purl.imsglobal.org/spec/lti-dl/claim/';
+
+export const LTI_CLAIMS = {
+  messageType: `${LTI}message_type`,
+  version: `${LTI}version`,
+  deploymentId: `${LTI}deployment_id`,
+  targetLinkUri: `${LTI}target_link_uri`,
+  resourceLink: `${LTI}resource_link`,
+  roles: `${LTI}roles`,
+  context: `${LTI}context`,
+  custom: `${LTI}custom`,
+  gradeService: 'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint',
+  deepLinkingSettings: `${LTI_DL}deep_linking_settings`,
+  deepLinkingData: `${LTI_DL}data`,
+  contentItems: `${LTI_DL}content_items`
+};
+
+export const AGS_SCOPES = {
+  lineItem: 'https://purl.imsglobal.org/spec/lti-ags/scope/lineitem',
+  score: 'https://purl.imsglobal.org/spec/lti-ags/scope/score'
+};
+
+const MESSAGE_TYPES: LTIMessageType[] = ['LtiResourceLinkRequest', 'LtiDeepLinkingRequest'];
+
+export const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+/** How long a launch id can be used to finish deep linking */
+export const LAUNCH_TTL_MS = 60 * 60 * 1000;
+
+/** Parameters of a third-party initiated login, from the query or form body */
+export interface LoginInitiation {
+  iss?: string;
+  login_hint?: string;
+  target_link_uri?: string;
+  lti_message_hint?: string;
+  client_id?: string;
+  lti_deployment_id?: string;
+}
+
+/** Score as posted to an AGS line item */
+export interface AgsScore {
+  userId: string;
+  scoreGiven: number;
+  scoreMaximum: number;
+  activityProgress: 'Initialized' | 'Started' | 'InProgress' | 'Submitted' | 'Completed';
+  gradingProgress: 'FullyGraded' | 'Pending' | 'PendingManual' | 'Failed' | 'NotReady';
+  timestamp: string;
+}
+
+export interface LtiToolOptions {
+  store: LtiStore;
+  key: SigningKey;
+  jwks?: JwksCache;
+  fetcher?: typeof fetch;
+  now?: () => number;
+}
+
+export function ltiUserId(platformId: string, subject: string): string {
+  return `lti:${platformId}:${subject}`;
+}
+
+export function isLtiUserId(userId: string): boolean {
+  return userId.startsWith('lti:');
+}
+
+export function isInstructor(launch: Pick<LTI13Launch, 'roles'>): boolean {
+  return launch.roles.some(role => /#(Instructor|Administrator|ContentDeveloper)$/.test(role));
+}
+
+/**
+ * The lesson score reported to the LMS: the mean best score of the lesson's
+ * graded sections, fully graded once every tracked section is completed
+ */
+export function scoreFromProgress(lesson: Lesson, progress: UserProgress[], subject: string, now: number): AgsScore {
+  const summary = summarizeLessonProgress(lesson, progress);
+  return {
+    userId: subject,
+    scoreGiven: summary.averageScore,
+    scoreMaximum: 100,
+    activityProgress: summary.completed ? 'Completed' : summary.attempts > 0 ? 'InProgress' : 'Initialized',
+    gradingProgress: summary.completed ? 'FullyGraded' : 'Pending',
+    timestamp: new Date(now).toISOString()
+  };
+}
+
+/** AGS scores are posted to `<line item URL>/scores`, keeping any query string */
+export function scoresUrl(lineItem: string): string {
+  const url = new URL(lineItem);
+  url.pathname = `${url.pathname.replace(/\/$/, '')}/scores`;
+  return url.toString();
+}
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** A page that posts `fields` to `action` as soon as it loads */
+export function autoSubmitForm(action: string, fields: Record<string, string>): string {
+  const inputs = Object.entries(fields)
+    .map(([name, value]) => `<input type="hidden" name="${escapeAttribute(name)}" value="${escapeAttribute(value)}">`)
+    .join('');
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>TahitiSpeak</title></head><body>` +
+    `<form id="lti" method="post" action="${escapeAttribute(action)}">${inputs}<noscript><button type="submit">Continue</button></noscript></form>` +
+    `<script>document.getElementById('lti').submit();</script></body></html>`;
+}
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+const asString = (value: unknown): string | undefined => (typeof value === 'string' && value !== '' ? value : undefined);
+
+export class LtiTool {
+  private readonly store: LtiStore;
+  private readonly key: SigningKey;
+  private readonly jwks: JwksCache;
+  private readonly fetcher: typeof fetch;
+  private readonly now: () => number;
+  private tokens = new Map<string, { token: string; expiresAt: number }>();
+
+  constructor(options: LtiToolOptions) {
+    this.store = options.store;
+    this.key = options.key;
+    this.fetcher = options.fetcher ?? fetch;
+    this.now = options.now ?? Date.now;
+    this.jwks = options.jwks ?? new JwksCache(this.fetcher, this.now);
+  }
+
+  /** Our public keys, served at the JWKS URL registered with platforms */
+  get jwksDocument(): { keys: object[] } {
+    return { keys: [this.key.publicJwk] };
+  }
+
+  /**
+   * Step one of the launch: remembers a fresh state and nonce and returns the
+   * platform authorization URL to redirect the browser to
+   */
+  async initiateLogin(params: LoginInitiation, launchUrl: string): Promise<string> {
+    if (!params.iss || !params.login_hint || !params.target_link_uri) {
+      throw new LtiError('iss, login_hint and target_link_uri are required');
+    }
+
+    const platform = await this.store.findPlatform(params.iss, params.client_id);
+    if (!platform) throw new LtiError(`No LTI platform is registered for ${params.iss}`, 404);
+    if (params.lti_deployment_id && !platform.deploymentIds.includes(params.lti_deployment_id)) {
+      throw new LtiError('Unknown deployment', 403);
+    }
+    // The target must be this tool; anything else would make the login an open redirect
+    if (new URL(params.target_link_uri, launchUrl).origin !== new URL(launchUrl).origin) {
+      throw new LtiError('target_link_uri does not belong to this tool');
+    }
+
+    const login = {
+      state: randomUUID(),
+      nonce: randomUUID(),
+      platformId: platform.id,
+      targetLinkUri: params.target_link_uri,
+      expiresAt: this.now() + LOGIN_STATE_TTL_MS
+    };
+    await this.store.saveLoginState(login);
+
+    const url = new URL(platform.authLoginUrl);
+    url.searchParams.set('scope', 'openid');
+    url.searchParams.set('response_type', 'id_token');
+    url.searchParams.set('response_mode', 'form_post');
+    url.searchParams.set('prompt', 'none');
+    url.searchParams.set('client_id', platform.clientId);
+    url.searchParams.set('redirect_uri', launchUrl);
+    url.searchParams.set('login_hint', params.login_hint);
+    url.searchParams.set('state', login.state);
+    url.searchParams.set('nonce', login.nonce);
+    if (params.lti_message_hint) url.searchParams.set('lti_message_hint', params.lti_message_hint);
+    return url.toString();
+  }
+
+  /**
+   * Step two: checks the posted id_token against the login it answers and the
+   * platform's keys, then records the launch
+   */
+  async validateLaunch(idToken: string | undefined, state: string | undefined): Promise<LTI13Launch> {
+    if (!idToken || !state) throw new LtiError('id_token and state are required');
+
+    const login = await this.store.consumeLoginState(state, this.now());
+    if (!login) throw new LtiError('Unknown or expired login state; launch again from the LMS', 401);
+    const platform = await this.store.getPlatform(login.platformId);
+    if (!platform) throw new LtiError('The platform for this login is no longer registered', 401);
+
+    const claims = await verifyPlatformJwt(idToken, platform, this.jwks);
+    if (claims.nonce !== login.nonce) throw new LtiError('id_token nonce does not match the login', 401);
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== platform.clientId) {
+      throw new LtiError('id_token azp does not match our client id', 401);
+    }
+
+    const launch = this.launchFromClaims(claims, platform);
+    await this.store.saveLaunch(launch);
+    return launch;
+  }
+
+  private launchFromClaims(claims: jwt.JwtPayload, platform: LTIPlatformRegistration): LTI13Launch {
+    if (claims[LTI_CLAIMS.version] !== '1.3.0') throw new LtiError('Only LTI 1.3.0 launches are supported');
+
+    const messageType = claims[LTI_CLAIMS.messageType] as LTIMessageType;
+    if (!MESSAGE_TYPES.includes(messageType)) throw new LtiError(`Unsupported message type ${String(messageType)}`);
+
+    const deploymentId = asString(claims[LTI_CLAIMS.deploymentId]);
+    if (!deploymentId || !platform.deploymentIds.includes(deploymentId)) throw new LtiError('Unknown deployment', 403);
+
+    const subject = asString(claims.sub);
+    if (!subject) throw new LtiError('Anonymous launches are not supported; the platform must send sub');
+
+    const resourceLink = asRecord(claims[LTI_CLAIMS.resourceLink]);
+    if (messageType === 'LtiResourceLinkRequest' && !asString(resourceLink.id)) {
+      throw new LtiError('Resource link launches require resource_link.id');
+    }
+
+    const settings = asRecord(claims[LTI_CLAIMS.deepLinkingSettings]);
+    const returnUrl = asString(settings.deep_link_return_url);
+    if (messageType === 'LtiDeepLinkingRequest' && !returnUrl) {
+      throw new LtiError('Deep linking requests require deep_link_return_url');
+    }
+
+    const custom: Record<string, string> = {};
+    for (const [name, value] of Object.entries(asRecord(claims[LTI_CLAIMS.custom]))) {
+      if (value !== null && value !== undefined) custom[name] = String(value);
+    }
+    const target = asString(claims[LTI_CLAIMS.targetLinkUri]);
+    const lessonSlug = custom.lesson_slug ?? (target ? new URL(target).searchParams.get('lesson') ?? undefined : undefined);
+
+    const gradeService = asRecord(claims[LTI_CLAIMS.gradeService]);
+    const context = asRecord(claims[LTI_CLAIMS.context]);
+    const now = this.now();
+
+    return {
+      id: randomUUID(),
+      platformId: platform.id,
+      deploymentId,
+      messageType,
+      userId: ltiUserId(platform.id, subject),
+      subject,
+      name: asString(claims.name),
+      email: asString(claims.email),
+      roles: Array.isArray(claims[LTI_CLAIMS.roles]) ? (claims[LTI_CLAIMS.roles] as unknown[]).map(String) : [],
+      contextId: asString(context.id),
+      contextTitle: asString(context.title),
+      resourceLinkId: asString(resourceLink.id),
+      lessonSlug,
+      custom,
+      ags: Object.keys(gradeService).length > 0
+        ? {
+            lineItem: asString(gradeService.lineitem),
+            lineItems: asString(gradeService.lineitems),
+            scopes: Array.isArray(gradeService.scope) ? gradeService.scope.map(String) : []
+          }
+        : undefined,
+      deepLinking: returnUrl
+        ? {
+            returnUrl,
+            acceptTypes: Array.isArray(settings.accept_types) ? settings.accept_types.map(String) : [],
+            acceptMultiple: settings.accept_multiple !== false,
+            data: asString(settings.data)
+          }
+        : undefined,
+      createdAt: now,
+      expiresAt: now + LAUNCH_TTL_MS
+    };
+  }
+
+  /** A deep-linking launch that can still be answered, for the lesson picker */
+  async getDeepLinkingLaunch(launchId: string): Promise<LTI13Launch> {
+    const launch = await this.store.getLaunch(launchId);
+    if (!launch || launch.messageType !== 'LtiDeepLinkingRequest' || !launch.deepLinking) {
+      throw new LtiError('Unknown deep linking session', 404);
+    }
+    if (launch.expiresAt <= this.now()) throw new LtiError('This deep linking session has expired', 410);
+    if (!isInstructor(launch)) throw new LtiError('Only instructors can add lessons', 403);
+    return launch;
+  }
+
+  /**
+   * Builds the signed LtiDeepLinkingResponse that adds the chosen lessons to
+   * the LMS course. Each lesson becomes a resource link with a line item, so
+   * the LMS creates a gradebook column for it. The session is single-use.
+   */
+  async createDeepLinkingResponse(
+    launchId: string,
+    lessons: Lesson[],
+    launchUrl: string
+  ): Promise<{ returnUrl: string; jwt: string }> {
+    const launch = await this.getDeepLinkingLaunch(launchId);
+    const settings = launch.deepLinking!;
+    if (!settings.acceptTypes.includes('ltiResourceLink')) {
+      throw new LtiError('The platform does not accept LTI resource links here');
+    }
+    if (lessons.length > 1 && !settings.acceptMultiple) {
+      throw new LtiError('The platform accepts only one lesson here');
+    }
+
+    const platform = await this.store.getPlatform(launch.platformId);
+    if (!platform) throw new LtiError('The platform for this launch is no longer registered', 404);
+
+    const contentItems = lessons.map(lesson => ({
+      type: 'ltiResourceLink',
+      title: lesson.title.fr,
+      text: lesson.summary,
+      url: launchUrl,
+      custom: { lesson_slug: lesson.slug },
+      lineItem: { scoreMaximum: 100, label: lesson.title.fr, resourceId: lesson.slug, tag: 'lesson' }
+    }));
+
+    const token = signJwt(
+      {
+        nonce: randomUUID(),
+        [LTI_CLAIMS.messageType]: 'LtiDeepLinkingResponse',
+        [LTI_CLAIMS.version]: '1.3.0',
+        [LTI_CLAIMS.deploymentId]: launch.deploymentId,
+        [LTI_CLAIMS.contentItems]: contentItems,
+        ...(settings.data ? { [LTI_CLAIMS.deepLinkingData]: settings.data } : {})
+      },
+      this.key,
+      { issuer: platform.clientId, audience: platform.issuer, expiresIn: '5m' }
+    );
+
+    await this.store.saveLaunch({ ...launch, expiresAt: this.now() });
+    return { returnUrl: settings.returnUrl, jwt: token };
+  }
+
+  /**
+   * OAuth 2 client credentials grant with a signed JWT assertion, cached until
+   * shortly before the platform's token expires
+   */
+  private async getAccessToken(platform: LTIPlatformRegistration, scopes: string[]): Promise<string> {
+    const cacheKey = `${platform.id} ${scopes.join(' ')}`;
+    const cached = this.tokens.get(cacheKey);
+    if (cached && cached.expiresAt > this.now()) return cached.token;
+
+    const assertion = signJwt({}, this.key, {
+      issuer: platform.clientId,
+      subject: platform.clientId,
+      audience: platform.authTokenUrl,
+      expiresIn: '5m',
+      jwtid: randomUUID()
+    });
+    const response = await this.fetcher(platform.authTokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+        client_assertion: assertion,
+        scope: scopes.join(' ')
+      }).toString()
+    });
+    if (!response.ok) throw new LtiError(`The platform refused an access token (HTTP ${response.status})`, 502);
+
+    const body = (await response.json()) as { access_token?: string; expires_in?: number };
+    if (!body.access_token) throw new LtiError('The platform token response has no access_token', 502);
+
+    const lifetimeSeconds = typeof body.expires_in === 'number' ? body.expires_in : 3600;
+    this.tokens.set(cacheKey, { token: body.access_token, expiresAt: this.now() + Math.max(0, lifetimeSeconds - 60) * 1000 });
+    return body.access_token;
+  }
+
+  /**
+   * Posts a score to the launch's line item. Returns false when the launch
+   * has no line item or the platform did not grant the score scope.
+   */
+  async publishScore(launch: LTI13Launch, score: AgsScore): Promise<boolean> {
+    if (!launch.ags?.lineItem || !launch.ags.scopes.includes(AGS_SCOPES.score)) return false;
+
+    const platform = await this.store.getPlatform(launch.platformId);
+    if (!platform) throw new LtiError('The platform for this launch is no longer registered', 404);
+
+    const token = await this.getAccessToken(platform, [AGS_SCOPES.score]);
+    const response = await this.fetcher(scoresUrl(launch.ags.lineItem), {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/vnd.ims.lis.v1.score+json'
+      },
+      body: JSON.stringify(score)
+    });
+    if (!response.ok) throw new LtiError(`The platform rejected the score (HTTP ${response.status})`, 502);
+    return true;
+  }
+
+  async findGradedLaunch(userId: string, lessonSlug: string): Promise<LTI13Launch | null> {
+    return this.store.findGradedLaunch(userId, lessonSlug);
+  }
+}
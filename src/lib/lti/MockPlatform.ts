@@ -0,0 +1,171 @@
+// A minimal LTI 1.3 platform (the LMS side) for tests and local development.
+// It answers the tool's OIDC redirects with signed id_tokens, serves its JWKS,
+// issues AGS access tokens against the tool's signed assertions and records
+// the scores it receives. `fetch` routes its URLs in-process, so it can be
+// handed to LtiTool as its fetcher.
+
+import { createPublicKey, randomUUID, type JsonWebKey } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { generateSigningKey, signJwt, type SigningKey } from './LtiJwt';
+import { AGS_SCOPES, LTI_CLAIMS } from './LtiTool';
+import type { AgsScore } from './LtiTool';
+import type { LTIMessageType, LTIPlatformRegistration } from '../../types/integration';
+
+export interface MockLaunchOptions {
+  messageType?: LTIMessageType;
+  subject?: string;
+  name?: string;
+  roles?: string[];
+  custom?: Record<string, string>;
+  /** Line item the launch grants scores for; omitted for deep linking */
+  lineItem?: string;
+  /** Overrides applied to the id_token claims, to simulate broken platforms */
+  claims?: Record<string, unknown>;
+}
+
+export interface ReceivedScore {
+  lineItem: string;
+  score: AgsScore;
+}
+
+const INSTRUCTOR = 'http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor';
+const LEARNER = 'http://purl.imsglobal.org/vocab/lis/v2/membership#Learner';
+
+function mockResponse(status: number, body: unknown): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body
+  } as Response;
+}
+
+export class MockLtiPlatform {
+  readonly issuer: string;
+  readonly clientId = 'tahitispeak-tool';
+  readonly deploymentId = 'deployment-1';
+  readonly key: SigningKey = generateSigningKey();
+  readonly scores: ReceivedScore[] = [];
+  private accessTokens = new Set<string>();
+
+  constructor(private readonly toolJwk: JsonWebKey, issuer = 'https://lms.example.test') {
+    this.issuer = issuer;
+  }
+
+  get registration(): LTIPlatformRegistration {
+    return {
+      id: 'mock-lms',
+      name: 'Mock LMS',
+      issuer: this.issuer,
+      clientId: this.clientId,
+      deploymentIds: [this.deploymentId],
+      authLoginUrl: `${this.issuer}/auth`,
+      authTokenUrl: `${this.issuer}/token`,
+      jwksUrl: `${this.issuer}/jwks`
+    };
+  }
+
+  lineItemUrl(resourceId: string): string {
+    return `${this.issuer}/courses/1/lineitems/${resourceId}`;
+  }
+
+  /** Parameters the LMS sends to the tool's login initiation URL */
+  loginParams(targetLinkUri: string) {
+    return {
+      iss: this.issuer,
+      login_hint: 'user-hint',
+      target_link_uri: targetLinkUri,
+      client_id: this.clientId,
+      lti_deployment_id: this.deploymentId
+    };
+  }
+
+  /**
+   * Plays the LMS authorization endpoint: reads the tool's redirect and
+   * returns the form fields the browser would post back to the tool
+   */
+  authorize(authorizationUrl: string, options: MockLaunchOptions = {}): { id_token: string; state: string } {
+    const request = new URL(authorizationUrl);
+    if (request.searchParams.get('client_id') !== this.clientId) throw new Error('Unexpected client_id');
+    const messageType = options.messageType ?? 'LtiResourceLinkRequest';
+
+    const claims: Record<string, unknown> = {
+      iss: this.issuer,
+      aud: this.clientId,
+      sub: options.subject ?? 'learner-42',
+      nonce: request.searchParams.get('nonce'),
+      name: options.name ?? 'Teura Learner',
+      [LTI_CLAIMS.messageType]: messageType,
+      [LTI_CLAIMS.version]: '1.3.0',
+      [LTI_CLAIMS.deploymentId]: this.deploymentId,
+      [LTI_CLAIMS.targetLinkUri]: request.searchParams.get('redirect_uri'),
+      [LTI_CLAIMS.roles]: options.roles ?? [messageType === 'LtiDeepLinkingRequest' ? INSTRUCTOR : LEARNER],
+      [LTI_CLAIMS.context]: { id: 'course-1', title: 'Reo Tahiti 101' },
+      [LTI_CLAIMS.custom]: options.custom ?? {}
+    };
+    if (messageType === 'LtiResourceLinkRequest') {
+      claims[LTI_CLAIMS.resourceLink] = { id: 'link-1', title: 'Leçon' };
+      claims[LTI_CLAIMS.gradeService] = {
+        scope: [AGS_SCOPES.lineItem, AGS_SCOPES.score],
+        lineitems: `${this.issuer}/courses/1/lineitems`,
+        ...(options.lineItem ? { lineitem: options.lineItem } : {})
+      };
+    } else {
+      claims[LTI_CLAIMS.deepLinkingSettings] = {
+        deep_link_return_url: `${this.issuer}/deep-link-return`,
+        accept_types: ['ltiResourceLink'],
+        accept_presentation_document_targets: ['iframe', 'window'],
+        accept_multiple: true,
+        data: 'opaque-platform-data'
+      };
+    }
+
+    const idToken = signJwt({ ...claims, ...options.claims }, this.key, { expiresIn: '5m' });
+    return { id_token: idToken, state: request.searchParams.get('state') ?? '' };
+  }
+
+  /** Verifies a deep-linking response JWT the tool posted back */
+  readDeepLinkingResponse(token: string): jwt.JwtPayload {
+    return jwt.verify(token, createPublicKey({ key: this.toolJwk, format: 'jwk' }), {
+      algorithms: ['RS256'],
+      issuer: this.clientId,
+      audience: this.issuer
+    }) as jwt.JwtPayload;
+  }
+
+  /** In-process stand-in for the platform's HTTP endpoints */
+  fetch = (async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === 'string' || input instanceof URL ? String(input) : input.url;
+    const { authTokenUrl, jwksUrl } = this.registration;
+
+    if (url === jwksUrl) return mockResponse(200, { keys: [this.key.publicJwk] });
+
+    if (url === authTokenUrl && init?.method === 'POST') {
+      const form = new URLSearchParams(String(init.body));
+      try {
+        jwt.verify(form.get('client_assertion') ?? '', createPublicKey({ key: this.toolJwk, format: 'jwk' }), {
+          algorithms: ['RS256'],
+          issuer: this.clientId,
+          subject: this.clientId,
+          audience: authTokenUrl
+        });
+      } catch {
+        return mockResponse(401, { error: 'invalid_client' });
+      }
+      const token = randomUUID();
+      this.accessTokens.add(token);
+      return mockResponse(200, { access_token: token, token_type: 'Bearer', expires_in: 3600, scope: form.get('scope') });
+    }
+
+    const scores = /^(.*\/lineitems\/[^/?]+)\/scores$/.exec(url);
+    if (scores && init?.method === 'POST') {
+      const headers = (init.headers ?? {}) as Record<string, string>;
+      const token = headers.Authorization?.replace(/^Bearer /, '') ?? '';
+      if (!this.accessTokens.has(token)) return mockResponse(401, { error: 'invalid_token' });
+      if (headers['Content-Type'] !== 'application/vnd.ims.lis.v1.score+json') return mockResponse(415, {});
+      this.scores.push({ lineItem: scores[1], score: JSON.parse(String(init.body)) as AgsScore });
+      return mockResponse(200, {});
+    }
+
+    return mockResponse(404, { error: 'not_found' });
+  }) as typeof fetch;
+}
@@ -0,0 +1,121 @@
+// Shared server-side LTI tool: store, signing key and platform registrations
+// from the environment, plus grade passback after progress is saved
+
+import { createClient } from '@supabase/supabase-js';
+import { ServerDataService } from '../data/ServerDataService';
+import { generateSigningKey, signingKeyFromPem, type SigningKey } from './LtiJwt';
+import { MemoryLtiStore, SupabaseLtiStore, type LtiStore } from './LtiStore';
+import { isLtiUserId, LtiTool, scoreFromProgress } from './LtiTool';
+import type { LTIPlatformRegistration } from '../../types/integration';
+
+let memoryStore: MemoryLtiStore | null = null;
+let signingKey: SigningKey | null = null;
+let tool: LtiTool | null = null;
+let platformsSeeded: Promise<void> | null = null;
+
+/**
+ * Supabase when configured; otherwise an in-process store for local development
+ */
+export function getLtiStore(): LtiStore {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (supabaseUrl && supabaseServiceKey) {
+    return new SupabaseLtiStore(createClient(supabaseUrl, supabaseServiceKey));
+  }
+
+  if (!memoryStore) {
+    console.warn('Supabase is not configured; LTI logins and launches are kept in memory only');
+    memoryStore = new MemoryLtiStore();
+  }
+  return memoryStore;
+}
+
+/**
+ * `LTI_TOOL_PRIVATE_KEY` is a PEM RSA key (newlines may be written as \n).
+ * Without it a key is generated per process, which platforms will reject
+ * after a restart because our JWKS changes.
+ */
+function getSigningKey(): SigningKey {
+  if (!signingKey) {
+    const pem = process.env.LTI_TOOL_PRIVATE_KEY;
+    if (pem) {
+      signingKey = signingKeyFromPem(pem.replace(/\\n/g, '\n'));
+    } else {
+      console.warn('LTI_TOOL_PRIVATE_KEY is not set; using a temporary LTI signing key');
+      signingKey = generateSigningKey();
+    }
+  }
+  return signingKey;
+}
+
+/**
+ * Platforms listed in `LTI_PLATFORMS` (a JSON array of registrations) are
+ * saved to the store once per process
+ */
+async function seedPlatforms(store: LtiStore): Promise<void> {
+  const raw = process.env.LTI_PLATFORMS;
+  if (!raw) return;
+
+  let platforms: LTIPlatformRegistration[];
+  try {
+    platforms = JSON.parse(raw);
+  } catch (error) {
+    console.error('LTI_PLATFORMS is not valid JSON:', error);
+    return;
+  }
+  for (const platform of Array.isArray(platforms) ? platforms : []) {
+    await store.savePlatform(platform);
+  }
+}
+
+export async function getLtiTool(): Promise<LtiTool> {
+  const store = getLtiStore();
+  if (!platformsSeeded) platformsSeeded = seedPlatforms(store);
+  await platformsSeeded;
+
+  if (!tool) tool = new LtiTool({ store, key: getSigningKey() });
+  return tool;
+}
+
+/**
+ * Public URLs of the tool endpoints, for platform registration and redirects.
+ * `LTI_TOOL_URL` wins over the request origin behind proxies.
+ */
+export function ltiToolUrls(requestOrigin: string) {
+  const base = (process.env.LTI_TOOL_URL || requestOrigin).replace(/\/$/, '');
+  return {
+    loginUrl: `${base}/api/lti/login`,
+    launchUrl: `${base}/api/lti/launch`,
+    jwksUrl: `${base}/api/lti/jwks`,
+    deepLinkUrl: `${base}/api/lti/deep-link`
+  };
+}
+
+/**
+ * Sends the user's current lesson scores to the LMS gradebook for lessons
+ * they opened from an LTI link with a line item. Failures are logged, never
+ * thrown: the progress has been saved either way and the next save retries.
+ */
+export async function publishLtiGrades(userId: string, lessonIds: number[]): Promise<void> {
+  if (!isLtiUserId(userId) || lessonIds.length === 0) return;
+
+  try {
+    const ltiTool = await getLtiTool();
+    const dataService = ServerDataService.getInstance();
+    const lessons = await dataService.getLessons();
+
+    for (const lessonId of new Set(lessonIds)) {
+      const lesson = lessons.find(l => l.id === lessonId);
+      if (!lesson) continue;
+
+      const launch = await ltiTool.findGradedLaunch(userId, lesson.slug);
+      if (!launch) continue;
+
+      const progress = await dataService.getUserProgress(userId, lessonId);
+      await ltiTool.publishScore(launch, scoreFromProgress(lesson, progress, launch.subject, Date.now()));
+    }
+  } catch (error) {
+    console.error('Failed to publish LTI grades:', error);
+  }
+}
@@ -0,0 +1,189 @@
+import { generateSigningKey, JwksCache, LtiError } from '../LtiJwt';
+import { MemoryLtiStore } from '../LtiStore';
+import { LtiTool, scoreFromProgress } from '../LtiTool';
+import { MockLtiPlatform } from '../MockPlatform';
+import type { Lesson, UserProgress } from '../../../types';
+
+const LAUNCH_URL = 'https://tutor.example.test/api/lti/launch';
+
+const lesson: Lesson = {
+  id: 7,
+  slug: 'greetings',
+  level: 'Beginner',
+  title: { fr: 'Salutations', tah: 'Te aroha' },
+  summary: 'Dire bonjour',
+  sections: [
+    { kind: 'Practice', title: 'Pratique', exercises: [{ type: 'MCQ', prompt: 'Bonjour ?', data: {} }] },
+    { kind: 'Assessment', title: 'Évaluation', exercises: [{ type: 'MCQ', prompt: 'Merci ?', data: {} }] }
+  ]
+};
+
+const progress = (sectionKind: UserProgress['sectionKind'], score: number, completed: boolean): UserProgress => ({
+  userId: 'lti:mock-lms:learner-42',
+  lessonId: 7,
+  sectionKind,
+  completed,
+  score,
+  attempts: 1,
+  updatedAt: 1000
+});
+
+async function setup() {
+  const key = generateSigningKey();
+  const platform = new MockLtiPlatform(key.publicJwk);
+  const store = new MemoryLtiStore();
+  await store.savePlatform(platform.registration);
+  const tool = new LtiTool({ store, key, fetcher: platform.fetch });
+  return { platform, store, tool };
+}
+
+async function launch(
+  platform: MockLtiPlatform,
+  tool: LtiTool,
+  options: Parameters<MockLtiPlatform['authorize']>[1] = {}
+) {
+  const authUrl = await tool.initiateLogin(platform.loginParams(LAUNCH_URL), LAUNCH_URL);
+  const { id_token, state } = platform.authorize(authUrl, options);
+  return tool.validateLaunch(id_token, state);
+}
+
+describe('LtiTool', () => {
+  it('completes the OIDC login and resource link launch', async () => {
+    const { platform, tool } = await setup();
+    const result = await launch(platform, tool, {
+      custom: { lesson_slug: 'greetings' },
+      lineItem: platform.lineItemUrl('greetings')
+    });
+
+    expect(result).toMatchObject({
+      platformId: 'mock-lms',
+      messageType: 'LtiResourceLinkRequest',
+      userId: 'lti:mock-lms:learner-42',
+      lessonSlug: 'greetings',
+      contextTitle: 'Reo Tahiti 101',
+      resourceLinkId: 'link-1'
+    });
+    expect(result.ags?.lineItem).toBe(platform.lineItemUrl('greetings'));
+  });
+
+  it('refuses logins that would redirect off the tool', async () => {
+    const { platform, tool } = await setup();
+
+    await expect(
+      tool.initiateLogin(platform.loginParams('https://evil.example.test/'), LAUNCH_URL)
+    ).rejects.toThrow('target_link_uri does not belong to this tool');
+  });
+
+  it('rejects replayed states, wrong nonces, audiences and deployments', async () => {
+    const { platform, tool } = await setup();
+
+    const authUrl = await tool.initiateLogin(platform.loginParams(LAUNCH_URL), LAUNCH_URL);
+    const posted = platform.authorize(authUrl);
+    await tool.validateLaunch(posted.id_token, posted.state);
+    await expect(tool.validateLaunch(posted.id_token, posted.state)).rejects.toThrow('Unknown or expired login state');
+
+    const attempts: Array<[Record<string, unknown>, string]> = [
+      [{ nonce: 'other' }, 'nonce does not match'],
+      [{ aud: 'another-tool' }, 'Invalid id_token'],
+      [{ 'https://purl.imsglobal.org/spec/lti/claim/deployment_id': 'rogue' }, 'Unknown deployment']
+    ];
+    for (const [claims, message] of attempts) {
+      await expect(launch(platform, tool, { claims })).rejects.toThrow(message);
+    }
+  });
+
+  it('answers a deep linking request with signed resource links', async () => {
+    const { platform, tool } = await setup();
+    const request = await launch(platform, tool, { messageType: 'LtiDeepLinkingRequest' });
+
+    const { returnUrl, jwt } = await tool.createDeepLinkingResponse(request.id, [lesson], LAUNCH_URL);
+    const response = platform.readDeepLinkingResponse(jwt);
+
+    expect(returnUrl).toBe('https://lms.example.test/deep-link-return');
+    expect(response['https://purl.imsglobal.org/spec/lti-dl/claim/data']).toBe('opaque-platform-data');
+    expect(response['https://purl.imsglobal.org/spec/lti-dl/claim/content_items']).toEqual([
+      expect.objectContaining({
+        type: 'ltiResourceLink',
+        url: LAUNCH_URL,
+        custom: { lesson_slug: 'greetings' },
+        lineItem: expect.objectContaining({ scoreMaximum: 100, resourceId: 'greetings' })
+      })
+    ]);
+    // The picker session is single-use
+    await expect(tool.getDeepLinkingLaunch(request.id)).rejects.toBeInstanceOf(LtiError);
+  });
+
+  it('keeps learners out of the lesson picker', async () => {
+    const { platform, tool } = await setup();
+    const request = await launch(platform, tool, {
+      messageType: 'LtiDeepLinkingRequest',
+      roles: ['http://purl.imsglobal.org/vocab/lis/v2/membership#Learner']
+    });
+
+    await expect(tool.getDeepLinkingLaunch(request.id)).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('posts scores to the launch line item', async () => {
+    const { platform, store, tool } = await setup();
+    await launch(platform, tool, {
+      custom: { lesson_slug: 'greetings' },
+      lineItem: platform.lineItemUrl('greetings')
+    });
+
+    const graded = await tool.findGradedLaunch('lti:mock-lms:learner-42', 'greetings');
+    expect(graded).not.toBeNull();
+    const score = scoreFromProgress(lesson, [progress('Practice', 80, true)], graded!.subject, 5000);
+    await expect(tool.publishScore(graded!, score)).resolves.toBe(true);
+
+    expect(platform.scores).toEqual([{ lineItem: platform.lineItemUrl('greetings'), score }]);
+    expect(await store.findGradedLaunch('lti:mock-lms:learner-42', 'other-lesson')).toBeNull();
+  });
+
+  it('skips launches without a line item', async () => {
+    const { platform, tool } = await setup();
+    const result = await launch(platform, tool, { custom: { lesson_slug: 'greetings' } });
+
+    await expect(tool.publishScore(result, scoreFromProgress(lesson, [], result.subject, 0))).resolves.toBe(false);
+    expect(platform.scores).toHaveLength(0);
+  });
+});
+
+describe('scoreFromProgress', () => {
+  it('reports the average score and grades only completed lessons', () => {
+    const partial = scoreFromProgress(lesson, [progress('Practice', 90, true)], 'learner-42', 0);
+    const complete = scoreFromProgress(
+      lesson,
+      [progress('Practice', 90, true), progress('Assessment', 70, true)],
+      'learner-42',
+      0
+    );
+
+    expect(partial).toMatchObject({ scoreGiven: 90, activityProgress: 'InProgress', gradingProgress: 'Pending' });
+    expect(complete).toMatchObject({ scoreGiven: 80, activityProgress: 'Completed', gradingProgress: 'FullyGraded' });
+    expect(complete.timestamp).toBe('1970-01-01T00:00:00.000Z');
+  });
+});
+
+describe('JwksCache', () => {
+  it('refetches the key set when a token names an unknown key', async () => {
+    const first = generateSigningKey();
+    const rotated = generateSigningKey();
+    let keys = [first.publicJwk];
+    let clock = 0;
+    const fetcher = jest.fn(async () => ({ ok: true, status: 200, json: async () => ({ keys }) }) as Response);
+    const cache = new JwksCache(fetcher as unknown as typeof fetch, () => clock);
+
+    await cache.getKey('https://lms.example.test/jwks', first.kid);
+    await cache.getKey('https://lms.example.test/jwks', first.kid);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    keys = [first.publicJwk, rotated.publicJwk];
+    clock = 60 * 1000;
+    await expect(cache.getKey('https://lms.example.test/jwks', rotated.kid)).resolves.toBeDefined();
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    // Unknown kids do not hammer the platform
+    await expect(cache.getKey('https://lms.example.test/jwks', 'missing')).rejects.toThrow('has no key missing');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
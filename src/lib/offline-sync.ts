@@ -1,8 +1,10 @@
 // Offline Synchronization Service
 // Coordinates data sync between online and offline states
 
-import { indexedDBService } from './indexeddb-service';
+import { indexedDBService, OfflineAction } from './indexeddb-service';
 import { JSONDataService } from './data/JSONDataService';
+import { getRetryDelay, MAX_SYNC_BATCH_SIZE, SyncResult, SyncState } from './sync/SyncProtocol';
+import authService from '../services/AuthService';
 import { UserProgress, Lesson } from '@/types';
 
 interface SyncStatus {
@@ -28,6 +30,8 @@ class OfflineSyncService {
     syncInProgress: false
   };
   private syncInterval: NodeJS.Timeout | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private serverState: SyncState | null = null;
 
   constructor() {
     this.dataService = new JSONDataService();
@@ -100,25 +104,17 @@ class OfflineSyncService {
   }
 
   /**
-   * Save user progress (works offline)
+   * Queue a progress update for the server (works offline). Each call counts as
+   * one attempt; the server adds attempts from all devices and keeps the best
+   * score. The local copy is kept by `progressStore`.
    */
-  async saveUserProgress(progress: UserProgress): Promise<void> {
+  async saveUserProgress(userId: string, progress: UserProgress, attemptsDelta = 1): Promise<void> {
     try {
-      // Always save to IndexedDB first
-      await indexedDBService.storeUserProgress(progress);
+      // The queue survives reloads until the server acknowledges it
+      await this.addOfflineAction(userId, 'progress_update', { progress, attemptsDelta });
       
-      if (this.syncStatus.isOnline) {
-        // Try to sync immediately if online
-        try {
-          // In a real app, this would sync to a server
-          console.log('Progress synced to server:', progress);
-        } catch (error) {
-          // If sync fails, add to offline actions
-          await this.addOfflineAction('progress_update', progress);
-        }
-      } else {
-        // Add to offline actions for later sync
-        await this.addOfflineAction('progress_update', progress);
+      if (this.syncStatus.isOnline && !this.syncStatus.syncInProgress) {
+        await this.performSync();
       }
     } catch (error) {
       console.error('Failed to save user progress:', error);
@@ -127,29 +123,19 @@ class OfflineSyncService {
   }
 
   /**
-   * Get user progress (works offline)
+   * Sends the signed-in user's queued actions while their session is still
+   * valid. Called on logout; anything left stays queued for that user only.
    */
-  async getUserProgress(lessonId: string): Promise<UserProgress | null> {
-    try {
-      // Try IndexedDB first (works offline)
-      const progress = await indexedDBService.getUserProgress(lessonId);
-      
-      if (progress) {
-        return progress;
-      }
-      
-      // If not found locally and online, try to fetch from server
-      if (this.syncStatus.isOnline) {
-        // In a real app, this would fetch from server
-        console.log('Fetching progress from server for lesson:', lessonId);
-        return null;
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Failed to get user progress:', error);
-      return null;
-    }
+  async flushPendingActions(): Promise<void> {
+    if (!this.syncStatus.isOnline || this.syncStatus.syncInProgress) return;
+    await this.performSync();
+  }
+
+  /**
+   * Latest merged state returned by the server, if any sync has succeeded
+   */
+  getServerState(): SyncState | null {
+    return this.serverState;
   }
 
   /**
@@ -216,48 +202,15 @@ class OfflineSyncService {
   }
 
   /**
-   * Preload lesson for offline use
+   * Downloads a lesson with its audio and images for offline use
    */
-  async preloadLesson(lessonId: string): Promise<void> {
+  async preloadLesson(lessonSlug: string): Promise<void> {
     try {
-      // Preload lesson data
-      const lesson = await this.getLesson(lessonId);
-      
-      if (lesson) {
-        // Preload in service worker cache
-        if (typeof window !== 'undefined') {
-          const { getSwManager } = await import('./sw-registration');
-          const swManager = getSwManager();
-          if (swManager) {
-            await swManager.preloadLesson(lessonId);
-          }
-        }
-        
-        // Preload media assets if any
-        if (lesson.vocabulary) {
-          for (const vocab of lesson.vocabulary) {
-            if (vocab.audio) {
-              try {
-                const response = await fetch(vocab.audio);
-                const blob = await response.blob();
-                
-                await indexedDBService.storeMediaAsset({
-                  id: `audio-${vocab.id}`,
-                  type: 'audio',
-                  url: vocab.audio,
-                  lessonId: lessonId
-                }, blob);
-              } catch (error) {
-                console.warn(`Failed to preload audio for ${vocab.id}:`, error);
-              }
-            }
-          }
-        }
-      }
-      
-      console.log(`Lesson ${lessonId} preloaded for offline use`);
+      const { offlinePackService } = await import('./offline/OfflinePackService');
+      const pack = await offlinePackService.downloadLessonPack(lessonSlug);
+      console.log(`Lesson ${lessonSlug} preloaded for offline use (${pack.status})`);
     } catch (error) {
-      console.error(`Failed to preload lesson ${lessonId}:`, error);
+      console.error(`Failed to preload lesson ${lessonSlug}:`, error);
     }
   }
 
@@ -289,31 +242,42 @@ class OfflineSyncService {
   }
 
   private async performSync(): Promise<void> {
+    // Actions stay queued until the user who queued them is signed in
+    const userId = authService.getState().user?.id;
+    if (!userId || !authService.getAuthHeader()) return;
+
     try {
       this.updateSyncStatus({ syncInProgress: true });
       this.emitEvent('sync-start');
       
-      // Sync pending offline actions
-      const pendingActions = await indexedDBService.getUnsyncedActions();
+      const now = Date.now();
+      const pendingActions = await indexedDBService.getUnsyncedActions(userId);
+      const dueActions = pendingActions.filter(action => (action.nextAttemptAt ?? 0) <= now);
+      let actionsSynced = 0;
       
-      for (const action of pendingActions) {
+      for (let i = 0; i < dueActions.length; i += MAX_SYNC_BATCH_SIZE) {
+        const batch = dueActions.slice(i, i + MAX_SYNC_BATCH_SIZE);
         try {
-          await this.syncAction(action);
-          await indexedDBService.markActionSynced(action.id);
+          const result = await this.sendBatch(batch);
+          actionsSynced += await this.applySyncResult(batch, result);
         } catch (error) {
-          console.error('Failed to sync action:', action, error);
+          console.error('Failed to sync actions, will retry:', error);
+          await this.scheduleRetry(batch, error);
         }
       }
       
+      const remainingActions = await indexedDBService.getUnsyncedActions(userId);
+      this.scheduleRetryTimer(remainingActions);
+      
       this.updateSyncStatus({ 
         lastSyncTime: Date.now(),
-        pendingActions: 0,
+        pendingActions: remainingActions.length,
         syncInProgress: false 
       });
       
-      this.emitEvent('sync-complete', { actionsSynced: pendingActions.length });
+      this.emitEvent('sync-complete', { actionsSynced, state: this.serverState });
       
-      console.log(`Sync completed: ${pendingActions.length} actions synced`);
+      console.log(`Sync completed: ${actionsSynced} actions synced, ${remainingActions.length} pending`);
     } catch (error) {
       this.updateSyncStatus({ syncInProgress: false });
       this.emitEvent('sync-error', error);
@@ -321,27 +285,91 @@ class OfflineSyncService {
     }
   }
 
-  private async syncAction(action: { id?: number; type: string; data: Record<string, unknown>; timestamp: number; synced: boolean }): Promise<void> {
-    switch (action.type) {
-      case 'progress_update':
-        // In a real app, this would sync to a server
-        console.log('Syncing progress update:', action.data);
-        break;
-      case 'lesson_completion':
-        console.log('Syncing lesson completion:', action.data);
-        break;
-      case 'vocabulary_practice':
-        console.log('Syncing vocabulary practice:', action.data);
-        break;
-      default:
-        console.warn('Unknown action type:', action.type);
+  private async sendBatch(batch: OfflineAction[]): Promise<SyncResult> {
+    const authHeader = authService.getAuthHeader();
+    const response = await fetch('/api/sync', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authHeader ? { Authorization: authHeader } : {})
+      },
+      body: JSON.stringify({
+        actions: batch.map(action => ({
+          id: action.actionId,
+          userId: action.userId,
+          type: action.type,
+          data: action.data,
+          timestamp: action.timestamp
+        }))
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Sync request failed with status ${response.status}`);
     }
+
+    return await response.json() as SyncResult;
   }
 
-  private async addOfflineAction(type: string, data: Record<string, unknown>): Promise<void> {
-    await indexedDBService.addOfflineAction(type, data);
+  /**
+   * Marks acknowledged actions as synced and parks rejected ones, which would
+   * fail again on every retry. Returns the number of acknowledged actions.
+   */
+  private async applySyncResult(batch: OfflineAction[], result: SyncResult): Promise<number> {
+    const acknowledged = new Set([...result.applied, ...result.duplicates]);
+    const rejected = new Map(result.rejected.map(r => [r.id, r.error]));
+
+    for (const action of batch) {
+      if (action.id === undefined) continue;
+      if (acknowledged.has(action.actionId)) {
+        await indexedDBService.markActionSynced(action.id);
+      } else if (rejected.has(action.actionId)) {
+        console.warn('Server rejected offline action:', action, rejected.get(action.actionId));
+        await indexedDBService.updateOfflineAction({
+          ...action,
+          failed: true,
+          lastError: rejected.get(action.actionId)
+        });
+      }
+    }
+
+    this.serverState = result.state;
+    return acknowledged.size;
+  }
+
+  private async scheduleRetry(batch: OfflineAction[], error: unknown): Promise<void> {
+    const now = Date.now();
+    for (const action of batch) {
+      const retryCount = (action.retryCount ?? 0) + 1;
+      await indexedDBService.updateOfflineAction({
+        ...action,
+        retryCount,
+        nextAttemptAt: now + getRetryDelay(retryCount),
+        lastError: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private scheduleRetryTimer(pendingActions: OfflineAction[]): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (pendingActions.length === 0) return;
+
+    const nextAttemptAt = Math.min(...pendingActions.map(action => action.nextAttemptAt ?? 0));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.syncStatus.isOnline && !this.syncStatus.syncInProgress) {
+        this.performSync();
+      }
+    }, Math.max(0, nextAttemptAt - Date.now()));
+  }
+
+  private async addOfflineAction(userId: string, type: OfflineAction['type'], data: Record<string, unknown>): Promise<void> {
+    await indexedDBService.addOfflineAction(userId, type, data);
     
-    const pendingActions = await indexedDBService.getUnsyncedActions();
+    const pendingActions = await indexedDBService.getUnsyncedActions(userId);
     this.updateSyncStatus({ pendingActions: pendingActions.length });
   }
 
@@ -419,6 +447,10 @@ class OfflineSyncService {
    */
   destroy(): void {
     this.stopPeriodicSync();
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
     this.listeners = [];
     indexedDBService.close();
   }
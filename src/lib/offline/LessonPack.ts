@@ -0,0 +1,154 @@
+// Planning and verification for downloadable offline lesson packs
+
+import type {
+  Lesson,
+  LessonLevel,
+  MediaAsset,
+  MediaKind,
+  OfflinePack,
+  PackResource,
+  PackStatus,
+  StoredPackResource
+} from '../../types';
+
+export const DATA_BASE_URL = '/data';
+
+export interface PackProgress {
+  packId: string;
+  completed: number;
+  total: number;
+  bytes: number;
+  currentUrl?: string;
+}
+
+export function lessonPackId(slug: string): string {
+  return `lesson:${slug}`;
+}
+
+export function levelPackId(level: LessonLevel): string {
+  return `level:${level}`;
+}
+
+export function lessonDataUrl(slug: string): string {
+  return `${DATA_BASE_URL}/lessons/${slug}.json`;
+}
+
+/**
+ * Reads a media-assets.json record. The bundled file uses `url`/`altText` and
+ * capitalised kinds, while `MediaAsset` uses `filePath`/`alt`.
+ */
+export function normalizeMediaAsset(raw: Record<string, unknown>): MediaAsset | null {
+  const id = Number(raw.id);
+  const filePath = raw.filePath ?? raw.url;
+  if (!Number.isFinite(id) || typeof filePath !== 'string' || filePath === '') return null;
+
+  const kind = String(raw.kind ?? '').toLowerCase();
+  return {
+    id,
+    kind: kind === 'image' || kind === 'video' ? kind : 'audio',
+    filePath,
+    alt: typeof (raw.alt ?? raw.altText) === 'string' ? String(raw.alt ?? raw.altText) : undefined,
+    durationMs: typeof raw.durationMs === 'number' ? raw.durationMs : undefined,
+    rights: typeof (raw.rights ?? raw.attribution) === 'string' ? String(raw.rights ?? raw.attribution) : undefined,
+    sha256: typeof raw.sha256 === 'string' && raw.sha256 !== '' ? raw.sha256.toLowerCase() : undefined
+  };
+}
+
+/**
+ * URL the app loads an asset from. Relative file paths live under /data.
+ */
+export function mediaAssetUrl(asset: MediaAsset): string {
+  if (/^(https?:)?\/\//.test(asset.filePath) || asset.filePath.startsWith('/')) {
+    return asset.filePath;
+  }
+  return `${DATA_BASE_URL}/${asset.filePath}`;
+}
+
+function mediaKindFromUrl(url: string): MediaKind {
+  if (/\.(png|jpe?g|gif|webp|svg|avif)(\?|$)/i.test(url)) return 'image';
+  if (/\.(mp4|webm|mov)(\?|$)/i.test(url)) return 'video';
+  return 'audio';
+}
+
+/**
+ * Everything a lesson needs offline: its page, its JSON, the shared lesson
+ * index and media catalogue, the hero image, vocabulary audio and any audio
+ * referenced by exercises. Media ids without a catalogue entry are skipped.
+ * The service worker serves these only when the network cannot, so the
+ * shared index and catalogue never hide newer lessons or media.
+ */
+export function collectLessonResources(lesson: Lesson, assets: MediaAsset[]): PackResource[] {
+  const assetsById = new Map(assets.map(asset => [asset.id, asset]));
+  const resources = new Map<string, PackResource>();
+
+  const add = (resource: PackResource) => {
+    if (!resources.has(resource.url)) resources.set(resource.url, resource);
+  };
+  const addMedia = (mediaId: number | undefined) => {
+    const asset = mediaId === undefined ? undefined : assetsById.get(mediaId);
+    if (asset) {
+      add({ url: mediaAssetUrl(asset), kind: asset.kind, mediaId: asset.id, sha256: asset.sha256 });
+    }
+  };
+
+  add({ url: `/lessons/${lesson.slug}`, kind: 'page' });
+  add({ url: lessonDataUrl(lesson.slug), kind: 'data' });
+  add({ url: `${DATA_BASE_URL}/lessons/index.json`, kind: 'data' });
+  add({ url: `${DATA_BASE_URL}/media-assets.json`, kind: 'data' });
+  addMedia(lesson.heroMediaId);
+
+  for (const section of lesson.sections) {
+    section.vocab?.forEach(vocab => addMedia(vocab.audioMediaId));
+
+    for (const exercise of section.exercises ?? []) {
+      const audio = exercise.data.audioUrl ?? exercise.data.audioMediaId;
+      if (typeof audio === 'number') {
+        addMedia(audio);
+      } else if (typeof audio === 'string' && audio !== '') {
+        add({ url: audio, kind: mediaKindFromUrl(audio) });
+      }
+    }
+  }
+
+  return Array.from(resources.values());
+}
+
+export function collectPackResources(lessons: Lesson[], assets: MediaAsset[]): PackResource[] {
+  const resources = new Map<string, PackResource>();
+  lessons.forEach(lesson => {
+    collectLessonResources(lesson, assets).forEach(resource => {
+      if (!resources.has(resource.url)) resources.set(resource.url, resource);
+    });
+  });
+  return Array.from(resources.values());
+}
+
+export function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function sha256Hex(bytes: ArrayBuffer): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+export function packStatus(resources: StoredPackResource[]): PackStatus {
+  const failed = resources.filter(resource => resource.error).length;
+  if (failed === 0) return 'complete';
+  return failed === resources.length ? 'failed' : 'partial';
+}
+
+/**
+ * URLs only `packId` uses, which can be dropped from the cache when it is
+ * removed. Resources shared with other packs stay.
+ */
+export function exclusiveResourceUrls(packs: OfflinePack[], packId: string): string[] {
+  const pack = packs.find(p => p.id === packId);
+  if (!pack) return [];
+
+  const shared = new Set(
+    packs.filter(p => p.id !== packId).flatMap(p => p.resources.map(resource => resource.url))
+  );
+  return pack.resources.map(resource => resource.url).filter(url => !shared.has(url));
+}
@@ -0,0 +1,260 @@
+// Downloads lessons and their media bytes into Cache Storage for offline use.
+// The service worker answers requests from the packs cache before the network.
+
+import { indexedDBService } from '../data/IndexedDBService';
+import { jsonDataService } from '../data/JSONDataService';
+import {
+  DATA_BASE_URL,
+  collectPackResources,
+  exclusiveResourceUrls,
+  lessonPackId,
+  levelPackId,
+  normalizeMediaAsset,
+  packStatus,
+  sha256Hex,
+  type PackProgress
+} from './LessonPack';
+import type { Lesson, LessonLevel, MediaAsset, OfflinePack, PackResource, StoredPackResource } from '../../types';
+
+/** Must match PACK_CACHE_NAME in public/sw.js */
+export const PACK_CACHE_NAME = 'tahitian-tutor-packs-v1';
+
+const FETCH_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1500;
+
+export type PackProgressListener = (progress: PackProgress) => void;
+export type PacksListener = (packs: OfflinePack[]) => void;
+
+export interface StorageUsage {
+  /** Bytes held by downloaded packs */
+  packs: number;
+  /** Origin-wide usage and quota reported by the browser, when available */
+  used: number;
+  quota: number;
+}
+
+export class OfflinePackService {
+  private static instance: OfflinePackService;
+  private listeners = new Set<PacksListener>();
+  private inFlight = new Map<string, Promise<OfflinePack>>();
+
+  private constructor() {}
+
+  static getInstance(): OfflinePackService {
+    if (!OfflinePackService.instance) {
+      OfflinePackService.instance = new OfflinePackService();
+    }
+    return OfflinePackService.instance;
+  }
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'caches' in window;
+  }
+
+  async getPacks(): Promise<OfflinePack[]> {
+    await indexedDBService.initialize();
+    const packs = await indexedDBService.getOfflinePacks();
+    return packs.sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  async getPack(id: string): Promise<OfflinePack | null> {
+    return (await this.getPacks()).find(pack => pack.id === id) ?? null;
+  }
+
+  downloadLessonPack(slug: string, onProgress?: PackProgressListener): Promise<OfflinePack> {
+    return this.download(lessonPackId(slug), onProgress, async () => {
+      await jsonDataService.initialize();
+      const lesson = await jsonDataService.getLesson(slug);
+      if (!lesson) throw new Error(`Lesson ${slug} not found`);
+      return { scope: 'lesson', label: lesson.title.fr, lessons: [lesson] };
+    });
+  }
+
+  downloadLevelPack(level: LessonLevel, onProgress?: PackProgressListener): Promise<OfflinePack> {
+    return this.download(levelPackId(level), onProgress, async () => {
+      await jsonDataService.initialize();
+      const lessons = (await jsonDataService.getLessons()).filter(lesson => lesson.level === level);
+      if (lessons.length === 0) throw new Error(`No ${level} lessons to download`);
+      return { scope: 'level', label: `${level} lessons`, lessons };
+    });
+  }
+
+  /**
+   * Deletes the pack's files from the cache, keeping any that another pack
+   * still needs, and forgets the pack
+   */
+  async removePack(id: string): Promise<void> {
+    const packs = await this.getPacks();
+    const urls = exclusiveResourceUrls(packs, id);
+
+    if (this.isSupported()) {
+      const cache = await caches.open(PACK_CACHE_NAME);
+      await Promise.all(urls.map(url => cache.delete(url)));
+    }
+
+    await indexedDBService.deleteOfflinePack(id);
+    await this.notify();
+  }
+
+  async getStorageUsage(): Promise<StorageUsage> {
+    const packs = await this.getPacks();
+    const seen = new Set<string>();
+    let packBytes = 0;
+    packs.forEach(pack => pack.resources.forEach(resource => {
+      if (!resource.error && !seen.has(resource.url)) {
+        seen.add(resource.url);
+        packBytes += resource.bytes;
+      }
+    }));
+
+    let used = 0;
+    let quota = 0;
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+      const estimate = await navigator.storage.estimate();
+      used = estimate.usage ?? 0;
+      quota = estimate.quota ?? 0;
+    }
+
+    return { packs: packBytes, used, quota };
+  }
+
+  subscribe(listener: PacksListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private download(
+    id: string,
+    onProgress: PackProgressListener | undefined,
+    resolve: () => Promise<{ scope: OfflinePack['scope']; label: string; lessons: Lesson[] }>
+  ): Promise<OfflinePack> {
+    // A second request for a pack already downloading joins the first one
+    const existing = this.inFlight.get(id);
+    if (existing) return existing;
+
+    const run = (async () => {
+      if (!this.isSupported()) {
+        throw new Error('Offline downloads are not supported in this browser');
+      }
+
+      const { scope, label, lessons } = await resolve();
+      const resources = collectPackResources(lessons, await this.loadMediaCatalogue());
+      const pack: OfflinePack = {
+        id,
+        scope,
+        label,
+        lessonSlugs: lessons.map(lesson => lesson.slug),
+        resources: [],
+        totalBytes: 0,
+        status: 'downloading',
+        updatedAt: Date.now()
+      };
+      await indexedDBService.saveOfflinePack(pack);
+      await this.notify();
+
+      const cache = await caches.open(PACK_CACHE_NAME);
+      const stored: StoredPackResource[] = [];
+      let bytes = 0;
+
+      for (const resource of resources) {
+        onProgress?.({ packId: id, completed: stored.length, total: resources.length, bytes, currentUrl: resource.url });
+        const result = await this.storeResource(cache, resource);
+        stored.push(result);
+        bytes += result.bytes;
+      }
+      onProgress?.({ packId: id, completed: stored.length, total: resources.length, bytes });
+
+      const finished: OfflinePack = {
+        ...pack,
+        resources: stored,
+        totalBytes: bytes,
+        status: packStatus(stored),
+        downloadedAt: Date.now(),
+        updatedAt: Date.now()
+      };
+      await indexedDBService.saveOfflinePack(finished);
+      await this.notify();
+      return finished;
+    })();
+
+    this.inFlight.set(id, run);
+    return run.finally(() => this.inFlight.delete(id));
+  }
+
+  private async loadMediaCatalogue(): Promise<MediaAsset[]> {
+    const response = await this.fetchWithRetry(`${DATA_BASE_URL}/media-assets.json`);
+    const raw = await response.json() as Record<string, unknown>[];
+    return raw
+      .map(normalizeMediaAsset)
+      .filter((asset): asset is MediaAsset => asset !== null);
+  }
+
+  /**
+   * Caches one file, verifying it against its checksum. Files already in the
+   * cache are reused, so an interrupted download resumes where it stopped.
+   */
+  private async storeResource(cache: Cache, resource: PackResource): Promise<StoredPackResource> {
+    try {
+      const cached = await cache.match(resource.url);
+      if (cached) {
+        const bytes = await cached.arrayBuffer();
+        if (await this.matchesChecksum(bytes, resource.sha256)) {
+          return { ...resource, bytes: bytes.byteLength, verified: Boolean(resource.sha256) };
+        }
+        await cache.delete(resource.url);
+      }
+
+      const response = await this.fetchWithRetry(resource.url);
+      const bytes = await response.arrayBuffer();
+      if (!(await this.matchesChecksum(bytes, resource.sha256))) {
+        return { ...resource, bytes: 0, verified: false, error: 'Checksum mismatch' };
+      }
+
+      const headers = new Headers(response.headers);
+      headers.set('Content-Length', String(bytes.byteLength));
+      await cache.put(resource.url, new Response(bytes, { status: 200, headers }));
+      return { ...resource, bytes: bytes.byteLength, verified: Boolean(resource.sha256) };
+    } catch (error) {
+      return {
+        ...resource,
+        bytes: 0,
+        verified: false,
+        error: error instanceof Error ? error.message : 'Download failed'
+      };
+    }
+  }
+
+  private async matchesChecksum(bytes: ArrayBuffer, expected?: string): Promise<boolean> {
+    if (!expected) return true;
+    return (await sha256Hex(bytes)) === expected;
+  }
+
+  private async fetchWithRetry(url: string): Promise<Response> {
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= FETCH_ATTEMPTS; attempt++) {
+      try {
+        const response = await fetch(url, { cache: 'no-store' });
+        if (response.ok) return response;
+        lastError = new Error(`HTTP ${response.status}`);
+        // Missing files will not appear on retry
+        if (response.status === 404) break;
+      } catch (error) {
+        lastError = error;
+      }
+      if (attempt < FETCH_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+      }
+    }
+    throw lastError instanceof Error ? lastError : new Error(`Failed to fetch ${url}`);
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    const packs = await this.getPacks();
+    this.listeners.forEach(listener => listener(packs));
+  }
+}
+
+export const offlinePackService = OfflinePackService.getInstance();
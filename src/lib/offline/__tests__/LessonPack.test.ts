@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+import {
+  collectLessonResources,
+  collectPackResources,
+  exclusiveResourceUrls,
+  normalizeMediaAsset,
+  packStatus,
+  toHex
+} from '../LessonPack';
+import type { Lesson, MediaAsset, OfflinePack, StoredPackResource } from '../../../types';
+
+const assets: MediaAsset[] = [
+  { id: 1, kind: 'image', filePath: 'media/hero.jpg', sha256: 'aa' },
+  { id: 2, kind: 'audio', filePath: '/data/media/ia-ora-na.mp3', sha256: 'bb' },
+  { id: 3, kind: 'audio', filePath: 'https://cdn.example.com/mauruuru.mp3' }
+];
+
+const lesson = (slug: string, overrides: Partial<Lesson> = {}): Lesson => ({
+  id: 1,
+  slug,
+  level: 'Beginner',
+  title: { fr: slug },
+  summary: '',
+  sections: [],
+  ...overrides
+});
+
+const stored = (url: string, error?: string): StoredPackResource => ({
+  url,
+  kind: 'audio',
+  bytes: error ? 0 : 10,
+  verified: !error,
+  error
+});
+
+const pack = (id: string, urls: string[]): OfflinePack => ({
+  id,
+  scope: 'lesson',
+  label: id,
+  lessonSlugs: [id],
+  resources: urls.map(url => stored(url)),
+  totalBytes: urls.length * 10,
+  status: 'complete',
+  updatedAt: 0
+});
+
+describe('LessonPack', () => {
+  it('normalizes the bundled media catalogue shape', () => {
+    expect(normalizeMediaAsset({ id: 4, kind: 'Image', url: 'media/a.png', altText: 'Fare', attribution: 'CC0', sha256: 'ABC' }))
+      .toEqual({ id: 4, kind: 'image', filePath: 'media/a.png', alt: 'Fare', durationMs: undefined, rights: 'CC0', sha256: 'abc' });
+    expect(normalizeMediaAsset({ id: 'x', url: 'media/a.png' })).toBeNull();
+    expect(normalizeMediaAsset({ id: 5 })).toBeNull();
+  });
+
+  it('collects the hero, vocabulary and exercise media of a lesson once each', () => {
+    const greetings = lesson('greetings', {
+      heroMediaId: 1,
+      sections: [
+        { kind: 'Vocabulary', title: 'Mots', vocab: [{ fr: 'bonjour', audioMediaId: 2 }, { fr: 'merci', audioMediaId: 99 }] },
+        {
+          kind: 'Practice',
+          title: 'Pratique',
+          exercises: [
+            { type: 'Dictation', prompt: '', data: { audioMediaId: 2 } },
+            { type: 'Dictation', prompt: '', data: { audioUrl: '/audio/dictation.mp3' } },
+            { type: 'MCQ', prompt: '', data: { audioUrl: 3 } }
+          ]
+        }
+      ]
+    });
+
+    expect(collectLessonResources(greetings, assets)).toEqual([
+      { url: '/lessons/greetings', kind: 'page' },
+      { url: '/data/lessons/greetings.json', kind: 'data' },
+      { url: '/data/lessons/index.json', kind: 'data' },
+      { url: '/data/media-assets.json', kind: 'data' },
+      { url: '/data/media/hero.jpg', kind: 'image', mediaId: 1, sha256: 'aa' },
+      { url: '/data/media/ia-ora-na.mp3', kind: 'audio', mediaId: 2, sha256: 'bb' },
+      { url: '/audio/dictation.mp3', kind: 'audio' },
+      { url: 'https://cdn.example.com/mauruuru.mp3', kind: 'audio', mediaId: 3, sha256: undefined }
+    ]);
+  });
+
+  it('shares common files between the lessons of a level pack', () => {
+    const urls = collectPackResources([lesson('a', { heroMediaId: 1 }), lesson('b', { heroMediaId: 1 })], assets)
+      .map(resource => resource.url);
+
+    expect(urls.filter(url => url === '/data/media/hero.jpg')).toHaveLength(1);
+    expect(urls).toContain('/data/lessons/a.json');
+    expect(urls).toContain('/data/lessons/b.json');
+  });
+
+  it('only frees files no other pack uses', () => {
+    const packs = [pack('a', ['/shared.mp3', '/a.mp3']), pack('b', ['/shared.mp3', '/b.mp3'])];
+
+    expect(exclusiveResourceUrls(packs, 'a')).toEqual(['/a.mp3']);
+    expect(exclusiveResourceUrls(packs, 'missing')).toEqual([]);
+  });
+
+  it('derives pack status from failed resources and hashes as lowercase hex', () => {
+    expect(packStatus([stored('/a'), stored('/b')])).toBe('complete');
+    expect(packStatus([stored('/a'), stored('/b', 'Checksum mismatch')])).toBe('partial');
+    expect(packStatus([stored('/a', 'HTTP 404')])).toBe('failed');
+
+    const digest = new Uint8Array(createHash('sha256').update('ia ora na').digest());
+    expect(toHex(digest.buffer)).toBe(createHash('sha256').update('ia ora na').digest('hex'));
+  });
+});
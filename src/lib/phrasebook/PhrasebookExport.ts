@@ -0,0 +1,89 @@
+// Search and export helpers for the personal phrasebook
+
+import { foldSearchText } from '../text/SearchText';
+import type { PhrasebookEntry, PhrasebookFolder } from '../../types';
+
+export interface PhrasebookFilter {
+  query?: string;
+  folderId?: string | null;
+  tag?: string;
+}
+
+/**
+ * Filters entries by a query across fr/tah/en, a folder (null = unfiled) and a tag
+ */
+export function filterPhrasebookEntries(
+  entries: PhrasebookEntry[],
+  filter: PhrasebookFilter = {}
+): PhrasebookEntry[] {
+  const query = foldSearchText(filter.query ?? '');
+
+  return entries
+    .filter(entry => {
+      if (filter.folderId !== undefined && (entry.folderId ?? null) !== filter.folderId) return false;
+      if (filter.tag && !entry.tags.includes(filter.tag)) return false;
+      if (!query) return true;
+
+      const { fr, tah, en } = entry.vocab;
+      return [fr, tah, en].some(text => text && foldSearchText(text).includes(query));
+    })
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function collectTags(entries: PhrasebookEntry[]): string[] {
+  return Array.from(new Set(entries.flatMap(entry => entry.tags))).sort();
+}
+
+function csvField(value: string | undefined): string {
+  const text = value ?? '';
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV with a header row
+ */
+export function toCSV(entries: PhrasebookEntry[], folders: PhrasebookFolder[] = []): string {
+  const folderNames = new Map(folders.map(folder => [folder.id, folder.name]));
+  const header = ['tahitian', 'french', 'english', 'ipa_tahitian', 'part_of_speech', 'note', 'folder', 'tags', 'lesson'];
+
+  const rows = entries.map(entry => [
+    entry.vocab.tah,
+    entry.vocab.fr,
+    entry.vocab.en,
+    entry.vocab.ipaTah,
+    entry.vocab.partOfSpeech,
+    entry.vocab.note,
+    entry.folderId ? folderNames.get(entry.folderId) : '',
+    entry.tags.join(';'),
+    entry.lessonSlug
+  ].map(csvField).join(','));
+
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function tsvField(value: string | undefined): string {
+  return (value ?? '').replace(/[\t\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Anki "Notes in Plain Text" import format: front (Tahitian), back (French and
+ * English), then space-separated tags. Anki tags cannot contain spaces.
+ */
+export function toAnkiTSV(entries: PhrasebookEntry[]): string {
+  const lines = entries.map(entry => {
+    const { tah, fr, en, ipaTah } = entry.vocab;
+    const front = tsvField(tah || fr);
+    const back = [tah ? fr : undefined, en, ipaTah ? `/${ipaTah}/` : undefined]
+      .filter(Boolean)
+      .map(tsvField)
+      .join('<br>');
+    const tags = [...entry.tags, entry.lessonSlug]
+      .filter((tag): tag is string => Boolean(tag))
+      .map(tag => tag.trim().replace(/\s+/g, '_'))
+      .join(' ');
+
+    return [front, back, tags].join('\t');
+  });
+
+  return ['#separator:tab', '#html:true', '#tags column:3', ...lines].join('\n') + '\n';
+}
@@ -0,0 +1,116 @@
+// Personal phrasebook persisted offline in IndexedDB
+
+import { indexedDBService } from '../data/IndexedDBService';
+import type { PhrasebookEntry, PhrasebookFolder, VocabItem } from '../../types';
+
+function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+export class PhrasebookService {
+  private static instance: PhrasebookService;
+
+  private constructor() {}
+
+  static getInstance(): PhrasebookService {
+    if (!PhrasebookService.instance) {
+      PhrasebookService.instance = new PhrasebookService();
+    }
+    return PhrasebookService.instance;
+  }
+
+  /**
+   * One entry per word and user, whichever lesson it was saved from
+   */
+  static entryId(userId: string, vocab: VocabItem): string {
+    return `${userId}:${vocab.tah ?? ''}:${vocab.fr}`;
+  }
+
+  async getEntries(userId: string): Promise<PhrasebookEntry[]> {
+    await indexedDBService.initialize();
+    return indexedDBService.getPhrasebookEntries(userId);
+  }
+
+  async getFolders(userId: string): Promise<PhrasebookFolder[]> {
+    await indexedDBService.initialize();
+    const folders = await indexedDBService.getPhrasebookFolders(userId);
+    return folders.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Saves a word to the phrasebook. Saving a word twice keeps its folder and tags.
+   */
+  async addEntry(userId: string, vocab: VocabItem, lessonSlug?: string): Promise<PhrasebookEntry> {
+    await indexedDBService.initialize();
+
+    const id = PhrasebookService.entryId(userId, vocab);
+    const existing = (await indexedDBService.getPhrasebookEntries(userId)).find(entry => entry.id === id);
+    if (existing) return existing;
+
+    const now = Date.now();
+    const entry: PhrasebookEntry = {
+      id,
+      userId,
+      vocab,
+      lessonSlug,
+      tags: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    await indexedDBService.savePhrasebookEntries([entry]);
+    return entry;
+  }
+
+  async updateEntry(
+    entry: PhrasebookEntry,
+    updates: Partial<Pick<PhrasebookEntry, 'folderId' | 'tags'>>
+  ): Promise<PhrasebookEntry> {
+    await indexedDBService.initialize();
+
+    const updated: PhrasebookEntry = {
+      ...entry,
+      ...updates,
+      tags: normalizeTags(updates.tags ?? entry.tags),
+      updatedAt: Date.now()
+    };
+    await indexedDBService.savePhrasebookEntries([updated]);
+    return updated;
+  }
+
+  async removeEntry(id: string): Promise<void> {
+    await indexedDBService.initialize();
+    await indexedDBService.deletePhrasebookEntry(id);
+  }
+
+  async createFolder(userId: string, name: string): Promise<PhrasebookFolder> {
+    await indexedDBService.initialize();
+
+    const folder: PhrasebookFolder = {
+      id: `${userId}:folder:${Date.now().toString(36)}`,
+      userId,
+      name: name.trim(),
+      createdAt: Date.now()
+    };
+    await indexedDBService.savePhrasebookFolder(folder);
+    return folder;
+  }
+
+  /**
+   * Deletes a folder; its entries stay in the phrasebook, unfiled
+   */
+  async deleteFolder(userId: string, folderId: string): Promise<void> {
+    await indexedDBService.initialize();
+
+    const entries = await indexedDBService.getPhrasebookEntries(userId);
+    const unfiled = entries
+      .filter(entry => entry.folderId === folderId)
+      .map(entry => ({ ...entry, folderId: undefined, updatedAt: Date.now() }));
+
+    if (unfiled.length > 0) {
+      await indexedDBService.savePhrasebookEntries(unfiled);
+    }
+    await indexedDBService.deletePhrasebookFolder(folderId);
+  }
+}
+
+export const phrasebookService = PhrasebookService.getInstance();
@@ -0,0 +1,60 @@
+import {
+  collectTags,
+  filterPhrasebookEntries,
+  toAnkiTSV,
+  toCSV
+} from '../PhrasebookExport';
+import type { PhrasebookEntry, PhrasebookFolder } from '../../../types';
+
+const folder: PhrasebookFolder = { id: 'f1', userId: 'u1', name: 'Market', createdAt: 1 };
+
+const entries: PhrasebookEntry[] = [
+  {
+    id: 'u1:Māuruuru:Merci',
+    userId: 'u1',
+    vocab: { fr: 'Merci', tah: 'Māuruuru', en: 'Thank you', ipaTah: 'maːuruːru' },
+    lessonSlug: 'greetings-basics',
+    tags: ['polite', 'daily use'],
+    createdAt: 2,
+    updatedAt: 2
+  },
+  {
+    id: 'u1:Ia ora na:Bonjour',
+    userId: 'u1',
+    vocab: { fr: 'Bonjour, "salut"', tah: 'Ia ora na', en: 'Hello' },
+    folderId: 'f1',
+    tags: ['polite'],
+    createdAt: 1,
+    updatedAt: 1
+  }
+];
+
+describe('PhrasebookExport', () => {
+  it('searches across French, Tahitian and English', () => {
+    expect(filterPhrasebookEntries(entries, { query: 'mauruuru' })).toHaveLength(1);
+    expect(filterPhrasebookEntries(entries, { query: 'hello' })[0].vocab.tah).toBe('Ia ora na');
+    expect(filterPhrasebookEntries(entries, { query: 'bonjour' })).toHaveLength(1);
+  });
+
+  it('filters by folder, unfiled entries and tag', () => {
+    expect(filterPhrasebookEntries(entries, { folderId: 'f1' })).toHaveLength(1);
+    expect(filterPhrasebookEntries(entries, { folderId: null })[0].vocab.fr).toBe('Merci');
+    expect(filterPhrasebookEntries(entries, { tag: 'polite' })).toHaveLength(2);
+    expect(collectTags(entries)).toEqual(['daily use', 'polite']);
+  });
+
+  it('exports CSV with quoting and folder names', () => {
+    const csv = toCSV(entries, [folder]).split('\r\n');
+
+    expect(csv[0]).toBe('tahitian,french,english,ipa_tahitian,part_of_speech,note,folder,tags,lesson');
+    expect(csv[1]).toBe('Māuruuru,Merci,Thank you,maːuruːru,,,,polite;daily use,greetings-basics');
+    expect(csv[2]).toBe('Ia ora na,"Bonjour, ""salut""",Hello,,,,Market,polite,');
+  });
+
+  it('exports Anki TSV with headers and space-free tags', () => {
+    const lines = toAnkiTSV(entries).trim().split('\n');
+
+    expect(lines.slice(0, 3)).toEqual(['#separator:tab', '#html:true', '#tags column:3']);
+    expect(lines[3]).toBe('Māuruuru\tMerci<br>Thank you<br>/maːuruːru/\tpolite daily_use greetings-basics');
+  });
+});
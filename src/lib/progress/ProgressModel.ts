@@ -0,0 +1,102 @@
+// Pure helpers for the per-user progress model shared by the lesson page,
+// progress drawers and dashboard
+
+import { isGradedSection } from '../exercises/ExerciseEngine';
+import type { Lesson, SectionKind, UserProgress } from '../../types';
+
+export interface LessonProgressSummary {
+  lessonId: number;
+  lessonSlug: string;
+  /** Sections whose completion counts towards the lesson (graded sections with exercises) */
+  trackedSections: SectionKind[];
+  completedSections: SectionKind[];
+  /** 0-100 share of tracked sections completed */
+  percent: number;
+  completed: boolean;
+  /** Mean best score over the sections attempted so far */
+  averageScore: number;
+  attempts: number;
+  lastActivityAt: number | null;
+}
+
+export interface ProgressOverview {
+  totalLessons: number;
+  startedLessons: number;
+  completedLessons: number;
+  averageScore: number;
+  lastActivityAt: number | null;
+  lessons: LessonProgressSummary[];
+}
+
+export function progressKey(progress: Pick<UserProgress, 'lessonId' | 'sectionKind'>): string {
+  return `${progress.lessonId}:${progress.sectionKind}`;
+}
+
+/**
+ * Combines the local copy with the server's. The server has every device's
+ * synced updates; the local copy may hold updates that are still queued. Both
+ * only ever grow, so the merge keeps the best of each field.
+ */
+export function mergeServerProgress(local: UserProgress[], server: UserProgress[]): UserProgress[] {
+  const merged = new Map(local.map(p => [progressKey(p), p]));
+
+  for (const remote of server) {
+    const key = progressKey(remote);
+    const existing = merged.get(key);
+    merged.set(key, existing
+      ? {
+          ...remote,
+          userId: existing.userId,
+          completed: existing.completed || remote.completed,
+          score: Math.max(existing.score, remote.score),
+          attempts: Math.max(existing.attempts, remote.attempts),
+          updatedAt: Math.max(existing.updatedAt, remote.updatedAt)
+        }
+      : remote);
+  }
+
+  return Array.from(merged.values());
+}
+
+export function summarizeLessonProgress(lesson: Lesson, progress: UserProgress[]): LessonProgressSummary {
+  const lessonId = lesson.id ?? -1;
+  const entries = progress.filter(p => p.lessonId === lessonId);
+  const trackedSections = lesson.sections
+    .filter(section => isGradedSection(section.kind) && (section.exercises?.length ?? 0) > 0)
+    .map(section => section.kind);
+  const completedSections = trackedSections.filter(kind =>
+    entries.some(p => p.sectionKind === kind && p.completed)
+  );
+  const attempted = entries.filter(p => p.attempts > 0);
+
+  return {
+    lessonId,
+    lessonSlug: lesson.slug,
+    trackedSections,
+    completedSections,
+    percent: trackedSections.length > 0 ? Math.round((completedSections.length / trackedSections.length) * 100) : 0,
+    completed: trackedSections.length > 0 && completedSections.length === trackedSections.length,
+    averageScore: attempted.length > 0
+      ? Math.round(attempted.reduce((sum, p) => sum + p.score, 0) / attempted.length)
+      : 0,
+    attempts: entries.reduce((sum, p) => sum + p.attempts, 0),
+    lastActivityAt: entries.length > 0 ? Math.max(...entries.map(p => p.updatedAt)) : null
+  };
+}
+
+export function summarizeProgress(lessons: Lesson[], progress: UserProgress[]): ProgressOverview {
+  const summaries = lessons.map(lesson => summarizeLessonProgress(lesson, progress));
+  const started = summaries.filter(s => s.attempts > 0);
+  const scored = progress.filter(p => p.attempts > 0);
+
+  return {
+    totalLessons: lessons.length,
+    startedLessons: started.length,
+    completedLessons: summaries.filter(s => s.completed).length,
+    averageScore: scored.length > 0
+      ? Math.round(scored.reduce((sum, p) => sum + p.score, 0) / scored.length)
+      : 0,
+    lastActivityAt: progress.length > 0 ? Math.max(...progress.map(p => p.updatedAt)) : null,
+    lessons: summaries
+  };
+}
@@ -0,0 +1,118 @@
+// Per-user progress: persisted in IndexedDB, queued to /api/sync, refreshed
+// from /api/progress. The server copy is authoritative across devices.
+
+import { IndexedDBService } from '../data/IndexedDBService';
+import { offlineSyncService } from '../offline-sync';
+import authService from '../../services/AuthService';
+import { mergeServerProgress, progressKey } from './ProgressModel';
+import type { UserProgress } from '../../types';
+import type { SyncState } from '../sync/SyncProtocol';
+
+export type ProgressListener = (userId: string, progress: UserProgress[]) => void;
+
+export class ProgressStore {
+  private static instance: ProgressStore;
+  private indexedDB: IndexedDBService;
+  private cache = new Map<string, UserProgress[]>();
+  private listeners = new Set<ProgressListener>();
+
+  private constructor() {
+    this.indexedDB = IndexedDBService.getInstance();
+
+    // Every successful sync returns the merged server state for the signed-in user
+    offlineSyncService.addEventListener(event => {
+      const state = (event.data as { state?: SyncState | null } | undefined)?.state;
+      const userId = authService.getState().user?.id;
+      if (event.type === 'sync-complete' && state && userId) {
+        this.applyServerProgress(userId, state.progress).catch(error => {
+          console.error('Failed to apply synced progress:', error);
+        });
+      }
+    });
+  }
+
+  static getInstance(): ProgressStore {
+    if (!ProgressStore.instance) {
+      ProgressStore.instance = new ProgressStore();
+    }
+    return ProgressStore.instance;
+  }
+
+  /**
+   * Progress for every lesson section the user has attempted, from the local copy
+   */
+  async getProgress(userId: string): Promise<UserProgress[]> {
+    const cached = this.cache.get(userId);
+    if (cached) return cached;
+
+    await this.indexedDB.initialize();
+    const progress = await this.indexedDB.getUserProgress(userId);
+    this.cache.set(userId, progress);
+    return progress;
+  }
+
+  async getLessonProgress(userId: string, lessonId: number): Promise<UserProgress[]> {
+    const progress = await this.getProgress(userId);
+    return progress.filter(p => p.lessonId === lessonId);
+  }
+
+  /**
+   * Saves a section result locally and queues it for the server. Works offline;
+   * the queued update is sent once the device is back online.
+   */
+  async recordProgress(progress: UserProgress, attemptsDelta = 1): Promise<void> {
+    const current = await this.getProgress(progress.userId);
+    const next = [...current.filter(p => progressKey(p) !== progressKey(progress)), progress];
+
+    await this.save(progress.userId, next, [progress]);
+    await offlineSyncService.saveUserProgress(progress.userId, progress, attemptsDelta);
+  }
+
+  /**
+   * Pulls the server copy and merges it into the local one
+   */
+  async refresh(userId: string): Promise<UserProgress[]> {
+    const authHeader = authService.getAuthHeader();
+    if (!authHeader || typeof navigator === 'undefined' || !navigator.onLine) {
+      return this.getProgress(userId);
+    }
+
+    const response = await fetch('/api/progress', { headers: { Authorization: authHeader } });
+    if (!response.ok) {
+      throw new Error(`Failed to load progress: ${response.status}`);
+    }
+
+    const body = await response.json() as { progress: UserProgress[] };
+    return this.applyServerProgress(userId, body.progress);
+  }
+
+  subscribe(listener: ProgressListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async applyServerProgress(userId: string, server: UserProgress[]): Promise<UserProgress[]> {
+    const local = await this.getProgress(userId);
+    const merged = mergeServerProgress(local, server.map(p => ({ ...p, userId })));
+    const changed = merged.filter(p => {
+      const before = local.find(l => progressKey(l) === progressKey(p));
+      return !before || JSON.stringify(before) !== JSON.stringify(p);
+    });
+
+    if (changed.length > 0) {
+      await this.save(userId, merged, changed);
+    }
+    return merged;
+  }
+
+  private async save(userId: string, progress: UserProgress[], changed: UserProgress[]): Promise<void> {
+    await this.indexedDB.initialize();
+    await this.indexedDB.cacheUserProgress(changed);
+    this.cache.set(userId, progress);
+    this.listeners.forEach(listener => listener(userId, progress));
+  }
+}
+
+export const progressStore = ProgressStore.getInstance();
@@ -0,0 +1,85 @@
+import { mergeServerProgress, summarizeLessonProgress, summarizeProgress } from '../ProgressModel';
+import type { Exercise, Lesson, UserProgress } from '../../../types';
+
+const exercise: Exercise = { type: 'MCQ', prompt: 'Ia ora na?', data: {} };
+
+const lesson = (id: number, slug: string): Lesson => ({
+  id,
+  slug,
+  level: 'Beginner',
+  title: { fr: slug },
+  summary: '',
+  sections: [
+    { kind: 'Vocabulary', title: 'Mots' },
+    { kind: 'Practice', title: 'Pratique', exercises: [exercise] },
+    { kind: 'Assessment', title: 'Évaluation', exercises: [exercise, exercise] }
+  ]
+});
+
+const entry = (overrides: Partial<UserProgress>): UserProgress => ({
+  userId: 'user-1',
+  lessonId: 1,
+  sectionKind: 'Practice',
+  completed: false,
+  score: 0,
+  attempts: 1,
+  updatedAt: 1000,
+  ...overrides
+});
+
+describe('ProgressModel', () => {
+  it('keeps the best of the local and server copies when merging', () => {
+    const local = [
+      entry({ score: 90, attempts: 1, updatedAt: 2000 }),
+      entry({ sectionKind: 'Assessment', score: 40, updatedAt: 500 })
+    ];
+    const server = [
+      entry({ userId: 'server-id', completed: true, score: 60, attempts: 3, updatedAt: 1500 }),
+      entry({ lessonId: 2, score: 70 })
+    ];
+
+    const merged = mergeServerProgress(local, server);
+
+    expect(merged).toHaveLength(3);
+    expect(merged.find(p => p.lessonId === 1 && p.sectionKind === 'Practice')).toEqual(
+      entry({ completed: true, score: 90, attempts: 3, updatedAt: 2000 })
+    );
+    expect(merged.find(p => p.sectionKind === 'Assessment')).toEqual(local[1]);
+    expect(merged.find(p => p.lessonId === 2)).toEqual(server[1]);
+  });
+
+  it('summarizes a lesson over its graded sections only', () => {
+    const summary = summarizeLessonProgress(lesson(1, 'greetings'), [
+      entry({ completed: true, score: 100, attempts: 2, updatedAt: 3000 }),
+      entry({ sectionKind: 'Assessment', score: 50, attempts: 1, updatedAt: 4000 }),
+      entry({ lessonId: 2, completed: true })
+    ]);
+
+    expect(summary).toEqual({
+      lessonId: 1,
+      lessonSlug: 'greetings',
+      trackedSections: ['Practice', 'Assessment'],
+      completedSections: ['Practice'],
+      percent: 50,
+      completed: false,
+      averageScore: 75,
+      attempts: 3,
+      lastActivityAt: 4000
+    });
+  });
+
+  it('summarizes progress across lessons', () => {
+    const overview = summarizeProgress([lesson(1, 'greetings'), lesson(2, 'numbers'), lesson(3, 'family')], [
+      entry({ completed: true, score: 80 }),
+      entry({ sectionKind: 'Assessment', completed: true, score: 100, updatedAt: 5000 }),
+      entry({ lessonId: 2, score: 30, updatedAt: 2000 })
+    ]);
+
+    expect(overview.totalLessons).toBe(3);
+    expect(overview.startedLessons).toBe(2);
+    expect(overview.completedLessons).toBe(1);
+    expect(overview.averageScore).toBe(70);
+    expect(overview.lastActivityAt).toBe(5000);
+    expect(overview.lessons.map(l => l.percent)).toEqual([100, 0, 0]);
+  });
+});
@@ -0,0 +1,433 @@
+// Editorial review of courses: a workflow's steps run in order, each signed
+// off by reviewers holding the step's roles, and a course may only be
+// published once every step has approved the exact content going live.
+
+import type {
+  Notification,
+  ReviewCondition,
+  ReviewFeedback,
+  ReviewHistoryEntry,
+  ReviewRequest,
+  ReviewStep,
+  ReviewWorkflow
+} from '../../types/collaboration';
+import type { Course } from '../../types';
+
+export class ReviewError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+/** Someone acting on a review; `role` is an RBAC role id */
+export interface Reviewer {
+  id: string;
+  role: string;
+  name?: string;
+  email?: string;
+}
+
+/** Decides whether a role may sign off content; `rbacService` satisfies it */
+export interface ApproverPolicy {
+  hasPermission(user: { id: string; email: string; name: string; role: string }, resource: string, action: string): boolean;
+}
+
+/** What step conditions are evaluated against */
+export interface ReviewContext {
+  contentType: string;
+  authorRole?: string;
+  /** Number of lessons, for courses */
+  contentSize?: number;
+}
+
+export type ReviewDecision = ReviewFeedback['decision'];
+
+/** A notification to store, addressed to a user id or to everyone with a role */
+export type ReviewNotice = Omit<Notification, 'id' | 'createdAt' | 'read' | 'readAt'>;
+
+export const COURSE_CONTENT_TYPE = 'course';
+
+const HOUR_MS = 60 * 60 * 1000;
+const ROLE_RECIPIENT_PREFIX = 'role:';
+
+export const DEFAULT_COURSE_WORKFLOW: Omit<ReviewWorkflow, 'id' | 'createdBy' | 'createdAt' | 'updatedAt'> = {
+  name: 'Course publication',
+  description: 'Language and cultural sign-off by our Tahitian advisors, then approval to publish',
+  contentTypes: [COURSE_CONTENT_TYPE],
+  isActive: true,
+  steps: [
+    {
+      id: 'linguist-review',
+      name: 'Linguistic review',
+      description: 'A linguist checks the Tahitian: spelling, glottal stops and macrons, grammar and audio',
+      order: 1,
+      type: 'review',
+      assignedRoles: ['linguist'],
+      assignedUsers: [],
+      requiredApprovals: 1,
+      timeLimit: 72,
+      isOptional: false,
+      conditions: [],
+      actions: [{ id: 'notify-linguists', type: 'notify', parameters: { roles: ['linguist'] }, description: 'Tell linguists a course is waiting' }]
+    },
+    {
+      id: 'cultural-review',
+      name: 'Cultural review',
+      description: 'A cultural advisor checks that examples, images and context are respectful and accurate',
+      order: 2,
+      type: 'review',
+      assignedRoles: ['cultural_advisor'],
+      assignedUsers: [],
+      requiredApprovals: 1,
+      timeLimit: 72,
+      isOptional: false,
+      conditions: [],
+      actions: [{ id: 'notify-advisors', type: 'notify', parameters: { roles: ['cultural_advisor'] }, description: 'Tell cultural advisors a course is waiting' }]
+    },
+    {
+      id: 'publish-approval',
+      name: 'Approval to publish',
+      description: 'An administrator confirms the course is ready for learners',
+      order: 3,
+      type: 'approval',
+      assignedRoles: ['admin', 'super_admin'],
+      assignedUsers: [],
+      requiredApprovals: 1,
+      timeLimit: 24,
+      isOptional: false,
+      conditions: [],
+      actions: [{ id: 'allow-publish', type: 'publish', parameters: {}, description: 'The course may be published' }]
+    }
+  ]
+};
+
+export function courseContentId(courseId: number): string {
+  return `course-${courseId}`;
+}
+
+/** Where the content under review can be looked at */
+export function contentUrl(contentId: string): string | undefined {
+  const match = /^course-(\d+)$/.exec(contentId);
+  return match ? `/admin/courses/${match[1]}/preview` : undefined;
+}
+
+/** Notification recipient standing for everyone with the role */
+export function roleRecipient(role: string): string {
+  return `${ROLE_RECIPIENT_PREFIX}${role}`;
+}
+
+/**
+ * Identifies the reviewed content: any edit to the course text or lessons
+ * changes it, so an approval cannot carry over to content nobody reviewed
+ */
+export function courseFingerprint(course: Pick<Course, 'title' | 'description' | 'level' | 'lessons'>): string {
+  const text = JSON.stringify([course.title, course.description, course.level, course.lessons]);
+  // FNV-1a, 32 bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${text.length.toString(16)}-${hash.toString(16).padStart(8, '0')}`;
+}
+
+const time = (value: Date | string | number | undefined) => (value === undefined ? NaN : new Date(value).getTime());
+
+/** Restores dates on a review request read back from JSON storage */
+export function reviveReviewRequest(raw: ReviewRequest): ReviewRequest {
+  const date = (value: Date | string | number | undefined) => (value === undefined ? undefined : new Date(value));
+  return {
+    ...raw,
+    dueDate: date(raw.dueDate),
+    createdAt: date(raw.createdAt)!,
+    updatedAt: date(raw.updatedAt)!,
+    completedAt: date(raw.completedAt),
+    feedback: (raw.feedback ?? []).map(entry => ({ ...entry, createdAt: date(entry.createdAt)! })),
+    history: (raw.history ?? []).map(entry => ({ ...entry, timestamp: date(entry.timestamp)! }))
+  };
+}
+
+function conditionHolds(condition: ReviewCondition, context: ReviewContext): boolean {
+  const actual = condition.type === 'content_type' ? context.contentType
+    : condition.type === 'author_role' ? context.authorRole
+    : condition.type === 'content_size' ? context.contentSize
+    : undefined;
+  if (actual === undefined) return false;
+
+  switch (condition.operator) {
+    case 'equals': return String(actual) === String(condition.value);
+    case 'not_equals': return String(actual) !== String(condition.value);
+    case 'greater_than': return Number(actual) > Number(condition.value);
+    case 'less_than': return Number(actual) < Number(condition.value);
+    case 'contains': return String(actual).includes(String(condition.value));
+  }
+}
+
+/**
+ * The steps this content goes through, in order. Required steps always run;
+ * optional ones only when all their conditions hold.
+ */
+export function applicableSteps(workflow: ReviewWorkflow, context: ReviewContext): ReviewStep[] {
+  return [...workflow.steps]
+    .sort((a, b) => a.order - b.order)
+    .filter(step => !step.isOptional || (step.conditions.length > 0 && step.conditions.every(c => conditionHolds(c, context))));
+}
+
+export function findStep(workflow: ReviewWorkflow, stepId: string): ReviewStep | undefined {
+  return workflow.steps.find(step => step.id === stepId);
+}
+
+/** Who is told about a step: its named users and everyone with its roles */
+export function stepRecipients(step: ReviewStep): string[] {
+  return [...step.assignedUsers, ...step.assignedRoles.map(roleRecipient)];
+}
+
+export function canReviewStep(step: ReviewStep, reviewer: Reviewer, policy: ApproverPolicy): boolean {
+  const assigned = step.assignedUsers.includes(reviewer.id) || step.assignedRoles.includes(reviewer.role);
+  const user = { id: reviewer.id, email: reviewer.email ?? '', name: reviewer.name ?? reviewer.id, role: reviewer.role };
+  return assigned && policy.hasPermission(user, 'content', 'approve');
+}
+
+/** When the current step started; approvals from earlier rounds do not count */
+function stepStartedAt(request: ReviewRequest): number {
+  const started = [...request.history].reverse().find(entry => entry.action === 'step_started' && entry.stepId === request.currentStepId);
+  return started ? time(started.timestamp) : time(request.createdAt);
+}
+
+/** Approvals of the current step in this round, one per reviewer */
+export function currentApprovals(request: ReviewRequest): ReviewFeedback[] {
+  const since = stepStartedAt(request);
+  const approvals = request.feedback.filter(entry => (
+    entry.stepId === request.currentStepId && entry.decision === 'approve' && time(entry.createdAt) >= since
+  ));
+  return approvals.filter((entry, index) => approvals.findIndex(other => other.reviewerId === entry.reviewerId) === index);
+}
+
+interface Transition {
+  request: ReviewRequest;
+  notices: ReviewNotice[];
+}
+
+function historyEntry(action: string, performedBy: string, now: Date, stepId?: string, details: Record<string, unknown> = {}): ReviewHistoryEntry {
+  return { id: `${action}-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`, action, performedBy, timestamp: now, details, stepId };
+}
+
+function enterStep(request: ReviewRequest, step: ReviewStep, performedBy: string, now: Date): Transition {
+  const dueDate = step.timeLimit ? new Date(now.getTime() + step.timeLimit * HOUR_MS) : undefined;
+  const url = contentUrl(request.contentId);
+  return {
+    request: {
+      ...request,
+      currentStepId: step.id,
+      assignedTo: stepRecipients(step),
+      status: 'in_review',
+      dueDate,
+      updatedAt: now,
+      history: [...request.history, historyEntry('step_started', performedBy, now, step.id)]
+    },
+    notices: stepRecipients(step).map(userId => ({
+      userId,
+      type: 'review_request' as const,
+      title: `${step.name} needed`,
+      message: `${request.contentId} is waiting for your ${step.name.toLowerCase()}${dueDate ? ` by ${dueDate.toISOString()}` : ''}`,
+      data: { requestId: request.id, contentId: request.contentId, stepId: step.id, reviewUrl: url },
+      actionUrl: '/admin/reviews',
+      priority: request.priority === 'urgent' || request.priority === 'high' ? 'high' as const : 'medium' as const
+    }))
+  };
+}
+
+function noticeToRequester(request: ReviewRequest, type: ReviewNotice['type'], title: string, message: string): ReviewNotice {
+  return {
+    userId: request.requestedBy,
+    type,
+    title,
+    message,
+    data: { requestId: request.id, contentId: request.contentId },
+    actionUrl: contentUrl(request.contentId),
+    priority: 'medium'
+  };
+}
+
+export interface StartReviewInput {
+  id: string;
+  contentId: string;
+  versionId: string;
+  requestedBy: string;
+  context: ReviewContext;
+  priority?: ReviewRequest['priority'];
+}
+
+/** Opens a review at the workflow's first step and notifies its reviewers */
+export function startReview(workflow: ReviewWorkflow, input: StartReviewInput, now: Date): Transition {
+  if (!workflow.isActive) throw new ReviewError(`The workflow "${workflow.name}" is not active`, 409);
+  const [first] = applicableSteps(workflow, input.context);
+  if (!first) throw new ReviewError(`The workflow "${workflow.name}" has no steps for this content`, 409);
+
+  const request: ReviewRequest = {
+    id: input.id,
+    contentId: input.contentId,
+    versionId: input.versionId,
+    workflowId: workflow.id,
+    currentStepId: first.id,
+    requestedBy: input.requestedBy,
+    assignedTo: [],
+    status: 'pending',
+    priority: input.priority ?? 'medium',
+    createdAt: now,
+    updatedAt: now,
+    feedback: [],
+    history: [historyEntry('submitted', input.requestedBy, now, undefined, { versionId: input.versionId })]
+  };
+  return enterStep(request, first, input.requestedBy, now);
+}
+
+/** Starts a review sent back for changes over, from the first step, for the new content */
+export function resubmitReview(request: ReviewRequest, workflow: ReviewWorkflow, context: ReviewContext, versionId: string, now: Date): Transition {
+  if (request.status !== 'pending') throw new ReviewError('Only reviews sent back for changes can be resubmitted', 409);
+  const [first] = applicableSteps(workflow, context);
+  if (!first) throw new ReviewError(`The workflow "${workflow.name}" has no steps for this content`, 409);
+
+  const resubmitted = {
+    ...request,
+    versionId,
+    history: [...request.history, historyEntry('resubmitted', request.requestedBy, now, undefined, { versionId })]
+  };
+  return enterStep(resubmitted, first, request.requestedBy, now);
+}
+
+/**
+ * Records a reviewer's decision on the current step. Enough approvals move
+ * the review to the next step, or approve it after the last one; asking for
+ * changes sends it back to the author and rejecting closes it.
+ */
+export function recordDecision(
+  request: ReviewRequest,
+  workflow: ReviewWorkflow,
+  context: ReviewContext,
+  reviewer: Reviewer,
+  decision: ReviewDecision,
+  comments: string,
+  policy: ApproverPolicy,
+  now: Date
+): Transition {
+  if (request.status !== 'in_review') throw new ReviewError(`This review is ${request.status.replace('_', ' ')}`, 409);
+  const step = findStep(workflow, request.currentStepId);
+  if (!step) throw new ReviewError('The review is at a step the workflow no longer has', 409);
+
+  if (!canReviewStep(step, reviewer, policy)) {
+    throw new ReviewError(`${step.name} must be signed off by: ${step.assignedRoles.join(', ') || step.assignedUsers.join(', ')}`, 403);
+  }
+  if (reviewer.id === request.requestedBy) throw new ReviewError('Authors cannot review their own submission', 403);
+  if (currentApprovals(request).some(entry => entry.reviewerId === reviewer.id)) {
+    throw new ReviewError('You have already approved this step', 409);
+  }
+  if (decision !== 'approve' && comments.trim() === '') {
+    throw new ReviewError('Explain what needs to change');
+  }
+
+  const feedback: ReviewFeedback = {
+    id: `feedback-${now.getTime()}-${reviewer.id}`,
+    reviewerId: reviewer.id,
+    stepId: step.id,
+    decision,
+    comments: comments.trim(),
+    suggestions: [],
+    attachments: [],
+    createdAt: now
+  };
+  const action = decision === 'approve' ? 'approved' : decision === 'reject' ? 'rejected' : 'changes_requested';
+  const reviewed: ReviewRequest = {
+    ...request,
+    feedback: [...request.feedback, feedback],
+    history: [...request.history, historyEntry(action, reviewer.id, now, step.id, { comments: feedback.comments })],
+    updatedAt: now
+  };
+
+  if (decision === 'reject') {
+    return {
+      request: { ...reviewed, status: 'rejected', assignedTo: [], dueDate: undefined, completedAt: now },
+      notices: [noticeToRequester(reviewed, 'rejection', `${step.name}: rejected`, feedback.comments)]
+    };
+  }
+  if (decision === 'request_changes') {
+    return {
+      request: { ...reviewed, status: 'pending', assignedTo: [reviewed.requestedBy], dueDate: undefined },
+      notices: [noticeToRequester(reviewed, 'rejection', `${step.name}: changes requested`, feedback.comments)]
+    };
+  }
+
+  if (currentApprovals(reviewed).length < step.requiredApprovals) return { request: reviewed, notices: [] };
+
+  const steps = applicableSteps(workflow, context);
+  const next = steps[steps.findIndex(candidate => candidate.id === step.id) + 1];
+  const completed = { ...reviewed, history: [...reviewed.history, historyEntry('step_completed', reviewer.id, now, step.id)] };
+  if (next) return enterStep(completed, next, reviewer.id, now);
+
+  return {
+    request: { ...completed, status: 'approved', assignedTo: [], dueDate: undefined, completedAt: now },
+    notices: [noticeToRequester(completed, 'approval', 'Review complete', `Every step of "${workflow.name}" has signed off; the content can be published`)]
+  };
+}
+
+export function isOverdue(request: ReviewRequest, now: Date): boolean {
+  return request.status === 'in_review' && request.dueDate !== undefined && time(request.dueDate) < now.getTime();
+}
+
+/**
+ * Escalates a review whose step ran past its time limit: reviewers and the
+ * author are told once per step, and the breach is kept in the history.
+ * Returns null when there is nothing to do.
+ */
+export function escalateOverdue(request: ReviewRequest, workflow: ReviewWorkflow, now: Date): Transition | null {
+  if (!isOverdue(request, now)) return null;
+  const since = stepStartedAt(request);
+  const alreadyEscalated = request.history.some(entry => (
+    entry.action === 'sla_breached' && entry.stepId === request.currentStepId && time(entry.timestamp) >= since
+  ));
+  if (alreadyEscalated) return null;
+
+  const step = findStep(workflow, request.currentStepId);
+  const stepName = step?.name ?? request.currentStepId;
+  const message = `${stepName} of ${request.contentId} was due ${new Date(request.dueDate!).toISOString()}`;
+  return {
+    request: {
+      ...request,
+      priority: request.priority === 'urgent' ? 'urgent' : 'high',
+      updatedAt: now,
+      history: [...request.history, historyEntry('sla_breached', 'system', now, request.currentStepId, { dueDate: request.dueDate })]
+    },
+    notices: [...(step ? stepRecipients(step) : request.assignedTo), request.requestedBy].map(userId => ({
+      userId,
+      type: 'review_request' as const,
+      title: `Overdue: ${stepName}`,
+      message,
+      data: { requestId: request.id, contentId: request.contentId, stepId: request.currentStepId },
+      actionUrl: userId === request.requestedBy ? contentUrl(request.contentId) : '/admin/reviews',
+      priority: 'high' as const
+    }))
+  };
+}
+
+export interface PublishGate {
+  allowed: boolean;
+  reason?: string;
+}
+
+/** Publishing is allowed only for content whose review approved this exact version */
+export function publishGate(request: ReviewRequest | null, versionId: string, workflow?: ReviewWorkflow): PublishGate {
+  if (!request) return { allowed: false, reason: 'Submit the course for review before publishing' };
+
+  if (request.status !== 'approved') {
+    const step = workflow && findStep(workflow, request.currentStepId);
+    const reason = request.status === 'in_review' ? `Waiting for ${step?.name.toLowerCase() ?? 'review'}`
+      : request.status === 'pending' ? 'Reviewers asked for changes; resubmit the course once they are made'
+      : `The review was ${request.status}`;
+    return { allowed: false, reason };
+  }
+  if (request.versionId !== versionId) {
+    return { allowed: false, reason: 'The course changed after it was approved; submit it for review again' };
+  }
+  return { allowed: true };
+}
@@ -0,0 +1,156 @@
+import {
+  applicableSteps,
+  courseFingerprint,
+  DEFAULT_COURSE_WORKFLOW,
+  escalateOverdue,
+  isOverdue,
+  publishGate,
+  recordDecision,
+  resubmitReview,
+  roleRecipient,
+  startReview,
+  type ApproverPolicy,
+  type Reviewer
+} from '../ReviewWorkflow';
+import type { ReviewRequest, ReviewWorkflow } from '../../../types/collaboration';
+
+const workflow: ReviewWorkflow = {
+  ...DEFAULT_COURSE_WORKFLOW,
+  id: 'wf-1',
+  createdBy: 'system',
+  createdAt: new Date(0),
+  updatedAt: new Date(0)
+};
+
+/** Grants content approval to the reviewer roles, as RBACService does */
+const policy: ApproverPolicy = {
+  hasPermission: (user, resource, action) => (
+    resource === 'content' && action === 'approve' && ['linguist', 'cultural_advisor', 'admin', 'super_admin'].includes(user.role)
+  )
+};
+
+const linguist: Reviewer = { id: '3', role: 'linguist' };
+const advisor: Reviewer = { id: '4', role: 'cultural_advisor' };
+const admin: Reviewer = { id: '2', role: 'admin' };
+const context = { contentType: 'course', contentSize: 3 };
+const course = { title: { fr: 'Salutations', tah: 'Te aroha', en: 'Greetings' }, description: 'First words', level: 'Beginner' as const, lessons: [] };
+
+const hours = (n: number) => new Date(Date.UTC(2026, 0, 1) + n * 60 * 60 * 1000);
+
+function submit(): ReviewRequest {
+  return startReview(workflow, {
+    id: 'review-1',
+    contentId: 'course-7',
+    versionId: courseFingerprint(course),
+    requestedBy: '1',
+    context
+  }, hours(0)).request;
+}
+
+function decide(request: ReviewRequest, reviewer: Reviewer, decision: 'approve' | 'reject' | 'request_changes' = 'approve', at = 1) {
+  return recordDecision(request, workflow, context, reviewer, decision, decision === 'approve' ? '' : 'Fix the macrons', policy, hours(at));
+}
+
+describe('ReviewWorkflow', () => {
+  it('starts at the first step and notifies its reviewers with a due date', () => {
+    const { request, notices } = startReview(workflow, {
+      id: 'review-1', contentId: 'course-7', versionId: 'v1', requestedBy: '1', context
+    }, hours(0));
+
+    expect(request).toMatchObject({ status: 'in_review', currentStepId: 'linguist-review', assignedTo: [roleRecipient('linguist')] });
+    expect(request.dueDate).toEqual(hours(72));
+    expect(notices).toEqual([expect.objectContaining({ userId: 'role:linguist', type: 'review_request', actionUrl: '/admin/reviews' })]);
+  });
+
+  it('moves through every step before the course can be published', () => {
+    let request = submit();
+    const versionId = courseFingerprint(course);
+    expect(publishGate(request, versionId, workflow)).toEqual({ allowed: false, reason: 'Waiting for linguistic review' });
+
+    request = decide(request, linguist).request;
+    expect(request.currentStepId).toBe('cultural-review');
+
+    request = decide(request, advisor, 'approve', 2).request;
+    expect(request.currentStepId).toBe('publish-approval');
+    expect(publishGate(request, versionId, workflow).allowed).toBe(false);
+
+    const finished = decide(request, admin, 'approve', 3);
+    expect(finished.request).toMatchObject({ status: 'approved', completedAt: hours(3) });
+    expect(finished.notices).toEqual([expect.objectContaining({ userId: '1', type: 'approval' })]);
+    expect(publishGate(finished.request, versionId, workflow)).toEqual({ allowed: true });
+  });
+
+  it('only lets the step roles sign off, never the author, and once each', () => {
+    const request = submit();
+
+    expect(() => decide(request, advisor)).toThrow(expect.objectContaining({ status: 403 }));
+    expect(() => decide(request, { id: '9', role: 'student' })).toThrow(expect.objectContaining({ status: 403 }));
+    expect(() => decide(request, { id: '1', role: 'linguist' })).toThrow('Authors cannot review');
+
+    const twoApprovals = { ...workflow, steps: workflow.steps.map(step => ({ ...step, requiredApprovals: 2 })) };
+    const once = recordDecision(request, twoApprovals, context, linguist, 'approve', '', policy, hours(1)).request;
+    expect(once.currentStepId).toBe('linguist-review');
+    expect(() => recordDecision(once, twoApprovals, context, linguist, 'approve', '', policy, hours(2))).toThrow('already approved');
+
+    const deniedByRbac: ApproverPolicy = { hasPermission: () => false };
+    expect(() => recordDecision(request, workflow, context, linguist, 'approve', '', deniedByRbac, hours(1))).toThrow(expect.objectContaining({ status: 403 }));
+  });
+
+  it('sends the course back for changes and restarts review on resubmission', () => {
+    const approved = decide(submit(), linguist).request;
+    const { request, notices } = decide(approved, advisor, 'request_changes', 2);
+
+    expect(request).toMatchObject({ status: 'pending', assignedTo: ['1'] });
+    expect(notices[0]).toMatchObject({ userId: '1', title: 'Cultural review: changes requested', message: 'Fix the macrons' });
+    expect(publishGate(decide(approved, advisor, 'reject', 2).request, 'v1').reason).toBe('The review was rejected');
+    expect(() => recordDecision(approved, workflow, context, advisor, 'reject', ' ', policy, hours(2))).toThrow('Explain');
+
+    const resubmitted = resubmitReview(request, workflow, context, 'v2', hours(5)).request;
+    expect(resubmitted).toMatchObject({ status: 'in_review', currentStepId: 'linguist-review', versionId: 'v2' });
+    // The earlier linguist approval was for the previous round
+    expect(decide(resubmitted, linguist, 'approve', 6).request.currentStepId).toBe('cultural-review');
+  });
+
+  it('refuses to publish content changed after approval', () => {
+    let request = submit();
+    for (const [reviewer, at] of [[linguist, 1], [advisor, 2], [admin, 3]] as const) request = decide(request, reviewer, 'approve', at).request;
+
+    const edited = { ...course, title: { ...course.title, en: 'Greetings!' } };
+    expect(publishGate(request, courseFingerprint(edited)).reason).toMatch('changed after it was approved');
+    expect(publishGate(null, 'v1').reason).toMatch('Submit the course for review');
+  });
+
+  it('escalates an overdue step once', () => {
+    const request = submit();
+    expect(escalateOverdue(request, workflow, hours(71))).toBeNull();
+    expect(isOverdue(request, hours(73))).toBe(true);
+
+    const escalated = escalateOverdue(request, workflow, hours(73))!;
+    expect(escalated.request.priority).toBe('high');
+    expect(escalated.notices.map(notice => notice.userId)).toEqual(['role:linguist', '1']);
+    expect(escalated.notices.every(notice => notice.priority === 'high')).toBe(true);
+    expect(escalateOverdue(escalated.request, workflow, hours(80))).toBeNull();
+
+    // The next step gets its own time limit
+    const next = decide(escalated.request, linguist, 'approve', 80).request;
+    expect(isOverdue(next, hours(81))).toBe(false);
+    expect(escalateOverdue(next, workflow, hours(80 + 73))).not.toBeNull();
+  });
+
+  it('runs optional steps only when their conditions hold', () => {
+    const withAudioCheck: ReviewWorkflow = {
+      ...workflow,
+      steps: [...workflow.steps, {
+        ...workflow.steps[0],
+        id: 'audio-check',
+        order: 1.5,
+        isOptional: true,
+        conditions: [{ id: 'big', type: 'content_size', operator: 'greater_than', value: 10, description: 'Large courses' }]
+      }]
+    };
+
+    expect(applicableSteps(withAudioCheck, context).map(step => step.id)).toEqual(['linguist-review', 'cultural-review', 'publish-approval']);
+    expect(applicableSteps(withAudioCheck, { ...context, contentSize: 12 }).map(step => step.id))
+      .toEqual(['linguist-review', 'audio-check', 'cultural-review', 'publish-approval']);
+  });
+});
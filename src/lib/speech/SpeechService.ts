@@ -1,5 +1,7 @@
 // Web Speech API service for pronunciation practice and feedback
 
+import { scorePronunciation, SyllableFeedback } from './TahitianPhonetics';
+
 interface SpeechRecognitionEvent extends Event {
   results: SpeechRecognitionResultList;
   resultIndex: number;
@@ -51,6 +53,7 @@ export interface PronunciationResult {
   accuracy: number;
   feedback: string;
   suggestions: string[];
+  syllables: SyllableFeedback[];
 }
 
 export interface SpeechOptions {
@@ -58,6 +61,8 @@ export interface SpeechOptions {
   continuous?: boolean;
   interimResults?: boolean;
   maxAlternatives?: number;
+  /** IPA of the target (VocabItem.ipaTah), used for syllable-level scoring */
+  targetIpa?: string;
 }
 
 export interface TTSOptions {
@@ -174,14 +179,15 @@ export class SpeechService {
           const confidence = result[0].confidence || 0;
 
           // Analyze pronunciation
-          const analysis = this.analyzePronunciation(transcript, targetText);
+          const analysis = this.analyzePronunciation(transcript, targetText, options.targetIpa);
           
           resolve({
             transcript,
             confidence,
             accuracy: analysis.accuracy,
             feedback: analysis.feedback,
-            suggestions: analysis.suggestions
+            suggestions: analysis.suggestions,
+            syllables: analysis.syllables
           });
         };
 
@@ -241,17 +247,13 @@ export class SpeechService {
     }
   }
 
-  private analyzePronunciation(spoken: string, target: string): {
+  private analyzePronunciation(spoken: string, target: string, targetIpa?: string): {
     accuracy: number;
     feedback: string;
     suggestions: string[];
+    syllables: SyllableFeedback[];
   } {
-    const spokenLower = spoken.toLowerCase().trim();
-    const targetLower = target.toLowerCase().trim();
-    
-    // Simple similarity calculation (Levenshtein distance)
-    const similarity = this.calculateSimilarity(spokenLower, targetLower);
-    const accuracy = Math.round(similarity * 100);
+    const { accuracy, syllables } = scorePronunciation(spoken, target, targetIpa);
     
     let feedback = '';
     const suggestions: string[] = [];
@@ -271,41 +273,22 @@ export class SpeechService {
       suggestions.push('Practice saying each syllable slowly');
       suggestions.push('Record yourself and compare');
     }
-    
-    return { accuracy, feedback, suggestions };
-  }
-
-  private calculateSimilarity(str1: string, str2: string): number {
-    const matrix = [];
-    const len1 = str1.length;
-    const len2 = str2.length;
 
-    if (len1 === 0) return len2 === 0 ? 1 : 0;
-    if (len2 === 0) return 0;
+    const syllablesWith = (kind: string) => syllables
+      .filter(syllable => syllable.issues.some(issue => issue.kind === kind))
+      .map(syllable => syllable.text);
 
-    // Initialize matrix
-    for (let i = 0; i <= len1; i++) {
-      matrix[i] = [i];
-    }
-    for (let j = 0; j <= len2; j++) {
-      matrix[0][j] = j;
+    const lengthErrors = syllablesWith('vowel-length');
+    if (lengthErrors.length > 0) {
+      suggestions.unshift(`Watch the vowel length in: ${lengthErrors.join(', ')} (a macron means a long vowel)`);
     }
 
-    // Calculate Levenshtein distance
-    for (let i = 1; i <= len1; i++) {
-      for (let j = 1; j <= len2; j++) {
-        const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j] + 1,     // deletion
-          matrix[i][j - 1] + 1,     // insertion
-          matrix[i - 1][j - 1] + cost // substitution
-        );
-      }
+    const glottalErrors = syllablesWith('glottal-stop');
+    if (glottalErrors.length > 0) {
+      suggestions.unshift(`Make the glottal stop (ʻeta) clear in: ${glottalErrors.join(', ')}`);
     }
-
-    const distance = matrix[len1][len2];
-    const maxLength = Math.max(len1, len2);
-    return (maxLength - distance) / maxLength;
+    
+    return { accuracy, feedback, suggestions, syllables };
   }
 
   async speak(
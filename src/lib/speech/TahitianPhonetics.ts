@@ -0,0 +1,285 @@
+// Tahitian grapheme-to-phoneme conversion and phoneme-level pronunciation scoring
+
+export type PronunciationIssueKind = 'vowel-length' | 'glottal-stop' | 'substitution' | 'missing' | 'extra';
+
+export interface PronunciationIssue {
+  kind: PronunciationIssueKind;
+  expected?: string;
+  heard?: string;
+}
+
+export interface SyllableFeedback {
+  /** Syllable in Tahitian spelling, e.g. "ʻū" */
+  text: string;
+  /** Expected phonemes, e.g. "ʔuː" */
+  ipa: string;
+  /** Phonemes recognised for this syllable */
+  heard: string;
+  /** 0-100 */
+  score: number;
+  status: 'correct' | 'close' | 'incorrect';
+  issues: PronunciationIssue[];
+  wordIndex: number;
+}
+
+export interface PhonemeScore {
+  /** 0-100 */
+  accuracy: number;
+  syllables: SyllableFeedback[];
+}
+
+export interface TahitianSyllable {
+  phonemes: string[];
+  wordIndex: number;
+}
+
+export const GLOTTAL_STOP = 'ʔ';
+const LENGTH_MARK = 'ː';
+const COMBINING_MACRON = '\u0304';
+const VOWELS = new Set(['a', 'e', 'i', 'o', 'u']);
+const GLOTTAL_GLYPHS = new Set(["'", '‘', '’', 'ʻ', 'ʼ', '`', GLOTTAL_STOP]);
+const MACRON_LETTERS: Record<string, string> = { a: 'ā', e: 'ē', i: 'ī', o: 'ō', u: 'ū' };
+
+/**
+ * Cost of each kind of error, relative to getting a whole phoneme wrong. Vowel
+ * length and the glottal stop ('eta) change meaning in Tahitian, so they are
+ * scored explicitly rather than disappearing in a plain string comparison.
+ */
+export const PHONEME_ERROR_WEIGHTS = {
+  substitution: 1,
+  vowelLength: 0.75,
+  glottalStop: 1.5
+};
+
+function isVowel(phoneme: string): boolean {
+  return VOWELS.has(phoneme[0]);
+}
+
+function isLongVowel(phoneme: string): boolean {
+  return isVowel(phoneme) && phoneme.endsWith(LENGTH_MARK);
+}
+
+function phonemeWeight(phoneme: string): number {
+  return phoneme === GLOTTAL_STOP ? PHONEME_ERROR_WEIGHTS.glottalStop : 1;
+}
+
+function substitutionCost(expected: string, heard: string): number {
+  if (expected === heard) return 0;
+  if (expected === GLOTTAL_STOP || heard === GLOTTAL_STOP) return PHONEME_ERROR_WEIGHTS.glottalStop;
+  if (isVowel(expected) && isVowel(heard) && expected[0] === heard[0]) return PHONEME_ERROR_WEIGHTS.vowelLength;
+  return PHONEME_ERROR_WEIGHTS.substitution;
+}
+
+/**
+ * Converts Tahitian spelling to phonemes, one array per word. Macrons mark long
+ * vowels and any apostrophe-like glyph is read as the glottal stop. Other
+ * diacritics (e.g. from a French recogniser) are dropped.
+ */
+export function graphemesToPhonemes(text: string): string[][] {
+  const words: string[][] = [];
+  let current: string[] = [];
+
+  const chars = Array.from(text.normalize('NFD').toLowerCase());
+  chars.forEach((char, index) => {
+    if (/\s/.test(char)) {
+      if (current.length > 0) words.push(current);
+      current = [];
+    } else if (GLOTTAL_GLYPHS.has(char)) {
+      current.push(GLOTTAL_STOP);
+    } else if (/[a-z]/.test(char)) {
+      const long = chars[index + 1] === COMBINING_MACRON || chars[index + 1] === LENGTH_MARK;
+      current.push(VOWELS.has(char) && long ? char + LENGTH_MARK : char);
+    }
+    // Punctuation and other combining marks are ignored
+  });
+
+  if (current.length > 0) words.push(current);
+  return words;
+}
+
+/**
+ * Tahitian syllables are (C)V: every vowel closes a syllable. Stray final
+ * consonants in loanwords stay with the last syllable.
+ */
+function syllabifyWord(phonemes: string[], wordIndex: number): TahitianSyllable[] {
+  const syllables: TahitianSyllable[] = [];
+  let onset: string[] = [];
+
+  for (const phoneme of phonemes) {
+    if (isVowel(phoneme)) {
+      syllables.push({ phonemes: [...onset, phoneme], wordIndex });
+      onset = [];
+    } else {
+      onset.push(phoneme);
+    }
+  }
+
+  if (onset.length > 0) {
+    if (syllables.length > 0) {
+      syllables[syllables.length - 1].phonemes.push(...onset);
+    } else {
+      syllables.push({ phonemes: onset, wordIndex });
+    }
+  }
+  return syllables;
+}
+
+/**
+ * Reads an IPA transcription such as "/mau.ˈru.u.ru/" into syllables, keeping
+ * the author's syllable breaks (and so their diphthongs).
+ */
+function parseIpa(ipa: string): TahitianSyllable[] {
+  const words = ipa.replace(/[/[\]ˈˌ]/g, '').trim().split(/\s+/).filter(Boolean);
+
+  return words.flatMap((word, wordIndex) =>
+    word.split('.').filter(Boolean).map(syllable => ({
+      phonemes: graphemesToPhonemes(syllable.replace(/ɾ/g, 'r')).flat(),
+      wordIndex
+    }))
+  ).filter(syllable => syllable.phonemes.length > 0);
+}
+
+export function syllabify(text: string, ipa?: string): TahitianSyllable[] {
+  if (ipa) {
+    const fromIpa = parseIpa(ipa);
+    if (fromIpa.length > 0) return fromIpa;
+  }
+  return graphemesToPhonemes(text).flatMap((word, wordIndex) => syllabifyWord(word, wordIndex));
+}
+
+/**
+ * Writes phonemes back in Tahitian spelling, with macrons and the 'eta
+ */
+export function phonemesToText(phonemes: string[]): string {
+  return phonemes
+    .map(phoneme => {
+      if (phoneme === GLOTTAL_STOP) return 'ʻ';
+      if (isLongVowel(phoneme)) return MACRON_LETTERS[phoneme[0]] ?? phoneme;
+      return phoneme;
+    })
+    .join('');
+}
+
+type AlignmentStep =
+  | { op: 'match' | 'substitute'; target: number; heard: string }
+  | { op: 'delete'; target: number }
+  | { op: 'insert'; after: number; heard: string };
+
+/**
+ * Weighted edit-distance alignment of expected against recognised phonemes
+ */
+function align(expected: string[], heard: string[]): { cost: number; steps: AlignmentStep[] } {
+  const n = expected.length;
+  const m = heard.length;
+  const dp: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+
+  for (let i = 1; i <= n; i++) dp[i][0] = dp[i - 1][0] + phonemeWeight(expected[i - 1]);
+  for (let j = 1; j <= m; j++) dp[0][j] = dp[0][j - 1] + phonemeWeight(heard[j - 1]);
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      dp[i][j] = Math.min(
+        dp[i - 1][j - 1] + substitutionCost(expected[i - 1], heard[j - 1]),
+        dp[i - 1][j] + phonemeWeight(expected[i - 1]),
+        dp[i][j - 1] + phonemeWeight(heard[j - 1])
+      );
+    }
+  }
+
+  const steps: AlignmentStep[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && dp[i][j] === dp[i - 1][j - 1] + substitutionCost(expected[i - 1], heard[j - 1])) {
+      steps.push({ op: expected[i - 1] === heard[j - 1] ? 'match' : 'substitute', target: i - 1, heard: heard[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && dp[i][j] === dp[i - 1][j] + phonemeWeight(expected[i - 1])) {
+      steps.push({ op: 'delete', target: i - 1 });
+      i--;
+    } else {
+      steps.push({ op: 'insert', after: i - 1, heard: heard[j - 1] });
+      j--;
+    }
+  }
+
+  return { cost: dp[n][m], steps: steps.reverse() };
+}
+
+function describeStep(step: AlignmentStep, expected: string[]): { cost: number; issue?: PronunciationIssue } {
+  switch (step.op) {
+    case 'match':
+      return { cost: 0 };
+    case 'substitute': {
+      const target = expected[step.target];
+      const cost = substitutionCost(target, step.heard);
+      const kind: PronunciationIssueKind =
+        target === GLOTTAL_STOP || step.heard === GLOTTAL_STOP ? 'glottal-stop'
+          : isVowel(target) && isVowel(step.heard) && target[0] === step.heard[0] ? 'vowel-length'
+            : 'substitution';
+      return { cost, issue: { kind, expected: target, heard: step.heard } };
+    }
+    case 'delete': {
+      const target = expected[step.target];
+      return {
+        cost: phonemeWeight(target),
+        issue: { kind: target === GLOTTAL_STOP ? 'glottal-stop' : 'missing', expected: target }
+      };
+    }
+    case 'insert':
+      return {
+        cost: phonemeWeight(step.heard),
+        issue: { kind: step.heard === GLOTTAL_STOP ? 'glottal-stop' : 'extra', heard: step.heard }
+      };
+  }
+}
+
+/**
+ * Scores a recognised transcript against the target phrase phoneme by phoneme
+ * and reports which syllables were mispronounced. When the target's IPA is
+ * known (VocabItem.ipaTah) it is used instead of the spelling.
+ */
+export function scorePronunciation(spoken: string, target: string, targetIpa?: string): PhonemeScore {
+  const syllables = syllabify(target, targetIpa);
+  const expected = syllables.flatMap(syllable => syllable.phonemes);
+  const heard = graphemesToPhonemes(spoken).flat();
+
+  const syllableOf: number[] = syllables.flatMap((syllable, index) => syllable.phonemes.map(() => index));
+  const perSyllable = syllables.map(() => ({ cost: 0, heard: '', issues: [] as PronunciationIssue[] }));
+
+  const { cost, steps } = align(expected, heard);
+  for (const step of steps) {
+    if (syllables.length === 0) break;
+    const index = step.op === 'insert' ? syllableOf[Math.max(step.after, 0)] : syllableOf[step.target];
+    const { cost: stepCost, issue } = describeStep(step, expected);
+
+    perSyllable[index].cost += stepCost;
+    if (step.op !== 'delete') perSyllable[index].heard += step.heard;
+    if (issue) perSyllable[index].issues.push(issue);
+  }
+
+  const toScore = (errorCost: number, weight: number) =>
+    weight > 0 ? Math.round(Math.max(0, 1 - errorCost / weight) * 100) : 0;
+
+  const feedback: SyllableFeedback[] = syllables.map((syllable, index) => {
+    const weight = syllable.phonemes.reduce((sum, phoneme) => sum + phonemeWeight(phoneme), 0);
+    const score = toScore(perSyllable[index].cost, weight);
+
+    return {
+      text: phonemesToText(syllable.phonemes),
+      ipa: syllable.phonemes.join(''),
+      heard: perSyllable[index].heard,
+      score,
+      status: score === 100 ? 'correct' : score >= 50 ? 'close' : 'incorrect',
+      issues: perSyllable[index].issues,
+      wordIndex: syllable.wordIndex
+    };
+  });
+
+  const totalWeight = expected.reduce((sum, phoneme) => sum + phonemeWeight(phoneme), 0);
+  const accuracy = expected.length === 0
+    ? (heard.length === 0 ? 100 : 0)
+    : toScore(cost, totalWeight);
+
+  return { accuracy, syllables: feedback };
+}
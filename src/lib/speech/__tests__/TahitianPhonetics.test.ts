@@ -0,0 +1,54 @@
+import {
+  graphemesToPhonemes,
+  phonemesToText,
+  scorePronunciation,
+  syllabify
+} from '../TahitianPhonetics';
+
+describe('TahitianPhonetics', () => {
+  it('maps macrons to long vowels and apostrophes to the glottal stop', () => {
+    expect(graphemesToPhonemes("ʻūrī")).toEqual([['ʔ', 'uː', 'r', 'iː']]);
+    expect(graphemesToPhonemes("Fa'a tārava")).toEqual([
+      ['f', 'a', 'ʔ', 'a'],
+      ['t', 'aː', 'r', 'a', 'v', 'a']
+    ]);
+  });
+
+  it('splits spelling into (C)V syllables', () => {
+    const syllables = syllabify('Ia ora na');
+    expect(syllables.map(s => phonemesToText(s.phonemes))).toEqual(['i', 'a', 'o', 'ra', 'na']);
+    expect(syllables.map(s => s.wordIndex)).toEqual([0, 0, 1, 1, 2]);
+  });
+
+  it('uses IPA syllable breaks when provided', () => {
+    const syllables = syllabify('Māuruuru', '/mau.ˈru.u.ru/');
+    expect(syllables.map(s => s.phonemes.join(''))).toEqual(['mau', 'ru', 'u', 'ru']);
+  });
+
+  it('scores an exact match as perfect', () => {
+    const result = scorePronunciation('ʻūrī', 'ʻūrī');
+    expect(result.accuracy).toBe(100);
+    expect(result.syllables.every(s => s.status === 'correct')).toBe(true);
+  });
+
+  it('penalises missing glottal stops and vowel length', () => {
+    const result = scorePronunciation('uri', 'ʻūrī');
+
+    expect(result.accuracy).toBeLessThan(50);
+    expect(result.syllables.map(s => s.text)).toEqual(['ʻū', 'rī']);
+    expect(result.syllables[0].issues.map(i => i.kind)).toEqual(['glottal-stop', 'vowel-length']);
+    expect(result.syllables[1].issues.map(i => i.kind)).toEqual(['vowel-length']);
+  });
+
+  it('points at the syllable that was wrong', () => {
+    const result = scorePronunciation('ia ora ma', 'Ia ora na');
+
+    expect(result.syllables.map(s => s.status)).toEqual(['correct', 'correct', 'correct', 'correct', 'close']);
+    expect(result.syllables[4].issues).toEqual([{ kind: 'substitution', expected: 'n', heard: 'm' }]);
+    expect(result.syllables[4].heard).toBe('ma');
+  });
+
+  it('scores an empty transcript as zero', () => {
+    expect(scorePronunciation('', 'Ia ora na').accuracy).toBe(0);
+  });
+});
@@ -0,0 +1,84 @@
+// Vocabulary review queue backed by the IndexedDB reviews store
+
+import { indexedDBService } from '../data/IndexedDBService';
+import { createReviewCard, endOfDay, reviewCardId, scheduleReview } from './SpacedRepetition';
+import type { Lesson, ReviewCard, ReviewGrade } from '../../types';
+
+export interface ReviewStats {
+  totalCards: number;
+  dueToday: number;
+  learnedCards: number;
+  lapses: number;
+}
+
+export class ReviewScheduler {
+  private static instance: ReviewScheduler;
+
+  private constructor() {}
+
+  static getInstance(): ReviewScheduler {
+    if (!ReviewScheduler.instance) {
+      ReviewScheduler.instance = new ReviewScheduler();
+    }
+    return ReviewScheduler.instance;
+  }
+
+  /**
+   * Adds a card for every vocabulary item in the lesson that the user does not
+   * have yet. Existing cards keep their schedule. Returns the number of new cards.
+   */
+  async trackLessonVocabulary(userId: string, lesson: Lesson, now: number = Date.now()): Promise<number> {
+    await indexedDBService.initialize();
+
+    const existing = new Set((await indexedDBService.getReviewCards(userId)).map(card => card.id));
+    const newCards: ReviewCard[] = [];
+
+    for (const section of lesson.sections) {
+      for (const vocab of section.vocab ?? []) {
+        const id = reviewCardId(userId, lesson.slug, vocab);
+        if (existing.has(id)) continue;
+        existing.add(id);
+        newCards.push(createReviewCard(userId, lesson.slug, vocab, now));
+      }
+    }
+
+    if (newCards.length > 0) {
+      await indexedDBService.saveReviewCards(newCards);
+    }
+    return newCards.length;
+  }
+
+  /**
+   * Cards due by the end of today, most overdue first
+   */
+  async getDueQueue(userId: string, now: number = Date.now()): Promise<ReviewCard[]> {
+    await indexedDBService.initialize();
+
+    const due = await indexedDBService.getDueReviewCards(userId, endOfDay(now));
+    return due.sort((a, b) => a.dueAt - b.dueAt);
+  }
+
+  async recordReview(card: ReviewCard, grade: ReviewGrade, now: number = Date.now()): Promise<ReviewCard> {
+    await indexedDBService.initialize();
+
+    const updated = scheduleReview(card, grade, now);
+    await indexedDBService.saveReviewCards([updated]);
+    return updated;
+  }
+
+  async getStats(userId: string, now: number = Date.now()): Promise<ReviewStats> {
+    await indexedDBService.initialize();
+
+    const cards = await indexedDBService.getReviewCards(userId);
+    const cutoff = endOfDay(now);
+
+    return {
+      totalCards: cards.length,
+      dueToday: cards.filter(card => card.dueAt <= cutoff).length,
+      learnedCards: cards.filter(card => card.repetitions > 0).length,
+      lapses: cards.reduce((sum, card) => sum + card.lapses, 0)
+    };
+  }
+}
+
+export const reviewScheduler = ReviewScheduler.getInstance();
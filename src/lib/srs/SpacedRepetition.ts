@@ -0,0 +1,104 @@
+// SM-2 spaced-repetition scheduling for vocabulary review cards
+
+import type { ReviewCard, ReviewGrade, VocabItem } from '../../types';
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * SM-2 response quality (0-5) for each grade button shown to the learner
+ */
+export const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+/**
+ * Stable card id, so re-tracking a lesson never duplicates or resets a card
+ */
+export function reviewCardId(userId: string, lessonSlug: string, vocab: VocabItem): string {
+  return `${userId}:${lessonSlug}:${vocab.tah ?? ''}:${vocab.fr}`;
+}
+
+export function endOfDay(now: number): number {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+}
+
+/**
+ * A new card is first shown on the day it was learned
+ */
+export function createReviewCard(
+  userId: string,
+  lessonSlug: string,
+  vocab: VocabItem,
+  now: number = Date.now()
+): ReviewCard {
+  return {
+    id: reviewCardId(userId, lessonSlug, vocab),
+    userId,
+    lessonSlug,
+    vocab,
+    easeFactor: DEFAULT_EASE_FACTOR,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now,
+    createdAt: now
+  };
+}
+
+/**
+ * Cards due any time today count as due, so the queue does not grow during the day
+ */
+export function isDue(card: ReviewCard, now: number = Date.now()): boolean {
+  return card.dueAt <= endOfDay(now);
+}
+
+/**
+ * Applies one SM-2 review. Failed recalls restart the repetition sequence and
+ * count as a lapse; the ease factor never drops below MIN_EASE_FACTOR.
+ */
+export function scheduleReview(
+  card: ReviewCard,
+  grade: ReviewGrade,
+  now: number = Date.now()
+): ReviewCard {
+  const quality = GRADE_QUALITY[grade];
+  let { repetitions, intervalDays, lapses } = card;
+
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+    lapses += 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round(intervalDays * card.easeFactor);
+    }
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  return {
+    ...card,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    lapses,
+    dueAt: now + intervalDays * DAY_MS,
+    lastReviewedAt: now
+  };
+}
@@ -0,0 +1,73 @@
+import {
+  createReviewCard,
+  isDue,
+  reviewCardId,
+  scheduleReview,
+  DEFAULT_EASE_FACTOR,
+  MIN_EASE_FACTOR
+} from '../SpacedRepetition';
+import type { VocabItem } from '../../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 0, 15, 10, 0, 0).getTime();
+const vocab: VocabItem = { fr: 'Bonjour', tah: "Ia ora na", en: 'Hello' };
+
+describe('SpacedRepetition', () => {
+  it('creates cards that are due on the day they are learned', () => {
+    const card = createReviewCard('user-1', 'greetings-basics', vocab, NOW);
+
+    expect(card.id).toBe(reviewCardId('user-1', 'greetings-basics', vocab));
+    expect(card.easeFactor).toBe(DEFAULT_EASE_FACTOR);
+    expect(isDue(card, NOW)).toBe(true);
+  });
+
+  it('follows the SM-2 interval sequence for successful reviews', () => {
+    let card = createReviewCard('user-1', 'greetings-basics', vocab, NOW);
+
+    card = scheduleReview(card, 'good', NOW);
+    expect(card.intervalDays).toBe(1);
+    expect(card.dueAt).toBe(NOW + DAY_MS);
+
+    card = scheduleReview(card, 'good', NOW);
+    expect(card.intervalDays).toBe(6);
+
+    card = scheduleReview(card, 'good', NOW);
+    expect(card.intervalDays).toBe(15);
+    expect(card.repetitions).toBe(3);
+    expect(card.easeFactor).toBe(DEFAULT_EASE_FACTOR);
+  });
+
+  it('raises ease on easy answers and lowers it on hard ones', () => {
+    const card = createReviewCard('user-1', 'greetings-basics', vocab, NOW);
+
+    expect(scheduleReview(card, 'easy', NOW).easeFactor).toBe(2.6);
+    expect(scheduleReview(card, 'hard', NOW).easeFactor).toBe(2.36);
+  });
+
+  it('resets repetitions and counts a lapse when recall fails', () => {
+    let card = createReviewCard('user-1', 'greetings-basics', vocab, NOW);
+    card = scheduleReview(card, 'good', NOW);
+    card = scheduleReview(card, 'good', NOW);
+
+    const lapsed = scheduleReview(card, 'again', NOW);
+    expect(lapsed.repetitions).toBe(0);
+    expect(lapsed.intervalDays).toBe(1);
+    expect(lapsed.lapses).toBe(1);
+    expect(lapsed.lastReviewedAt).toBe(NOW);
+  });
+
+  it('never lets the ease factor drop below the minimum', () => {
+    let card = createReviewCard('user-1', 'greetings-basics', vocab, NOW);
+    for (let i = 0; i < 10; i++) {
+      card = scheduleReview(card, 'again', NOW);
+    }
+    expect(card.easeFactor).toBe(MIN_EASE_FACTOR);
+  });
+
+  it('treats cards due later today as due and tomorrow as not due', () => {
+    const card = createReviewCard('user-1', 'greetings-basics', vocab, NOW);
+
+    expect(isDue({ ...card, dueAt: NOW + 6 * 60 * 60 * 1000 }, NOW)).toBe(true);
+    expect(isDue({ ...card, dueAt: NOW + DAY_MS }, NOW)).toBe(false);
+  });
+});
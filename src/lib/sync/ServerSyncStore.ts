@@ -0,0 +1,24 @@
+// Shared server-side sync store, so /api/sync and /api/progress see the same state
+
+import { createClient } from '@supabase/supabase-js';
+import { MemorySyncStore, SupabaseSyncStore, SyncStore } from './SyncStore';
+
+let memoryStore: MemorySyncStore | null = null;
+
+/**
+ * Supabase when configured; otherwise an in-process store for local development
+ */
+export function getSyncStore(): SyncStore {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (supabaseUrl && supabaseServiceKey) {
+    return new SupabaseSyncStore(createClient(supabaseUrl, supabaseServiceKey));
+  }
+
+  if (!memoryStore) {
+    console.warn('Supabase is not configured; sync state is kept in memory only');
+    memoryStore = new MemorySyncStore();
+  }
+  return memoryStore;
+}
@@ -0,0 +1,301 @@
+// Offline action sync protocol shared by the /api/sync route and the client queue
+
+import type { SectionKind, UserProgress } from '../../types';
+
+export type SyncActionType = 'progress_update' | 'lesson_completion' | 'vocabulary_practice';
+
+export const SYNC_ACTION_TYPES: SyncActionType[] = ['progress_update', 'lesson_completion', 'vocabulary_practice'];
+export const MAX_SYNC_BATCH_SIZE = 100;
+
+/**
+ * How many processed action ids are remembered per user for de-duplication.
+ * Clients retry within days, not years, so old ids can be forgotten.
+ */
+export const MAX_PROCESSED_ACTION_IDS = 10000;
+
+/**
+ * An action recorded on a device. `id` is generated on the device and makes
+ * re-sending the same action harmless.
+ */
+export interface SyncAction {
+  id: string;
+  /** The user who queued the action on the device; older clients do not send it */
+  userId?: string;
+  type: SyncActionType;
+  data: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface ProgressUpdatePayload {
+  progress: UserProgress;
+  /** Attempts made on this device since its last queued update */
+  attemptsDelta: number;
+}
+
+export interface LessonCompletionPayload {
+  lessonId: number;
+  score?: number;
+  completedAt: number;
+}
+
+export interface VocabularyPracticePayload {
+  word: string;
+  lessonId?: number;
+  correct: boolean;
+  practicedAt: number;
+}
+
+export interface LessonCompletionRecord {
+  lessonId: number;
+  firstCompletedAt: number;
+  bestScore: number;
+}
+
+export interface VocabularyPracticeRecord {
+  word: string;
+  lessonId?: number;
+  attempts: number;
+  correct: number;
+  lastPracticedAt: number;
+}
+
+export interface SyncState {
+  progress: UserProgress[];
+  completions: LessonCompletionRecord[];
+  vocabulary: VocabularyPracticeRecord[];
+  updatedAt: number;
+}
+
+export interface RejectedSyncAction {
+  id: string;
+  error: string;
+}
+
+export interface SyncResult {
+  applied: string[];
+  duplicates: string[];
+  rejected: RejectedSyncAction[];
+  state: SyncState;
+}
+
+export class SyncValidationError extends Error {
+  constructor(message: string, public actionId?: string) {
+    super(message);
+    this.name = 'SyncValidationError';
+  }
+}
+
+export function createEmptySyncState(): SyncState {
+  return { progress: [], completions: [], vocabulary: [], updatedAt: 0 };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Checks the envelope and payload of an incoming action
+ */
+export function validateSyncAction(raw: unknown): SyncAction {
+  if (!isRecord(raw)) throw new SyncValidationError('Action must be an object');
+
+  const id = raw.id;
+  if (typeof id !== 'string' || id.trim() === '') {
+    throw new SyncValidationError('Action id is required');
+  }
+  if (!SYNC_ACTION_TYPES.includes(raw.type as SyncActionType)) {
+    throw new SyncValidationError(`Unknown action type: ${String(raw.type)}`, id);
+  }
+  if (!isFiniteNumber(raw.timestamp)) {
+    throw new SyncValidationError('Action timestamp must be a number', id);
+  }
+  if (!isRecord(raw.data)) {
+    throw new SyncValidationError('Action data must be an object', id);
+  }
+
+  const data = raw.data;
+  switch (raw.type as SyncActionType) {
+    case 'progress_update': {
+      const progress = data.progress;
+      if (!isRecord(progress) || !isFiniteNumber(progress.lessonId) || typeof progress.sectionKind !== 'string') {
+        throw new SyncValidationError('progress_update requires progress.lessonId and progress.sectionKind', id);
+      }
+      if (!isFiniteNumber(progress.score) || !isFiniteNumber(data.attemptsDelta) || data.attemptsDelta < 0) {
+        throw new SyncValidationError('progress_update requires a score and a non-negative attemptsDelta', id);
+      }
+      break;
+    }
+    case 'lesson_completion':
+      if (!isFiniteNumber(data.lessonId) || !isFiniteNumber(data.completedAt)) {
+        throw new SyncValidationError('lesson_completion requires lessonId and completedAt', id);
+      }
+      break;
+    case 'vocabulary_practice':
+      if (typeof data.word !== 'string' || typeof data.correct !== 'boolean' || !isFiniteNumber(data.practicedAt)) {
+        throw new SyncValidationError('vocabulary_practice requires word, correct and practicedAt', id);
+      }
+      break;
+  }
+
+  return { id, type: raw.type as SyncActionType, data, timestamp: raw.timestamp };
+}
+
+/**
+ * Splits off actions another user queued: a device shared by two learners
+ * must not credit one with the other's work. Actions without an owner pass.
+ */
+export function partitionForeignActions(rawActions: unknown[], userId: string): { own: unknown[]; rejected: RejectedSyncAction[] } {
+  const own: unknown[] = [];
+  const rejected: RejectedSyncAction[] = [];
+  for (const raw of rawActions) {
+    if (isRecord(raw) && raw.userId !== undefined && raw.userId !== userId) {
+      rejected.push({ id: typeof raw.id === 'string' ? raw.id : '', error: 'Action was queued by another user' });
+    } else {
+      own.push(raw);
+    }
+  }
+  return { own, rejected };
+}
+
+/**
+ * Merges progress from two devices: the highest score wins, attempts add up,
+ * and a section completed anywhere stays completed.
+ */
+export function mergeProgress(
+  existing: UserProgress | undefined,
+  incoming: UserProgress,
+  attemptsDelta: number
+): UserProgress {
+  if (!existing) {
+    return { ...incoming, attempts: attemptsDelta };
+  }
+
+  return {
+    ...existing,
+    completed: existing.completed || incoming.completed,
+    score: Math.max(existing.score, incoming.score),
+    attempts: existing.attempts + attemptsDelta,
+    updatedAt: Math.max(existing.updatedAt, incoming.updatedAt)
+  };
+}
+
+function progressKey(lessonId: number, sectionKind: SectionKind | string): string {
+  return `${lessonId}:${sectionKind}`;
+}
+
+function applyAction(state: SyncState, action: SyncAction): SyncState {
+  switch (action.type) {
+    case 'progress_update': {
+      const { progress, attemptsDelta } = action.data as unknown as ProgressUpdatePayload;
+      const key = progressKey(progress.lessonId, progress.sectionKind);
+      const index = state.progress.findIndex(p => progressKey(p.lessonId, p.sectionKind) === key);
+      const merged = mergeProgress(index >= 0 ? state.progress[index] : undefined, progress, attemptsDelta);
+      const next = [...state.progress];
+      if (index >= 0) next[index] = merged; else next.push(merged);
+      return { ...state, progress: next };
+    }
+    case 'lesson_completion': {
+      const { lessonId, score, completedAt } = action.data as unknown as LessonCompletionPayload;
+      const existing = state.completions.find(c => c.lessonId === lessonId);
+      const record: LessonCompletionRecord = {
+        lessonId,
+        firstCompletedAt: Math.min(existing?.firstCompletedAt ?? completedAt, completedAt),
+        bestScore: Math.max(existing?.bestScore ?? 0, score ?? 0)
+      };
+      return { ...state, completions: [...state.completions.filter(c => c.lessonId !== lessonId), record] };
+    }
+    case 'vocabulary_practice': {
+      const { word, lessonId, correct, practicedAt } = action.data as unknown as VocabularyPracticePayload;
+      const existing = state.vocabulary.find(v => v.word === word);
+      const record: VocabularyPracticeRecord = {
+        word,
+        lessonId: lessonId ?? existing?.lessonId,
+        attempts: (existing?.attempts ?? 0) + 1,
+        correct: (existing?.correct ?? 0) + (correct ? 1 : 0),
+        lastPracticedAt: Math.max(existing?.lastPracticedAt ?? 0, practicedAt)
+      };
+      return { ...state, vocabulary: [...state.vocabulary.filter(v => v.word !== word), record] };
+    }
+  }
+}
+
+/**
+ * Applies a batch of actions in the order they happened. Actions whose id was
+ * already processed are reported as duplicates and change nothing; invalid
+ * actions are rejected without failing the rest of the batch.
+ */
+export function applySyncActions(
+  state: SyncState,
+  processedActionIds: string[],
+  rawActions: unknown[],
+  now: number = Date.now()
+): SyncResult & { processedActionIds: string[] } {
+  const seen = new Set(processedActionIds);
+  const applied: string[] = [];
+  const duplicates: string[] = [];
+  const rejected: RejectedSyncAction[] = [];
+  const valid: SyncAction[] = [];
+
+  for (const raw of rawActions) {
+    try {
+      valid.push(validateSyncAction(raw));
+    } catch (error) {
+      const id = error instanceof SyncValidationError && error.actionId
+        ? error.actionId
+        : isRecord(raw) && typeof raw.id === 'string' ? raw.id : '';
+      rejected.push({ id, error: error instanceof Error ? error.message : 'Invalid action' });
+    }
+  }
+
+  let next = state;
+  for (const action of valid.sort((a, b) => a.timestamp - b.timestamp)) {
+    if (seen.has(action.id)) {
+      duplicates.push(action.id);
+      continue;
+    }
+    next = applyAction(next, action);
+    seen.add(action.id);
+    applied.push(action.id);
+  }
+
+  if (applied.length > 0) {
+    next = { ...next, updatedAt: now };
+  }
+
+  return {
+    applied,
+    duplicates,
+    rejected,
+    state: next,
+    processedActionIds: [...processedActionIds, ...applied].slice(-MAX_PROCESSED_ACTION_IDS)
+  };
+}
+
+/**
+ * Lessons whose progress or completion changed through the given applied
+ * actions. Only call with actions that passed validation.
+ */
+export function lessonIdsOfActions(actions: SyncAction[], appliedIds: string[]): number[] {
+  const ids = new Set<number>();
+  for (const action of actions) {
+    if (!appliedIds.includes(action.id)) continue;
+    if (action.type === 'progress_update') {
+      ids.add((action.data as unknown as ProgressUpdatePayload).progress.lessonId);
+    } else if (action.type === 'lesson_completion') {
+      ids.add((action.data as unknown as LessonCompletionPayload).lessonId);
+    }
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Exponential backoff for client retries, jittered so devices do not retry in lockstep
+ */
+export function getRetryDelay(retryCount: number, baseMs = 2000, maxMs = 5 * 60 * 1000, random: () => number = Math.random): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, retryCount - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
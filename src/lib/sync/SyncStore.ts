@@ -0,0 +1,106 @@
+// Server-side storage for merged sync state
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createEmptySyncState, SyncState } from './SyncProtocol';
+
+export interface SyncRecord {
+  userId: string;
+  state: SyncState;
+  processedActionIds: string[];
+  /** Incremented on every save; used for optimistic concurrency */
+  version: number;
+}
+
+export interface SyncStore {
+  load(userId: string): Promise<SyncRecord>;
+  /**
+   * Saves the record if nobody else saved since `record.version` was loaded.
+   * Returns false on a concurrent write so the caller can reload and retry.
+   */
+  save(record: SyncRecord): Promise<boolean>;
+}
+
+function cloneRecord(record: SyncRecord): SyncRecord {
+  return JSON.parse(JSON.stringify(record)) as SyncRecord;
+}
+
+function emptyRecord(userId: string): SyncRecord {
+  return { userId, state: createEmptySyncState(), processedActionIds: [], version: 0 };
+}
+
+/**
+ * Process-local store for development and tests
+ */
+export class MemorySyncStore implements SyncStore {
+  private records = new Map<string, SyncRecord>();
+
+  async load(userId: string): Promise<SyncRecord> {
+    const record = this.records.get(userId);
+    return record ? cloneRecord(record) : emptyRecord(userId);
+  }
+
+  async save(record: SyncRecord): Promise<boolean> {
+    const current = this.records.get(record.userId);
+    if ((current?.version ?? 0) !== record.version) return false;
+
+    this.records.set(record.userId, { ...cloneRecord(record), version: record.version + 1 });
+    return true;
+  }
+}
+
+/**
+ * Stores one row per user in the `user_sync_state` table
+ */
+export class SupabaseSyncStore implements SyncStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async load(userId: string): Promise<SyncRecord> {
+    const { data, error } = await this.supabase
+      .from('user_sync_state')
+      .select('state, processed_action_ids, version')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to load sync state:', error);
+      throw new Error('Failed to load sync state');
+    }
+    if (!data) return emptyRecord(userId);
+
+    return {
+      userId,
+      state: data.state,
+      processedActionIds: data.processed_action_ids ?? [],
+      version: data.version
+    };
+  }
+
+  async save(record: SyncRecord): Promise<boolean> {
+    const row = {
+      state: record.state,
+      processed_action_ids: record.processedActionIds,
+      version: record.version + 1,
+      updated_at: new Date().toISOString()
+    };
+
+    if (record.version === 0) {
+      const { error } = await this.supabase
+        .from('user_sync_state')
+        .insert({ user_id: record.userId, ...row });
+      // A unique violation means another request created the row first
+      if (error?.code === '23505') return false;
+      if (error) throw new Error('Failed to save sync state');
+      return true;
+    }
+
+    const { data, error } = await this.supabase
+      .from('user_sync_state')
+      .update(row)
+      .eq('user_id', record.userId)
+      .eq('version', record.version)
+      .select('version');
+
+    if (error) throw new Error('Failed to save sync state');
+    return Array.isArray(data) && data.length > 0;
+  }
+}
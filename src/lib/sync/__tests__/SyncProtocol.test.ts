@@ -0,0 +1,133 @@
+import {
+  applySyncActions,
+  createEmptySyncState,
+  getRetryDelay,
+  lessonIdsOfActions,
+  mergeProgress,
+  partitionForeignActions,
+  type SyncAction
+} from '../SyncProtocol';
+import { MemorySyncStore } from '../SyncStore';
+import type { UserProgress } from '../../../types';
+
+const progress = (score: number, completed = false, updatedAt = 1000): UserProgress => ({
+  userId: 'user-1',
+  lessonId: 42,
+  sectionKind: 'Practice',
+  completed,
+  score,
+  attempts: 99,
+  updatedAt
+});
+
+const progressAction = (id: string, score: number, timestamp: number, attemptsDelta = 1) => ({
+  id,
+  type: 'progress_update',
+  data: { progress: progress(score, score >= 70, timestamp), attemptsDelta },
+  timestamp
+});
+
+describe('SyncProtocol', () => {
+  it('keeps the highest score and sums attempts across devices', () => {
+    const merged = mergeProgress(
+      { ...progress(80, true), attempts: 3 },
+      progress(60, false, 2000),
+      2
+    );
+
+    expect(merged.score).toBe(80);
+    expect(merged.attempts).toBe(5);
+    expect(merged.completed).toBe(true);
+    expect(merged.updatedAt).toBe(2000);
+  });
+
+  it('applies actions from two devices into one merged state', () => {
+    const result = applySyncActions(createEmptySyncState(), [], [
+      progressAction('phone-1', 90, 2000),
+      progressAction('laptop-1', 50, 1000, 2)
+    ], 5000);
+
+    expect(result.applied).toEqual(['laptop-1', 'phone-1']);
+    expect(result.state.progress).toHaveLength(1);
+    expect(result.state.progress[0]).toMatchObject({ score: 90, attempts: 3, completed: true });
+    expect(result.state.updatedAt).toBe(5000);
+  });
+
+  it('ignores action ids it has already processed', () => {
+    const first = applySyncActions(createEmptySyncState(), [], [progressAction('a1', 70, 1000)]);
+    const retry = applySyncActions(first.state, first.processedActionIds, [
+      progressAction('a1', 70, 1000),
+      progressAction('a1', 70, 1000)
+    ]);
+
+    expect(retry.applied).toEqual([]);
+    expect(retry.duplicates).toEqual(['a1', 'a1']);
+    expect(retry.state.progress[0].attempts).toBe(1);
+  });
+
+  it('lists the lessons touched by applied actions', () => {
+    const actions = [
+      progressAction('p1', 80, 1000),
+      progressAction('p2', 90, 2000),
+      { id: 'c1', type: 'lesson_completion', data: { lessonId: 9, score: 75, completedAt: 3000 }, timestamp: 3000 },
+      { id: 'c2', type: 'lesson_completion', data: { lessonId: 11, score: 60, completedAt: 3000 }, timestamp: 3000 }
+    ] as SyncAction[];
+
+    expect(lessonIdsOfActions(actions, ['p1', 'p2', 'c1'])).toEqual([42, 9]);
+  });
+
+  it('rejects invalid actions without failing the batch', () => {
+    const result = applySyncActions(createEmptySyncState(), [], [
+      { id: 'bad', type: 'progress_update', data: { progress: {} }, timestamp: 1 },
+      { id: 'unknown', type: 'teleport', data: {}, timestamp: 1 },
+      { id: 'v1', type: 'vocabulary_practice', data: { word: 'Ia ora na', correct: true, practicedAt: 10 }, timestamp: 10 },
+      { id: 'v2', type: 'vocabulary_practice', data: { word: 'Ia ora na', correct: false, practicedAt: 20 }, timestamp: 20 }
+    ]);
+
+    expect(result.rejected.map(r => r.id)).toEqual(['bad', 'unknown']);
+    expect(result.state.vocabulary).toEqual([
+      { word: 'Ia ora na', lessonId: undefined, attempts: 2, correct: 1, lastPracticedAt: 20 }
+    ]);
+  });
+
+  it('keeps the first completion date and best score per lesson', () => {
+    const result = applySyncActions(createEmptySyncState(), [], [
+      { id: 'c1', type: 'lesson_completion', data: { lessonId: 7, score: 60, completedAt: 300 }, timestamp: 300 },
+      { id: 'c2', type: 'lesson_completion', data: { lessonId: 7, score: 95, completedAt: 200 }, timestamp: 200 }
+    ]);
+
+    expect(result.state.completions).toEqual([{ lessonId: 7, firstCompletedAt: 200, bestScore: 95 }]);
+  });
+
+  it('turns away actions another user queued', () => {
+    const { own, rejected } = partitionForeignActions([
+      { ...progressAction('mine', 80, 100), userId: 'user-1' },
+      { ...progressAction('theirs', 90, 200), userId: 'user-2' },
+      progressAction('unowned', 70, 300)
+    ], 'user-1');
+
+    expect(own.map(action => (action as SyncAction).id)).toEqual(['mine', 'unowned']);
+    expect(rejected).toEqual([{ id: 'theirs', error: 'Action was queued by another user' }]);
+  });
+
+  it('backs off exponentially up to a ceiling', () => {
+    const noJitter = () => 1;
+
+    expect(getRetryDelay(1, 1000, 60000, noJitter)).toBe(1000);
+    expect(getRetryDelay(3, 1000, 60000, noJitter)).toBe(4000);
+    expect(getRetryDelay(20, 1000, 60000, noJitter)).toBe(60000);
+    expect(getRetryDelay(3, 1000, 60000, () => 0)).toBe(2000);
+  });
+});
+
+describe('MemorySyncStore', () => {
+  it('refuses a save based on a stale version', async () => {
+    const store = new MemorySyncStore();
+    const deviceA = await store.load('user-1');
+    const deviceB = await store.load('user-1');
+
+    expect(await store.save(deviceA)).toBe(true);
+    expect(await store.save(deviceB)).toBe(false);
+    expect((await store.load('user-1')).version).toBe(1);
+  });
+});
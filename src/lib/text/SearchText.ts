@@ -0,0 +1,14 @@
+// Text normalisation shared by lesson search, the lesson API and the phrasebook
+
+/**
+ * Lowercases and strips diacritics and glottal-stop glyphs so that "ia ora na"
+ * finds "Ia ora na" and "mauruuru" finds "māuruuru".
+ */
+export function foldSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['‘’ʻʼ`]/g, '')
+    .toLowerCase()
+    .trim();
+}
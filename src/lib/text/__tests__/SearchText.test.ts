@@ -0,0 +1,8 @@
+import { foldSearchText } from '../SearchText';
+
+describe('foldSearchText', () => {
+  it('folds diacritics and glottal stops for search', () => {
+    expect(foldSearchText("Fa'aitoito Māuruuru")).toBe('faaitoito mauruuru');
+    expect(foldSearchText('  ʻIa Ora Na ')).toBe('ia ora na');
+  });
+});
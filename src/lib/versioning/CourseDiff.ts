@@ -0,0 +1,453 @@
+// Structural diff and three-way merge over the course tree:
+// Course → Lesson → Section → Vocab / Exercise.
+//
+// Nodes are matched by a natural key (lesson slug, section kind + title,
+// vocab French term, exercise type + prompt, media id). A node whose key
+// changed is paired with the unmatched node at the same position, so a
+// renamed section reads as an edit rather than a removal plus an addition.
+// Vocab items, exercises and media assets are compared as a whole; lessons,
+// sections and the course itself are merged field by field.
+
+import type { Course, Exercise, Lesson, LessonSection, MediaAsset, VocabItem } from '../../types';
+import type {
+  ConflictChoice,
+  ConflictSection,
+  StructuralChange,
+  StructuralEntity
+} from '../../types/collaboration';
+
+const COURSE_FIELDS = [
+  'title', 'description', 'level', 'category', 'tags', 'estimatedDuration',
+  'prerequisites', 'learningObjectives', 'status'
+] as const;
+const LESSON_FIELDS = ['slug', 'title', 'level', 'summary', 'durationMin', 'heroMediaId', 'tags', 'isPublished'] as const;
+const SECTION_FIELDS = ['kind', 'title'] as const;
+
+type ConflictType = ConflictSection['type'];
+
+const normalize = (text: string | undefined) => (text ?? '').trim().toLowerCase();
+
+const lessonKey = (lesson: Lesson) => lesson.slug;
+const sectionKey = (section: LessonSection) => `${section.kind}:${normalize(section.title)}`;
+const vocabKey = (item: VocabItem) => normalize(item.fr);
+const exerciseKey = (exercise: Exercise) => `${exercise.type}:${normalize(exercise.prompt)}`;
+const mediaKey = (asset: MediaAsset) => String(asset.id);
+
+const lessonLabel = (lesson: Lesson) => `Lesson "${lesson.title.fr || lesson.slug}"`;
+const sectionLabel = (section: LessonSection) => `Section "${section.title || section.kind}"`;
+const vocabLabel = (item: VocabItem) => `Vocabulary "${item.fr}"`;
+const exerciseLabel = (exercise: Exercise) =>
+  `${exercise.type} exercise "${exercise.prompt.length > 40 ? `${exercise.prompt.slice(0, 40)}…` : exercise.prompt}"`;
+const mediaLabel = (asset: MediaAsset) => `Media #${asset.id} (${asset.alt ?? asset.filePath})`;
+
+/**
+ * JSON with sorted keys and without `sortOrder`, which is renumbered on every
+ * save and says nothing about the content
+ */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (key, inner) => {
+    if (key === 'sortOrder') return undefined;
+    if (inner && typeof inner === 'object' && !Array.isArray(inner)) {
+      return Object.keys(inner).sort().reduce<Record<string, unknown>>((sorted, name) => {
+        sorted[name] = (inner as Record<string, unknown>)[name];
+        return sorted;
+      }, {});
+    }
+    return inner;
+  }) ?? '';
+}
+
+const same = (a: unknown, b: unknown) => canonical(a) === canonical(b);
+
+/** Text shown for a value in diffs and conflicts; empty when the node is absent */
+function display(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, (key, inner) => (key === 'sortOrder' ? undefined : inner), 2);
+}
+
+interface Keyed<T> {
+  key: string;
+  item: T;
+  index: number;
+}
+
+/** Keys every item, numbering repeated keys so each one stays unique */
+function withKeys<T>(items: T[], keyOf: (item: T) => string): Keyed<T>[] {
+  const seen = new Map<string, number>();
+  return items.map((item, index) => {
+    const key = keyOf(item);
+    const count = seen.get(key) ?? 0;
+    seen.set(key, count + 1);
+    return { key: count ? `${key}#${count + 1}` : key, item, index };
+  });
+}
+
+/**
+ * Gives every item of `next` the key of the `base` item it descends from.
+ * An item with an unknown key inherits the key of the base item at the same
+ * position if that one has no match of its own.
+ */
+function alignTo<T>(base: Keyed<T>[], next: Keyed<T>[]): Keyed<T>[] {
+  const baseKeys = new Set(base.map(entry => entry.key));
+  const nextKeys = new Set(next.map(entry => entry.key));
+  const orphans = new Map(base.filter(entry => !nextKeys.has(entry.key)).map(entry => [entry.index, entry.key]));
+
+  return next.map(entry => {
+    if (baseKeys.has(entry.key)) return entry;
+    const inherited = orphans.get(entry.index);
+    if (inherited === undefined) return entry;
+    orphans.delete(entry.index);
+    return { ...entry, key: inherited };
+  });
+}
+
+const byKey = <T>(entries: Keyed<T>[]) => new Map(entries.map(entry => [entry.key, entry.item]));
+
+const renumber = <T extends { sortOrder?: number }>(items: T[]): T[] =>
+  items.map((item, index) => (item.sortOrder === undefined ? item : { ...item, sortOrder: index + 1 }));
+
+/**
+ * Parses a stored version body. Returns null when the content is not a
+ * course snapshot, e.g. free text from older versions.
+ */
+export function parseCourseSnapshot(content: string): Course | null {
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === 'object' && Array.isArray(parsed.lessons) ? parsed as Course : null;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+class DiffRecorder {
+  readonly changes: StructuralChange[] = [];
+
+  record(change: Omit<StructuralChange, 'id'>) {
+    this.changes.push({
+      id: `${change.type}:${change.section}${change.field ? `.${change.field}` : ''}`,
+      ...change
+    });
+  }
+
+  fields<T extends object>(
+    path: string,
+    entity: StructuralEntity,
+    label: string,
+    lesson: string | undefined,
+    fields: readonly (keyof T)[],
+    before: T,
+    after: T
+  ) {
+    for (const field of fields) {
+      if (same(before[field], after[field])) continue;
+      this.record({
+        type: 'modification',
+        section: path,
+        entity,
+        label,
+        lesson,
+        field: String(field),
+        oldValue: display(before[field]),
+        newValue: display(after[field])
+      });
+    }
+  }
+
+  collection<T>(
+    path: string,
+    entity: StructuralEntity,
+    lesson: string | undefined,
+    before: T[],
+    after: T[],
+    keyOf: (item: T) => string,
+    labelOf: (item: T) => string,
+    diffItem: (path: string, before: T, after: T) => void
+  ) {
+    const beforeEntries = withKeys(before, keyOf);
+    const afterEntries = alignTo(beforeEntries, withKeys(after, keyOf));
+    const afterByKey = byKey(afterEntries);
+    const beforeByKey = byKey(beforeEntries);
+
+    for (const entry of beforeEntries) {
+      const match = afterByKey.get(entry.key);
+      if (match === undefined) {
+        this.record({
+          type: 'deletion',
+          section: `${path}[${entry.key}]`,
+          entity,
+          label: labelOf(entry.item),
+          lesson,
+          oldValue: display(entry.item)
+        });
+      } else {
+        diffItem(`${path}[${entry.key}]`, entry.item, match);
+      }
+    }
+
+    for (const entry of afterEntries) {
+      if (beforeByKey.has(entry.key)) continue;
+      this.record({
+        type: 'addition',
+        section: `${path}[${entry.key}]`,
+        entity,
+        label: labelOf(entry.item),
+        lesson,
+        newValue: display(entry.item)
+      });
+    }
+
+    const kept = beforeEntries.filter(entry => afterByKey.has(entry.key));
+    const keptAfter = afterEntries.filter(entry => beforeByKey.has(entry.key));
+    if (!same(kept.map(entry => entry.key), keptAfter.map(entry => entry.key))) {
+      this.record({
+        type: 'modification',
+        section: path,
+        entity,
+        label: `Order of ${path.split('.').pop()}`,
+        lesson,
+        field: 'order',
+        oldValue: kept.map(entry => labelOf(entry.item)).join('\n'),
+        newValue: keptAfter.map(entry => labelOf(entry.item)).join('\n')
+      });
+    }
+  }
+}
+
+/**
+ * Lists what changed between two course snapshots: added, removed and
+ * modified lessons, sections, vocab items, exercises and media assets, plus
+ * course and lesson metadata.
+ */
+export function diffCourses(before: Course, after: Course): StructuralChange[] {
+  const recorder = new DiffRecorder();
+
+  recorder.fields('course', 'course', 'Course', undefined, COURSE_FIELDS, before, after);
+
+  recorder.collection('mediaAssets', 'media', undefined, before.mediaAssets ?? [], after.mediaAssets ?? [], mediaKey, mediaLabel,
+    (path, oldAsset, newAsset) => {
+      if (same(oldAsset, newAsset)) return;
+      recorder.record({
+        type: 'modification', section: path, entity: 'media', label: mediaLabel(newAsset),
+        oldValue: display(oldAsset), newValue: display(newAsset)
+      });
+    });
+
+  recorder.collection('lessons', 'lesson', undefined, before.lessons ?? [], after.lessons ?? [], lessonKey, lessonLabel,
+    (lessonPath, oldLesson, newLesson) => {
+      const lesson = newLesson.slug;
+      recorder.fields(lessonPath, 'lesson', lessonLabel(newLesson), lesson, LESSON_FIELDS, oldLesson, newLesson);
+
+      recorder.collection(`${lessonPath}.sections`, 'section', lesson, oldLesson.sections, newLesson.sections, sectionKey, sectionLabel,
+        (sectionPath, oldSection, newSection) => {
+          recorder.fields(sectionPath, 'section', sectionLabel(newSection), lesson,
+            [...SECTION_FIELDS, 'contentMd'], oldSection, newSection);
+
+          recorder.collection(`${sectionPath}.vocab`, 'vocab', lesson, oldSection.vocab ?? [], newSection.vocab ?? [], vocabKey, vocabLabel,
+            (path, oldItem, newItem) => {
+              if (same(oldItem, newItem)) return;
+              recorder.record({
+                type: 'modification', section: path, entity: 'vocab', label: vocabLabel(newItem), lesson,
+                oldValue: display(oldItem), newValue: display(newItem)
+              });
+            });
+
+          recorder.collection(`${sectionPath}.exercises`, 'exercise', lesson, oldSection.exercises ?? [], newSection.exercises ?? [],
+            exerciseKey, exerciseLabel,
+            (path, oldExercise, newExercise) => {
+              if (same(oldExercise, newExercise)) return;
+              recorder.record({
+                type: 'modification', section: path, entity: 'exercise', label: exerciseLabel(newExercise), lesson,
+                oldValue: display(oldExercise), newValue: display(newExercise)
+              });
+            });
+        });
+    });
+
+  return recorder.changes;
+}
+
+// ---------------------------------------------------------------------------
+// Three-way merge
+// ---------------------------------------------------------------------------
+
+export interface CourseMergeResult {
+  /** The merged course; unresolved conflicts keep the target's side */
+  merged: Course;
+  /** Every conflict found, with `resolution` set where one was supplied */
+  conflicts: ConflictSection[];
+}
+
+class MergeContext {
+  readonly conflicts: ConflictSection[] = [];
+
+  constructor(private readonly resolutions: Record<string, ConflictChoice>) {}
+
+  /** Records a conflict and returns the side that wins it, the target until resolved */
+  conflict(id: string, label: string, type: ConflictType, base: unknown, source: unknown, target: unknown): ConflictChoice {
+    const resolution = this.resolutions[id];
+    this.conflicts.push({
+      id,
+      section: label,
+      type,
+      baseContent: display(base),
+      sourceContent: display(source),
+      targetContent: display(target),
+      resolution,
+      autoResolvable: false
+    });
+    return resolution ?? 'target';
+  }
+
+  /** Takes whichever side changed; a conflict when both changed it differently */
+  value<T>(id: string, label: string, type: ConflictType, base: T, source: T, target: T): T {
+    if (same(source, target) || same(base, source)) return target;
+    if (same(base, target)) return source;
+    return this.conflict(id, label, type, base, source, target) === 'source' ? source : target;
+  }
+
+  fields<T extends object>(path: string, label: string, type: ConflictType, fields: readonly (keyof T)[], base: T, source: T, target: T): T {
+    const merged = { ...target };
+    for (const field of fields) {
+      merged[field] = this.value(`${path}.${String(field)}`, `${label} · ${String(field)}`, type, base[field], source[field], target[field]);
+    }
+    return merged;
+  }
+
+  collection<T>(
+    path: string,
+    base: T[],
+    source: T[],
+    target: T[],
+    keyOf: (item: T) => string,
+    labelOf: (item: T) => string,
+    mergeItem: (path: string, base: T, source: T, target: T) => T
+  ): T[] {
+    const baseEntries = withKeys(base, keyOf);
+    const sourceEntries = alignTo(baseEntries, withKeys(source, keyOf));
+    const targetEntries = alignTo(baseEntries, withKeys(target, keyOf));
+    const baseByKey = byKey(baseEntries);
+    const sourceByKey = byKey(sourceEntries);
+    const targetByKey = byKey(targetEntries);
+    const result = new Map<string, T>();
+
+    for (const { key, item } of baseEntries) {
+      const itemPath = `${path}[${key}]`;
+      const fromSource = sourceByKey.get(key);
+      const fromTarget = targetByKey.get(key);
+
+      if (fromSource !== undefined && fromTarget !== undefined) {
+        result.set(key, mergeItem(itemPath, item, fromSource, fromTarget));
+      } else if (fromSource !== undefined || fromTarget !== undefined) {
+        // Removed on one side: fine unless the other side edited the node
+        const kept = (fromSource ?? fromTarget) as T;
+        if (same(item, kept)) continue;
+        const choice = this.conflict(itemPath, labelOf(kept), 'structure', item, fromSource, fromTarget);
+        const chosen = choice === 'source' ? fromSource : fromTarget;
+        if (chosen !== undefined) result.set(key, chosen);
+      }
+    }
+
+    for (const { key, item } of [...sourceEntries, ...targetEntries]) {
+      if (baseByKey.has(key) || result.has(key)) continue;
+      const fromSource = sourceByKey.get(key);
+      const fromTarget = targetByKey.get(key);
+      if (fromSource !== undefined && fromTarget !== undefined && !same(fromSource, fromTarget)) {
+        const choice = this.conflict(`${path}[${key}]`, labelOf(fromTarget), 'structure', undefined, fromSource, fromTarget);
+        result.set(key, choice === 'source' ? fromSource : fromTarget);
+      } else {
+        result.set(key, item);
+      }
+    }
+
+    const order = this.order(
+      path,
+      baseEntries.map(entry => entry.key),
+      sourceEntries.map(entry => entry.key),
+      targetEntries.map(entry => entry.key)
+    );
+    return order.filter(key => result.has(key)).map(key => result.get(key) as T);
+  }
+
+  /**
+   * Keeps the target's order unless only the source reordered the shared
+   * nodes, then slots each side's new nodes in after their predecessor
+   */
+  private order(path: string, base: string[], source: string[], target: string[]): string[] {
+    const shared = (keys: string[]) => keys.filter(key => base.includes(key) && source.includes(key) && target.includes(key));
+    const [baseOrder, sourceOrder, targetOrder] = [shared(base), shared(source), shared(target)];
+
+    let [primary, secondary] = [target, source];
+    if (!same(sourceOrder, targetOrder) && !same(baseOrder, sourceOrder)) {
+      const sourceWins = same(baseOrder, targetOrder) ||
+        this.conflict(`${path}.order`, `Order of ${path.split('.').pop()}`, 'structure',
+          baseOrder.join('\n'), sourceOrder.join('\n'), targetOrder.join('\n')) === 'source';
+      if (sourceWins) [primary, secondary] = [source, target];
+    }
+
+    const merged = [...primary];
+    secondary.forEach((key, index) => {
+      if (merged.includes(key)) return;
+      const anchor = secondary.slice(0, index).reverse().find(previous => merged.includes(previous));
+      merged.splice(anchor === undefined ? 0 : merged.indexOf(anchor) + 1, 0, key);
+    });
+    return merged;
+  }
+}
+
+/**
+ * Three-way merge of two course snapshots that share `base` as their common
+ * ancestor. Edits on one side only are applied; nodes both sides changed
+ * differently become conflicts whose ids are the node paths. Pass
+ * `resolutions` keyed by those ids to pick a side and merge again.
+ */
+export function mergeCourses(
+  base: Course,
+  source: Course,
+  target: Course,
+  resolutions: Record<string, ConflictChoice> = {}
+): CourseMergeResult {
+  const context = new MergeContext(resolutions);
+  const atomic = <T>(labelOf: (item: T) => string, type: ConflictType) =>
+    (path: string, baseItem: T, sourceItem: T, targetItem: T) =>
+      context.value(path, labelOf(targetItem), type, baseItem, sourceItem, targetItem);
+
+  const mergeSection = (path: string, baseSection: LessonSection, sourceSection: LessonSection, targetSection: LessonSection) => {
+    const label = sectionLabel(targetSection);
+    const merged = context.fields(path, label, 'metadata', SECTION_FIELDS, baseSection, sourceSection, targetSection);
+    merged.contentMd = context.value(`${path}.contentMd`, `${label} · contentMd`, 'content',
+      baseSection.contentMd, sourceSection.contentMd, targetSection.contentMd);
+    const vocab = renumber(context.collection(`${path}.vocab`,
+      baseSection.vocab ?? [], sourceSection.vocab ?? [], targetSection.vocab ?? [],
+      vocabKey, vocabLabel, atomic(vocabLabel, 'content')));
+    const exercises = renumber(context.collection(`${path}.exercises`,
+      baseSection.exercises ?? [], sourceSection.exercises ?? [], targetSection.exercises ?? [],
+      exerciseKey, exerciseLabel, atomic(exerciseLabel, 'content')));
+    // Sections without vocab or exercises keep the fields absent
+    merged.vocab = vocab.length > 0 || targetSection.vocab ? vocab : undefined;
+    merged.exercises = exercises.length > 0 || targetSection.exercises ? exercises : undefined;
+    return merged;
+  };
+
+  const mergeLesson = (path: string, baseLesson: Lesson, sourceLesson: Lesson, targetLesson: Lesson) => {
+    const merged = context.fields(path, lessonLabel(targetLesson), 'metadata', LESSON_FIELDS, baseLesson, sourceLesson, targetLesson);
+    merged.sections = renumber(context.collection(`${path}.sections`,
+      baseLesson.sections, sourceLesson.sections, targetLesson.sections,
+      sectionKey, sectionLabel, mergeSection));
+    return merged;
+  };
+
+  const merged = context.fields('course', 'Course', 'metadata', COURSE_FIELDS, base, source, target);
+  merged.mediaAssets = context.collection('mediaAssets',
+    base.mediaAssets ?? [], source.mediaAssets ?? [], target.mediaAssets ?? [],
+    mediaKey, mediaLabel, atomic(mediaLabel, 'metadata'));
+  merged.lessons = context.collection('lessons',
+    base.lessons ?? [], source.lessons ?? [], target.lessons ?? [],
+    lessonKey, lessonLabel, mergeLesson);
+
+  return { merged, conflicts: context.conflicts };
+}
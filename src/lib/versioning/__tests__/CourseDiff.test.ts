@@ -0,0 +1,159 @@
+import { diffCourses, mergeCourses, parseCourseSnapshot } from '../CourseDiff';
+import type { Course, LessonSection } from '../../../types';
+
+const vocabSection = (): LessonSection => ({
+  kind: 'Vocabulary',
+  title: 'Salutations',
+  contentMd: 'Les salutations de base.',
+  vocab: [
+    { fr: 'bonjour', tah: 'ia ora na', sortOrder: 1 },
+    { fr: 'merci', tah: 'māuruuru', sortOrder: 2 }
+  ],
+  sortOrder: 1
+});
+
+const practiceSection = (): LessonSection => ({
+  kind: 'Practice',
+  title: 'Pratique',
+  exercises: [
+    { type: 'MCQ', prompt: 'Bonjour ?', data: { question: 'Bonjour ?', options: ['ia ora na', 'nana'], correctIndex: 0 } }
+  ],
+  sortOrder: 2
+});
+
+const baseCourse = (): Course => ({
+  id: 1,
+  title: { fr: 'Tahitien 1', tah: 'Reo Tahiti 1', en: 'Tahitian 1' },
+  description: 'Premiers pas',
+  level: 'Beginner',
+  category: 'language',
+  tags: [],
+  estimatedDuration: 60,
+  learningObjectives: [],
+  status: 'draft',
+  authorId: 1,
+  createdAt: 0,
+  updatedAt: 0,
+  version: 1,
+  mediaAssets: [],
+  lessons: [{
+    slug: 'salutations',
+    level: 'Beginner',
+    title: { fr: 'Salutations' },
+    summary: 'Dire bonjour',
+    sections: [vocabSection(), practiceSection()]
+  }]
+});
+
+/** Deep copy edited in place by `edit` */
+const edited = (edit: (course: Course) => void): Course => {
+  const course: Course = JSON.parse(JSON.stringify(baseCourse()));
+  edit(course);
+  return course;
+};
+
+describe('CourseDiff', () => {
+  it('reports added, removed and modified nodes at every level', () => {
+    const after = edited(course => {
+      const [vocab, practice] = course.lessons[0].sections;
+      vocab.vocab![0].tah = 'ia ora na ʻoe';
+      vocab.vocab!.push({ fr: 'au revoir', tah: 'nana' });
+      practice.exercises = [];
+      course.lessons[0].sections.push({ kind: 'Culture', title: 'Le tiare' });
+      course.lessons[0].summary = 'Saluer en tahitien';
+    });
+
+    const changes = diffCourses(baseCourse(), after);
+    const described = changes.map(change => `${change.type} ${change.entity} ${change.label}${change.field ? ` ${change.field}` : ''}`);
+
+    expect(described).toEqual(expect.arrayContaining([
+      'modification lesson Lesson "Salutations" summary',
+      'modification vocab Vocabulary "bonjour"',
+      'addition vocab Vocabulary "au revoir"',
+      'deletion exercise MCQ exercise "Bonjour ?"',
+      'addition section Section "Le tiare"'
+    ]));
+    expect(changes).toHaveLength(5);
+    expect(changes.every(change => change.lesson === 'salutations')).toBe(true);
+  });
+
+  it('reads a renamed node as an edit and ignores sortOrder', () => {
+    const after = edited(course => {
+      course.lessons[0].sections[1].title = 'Exercices';
+      course.lessons[0].sections[0].vocab!.forEach(item => { item.sortOrder = undefined; });
+    });
+
+    expect(diffCourses(baseCourse(), after).map(change => [change.type, change.field])).toEqual([['modification', 'title']]);
+  });
+
+  it('applies non-overlapping edits from both branches', () => {
+    const source = edited(course => {
+      course.lessons[0].sections[0].vocab!.push({ fr: 'au revoir', tah: 'nana', sortOrder: 3 });
+      course.title.en = 'Tahitian for beginners';
+    });
+    const target = edited(course => {
+      course.lessons[0].sections[0].contentMd = 'Les salutations du quotidien.';
+      course.lessons[0].sections[0].vocab!.unshift({ fr: 'oui', tah: 'ē', sortOrder: 0 });
+    });
+
+    const { merged, conflicts } = mergeCourses(baseCourse(), source, target);
+    const section = merged.lessons[0].sections[0];
+
+    expect(conflicts).toEqual([]);
+    expect(merged.title.en).toBe('Tahitian for beginners');
+    expect(section.contentMd).toBe('Les salutations du quotidien.');
+    expect(section.vocab!.map(item => [item.fr, item.sortOrder])).toEqual([
+      ['oui', 1], ['bonjour', 2], ['merci', 3], ['au revoir', 4]
+    ]);
+  });
+
+  it('raises a conflict when both branches edit the same vocab item', () => {
+    const source = edited(course => { course.lessons[0].sections[0].vocab![1].tah = 'mauruuru'; });
+    const target = edited(course => { course.lessons[0].sections[0].vocab![1].en = 'thank you'; });
+
+    const { merged, conflicts } = mergeCourses(baseCourse(), source, target);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      id: 'lessons[salutations].sections[Vocabulary:salutations].vocab[merci]',
+      section: 'Vocabulary "merci"',
+      type: 'content',
+      autoResolvable: false
+    });
+    expect(conflicts[0].resolution).toBeUndefined();
+    expect(merged.lessons[0].sections[0].vocab![1].en).toBe('thank you');
+
+    const resolved = mergeCourses(baseCourse(), source, target, { [conflicts[0].id]: 'source' });
+    expect(resolved.conflicts[0].resolution).toBe('source');
+    expect(resolved.merged.lessons[0].sections[0].vocab![1].tah).toBe('mauruuru');
+    expect(resolved.merged.lessons[0].sections[0].vocab![1].en).toBeUndefined();
+  });
+
+  it('drops nodes removed on one side unless the other side edited them', () => {
+    const removed = edited(course => { course.lessons[0].sections.splice(1, 1); });
+
+    expect(mergeCourses(baseCourse(), removed, baseCourse()).merged.lessons[0].sections).toHaveLength(1);
+
+    const editedExercise = edited(course => { course.lessons[0].sections[1].exercises![0].points = 2; });
+    const { merged, conflicts } = mergeCourses(baseCourse(), removed, editedExercise);
+    expect(conflicts.map(conflict => [conflict.id, conflict.type])).toEqual([
+      ['lessons[salutations].sections[Practice:pratique]', 'structure']
+    ]);
+    expect(conflicts[0].sourceContent).toBe('');
+    expect(merged.lessons[0].sections).toHaveLength(2);
+  });
+
+  it('keeps a reorder from one branch and slots in additions from the other', () => {
+    const source = edited(course => { course.lessons[0].sections.reverse(); });
+    const target = edited(course => { course.lessons[0].sections.splice(1, 0, { kind: 'Culture', title: 'Le tiare' }); });
+
+    const { merged, conflicts } = mergeCourses(baseCourse(), source, target);
+    expect(conflicts).toEqual([]);
+    expect(merged.lessons[0].sections.map(section => section.title)).toEqual(['Pratique', 'Salutations', 'Le tiare']);
+  });
+
+  it('only parses course snapshots', () => {
+    expect(parseCourseSnapshot(JSON.stringify(baseCourse()))?.lessons).toHaveLength(1);
+    expect(parseCourseSnapshot('Texte libre')).toBeNull();
+    expect(parseCourseSnapshot('{"title":"x"}')).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+// Events the app sends to webhooks. The catalog doubles as the list admins
+// subscribe from, with an example payload for receivers.
+
+import type { WebhookEvent } from '../../types/integration';
+
+export type DomainEventType = 'lesson.completed' | 'course.published' | 'webhook.test';
+
+export interface DomainEventDefinition {
+  type: DomainEventType;
+  description: string;
+  payload: Record<string, unknown>;
+}
+
+export const DOMAIN_EVENTS: DomainEventDefinition[] = [
+  {
+    type: 'lesson.completed',
+    description: 'A learner completed every graded section of a lesson',
+    payload: { userId: 'string', lessonId: 'number', lessonSlug: 'string', score: 'number', completedAt: 'date' }
+  },
+  {
+    type: 'course.published',
+    description: 'An admin published a course',
+    payload: { courseId: 'number', title: 'string', publishedBy: 'string', publishedAt: 'date' }
+  },
+  {
+    type: 'webhook.test',
+    description: 'Sent from the integration hub to check a webhook endpoint',
+    payload: { test: 'boolean', sentAt: 'date' }
+  }
+];
+
+/** Subscribing to this type receives every event */
+export const ALL_EVENTS = '*';
+
+export function createDomainEvent(type: DomainEventType, payload: Record<string, unknown>): WebhookEvent {
+  const definition = DOMAIN_EVENTS.find(event => event.type === type);
+  return { type, description: definition?.description ?? type, payload };
+}
+
+export function isDomainEventType(value: unknown): value is DomainEventType {
+  return DOMAIN_EVENTS.some(event => event.type === value);
+}
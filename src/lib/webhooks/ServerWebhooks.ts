@@ -0,0 +1,126 @@
+// Shared server-side webhook store and worker, plus the domain events the
+// app raises
+
+import { createClient } from '@supabase/supabase-js';
+import { ServerDataService } from '../data/ServerDataService';
+import { summarizeLessonProgress } from '../progress/ProgressModel';
+import type { LessonCompletionRecord } from '../sync/SyncProtocol';
+import { createDomainEvent, type DomainEventType } from './DomainEvents';
+import { MemoryWebhookStore, SupabaseWebhookStore, type WebhookStore } from './WebhookStore';
+import { WebhookWorker } from './WebhookWorker';
+
+let memoryStore: MemoryWebhookStore | null = null;
+let worker: WebhookWorker | null = null;
+
+/**
+ * Supabase when configured; otherwise an in-process store for local development
+ */
+export function getWebhookStore(): WebhookStore {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (supabaseUrl && supabaseServiceKey) {
+    return new SupabaseWebhookStore(createClient(supabaseUrl, supabaseServiceKey));
+  }
+
+  if (!memoryStore) {
+    console.warn('Supabase is not configured; webhooks and deliveries are kept in memory only');
+    memoryStore = new MemoryWebhookStore();
+  }
+  return memoryStore;
+}
+
+/**
+ * The first call also picks up retries that were due while no process was
+ * running, since their timers did not survive
+ */
+export function getWebhookWorker(): WebhookWorker {
+  if (!worker) {
+    worker = new WebhookWorker({ store: getWebhookStore() });
+    worker.processDue().catch(error => console.error('Failed to resume webhook deliveries:', error));
+  }
+  return worker;
+}
+
+/**
+ * Sends the event to subscribed webhooks. Failures are logged, never thrown:
+ * whatever raised the event has already happened.
+ */
+export async function emitDomainEvent(type: DomainEventType, payload: Record<string, unknown>): Promise<void> {
+  try {
+    await getWebhookWorker().dispatch(createDomainEvent(type, payload));
+  } catch (error) {
+    console.error(`Failed to send ${type} webhooks:`, error);
+  }
+}
+
+/**
+ * Ids of the given lessons the user has completed, to compare before and
+ * after a save. Never throws; when progress cannot be read every lesson
+ * counts as completed, so no event is raised twice.
+ */
+export async function completedLessonIds(userId: string, lessonIds: number[]): Promise<Set<number>> {
+  const completed = new Set<number>();
+  if (lessonIds.length === 0) return completed;
+
+  try {
+    const dataService = ServerDataService.getInstance();
+    const [lessons, progress] = await Promise.all([dataService.getLessons(), dataService.getUserProgress(userId)]);
+    for (const lesson of lessons) {
+      if (lesson.id !== undefined && lessonIds.includes(lesson.id) && summarizeLessonProgress(lesson, progress).completed) {
+        completed.add(lesson.id);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load lesson completions:', error);
+    return new Set(lessonIds);
+  }
+  return completed;
+}
+
+/**
+ * Raises `lesson.completed` for lessons that became complete with the save,
+ * given the lessons that were complete before it
+ */
+export async function emitLessonCompletions(userId: string, lessonIds: number[], completedBefore: Set<number>): Promise<void> {
+  try {
+    const dataService = ServerDataService.getInstance();
+    const [lessons, progress] = await Promise.all([dataService.getLessons(), dataService.getUserProgress(userId)]);
+
+    for (const lesson of lessons) {
+      if (lesson.id === undefined || !lessonIds.includes(lesson.id) || completedBefore.has(lesson.id)) continue;
+
+      const summary = summarizeLessonProgress(lesson, progress);
+      if (!summary.completed) continue;
+      await emitDomainEvent('lesson.completed', {
+        userId,
+        lessonId: lesson.id,
+        lessonSlug: lesson.slug,
+        score: summary.averageScore,
+        completedAt: new Date(summary.lastActivityAt ?? Date.now()).toISOString()
+      });
+    }
+  } catch (error) {
+    console.error('Failed to send lesson.completed webhooks:', error);
+  }
+}
+
+/** Raises `lesson.completed` for completions an offline sync recorded for the first time */
+export async function emitSyncedCompletions(userId: string, completions: LessonCompletionRecord[]): Promise<void> {
+  if (completions.length === 0) return;
+
+  try {
+    const lessons = await ServerDataService.getInstance().getLessons();
+    for (const completion of completions) {
+      await emitDomainEvent('lesson.completed', {
+        userId,
+        lessonId: completion.lessonId,
+        lessonSlug: lessons.find(lesson => lesson.id === completion.lessonId)?.slug,
+        score: completion.bestScore,
+        completedAt: new Date(completion.firstCompletedAt).toISOString()
+      });
+    }
+  } catch (error) {
+    console.error('Failed to send lesson.completed webhooks:', error);
+  }
+}
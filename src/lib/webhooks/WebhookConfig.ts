@@ -0,0 +1,132 @@
+// Validation and defaults for webhooks created or edited by admins
+
+import { randomBytes } from 'crypto';
+import { WebhookError } from './WebhookWorker';
+import type { RetryPolicy, Webhook, WebhookEvent, WebhookFilter } from '../../types/integration';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 5,
+  backoffStrategy: 'exponential',
+  initialDelay: 1000,
+  maxDelay: 5 * 60 * 1000
+};
+
+export const DEFAULT_TIMEOUT_MS = 10 * 1000;
+export const MAX_TIMEOUT_MS = 30 * 1000;
+const MAX_RETRIES = 10;
+
+const BACKOFF_STRATEGIES: RetryPolicy['backoffStrategy'][] = ['linear', 'exponential', 'fixed'];
+const FILTER_OPERATORS: WebhookFilter['operator'][] = ['equals', 'contains', 'startsWith', 'endsWith', 'regex'];
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+function parseUrl(value: unknown): string {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    throw new WebhookError('url must be an absolute URL');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new WebhookError('url must use http or https');
+  return url.toString();
+}
+
+function parseFilter(value: unknown): WebhookFilter {
+  if (!isRecord(value) || typeof value.field !== 'string' || value.field === '') {
+    throw new WebhookError('Each filter needs a field');
+  }
+  if (!FILTER_OPERATORS.includes(value.operator as WebhookFilter['operator'])) {
+    throw new WebhookError(`Filter operator must be one of ${FILTER_OPERATORS.join(', ')}`);
+  }
+  if (value.operator === 'regex') {
+    try {
+      new RegExp(String(value.value));
+    } catch {
+      throw new WebhookError(`Invalid filter pattern ${String(value.value)}`);
+    }
+  }
+  return { field: value.field, operator: value.operator as WebhookFilter['operator'], value: value.value };
+}
+
+function parseEvents(value: unknown): WebhookEvent[] {
+  if (!Array.isArray(value) || value.length === 0) throw new WebhookError('Subscribe to at least one event');
+  return value.map(event => {
+    if (!isRecord(event) || typeof event.type !== 'string' || event.type === '') {
+      throw new WebhookError('Each event needs a type');
+    }
+    return {
+      type: event.type,
+      description: typeof event.description === 'string' ? event.description : '',
+      payload: event.payload ?? {},
+      ...(Array.isArray(event.filters) && event.filters.length > 0 ? { filters: event.filters.map(parseFilter) } : {})
+    };
+  });
+}
+
+function parseRetryPolicy(value: unknown, fallback: RetryPolicy): RetryPolicy {
+  if (value === undefined) return fallback;
+  if (!isRecord(value)) throw new WebhookError('retryPolicy must be an object');
+
+  const policy = { ...fallback, ...value } as RetryPolicy;
+  if (!Number.isInteger(policy.maxRetries) || policy.maxRetries < 0 || policy.maxRetries > MAX_RETRIES) {
+    throw new WebhookError(`retryPolicy.maxRetries must be between 0 and ${MAX_RETRIES}`);
+  }
+  if (!BACKOFF_STRATEGIES.includes(policy.backoffStrategy)) {
+    throw new WebhookError(`retryPolicy.backoffStrategy must be one of ${BACKOFF_STRATEGIES.join(', ')}`);
+  }
+  if (!(policy.initialDelay > 0) || !(policy.maxDelay >= policy.initialDelay)) {
+    throw new WebhookError('retryPolicy delays must be positive, with maxDelay at least initialDelay');
+  }
+  return {
+    maxRetries: policy.maxRetries,
+    backoffStrategy: policy.backoffStrategy,
+    initialDelay: policy.initialDelay,
+    maxDelay: policy.maxDelay
+  };
+}
+
+function parseHeaders(value: unknown): Record<string, string> | undefined {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) throw new WebhookError('headers must be an object');
+  return Object.fromEntries(Object.entries(value).map(([name, header]) => [name, String(header)]));
+}
+
+/**
+ * Builds the webhook to save from an admin's request body. Without `existing`
+ * every required field must be present; with it the body is a partial update.
+ * Usage counters are never taken from the body.
+ */
+export function parseWebhookInput(body: unknown, existing: Webhook | null, id: string, now: Date): Webhook {
+  if (!isRecord(body)) throw new WebhookError('Expected a JSON object');
+
+  const name = body.name ?? existing?.name;
+  if (typeof name !== 'string' || name.trim() === '') throw new WebhookError('name is required');
+
+  const timeout = body.timeout ?? existing?.timeout ?? DEFAULT_TIMEOUT_MS;
+  if (typeof timeout !== 'number' || timeout <= 0 || timeout > MAX_TIMEOUT_MS) {
+    throw new WebhookError(`timeout must be between 1 and ${MAX_TIMEOUT_MS} ms`);
+  }
+
+  const secret = body.secret === undefined ? existing?.secret ?? generateWebhookSecret() : String(body.secret);
+  if (secret.length < 16) throw new WebhookError('secret must be at least 16 characters');
+
+  return {
+    id,
+    name: name.trim(),
+    url: body.url === undefined && existing ? existing.url : parseUrl(body.url),
+    events: body.events === undefined && existing ? existing.events : parseEvents(body.events),
+    secret,
+    active: typeof body.active === 'boolean' ? body.active : existing?.active ?? true,
+    retryPolicy: parseRetryPolicy(body.retryPolicy, existing?.retryPolicy ?? DEFAULT_RETRY_POLICY),
+    headers: body.headers === undefined ? existing?.headers : parseHeaders(body.headers),
+    timeout,
+    createdAt: existing?.createdAt ?? now,
+    lastTriggered: existing?.lastTriggered,
+    failureCount: existing?.failureCount ?? 0
+  };
+}
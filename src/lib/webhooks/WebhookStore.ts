@@ -0,0 +1,188 @@
+// Server-side storage for webhook subscriptions and their deliveries
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Webhook, WebhookDelivery } from '../../types/integration';
+
+export interface DeliveryQuery {
+  webhookId?: string;
+  /** Only dead-lettered deliveries that have not been replayed yet */
+  deadLettered?: boolean;
+  limit?: number;
+}
+
+export interface WebhookStore {
+  listWebhooks(): Promise<Webhook[]>;
+  getWebhook(id: string): Promise<Webhook | null>;
+  saveWebhook(webhook: Webhook): Promise<void>;
+  deleteWebhook(id: string): Promise<void>;
+  getDelivery(id: string): Promise<WebhookDelivery | null>;
+  saveDelivery(delivery: WebhookDelivery): Promise<void>;
+  /** Newest first */
+  listDeliveries(query?: DeliveryQuery): Promise<WebhookDelivery[]>;
+  /** Deliveries waiting for a retry whose time has come */
+  listDueDeliveries(now: Date): Promise<WebhookDelivery[]>;
+}
+
+const DEFAULT_DELIVERY_LIMIT = 50;
+
+const toDate = (value: unknown): Date | undefined =>
+  value === undefined || value === null ? undefined : new Date(value as string | number | Date);
+
+/** Restores the Date fields of a webhook that went through JSON */
+export function reviveWebhook(webhook: Webhook): Webhook {
+  return {
+    ...webhook,
+    createdAt: toDate(webhook.createdAt) ?? new Date(0),
+    lastTriggered: toDate(webhook.lastTriggered)
+  };
+}
+
+/** Restores the Date fields of a delivery that went through JSON */
+export function reviveDelivery(delivery: WebhookDelivery): WebhookDelivery {
+  return {
+    ...delivery,
+    lastAttempt: toDate(delivery.lastAttempt),
+    nextAttempt: toDate(delivery.nextAttempt),
+    createdAt: toDate(delivery.createdAt),
+    deadLetteredAt: toDate(delivery.deadLetteredAt),
+    replayedAt: toDate(delivery.replayedAt),
+    history: delivery.history?.map(attempt => ({ ...attempt, at: toDate(attempt.at) ?? new Date(0) }))
+  };
+}
+
+const cloneWebhook = (webhook: Webhook) => reviveWebhook(JSON.parse(JSON.stringify(webhook)));
+const cloneDelivery = (delivery: WebhookDelivery) => reviveDelivery(JSON.parse(JSON.stringify(delivery)));
+
+const createdTime = (delivery: WebhookDelivery) => (delivery.createdAt ?? delivery.lastAttempt ?? new Date(0)).getTime();
+
+const isDeadLettered = (delivery: WebhookDelivery) =>
+  delivery.status === 'failed' && delivery.deadLetteredAt !== undefined && delivery.replayedAt === undefined;
+
+/**
+ * Process-local store for development and tests
+ */
+export class MemoryWebhookStore implements WebhookStore {
+  private webhooks = new Map<string, Webhook>();
+  private deliveries = new Map<string, WebhookDelivery>();
+
+  async listWebhooks(): Promise<Webhook[]> {
+    return [...this.webhooks.values()].map(cloneWebhook);
+  }
+
+  async getWebhook(id: string): Promise<Webhook | null> {
+    const webhook = this.webhooks.get(id);
+    return webhook ? cloneWebhook(webhook) : null;
+  }
+
+  async saveWebhook(webhook: Webhook): Promise<void> {
+    this.webhooks.set(webhook.id, cloneWebhook(webhook));
+  }
+
+  async deleteWebhook(id: string): Promise<void> {
+    this.webhooks.delete(id);
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | null> {
+    const delivery = this.deliveries.get(id);
+    return delivery ? cloneDelivery(delivery) : null;
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, cloneDelivery(delivery));
+  }
+
+  async listDeliveries(query: DeliveryQuery = {}): Promise<WebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter(d => query.webhookId === undefined || d.webhookId === query.webhookId)
+      .filter(d => !query.deadLettered || isDeadLettered(d))
+      .sort((a, b) => createdTime(b) - createdTime(a))
+      .slice(0, query.limit ?? DEFAULT_DELIVERY_LIMIT)
+      .map(cloneDelivery);
+  }
+
+  async listDueDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter(d => (d.status === 'retrying' || d.status === 'pending') && (!d.nextAttempt || d.nextAttempt <= now))
+      .map(cloneDelivery);
+  }
+}
+
+/**
+ * Uses the `webhooks` and `webhook_deliveries` tables. Both keep the record
+ * as a JSON column; the fields the queries filter on are copied out.
+ */
+export class SupabaseWebhookStore implements WebhookStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async listWebhooks(): Promise<Webhook[]> {
+    const { data, error } = await this.supabase.from('webhooks').select('webhook').order('created_at');
+    if (error) throw new Error('Failed to load webhooks');
+    return ((data ?? []) as { webhook: Webhook }[]).map(row => reviveWebhook(row.webhook));
+  }
+
+  async getWebhook(id: string): Promise<Webhook | null> {
+    const { data, error } = await this.supabase.from('webhooks').select('webhook').eq('id', id).maybeSingle();
+    if (error) throw new Error('Failed to load webhook');
+    return data ? reviveWebhook((data as { webhook: Webhook }).webhook) : null;
+  }
+
+  async saveWebhook(webhook: Webhook): Promise<void> {
+    const { error } = await this.supabase.from('webhooks').upsert({
+      id: webhook.id,
+      active: webhook.active,
+      created_at: webhook.createdAt.toISOString(),
+      webhook
+    });
+    if (error) throw new Error('Failed to save webhook');
+  }
+
+  async deleteWebhook(id: string): Promise<void> {
+    const { error } = await this.supabase.from('webhooks').delete().eq('id', id);
+    if (error) throw new Error('Failed to delete webhook');
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | null> {
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .select('delivery')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw new Error('Failed to load webhook delivery');
+    return data ? reviveDelivery((data as { delivery: WebhookDelivery }).delivery) : null;
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    const { error } = await this.supabase.from('webhook_deliveries').upsert({
+      id: delivery.id,
+      webhook_id: delivery.webhookId,
+      status: delivery.status,
+      dead_lettered: isDeadLettered(delivery),
+      next_attempt: delivery.nextAttempt?.toISOString() ?? null,
+      created_at: (delivery.createdAt ?? new Date()).toISOString(),
+      delivery
+    });
+    if (error) throw new Error('Failed to save webhook delivery');
+  }
+
+  async listDeliveries(query: DeliveryQuery = {}): Promise<WebhookDelivery[]> {
+    let request = this.supabase.from('webhook_deliveries').select('delivery');
+    if (query.webhookId !== undefined) request = request.eq('webhook_id', query.webhookId);
+    if (query.deadLettered) request = request.eq('dead_lettered', true);
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .limit(query.limit ?? DEFAULT_DELIVERY_LIMIT);
+    if (error) throw new Error('Failed to load webhook deliveries');
+    return ((data ?? []) as { delivery: WebhookDelivery }[]).map(row => reviveDelivery(row.delivery));
+  }
+
+  async listDueDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .select('delivery')
+      .in('status', ['pending', 'retrying'])
+      .or(`next_attempt.is.null,next_attempt.lte.${now.toISOString()}`);
+    if (error) throw new Error('Failed to load webhook deliveries');
+    return ((data ?? []) as { delivery: WebhookDelivery }[]).map(row => reviveDelivery(row.delivery));
+  }
+}
@@ -0,0 +1,332 @@
+// Outbound webhook delivery: signs each event with the webhook secret, POSTs
+// it within the webhook timeout, retries on the webhook's RetryPolicy and
+// dead-letters deliveries that run out of attempts
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { ALL_EVENTS } from './DomainEvents';
+import type { WebhookStore } from './WebhookStore';
+import type {
+  RetryPolicy,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookFilter,
+  WebhookResponse
+} from '../../types/integration';
+
+export const SIGNATURE_HEADER = 'X-TahitiSpeak-Signature';
+export const EVENT_HEADER = 'X-TahitiSpeak-Event';
+export const DELIVERY_HEADER = 'X-TahitiSpeak-Delivery';
+
+/** Receivers should refuse signatures older than this, so captured requests cannot be replayed */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Enough of the receiver's answer to debug a failure
+const MAX_RESPONSE_BODY_LENGTH = 2048;
+
+export class WebhookError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Signing the
+ * timestamp with the body lets receivers reject old requests.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/** Receiver-side check of a signature header, in constant time */
+export function verifySignature(
+  secret: string,
+  header: string,
+  body: string,
+  nowSeconds: number,
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([name]) => name === 't')?.[1]);
+  if (!Number.isFinite(timestamp) || Math.abs(nowSeconds - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signPayload(secret, timestamp, body).split('v1=')[1], 'hex');
+  return parts
+    .filter(([name]) => name === 'v1')
+    .some(([, value]) => {
+      const candidate = Buffer.from(value ?? '', 'hex');
+      return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+    });
+}
+
+function fieldValue(payload: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    payload
+  );
+}
+
+export function matchesFilter(filter: WebhookFilter, payload: unknown): boolean {
+  const value = fieldValue(payload, filter.field);
+  if (value === undefined || value === null) return false;
+
+  switch (filter.operator) {
+    case 'equals':
+      return String(value) === String(filter.value);
+    case 'contains':
+      return Array.isArray(value)
+        ? value.some(item => String(item) === String(filter.value))
+        : String(value).includes(String(filter.value));
+    case 'startsWith':
+      return String(value).startsWith(String(filter.value));
+    case 'endsWith':
+      return String(value).endsWith(String(filter.value));
+    case 'regex':
+      try {
+        return new RegExp(String(filter.value)).test(String(value));
+      } catch {
+        // A broken pattern matches nothing rather than everything
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+/** All filters must match */
+export function matchesFilters(filters: WebhookFilter[] | undefined, payload: unknown): boolean {
+  return (filters ?? []).every(filter => matchesFilter(filter, payload));
+}
+
+/** Whether an active webhook subscribes to the event, filters included */
+export function subscribes(webhook: Webhook, event: WebhookEvent): boolean {
+  return webhook.active && webhook.events.some(subscription =>
+    (subscription.type === event.type || subscription.type === ALL_EVENTS) &&
+    matchesFilters(subscription.filters, event.payload)
+  );
+}
+
+/** Wait before retry number `retry` (1 for the first retry), capped at maxDelay */
+export function retryDelay(policy: RetryPolicy, retry: number): number {
+  const delay =
+    policy.backoffStrategy === 'exponential' ? policy.initialDelay * 2 ** (retry - 1)
+    : policy.backoffStrategy === 'linear' ? policy.initialDelay * retry
+    : policy.initialDelay;
+  return Math.min(delay, policy.maxDelay);
+}
+
+/**
+ * Timeouts, rate limits and server errors are worth retrying; other client
+ * errors will fail the same way again and go straight to the dead letters
+ */
+export function isRetryableStatus(statusCode: number | undefined): boolean {
+  return statusCode === undefined || statusCode === 408 || statusCode === 425 || statusCode === 429 || statusCode >= 500;
+}
+
+export interface WebhookWorkerOptions {
+  store: WebhookStore;
+  fetcher?: typeof fetch;
+  now?: () => number;
+  /** Runs a retry later; defaults to an unref'd timer */
+  schedule?: (task: () => void, delayMs: number) => void;
+}
+
+function scheduleTimer(task: () => void, delayMs: number): void {
+  const timer = setTimeout(task, delayMs);
+  (timer as { unref?: () => void }).unref?.();
+}
+
+export class WebhookWorker {
+  private readonly store: WebhookStore;
+  private readonly fetcher: typeof fetch;
+  private readonly now: () => number;
+  private readonly schedule: (task: () => void, delayMs: number) => void;
+  // Deliveries being attempted, so a timer and processDue never send one twice at once
+  private inFlight = new Set<string>();
+
+  constructor(options: WebhookWorkerOptions) {
+    this.store = options.store;
+    this.fetcher = options.fetcher ?? fetch;
+    this.now = options.now ?? Date.now;
+    this.schedule = options.schedule ?? scheduleTimer;
+  }
+
+  /** Delivers the event to every webhook subscribed to it */
+  async dispatch(event: WebhookEvent): Promise<WebhookDelivery[]> {
+    const webhooks = (await this.store.listWebhooks()).filter(webhook => subscribes(webhook, event));
+    return Promise.all(webhooks.map(async webhook => this.attempt(await this.createDelivery(webhook, event), webhook)));
+  }
+
+  /** Delivers the event to one webhook regardless of its subscriptions, for testing endpoints */
+  async send(webhookId: string, event: WebhookEvent): Promise<WebhookDelivery> {
+    const webhook = await this.store.getWebhook(webhookId);
+    if (!webhook) throw new WebhookError('Webhook not found', 404);
+    return this.attempt(await this.createDelivery(webhook, event), webhook);
+  }
+
+  /**
+   * Sends a dead-lettered delivery again as a new delivery with a fresh retry
+   * budget. The original leaves the dead-letter list.
+   */
+  async replay(deliveryId: string): Promise<WebhookDelivery> {
+    const original = await this.store.getDelivery(deliveryId);
+    if (!original) throw new WebhookError('Delivery not found', 404);
+    if (!original.deadLetteredAt || original.replayedAt) {
+      throw new WebhookError('Only dead-lettered deliveries can be replayed', 409);
+    }
+    const webhook = await this.store.getWebhook(original.webhookId);
+    if (!webhook) throw new WebhookError('The webhook for this delivery was deleted', 410);
+
+    await this.store.saveDelivery({ ...original, replayedAt: new Date(this.now()) });
+    // Replays keep pointing at the first delivery, whose id receivers see as the event id
+    return this.attempt(await this.createDelivery(webhook, original.event, original.replayOf ?? original.id), webhook);
+  }
+
+  /**
+   * Attempts retries that are due, e.g. those whose timers were lost when the
+   * process restarted. Returns the number of deliveries attempted.
+   */
+  async processDue(): Promise<number> {
+    const due = await this.store.listDueDeliveries(new Date(this.now()));
+    for (const delivery of due) {
+      await this.retry(delivery.id);
+    }
+    return due.length;
+  }
+
+  private async createDelivery(webhook: Webhook, event: WebhookEvent, replayOf?: string): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      id: `delivery-${randomUUID()}`,
+      webhookId: webhook.id,
+      event,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date(this.now()),
+      history: [],
+      ...(replayOf ? { replayOf } : {})
+    };
+    await this.store.saveDelivery(delivery);
+    return delivery;
+  }
+
+  private async retry(deliveryId: string): Promise<void> {
+    try {
+      const delivery = await this.store.getDelivery(deliveryId);
+      if (!delivery || (delivery.status !== 'retrying' && delivery.status !== 'pending')) return;
+
+      const webhook = await this.store.getWebhook(delivery.webhookId);
+      if (!webhook) {
+        await this.store.saveDelivery({ ...delivery, status: 'failed', nextAttempt: undefined, error: 'Webhook was deleted' });
+        return;
+      }
+      await this.attempt(delivery, webhook);
+    } catch (error) {
+      console.error('Failed to retry webhook delivery:', error);
+    }
+  }
+
+  private buildRequest(delivery: WebhookDelivery, webhook: Webhook): { body: string; headers: Record<string, string> } {
+    const body = JSON.stringify({
+      id: delivery.replayOf ?? delivery.id,
+      type: delivery.event.type,
+      description: delivery.event.description,
+      createdAt: delivery.createdAt,
+      payload: delivery.event.payload
+    });
+    const headers: Record<string, string> = {
+      ...webhook.headers,
+      'Content-Type': 'application/json',
+      'User-Agent': 'TahitiSpeak-Webhooks/1.0',
+      [EVENT_HEADER]: delivery.event.type,
+      [DELIVERY_HEADER]: delivery.id
+    };
+    if (webhook.secret) {
+      headers[SIGNATURE_HEADER] = signPayload(webhook.secret, Math.floor(this.now() / 1000), body);
+    }
+    return { body, headers };
+  }
+
+  /** One HTTP attempt; the outcome and its latency are recorded on the delivery */
+  private async attempt(delivery: WebhookDelivery, webhook: Webhook): Promise<WebhookDelivery> {
+    if (this.inFlight.has(delivery.id)) return delivery;
+    this.inFlight.add(delivery.id);
+
+    try {
+      const { body, headers } = this.buildRequest(delivery, webhook);
+      const attemptNumber = delivery.attempts + 1;
+      const startedAt = this.now();
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), webhook.timeout);
+
+      let response: WebhookResponse | undefined;
+      let error: string | undefined;
+      try {
+        const result = await this.fetcher(webhook.url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: controller.signal,
+          redirect: 'manual'
+        });
+        const responseHeaders: Record<string, string> = {};
+        result.headers?.forEach((value, name) => { responseHeaders[name] = value; });
+        const text = await result.text().catch(() => '');
+        response = {
+          statusCode: result.status,
+          headers: responseHeaders,
+          body: text.slice(0, MAX_RESPONSE_BODY_LENGTH),
+          duration: this.now() - startedAt
+        };
+        if (!result.ok) error = `Receiver answered HTTP ${result.status}`;
+      } catch (cause) {
+        error = controller.signal.aborted
+          ? `Timed out after ${webhook.timeout}ms`
+          : `Request failed: ${cause instanceof Error ? cause.message : String(cause)}`;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      const finishedAt = this.now();
+      const updated: WebhookDelivery = {
+        ...delivery,
+        attempts: attemptNumber,
+        lastAttempt: new Date(startedAt),
+        response,
+        error,
+        history: [
+          ...(delivery.history ?? []),
+          { attempt: attemptNumber, at: new Date(startedAt), statusCode: response?.statusCode, duration: finishedAt - startedAt, error }
+        ]
+      };
+
+      const canRetry = isRetryableStatus(response?.statusCode) && attemptNumber <= webhook.retryPolicy.maxRetries;
+      if (!error) {
+        Object.assign(updated, { status: 'success', nextAttempt: undefined });
+      } else if (canRetry) {
+        const delay = retryDelay(webhook.retryPolicy, attemptNumber);
+        Object.assign(updated, { status: 'retrying', nextAttempt: new Date(finishedAt + delay) });
+        this.schedule(() => void this.retry(delivery.id), delay);
+      } else {
+        Object.assign(updated, { status: 'failed', nextAttempt: undefined, deadLetteredAt: new Date(finishedAt) });
+      }
+
+      await this.store.saveDelivery(updated);
+      await this.recordOnWebhook(webhook.id, startedAt, updated.status === 'failed');
+      return updated;
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+  }
+
+  private async recordOnWebhook(webhookId: string, triggeredAt: number, failed: boolean): Promise<void> {
+    const current = await this.store.getWebhook(webhookId);
+    if (!current) return;
+    await this.store.saveWebhook({
+      ...current,
+      lastTriggered: new Date(triggeredAt),
+      failureCount: current.failureCount + (failed ? 1 : 0)
+    });
+  }
+}
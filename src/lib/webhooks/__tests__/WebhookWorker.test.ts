@@ -0,0 +1,220 @@
+import { createDomainEvent } from '../DomainEvents';
+import { parseWebhookInput } from '../WebhookConfig';
+import { MemoryWebhookStore } from '../WebhookStore';
+import {
+  matchesFilters,
+  retryDelay,
+  signPayload,
+  SIGNATURE_HEADER,
+  verifySignature,
+  WebhookWorker
+} from '../WebhookWorker';
+import type { Webhook } from '../../../types/integration';
+
+const SECRET = 'whsec_test_secret_value';
+
+const webhook = (overrides: Partial<Webhook> = {}): Webhook => ({
+  id: 'webhook-1',
+  name: 'LMS sync',
+  url: 'https://receiver.example.test/hooks',
+  events: [{ type: 'lesson.completed', description: '', payload: {} }],
+  secret: SECRET,
+  active: true,
+  retryPolicy: { maxRetries: 2, backoffStrategy: 'exponential', initialDelay: 1000, maxDelay: 60000 },
+  timeout: 5000,
+  createdAt: new Date(0),
+  failureCount: 0,
+  ...overrides
+});
+
+const completed = createDomainEvent('lesson.completed', { userId: 'user-1', lessonId: 7, lessonSlug: 'greetings', score: 90 });
+
+interface Sent {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** A receiver that answers with the given statuses in turn, then 200 */
+function receiver(statuses: number[] = []) {
+  const sent: Sent[] = [];
+  const fetcher = jest.fn(async (url: string, init: RequestInit) => {
+    sent.push({ url, headers: init.headers as Record<string, string>, body: String(init.body) });
+    const status = statuses.shift() ?? 200;
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      headers: new Map([['content-type', 'text/plain']]),
+      text: async () => (status < 300 ? 'ok' : 'nope')
+    } as unknown as Response;
+  });
+  return { sent, fetcher: fetcher as unknown as typeof fetch };
+}
+
+function setup(statuses?: number[]) {
+  const store = new MemoryWebhookStore();
+  const { sent, fetcher } = receiver(statuses);
+  const scheduled: Array<{ task: () => void; delayMs: number }> = [];
+  let clock = 1_700_000_000_000;
+  const worker = new WebhookWorker({
+    store,
+    fetcher,
+    now: () => clock,
+    schedule: (task, delayMs) => scheduled.push({ task, delayMs })
+  });
+  const advance = (ms: number) => { clock += ms; };
+  return { store, sent, scheduled, worker, advance };
+}
+
+/** Runs the retry the worker scheduled last and waits for it to finish */
+async function runScheduled(scheduled: Array<{ task: () => void }>) {
+  scheduled.shift()!.task();
+  await new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('webhook signatures', () => {
+  it('signs the timestamp and body so receivers can verify both', () => {
+    const header = signPayload(SECRET, 1000, '{"a":1}');
+
+    expect(header).toMatch(/^t=1000,v1=[0-9a-f]{64}$/);
+    expect(verifySignature(SECRET, header, '{"a":1}', 1010)).toBe(true);
+    expect(verifySignature(SECRET, header, '{"a":2}', 1010)).toBe(false);
+    expect(verifySignature('another-secret-value', header, '{"a":1}', 1010)).toBe(false);
+    expect(verifySignature(SECRET, header, '{"a":1}', 1000 + 10 * 60)).toBe(false);
+  });
+});
+
+describe('webhook filters and backoff', () => {
+  it('matches every filter against the event payload', () => {
+    const payload = { lessonSlug: 'greetings-2', user: { role: 'student' }, tags: ['a1', 'b2'] };
+
+    expect(matchesFilters(undefined, payload)).toBe(true);
+    expect(matchesFilters([
+      { field: 'lessonSlug', operator: 'startsWith', value: 'greet' },
+      { field: 'user.role', operator: 'equals', value: 'student' },
+      { field: 'tags', operator: 'contains', value: 'b2' }
+    ], payload)).toBe(true);
+    expect(matchesFilters([{ field: 'lessonSlug', operator: 'regex', value: '^greetings-\\d$' }], payload)).toBe(true);
+    expect(matchesFilters([{ field: 'lessonSlug', operator: 'endsWith', value: '-3' }], payload)).toBe(false);
+    expect(matchesFilters([{ field: 'missing', operator: 'equals', value: 'x' }], payload)).toBe(false);
+    expect(matchesFilters([{ field: 'lessonSlug', operator: 'regex', value: '(' }], payload)).toBe(false);
+  });
+
+  it('computes fixed, linear and capped exponential delays', () => {
+    const policy = { maxRetries: 5, initialDelay: 1000, maxDelay: 5000 };
+
+    expect([1, 2, 3].map(n => retryDelay({ ...policy, backoffStrategy: 'fixed' }, n))).toEqual([1000, 1000, 1000]);
+    expect([1, 2, 3].map(n => retryDelay({ ...policy, backoffStrategy: 'linear' }, n))).toEqual([1000, 2000, 3000]);
+    expect([1, 2, 3, 4].map(n => retryDelay({ ...policy, backoffStrategy: 'exponential' }, n))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
+
+describe('WebhookWorker', () => {
+  it('posts a signed event to subscribed webhooks only', async () => {
+    const { store, sent, worker } = setup();
+    await store.saveWebhook(webhook());
+    await store.saveWebhook(webhook({ id: 'webhook-2', events: [{ type: 'course.published', description: '', payload: {} }] }));
+    await store.saveWebhook(webhook({
+      id: 'webhook-3',
+      events: [{ type: 'lesson.completed', description: '', payload: {}, filters: [{ field: 'score', operator: 'equals', value: 100 }] }]
+    }));
+    await store.saveWebhook(webhook({ id: 'webhook-4', active: false }));
+
+    const deliveries = await worker.dispatch(completed);
+
+    expect(deliveries.map(d => [d.webhookId, d.status])).toEqual([['webhook-1', 'success']]);
+    expect(sent).toHaveLength(1);
+    const body = JSON.parse(sent[0].body);
+    expect(body).toMatchObject({ id: deliveries[0].id, type: 'lesson.completed', payload: { lessonSlug: 'greetings' } });
+    expect(verifySignature(SECRET, sent[0].headers[SIGNATURE_HEADER], sent[0].body, 1_700_000_000)).toBe(true);
+    expect(deliveries[0].response).toMatchObject({ statusCode: 200, body: 'ok', headers: { 'content-type': 'text/plain' } });
+    expect((await store.getWebhook('webhook-1'))?.lastTriggered).toEqual(new Date(1_700_000_000_000));
+  });
+
+  it('retries with backoff, then dead-letters and replays', async () => {
+    const { store, sent, scheduled, worker, advance } = setup([500, 503, 502]);
+    await store.saveWebhook(webhook());
+
+    const [first] = await worker.dispatch(completed);
+    expect(first).toMatchObject({ status: 'retrying', attempts: 1, error: 'Receiver answered HTTP 500' });
+    expect(scheduled.map(s => s.delayMs)).toEqual([1000]);
+
+    advance(1000);
+    await runScheduled(scheduled);
+    expect(scheduled.map(s => s.delayMs)).toEqual([2000]);
+
+    advance(2000);
+    await runScheduled(scheduled);
+    const dead = await store.getDelivery(first.id);
+    expect(dead).toMatchObject({ status: 'failed', attempts: 3 });
+    expect(dead?.history?.map(a => a.statusCode)).toEqual([500, 503, 502]);
+    expect(dead?.deadLetteredAt).toBeInstanceOf(Date);
+    expect(scheduled).toHaveLength(0);
+    expect((await store.getWebhook('webhook-1'))?.failureCount).toBe(1);
+    expect((await store.listDeliveries({ deadLettered: true })).map(d => d.id)).toEqual([first.id]);
+
+    const replay = await worker.replay(first.id);
+    expect(replay).toMatchObject({ status: 'success', attempts: 1, replayOf: first.id });
+    expect(JSON.parse(sent[3].body).id).toBe(first.id);
+    expect(await store.listDeliveries({ deadLettered: true })).toEqual([]);
+    await expect(worker.replay(first.id)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('does not retry client errors', async () => {
+    const { store, scheduled, worker } = setup([410]);
+    await store.saveWebhook(webhook());
+
+    const [delivery] = await worker.dispatch(completed);
+
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(scheduled).toHaveLength(0);
+  });
+
+  it('gives up on receivers that do not answer within the timeout', async () => {
+    const store = new MemoryWebhookStore();
+    await store.saveWebhook(webhook({ timeout: 20, retryPolicy: { maxRetries: 0, backoffStrategy: 'fixed', initialDelay: 1, maxDelay: 1 } }));
+    const hanging = ((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    })) as unknown as typeof fetch;
+    const worker = new WebhookWorker({ store, fetcher: hanging });
+
+    const [delivery] = await worker.dispatch(completed);
+
+    expect(delivery).toMatchObject({ status: 'failed', error: 'Timed out after 20ms' });
+    expect(delivery.history?.[0].statusCode).toBeUndefined();
+  });
+
+  it('resumes retries that are due after a restart', async () => {
+    const { store, sent, worker, advance } = setup([500]);
+    await store.saveWebhook(webhook());
+    const [delivery] = await worker.dispatch(completed);
+
+    expect(await worker.processDue()).toBe(0);
+    advance(1000);
+    expect(await worker.processDue()).toBe(1);
+    expect(await store.getDelivery(delivery.id)).toMatchObject({ status: 'success', attempts: 2 });
+    expect(sent).toHaveLength(2);
+  });
+});
+
+describe('parseWebhookInput', () => {
+  it('fills defaults, generates a secret and validates input', () => {
+    const created = parseWebhookInput(
+      { name: ' Gradebook ', url: 'https://lms.example.test/hook', events: [{ type: 'lesson.completed' }] },
+      null,
+      'webhook-9',
+      new Date(0)
+    );
+
+    expect(created).toMatchObject({ id: 'webhook-9', name: 'Gradebook', active: true, failureCount: 0 });
+    expect(created.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(parseWebhookInput({ active: false }, created, created.id, new Date(1))).toMatchObject({
+      active: false,
+      secret: created.secret,
+      url: 'https://lms.example.test/hook'
+    });
+    expect(() => parseWebhookInput({ name: 'x', url: 'ftp://x', events: [{ type: 'a' }] }, null, 'id', new Date())).toThrow('http or https');
+    expect(() => parseWebhookInput({ name: 'x', url: 'https://x', events: [] }, null, 'id', new Date())).toThrow('at least one event');
+    expect(() => parseWebhookInput({ retryPolicy: { maxRetries: 50 } }, created, created.id, new Date())).toThrow('maxRetries');
+  });
+});
@@ -10,6 +10,8 @@ interface JWTPayload {
   iat: number;
   exp: number;
   jti: string;
+  /** Missing from tokens issued before verification was enforced */
+  emailVerified?: boolean;
 }
 
 // Protected routes configuration
@@ -32,6 +34,13 @@ const protectedRoutes = {
     '/admin/analytics',
     '/admin/settings'
   ],
+  // Admin routes editorial reviewers may also use: the review queue and
+  // the course previews it links to
+  review: [
+    '/admin/reviews',
+    '/api/admin/reviews',
+    /^\/admin\/courses\/[^/]+\/preview\/?$/
+  ],
   // Routes that require instructor role or higher
   instructor: [
     '/instructor',
@@ -45,6 +54,7 @@ const protectedRoutes = {
     '/login',
     '/register',
     '/reset-password',
+    '/auth/verify-email',
     '/about',
     '/contact',
     '/privacy',
@@ -102,6 +112,13 @@ function requiresAdminAuth(pathname: string): boolean {
   );
 }
 
+// Check if an admin route is open to editorial reviewers
+function isReviewRoute(pathname: string): boolean {
+  return protectedRoutes.review.some(route =>
+    typeof route === 'string' ? pathname.startsWith(route) : route.test(pathname)
+  );
+}
+
 // Check if route requires instructor authentication
 function requiresInstructorAuth(pathname: string): boolean {
   return protectedRoutes.instructor.some(route => 
@@ -113,17 +130,23 @@ function requiresInstructorAuth(pathname: string): boolean {
 function isPublicRoute(pathname: string): boolean {
   return protectedRoutes.public.some(route => 
     pathname === route || (route === '/' && pathname === '/')
-  ) || pathname.startsWith('/api/auth') || pathname.startsWith('/_next') || 
+  ) || pathname.startsWith('/api/auth') || pathname.startsWith('/api/lti') ||
+     pathname.startsWith('/api/cron/') ||
+     pathname.startsWith('/lti/') || pathname.startsWith('/_next') || 
      pathname.startsWith('/favicon') || pathname.startsWith('/manifest') ||
      pathname.startsWith('/sw.js') || pathname.startsWith('/offline');
 }
 
+// Roles that sign off review steps without being admins
+const reviewerRoles = ['linguist', 'cultural_advisor'];
+
 // Check if user has required role
 function hasRequiredRole(userRole: string, requiredRole: string): boolean {
   const roleHierarchy = {
     'student': 1,
     'instructor': 2,
-    'admin': 3
+    'admin': 3,
+    'super_admin': 4
   };
 
   const userLevel = roleHierarchy[userRole as keyof typeof roleHierarchy] || 0;
@@ -189,6 +212,20 @@ function createForbiddenResponse(request: NextRequest): NextResponse {
   return createRedirectResponse('/dashboard', request);
 }
 
+// Unverified accounts are sent to verify their email before staff areas
+function createVerificationRequiredResponse(request: NextRequest): NextResponse {
+  const isApiRoute = request.nextUrl.pathname.startsWith('/api');
+
+  if (isApiRoute) {
+    return NextResponse.json(
+      { error: 'Email verification required' },
+      { status: 403 }
+    );
+  }
+
+  return createRedirectResponse('/auth/verify-email', request);
+}
+
 export function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
@@ -228,9 +265,15 @@ export function middleware(request: NextRequest) {
     return createUnauthorizedResponse(request);
   }
 
+  // Staff areas need a verified email on top of the role
+  if (payload.emailVerified === false && (requiresAdminAuth(pathname) || requiresInstructorAuth(pathname))) {
+    return createVerificationRequiredResponse(request);
+  }
+
   // Check role-based access
   if (requiresAdminAuth(pathname)) {
-    if (!hasRequiredRole(payload.role, 'admin')) {
+    const isReviewer = reviewerRoles.includes(payload.role) && isReviewRoute(pathname);
+    if (!isReviewer && !hasRequiredRole(payload.role, 'admin')) {
       return createForbiddenResponse(request);
     }
   } else if (requiresInstructorAuth(pathname)) {
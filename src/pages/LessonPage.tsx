@@ -127,7 +127,7 @@ export default function LessonPage({ userId = 'guest' }: LessonPageProps) {
     try {
       await jsonDataService.updateLessonProgress(userId, slug, {
         ...updates,
-        lastAccessedAt: new Date()
+        updatedAt: Date.now()
       });
       
       // Reload progress
@@ -140,7 +140,7 @@ export default function LessonPage({ userId = 'guest' }: LessonPageProps) {
 
   // Mark lesson as started
   useEffect(() => {
-    if (lesson && !progress?.lastAccessedAt) {
+    if (lesson && !progress) {
       updateProgress({ attempts: 1 });
     }
   }, [lesson, progress, updateProgress]);
@@ -448,6 +448,7 @@ export default function LessonPage({ userId = 'guest' }: LessonPageProps) {
                   </div>
                   <PronunciationPractice
                     targetText={selectedVocabulary.tahitian}
+                    targetIpa={selectedVocabulary.ipaTah}
                     audioUrl={selectedVocabulary.audioId}
                     language="ty-PF"
                     onResult={(result) => {
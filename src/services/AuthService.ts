@@ -2,6 +2,7 @@
 
 import { jwtDecode } from 'jwt-decode';
 import { createClient } from '@supabase/supabase-js';
+import type { SessionSummary } from '../lib/auth/Sessions';
 
 // Types
 export interface User {
@@ -16,6 +17,7 @@ export interface User {
   lastLoginAt?: string;
   isEmailVerified: boolean;
   isActive: boolean;
+  twoFactorEnabled?: boolean;
 }
 
 export interface UserPreferences {
@@ -46,6 +48,42 @@ export interface LoginCredentials {
   rememberMe?: boolean;
 }
 
+/**
+ * A login that needs a second step: a code from the authenticator app
+ * (`verify`), or enrolling one first because the role requires it (`setup`)
+ */
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  purpose: 'verify' | 'setup';
+  expiresAt: number;
+  rememberMe: boolean;
+}
+
+export interface LoginResult {
+  success: boolean;
+  error?: string;
+  /** Set when the password was right but the login needs a second step */
+  challenge?: TwoFactorChallenge;
+}
+
+/** One of the two is required */
+export interface TwoFactorAnswer {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
 export interface RegisterData {
   email: string;
   password: string;
@@ -84,6 +122,7 @@ export interface JWTPayload {
 const TOKEN_STORAGE_KEY = 'tahitian_tutor_tokens';
 const USER_STORAGE_KEY = 'tahitian_tutor_user';
 const REFRESH_THRESHOLD = 5 * 60 * 1000; // 5 minutes before expiry
+const REFRESH_LOCK = 'tahitian_tutor_refresh';
 
 class AuthService {
   private supabase: any;
@@ -160,7 +199,7 @@ class AuthService {
 
   // Public API
 
-  async login(credentials: LoginCredentials): Promise<{ success: boolean; error?: string }> {
+  async login(credentials: LoginCredentials): Promise<LoginResult> {
     try {
       this.setState({ ...this.state, isLoading: true, error: null });
 
@@ -178,23 +217,20 @@ class AuthService {
         throw new Error(data.error || 'Login failed');
       }
 
-      const { user, tokens } = data;
-
-      // Store tokens and user
-      this.storeTokens(tokens);
-      this.storeUser(user);
-
-      this.setState({
-        user,
-        tokens,
-        isAuthenticated: true,
-        isLoading: false,
-        error: null
-      });
-
-      // Set up token refresh
-      this.scheduleTokenRefresh(tokens.expiresAt);
+      if (data.requiresTwoFactor || data.requiresTwoFactorSetup) {
+        this.setState({ ...this.state, isLoading: false, error: null });
+        return {
+          success: false,
+          challenge: {
+            challengeToken: data.challengeToken,
+            purpose: data.requiresTwoFactor ? 'verify' : 'setup',
+            expiresAt: data.expiresAt,
+            rememberMe: Boolean(credentials.rememberMe)
+          }
+        };
+      }
 
+      this.startSession(data.user, data.tokens);
       return { success: true };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Login failed';
@@ -207,6 +243,63 @@ class AuthService {
     }
   }
 
+  /** Finishes a login challenge with a code from the authenticator app or a recovery code */
+  async verifyTwoFactor(challenge: TwoFactorChallenge, answer: TwoFactorAnswer): Promise<{ success: boolean; error?: string }> {
+    try {
+      const data = await this.twoFactorRequest<{ user: User; tokens: AuthTokens }>('verify', {
+        challengeToken: challenge.challengeToken,
+        ...answer
+      });
+      this.startSession(data.user, data.tokens);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Verification failed' };
+    }
+  }
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const authHeader = this.getAuthHeader();
+    if (!authHeader) throw new Error('Not authenticated');
+
+    const response = await fetch('/api/auth/two-factor', { headers: { Authorization: authHeader } });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to load two-factor settings');
+    return data;
+  }
+
+  /** Starts enrollment, signed in or from a login's `setup` challenge */
+  async startTwoFactorSetup(challenge?: TwoFactorChallenge): Promise<TwoFactorEnrollment> {
+    return this.twoFactorRequest<TwoFactorEnrollment>('setup', { challengeToken: challenge?.challengeToken });
+  }
+
+  /**
+   * Confirms enrollment with a first code and returns the recovery codes,
+   * which are shown only this once. From a login challenge it also signs in.
+   */
+  async enableTwoFactor(code: string, challenge?: TwoFactorChallenge): Promise<string[]> {
+    const data = await this.twoFactorRequest<{ recoveryCodes: string[]; user?: User; tokens?: AuthTokens }>('enable', {
+      code,
+      challengeToken: challenge?.challengeToken
+    });
+    if (data.user && data.tokens) {
+      this.startSession(data.user, data.tokens);
+    } else if (this.state.user) {
+      this.updateStoredUser({ twoFactorEnabled: true });
+    }
+    return data.recoveryCodes;
+  }
+
+  async disableTwoFactor(answer: TwoFactorAnswer): Promise<void> {
+    await this.twoFactorRequest('disable', answer);
+    this.updateStoredUser({ twoFactorEnabled: false });
+  }
+
+  /** Replaces every recovery code; the old ones stop working */
+  async regenerateRecoveryCodes(answer: TwoFactorAnswer): Promise<string[]> {
+    const { recoveryCodes } = await this.twoFactorRequest<{ recoveryCodes: string[] }>('recovery-codes', answer);
+    return recoveryCodes;
+  }
+
   async register(data: RegisterData): Promise<{ success: boolean; error?: string }> {
     try {
       this.setState({ ...this.state, isLoading: true, error: null });
@@ -244,6 +337,14 @@ class AuthService {
   }
 
   async logout(): Promise<void> {
+    try {
+      // Send this user's queued offline work before the tokens go away
+      const { offlineSyncService } = await import('../lib/offline-sync');
+      await offlineSyncService.flushPendingActions();
+    } catch (error) {
+      console.error('[Auth] Flushing offline actions failed:', error);
+    }
+
     try {
       // Call logout endpoint to invalidate tokens
       if (this.state.tokens) {
@@ -285,6 +386,62 @@ class AuthService {
     }
   }
 
+  /** Confirms the address from a verification link; when signed in, fresh tokens carry the new status */
+  async verifyEmail(token: string): Promise<{ success: boolean; error?: string; expired?: boolean }> {
+    try {
+      const response = await fetch('/api/auth/verify-email', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ token })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return { success: false, error: result.error || 'Email verification failed', expired: result.expired === true };
+      }
+
+      if (this.state.isAuthenticated) {
+        await this.refreshTokens();
+      }
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Email verification failed';
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /** Emails the signed-in user a new verification link */
+  async resendVerification(): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!this.state.tokens) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch('/api/auth/verify-email?action=resend', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.state.tokens.accessToken}`
+        }
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send the verification email');
+      }
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to send the verification email';
+      return { success: false, error: errorMessage };
+    }
+  }
+
   async changePassword(data: ChangePasswordData): Promise<{ success: boolean; error?: string }> {
     try {
       if (!this.state.tokens) {
@@ -349,7 +506,19 @@ class AuthService {
     }
   }
 
+  /**
+   * Tabs share one refresh token. Refreshes take turns across tabs, as a tab
+   * presenting a token another tab has just rotated looks like token theft
+   * and signs every device in the family out.
+   */
   async refreshTokens(): Promise<boolean> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(REFRESH_LOCK, () => this.rotateTokens());
+    }
+    return this.rotateTokens();
+  }
+
+  private async rotateTokens(): Promise<boolean> {
     try {
       const storedTokens = this.getStoredTokens();
       if (!storedTokens?.refreshToken) {
@@ -399,6 +568,24 @@ class AuthService {
     }
   }
 
+  /** The devices signed in to this account */
+  async getSessions(): Promise<SessionSummary[]> {
+    const { sessions } = await this.sessionsRequest<{ sessions: SessionSummary[] }>('GET');
+    return sessions;
+  }
+
+  /** Signs one device out; when it is this one, the local session ends too */
+  async revokeSession(sessionId: string): Promise<void> {
+    const { signedOut } = await this.sessionsRequest<{ signedOut: boolean }>('DELETE', sessionId);
+    if (signedOut) this.clearAuth();
+  }
+
+  /** Signs every device out, this one included */
+  async signOutEverywhere(): Promise<void> {
+    await this.sessionsRequest('DELETE');
+    this.clearAuth();
+  }
+
   // Utility methods
 
   getAuthHeader(): string | null {
@@ -441,6 +628,65 @@ class AuthService {
     });
   }
 
+  private startSession(user: User, tokens: AuthTokens): void {
+    // Store tokens and user
+    this.storeTokens(tokens);
+    this.storeUser(user);
+
+    this.setState({
+      user,
+      tokens,
+      isAuthenticated: true,
+      isLoading: false,
+      error: null
+    });
+
+    // Set up token refresh
+    this.scheduleTokenRefresh(tokens.expiresAt);
+  }
+
+  private updateStoredUser(changes: Partial<User>): void {
+    if (!this.state.user) return;
+    const user = { ...this.state.user, ...changes };
+    this.storeUser(user);
+    this.setState({ ...this.state, user });
+  }
+
+  private async twoFactorRequest<T = Record<string, unknown>>(action: string, body: object): Promise<T> {
+    const authHeader = this.getAuthHeader();
+    const response = await fetch(`/api/auth/two-factor?action=${action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authHeader ? { Authorization: authHeader } : {})
+      },
+      body: JSON.stringify(body)
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Two-factor request failed');
+    }
+    return data as T;
+  }
+
+  private async sessionsRequest<T = Record<string, unknown>>(method: 'GET' | 'DELETE', sessionId?: string): Promise<T> {
+    const authHeader = this.getAuthHeader();
+    if (!authHeader) throw new Error('Not authenticated');
+
+    const query = sessionId ? `?id=${encodeURIComponent(sessionId)}` : '';
+    const response = await fetch(`/api/auth/sessions${query}`, {
+      method,
+      headers: { Authorization: authHeader }
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to manage sessions');
+    }
+    return data as T;
+  }
+
   private clearAuth(): void {
     this.clearStorage();
     this.clearRefreshTimer();
@@ -15,29 +15,144 @@ import {
   NotificationPreferences,
   Permission,
   ContentChange,
-  MergeConflict
+  MergeConflict,
+  ConflictChoice
 } from '@/types/collaboration';
 import { DataService, LocalDataService } from '@/lib/data/DataService';
+import { diffCourses, mergeCourses, parseCourseSnapshot } from '@/lib/versioning/CourseDiff';
+import { CollaborationClient } from '@/lib/collaboration/CollaborationClient';
+import { connectCollaboration, type CollaborationConnection } from '@/lib/collaboration/CollaborationConnection';
+import { isValidRoomId, toSessionParticipant } from '@/lib/collaboration/CollaborationProtocol';
+import { positionToOffset } from '@/lib/collaboration/TextOperation';
+import {
+  canReviewStep,
+  COURSE_CONTENT_TYPE,
+  courseContentId,
+  courseFingerprint,
+  DEFAULT_COURSE_WORKFLOW,
+  escalateOverdue,
+  findStep,
+  publishGate,
+  recordDecision,
+  resubmitReview,
+  reviveReviewRequest,
+  roleRecipient,
+  startReview,
+  ReviewError,
+  type PublishGate,
+  type ReviewDecision,
+  type Reviewer,
+  type ReviewNotice
+} from '@/lib/review/ReviewWorkflow';
+import {
+  anchorPosition,
+  AnnotationError,
+  createAnchor,
+  lessonContentId,
+  targetText,
+  type AnnotationTarget
+} from '@/lib/annotations/AnnotationAnchor';
+import { AdminAuthService } from '@/lib/auth/AdminAuthService';
+import authService from '@/services/AuthService';
+import { rbacService } from '@/services/RBACService';
+import type { Course, Lesson } from '@/types';
+
+/**
+ * Thrown by `mergeBranches` when both branches changed the same content.
+ * The conflict is also stored on the merge request.
+ */
+export class MergeConflictError extends Error {
+  constructor(public readonly conflict: MergeConflict) {
+    super(`Merge has ${conflict.conflicts.filter(section => !section.resolution).length} unresolved conflict(s)`);
+    this.name = 'MergeConflictError';
+  }
+}
+
+/** A session's room on the collaboration server: its content id when that names a room */
+export function sessionRoomId(session: Pick<CollaborationSession, 'id' | 'contentId'>): string {
+  return session.contentId && isValidRoomId(session.contentId) ? session.contentId : `session-${session.id}`;
+}
 
 class CollaborationService implements CollaborationAPI {
   private dataService: DataService;
-  private websocket: WebSocket | null = null;
+  private connection: CollaborationConnection | null = null;
+  private client: CollaborationClient | null = null;
   private sessionId: string | null = null;
   private eventListeners: Map<string, Function[]> = new Map();
 
   constructor() {
     this.dataService = new LocalDataService();
-    this.initializeWebSocket();
   }
 
-  private initializeWebSocket() {
-    try {
-      // In a real implementation, this would connect to your WebSocket server
-      // For now, we'll simulate real-time functionality
-      this.websocket = null; // Placeholder
-    } catch (error) {
-      console.error('Failed to initialize WebSocket:', error);
+  /**
+   * Joins the session's room on the collaboration server for presence. Lesson
+   * editors working in the same room show up as participants, with their
+   * carets, through `session:participants`.
+   */
+  private connectSession(session: CollaborationSession) {
+    this.disconnectSession();
+
+    const authHeader = authService.getAuthHeader();
+    if (!authHeader) {
+      console.warn('Not signed in; collaboration presence is unavailable');
+      return;
     }
+
+    const roomId = sessionRoomId(session);
+    const client = new CollaborationClient({
+      send: message => this.connection?.send(message) ?? Promise.resolve(),
+      onParticipants: () => {
+        const participants = client.roomParticipants.map(presence => toSessionParticipant(presence, client.text, roomId));
+        this.emit('session:participants', { sessionId: session.id, participants });
+        for (const participant of participants) {
+          if (participant.cursor) this.emit('cursor:updated', { sessionId: session.id, userId: participant.userId, position: participant.cursor });
+          if (participant.selection) this.emit('selection:updated', { sessionId: session.id, userId: participant.userId, selection: participant.selection });
+        }
+      },
+      onError: error => console.error('Failed to update collaboration presence:', error)
+    });
+
+    this.client = client;
+    this.sessionId = session.id;
+    this.connection = connectCollaboration({
+      roomId,
+      mode: 'view',
+      headers: { Authorization: authHeader },
+      onMessage: message => client.receive(message),
+      onClose: error => {
+        if (!error) return;
+        console.error('Collaboration session disconnected:', error);
+        this.emit('session:disconnected', { sessionId: session.id, error: error.message });
+      }
+    });
+  }
+
+  /** Leaves the connected room, if any */
+  disconnectSession() {
+    this.connection?.close();
+    this.connection = null;
+    this.client = null;
+  }
+
+  private currentUserId(): string {
+    return authService.getState().user?.id ?? 'current-user';
+  }
+
+  /** The signed-in admin as a reviewer; reviews are done from the admin area */
+  private currentReviewer(): Reviewer {
+    const admin = AdminAuthService.getCurrentUser();
+    if (!admin) throw new ReviewError('Sign in to the admin area to review content', 401);
+    return { id: String(admin.id), role: admin.role, name: admin.nickname, email: admin.email };
+  }
+
+  /**
+   * Stores a record under the string id callers are given. The data service
+   * assigns its own numeric id on create, so it is replaced straight away.
+   */
+  private async insert<T extends { id: string }>(collection: string, record: T): Promise<T> {
+    const stored = await this.dataService.create<{ id: string | number }>(collection, record);
+    await this.dataService.update(collection, stored.id, { id: record.id });
+    return record;
   }
 
   // Event handling for real-time updates
@@ -193,7 +308,13 @@ class CollaborationService implements CollaborationAPI {
         this.getVersion(version2Id)
       ]);
 
-      // Simple diff implementation - in production, use a proper diff library
+      // Course snapshots get a structural diff; plain text falls back to
+      // comparing the whole body
+      const [before, after] = [parseCourseSnapshot(version1.content), parseCourseSnapshot(version2.content)];
+      if (before && after) {
+        return diffCourses(before, after);
+      }
+
       const changes: ContentChange[] = [];
       
       if (version1.content !== version2.content) {
@@ -379,7 +500,7 @@ class CollaborationService implements CollaborationAPI {
     }
   }
 
-  async mergeBranches(mergeRequestId: string): Promise<ContentVersion> {
+  async mergeBranches(mergeRequestId: string, resolutions: Record<string, ConflictChoice> = {}): Promise<ContentVersion> {
     try {
       const mergeRequest = await this.getMergeRequest(mergeRequestId);
       const [sourceBranch, targetBranch] = await Promise.all([
@@ -387,15 +508,44 @@ class CollaborationService implements CollaborationAPI {
         this.getBranch(mergeRequest.targetBranchId)
       ]);
 
-      const [sourceVersion, targetVersion] = await Promise.all([
+      const [baseVersion, sourceVersion, targetVersion] = await Promise.all([
+        this.getVersion(sourceBranch.parentVersionId),
         this.getVersion(sourceBranch.currentVersionId),
         this.getVersion(targetBranch.currentVersionId)
       ]);
 
+      // Course snapshots are merged three ways from the point the source
+      // branched off; anything else is taken from the source as before
+      let content = sourceVersion.content;
+      const [base, source, target] = [baseVersion, sourceVersion, targetVersion].map(version => parseCourseSnapshot(version.content));
+      if (base && source && target) {
+        const { merged, conflicts } = mergeCourses(base, source, target, resolutions);
+        const conflict: MergeConflict = {
+          id: this.generateId(),
+          contentId: targetBranch.contentId,
+          baseVersionId: baseVersion.id,
+          sourceVersionId: sourceVersion.id,
+          targetVersionId: targetVersion.id,
+          conflicts,
+          status: conflicts.every(section => section.resolution) ? 'resolved' : 'pending',
+          createdAt: new Date()
+        };
+
+        if (conflict.status === 'pending') {
+          await this.updateMergeRequest(mergeRequestId, { conflicts: [conflict] });
+          this.emit('merge:conflict', conflict);
+          throw new MergeConflictError(conflict);
+        }
+        if (conflicts.length > 0) {
+          mergeRequest.conflicts = [{ ...conflict, resolvedBy: 'current-user', resolvedAt: new Date() }];
+        }
+        content = JSON.stringify(merged);
+      }
+
       // Create merged version
       const mergedVersion = await this.createVersion(targetBranch.contentId, {
         title: `Merged: ${sourceVersion.title}`,
-        content: sourceVersion.content, // Simple merge - in production, handle conflicts
+        content,
         metadata: { ...targetVersion.metadata, ...sourceVersion.metadata },
         authorId: mergeRequest.authorId,
         status: 'draft',
@@ -405,6 +555,7 @@ class CollaborationService implements CollaborationAPI {
       // Update merge request status
       await this.updateMergeRequest(mergeRequestId, {
         status: 'merged',
+        conflicts: mergeRequest.conflicts,
         mergedAt: new Date(),
         mergedBy: 'current-user'
       });
@@ -417,6 +568,7 @@ class CollaborationService implements CollaborationAPI {
       this.emit('branches:merged', { mergeRequest, mergedVersion });
       return mergedVersion;
     } catch (error) {
+      if (error instanceof MergeConflictError) throw error;
       console.error('Error merging branches:', error);
       throw new Error('Failed to merge branches');
     }
@@ -523,10 +675,13 @@ class CollaborationService implements CollaborationAPI {
         visibility: data.visibility || 'public',
         createdAt: new Date(),
         updatedAt: new Date(),
-        tags: data.tags || []
+        tags: data.tags || [],
+        category: data.category,
+        dialect: data.dialect,
+        anchor: data.anchor
       };
 
-      await this.dataService.create('annotations', annotation);
+      await this.insert('annotations', annotation);
       this.emit('annotation:created', annotation);
       return annotation;
     } catch (error) {
@@ -548,6 +703,45 @@ class CollaborationService implements CollaborationAPI {
     }
   }
 
+  /**
+   * Attaches an annotation to the characters `start`..`end` of a section's
+   * markdown or of a vocabulary field, by the signed-in reviewer
+   */
+  async annotateLesson(
+    lesson: Lesson,
+    target: AnnotationTarget,
+    start: number,
+    end: number,
+    details: Pick<Annotation, 'text' | 'category' | 'dialect' | 'visibility'>
+  ): Promise<Annotation> {
+    // Thrown before the try so the reviewer sees why the selection was refused
+    const anchor = createAnchor(lesson, target, start, end);
+    const text = details.text.trim();
+    if (!text) throw new AnnotationError('Write the note to attach');
+
+    return this.createAnnotation({
+      contentId: lessonContentId(lesson.slug),
+      versionId: String(lesson.version ?? 1),
+      authorId: AdminAuthService.getCurrentUser()?.id.toString() ?? this.currentUserId(),
+      type: details.category === 'accuracy' ? 'correction' : 'note',
+      text,
+      position: anchorPosition(anchor, targetText(lesson, target)!),
+      visibility: details.visibility,
+      category: details.category,
+      dialect: details.category === 'dialect' ? details.dialect : undefined,
+      anchor,
+      tags: details.category ? [details.category] : []
+    });
+  }
+
+  /** The lesson's anchored annotations; learners only get the public ones */
+  async getLessonAnnotations(lessonSlug: string, options?: { publicOnly?: boolean }): Promise<Annotation[]> {
+    const annotations = await this.getAnnotations(lessonContentId(lessonSlug));
+    return annotations
+      .filter(annotation => annotation.anchor && (!options?.publicOnly || annotation.visibility === 'public'))
+      .map(annotation => ({ ...annotation, createdAt: new Date(annotation.createdAt), updatedAt: new Date(annotation.updatedAt) }));
+  }
+
   async updateAnnotation(annotationId: string, data: Partial<Annotation>): Promise<Annotation> {
     try {
       const existingAnnotation = await this.dataService.getById('annotations', annotationId);
@@ -595,8 +789,7 @@ class CollaborationService implements CollaborationAPI {
         updatedAt: new Date()
       };
 
-      await this.dataService.create('review_workflows', workflow);
-      return workflow;
+      return await this.insert('review_workflows', workflow);
     } catch (error) {
       console.error('Error creating workflow:', error);
       throw new Error('Failed to create workflow');
@@ -662,7 +855,7 @@ class CollaborationService implements CollaborationAPI {
         history: []
       };
 
-      await this.dataService.create('review_requests', reviewRequest);
+      await this.insert('review_requests', reviewRequest);
       this.emit('review_request:created', reviewRequest);
       return reviewRequest;
     } catch (error) {
@@ -708,27 +901,176 @@ class CollaborationService implements CollaborationAPI {
   }
 
   async submitReview(requestId: string, feedback: ReviewFeedback): Promise<ReviewRequest> {
+    return this.recordReviewDecision(requestId, feedback.decision, feedback.comments);
+  }
+
+  // Course review: the workflow courses go through before they can be published
+
+  /** The active workflow for courses, created from the default on first use */
+  async getCourseWorkflow(): Promise<ReviewWorkflow> {
+    const workflows = await this.getWorkflows();
+    const existing = workflows.find(workflow => workflow.isActive && workflow.contentTypes.includes(COURSE_CONTENT_TYPE));
+    return existing ?? this.createWorkflow({ ...DEFAULT_COURSE_WORKFLOW, createdBy: 'system' });
+  }
+
+  /** The course's latest review, if it was ever submitted */
+  async getCourseReview(courseId: number): Promise<ReviewRequest | null> {
+    const requests = await this.dataService.query<ReviewRequest>('review_requests', { contentId: courseContentId(courseId) });
+    const latest = requests.map(reviveReviewRequest).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+    return latest ?? null;
+  }
+
+  /**
+   * Sends the course into review at the workflow's first step, or back into
+   * it after reviewers asked for changes. Approval covers the course as it is
+   * now; later edits need another review before publishing.
+   */
+  async submitCourseForReview(course: Course): Promise<ReviewRequest> {
     try {
-      const reviewRequest = await this.dataService.getById('review_requests', requestId) as ReviewRequest;
-      if (!reviewRequest) {
-        throw new Error('Review request not found');
+      const courseId = course.id;
+      if (courseId === undefined) throw new ReviewError('Save the course before submitting it for review');
+
+      const workflow = await this.getCourseWorkflow();
+      const existing = await this.getCourseReview(courseId);
+      const context = this.courseContext(course);
+      const versionId = courseFingerprint(course);
+      const requestedBy = String(course.authorId);
+      const now = new Date();
+
+      if (existing?.status === 'in_review') {
+        throw new ReviewError('This course is already in review', 409);
       }
 
-      const updatedFeedback = [...reviewRequest.feedback, feedback];
-      const updatedRequest = {
-        ...reviewRequest,
-        feedback: updatedFeedback,
-        status: feedback.decision === 'approve' ? 'approved' : 
-                feedback.decision === 'reject' ? 'rejected' : 'in_review',
-        updatedAt: new Date()
-      };
+      if (existing?.status === 'pending') {
+        const { request, notices } = resubmitReview(existing, workflow, context, versionId, now);
+        await this.dataService.update('review_requests', request.id, request);
+        await this.sendReviewNotices(notices);
+        this.emit('review_request:updated', request);
+        return request;
+      }
 
-      await this.dataService.update('review_requests', requestId, updatedRequest);
-      this.emit('review:submitted', { requestId, feedback });
-      return updatedRequest;
+      const { request, notices } = startReview(workflow, {
+        id: this.generateId(),
+        contentId: courseContentId(courseId),
+        versionId,
+        requestedBy,
+        context
+      }, now);
+      await this.insert('review_requests', request);
+      await this.sendReviewNotices(notices);
+      this.emit('review_request:created', request);
+      return request;
     } catch (error) {
-      console.error('Error submitting review:', error);
-      throw new Error('Failed to submit review');
+      if (error instanceof ReviewError) throw error;
+      console.error('Error submitting course for review:', error);
+      throw new Error('Failed to submit course for review');
+    }
+  }
+
+  /** Records the signed-in reviewer's decision on the review's current step */
+  async recordReviewDecision(requestId: string, decision: ReviewDecision, comments = ''): Promise<ReviewRequest> {
+    try {
+      const stored = await this.dataService.getById<ReviewRequest>('review_requests', requestId);
+      if (!stored) throw new ReviewError('Review request not found', 404);
+
+      const existing = reviveReviewRequest(stored);
+      const workflow = await this.getReviewWorkflow(existing.workflowId);
+      const context = await this.reviewContext(existing);
+      const { request, notices } = recordDecision(existing, workflow, context, this.currentReviewer(), decision, comments, rbacService, new Date());
+
+      await this.dataService.update('review_requests', request.id, request);
+      await this.sendReviewNotices(notices);
+      this.emit('review:submitted', { requestId, feedback: request.feedback[request.feedback.length - 1] });
+      this.emit('review_request:updated', request);
+      return request;
+    } catch (error) {
+      if (error instanceof ReviewError) throw error;
+      console.error('Error recording review decision:', error);
+      throw new Error('Failed to record review decision');
+    }
+  }
+
+  /** Whether the course may be published as it is now */
+  async getPublishGate(course: Course): Promise<PublishGate> {
+    const request = course.id === undefined ? null : await this.getCourseReview(course.id);
+    const workflow = request ? await this.getReviewWorkflow(request.workflowId).catch(() => undefined) : undefined;
+    return publishGate(request, courseFingerprint(course), workflow);
+  }
+
+  /**
+   * Escalates reviews whose current step is past its time limit. Safe to run
+   * often: each overdue step is escalated once. Returns the escalated reviews.
+   */
+  async checkReviewDeadlines(now = new Date()): Promise<ReviewRequest[]> {
+    try {
+      const stored = await this.dataService.query<ReviewRequest>('review_requests', { status: 'in_review' });
+      const escalated: ReviewRequest[] = [];
+
+      for (const existing of stored.map(reviveReviewRequest)) {
+        const workflow = await this.getReviewWorkflow(existing.workflowId).catch(() => undefined);
+        if (!workflow) continue;
+
+        const transition = escalateOverdue(existing, workflow, now);
+        if (!transition) continue;
+
+        await this.dataService.update('review_requests', transition.request.id, transition.request);
+        await this.sendReviewNotices(transition.notices);
+        this.emit('review:overdue', transition.request);
+        escalated.push(transition.request);
+      }
+      return escalated;
+    } catch (error) {
+      console.error('Error checking review deadlines:', error);
+      throw new Error('Failed to check review deadlines');
+    }
+  }
+
+  /** Reviews waiting on a step the reviewer can sign off, oldest due first */
+  async getReviewQueue(reviewer: Reviewer = this.currentReviewer()): Promise<ReviewRequest[]> {
+    const stored = await this.dataService.query<ReviewRequest>('review_requests', { status: 'in_review' });
+    const workflows = await this.getWorkflows();
+    const dueTime = (request: ReviewRequest) => request.dueDate?.getTime() ?? Infinity;
+
+    return stored
+      .map(reviveReviewRequest)
+      .filter(request => {
+        const workflow = workflows.find(candidate => candidate.id === request.workflowId);
+        const step = workflow && findStep(workflow, request.currentStepId);
+        return step !== undefined && canReviewStep(step, reviewer, rbacService);
+      })
+      .sort((a, b) => dueTime(a) - dueTime(b));
+  }
+
+  /** Review notifications for the reviewer, including those sent to their role */
+  async getReviewNotifications(reviewer: Reviewer = this.currentReviewer()): Promise<Notification[]> {
+    const [own, forRole] = await Promise.all([
+      this.getNotifications(reviewer.id),
+      this.getNotifications(roleRecipient(reviewer.role))
+    ]);
+    return [...own, ...forRole].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  private async getReviewWorkflow(workflowId: string): Promise<ReviewWorkflow> {
+    const workflow = await this.dataService.getById<ReviewWorkflow>('review_workflows', workflowId);
+    if (!workflow) throw new ReviewError('The review workflow no longer exists', 409);
+    return workflow;
+  }
+
+  private courseContext(course: Course) {
+    return { contentType: COURSE_CONTENT_TYPE, contentSize: course.lessons.length };
+  }
+
+  private async reviewContext(request: ReviewRequest) {
+    const courseId = Number(request.contentId.replace(/^course-/, ''));
+    const course = Number.isInteger(courseId) ? await this.dataService.getCourse(courseId).catch(() => null) : null;
+    return course ? this.courseContext(course) : { contentType: COURSE_CONTENT_TYPE };
+  }
+
+  private async sendReviewNotices(notices: ReviewNotice[]): Promise<void> {
+    for (const notice of notices) {
+      const notification: Notification = { ...notice, id: this.generateId(), read: false, createdAt: new Date() };
+      await this.insert('notifications', notification);
+      this.emit('notification:created', notification);
     }
   }
 
@@ -743,23 +1085,12 @@ class CollaborationService implements CollaborationAPI {
         status: 'active',
         startedAt: new Date(),
         lastActivity: new Date(),
-        settings: {
-          allowAnonymous: false,
-          maxParticipants: 10,
-          autoSave: true,
-          autoSaveInterval: 30,
-          conflictResolution: 'last_write_wins',
-          permissions: {
-            canEdit: [],
-            canComment: [],
-            canView: []
-          }
-        },
+        settings: this.defaultSessionSettings(),
         events: []
       };
 
       await this.dataService.create('collaboration_sessions', session);
-      this.sessionId = session.id;
+      this.connectSession(session);
       this.emit('session:started', session);
       return session;
     } catch (error) {
@@ -768,15 +1099,53 @@ class CollaborationService implements CollaborationAPI {
     }
   }
 
+  /**
+   * Rooms open on the collaboration server, as sessions whose id and content
+   * id are the room id. Lesson editors open a room per section.
+   */
+  async getLiveSessions(): Promise<CollaborationSession[]> {
+    const authHeader = authService.getAuthHeader();
+    if (!authHeader) return [];
+
+    const response = await fetch('/api/admin/collaboration', { headers: { Authorization: authHeader } });
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data?.success) {
+      throw new Error(data?.error || `Failed to load live sessions (HTTP ${response.status})`);
+    }
+
+    return (data.rooms as Array<{ roomId: string; lastActivity: string; participants: SessionParticipant[] }>).map(room => {
+      const participants = room.participants.map(participant => ({
+        ...participant,
+        joinedAt: new Date(participant.joinedAt),
+        lastSeen: new Date(participant.lastSeen)
+      }));
+      return {
+        id: room.roomId,
+        contentId: room.roomId,
+        versionId: '',
+        participants,
+        status: 'active' as const,
+        startedAt: new Date(Math.min(...participants.map(participant => participant.joinedAt.getTime()))),
+        lastActivity: new Date(room.lastActivity),
+        settings: this.defaultSessionSettings(),
+        events: []
+      };
+    });
+  }
+
   async joinCollaborationSession(sessionId: string): Promise<CollaborationSession> {
     try {
-      const session = await this.dataService.getById('collaboration_sessions', sessionId) as CollaborationSession;
-      if (!session) {
-        throw new Error('Collaboration session not found');
+      const stored = await this.dataService.getById<CollaborationSession>('collaboration_sessions', sessionId);
+      if (!stored) {
+        const live = (await this.getLiveSessions()).find(session => session.id === sessionId);
+        if (!live) throw new Error('Collaboration session not found');
+        this.connectSession(live);
+        this.emit('session:joined', { session: live });
+        return live;
       }
 
       const participant: SessionParticipant = {
-        userId: 'current-user',
+        userId: this.currentUserId(),
         role: 'editor',
         joinedAt: new Date(),
         lastSeen: new Date(),
@@ -784,13 +1153,13 @@ class CollaborationService implements CollaborationAPI {
       };
 
       const updatedSession = {
-        ...session,
-        participants: [...session.participants, participant],
+        ...stored,
+        participants: [...stored.participants.filter(p => p.userId !== participant.userId), participant],
         lastActivity: new Date()
       };
 
       await this.dataService.update('collaboration_sessions', sessionId, updatedSession);
-      this.sessionId = sessionId;
+      this.connectSession(updatedSession);
       this.emit('session:joined', { session: updatedSession, participant });
       return updatedSession;
     } catch (error) {
@@ -801,21 +1170,24 @@ class CollaborationService implements CollaborationAPI {
 
   async leaveCollaborationSession(sessionId: string): Promise<void> {
     try {
-      const session = await this.dataService.getById('collaboration_sessions', sessionId) as CollaborationSession;
-      if (!session) {
-        throw new Error('Collaboration session not found');
+      if (this.sessionId === sessionId) {
+        this.disconnectSession();
+        this.sessionId = null;
       }
 
-      const updatedParticipants = session.participants.filter(p => p.userId !== 'current-user');
-      const updatedSession = {
-        ...session,
-        participants: updatedParticipants,
-        lastActivity: new Date(),
-        status: updatedParticipants.length === 0 ? 'ended' as const : session.status
-      };
+      const session = await this.dataService.getById<CollaborationSession>('collaboration_sessions', sessionId);
+      if (session) {
+        const userId = this.currentUserId();
+        const updatedParticipants = session.participants.filter(p => p.userId !== userId);
+        const updatedSession = {
+          ...session,
+          participants: updatedParticipants,
+          lastActivity: new Date(),
+          status: updatedParticipants.length === 0 ? 'ended' as const : session.status
+        };
+        await this.dataService.update('collaboration_sessions', sessionId, updatedSession);
+      }
 
-      await this.dataService.update('collaboration_sessions', sessionId, updatedSession);
-      this.sessionId = null;
       this.emit('session:left', { sessionId });
     } catch (error) {
       console.error('Error leaving collaboration session:', error);
@@ -823,24 +1195,49 @@ class CollaborationService implements CollaborationAPI {
     }
   }
 
+  /** Shares this user's caret with the connected session */
   async updateCursor(sessionId: string, position: SessionParticipant['cursor']): Promise<void> {
     try {
-      // In a real implementation, this would update the cursor position via WebSocket
-      this.emit('cursor:updated', { sessionId, userId: 'current-user', position });
+      if (this.client && this.sessionId === sessionId) {
+        const offset = position ? positionToOffset(this.client.text, position) : null;
+        this.client.select(offset === null ? null : { anchor: offset, head: offset });
+      }
+      this.emit('cursor:updated', { sessionId, userId: this.currentUserId(), position });
     } catch (error) {
       console.error('Error updating cursor:', error);
     }
   }
 
+  /** Shares this user's selection with the connected session */
   async updateSelection(sessionId: string, selection: SessionParticipant['selection']): Promise<void> {
     try {
-      // In a real implementation, this would update the selection via WebSocket
-      this.emit('selection:updated', { sessionId, userId: 'current-user', selection });
+      if (this.client && this.sessionId === sessionId) {
+        const text = this.client.text;
+        this.client.select(selection
+          ? { anchor: positionToOffset(text, selection.start), head: positionToOffset(text, selection.end) }
+          : null);
+      }
+      this.emit('selection:updated', { sessionId, userId: this.currentUserId(), selection });
     } catch (error) {
       console.error('Error updating selection:', error);
     }
   }
 
+  private defaultSessionSettings(): CollaborationSession['settings'] {
+    return {
+      allowAnonymous: false,
+      maxParticipants: 10,
+      autoSave: true,
+      autoSaveInterval: 30,
+      conflictResolution: 'operational_transform',
+      permissions: {
+        canEdit: [],
+        canComment: [],
+        canView: []
+      }
+    };
+  }
+
   // Audit & History
   async getAuditTrail(entityType: string, entityId: string): Promise<AuditTrail[]> {
     try {
@@ -14,16 +14,16 @@ import {
   PluginRegistry 
 } from '../types/integration';
 import { DataService } from './DataService';
+import authService from './AuthService';
+import { reviveDelivery, reviveWebhook } from '../lib/webhooks/WebhookStore';
 import { validateEnvironmentVariables, getApiKeyConfig } from '../utils/envValidation';
 
 class IntegrationService implements IntegrationAPI {
   private dataService: DataService;
   private endpoints: APIEndpoint[] = [];
-  private webhooks: Webhook[] = [];
   private ssoProviders: SSOProvider[] = [];
   private ltiProviders: LTIProvider[] = [];
   private plugins: Plugin[] = [];
-  private webhookDeliveries: WebhookDelivery[] = [];
   private ssoSessions: SSOSession[] = [];
   private ltiLaunches: LTILaunch[] = [];
   private envValidation: any;
@@ -279,32 +279,6 @@ class IntegrationService implements IntegrationAPI {
       console.warn('Failed to initialize Blackboard LTI:', error);
     }
 
-    // Sample Webhooks
-    this.webhooks = [
-      {
-        id: 'webhook-1',
-        name: 'Course Completion Notification',
-        url: 'https://example.com/webhooks/course-completion',
-        events: [
-          {
-            type: 'course.completed',
-            description: 'Triggered when a user completes a course',
-            payload: { userId: 'string', courseId: 'string', completedAt: 'date' }
-          }
-        ],
-        active: true,
-        retryPolicy: {
-          maxRetries: 3,
-          backoffStrategy: 'exponential',
-          initialDelay: 1000,
-          maxDelay: 30000
-        },
-        timeout: 30000,
-        createdAt: new Date(),
-        failureCount: 0
-      }
-    ];
-
     // Initialize SSO Providers with environment variables
     this.ssoProviders = [];
     this.initializeGoogleSSO();
@@ -420,72 +394,85 @@ class IntegrationService implements IntegrationAPI {
   }
 
   // Webhook Methods
+  // Webhooks live on the server, which delivers them; these call the admin API
+
+  private async webhookRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const authHeader = authService.getAuthHeader();
+    if (!authHeader) throw new Error('Sign in again to manage webhooks');
+
+    const response = await fetch(`/api/admin/webhooks${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers, Authorization: authHeader }
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || !body.success) {
+      throw new Error(body.error || `Request failed with status ${response.status}`);
+    }
+    return body as T;
+  }
+
   async getWebhooks(): Promise<Webhook[]> {
-    return this.webhooks;
+    const { webhooks } = await this.webhookRequest<{ webhooks: Webhook[] }>('');
+    return webhooks.map(reviveWebhook);
   }
 
   async createWebhook(webhook: Omit<Webhook, 'id' | 'createdAt' | 'failureCount'>): Promise<Webhook> {
-    const newWebhook: Webhook = {
-      ...webhook,
-      id: `webhook-${Date.now()}`,
-      createdAt: new Date(),
-      failureCount: 0
-    };
-    this.webhooks.push(newWebhook);
-    await this.dataService.saveData('webhooks', this.webhooks);
-    return newWebhook;
+    const { webhook: created } = await this.webhookRequest<{ webhook: Webhook }>('', {
+      method: 'POST',
+      body: JSON.stringify(webhook)
+    });
+    return reviveWebhook(created);
   }
 
   async updateWebhook(id: string, webhook: Partial<Webhook>): Promise<Webhook> {
-    const index = this.webhooks.findIndex(w => w.id === id);
-    if (index === -1) throw new Error('Webhook not found');
-    
-    this.webhooks[index] = { ...this.webhooks[index], ...webhook };
-    await this.dataService.saveData('webhooks', this.webhooks);
-    return this.webhooks[index];
+    const { webhook: updated } = await this.webhookRequest<{ webhook: Webhook }>(`/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(webhook)
+    });
+    return reviveWebhook(updated);
   }
 
   async deleteWebhook(id: string): Promise<void> {
-    this.webhooks = this.webhooks.filter(w => w.id !== id);
-    await this.dataService.saveData('webhooks', this.webhooks);
+    await this.webhookRequest(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
   }
 
+  /** Sends a `webhook.test` event; the server picks the payload, so `event` only labels the call */
   async triggerWebhook(id: string, event: WebhookEvent): Promise<WebhookDelivery> {
-    const webhook = this.webhooks.find(w => w.id === id);
-    if (!webhook) throw new Error('Webhook not found');
-    
-    const delivery: WebhookDelivery = {
-      id: `delivery-${Date.now()}`,
-      webhookId: id,
-      event,
-      status: 'success',
-      attempts: 1,
-      lastAttempt: new Date(),
-      response: {
-        statusCode: 200,
-        headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({ received: true }),
-        duration: 150
-      }
-    };
-    
-    this.webhookDeliveries.push(delivery);
-    return delivery;
+    const { delivery } = await this.webhookRequest<{ delivery: WebhookDelivery }>(`/${encodeURIComponent(id)}/test`, {
+      method: 'POST',
+      body: JSON.stringify({ type: event.type })
+    });
+    return reviveDelivery(delivery);
   }
 
   async getWebhookDeliveries(webhookId: string): Promise<WebhookDelivery[]> {
-    return this.webhookDeliveries.filter(d => d.webhookId === webhookId);
+    const { deliveries } = await this.webhookRequest<{ deliveries: WebhookDelivery[] }>(
+      `/deliveries?webhookId=${encodeURIComponent(webhookId)}`
+    );
+    return deliveries.map(reviveDelivery);
+  }
+
+  /** Deliveries that ran out of retries and wait for a replay */
+  async getDeadLetterDeliveries(): Promise<WebhookDelivery[]> {
+    const { deliveries } = await this.webhookRequest<{ deliveries: WebhookDelivery[] }>('/deliveries?deadLettered=true');
+    return deliveries.map(reviveDelivery);
   }
 
+  /** Replays a dead-lettered delivery; answers with the new delivery */
   async retryWebhookDelivery(deliveryId: string): Promise<WebhookDelivery> {
-    const delivery = this.webhookDeliveries.find(d => d.id === deliveryId);
-    if (!delivery) throw new Error('Delivery not found');
-    
-    delivery.attempts += 1;
-    delivery.lastAttempt = new Date();
-    delivery.status = 'success';
-    
-    return delivery;
+    const { delivery } = await this.webhookRequest<{ delivery: WebhookDelivery }>(
+      `/deliveries/${encodeURIComponent(deliveryId)}/replay`,
+      { method: 'POST' }
+    );
+    return reviveDelivery(delivery);
+  }
+
+  /** Lets subscribed webhooks know an admin published a course */
+  async notifyCoursePublished(courseId: number, title: string): Promise<void> {
+    await this.webhookRequest('/events', {
+      method: 'POST',
+      body: JSON.stringify({ type: 'course.published', courseId, title })
+    });
   }
 
   // SSO Methods
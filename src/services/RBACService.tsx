@@ -19,6 +19,7 @@ export interface Role {
   level: number;
   permissions: Permission[];
   inherits?: string[]; // Role IDs this role inherits from
+  requiresTwoFactor?: boolean; // Sign-in needs an authenticator code as well as the password
 }
 
 export interface User {
@@ -28,6 +29,7 @@ export interface User {
   role: string;
   permissions?: Permission[];
   metadata?: Record<string, any>;
+  isEmailVerified?: boolean; // Unverified accounts keep only the learner permissions
 }
 
 export interface AccessContext {
@@ -71,6 +73,15 @@ export const RESOURCES = {
   SYSTEM: 'system'
 } as const;
 
+// What an account can do before its email is verified, whatever its role
+const UNVERIFIED_PERMISSION_IDS = new Set([
+  'student-read-own-profile',
+  'student-update-own-profile',
+  'student-read-lessons',
+  'student-read-vocabulary',
+  'student-manage-own-progress'
+]);
+
 // Default Permissions
 const DEFAULT_PERMISSIONS: Record<string, Permission[]> = {
   student: [
@@ -179,6 +190,29 @@ const DEFAULT_PERMISSIONS: Record<string, Permission[]> = {
       description: 'Can manage application settings',
       resource: RESOURCES.SETTINGS,
       action: ACTIONS.MANAGE
+    },
+    {
+      id: 'admin-approve-content',
+      name: 'Approve Content',
+      description: 'Can give the final approval to publish content',
+      resource: RESOURCES.CONTENT,
+      action: ACTIONS.APPROVE
+    }
+  ],
+  reviewer: [
+    {
+      id: 'reviewer-read-content',
+      name: 'Read Content',
+      description: 'Can read content submitted for review',
+      resource: RESOURCES.CONTENT,
+      action: ACTIONS.READ
+    },
+    {
+      id: 'reviewer-approve-content',
+      name: 'Approve Content',
+      description: 'Can sign off content in editorial review',
+      resource: RESOURCES.CONTENT,
+      action: ACTIONS.APPROVE
     }
   ]
 };
@@ -205,12 +239,42 @@ const DEFAULT_ROLES: Record<string, Role> = {
     name: 'Administrator',
     description: 'Administrator with full system access',
     level: 3,
+    requiresTwoFactor: true,
     permissions: [
       ...DEFAULT_PERMISSIONS.student,
       ...DEFAULT_PERMISSIONS.instructor,
       ...DEFAULT_PERMISSIONS.admin
     ],
     inherits: ['student', 'instructor']
+  },
+  super_admin: {
+    id: 'super_admin',
+    name: 'Super Administrator',
+    description: 'Administrator who also manages other administrators',
+    level: 4,
+    requiresTwoFactor: true,
+    permissions: [
+      ...DEFAULT_PERMISSIONS.student,
+      ...DEFAULT_PERMISSIONS.instructor,
+      ...DEFAULT_PERMISSIONS.admin
+    ],
+    inherits: ['student', 'instructor', 'admin']
+  },
+  linguist: {
+    id: 'linguist',
+    name: 'Linguist',
+    description: 'Tahitian language advisor who signs off the language of courses',
+    level: 2,
+    permissions: [...DEFAULT_PERMISSIONS.student, ...DEFAULT_PERMISSIONS.reviewer],
+    inherits: ['student']
+  },
+  cultural_advisor: {
+    id: 'cultural_advisor',
+    name: 'Cultural Advisor',
+    description: 'Advisor who signs off the cultural content of courses',
+    level: 2,
+    permissions: [...DEFAULT_PERMISSIONS.student, ...DEFAULT_PERMISSIONS.reviewer],
+    inherits: ['student']
   }
 };
 
@@ -243,6 +307,10 @@ class RBACService {
     return this.roles.get(roleId);
   }
 
+  public requiresTwoFactor(roleId: string): boolean {
+    return this.roles.get(roleId)?.requiresTwoFactor === true;
+  }
+
   public getAllRoles(): Role[] {
     return Array.from(this.roles.values());
   }
@@ -289,7 +357,7 @@ class RBACService {
 
   // User Permission Resolution
   public getUserPermissions(user: User): Permission[] {
-    const cacheKey = `${user.id}-${user.role}`;
+    const cacheKey = `${user.id}-${user.role}-${user.isEmailVerified !== false}`;
     const cached = this.userPermissionCache.get(cacheKey);
     const expiry = this.cacheExpiry.get(cacheKey);
 
@@ -337,6 +405,10 @@ class RBACService {
       });
     }
 
+    if (user.isEmailVerified === false) {
+      return Array.from(permissions.values()).filter(permission => UNVERIFIED_PERMISSION_IDS.has(permission.id));
+    }
+
     return Array.from(permissions.values());
   }
 
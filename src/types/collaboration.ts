@@ -56,6 +56,22 @@ export interface ContentChange {
   metadata?: Record<string, any>;
 }
 
+/** Kind of course node a structural change applies to */
+export type StructuralEntity = 'course' | 'media' | 'lesson' | 'section' | 'vocab' | 'exercise';
+
+/**
+ * A change in the course tree. `section` holds the node path, e.g.
+ * `lessons[salutations].sections[Vocabulary:salutations].vocab[ia ora na]`
+ */
+export interface StructuralChange extends ContentChange {
+  entity: StructuralEntity;
+  label: string;
+  /** Slug of the lesson the change belongs to, if any */
+  lesson?: string;
+  /** Field of the node that changed; `order` when its children were reordered */
+  field?: string;
+}
+
 export interface Comment {
   id: string;
   contentId: string;
@@ -123,6 +139,41 @@ export interface Annotation {
   createdAt: Date;
   updatedAt: Date;
   tags: string[];
+  /** What the reviewer is flagging, for annotations on lesson text */
+  category?: AnnotationCategory;
+  /** The dialect a `dialect` annotation says the span belongs to */
+  dialect?: PolynesianDialect;
+  /** Where in the lesson the annotation is attached; re-found after edits */
+  anchor?: AnnotationAnchor;
+}
+
+export type AnnotationCategory = 'dialect' | 'accuracy' | 'cultural';
+
+export type PolynesianDialect = 'tahitian' | 'marquesan' | 'paumotu' | 'austral' | 'mangarevan';
+
+/** Vocabulary item fields an annotation can be attached to */
+export type VocabAnnotationField = 'fr' | 'tah' | 'en' | 'note';
+
+/**
+ * A span of a lesson section's markdown or of one vocabulary field. The quoted
+ * text and its surroundings find the span again when the text around it is
+ * edited; the offsets are where it was last seen.
+ */
+export interface AnnotationAnchor {
+  lessonSlug: string;
+  sectionIndex: number;
+  sectionKind: string;
+  field: 'contentMd' | VocabAnnotationField;
+  vocabIndex?: number;
+  /** The vocabulary item's French and Tahitian, to find it if the list is reordered */
+  vocabKey?: string;
+  quote: {
+    exact: string;
+    prefix: string;
+    suffix: string;
+  };
+  start: number;
+  end: number;
 }
 
 export interface ReviewWorkflow {
@@ -220,6 +271,9 @@ export interface CollaborationSession {
 
 export interface SessionParticipant {
   userId: string;
+  /** Display name and caret colour from the collaboration server */
+  name?: string;
+  color?: string;
   role: 'host' | 'editor' | 'viewer';
   joinedAt: Date;
   lastSeen: Date;
@@ -269,6 +323,9 @@ export interface MergeConflict {
   createdAt: Date;
 }
 
+/** Which branch wins a conflict: the incoming source or the current target */
+export type ConflictChoice = 'source' | 'target';
+
 export interface ConflictSection {
   id: string;
   section: string;
@@ -408,7 +465,7 @@ export interface CollaborationAPI {
   getMergeRequests(options?: { status?: string; author?: string }): Promise<MergeRequest[]>;
   getMergeRequest(mergeRequestId: string): Promise<MergeRequest>;
   updateMergeRequest(mergeRequestId: string, data: Partial<MergeRequest>): Promise<MergeRequest>;
-  mergeBranches(mergeRequestId: string): Promise<ContentVersion>;
+  mergeBranches(mergeRequestId: string, resolutions?: Record<string, ConflictChoice>): Promise<ContentVersion>;
   
   // Comments & Annotations
   createComment(data: Partial<Comment>): Promise<Comment>;
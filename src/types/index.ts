@@ -1,5 +1,7 @@
 // Core type definitions for Tahitian French Tutor
 
+import type { StructuralChange } from './collaboration';
+
 export type LessonLevel = 'Beginner' | 'Intermediate' | 'Advanced';
 export type SectionKind = 'Objectives' | 'Vocabulary' | 'Practice' | 'Culture' | 'Assessment' | 'Review';
 export type ExerciseType = 'MCQ' | 'Match' | 'Ordering' | 'Dictation' | 'Pronunciation' | 'FillBlank' | 'Roleplay';
@@ -59,7 +61,8 @@ export interface Lesson {
 }
 
 export interface UserProgress {
-  userId: number;
+  /** Id of the authenticated user (AuthService `User.id`) */
+  userId: string;
   lessonId: number;
   sectionKind: SectionKind;
   completed: boolean;
@@ -68,6 +71,101 @@ export interface UserProgress {
   updatedAt: number;
 }
 
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewCard {
+  id: string;
+  userId: string;
+  lessonSlug: string;
+  vocab: VocabItem;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: number;
+  lastReviewedAt?: number;
+  createdAt: number;
+}
+
+export interface PhrasebookFolder {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface PhrasebookEntry {
+  id: string;
+  userId: string;
+  vocab: VocabItem;
+  lessonSlug?: string;
+  folderId?: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** One completed run through a section's exercises, the unit streaks and XP are built from */
+export interface LearningActivity {
+  id: string;
+  userId: string;
+  lessonId: number;
+  sectionKind: SectionKind;
+  xp: number;
+  score: number;
+  completed: boolean;
+  occurredAt: number;
+}
+
+export interface WeeklyGoals {
+  lessons: number;
+  xp: number;
+  activeDays: number;
+}
+
+export interface GamificationSettings {
+  userId: string;
+  weeklyGoals: WeeklyGoals;
+  /** IANA timezone that decides where a day ends; defaults to the device's */
+  timezone?: string;
+  /** Achievement id -> time it was first unlocked */
+  unlockedAchievements: Record<string, number>;
+  updatedAt: number;
+}
+
+export type PackScope = 'lesson' | 'level';
+export type PackResourceKind = 'page' | 'data' | MediaKind;
+
+export interface PackResource {
+  url: string;
+  kind: PackResourceKind;
+  mediaId?: number;
+  /** Expected hex digest from `MediaAsset.sha256`, when the asset has one */
+  sha256?: string;
+}
+
+export type PackStatus = 'downloading' | 'complete' | 'partial' | 'failed';
+
+export interface StoredPackResource extends PackResource {
+  bytes: number;
+  /** True when the bytes matched `sha256`; resources without a checksum are never verified */
+  verified: boolean;
+  error?: string;
+}
+
+/** A lesson or level downloaded for offline use; its files live in Cache Storage */
+export interface OfflinePack {
+  id: string;
+  scope: PackScope;
+  label: string;
+  lessonSlugs: string[];
+  resources: StoredPackResource[];
+  totalBytes: number;
+  status: PackStatus;
+  downloadedAt?: number;
+  updatedAt: number;
+}
+
 export interface MediaAsset {
   id: number;
   kind: MediaKind;
@@ -104,11 +202,18 @@ export interface LessonHeaderProps {
   onStartLesson: () => void;
 }
 
+export interface TabItem {
+  id: string;
+  label: string;
+  icon?: React.ReactNode;
+  count?: number;
+}
+
 export interface TabNavigationProps {
-  sections: LessonSection[];
-  activeTab: SectionKind;
-  onTabChange: (tab: SectionKind) => void;
-  completedSections: Set<SectionKind>;
+  activeTab: string;
+  onTabChange: (tab: string) => void;
+  /** Replaces the default section tabs */
+  customTabs?: TabItem[];
 }
 
 export interface ProgressDrawerProps {
@@ -172,6 +277,8 @@ export interface PronunciationExerciseData {
   target: string;
   threshold: number;
   audioUrl?: string;
+  /** Tahitian IPA of the target; defaults to the `ipaTah` of the lesson vocab it matches */
+  ipa?: string;
 }
 
 export interface FillBlankExerciseData {
@@ -192,6 +299,26 @@ export interface RoleplayExerciseData {
   }>;
 }
 
+// Exercise Answer Types
+export type ExerciseAnswer =
+  | { type: 'MCQ'; selectedIndex: number }
+  | { type: 'Match'; pairs: Record<string, string> }
+  | { type: 'Ordering'; order: number[] }
+  | { type: 'Dictation'; text: string }
+  | { type: 'Pronunciation'; transcript: string; accuracy: number }
+  | { type: 'FillBlank'; answers: string[] }
+  | { type: 'Roleplay'; choices: Record<number, number> };
+
+export interface ExerciseResult {
+  exerciseIndex: number;
+  type: ExerciseType;
+  correct: boolean;
+  score: number;
+  pointsAwarded: number;
+  pointsPossible: number;
+  explanation?: string;
+}
+
 // API Response Types
 export interface ApiResponse<T> {
   data: T;
@@ -205,7 +332,7 @@ export interface LessonListResponse {
 }
 
 // Admin Types
-export type UserRole = 'student' | 'admin' | 'super_admin';
+export type UserRole = 'student' | 'admin' | 'super_admin' | 'linguist' | 'cultural_advisor';
 export type CourseStatus = 'draft' | 'review' | 'published' | 'archived';
 export type ImportStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
@@ -239,6 +366,59 @@ export interface Course extends CourseMetadata {
   mediaAssets: MediaAsset[];
 }
 
+/** Snapshot of a course saved from the versions page */
+export interface CourseVersion {
+  version: number;
+  courseData: Course;
+  createdAt: number;
+}
+
+export type ImportFormat = 'course-json' | 'lesson-json' | 'course-csv' | 'vocab-sheet' | 'anki-package' | 'anki-text';
+
+/** A problem with one row, record or note of an uploaded file */
+export interface ValidationError {
+  /** 1-based row, record or note number in the source; 0 for the whole file */
+  row: number;
+  field: string;
+  message: string;
+  value?: unknown;
+  severity: 'error' | 'warning';
+  /** Sheet, deck or lesson file the row came from */
+  source?: string;
+}
+
+/** What committing an import would do to one course */
+export interface ImportCoursePlan {
+  action: 'create' | 'update';
+  /** The course as it will be saved; keeps its id when updating */
+  course: Course | Omit<Course, 'id' | 'createdAt' | 'updatedAt'>;
+  /** Structural changes against the existing course; every node is an addition for new courses */
+  changes: StructuralChange[];
+}
+
+/** Dry-run result of an import */
+export interface ImportReport {
+  format: ImportFormat;
+  validationErrors: ValidationError[];
+  plans: ImportCoursePlan[];
+  summary: {
+    courses: number;
+    lessons: number;
+    vocab: number;
+    errors: number;
+    warnings: number;
+  };
+}
+
+/** Settings chosen on the import page */
+export interface ImportOptions {
+  /** Course that vocabulary and lesson files are added to; a new course when omitted */
+  targetCourseId?: number;
+  /** Title of the course created when there is no target course */
+  courseTitle?: string;
+  level?: LessonLevel;
+}
+
 export interface BulkImportJob {
   id: string;
   filename: string;
@@ -248,7 +428,12 @@ export interface BulkImportJob {
   errors: string[];
   createdAt: number;
   completedAt?: number;
-  createdBy: number;
+  /** Id of the signed-in user who uploaded the file */
+  createdBy: string;
+  format?: ImportFormat;
+  report?: ImportReport;
+  /** Set once the planned courses were handed out for saving */
+  committedAt?: number;
 }
 
 export interface AdminDashboardStats {
@@ -87,6 +87,24 @@ export interface WebhookDelivery {
   nextAttempt?: Date;
   response?: WebhookResponse;
   error?: string;
+  createdAt?: Date;
+  /** Every attempt made for this delivery, oldest first */
+  history?: WebhookAttempt[];
+  /** Set when retries ran out; the delivery then waits in the dead-letter list */
+  deadLetteredAt?: Date;
+  /** First delivery of the event when this one is a replay */
+  replayOf?: string;
+  /** Set on a dead-lettered delivery once an admin has replayed it */
+  replayedAt?: Date;
+}
+
+export interface WebhookAttempt {
+  attempt: number;
+  at: Date;
+  /** Missing when no response came back (network error or timeout) */
+  statusCode?: number;
+  duration: number;
+  error?: string;
 }
 
 export interface WebhookResponse {
@@ -193,6 +211,70 @@ export interface LTILaunch {
   signature: string;
 }
 
+/** An LMS registered with us as an LTI 1.3 platform */
+export interface LTIPlatformRegistration {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  deploymentIds: string[];
+  /** OIDC authorization endpoint that login initiation redirects to */
+  authLoginUrl: string;
+  /** OAuth 2 token endpoint used for Assignment and Grade Services */
+  authTokenUrl: string;
+  jwksUrl: string;
+}
+
+export type LTIMessageType = 'LtiResourceLinkRequest' | 'LtiDeepLinkingRequest';
+
+/** An OIDC login in flight, kept until the platform posts the id_token back */
+export interface LTILoginState {
+  state: string;
+  nonce: string;
+  platformId: string;
+  targetLinkUri: string;
+  expiresAt: number;
+}
+
+export interface LTIGradeService {
+  lineItem?: string;
+  lineItems?: string;
+  scopes: string[];
+}
+
+export interface LTIDeepLinkingSettings {
+  returnUrl: string;
+  acceptTypes: string[];
+  acceptMultiple: boolean;
+  /** Opaque value the platform expects back in the response */
+  data?: string;
+}
+
+/** A validated LTI 1.3 launch */
+export interface LTI13Launch {
+  id: string;
+  platformId: string;
+  deploymentId: string;
+  messageType: LTIMessageType;
+  /** App user id derived from the platform and `sub` claim */
+  userId: string;
+  /** The platform's `sub` claim; grades are posted for this id */
+  subject: string;
+  name?: string;
+  email?: string;
+  roles: string[];
+  contextId?: string;
+  contextTitle?: string;
+  resourceLinkId?: string;
+  /** Lesson chosen through deep linking, from the `lesson_slug` custom parameter */
+  lessonSlug?: string;
+  custom: Record<string, string>;
+  ags?: LTIGradeService;
+  deepLinking?: LTIDeepLinkingSettings;
+  createdAt: number;
+  expiresAt: number;
+}
+
 export interface Plugin {
   id: string;
   name: string;
@@ -517,6 +517,44 @@ export function getTimezoneOffset(locale: string, date: Date = new Date()): stri
   }
 }
 
+/**
+ * Resolve the timezone used to decide which calendar day a moment belongs to:
+ * an explicit preference, then the device's timezone, then the locale default
+ */
+export function resolveTimeZone(locale: string, preferred?: string): string {
+  const candidates = [
+    preferred,
+    typeof Intl !== 'undefined' ? Intl.DateTimeFormat().resolvedOptions().timeZone : undefined,
+    getLocaleConfig(locale).timezone
+  ];
+
+  for (const timeZone of candidates) {
+    if (!timeZone) continue;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return timeZone;
+    } catch (error) {
+      logger.warn('Ignoring invalid timezone', { timeZone, error });
+    }
+  }
+  return 'UTC';
+}
+
+/**
+ * Calendar day of a moment in the given timezone, as `YYYY-MM-DD`
+ */
+export function getDayKey(date: Date | string | number, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(new Date(date));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
 /**
  * Locale formatting utility class
  */
@@ -577,6 +615,10 @@ export class LocaleFormatter {
     return getTimezoneOffset(this.locale, date);
   }
   
+  getDayKey(date: Date | string | number, timeZone?: string): string {
+    return getDayKey(date, resolveTimeZone(this.locale, timeZone));
+  }
+  
   get currency(): string {
     return this.config.currency;
   }
@@ -611,6 +653,8 @@ export default {
   formatList,
   parseNumber,
   getTimezoneOffset,
+  resolveTimeZone,
+  getDayKey,
   LocaleFormatter,
   createLocaleFormatter,
   LOCALE_CONFIGS
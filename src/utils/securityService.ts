@@ -1,6 +1,8 @@
 // Security service for API key management and audit logging
 
 import CryptoJS from 'crypto-js';
+import authService from '../services/AuthService';
+import type { Lockout } from '../lib/auth/RateLimiter';
 
 export interface AuditLogEntry {
   id: string;
@@ -357,6 +359,36 @@ class SecurityService {
       lastKeyRotation: null // Would track actual rotation dates in production
     };
   }
+
+  // Lockouts live on the server, which enforces them; these call the admin API
+
+  private async lockoutRequest<T>(init: RequestInit = {}): Promise<T> {
+    const authHeader = authService.getAuthHeader();
+    if (!authHeader) throw new Error('Sign in again to manage lockouts');
+
+    const response = await this.secureApiCall('/api/admin/security/lockouts', {
+      ...init,
+      headers: { ...init.headers, Authorization: authHeader }
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || !body.success) {
+      throw new Error(body.error || `Request failed with status ${response.status}`);
+    }
+    return body as T;
+  }
+
+  public async getLockouts(): Promise<Lockout[]> {
+    const { lockouts } = await this.lockoutRequest<{ lockouts: Lockout[] }>();
+    return lockouts;
+  }
+
+  public async clearLockout(lockout: Pick<Lockout, 'action' | 'scope' | 'subject'>): Promise<void> {
+    await this.lockoutRequest({
+      method: 'DELETE',
+      body: JSON.stringify({ action: lockout.action, scope: lockout.scope, subject: lockout.subject })
+    });
+    this.logAuditEvent('delete', `lockout:${lockout.action}:${lockout.scope}`, `Lockout cleared for ${lockout.subject}`);
+  }
 }
 
 export const securityService = SecurityService.getInstance();